@@ -7,6 +7,8 @@ import { Request, Response, NextFunction } from 'express';
 import { abTestingFramework } from '../services/ab-testing.service';
 import { ResponseHandler, ValidationHelper } from '../common/response.handler';
 
+const MAX_EVENTS_PER_REQUEST = 100;
+
 export class AbTestingController {
   /**
    * Create a new A/B test
@@ -115,6 +117,84 @@ export class AbTestingController {
     }
   }
 
+  /**
+   * Get the traffic allocation history of a bandit test
+   */
+  async getAllocationHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { testId } = req.params;
+      
+      const missingFields = ValidationHelper.validateRequiredFields(req.params, ['testId']);
+      if (missingFields.length > 0) {
+        ResponseHandler.badRequest(res, 'Missing required fields', missingFields);
+        return;
+      }
+
+      const history = await abTestingFramework.getAllocationHistory(testId);
+
+      ResponseHandler.success(res, history);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Serve the visitor's variant for a running test
+   */
+  async serveVariant(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { visitor_id, test_id, content_id } = req.query as Record<string, string | undefined>;
+
+      const missingFields = ValidationHelper.validateRequiredFields(req.query, ['visitor_id']);
+      if (missingFields.length > 0) {
+        ResponseHandler.badRequest(res, 'Missing required fields', missingFields);
+        return;
+      }
+
+      if (!test_id && !content_id) {
+        ResponseHandler.badRequest(res, 'Either test_id or content_id is required');
+        return;
+      }
+
+      const assignment = await abTestingFramework.serveVariant({ visitor_id: visitor_id!, test_id, content_id });
+
+      ResponseHandler.success(res, assignment);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Ingest impression, click, conversion and exit events
+   */
+  async trackEvents(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Beacons arrive as text/plain to avoid a CORS preflight
+      const body = typeof req.body === 'string' ? JSON.parse(req.body || '{}') : req.body;
+      const events = Array.isArray(body?.events) ? body.events : body?.type ? [body] : null;
+
+      if (!events || events.length === 0) {
+        ResponseHandler.badRequest(res, 'events must be a non-empty array');
+        return;
+      }
+
+      if (events.length > MAX_EVENTS_PER_REQUEST) {
+        ResponseHandler.badRequest(res, `At most ${MAX_EVENTS_PER_REQUEST} events per request`);
+        return;
+      }
+
+      const result = await abTestingFramework.recordEvents(events);
+
+      ResponseHandler.success(res, result);
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        ResponseHandler.badRequest(res, 'Invalid JSON body');
+        return;
+      }
+      next(error);
+    }
+  }
+
   /**
    * Generate content variants using AI
    */
@@ -163,7 +243,7 @@ export class AbTestingController {
 
       const optimization = await abTestingFramework.autoOptimizeContent(content_id);
 
-      ResponseHandler.success(res, optimization);
+      ResponseHandler.created(res, optimization, 'Optimization test started');
     } catch (error) {
       next(error);
     }
@@ -0,0 +1,93 @@
+/**
+ * AI Routing Controller
+ * Admin endpoints for the per-task, per-project AI provider routing policies
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ResponseHandler } from '../common/response.handler';
+import { AI_TASK_TYPES, aiRoutingService } from '../services/ai-routing.service';
+import type { AITaskType } from '../types/ai-routing.types';
+
+const isTask = (value: unknown): value is AITaskType => AI_TASK_TYPES.includes(value as AITaskType);
+
+export class AIRoutingController {
+  /**
+   * List the stored routing policies and the models they can route to
+   */
+  async listPolicies(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      ResponseHandler.success(res, {
+        policies: aiRoutingService.listPolicies(),
+        task_types: AI_TASK_TYPES,
+        models: aiRoutingService.getModelOptions()
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Add or replace a routing policy; applies to the next AI call, no restart needed
+   */
+  async updatePolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const policy = aiRoutingService.setPolicy(req.body || {}, req.user?.id);
+
+      ResponseHandler.success(res, policy, 'Routing policy updated successfully');
+    } catch (error: any) {
+      if (error.message?.startsWith('Invalid routing policy')) {
+        ResponseHandler.badRequest(res, error.message);
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Remove the policy of a task ('*' for all tasks), for ?project_id= or for all projects
+   */
+  async deletePolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { task } = req.params;
+      const projectId = typeof req.query.project_id === 'string' && req.query.project_id ? req.query.project_id : undefined;
+
+      if (task !== '*' && !isTask(task)) {
+        ResponseHandler.badRequest(res, `task must be one of ${['*', ...AI_TASK_TYPES].join(', ')}`);
+        return;
+      }
+
+      if (!aiRoutingService.deletePolicy(task, projectId)) {
+        ResponseHandler.notFound(res, `No routing policy for ${task}${projectId ? ` in project ${projectId}` : ''}`);
+        return;
+      }
+
+      ResponseHandler.success(res, null, 'Routing policy deleted successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Preview the providers and models a task would be routed to
+   */
+  async resolveRoute(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { task, project_id, language } = req.query;
+
+      if (!isTask(task)) {
+        ResponseHandler.badRequest(res, `task must be one of ${AI_TASK_TYPES.join(', ')}`);
+        return;
+      }
+
+      const route = aiRoutingService.resolveRoute({
+        task,
+        project_id: typeof project_id === 'string' && project_id ? project_id : undefined,
+        language: typeof language === 'string' && language ? language : undefined
+      });
+
+      ResponseHandler.success(res, route);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -5,7 +5,56 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { ResponseHandler, ValidationHelper } from '../common/response.handler';
-import { costOptimizationService } from '../services/cost-optimization.service';
+import { BudgetTarget, costOptimizationService } from '../services/cost-optimization.service';
+import { costReportService } from '../services/cost-report.service';
+import type { ArticleCostReport, BudgetScope, CostStage } from '../types/cost-optimization.types';
+
+/**
+ * Budget addressed by a request: a project_id or user_id selects that budget, otherwise the global one
+ */
+const getBudgetTarget = (source: Record<string, unknown>): BudgetTarget => {
+  if (typeof source.project_id === 'string' && source.project_id) {
+    return { scope: 'project', scope_id: source.project_id };
+  }
+  if (typeof source.user_id === 'string' && source.user_id) {
+    return { scope: 'user', scope_id: source.user_id };
+  }
+  return { scope: 'global' };
+};
+
+const csvCell = (value: unknown): string => {
+  let text = value === undefined || value === null ? '' : String(value);
+  // Text starting like a formula (e.g. a scraped title) must not run when the CSV is opened in a spreadsheet
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per article plus totals, amounts in USD
+ */
+const articleCostReportToCSV = (report: ArticleCostReport): string => {
+  const amounts = (costs: ArticleCostReport['totals']) =>
+    [costs.text, costs.images, costs.translation, costs.seo, costs.total].map(cost => cost.toFixed(4));
+
+  const rows = [
+    ['Content ID', 'Title', 'Keyword ID', 'URL', 'Published At', 'AI Calls', 'Text', 'Images', 'Translation', 'SEO APIs', 'Total'],
+    ...report.articles.map(article => [
+      article.content_id,
+      article.title,
+      article.keyword_id,
+      article.url,
+      article.published_at,
+      article.calls,
+      ...amounts(article.costs)
+    ]),
+    ['TOTAL', `${report.articles.length} articles`, '', '', '', '', ...amounts(report.totals)],
+    ['UNATTRIBUTED', 'Spend not tied to a published article', '', '', '', '', '', '', '', '', report.unattributed_cost.toFixed(4)]
+  ];
+
+  return rows.map(row => row.map(csvCell).join(',')).join('\n');
+};
 
 export class CostOptimizationController {
   /**
@@ -60,9 +109,12 @@ export class CostOptimizationController {
    */
   async getCostAnalytics(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { period = 'monthly' } = req.query;
+      const { period = 'monthly', project_id } = req.query;
       
-      const analytics = await costOptimizationService.getCostAnalytics(period as 'monthly' | 'daily' | 'weekly' | undefined);
+      const analytics = await costOptimizationService.getCostAnalytics(
+        period as 'monthly' | 'daily' | 'weekly' | undefined,
+        project_id as string | undefined
+      );
 
       ResponseHandler.success(res, analytics);
     } catch (error) {
@@ -70,6 +122,124 @@ export class CostOptimizationController {
     }
   }
 
+  /**
+   * Get recorded AI calls, filterable by project, workflow, provider and time range
+   */
+  async getUsage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const {
+        project_id, workflow_id, user_id, keyword_id, content_id, stage, provider, since, until, limit
+      } = req.query as Record<string, string | undefined>;
+
+      const usage = await costOptimizationService.getUsage({
+        project_id,
+        workflow_id,
+        user_id,
+        keyword_id,
+        content_id,
+        stage: stage as CostStage | undefined,
+        provider,
+        since,
+        until,
+        limit: limit ? Math.min(parseInt(limit, 10) || 100, 1000) : undefined
+      });
+
+      ResponseHandler.success(res, usage);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the per-provider AI price table
+   */
+  async getPriceTable(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const prices = await costOptimizationService.getPriceTable();
+
+      ResponseHandler.success(res, { prices });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Add or update AI price table entries
+   */
+  async updatePriceTable(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { prices } = req.body;
+
+      if (!Array.isArray(prices) || prices.length === 0) {
+        ResponseHandler.badRequest(res, 'prices array is required');
+        return;
+      }
+
+      const updated = await costOptimizationService.updatePriceTable(prices);
+
+      ResponseHandler.success(res, { prices: updated }, 'Price table updated successfully');
+    } catch (error: any) {
+      if (error.message?.startsWith('Invalid price entry')) {
+        ResponseHandler.badRequest(res, error.message);
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Remove an AI price table entry
+   */
+  async deletePrice(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { provider, model } = req.params;
+
+      const deleted = await costOptimizationService.deletePrice(provider, model);
+      if (!deleted) {
+        ResponseHandler.notFound(res, `No price entry for ${provider}/${model}`);
+        return;
+      }
+
+      ResponseHandler.success(res, null, 'Price entry deleted successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Spend per published article of a project, by stage; ?format=csv downloads it for invoicing
+   */
+  async getArticleCostReport(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { project_id, since, until, format = 'json' } = req.query;
+
+      if (typeof project_id !== 'string' || !project_id) {
+        ResponseHandler.badRequest(res, 'project_id is required', ['project_id']);
+        return;
+      }
+      if (format !== 'json' && format !== 'csv') {
+        ResponseHandler.badRequest(res, 'format must be "json" or "csv"');
+        return;
+      }
+
+      const report = await costReportService.getArticleCostReport({
+        project_id,
+        since: typeof since === 'string' ? since : undefined,
+        until: typeof until === 'string' ? until : undefined
+      });
+
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="article-costs-${project_id}.csv"`);
+        res.send(articleCostReportToCSV(report));
+      } else {
+        ResponseHandler.success(res, report);
+      }
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get cost optimization recommendations
    */
@@ -88,7 +258,12 @@ export class CostOptimizationController {
    */
   async getBudgetStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const budgetStatus = await costOptimizationService.getBudgetStatus();
+      const target = getBudgetTarget(req.query);
+      const budgetStatus = await costOptimizationService.getBudgetStatus(target);
+      if (!budgetStatus) {
+        ResponseHandler.notFound(res, `No budget configured for ${target.scope} ${target.scope_id}`);
+        return;
+      }
 
       ResponseHandler.success(res, budgetStatus);
     } catch (error) {
@@ -97,20 +272,65 @@ export class CostOptimizationController {
   }
 
   /**
-   * Update budget configuration
+   * Update budget configuration (global, or of the project_id / user_id in the body)
    */
   async updateBudgetConfig(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const budgetConfig = req.body;
+      const { project_id, user_id, ...budgetConfig } = req.body || {};
       
-      if (!budgetConfig || Object.keys(budgetConfig).length === 0) {
+      if (Object.keys(budgetConfig).length === 0) {
         ResponseHandler.badRequest(res, 'Budget configuration is required');
         return;
       }
 
-      await costOptimizationService.setBudgetConfig(budgetConfig);
+      const budget = await costOptimizationService.setBudgetConfig(
+        budgetConfig,
+        getBudgetTarget({ project_id, user_id }),
+        req.user?.id
+      );
+
+      ResponseHandler.success(res, budget, 'Budget configuration updated successfully');
+    } catch (error: any) {
+      if (error.message?.startsWith('Invalid budget')) {
+        ResponseHandler.badRequest(res, error.message);
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * List the global, project and user budgets
+   */
+  async listBudgets(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const budgets = await costOptimizationService.listBudgets();
+
+      ResponseHandler.success(res, { budgets });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a project or user budget
+   */
+  async deleteBudget(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { scope, scopeId } = req.params;
+
+      if (scope !== 'project' && scope !== 'user') {
+        ResponseHandler.badRequest(res, 'scope must be project or user');
+        return;
+      }
+
+      const deleted = await costOptimizationService.deleteBudget({ scope: scope as BudgetScope, scope_id: scopeId });
+      if (!deleted) {
+        ResponseHandler.notFound(res, `No budget configured for ${scope} ${scopeId}`);
+        return;
+      }
 
-      ResponseHandler.success(res, null, 'Budget configuration updated successfully');
+      ResponseHandler.success(res, null, 'Budget deleted successfully');
     } catch (error) {
       next(error);
     }
@@ -16,4 +16,5 @@ export { ExternalSeoController } from './external-seo.controller';
 export { AdvancedAnalyticsController } from './advanced-analytics.controller';
 export { AbTestingController } from './ab-testing.controller';
 export { CostOptimizationController } from './cost-optimization.controller';
+export { AIRoutingController } from './ai-routing.controller';
 export { AiController } from './ai.controller';
\ No newline at end of file
@@ -5,7 +5,9 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { ResponseHandler, ValidationHelper } from '../common/response.handler';
+import { validateWorkflowDefinition } from '@k2w/utils';
 import { k2wUnifiedService } from '../services/k2w-unified.service';
+import { getUserRoles } from '../middleware/auth.middleware';
 import { aiContentGenerator } from '../services/ai-content-generator.service';
 import { aiImageGenerator } from '../services/ai-image-generator.service';
 import { aiTranslationService } from '../services/ai-translation.service';
@@ -37,9 +39,20 @@ export class K2WWorkflowController {
         image_generation_enabled: true,
         translation_enabled: false,
         seo_optimization_level: 'advanced',
-        ...workflowOptions
+        ...workflowOptions,
+        // Budgets are charged to the signed-in user, never to one named in the body
+        user_id: req.user?.id
       };
 
+      if (workflowOptions.definition !== undefined) {
+        const validation = validateWorkflowDefinition(workflowOptions.definition);
+        if (!validation.isValid) {
+          ResponseHandler.unprocessableEntity(res, 'Invalid workflow definition', validation.errors);
+          return;
+        }
+        options.definition = validation.definition;
+      }
+
       const result = await k2wUnifiedService.executeWorkflow(options);
       
       ResponseHandler.success(res, result, 'K2W workflow completed successfully');
@@ -69,6 +82,158 @@ export class K2WWorkflowController {
     }
   }
 
+  /**
+   * POST /api/k2w/workflow/:id/resume
+   * Resume a checkpointed workflow from its first failed or unfinished stage,
+   * or re-run a single stage (and the unfinished ones after it) with from_stage
+   */
+  async resumeWorkflow(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const workflowId = req.params.id || req.params.workflowId;
+      const { from_stage } = req.body || {};
+
+      if (from_stage !== undefined && typeof from_stage !== 'string') {
+        ResponseHandler.badRequest(res, 'from_stage must be a stage name');
+        return;
+      }
+
+      if (!(await k2wUnifiedService.getWorkflowStatus(workflowId))) {
+        ResponseHandler.notFound(res, 'Workflow not found');
+        return;
+      }
+
+      if (k2wUnifiedService.isWorkflowRunning(workflowId)) {
+        ResponseHandler.conflict(res, 'Workflow is already running');
+        return;
+      }
+
+      const result = await k2wUnifiedService.resumeWorkflow(workflowId, { from_stage });
+
+      ResponseHandler.success(res, result, 'K2W workflow resumed successfully');
+    } catch (error: any) {
+      if (error?.message?.startsWith('Cannot run') || error?.message?.startsWith('Unknown workflow stage')) {
+        ResponseHandler.badRequest(res, error.message);
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/k2w/workflow/:id/stages/:stageId/approval
+   * Approve or reject a stage waiting for approval (optionally a single content_id).
+   * Approved workflows continue; rejected content is regenerated with the feedback.
+   */
+  async decideApproval(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, stageId } = req.params;
+      const { approved, feedback, content_id } = req.body || {};
+
+      if (!req.user) {
+        ResponseHandler.unauthorized(res, 'Approval decisions require a signed-in user');
+        return;
+      }
+
+      if (typeof approved !== 'boolean') {
+        ResponseHandler.badRequest(res, 'approved (boolean) is required', ['approved']);
+        return;
+      }
+
+      const status = await k2wUnifiedService.getWorkflowStatus(id);
+      if (!status) {
+        ResponseHandler.notFound(res, 'Workflow not found');
+        return;
+      }
+
+      if (status.stages?.[stageId]?.status !== 'waiting_for_approval') {
+        ResponseHandler.conflict(res, `Stage ${stageId} is not waiting for approval`);
+        return;
+      }
+
+      if (k2wUnifiedService.isWorkflowRunning(id)) {
+        ResponseHandler.conflict(res, 'Workflow is already running');
+        return;
+      }
+
+      const result = await k2wUnifiedService.decideApproval(id, stageId, {
+        approved,
+        decided_by: req.user.id,
+        roles: getUserRoles(req.user),
+        content_id: typeof content_id === 'string' ? content_id : undefined,
+        feedback: typeof feedback === 'string' ? feedback : undefined
+      });
+
+      ResponseHandler.success(res, result, approved ? 'Stage approved' : 'Stage rejected');
+    } catch (error: any) {
+      if (error?.message?.startsWith('Not allowed')) {
+        ResponseHandler.forbidden(res, error.message);
+        return;
+      }
+      if (error?.message?.includes('is not part of')) {
+        ResponseHandler.badRequest(res, error.message);
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/k2w/projects/:project_id/workflow/definition
+   * Get the workflow definition new workflows of this project run with
+   */
+  async getWorkflowDefinition(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const stored = k2wUnifiedService.getWorkflowDefinition(req.params.project_id);
+
+      if (!stored) {
+        ResponseHandler.notFound(res, 'Project uses the default workflow');
+        return;
+      }
+
+      ResponseHandler.success(res, stored);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /api/k2w/projects/:project_id/workflow/definition
+   * Save a workflow definition, sent as JSON or as YAML text
+   */
+  async saveWorkflowDefinition(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validation = validateWorkflowDefinition(req.body);
+
+      if (!validation.isValid || !validation.definition) {
+        ResponseHandler.unprocessableEntity(res, 'Invalid workflow definition', validation.errors);
+        return;
+      }
+
+      const stored = k2wUnifiedService.saveWorkflowDefinition(req.params.project_id, validation.definition, req.user?.id);
+
+      ResponseHandler.success(res, stored, 'Workflow definition saved');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/k2w/projects/:project_id/workflow/definition
+   * Return the project to the default workflow
+   */
+  async deleteWorkflowDefinition(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!k2wUnifiedService.deleteWorkflowDefinition(req.params.project_id)) {
+        ResponseHandler.notFound(res, 'Project uses the default workflow');
+        return;
+      }
+
+      ResponseHandler.successMessage(res, 'Workflow definition removed');
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * POST /api/k2w/workflow/:workflowId/cancel
    * Cancel running workflow
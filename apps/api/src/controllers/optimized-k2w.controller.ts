@@ -4,12 +4,17 @@
  */
 
 import { Request, Response } from 'express';
-import { keywordService } from '../services/keyword.service';
+import { keywordService, KeywordDeleteOptions } from '../services/keyword.service';
+import { serpOverlapService } from '../services/serp-overlap.service';
 import { contentService } from '../services/content.service';
 import { analyticsService } from '../services/analytics.service';
 import { webhookNotifierService } from '../services/webhook-notifier.service';
 import { contentRepository } from '../repositories/k2w-optimized.repository';
-import { aiProvider } from '../services/ai-provider';
+import { aiProvider, isCancelledError } from '../services/ai-provider';
+import { runWithAIUsageContext } from '../services/ai-usage.service';
+import { isBudgetError } from '../services/cost-optimization.service';
+import { k2wUnifiedService, ApprovalDecision } from '../services/k2w-unified.service';
+import { getUserRoles } from '../middleware/auth.middleware';
 
 /**
  * Keywords Controller - Handles keyword management operations
@@ -141,6 +146,61 @@ export class KeywordsController {
     }
   }
 
+  /**
+   * POST /api/k2w/keywords/serp-snapshots/import
+   * Import top-10 SERP snapshots (JSON or CSV) for SERP-overlap clustering
+   */
+  async importSerpSnapshots(req: Request, res: Response) {
+    try {
+      const { project_id, format = 'json', data, region = 'US' } = req.body;
+
+      if (!project_id || !data) {
+        res.status(400).json({
+          success: false,
+          error: 'project_id and data are required'
+        });
+        return;
+      }
+
+      if (format !== 'json' && format !== 'csv') {
+        res.status(400).json({
+          success: false,
+          error: 'format must be "json" or "csv"'
+        });
+        return;
+      }
+
+      const result = await serpOverlapService.importSnapshots(project_id, data, format, region);
+
+      // Rows can name their own region, so every region the import touched is recomputed
+      const matrix = { recomputed: 0, pairs: 0 };
+      for (const snapshotRegion of result.regions) {
+        const updated = await serpOverlapService.updateOverlapMatrix(project_id, snapshotRegion);
+        matrix.recomputed += updated.recomputed;
+        matrix.pairs += updated.pairs;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          imported: result.imported,
+          skipped: result.skipped,
+          regions: result.regions,
+          overlaps_recomputed: matrix.recomputed,
+          overlapping_pairs: matrix.pairs
+        }
+      });
+
+    } catch (error) {
+      console.error('SERP snapshot import failed:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to import SERP snapshots',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   /**
    * POST /api/k2w/keywords/cluster
    * Cluster keywords using AI
@@ -151,7 +211,10 @@ export class KeywordsController {
         keyword_ids, 
         clustering_method = 'semantic', 
         max_clusters = 10,
-        min_cluster_size = 1
+        min_cluster_size = 1,
+        similarity_threshold,
+        min_shared_urls,
+        fetch_serp_snapshots
       } = req.body;
 
       if (!keyword_ids || !Array.isArray(keyword_ids)) {
@@ -165,7 +228,10 @@ export class KeywordsController {
       const result = await keywordService.clusterKeywords(keyword_ids, {
         method: clustering_method,
         maxClusters: max_clusters,
-        minClusterSize: min_cluster_size
+        minClusterSize: min_cluster_size,
+        similarityThreshold: similarity_threshold,
+        minSharedUrls: min_shared_urls,
+        fetchSerpSnapshots: fetch_serp_snapshots
       });
 
       res.json({
@@ -223,27 +289,49 @@ export class KeywordsController {
   }
 
   /**
-   * DELETE /api/k2w/keywords/:keyword_id
-   * Delete keyword
+   * DELETE /api/k2w/keywords/:keyword_id?mode=archive|hard&dry_run=true
+   * Archive (default) or hard-delete a keyword with cascade; keywords with live content cannot be hard-deleted
    */
   async deleteKeyword(req: Request, res: Response) {
     try {
       const { keyword_id } = req.params;
+      const options = this.parseDeleteOptions({ ...req.query, ...req.body });
 
-      const success = await keywordService.deleteKeyword(keyword_id);
-
-      if (success) {
-        res.json({
-          success: true,
-          message: 'Keyword deleted successfully'
+      if (!options) {
+        res.status(400).json({
+          success: false,
+          error: 'mode must be "archive" or "hard"'
         });
-      } else {
+        return;
+      }
+
+      const report = await keywordService.deleteKeyword(keyword_id, options);
+
+      if (!report.found) {
         res.status(404).json({
           success: false,
           error: 'Keyword not found'
         });
+        return;
       }
 
+      if (report.blockedReason) {
+        res.status(409).json({
+          success: false,
+          error: report.blockedReason,
+          data: report
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: report.dryRun
+          ? 'Dry run: no changes were made'
+          : report.mode === 'hard' ? 'Keyword deleted successfully' : 'Keyword archived successfully',
+        data: report
+      });
+
     } catch (error) {
       console.error('Delete keyword failed:', error);
       res.status(500).json({
@@ -253,6 +341,93 @@ export class KeywordsController {
     }
   }
 
+  /**
+   * POST /api/k2w/keywords/bulk-delete
+   * Archive or hard-delete many keywords; dry_run reports the combined effect
+   */
+  async bulkDeleteKeywords(req: Request, res: Response) {
+    try {
+      const { keyword_ids } = req.body;
+      const options = this.parseDeleteOptions(req.body);
+
+      if (!keyword_ids || !Array.isArray(keyword_ids) || keyword_ids.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'keyword_ids array is required'
+        });
+        return;
+      }
+
+      if (!options) {
+        res.status(400).json({
+          success: false,
+          error: 'mode must be "archive" or "hard"'
+        });
+        return;
+      }
+
+      const result = await keywordService.bulkDeleteKeywords(keyword_ids, options);
+
+      res.json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      console.error('Bulk delete keywords failed:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete keywords'
+      });
+    }
+  }
+
+  /**
+   * POST /api/k2w/keywords/:keyword_id/restore
+   * Restore an archived keyword
+   */
+  async restoreKeyword(req: Request, res: Response) {
+    try {
+      const { keyword_id } = req.params;
+
+      const result = await keywordService.restoreKeyword(keyword_id);
+
+      if (!result.restored) {
+        res.status(result.reason === 'Keyword not found' ? 404 : 409).json({
+          success: false,
+          error: result.reason
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Keyword restored successfully',
+        data: result
+      });
+
+    } catch (error) {
+      console.error('Restore keyword failed:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to restore keyword'
+      });
+    }
+  }
+
+  private parseDeleteOptions(params: Record<string, any>): KeywordDeleteOptions | null {
+    const mode = params.mode || 'archive';
+    if (mode !== 'archive' && mode !== 'hard') {
+      return null;
+    }
+
+    const flag = (value: unknown) => value === true || value === 'true' || value === '1';
+    return {
+      mode,
+      dryRun: flag(params.dry_run)
+    };
+  }
+
   /**
    * POST /api/k2w/keywords/submit
    * Submit keyword for processing (Frontend compatibility)
@@ -517,6 +692,15 @@ export class ContentController {
         return;
       }
 
+      // Drafts stream to, and can only be cancelled by, the user who started the generation
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Content generation requires a signed-in user'
+        });
+        return;
+      }
+
       const result = await contentService.generateContent(keyword_id, {
         contentType: content_type,
         wordCount: word_count,
@@ -524,7 +708,8 @@ export class ContentController {
         tone,
         includeImages: include_images,
         includeSchema: include_schema,
-        autoPublish: auto_publish
+        autoPublish: auto_publish,
+        userId: req.user.id
       });
 
       res.json({
@@ -533,6 +718,23 @@ export class ContentController {
       });
 
     } catch (error) {
+      if (isBudgetError(error) || isCancelledError(error)) {
+        res.status(error.statusCode || 402).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        });
+        return;
+      }
+
+      if (error instanceof Error && error.message.includes('already in progress')) {
+        res.status(409).json({
+          success: false,
+          error: error.message
+        });
+        return;
+      }
+
       console.error('Content generation failed:', error);
       res.status(500).json({
         success: false,
@@ -542,6 +744,35 @@ export class ContentController {
     }
   }
 
+  /**
+   * POST /api/k2w/content/generate/:keyword_id/cancel
+   * Cancel a content generation in progress
+   */
+  async cancelGeneration(req: Request, res: Response) {
+    const { keyword_id } = req.params;
+
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Cancelling a generation requires a signed-in user'
+      });
+      return;
+    }
+
+    if (!contentService.cancelGeneration(keyword_id, req.user.id)) {
+      res.status(404).json({
+        success: false,
+        error: 'No content generation in progress for this keyword'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Content generation cancelled'
+    });
+  }
+
   /**
    * GET /api/k2w/content/:project_id
    * Get content with pagination and filters
@@ -742,16 +973,17 @@ export class ContentController {
 
   /**
    * GET /api/k2w/content/pending-review
-   * Get content pending editorial review
+   * Get content pending editorial review, including content paused at workflow approval gates
    */
   async getPendingReviewContent(req: Request, res: Response) {
     try {
-      const { project_id = 'default' } = req.query;
-      const content = await contentService.getPendingReviewContent(project_id as string);
+      const { project_id } = req.query;
+      const content = await contentService.getPendingReviewContent((project_id as string) || 'default');
+      const gatedContent = k2wUnifiedService.listPendingApprovals(project_id as string | undefined);
       
       res.json({
         success: true,
-        data: content
+        data: [...gatedContent, ...content]
       });
     } catch (error) {
       console.error('Get pending review content failed:', error);
@@ -769,6 +1001,10 @@ export class ContentController {
   async approveContent(req: Request, res: Response) {
     try {
       const { content_id } = req.params;
+
+      if (await this.decideGatedContent(req, res, { approved: true })) {
+        return;
+      }
       
       const content = await contentService.getContentById(content_id);
       if (!content) {
@@ -805,6 +1041,10 @@ export class ContentController {
     try {
       const { content_id } = req.params;
       const { feedback } = req.body;
+
+      if (await this.decideGatedContent(req, res, { approved: false, feedback })) {
+        return;
+      }
       
       const content = await contentService.getContentById(content_id);
       if (!content) {
@@ -833,6 +1073,61 @@ export class ContentController {
     }
   }
 
+  /**
+   * Route a review decision on content paused at a workflow approval gate to that workflow.
+   * Returns false when the content is not waiting at a gate.
+   */
+  private async decideGatedContent(
+    req: Request,
+    res: Response,
+    decision: Pick<ApprovalDecision, 'approved' | 'feedback'>
+  ): Promise<boolean> {
+    const { content_id } = req.params;
+    const approval = k2wUnifiedService.findApprovalForContent(content_id);
+    if (!approval) {
+      return false;
+    }
+
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Approval decisions require a signed-in user'
+      });
+      return true;
+    }
+
+    try {
+      const workflow = await k2wUnifiedService.getWorkflowStatus(approval.workflow_id);
+      const content = workflow?.content_generated?.find(candidate => candidate.id === content_id);
+
+      // Regenerating rejected content takes a while, so the workflow continues in the background
+      await k2wUnifiedService.decideApproval(approval.workflow_id, approval.stage_id, {
+        ...decision,
+        content_id,
+        decided_by: req.user.id,
+        roles: getUserRoles(req.user)
+      }, false);
+
+      const updated = content && { ...content, status: decision.approved ? 'ready_to_publish' as const : 'draft' as const };
+      if (updated) {
+        await webhookNotifierService.notifySlack(decision.approved ? 'approved' : 'rejected', updated, { feedback: decision.feedback });
+      }
+
+      res.json({
+        success: true,
+        data: { ...updated, id: content_id, approval_gate: approval }
+      });
+    } catch (error: any) {
+      const forbidden = error?.message?.startsWith('Not allowed');
+      res.status(forbidden ? 403 : 409).json({
+        success: false,
+        error: error?.message || 'Failed to record the approval decision'
+      });
+    }
+
+    return true;
+  }
+
   /**
    * PUT /api/k2w/content/:content_id/body
    * Update content body HTML directly
@@ -881,7 +1176,7 @@ export class ContentController {
         return;
       }
 
-      console.log(`[Translate] Translating content ${content_id} to English using Gemini...`);
+      console.log(`[Translate] Translating content ${content_id} to English...`);
       
       const titlePrompt = `Translate the following SEO article title into professional English. Keep it optimized for SEO and output ONLY the translated title text without quotes: "${content.title}"`;
       const descPrompt = content.meta_description
@@ -889,11 +1184,14 @@ export class ContentController {
         : '';
       const bodyPrompt = `You are a professional SEO translator. Translate the following HTML article body into English. Keep ALL HTML tags, inline styling, attributes, and image references exactly unchanged, only translate the text contents inside: \n\n${content.body_html || content.body}`;
 
-      const [translatedTitle, translatedDesc, translatedBody] = await Promise.all([
-        aiProvider.generateText(titlePrompt),
-        descPrompt ? aiProvider.generateText(descPrompt) : Promise.resolve(''),
-        aiProvider.generateText(bodyPrompt)
-      ]);
+      const routing = { task: 'translation', language: 'en' };
+      const [translatedTitle, translatedDesc, translatedBody] = await runWithAIUsageContext({ project_id: content.project_id, content_id, stage: 'translation' }, () =>
+        Promise.all([
+          aiProvider.generateText(titlePrompt, routing),
+          descPrompt ? aiProvider.generateText(descPrompt, routing) : Promise.resolve(''),
+          aiProvider.generateText(bodyPrompt, routing)
+        ])
+      );
 
       const cleanedTitle = translatedTitle.trim().replace(/^"|"$/g, '');
       const cleanedDesc = translatedDesc.trim().replace(/^"|"$/g, '');
@@ -911,9 +1209,10 @@ export class ContentController {
       });
     } catch (error: any) {
       console.error('Translate content to English failed:', error);
-      res.status(500).json({
+      res.status(isBudgetError(error) ? error.statusCode || 402 : 500).json({
         success: false,
-        error: 'Failed to translate content: ' + error.message
+        error: 'Failed to translate content: ' + error.message,
+        ...(error.code && { code: error.code })
       });
     }
   }
@@ -0,0 +1,427 @@
+/**
+ * Publishing Schedule Controller
+ * Scheduled publishing jobs, the per-domain publishing cadence they are spread by, failed publishes,
+ * updating and unpublishing live content, the sitemaps and feeds of the sites content is published to,
+ * and search engine submissions
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ResponseHandler } from '../common/response.handler';
+import { CustomError } from '../middleware/error-handler.middleware';
+import { publishingScheduler } from '../services/publishing-scheduler.service';
+import { publishingAutomationService } from '../services/publishing-automation.service';
+import { siteFeedService } from '../services/site-feed.service';
+import { searchIndexingService } from '../services/search-indexing.service';
+import type { IndexingAction, IndexingEngine, IndexingSubmissionStatus } from '../types/search-indexing.types';
+import type { ScheduledPublishStatus } from '../types/publishing-schedule.types';
+
+const SCHEDULE_STATUSES: ScheduledPublishStatus[] = ['scheduled', 'publishing', 'published', 'failed', 'cancelled'];
+
+const FAILED_PUBLISH_STATUSES = ['retrying', 'failed'];
+const INDEXING_STATUSES: IndexingSubmissionStatus[] = ['pending', 'submitted', 'retrying', 'failed'];
+const INDEXING_ENGINES: IndexingEngine[] = ['indexnow', 'google'];
+const INDEXING_ACTIONS: IndexingAction[] = ['URL_UPDATED', 'URL_DELETED'];
+
+const queryString = (value: unknown): string | undefined => typeof value === 'string' && value ? value : undefined;
+
+// Unset: every target the content is live on
+const isTargetIdList = (value: unknown): value is string[] | undefined => value === undefined || (
+  Array.isArray(value) && value.length > 0 && value.every(id => typeof id === 'string' && id.length > 0)
+);
+
+// Scheduling errors (400, 404, 409) are answered in the shape the dashboard reads, with their code
+const handleError = (res: Response, next: NextFunction, error: unknown): void => {
+  const scheduleError = error as CustomError;
+  if (scheduleError?.isOperational && scheduleError.statusCode && scheduleError.statusCode < 500) {
+    res.status(scheduleError.statusCode).json({
+      success: false,
+      error: scheduleError.message,
+      ...(scheduleError.code && { code: scheduleError.code })
+    });
+    return;
+  }
+  next(error);
+};
+
+export class PublishingScheduleController {
+  /**
+   * List scheduled publishing jobs (?from=&to=&domain=&project_id=&status=scheduled,failed)
+   */
+  async listSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const status = queryString(req.query.status)?.split(',').map(value => value.trim());
+      if (status && !status.every(value => SCHEDULE_STATUSES.includes(value as ScheduledPublishStatus))) {
+        ResponseHandler.badRequest(res, `status must be one of ${SCHEDULE_STATUSES.join(', ')}`);
+        return;
+      }
+
+      ResponseHandler.success(res, publishingScheduler.list({
+        from: queryString(req.query.from),
+        to: queryString(req.query.to),
+        domain: queryString(req.query.domain),
+        project_id: queryString(req.query.project_id),
+        status: status as ScheduledPublishStatus[] | undefined
+      }));
+    } catch (error) {
+      handleError(res, next, error);
+    }
+  }
+
+  /**
+   * Schedule one piece of content, at scheduled_for or the domain's next free slot
+   */
+  async schedulePublish(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const scheduled = await publishingScheduler.schedule({ ...req.body, user_id: req.user?.id });
+
+      ResponseHandler.created(res, scheduled, 'Content scheduled for publishing');
+    } catch (error) {
+      handleError(res, next, error);
+    }
+  }
+
+  /**
+   * Spread approved content over the domain's free publishing slots
+   */
+  async scheduleBatch(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const scheduled = await publishingScheduler.scheduleBatch({ ...req.body, user_id: req.user?.id });
+
+      ResponseHandler.created(res, scheduled, `${scheduled.length} posts scheduled for publishing`);
+    } catch (error) {
+      handleError(res, next, error);
+    }
+  }
+
+  /**
+   * Move a scheduled job to a new time
+   */
+  async reschedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { scheduled_for } = req.body || {};
+      if (!scheduled_for) {
+        ResponseHandler.badRequest(res, 'scheduled_for is required', ['scheduled_for']);
+        return;
+      }
+
+      const scheduled = publishingScheduler.reschedule(req.params.id, scheduled_for);
+      if (!scheduled) {
+        ResponseHandler.notFound(res, `Scheduled publish ${req.params.id} not found`);
+        return;
+      }
+
+      ResponseHandler.success(res, scheduled, 'Publishing rescheduled');
+    } catch (error) {
+      handleError(res, next, error);
+    }
+  }
+
+  /**
+   * Cancel a job that has not started publishing
+   */
+  async cancel(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!publishingScheduler.cancel(req.params.id)) {
+        ResponseHandler.notFound(res, `No scheduled publish ${req.params.id} waiting to run`);
+        return;
+      }
+
+      ResponseHandler.success(res, publishingScheduler.get(req.params.id), 'Scheduled publish cancelled');
+    } catch (error) {
+      handleError(res, next, error);
+    }
+  }
+
+  /**
+   * Saved publishing cadences with the default for domains without one
+   */
+  async listCadences(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      ResponseHandler.success(res, {
+        cadences: publishingScheduler.listCadences(),
+        default: publishingScheduler.getDefaultCadence()
+      });
+    } catch (error) {
+      handleError(res, next, error);
+    }
+  }
+
+  /**
+   * Add or replace a domain's cadence; applies to the next scheduling request
+   */
+  async updateCadence(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const cadence = publishingScheduler.setCadence(req.body || {}, req.user?.id);
+
+      ResponseHandler.success(res, cadence, 'Publishing cadence updated successfully');
+    } catch (error) {
+      handleError(res, next, error);
+    }
+  }
+
+  /**
+   * Remove a domain's cadence, going back to the default
+   */
+  async deleteCadence(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!publishingScheduler.deleteCadence(req.params.domain)) {
+        ResponseHandler.notFound(res, `No publishing cadence for ${req.params.domain}`);
+        return;
+      }
+
+      ResponseHandler.success(res, null, 'Publishing cadence deleted successfully');
+    } catch (error) {
+      handleError(res, next, error);
+    }
+  }
+
+  /**
+   * Failed publishes, still retrying or waiting for a manual retry (?status=retrying|failed&content_id=)
+   */
+  async listFailedPublishes(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const status = queryString(req.query.status);
+      if (status && !FAILED_PUBLISH_STATUSES.includes(status)) {
+        ResponseHandler.badRequest(res, `status must be one of ${FAILED_PUBLISH_STATUSES.join(', ')}`);
+        return;
+      }
+
+      ResponseHandler.success(res, publishingAutomationService.listFailedPublishes({
+        status: status as 'retrying' | 'failed' | undefined,
+        content_id: queryString(req.query.content_id)
+      }));
+    } catch (error) {
+      handleError(res, next, error);
+    }
+  }
+
+  /**
+   * Retry one failed publish now
+   */
+  async retryFailedPublish(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const failed = publishingAutomationService.retryFailedPublish(req.params.id);
+      if (!failed) {
+        ResponseHandler.notFound(res, `No failed publish ${req.params.id} to retry`);
+        return;
+      }
+
+      ResponseHandler.success(res, failed, 'Publish retry queued');
+    } catch (error) {
+      handleError(res, next, error);
+    }
+  }
+
+  /**
+   * Retry the given failed publishes, or all that failed for good
+   */
+  async retryFailedPublishes(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { ids } = req.body || {};
+      if (ids !== undefined && (!Array.isArray(ids) || !ids.every(id => typeof id === 'string'))) {
+        ResponseHandler.badRequest(res, 'ids must be an array of failed publish ids', ['ids']);
+        return;
+      }
+
+      const result = publishingAutomationService.retryFailedPublishes(ids);
+
+      ResponseHandler.success(res, result, `${result.retried.length} publish retries queued`);
+    } catch (error) {
+      handleError(res, next, error);
+    }
+  }
+
+  /**
+   * Sites with sitemaps and feeds, their page counts and generated files
+   */
+  async listSiteFeeds(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      ResponseHandler.success(res, siteFeedService.listSites());
+    } catch (error) {
+      handleError(res, next, error);
+    }
+  }
+
+  /**
+   * A generated sitemap or feed as XML (?site_url=&path=sitemap.xml), for sites the files are not deployed to
+   */
+  async getSiteFeedFile(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const siteUrl = queryString(req.query.site_url);
+      const filePath = queryString(req.query.path) || 'sitemap.xml';
+      if (!siteUrl) {
+        ResponseHandler.badRequest(res, 'site_url is required', ['site_url']);
+        return;
+      }
+
+      const file = siteFeedService.getFile(siteUrl, filePath);
+      if (!file) {
+        ResponseHandler.notFound(res, `No ${filePath} for ${siteUrl}`);
+        return;
+      }
+
+      res.type('application/xml').send(file.content);
+    } catch (error) {
+      handleError(res, next, error);
+    }
+  }
+
+  /**
+   * Regenerate a site's sitemaps and feeds and deploy all of them again
+   */
+  async rebuildSiteFeed(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { site_url } = req.body || {};
+      if (!site_url) {
+        ResponseHandler.badRequest(res, 'site_url is required', ['site_url']);
+        return;
+      }
+
+      const result = await siteFeedService.rebuild(site_url);
+      if (!result) {
+        ResponseHandler.notFound(res, `No sitemap or feed for ${site_url}`);
+        return;
+      }
+
+      ResponseHandler.success(res, result, result.error ? 'Sitemap and feeds regenerated, deploy failed' : 'Sitemap and feeds rebuilt');
+    } catch (error) {
+      handleError(res, next, error);
+    }
+  }
+
+  /**
+   * Push the current version of content to the targets it is live on, or those of target_ids
+   */
+  async republishContent(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { target_ids, options = {} } = req.body || {};
+      if (!isTargetIdList(target_ids)) {
+        ResponseHandler.badRequest(res, 'target_ids must be a non-empty array of publishing target ids', ['target_ids']);
+        return;
+      }
+
+      const result = await publishingAutomationService.republish(req.params.id, options, target_ids);
+      if (!result) {
+        ResponseHandler.notFound(res, `Content ${req.params.id} not found`);
+        return;
+      }
+
+      const failed = Object.values(result.results).filter(target => !target.success).length;
+      ResponseHandler.success(res, result, failed ? `Content updated, ${failed} target(s) failed` : 'Content updated');
+    } catch (error) {
+      handleError(res, next, error);
+    }
+  }
+
+  /**
+   * Take content down from the targets it is live on, or those of target_ids (optionally redirecting
+   * to redirect_to); once it is live nowhere, take it off its sites' sitemaps and feeds and archive it
+   */
+  async unpublishContent(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { target_ids, redirect_to } = req.body || {};
+      if (!isTargetIdList(target_ids)) {
+        ResponseHandler.badRequest(res, 'target_ids must be a non-empty array of publishing target ids', ['target_ids']);
+        return;
+      }
+
+      const result = await publishingAutomationService.unpublish(req.params.id, { redirect_to }, target_ids);
+      if (!result) {
+        ResponseHandler.notFound(res, `Content ${req.params.id} not found`);
+        return;
+      }
+
+      const failed = Object.values(result.results).filter(target => !target.success).length;
+      ResponseHandler.success(res, result, failed ? `Unpublish failed on ${failed} target(s), content not archived` : 'Content unpublished');
+    } catch (error) {
+      handleError(res, next, error);
+    }
+  }
+
+  /**
+   * Search engine submissions, latest first (?status=&engine=&url=&content_id=&limit=)
+   */
+  async listIndexingSubmissions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const status = queryString(req.query.status);
+      const engine = queryString(req.query.engine);
+      if (status && !INDEXING_STATUSES.includes(status as IndexingSubmissionStatus)) {
+        ResponseHandler.badRequest(res, `status must be one of ${INDEXING_STATUSES.join(', ')}`);
+        return;
+      }
+      if (engine && !INDEXING_ENGINES.includes(engine as IndexingEngine)) {
+        ResponseHandler.badRequest(res, `engine must be one of ${INDEXING_ENGINES.join(', ')}`);
+        return;
+      }
+
+      ResponseHandler.success(res, searchIndexingService.list({
+        status: status as IndexingSubmissionStatus | undefined,
+        engine: engine as IndexingEngine | undefined,
+        url: queryString(req.query.url),
+        content_id: queryString(req.query.content_id),
+        limit: Math.min(Number(req.query.limit) || 100, 1000)
+      }));
+    } catch (error) {
+      handleError(res, next, error);
+    }
+  }
+
+  /**
+   * Today's requests and daily quota per search engine
+   */
+  async getIndexingQuota(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      ResponseHandler.success(res, searchIndexingService.getQuota());
+    } catch (error) {
+      handleError(res, next, error);
+    }
+  }
+
+  /**
+   * Submit URLs to the configured search engines
+   */
+  async submitForIndexing(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { urls, engines, action, content_id } = req.body || {};
+      if (!Array.isArray(urls) || urls.length === 0 || !urls.every(url => typeof url === 'string' && /^https?:\/\//.test(url))) {
+        ResponseHandler.badRequest(res, 'urls must be a non-empty array of http(s) URLs', ['urls']);
+        return;
+      }
+      if (engines !== undefined && (!Array.isArray(engines) || !engines.every(engine => INDEXING_ENGINES.includes(engine)))) {
+        ResponseHandler.badRequest(res, `engines must be a list of ${INDEXING_ENGINES.join(', ')}`, ['engines']);
+        return;
+      }
+      if (action !== undefined && !INDEXING_ACTIONS.includes(action)) {
+        ResponseHandler.badRequest(res, `action must be one of ${INDEXING_ACTIONS.join(', ')}`, ['action']);
+        return;
+      }
+      if (searchIndexingService.enabledEngines().length === 0) {
+        ResponseHandler.badRequest(res, 'No search engine is configured: set INDEXNOW_KEY or GOOGLE_INDEXING_SERVICE_ACCOUNT_KEY');
+        return;
+      }
+
+      const submissions = await searchIndexingService.submit({ urls, engines, action, content_id });
+
+      ResponseHandler.created(res, submissions, `${submissions.length} search engine submissions queued`);
+    } catch (error) {
+      handleError(res, next, error);
+    }
+  }
+
+  /**
+   * Send a failed search engine submission again
+   */
+  async retryIndexingSubmission(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const submission = await searchIndexingService.retry(req.params.id);
+      if (!submission) {
+        ResponseHandler.notFound(res, `No failed search engine submission ${req.params.id}`);
+        return;
+      }
+
+      ResponseHandler.success(res, submission, 'Search engine submission queued');
+    } catch (error) {
+      handleError(res, next, error);
+    }
+  }
+}
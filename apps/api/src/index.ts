@@ -14,6 +14,14 @@ import { k2wRouter } from './routes/k2w.router';
 import optimizeRouter from './routes/optimize.router';
 import { supabase } from '@k2w/database';
 import { contentService } from './services/content.service';
+import { socketService } from './services/socket.service';
+import { k2wUnifiedService } from './services/k2w-unified.service';
+import { publishingScheduler } from './services/publishing-scheduler.service';
+import { publishingAutomationService } from './services/publishing-automation.service';
+import { siteFeedService } from './services/site-feed.service';
+import { searchIndexingService } from './services/search-indexing.service';
+import { abTestingFramework } from './services/ab-testing.service';
+import { publishingTargetRegistry } from './services/publishing-targets.service';
 
 // Middleware imports
 import { errorHandler } from './middleware/error-handler.middleware';
@@ -84,6 +92,9 @@ app.use(errorHandler);
 // Create HTTP server
 const server = createServer(app);
 
+// Attach real-time workflow updates (Socket.IO) to the HTTP server
+socketService.attach(server);
+
 // Start server
 server.listen(PORT, () => {
   console.log(`🚀 K2W API Server running on port ${PORT}`);
@@ -97,6 +108,21 @@ server.listen(PORT, () => {
   
   // Start background worker to process queued keywords
   startBackgroundWorker();
+
+  // Auto-approve/reject workflow approval gates whose timeout has passed
+  k2wUnifiedService.startApprovalTimeoutMonitor();
+
+  // Publish scheduled content when it is due, including jobs from before a restart
+  publishingScheduler.start();
+
+  // Retry publishes that failed on a transient error, with exponential backoff
+  publishingAutomationService.startRetryWorker();
+
+  // Submit published URLs to IndexNow and the Google Indexing API
+  searchIndexingService.start();
+
+  // Resume A/B tests that were running before a restart
+  abTestingFramework.start();
 });
 
 // Background queue worker to process queued/pending keywords
@@ -183,21 +209,27 @@ function startBackgroundWorker() {
   setInterval(processPendingKeywords, 5000);
 }
 
-// Graceful shutdown
-process.on('SIGTERM', () => {
-  console.log('SIGTERM received, shutting down gracefully...');
+// Graceful shutdown: queues wait for their running jobs, which use the feed, indexing and socket services
+const shutdown = async (signal: string) => {
+  console.log(`${signal} received, shutting down gracefully...`);
+  try {
+    await publishingScheduler.close();
+    await publishingAutomationService.close();
+    siteFeedService.close();
+    await searchIndexingService.close();
+    abTestingFramework.close();
+    publishingTargetRegistry.close();
+    await socketService.close();
+  } catch (error) {
+    console.error('Error while shutting down services:', error);
+  }
   server.close(() => {
     console.log('Server closed');
     process.exit(0);
   });
-});
+};
 
-process.on('SIGINT', () => {
-  console.log('SIGINT received, shutting down gracefully...');
-  server.close(() => {
-    console.log('Server closed');
-    process.exit(0);
-  });
-});
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
 
 export default app;
\ No newline at end of file
@@ -1,16 +1,46 @@
 import { Request, Response, NextFunction } from 'express';
 import { supabase } from '@k2w/database';
+import { runWithAIUsageContext } from '../services/ai-usage.service';
+
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  [key: string]: any;
+}
 
 export interface AuthenticatedRequest extends Request {
-  user?: {
-    id: string;
-    email: string;
-    [key: string]: any;
-  };
+  user?: AuthenticatedUser;
 }
 
+/**
+ * Verify a Supabase access token and return the user it belongs to
+ */
+export const verifyAccessToken = async (token: string): Promise<AuthenticatedUser | null> => {
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+
+  if (error || !user) {
+    return null;
+  }
+
+  return {
+    id: user.id,
+    email: user.email || '',
+    ...user.user_metadata
+  };
+};
+
+/**
+ * Roles from the user's metadata (`role` and/or `roles`)
+ */
+export const getUserRoles = (user?: { [key: string]: any }): string[] => {
+  if (!user) return [];
+
+  const roles = Array.isArray(user.roles) ? user.roles : [];
+  return [user.role, ...roles].filter((role): role is string => typeof role === 'string' && role.length > 0);
+};
+
 export const authMiddleware = async (
-  req: AuthenticatedRequest,
+  req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
@@ -28,9 +58,9 @@ export const authMiddleware = async (
     const token = authHeader.substring(7); // Remove "Bearer " prefix
 
     // Verify the JWT token with Supabase
-    const { data: { user }, error } = await supabase.auth.getUser(token);
+    const user = await verifyAccessToken(token);
 
-    if (error || !user) {
+    if (!user) {
       res.status(401).json({
         status: 'error',
         message: 'Invalid or expired token'
@@ -38,14 +68,10 @@ export const authMiddleware = async (
       return;
     }
 
-    // Add user to request object
-    req.user = {
-      id: user.id,
-      email: user.email || '',
-      ...user.user_metadata
-    };
+    // Add user to request object; AI calls made while handling the request are billed to the user
+    req.user = user;
 
-    next();
+    runWithAIUsageContext({ user_id: user.id }, next);
   } catch (error) {
     console.error('Auth middleware error:', error);
     res.status(500).json({
@@ -53,4 +79,31 @@ export const authMiddleware = async (
       message: 'Authentication service error'
     });
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Only let users with one of the roles through; mount after authMiddleware
+ */
+export const requireRole = (...roles: string[]) => (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.user) {
+    res.status(401).json({
+      status: 'error',
+      message: 'No valid authorization token provided'
+    });
+    return;
+  }
+
+  if (!getUserRoles(req.user).some(role => roles.includes(role))) {
+    res.status(403).json({
+      status: 'error',
+      message: `Requires role: ${roles.join(' or ')}`
+    });
+    return;
+  }
+
+  next();
+};
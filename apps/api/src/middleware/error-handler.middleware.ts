@@ -3,6 +3,7 @@ import { Request, Response, NextFunction } from 'express';
 export interface CustomError extends Error {
   statusCode?: number;
   status?: string;
+  code?: string; // machine-readable reason, e.g. BUDGET_EXCEEDED
   isOperational?: boolean;
 }
 
@@ -34,6 +35,7 @@ export const errorHandler = (
     status: 'error',
     statusCode,
     message,
+    ...(error.code && { code: error.code }),
     ...(process.env.NODE_ENV === 'development' && { stack: error.stack }),
   });
 };
@@ -0,0 +1,141 @@
+/**
+ * Ownership Middleware
+ * Lets a request act on projects, and the content, keywords and jobs that belong to them, only when
+ * the signed-in user owns those projects or is an admin. Mount after authMiddleware.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { contentRepository, keywordRepository, projectRepository } from '../repositories/k2w-optimized.repository';
+import { publishingAutomationService } from '../services/publishing-automation.service';
+import { normalizeDomain, publishingScheduler } from '../services/publishing-scheduler.service';
+import { getUserRoles } from './auth.middleware';
+
+/**
+ * Ids of the projects a request acts on; null when it is not about particular projects, which
+ * only admins may act on. Resources that do not exist are left out, for the route to answer 404.
+ */
+export type ProjectsOfRequest = (req: Request) => Promise<Array<string | undefined> | null>;
+
+export const isAdmin = (user?: { [key: string]: any }): boolean => getUserRoles(user).includes('admin');
+
+const forbidden = (res: Response, message: string): void => {
+  res.status(403).json({
+    status: 'error',
+    message
+  });
+};
+
+const unauthenticated = (res: Response): void => {
+  res.status(401).json({
+    status: 'error',
+    message: 'No valid authorization token provided'
+  });
+};
+
+/**
+ * Projects of the given content
+ */
+export const projectsOfContent = async (contentIds: unknown[]): Promise<Array<string | undefined>> => {
+  const ids = contentIds.filter((id): id is string => typeof id === 'string' && id.length > 0);
+  const contents = await Promise.all(ids.map(id => contentRepository.findById(id)));
+  return contents.map(content => content?.project_id);
+};
+
+/**
+ * Projects of the given keywords
+ */
+export const projectsOfKeywords = async (keywordIds: unknown[]): Promise<Array<string | undefined>> => {
+  const ids = keywordIds.filter((id): id is string => typeof id === 'string' && id.length > 0);
+  const keywords = await Promise.all(ids.map(id => keywordRepository.findById(id)));
+  return keywords.map(keyword => keyword?.project_id);
+};
+
+/**
+ * Project of a scheduled publishing job (`:id`)
+ */
+export const projectOfScheduledPublish: ProjectsOfRequest = async (req) => {
+  const scheduled = publishingScheduler.get(req.params.id);
+  if (!scheduled) return [];
+  return scheduled.project_id ? [scheduled.project_id] : projectsOfContent([scheduled.content_id]);
+};
+
+/**
+ * Projects of failed publishes
+ */
+export const projectsOfFailedPublishes = async (failedPublishIds: unknown[]): Promise<Array<string | undefined>> => projectsOfContent(
+  failedPublishIds
+    .filter((id): id is string => typeof id === 'string')
+    .map(id => publishingAutomationService.getFailedPublish(id)?.content_id)
+);
+
+/**
+ * Only let the owner of every project the request acts on, or an admin, through
+ */
+export const requireProjectOwner = (projectsOf: ProjectsOfRequest) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (!req.user) {
+    unauthenticated(res);
+    return;
+  }
+
+  if (isAdmin(req.user)) {
+    next();
+    return;
+  }
+
+  try {
+    const projectIds = await projectsOf(req);
+    if (!projectIds) {
+      forbidden(res, 'Requires role: admin');
+      return;
+    }
+
+    const ids = [...new Set(projectIds.filter((id): id is string => Boolean(id)))];
+    const projects = await Promise.all(ids.map(id => projectRepository.findById(id)));
+    const notOwned = ids.filter((_id, index) => projects[index]?.owner_id !== req.user!.id);
+    if (notOwned.length > 0) {
+      forbidden(res, `Not allowed: you do not own project ${notOwned.join(', ')}`);
+      return;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Only let users with a project on the request's domain, or an admin, through; requests without a
+ * domain are passed on for the route to reject
+ */
+export const requireDomainOwner = (domainOf: (req: Request) => unknown) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (!req.user) {
+    unauthenticated(res);
+    return;
+  }
+
+  const domain = domainOf(req);
+  if (isAdmin(req.user) || typeof domain !== 'string' || !domain) {
+    next();
+    return;
+  }
+
+  try {
+    const projects = await projectRepository.findByUserId(req.user.id);
+    if (!projects.some(project => project.domain && normalizeDomain(project.domain) === normalizeDomain(domain))) {
+      forbidden(res, `Not allowed: you have no project on ${domain}`);
+      return;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -6,6 +6,7 @@
 
 import { Express, Request, Response, NextFunction } from 'express';
 import { cacheService } from '../services/cache.service';
+import { providerHealthService } from '../services/provider-health.service';
 import { rateLimiter, rateLimitPresets } from './advanced-rate-limiter.middleware';
 
 /**
@@ -160,9 +161,16 @@ export async function optimizedHealthCheck(req: Request, res: Response): Promise
   try {
     const stats = await cacheService.getStats();
     const rateLimitStatus = await rateLimiter.getRateLimitStatus(req);
+    const aiProviders = providerHealthService.getHealth();
+
+    // Degraded when a provider kind has nothing left to call
+    const kindDown = (kind: 'text' | 'image') => {
+      const providers = aiProviders.filter(provider => provider.kind === kind);
+      return providers.length > 0 && providers.every(provider => provider.status === 'unavailable');
+    };
     
     const health = {
-      status: 'healthy',
+      status: kindDown('text') || kindDown('image') ? 'degraded' : 'healthy',
       timestamp: new Date().toISOString(),
       version: process.env.npm_package_version || '1.0.0',
       environment: process.env.NODE_ENV || 'development',
@@ -185,6 +193,7 @@ export async function optimizedHealthCheck(req: Request, res: Response): Promise
           }
         }
       },
+      aiProviders,
       system: {
         uptime: `${(process.uptime() / 60).toFixed(1)} minutes`,
         memory: {
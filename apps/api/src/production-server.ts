@@ -1,14 +1,14 @@
 import express, { Application, Request, Response, NextFunction } from 'express';
 import { createServer } from 'http';
 import BullMQService from './services/bullmq.service';
-import SocketService from './services/socket.service';
+import { socketService } from './services/socket.service';
 
 const app: Application = express();
 const server = createServer(app);
 
 // Initialize services
 const workflowQueue = new BullMQService();
-const socketService = new SocketService(server);
+socketService.attach(server);
 
 app.use(express.json());
 
@@ -19,6 +19,7 @@ app.get('/health', (req: Request, res: Response) => {
     timestamp: new Date().toISOString(),
     services: {
       queue: workflowQueue.isReady(),
+      queueDriver: workflowQueue.getDriverName(),
       socket: socketService.getConnectedUsersCount()
     }
   });
@@ -43,9 +44,6 @@ app.post('/api/workflows', async (req: Request, res: Response) => {
       options
     });
 
-    // Simulate user joining for real-time updates
-    socketService.simulateUserJoin(userId);
-
     return res.json({ 
       success: true, 
       jobId,
@@ -53,8 +51,9 @@ app.post('/api/workflows', async (req: Request, res: Response) => {
     });
   } catch (error: any) {
     console.error('Workflow creation error:', error);
-    return res.status(500).json({ 
-      error: error.message || 'Failed to start workflow'
+    return res.status(error.statusCode || 500).json({ 
+      error: error.message || 'Failed to start workflow',
+      ...(error.code && { code: error.code })
     });
   }
 });
@@ -122,7 +121,7 @@ app.get('/api/stats', async (req: Request, res: Response) => {
     const queueStats = await workflowQueue.getQueueStats();
     const socketStats = {
       connectedUsers: socketService.getConnectedUsersCount(),
-      totalJobs: workflowQueue.getJobCount()
+      totalJobs: await workflowQueue.getJobCount()
     };
     
     res.json({ 
@@ -147,7 +146,7 @@ workflowQueue.on('stage:updated', (data) => {
   console.log(`Stage updated for user ${data.userId}:`, data.stage);
   socketService.sendWorkflowProgress(data.userId, data.jobId, {
     stage: data.stage,
-    status: 'active',
+    status: data.status,
     progress: data.progress,
     message: data.message,
     totalProgress: data.progress
@@ -157,9 +156,9 @@ workflowQueue.on('stage:updated', (data) => {
 workflowQueue.on('workflow:failed', (data) => {
   console.log(`Workflow failed for user ${data.userId}:`, data.error);
   socketService.sendWorkflowFailed(data.userId, data.jobId, {
-    stage: 'unknown',
+    stage: data.stage || 'unknown',
     message: data.error,
-    canRetry: true
+    canRetry: !data.willRetry
   });
 });
 
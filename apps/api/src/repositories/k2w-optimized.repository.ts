@@ -9,12 +9,15 @@ import {
   K2WClusterRecord,
   K2WContentRecord,
   K2WProjectRecord,
+  K2WPublishLogRecord,
   CreateK2WKeyword,
   CreateK2WCluster,
   CreateK2WContent,
+  CreateK2WPublishLog,
   UpdateK2WKeyword,
   UpdateK2WCluster,
-  UpdateK2WContent
+  UpdateK2WContent,
+  UpdateK2WPublishLog
 } from '@k2w/database';
 
 /**
@@ -88,6 +91,10 @@ export class KeywordRepository {
   async findByStatus(status: string, projectId: string): Promise<K2WKeywordRecord[]> {
     return await k2wDb.getKeywordsByProjectId(projectId, status);
   }
+
+  async delete(id: string): Promise<void> {
+    await k2wDb.deleteKeyword(id);
+  }
 }
 
 /**
@@ -152,6 +159,34 @@ export class ContentRepository {
     return await k2wDb.getContentByKeywordId(keywordId);
   }
 
+  async findAllByKeywordId(keywordId: string): Promise<K2WContentRecord[]> {
+    return await k2wDb.getContentsByKeywordId(keywordId);
+  }
+
+  async delete(id: string): Promise<void> {
+    await k2wDb.deleteContent(id);
+  }
+
+  async findPublishLogs(contentId: string): Promise<K2WPublishLogRecord[]> {
+    return await k2wDb.getPublishLogsByContentId(contentId);
+  }
+
+  async deletePublishLogs(contentId: string): Promise<void> {
+    await k2wDb.deletePublishLogsByContentId(contentId);
+  }
+
+  async findPublishLogById(id: string): Promise<K2WPublishLogRecord | null> {
+    return await k2wDb.getPublishLogById(id);
+  }
+
+  async createPublishLog(data: CreateK2WPublishLog): Promise<K2WPublishLogRecord> {
+    return await k2wDb.createPublishLog(data);
+  }
+
+  async updatePublishLog(id: string, data: UpdateK2WPublishLog): Promise<K2WPublishLogRecord> {
+    return await k2wDb.updatePublishLog(id, data);
+  }
+
   async findByStatus(status: string, projectId: string): Promise<K2WContentRecord[]> {
     return await k2wDb.getContentsByProjectId(projectId, status);
   }
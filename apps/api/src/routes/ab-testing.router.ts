@@ -3,12 +3,16 @@
  * Provides endpoints for creating, managing, and analyzing A/B tests
  */
 
-import { Router } from 'express';
+import express, { Router } from 'express';
+import cors from 'cors';
 import { AbTestingController } from '../controllers/ab-testing.controller';
 
 const router: Router = Router();
 const abTestingController = new AbTestingController();
 
+// Serving and event routes are called from published pages on any origin
+const publicCors = cors({ origin: true, credentials: false });
+
 /**
  * POST /api/ab-testing/tests
  * Create a new A/B test
@@ -39,6 +43,12 @@ router.get('/tests/:testId/status', abTestingController.getTestStatus);
  */
 router.get('/tests/:testId/results', abTestingController.getTestResults);
 
+/**
+ * GET /api/ab-testing/tests/:testId/allocations
+ * Get the traffic allocation history of a bandit test
+ */
+router.get('/tests/:testId/allocations', abTestingController.getAllocationHistory);
+
 /**
  * POST /api/ab-testing/variants/generate
  * Generate content variants using AI
@@ -47,7 +57,7 @@ router.post('/variants/generate', abTestingController.generateVariants);
 
 /**
  * POST /api/ab-testing/optimize/auto
- * Auto-optimize content using A/B testing
+ * Start an A/B test of AI-generated variants; its winner becomes the content's default when it stops
  */
 router.post('/optimize/auto', abTestingController.autoOptimize);
 
@@ -57,4 +67,16 @@ router.post('/optimize/auto', abTestingController.autoOptimize);
  */
 router.post('/optimize/batch', abTestingController.batchOptimize);
 
+/**
+ * GET /api/ab-testing/serve?visitor_id=&content_id=|test_id=
+ * Assign the visitor to a variant and return its content
+ */
+router.get('/serve', publicCors, abTestingController.serveVariant);
+
+/**
+ * POST /api/ab-testing/events
+ * Ingest impression, click, conversion and exit events
+ */
+router.post('/events', publicCors, express.text({ type: 'text/plain', limit: '100kb' }), abTestingController.trackEvents);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,37 @@
+/**
+ * AI Routing API Routes
+ * Admin endpoints for choosing the AI provider and model per task type and project
+ */
+
+import { Router } from 'express';
+import { AIRoutingController } from '../controllers/ai-routing.controller';
+import { authMiddleware, requireRole } from '../middleware/auth.middleware';
+
+const router: Router = Router();
+const aiRoutingController = new AIRoutingController();
+
+/**
+ * GET /api/ai-routing/policies
+ * List routing policies, task types and the routable models with their reference cost
+ */
+router.get('/policies', aiRoutingController.listPolicies);
+
+/**
+ * PUT /api/ai-routing/policies
+ * Add or replace the policy of a task ('*' for all) and project (project_id unset for all); admins only
+ */
+router.put('/policies', authMiddleware, requireRole('admin'), aiRoutingController.updatePolicy);
+
+/**
+ * DELETE /api/ai-routing/policies/:task
+ * Remove a routing policy (?project_id= for a project's own policy); admins only
+ */
+router.delete('/policies/:task', authMiddleware, requireRole('admin'), aiRoutingController.deletePolicy);
+
+/**
+ * GET /api/ai-routing/resolve
+ * Preview the route of a task (?task=&project_id=&language=)
+ */
+router.get('/resolve', aiRoutingController.resolveRoute);
+
+export default router;
@@ -5,6 +5,7 @@
 
 import { Router } from 'express';
 import { CostOptimizationController } from '../controllers/cost-optimization.controller';
+import { authMiddleware, requireRole } from '../middleware/auth.middleware';
 
 const router: Router = Router();
 const costOptimizationController = new CostOptimizationController();
@@ -27,6 +28,36 @@ router.post('/optimize-prompt', costOptimizationController.optimizePrompt);
  */
 router.get('/analytics', costOptimizationController.getCostAnalytics);
 
+/**
+ * GET /api/cost/usage
+ * Get recorded AI and SEO API calls with their tokens, latency and cost (filterable by project, keyword, content, stage)
+ */
+router.get('/usage', costOptimizationController.getUsage);
+
+/**
+ * GET /api/cost/prices
+ * Get the per-provider AI price table
+ */
+router.get('/prices', costOptimizationController.getPriceTable);
+
+/**
+ * PUT /api/cost/prices
+ * Add or update AI price table entries (admins only)
+ */
+router.put('/prices', authMiddleware, requireRole('admin'), costOptimizationController.updatePriceTable);
+
+/**
+ * DELETE /api/cost/prices/:provider/:model
+ * Remove an AI price table entry ('*' is the provider default; admins only)
+ */
+router.delete('/prices/:provider/:model', authMiddleware, requireRole('admin'), costOptimizationController.deletePrice);
+
+/**
+ * GET /api/cost/reports/articles
+ * Spend per published article of a project by stage (?format=csv for invoicing)
+ */
+router.get('/reports/articles', costOptimizationController.getArticleCostReport);
+
 /**
  * GET /api/cost/recommendations
  * Get cost optimization recommendations
@@ -35,15 +66,27 @@ router.get('/recommendations', costOptimizationController.getRecommendations);
 
 /**
  * GET /api/cost/budget/status
- * Get current budget status
+ * Get current budget status (?project_id= or ?user_id= for their own budget)
  */
 router.get('/budget/status', costOptimizationController.getBudgetStatus);
 
 /**
  * PUT /api/cost/budget/config
- * Update budget configuration
+ * Update budget configuration; project_id or user_id in the body sets that budget (admins only)
+ */
+router.put('/budget/config', authMiddleware, requireRole('admin'), costOptimizationController.updateBudgetConfig);
+
+/**
+ * GET /api/cost/budgets
+ * List the global, project and user budgets
+ */
+router.get('/budgets', costOptimizationController.listBudgets);
+
+/**
+ * DELETE /api/cost/budgets/:scope/:scopeId
+ * Remove a project or user budget (admins only)
  */
-router.put('/budget/config', costOptimizationController.updateBudgetConfig);
+router.delete('/budgets/:scope/:scopeId', authMiddleware, requireRole('admin'), costOptimizationController.deleteBudget);
 
 /**
  * POST /api/cost/batch-process
@@ -11,6 +11,8 @@ import externalSeoRoutes from './external-seo.router';
 import advancedAnalyticsRoutes from './advanced-analytics.router';
 import abTestingRoutes from './ab-testing.router';
 import costOptimizationRoutes from './cost-optimization.router';
+import aiRoutingRoutes from './ai-routing.router';
+import publishingScheduleRoutes from './publishing-schedule.router';
 
 const router: Router = express.Router();
 
@@ -28,6 +30,9 @@ router.get('/health', (req, res) => {
       'analytics-integration',
       'ab-testing',
       'cost-optimization',
+      'ai-routing',
+      'scheduled-publishing',
+      'search-indexing',
       'external-seo-apis'
     ],
     timestamp: new Date().toISOString()
@@ -42,5 +47,7 @@ router.use('/seo-external', externalSeoRoutes);
 router.use('/analytics-advanced', advancedAnalyticsRoutes);
 router.use('/ab-testing', abTestingRoutes);
 router.use('/cost-optimization', costOptimizationRoutes);
+router.use('/ai-routing', aiRoutingRoutes);
+router.use('/publishing', publishingScheduleRoutes);
 
 export { router as k2wRouter };
\ No newline at end of file
@@ -3,7 +3,7 @@
  * RESTful endpoints using optimized controller pattern
  */
 
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { 
   keywordsController, 
   contentController, 
@@ -11,6 +11,8 @@ import {
   workflowController
 } from '../controllers/optimized-k2w.controller';
 import { k2wWorkflowController } from '../controllers/k2w-workflow.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { projectsOfKeywords, requireProjectOwner } from '../middleware/ownership.middleware';
 
 const router: Router = Router();
 
@@ -19,7 +21,7 @@ const router: Router = Router();
  */
 
 // POST /api/k2w/keywords/submit - Submit keyword for processing (Frontend compatibility)
-router.post('/keywords/submit', (req, res) => keywordsController.submitKeyword(req, res));
+router.post('/keywords/submit', authMiddleware, (req, res) => keywordsController.submitKeyword(req, res));
 
 // GET /api/k2w/keywords/:keyword_id/status - Get keyword status (Frontend compatibility)
 router.get('/keywords/:keyword_id/status', (req, res) => keywordsController.getKeywordStatus(req, res));
@@ -28,41 +30,68 @@ router.get('/keywords/:keyword_id/status', (req, res) => keywordsController.getK
 router.get('/keywords/history', (req, res) => keywordsController.getKeywordHistory(req, res));
 
 // POST /api/k2w/keywords/import - Import and process keywords
-router.post('/keywords/import', (req, res) => keywordsController.importKeywords(req, res));
+router.post('/keywords/import', authMiddleware, (req, res) => keywordsController.importKeywords(req, res));
 
 // GET /api/k2w/keywords/:project_id - Get all keywords for a project
 router.get('/keywords/:project_id', (req, res) => keywordsController.getKeywords(req, res));
 
+// POST /api/k2w/keywords/serp-snapshots/import - Import SERP snapshots for SERP-overlap clustering
+router.post('/keywords/serp-snapshots/import', authMiddleware, (req, res) => keywordsController.importSerpSnapshots(req, res));
+
 // POST /api/k2w/keywords/cluster - Manually trigger keyword clustering
-router.post('/keywords/cluster', (req, res) => keywordsController.clusterKeywords(req, res));
+router.post('/keywords/cluster', authMiddleware, (req, res) => keywordsController.clusterKeywords(req, res));
 
 // PUT /api/k2w/keywords/:keyword_id/status - Update keyword status
 router.put('/keywords/:keyword_id/status', (req, res) => keywordsController.updateKeywordStatus(req, res));
 
-// DELETE /api/k2w/keywords/:keyword_id - Delete keyword
-router.delete('/keywords/:keyword_id', (req, res) => keywordsController.deleteKeyword(req, res));
+// DELETE /api/k2w/keywords/:keyword_id - Archive or hard-delete keyword (supports dry_run; project owner or admin)
+router.delete(
+  '/keywords/:keyword_id',
+  authMiddleware,
+  requireProjectOwner(req => projectsOfKeywords([req.params.keyword_id])),
+  (req, res) => keywordsController.deleteKeyword(req, res)
+);
+
+// POST /api/k2w/keywords/bulk-delete - Archive or hard-delete many keywords (supports dry_run; project owner or admin)
+router.post(
+  '/keywords/bulk-delete',
+  authMiddleware,
+  requireProjectOwner(async req => Array.isArray(req.body?.keyword_ids) ? projectsOfKeywords(req.body.keyword_ids) : []),
+  (req, res) => keywordsController.bulkDeleteKeywords(req, res)
+);
+
+// POST /api/k2w/keywords/:keyword_id/restore - Restore an archived keyword (project owner or admin)
+router.post(
+  '/keywords/:keyword_id/restore',
+  authMiddleware,
+  requireProjectOwner(req => projectsOfKeywords([req.params.keyword_id])),
+  (req, res) => keywordsController.restoreKeyword(req, res)
+);
 
 /**
  * Content Routes
  */
 
 // POST /api/k2w/content/generate - Generate AI content
-router.post('/content/generate', (req, res) => contentController.generateContent(req, res));
+router.post('/content/generate', authMiddleware, (req, res) => contentController.generateContent(req, res));
+
+// POST /api/k2w/content/generate/:keyword_id/cancel - Cancel a content generation in progress
+router.post('/content/generate/:keyword_id/cancel', authMiddleware, (req, res) => contentController.cancelGeneration(req, res));
 
 // GET /api/k2w/content/pending-review - Get content pending editorial review
 router.get('/content/pending-review', (req, res) => contentController.getPendingReviewContent(req, res));
 
 // POST /api/k2w/content/:content_id/approve - Approve content and mark ready to publish
-router.post('/content/:content_id/approve', (req, res) => contentController.approveContent(req, res));
+router.post('/content/:content_id/approve', authMiddleware, (req, res) => contentController.approveContent(req, res));
 
 // POST /api/k2w/content/:content_id/reject - Reject content and request edits
-router.post('/content/:content_id/reject', (req, res) => contentController.rejectContent(req, res));
+router.post('/content/:content_id/reject', authMiddleware, (req, res) => contentController.rejectContent(req, res));
 
 // PUT /api/k2w/content/:content_id/body - Update content body html/text directly
 router.put('/content/:content_id/body', (req, res) => contentController.updateContentBody(req, res));
 
 // POST /api/k2w/content/:content_id/translate-en - Translate content to English
-router.post('/content/:content_id/translate-en', (req, res) => contentController.translateContentToEnglish(req, res));
+router.post('/content/:content_id/translate-en', authMiddleware, (req, res) => contentController.translateContentToEnglish(req, res));
 
 // GET /api/k2w/content/:content_id - Get content by ID (Frontend compatibility)
 router.get('/content/:content_id', (req, res) => contentController.getContentById(req, res));
@@ -74,7 +103,7 @@ router.get('/content/batches', (req, res) => contentController.getContentBatches
 router.get('/content/:content_id/download', (req, res) => contentController.downloadContent(req, res));
 
 // POST /api/k2w/content/batch-generate - Generate content for multiple keywords
-router.post('/content/batch-generate', (req, res) => contentController.batchGenerateContent(req, res));
+router.post('/content/batch-generate', authMiddleware, (req, res) => contentController.batchGenerateContent(req, res));
 
 // GET /api/k2w/content/project/:project_id - Get all content for a project
 router.get('/content/project/:project_id', (req, res) => contentController.getContent(req, res));
@@ -83,7 +112,7 @@ router.get('/content/project/:project_id', (req, res) => contentController.getCo
 router.get('/content/detail/:content_id', (req, res) => contentController.getContentById(req, res));
 
 // PUT /api/k2w/content/:content_id/optimize - Optimize content with AI
-router.put('/content/:content_id/optimize', (req, res) => contentController.optimizeContent(req, res));
+router.put('/content/:content_id/optimize', authMiddleware, (req, res) => contentController.optimizeContent(req, res));
 
 // DELETE /api/k2w/content/:content_id - Delete content
 router.delete('/content/:content_id', (req, res) => contentController.deleteContent(req, res));
@@ -181,6 +210,12 @@ router.get('/workflow/:id/status', (req, res) => workflowController.getWorkflowS
 // POST /api/k2w/workflow/:id/cancel - Cancel workflow (Frontend compatibility)
 router.post('/workflow/:id/cancel', (req, res) => workflowController.cancelWorkflow(req, res));
 
+// POST /api/k2w/workflow/:id/resume - Resume a checkpointed workflow, optionally from_stage
+router.post('/workflow/:id/resume', authMiddleware, (req, res, next) => k2wWorkflowController.resumeWorkflow(req, res, next));
+
+// POST /api/k2w/workflow/:id/stages/:stageId/approval - Approve or reject an approval stage
+router.post('/workflow/:id/stages/:stageId/approval', authMiddleware, (req, res, next) => k2wWorkflowController.decideApproval(req, res, next));
+
 // GET /api/k2w/workflow/:project_id/history - Get workflow history
 router.get('/workflow/:project_id/history', (req, res) => workflowController.getWorkflowHistory(req, res));
 
@@ -190,4 +225,24 @@ router.post('/projects/:project_id/workflow/execute', (req, res) => workflowCont
 // GET /api/k2w/projects/:project_id/workflow/status - Get project workflow status
 router.get('/projects/:project_id/workflow/status', (req, res) => workflowController.getProjectWorkflowStatus(req, res));
 
+// GET /api/k2w/projects/:project_id/workflow/definition - Get the project's workflow definition
+router.get('/projects/:project_id/workflow/definition', (req, res, next) => k2wWorkflowController.getWorkflowDefinition(req, res, next));
+
+// PUT /api/k2w/projects/:project_id/workflow/definition - Save a workflow definition (JSON or YAML body; project owner or admin)
+router.put(
+  '/projects/:project_id/workflow/definition',
+  authMiddleware,
+  requireProjectOwner(async req => [req.params.project_id]),
+  express.text({ type: ['application/yaml', 'application/x-yaml', 'text/yaml', 'text/plain'] }),
+  (req, res, next) => k2wWorkflowController.saveWorkflowDefinition(req, res, next)
+);
+
+// DELETE /api/k2w/projects/:project_id/workflow/definition - Go back to the default workflow (project owner or admin)
+router.delete(
+  '/projects/:project_id/workflow/definition',
+  authMiddleware,
+  requireProjectOwner(async req => [req.params.project_id]),
+  (req, res, next) => k2wWorkflowController.deleteWorkflowDefinition(req, res, next)
+);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,182 @@
+/**
+ * Publishing Schedule API Routes
+ * Scheduled publishing jobs (the approval dashboard's calendar), per-domain cadence limits, failed publishes,
+ * republishing and unpublishing live content, site sitemaps and feeds, and search engine submissions
+ */
+
+import { Router } from 'express';
+import { PublishingScheduleController } from '../controllers/publishing-schedule.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import {
+  projectOfScheduledPublish,
+  projectsOfContent,
+  projectsOfFailedPublishes,
+  requireDomainOwner,
+  requireProjectOwner
+} from '../middleware/ownership.middleware';
+
+const router: Router = Router();
+const publishingScheduleController = new PublishingScheduleController();
+
+/**
+ * GET /api/k2w/publishing/schedule
+ * List scheduled publishing jobs (?from=&to=&domain=&project_id=&status=)
+ */
+router.get('/schedule', publishingScheduleController.listSchedule);
+
+/**
+ * POST /api/k2w/publishing/schedule
+ * Schedule content at scheduled_for, or at the next free slot of its domain (owners of its project or admins)
+ */
+router.post(
+  '/schedule',
+  authMiddleware,
+  requireProjectOwner(req => projectsOfContent([req.body?.content_id])),
+  publishingScheduleController.schedulePublish
+);
+
+/**
+ * POST /api/k2w/publishing/schedule/batch
+ * Spread approved content (content_ids, or a project's ready-to-publish content) over the coming days
+ * (owners of its projects or admins)
+ */
+router.post(
+  '/schedule/batch',
+  authMiddleware,
+  requireProjectOwner(async req => Array.isArray(req.body?.content_ids) && req.body.content_ids.length > 0
+    ? projectsOfContent(req.body.content_ids)
+    : [req.body?.project_id]),
+  publishingScheduleController.scheduleBatch
+);
+
+/**
+ * PUT /api/k2w/publishing/schedule/:id
+ * Reschedule a job that has not started (owners of its project or admins)
+ */
+router.put('/schedule/:id', authMiddleware, requireProjectOwner(projectOfScheduledPublish), publishingScheduleController.reschedule);
+
+/**
+ * DELETE /api/k2w/publishing/schedule/:id
+ * Cancel a job that has not started (owners of its project or admins)
+ */
+router.delete('/schedule/:id', authMiddleware, requireProjectOwner(projectOfScheduledPublish), publishingScheduleController.cancel);
+
+/**
+ * GET /api/k2w/publishing/cadences
+ * List per-domain publishing cadences and the default
+ */
+router.get('/cadences', publishingScheduleController.listCadences);
+
+/**
+ * PUT /api/k2w/publishing/cadences
+ * Add or replace a domain's cadence (max_per_day, time_zone, publishing window, weekdays, targets;
+ * users with a project on the domain or admins)
+ */
+router.put('/cadences', authMiddleware, requireDomainOwner(req => req.body?.domain), publishingScheduleController.updateCadence);
+
+/**
+ * DELETE /api/k2w/publishing/cadences/:domain
+ * Remove a domain's cadence (users with a project on the domain or admins)
+ */
+router.delete('/cadences/:domain', authMiddleware, requireDomainOwner(req => req.params.domain), publishingScheduleController.deleteCadence);
+
+/**
+ * GET /api/k2w/publishing/failed
+ * List failed publishes (?status=retrying|failed&content_id=; owners of the content's project, admins without content_id)
+ */
+router.get(
+  '/failed',
+  authMiddleware,
+  requireProjectOwner(async req => typeof req.query.content_id === 'string' ? projectsOfContent([req.query.content_id]) : null),
+  publishingScheduleController.listFailedPublishes
+);
+
+/**
+ * POST /api/k2w/publishing/failed/retry
+ * Retry failed publishes by ids (owners of their projects), or every one that failed for good (admins)
+ */
+router.post(
+  '/failed/retry',
+  authMiddleware,
+  requireProjectOwner(async req => Array.isArray(req.body?.ids) && req.body.ids.length > 0 ? projectsOfFailedPublishes(req.body.ids) : null),
+  publishingScheduleController.retryFailedPublishes
+);
+
+/**
+ * POST /api/k2w/publishing/failed/:id/retry
+ * Retry one failed publish now (owners of its project or admins)
+ */
+router.post(
+  '/failed/:id/retry',
+  authMiddleware,
+  requireProjectOwner(req => projectsOfFailedPublishes([req.params.id])),
+  publishingScheduleController.retryFailedPublish
+);
+
+/**
+ * GET /api/k2w/publishing/feeds
+ * List sites with sitemaps and RSS/Atom feeds
+ */
+router.get('/feeds', publishingScheduleController.listSiteFeeds);
+
+/**
+ * GET /api/k2w/publishing/feeds/file
+ * Get a generated sitemap or feed as XML (?site_url=&path=sitemap.xml|feed.xml|atom.xml)
+ */
+router.get('/feeds/file', publishingScheduleController.getSiteFeedFile);
+
+/**
+ * POST /api/k2w/publishing/feeds/rebuild
+ * Regenerate and redeploy a site's sitemaps and feeds
+ */
+router.post('/feeds/rebuild', authMiddleware, publishingScheduleController.rebuildSiteFeed);
+
+/**
+ * POST /api/k2w/publishing/content/:id/republish
+ * Update content in place on the targets it is live on ({ target_ids?, options? }; default: every one;
+ * owners of its project or admins)
+ */
+router.post(
+  '/content/:id/republish',
+  authMiddleware,
+  requireProjectOwner(req => projectsOfContent([req.params.id])),
+  publishingScheduleController.republishContent
+);
+
+/**
+ * POST /api/k2w/publishing/content/:id/unpublish
+ * Take content down from its targets ({ target_ids?, redirect_to? }; default: every one); once it is live nowhere,
+ * remove it from sitemaps and feeds and archive it (owners of its project or admins)
+ */
+router.post(
+  '/content/:id/unpublish',
+  authMiddleware,
+  requireProjectOwner(req => projectsOfContent([req.params.id])),
+  publishingScheduleController.unpublishContent
+);
+
+/**
+ * GET /api/k2w/publishing/indexing
+ * List search engine submissions (?status=&engine=indexnow|google&url=&content_id=&limit=)
+ */
+router.get('/indexing', publishingScheduleController.listIndexingSubmissions);
+
+/**
+ * GET /api/k2w/publishing/indexing/quota
+ * Today's usage of each search engine's daily quota
+ */
+router.get('/indexing/quota', publishingScheduleController.getIndexingQuota);
+
+/**
+ * POST /api/k2w/publishing/indexing
+ * Submit URLs to IndexNow and the Google Indexing API (urls, engines?, action?: URL_UPDATED|URL_DELETED)
+ */
+router.post('/indexing', authMiddleware, publishingScheduleController.submitForIndexing);
+
+/**
+ * POST /api/k2w/publishing/indexing/:id/retry
+ * Send a failed submission again
+ */
+router.post('/indexing/:id/retry', authMiddleware, publishingScheduleController.retryIndexingSubmission);
+
+export default router;
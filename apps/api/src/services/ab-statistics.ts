@@ -0,0 +1,668 @@
+/**
+ * A/B Test Statistics
+ * Frequentist tests (two-proportion z-test, Welch's t-test), Bayesian
+ * beta-binomial comparison, sample size/power, multiple-comparison correction
+ * sequential (peeking-safe) analysis and multi-armed bandit allocation
+ */
+
+export type MultipleComparisonCorrection = 'holm' | 'bonferroni' | 'benjamini_hochberg' | 'none';
+
+export type SequentialMethod = 'msprt' | 'obrien_fleming';
+
+export type BanditAlgorithm = 'thompson_sampling' | 'ucb1';
+
+export interface BanditArm {
+  successes: number;
+  trials: number;
+}
+
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+  level: number;
+}
+
+export interface TestStatistic {
+  test: 'two_proportion_z' | 'welch_t';
+  statistic: number;
+  degrees_of_freedom?: number;
+  p_value: number;
+  /** Absolute difference variant - control */
+  difference: number;
+  confidence_interval: ConfidenceInterval;
+}
+
+export interface BayesianComparison {
+  probability_to_beat_control: number;
+  /** Expected loss (absolute rate) of choosing the variant if it is actually worse */
+  expected_loss: number;
+  control_credible_interval: ConfidenceInterval;
+  variant_credible_interval: ConfidenceInterval;
+}
+
+export interface SampleSizeEstimate {
+  per_variant: number;
+  total: number;
+  alpha: number;
+  power: number;
+  minimum_detectable_effect: number;
+}
+
+/** Accepts 95 or 0.95 style confidence levels */
+export function toProbability(level: number): number {
+  return level > 1 ? level / 100 : level;
+}
+
+// ==================== DISTRIBUTIONS ====================
+
+/** Standard normal CDF (Abramowitz-Stegun 7.1.26 via erf) */
+export function normalCdf(z: number): number {
+  return 0.5 * (1 + erf(z / Math.SQRT2));
+}
+
+/** Inverse standard normal CDF (Acklam's rational approximation) */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/** Student's t CDF via the regularized incomplete beta function */
+export function studentTCdf(t: number, df: number): number {
+  if (!isFinite(df) || df > 1e6) return normalCdf(t);
+  const x = df / (df + t * t);
+  const tail = 0.5 * regularizedIncompleteBeta(x, df / 2, 0.5);
+  return t >= 0 ? 1 - tail : tail;
+}
+
+/** Inverse Student's t CDF by bisection */
+export function studentTQuantile(p: number, df: number): number {
+  if (!isFinite(df) || df > 1e6) return normalQuantile(p);
+  return bisect(t => studentTCdf(t, df) - p, -1e3, 1e3);
+}
+
+/** Inverse Beta CDF by bisection */
+export function betaQuantile(p: number, alpha: number, beta: number): number {
+  return bisect(x => regularizedIncompleteBeta(x, alpha, beta) - p, 0, 1);
+}
+
+export function logBeta(a: number, b: number): number {
+  return logGamma(a) + logGamma(b) - logGamma(a + b);
+}
+
+// ==================== FREQUENTIST TESTS ====================
+
+/**
+ * Two-proportion z-test (pooled standard error for the test,
+ * unpooled for the confidence interval of the difference)
+ */
+export function twoProportionZTest(
+  controlSuccesses: number,
+  controlTrials: number,
+  variantSuccesses: number,
+  variantTrials: number,
+  confidenceLevel: number = 0.95
+): TestStatistic {
+  const level = toProbability(confidenceLevel);
+  const p1 = controlTrials > 0 ? controlSuccesses / controlTrials : 0;
+  const p2 = variantTrials > 0 ? variantSuccesses / variantTrials : 0;
+  const difference = p2 - p1;
+
+  const pooled = controlTrials + variantTrials > 0
+    ? (controlSuccesses + variantSuccesses) / (controlTrials + variantTrials)
+    : 0;
+  const pooledSe = Math.sqrt(pooled * (1 - pooled) * (safeInverse(controlTrials) + safeInverse(variantTrials)));
+  const z = pooledSe > 0 ? difference / pooledSe : 0;
+
+  const se = Math.sqrt(
+    (controlTrials > 0 ? p1 * (1 - p1) / controlTrials : 0) +
+    (variantTrials > 0 ? p2 * (1 - p2) / variantTrials : 0)
+  );
+  const margin = normalQuantile(1 - (1 - level) / 2) * se;
+
+  return {
+    test: 'two_proportion_z',
+    statistic: z,
+    p_value: pooledSe > 0 ? 2 * (1 - normalCdf(Math.abs(z))) : 1,
+    difference,
+    confidence_interval: { lower: difference - margin, upper: difference + margin, level }
+  };
+}
+
+/**
+ * Welch's unequal-variance t-test on summary statistics
+ */
+export function welchTTest(
+  control: { mean: number; variance: number; n: number },
+  variant: { mean: number; variance: number; n: number },
+  confidenceLevel: number = 0.95
+): TestStatistic {
+  const level = toProbability(confidenceLevel);
+  const difference = variant.mean - control.mean;
+
+  if (control.n < 2 || variant.n < 2) {
+    return {
+      test: 'welch_t',
+      statistic: 0,
+      degrees_of_freedom: 0,
+      p_value: 1,
+      difference,
+      confidence_interval: { lower: -Infinity, upper: Infinity, level }
+    };
+  }
+
+  const v1 = control.variance / control.n;
+  const v2 = variant.variance / variant.n;
+  const se = Math.sqrt(v1 + v2);
+  const df = se > 0
+    ? Math.pow(v1 + v2, 2) / (Math.pow(v1, 2) / (control.n - 1) + Math.pow(v2, 2) / (variant.n - 1))
+    : control.n + variant.n - 2;
+  const t = se > 0 ? difference / se : 0;
+  const margin = studentTQuantile(1 - (1 - level) / 2, df) * se;
+
+  return {
+    test: 'welch_t',
+    statistic: t,
+    degrees_of_freedom: df,
+    p_value: se > 0 ? 2 * (1 - studentTCdf(Math.abs(t), df)) : 1,
+    difference,
+    confidence_interval: { lower: difference - margin, upper: difference + margin, level }
+  };
+}
+
+// ==================== BAYESIAN ====================
+
+/**
+ * Beta-binomial comparison with a Beta(1, 1) prior.
+ * P(variant > control) uses the exact closed form (Evan Miller), computed in log space.
+ */
+export function betaBinomialComparison(
+  controlSuccesses: number,
+  controlTrials: number,
+  variantSuccesses: number,
+  variantTrials: number,
+  credibleLevel: number = 0.95,
+  prior: { alpha: number; beta: number } = { alpha: 1, beta: 1 }
+): BayesianComparison {
+  const level = toProbability(credibleLevel);
+  const aC = prior.alpha + controlSuccesses;
+  const bC = prior.beta + controlTrials - controlSuccesses;
+  const aV = prior.alpha + variantSuccesses;
+  const bV = prior.beta + variantTrials - variantSuccesses;
+
+  const probability = probabilityBetaGreater(aV, bV, aC, bC);
+
+  // E[max(pC - pV, 0)] = E[pC]·P(pC' > pV) - E[pV]·P(pC > pV') with shifted parameters
+  const expectedLoss = Math.max(0,
+    (aC / (aC + bC)) * probabilityBetaGreater(aC + 1, bC, aV, bV) -
+    (aV / (aV + bV)) * probabilityBetaGreater(aC, bC, aV + 1, bV)
+  );
+
+  const tail = (1 - level) / 2;
+  return {
+    probability_to_beat_control: clamp01(probability),
+    expected_loss: expectedLoss,
+    control_credible_interval: { lower: betaQuantile(tail, aC, bC), upper: betaQuantile(1 - tail, aC, bC), level },
+    variant_credible_interval: { lower: betaQuantile(tail, aV, bV), upper: betaQuantile(1 - tail, aV, bV), level }
+  };
+}
+
+/**
+ * Normal-approximation probability that the variant mean beats control,
+ * for continuous metrics where a conjugate beta model does not apply
+ */
+export function probabilityToBeatNormal(
+  control: { mean: number; variance: number; n: number },
+  variant: { mean: number; variance: number; n: number }
+): number {
+  if (control.n === 0 || variant.n === 0) return 0.5;
+  const se = Math.sqrt(control.variance / control.n + variant.variance / variant.n);
+  if (se === 0) return variant.mean > control.mean ? 1 : variant.mean < control.mean ? 0 : 0.5;
+  return normalCdf((variant.mean - control.mean) / se);
+}
+
+/** P(X > Y) for X ~ Beta(aX, bX), Y ~ Beta(aY, bY); aX must be a positive integer */
+function probabilityBetaGreater(aX: number, bX: number, aY: number, bY: number): number {
+  let total = 0;
+  for (let i = 0; i < Math.round(aX); i++) {
+    total += Math.exp(
+      logBeta(aY + i, bY + bX) - Math.log(bX + i) - logBeta(1 + i, bX) - logBeta(aY, bY)
+    );
+  }
+  return clamp01(total);
+}
+
+// ==================== POWER & SAMPLE SIZE ====================
+
+/**
+ * Per-variant sample size to detect a relative lift on a proportion metric
+ */
+export function sampleSizeForProportions(
+  baselineRate: number,
+  relativeMde: number,
+  options: { alpha?: number; power?: number } = {}
+): SampleSizeEstimate {
+  const alpha = options.alpha ?? 0.05;
+  const power = options.power ?? 0.8;
+  const p1 = clamp01(baselineRate);
+  const p2 = clamp01(baselineRate * (1 + relativeMde));
+  const delta = Math.abs(p2 - p1);
+
+  if (delta === 0) {
+    return { per_variant: Infinity, total: Infinity, alpha, power, minimum_detectable_effect: relativeMde };
+  }
+
+  const zAlpha = normalQuantile(1 - alpha / 2);
+  const zBeta = normalQuantile(power);
+  const pBar = (p1 + p2) / 2;
+  const n = Math.pow(
+    zAlpha * Math.sqrt(2 * pBar * (1 - pBar)) + zBeta * Math.sqrt(p1 * (1 - p1) + p2 * (1 - p2)),
+    2
+  ) / Math.pow(delta, 2);
+
+  const perVariant = Math.ceil(n);
+  return { per_variant: perVariant, total: perVariant * 2, alpha, power, minimum_detectable_effect: relativeMde };
+}
+
+/**
+ * Per-variant sample size to detect an absolute difference in means
+ */
+export function sampleSizeForMeans(
+  standardDeviation: number,
+  absoluteMde: number,
+  options: { alpha?: number; power?: number } = {}
+): SampleSizeEstimate {
+  const alpha = options.alpha ?? 0.05;
+  const power = options.power ?? 0.8;
+
+  if (absoluteMde === 0) {
+    return { per_variant: Infinity, total: Infinity, alpha, power, minimum_detectable_effect: absoluteMde };
+  }
+
+  const zSum = normalQuantile(1 - alpha / 2) + normalQuantile(power);
+  const perVariant = Math.ceil(2 * Math.pow(standardDeviation * zSum / absoluteMde, 2));
+  return { per_variant: perVariant, total: perVariant * 2, alpha, power, minimum_detectable_effect: absoluteMde };
+}
+
+/**
+ * Achieved power of a two-sided two-proportion test at the given per-variant sample size
+ */
+export function powerForProportions(
+  baselineRate: number,
+  relativeMde: number,
+  perVariant: number,
+  alpha: number = 0.05
+): number {
+  const p1 = clamp01(baselineRate);
+  const p2 = clamp01(baselineRate * (1 + relativeMde));
+  if (perVariant <= 0 || p1 === p2) return 0;
+
+  const pBar = (p1 + p2) / 2;
+  const se0 = Math.sqrt(2 * pBar * (1 - pBar) / perVariant);
+  const se1 = Math.sqrt((p1 * (1 - p1) + p2 * (1 - p2)) / perVariant);
+  if (se1 === 0) return 1;
+
+  const zAlpha = normalQuantile(1 - alpha / 2);
+  return clamp01(normalCdf((Math.abs(p2 - p1) - zAlpha * se0) / se1));
+}
+
+/**
+ * Achieved power of a two-sided Welch test at the given per-variant sample size
+ */
+export function powerForMeans(
+  standardDeviation: number,
+  absoluteMde: number,
+  perVariant: number,
+  alpha: number = 0.05
+): number {
+  if (perVariant <= 0 || absoluteMde === 0) return 0;
+  const se = standardDeviation * Math.sqrt(2 / perVariant);
+  if (se === 0) return 1;
+
+  const zAlpha = normalQuantile(1 - alpha / 2);
+  return clamp01(normalCdf(Math.abs(absoluteMde) / se - zAlpha));
+}
+
+// ==================== MULTIPLE COMPARISONS ====================
+
+/**
+ * Adjust p-values for multiple comparisons against the same control
+ */
+export function adjustPValues(pValues: number[], method: MultipleComparisonCorrection = 'holm'): number[] {
+  const m = pValues.length;
+  if (m <= 1 || method === 'none') return [...pValues];
+
+  if (method === 'bonferroni') {
+    return pValues.map(p => Math.min(1, p * m));
+  }
+
+  const order = pValues.map((p, i) => ({ p, i })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(m);
+
+  if (method === 'holm') {
+    let running = 0;
+    order.forEach(({ p, i }, rank) => {
+      running = Math.max(running, Math.min(1, (m - rank) * p));
+      adjusted[i] = running;
+    });
+    return adjusted;
+  }
+
+  // Benjamini-Hochberg (false discovery rate)
+  let running = 1;
+  for (let rank = m - 1; rank >= 0; rank--) {
+    const { p, i } = order[rank];
+    running = Math.min(running, Math.min(1, p * m / (rank + 1)));
+    adjusted[i] = running;
+  }
+  return adjusted;
+}
+
+// ==================== SEQUENTIAL ANALYSIS ====================
+
+/**
+ * Lan-DeMets O'Brien-Fleming-type spending function:
+ * cumulative two-sided alpha spent at information fraction t
+ */
+export function obrienFlemingSpending(informationFraction: number, alpha: number = 0.05): number {
+  if (informationFraction <= 0) return 0;
+  if (informationFraction >= 1) return alpha;
+  return 2 - 2 * normalCdf(normalQuantile(1 - alpha / 2) / Math.sqrt(informationFraction));
+}
+
+/**
+ * Two-sided z boundaries for a group sequential design looked at the given
+ * increasing information fractions. Crossing probabilities are integrated
+ * numerically over the continuation region (Armitage-McPherson-Rowe recursion),
+ * so each look spends exactly the alpha the spending function allows.
+ */
+export function groupSequentialBoundaries(informationFractions: number[], alpha: number = 0.05): number[] {
+  const gridSize = 201;
+  const maxBoundary = 8;
+  const boundaries: number[] = [];
+
+  let grid: number[] = [];
+  let density: number[] = [];
+  let weights: number[] = [];
+  let previousFraction = 0;
+
+  for (const rawFraction of informationFractions) {
+    const fraction = Math.min(1, rawFraction);
+    const increment = fraction - previousFraction;
+
+    if (boundaries.length > 0 && increment <= 0) {
+      boundaries.push(boundaries[boundaries.length - 1]);
+      continue;
+    }
+
+    const target = obrienFlemingSpending(fraction, alpha) - obrienFlemingSpending(previousFraction, alpha);
+    const sd = Math.sqrt(increment);
+    let boundary: number;
+
+    if (boundaries.length === 0) {
+      boundary = target > 0 ? normalQuantile(1 - target / 2) : maxBoundary;
+    } else {
+      // P(continued so far and |S_t| >= b * sqrt(t)), decreasing in b
+      const crossing = (b: number) => {
+        const edge = b * Math.sqrt(fraction);
+        let total = 0;
+        for (let i = 0; i < grid.length; i++) {
+          total += weights[i] * density[i] *
+            (normalCdf((-edge - grid[i]) / sd) + 1 - normalCdf((edge - grid[i]) / sd));
+        }
+        return total;
+      };
+      boundary = target > 0 ? bisect(b => target - crossing(b), 0, maxBoundary) : maxBoundary;
+    }
+
+    boundary = Math.min(boundary, maxBoundary);
+    boundaries.push(boundary);
+
+    // Sub-density of the score S_t over the continuation region (-b√t, b√t)
+    const edge = boundary * Math.sqrt(fraction);
+    const step = (2 * edge) / (gridSize - 1);
+    const nextGrid = Array.from({ length: gridSize }, (_, j) => -edge + j * step);
+    const nextWeights = nextGrid.map((_, j) => (j === 0 || j === gridSize - 1 ? step / 2 : step));
+    const nextDensity = nextGrid.map(x => {
+      if (grid.length === 0) return normalDensity(x / sd) / sd;
+      let total = 0;
+      for (let i = 0; i < grid.length; i++) {
+        total += weights[i] * density[i] * normalDensity((x - grid[i]) / sd) / sd;
+      }
+      return total;
+    });
+
+    grid = nextGrid;
+    weights = nextWeights;
+    density = nextDensity;
+    previousFraction = fraction;
+  }
+
+  return boundaries;
+}
+
+/**
+ * Mixture SPRT (normal mixing distribution N(0, tau²)) always-valid p-value
+ * for an estimated difference with sampling variance `variance`.
+ * Callers keep the running minimum across looks.
+ */
+export function msprtPValue(difference: number, variance: number, tau: number): number {
+  if (variance <= 0 || tau <= 0) return 1;
+  const tau2 = tau * tau;
+  const logLikelihoodRatio = 0.5 * Math.log(variance / (variance + tau2)) +
+    (tau2 * difference * difference) / (2 * variance * (variance + tau2));
+  return Math.min(1, Math.exp(-logLikelihoodRatio));
+}
+
+// ==================== BANDITS ====================
+
+/**
+ * Thompson sampling weights: the posterior probability (Beta(1, 1) prior) that each
+ * arm has the highest rate, estimated by Monte Carlo
+ */
+export function thompsonSamplingWeights(
+  arms: BanditArm[],
+  draws: number = 10000,
+  random: () => number = Math.random
+): number[] {
+  if (arms.length === 0) return [];
+  const wins = new Array<number>(arms.length).fill(0);
+
+  for (let draw = 0; draw < draws; draw++) {
+    let best = 0;
+    let bestValue = -1;
+    arms.forEach((arm, index) => {
+      const value = sampleBeta(1 + arm.successes, 1 + arm.trials - arm.successes, random);
+      if (value > bestValue) {
+        bestValue = value;
+        best = index;
+      }
+    });
+    wins[best]++;
+  }
+
+  return wins.map(w => w / draws);
+}
+
+/**
+ * UCB1 weights: all traffic to the arm with the highest upper confidence bound,
+ * split evenly between untried arms until each has data
+ */
+export function ucb1Weights(arms: BanditArm[]): number[] {
+  if (arms.length === 0) return [];
+
+  const untried = arms.filter(arm => arm.trials === 0).length;
+  if (untried > 0) {
+    return arms.map(arm => (arm.trials === 0 ? 1 / untried : 0));
+  }
+
+  const totalTrials = arms.reduce((sum, arm) => sum + arm.trials, 0);
+  const indices = arms.map(arm => arm.successes / arm.trials + Math.sqrt((2 * Math.log(totalTrials)) / arm.trials));
+  const best = indices.indexOf(Math.max(...indices));
+  return arms.map((_, index) => (index === best ? 1 : 0));
+}
+
+/**
+ * Blend weights with a uniform floor so every arm keeps at least `floor` of the traffic
+ */
+export function applyAllocationFloor(weights: number[], floor: number): number[] {
+  const k = weights.length;
+  if (k === 0) return [];
+  if (floor * k >= 1) return weights.map(() => 1 / k);
+
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const normalized = total > 0 ? weights.map(w => w / total) : weights.map(() => 1 / k);
+  return normalized.map(w => floor + (1 - k * floor) * w);
+}
+
+/** Beta variate from two gamma variates */
+export function sampleBeta(alpha: number, beta: number, random: () => number = Math.random): number {
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return x / (x + y);
+}
+
+// ==================== NUMERICS ====================
+
+function erf(x: number): number {
+  // Abramowitz-Stegun 7.1.26, max error 1.5e-7
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t *
+    Math.exp(-x * x);
+  return sign * y;
+}
+
+/** Marsaglia-Tsang gamma sampler (shape boosted below 1) */
+function sampleGamma(shape: number, random: () => number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(random(), 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      // Box-Muller standard normal
+      x = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+      v = 1 + c * x;
+    } while (v <= 0);
+
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+function normalDensity(z: number): number {
+  return Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
+}
+
+function logGamma(x: number): number {
+  // Lanczos approximation (g = 7, n = 9)
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7
+  ];
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+  x -= 1;
+  let a = coefficients[0];
+  const t = x + 7.5;
+  for (let i = 1; i < 9; i++) {
+    a += coefficients[i] / (x + i);
+  }
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+/** Regularized incomplete beta I_x(a, b) via Lentz's continued fraction */
+function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(a * Math.log(x) + b * Math.log(1 - x) - logBeta(a, b));
+  if (x > (a + 1) / (a + b + 2)) {
+    return 1 - front * betaContinuedFraction(1 - x, b, a) / b;
+  }
+  return front * betaContinuedFraction(x, a, b) / a;
+}
+
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let result = d;
+
+  for (let m = 1; m <= 300; m++) {
+    const m2 = 2 * m;
+    let numerator = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+    d = 1 + numerator * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + numerator / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    result *= d * c;
+
+    numerator = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+    d = 1 + numerator * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + numerator / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+
+  return result;
+}
+
+function bisect(f: (x: number) => number, low: number, high: number): number {
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (f(mid) > 0) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+    if (high - low < 1e-10) break;
+  }
+  return (low + high) / 2;
+}
+
+function safeInverse(n: number): number {
+  return n > 0 ? 1 / n : 0;
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
@@ -0,0 +1,122 @@
+/**
+ * A/B Testing Snippet
+ * Client script injected into published pages: fetches the visitor's variant,
+ * applies its title/meta/CTA/intro and reports impressions, clicks, conversions and exits
+ */
+
+export interface ABTestingSnippetOptions {
+  apiBaseUrl: string; // e.g. https://api.example.com/api/k2w/ab-testing
+  contentId: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Generate the <script> tag for a published page.
+ * Mark CTA elements with data-k2w-cta and conversion elements/forms with data-k2w-conversion
+ * (optionally data-k2w-value for revenue); pages can also call window.k2wAbTest.convert(value).
+ */
+export function generateABTestingSnippet(options: ABTestingSnippetOptions): string {
+  const config = JSON.stringify({
+    api: options.apiBaseUrl.replace(/\/+$/, ''),
+    contentId: options.contentId,
+    timeout: options.timeoutMs ?? 1500
+  }).replace(/</g, '\\u003c');
+
+  return `<script>
+(function (config) {
+  var storageKey = 'k2w_visitor_id';
+  var visitorId;
+  try {
+    visitorId = localStorage.getItem(storageKey);
+    if (!visitorId) {
+      visitorId = (window.crypto && crypto.randomUUID) ? crypto.randomUUID() : String(Date.now()) + Math.random().toString(36).slice(2);
+      localStorage.setItem(storageKey, visitorId);
+    }
+  } catch (e) {
+    visitorId = String(Date.now()) + Math.random().toString(36).slice(2);
+  }
+
+  var assignment = null;
+  var startedAt = Date.now();
+  var interacted = false;
+  var clicked = false;
+
+  function send(type, extra) {
+    if (!assignment || !assignment.in_experiment) return;
+    var event = { test_id: assignment.test_id, variant_id: assignment.variant_id, visitor_id: visitorId, type: type, timestamp: new Date().toISOString() };
+    for (var key in extra || {}) event[key] = extra[key];
+    var body = JSON.stringify({ events: [event] });
+    var url = config.api + '/events';
+    // text/plain keeps this a simple CORS request (no preflight)
+    if (navigator.sendBeacon && navigator.sendBeacon(url, new Blob([body], { type: 'text/plain' }))) return;
+    fetch(url, { method: 'POST', body: body, headers: { 'Content-Type': 'text/plain' }, keepalive: true }).catch(function () {});
+  }
+
+  function apply(content) {
+    if (content.title) {
+      var heading = document.querySelector('main h1, h1');
+      if (heading) heading.textContent = content.title;
+    }
+    if (content.meta_title || content.title) document.title = content.meta_title || content.title;
+    if (content.meta_description) {
+      var meta = document.querySelector('meta[name="description"]');
+      if (meta) meta.setAttribute('content', content.meta_description);
+    }
+    if (content.cta) {
+      var ctas = document.querySelectorAll('[data-k2w-cta]');
+      for (var i = 0; i < ctas.length; i++) ctas[i].textContent = content.cta;
+    }
+    if (content.intro) {
+      var intro = document.querySelector('main p');
+      if (intro) intro.outerHTML = content.intro;
+    }
+  }
+
+  function bindTracking() {
+    document.addEventListener('click', function (event) {
+      var target = event.target && event.target.closest ? event.target.closest('a, button, [data-k2w-cta], [data-k2w-conversion]') : null;
+      if (!target) return;
+      interacted = true;
+      // CTR counts visitors, not clicks: report the first click only
+      if (!clicked) {
+        clicked = true;
+        send('click');
+      }
+      if (target.hasAttribute('data-k2w-conversion') && target.tagName !== 'FORM') {
+        send('conversion', { value: Number(target.getAttribute('data-k2w-value')) || undefined });
+      }
+    }, true);
+    document.addEventListener('submit', function (event) {
+      var form = event.target;
+      if (form && form.hasAttribute && form.hasAttribute('data-k2w-conversion')) {
+        interacted = true;
+        send('conversion', { value: Number(form.getAttribute('data-k2w-value')) || undefined });
+      }
+    }, true);
+    window.addEventListener('pagehide', function () {
+      send('exit', { value: Math.round((Date.now() - startedAt) / 1000), bounced: !interacted });
+    });
+  }
+
+  window.k2wAbTest = {
+    visitorId: visitorId,
+    convert: function (value) { interacted = true; send('conversion', { value: value }); }
+  };
+
+  var controller = window.AbortController ? new AbortController() : null;
+  var timer = setTimeout(function () { if (controller) controller.abort(); }, config.timeout);
+  var query = '?content_id=' + encodeURIComponent(config.contentId) + '&visitor_id=' + encodeURIComponent(visitorId);
+
+  fetch(config.api + '/serve' + query, { signal: controller ? controller.signal : undefined })
+    .then(function (response) { return response.json(); })
+    .then(function (payload) {
+      clearTimeout(timer);
+      assignment = payload && payload.data;
+      if (!assignment || !assignment.in_experiment) return;
+      var run = function () { apply(assignment.content || {}); bindTracking(); send('impression'); };
+      if (document.readyState === 'loading') document.addEventListener('DOMContentLoaded', run); else run();
+    })
+    .catch(function () {});
+})(${config});
+</script>`;
+}
@@ -0,0 +1,170 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { contentRepository } from '../repositories/k2w-optimized.repository';
+import { ABTestingFramework, ABTestConfig, ABTestVariant } from './ab-testing.service';
+
+jest.mock('../repositories/k2w-optimized.repository', () => ({
+  contentRepository: { update: jest.fn(async () => ({})) }
+}));
+
+const variant = (id: string, trafficAllocation: number): ABTestVariant => ({
+  id,
+  name: id,
+  content_id: 'content-1',
+  variant_type: 'title',
+  changes: { title: `Title ${id}` },
+  traffic_allocation: trafficAllocation,
+  status: 'draft',
+  created_at: '2026-01-01T00:00:00.000Z'
+});
+
+// Every visitor lands on the control, so its metrics are the test's
+const testConfig = (overrides: Partial<ABTestConfig> = {}): Omit<ABTestConfig, 'test_id' | 'created_at' | 'status'> => ({
+  content_id: 'content-1',
+  test_name: 'Title test',
+  test_type: 'simple',
+  hypothesis: 'A shorter title gets more clicks',
+  primary_metric: 'ctr',
+  secondary_metrics: [],
+  minimum_sample_size: 100,
+  confidence_level: 95,
+  max_test_duration_days: 14,
+  variants: [variant('control', 100), variant('challenger', 0)],
+  created_by: 'user-1',
+  ...overrides
+});
+
+describe('ABTestingFramework', () => {
+  let dir: string;
+  let dbPath: string;
+  let framework: ABTestingFramework;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ab-testing-'));
+    dbPath = path.join(dir, 'ab-testing.db');
+    framework = new ABTestingFramework(dbPath);
+  });
+
+  afterEach(() => {
+    framework.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  const startTest = async (overrides: Partial<ABTestConfig> = {}): Promise<string> => {
+    const test = await framework.createABTest(testConfig(overrides));
+    await framework.startTest(test.test_id);
+    return test.test_id;
+  };
+
+  it('only accepts events from visitors served a variant, for that variant', async () => {
+    const testId = await startTest();
+    const result = await framework.recordEvents([
+      { test_id: testId, visitor_id: 'visitor-1', type: 'impression' }
+    ]);
+    expect(result.rejected[0].error).toBe('Visitor has not been served a variant of this test');
+
+    await framework.serveVariant({ test_id: testId, visitor_id: 'visitor-1' });
+    const served = await framework.recordEvents([
+      { test_id: testId, visitor_id: 'visitor-1', type: 'impression', variant_id: 'challenger' },
+      { test_id: testId, visitor_id: 'visitor-1', type: 'impression', variant_id: 'control' }
+    ]);
+    expect(served).toEqual({
+      accepted: 1,
+      rejected: [{ index: 0, error: 'variant_id does not match the visitor\'s assignment' }]
+    });
+  });
+
+  it('does not count visitors of rejected events', async () => {
+    const testId = await startTest();
+    await framework.serveVariant({ test_id: testId, visitor_id: 'visitor-1' });
+
+    const result = await framework.recordEvents([
+      { test_id: testId, visitor_id: 'visitor-1', type: 'scroll' as any },
+      { test_id: testId, visitor_id: 'visitor-1', type: 'conversion', value: -5 }
+    ]);
+
+    expect(result.accepted).toBe(0);
+    expect((await framework.getTestStatus(testId)).interim_results?.total_visitors).toBe(0);
+  });
+
+  it('counts each visitor\'s clicks once', async () => {
+    const testId = await startTest();
+    for (const visitorId of ['visitor-1', 'visitor-2']) {
+      await framework.serveVariant({ test_id: testId, visitor_id: visitorId });
+    }
+
+    await framework.recordEvents([
+      { test_id: testId, visitor_id: 'visitor-1', type: 'impression' },
+      { test_id: testId, visitor_id: 'visitor-1', type: 'click' },
+      { test_id: testId, visitor_id: 'visitor-1', type: 'click' },
+      { test_id: testId, visitor_id: 'visitor-1', type: 'click' },
+      { test_id: testId, visitor_id: 'visitor-2', type: 'impression' },
+      { test_id: testId, visitor_id: 'visitor-2', type: 'impression' }
+    ]);
+
+    const results = await framework.analyzeTestResults((await framework.getTestStatus(testId)).config);
+    expect(results.primary_metric_results.control_value).toBe(0.5);
+    expect(results.primary_metric_results.control_sample_size).toBe(2);
+  });
+
+  // Half the visitors see each variant; every fifth control visitor and all challenger visitors click
+  const runClickTest = async (challenger: ABTestVariant): Promise<string> => {
+    const testId = await startTest({ variants: [variant('control', 50), challenger] });
+    for (let i = 0; i < 100; i++) {
+      const visitorId = `visitor-${i}`;
+      const { variant_id } = await framework.serveVariant({ test_id: testId, visitor_id: visitorId });
+      await framework.recordEvents([
+        { test_id: testId, visitor_id: visitorId, type: 'impression' },
+        ...(variant_id === challenger.id || i % 5 === 0 ? [{ test_id: testId, visitor_id: visitorId, type: 'click' as const }] : [])
+      ]);
+    }
+    return testId;
+  };
+
+  it('saves the winning variant as the content\'s default', async () => {
+    const testId = await runClickTest(variant('challenger', 50));
+    (contentRepository.update as jest.Mock).mockClear();
+
+    await framework.stopTest(testId);
+
+    expect(contentRepository.update).toHaveBeenCalledWith('content-1', { title: 'Title challenger' });
+    const { config } = await framework.getTestStatus(testId);
+    expect(config.variants.find(v => v.id === 'challenger')?.status).toBe('winner');
+  });
+
+  it('fails to stop with a winner it cannot save, after ending the test', async () => {
+    const testId = await runClickTest({ ...variant('challenger', 50), variant_type: 'cta', changes: { cta: 'Get a quote' } });
+    (contentRepository.update as jest.Mock).mockClear();
+
+    await expect(framework.stopTest(testId)).rejects.toThrow('changes the CTA');
+
+    expect(contentRepository.update).not.toHaveBeenCalled();
+    expect((await framework.getTestStatus(testId)).config.status).toBe('completed');
+  });
+
+  it('keeps tests, assignments, events and allocations across a restart', async () => {
+    const testId = await startTest({
+      allocation_mode: 'bandit',
+      bandit: { algorithm: 'thompson_sampling', reward_metric: 'ctr' }
+    });
+    await framework.serveVariant({ test_id: testId, visitor_id: 'visitor-1' });
+    await framework.recordEvents([{ test_id: testId, visitor_id: 'visitor-1', type: 'click' }]);
+    framework.close();
+
+    framework = new ABTestingFramework(dbPath);
+    framework.start();
+
+    const assignment = await framework.serveVariant({ content_id: 'content-1', visitor_id: 'visitor-1' });
+    expect(assignment).toMatchObject({ test_id: testId, in_experiment: true, variant_id: 'control' });
+
+    const status = await framework.getTestStatus(testId);
+    expect(status.config.status).toBe('running');
+    expect(status.interim_results?.total_visitors).toBe(1);
+    expect(await framework.getAllocationHistory(testId)).toEqual([
+      expect.objectContaining({ algorithm: 'initial', weights: { control: 100, challenger: 0 } })
+    ]);
+  });
+});
@@ -1,102 +1,314 @@
 /**
  * A/B Testing Framework for K2W Content Optimization
- * Tests different content variants to optimize performance
+ * Tests different content variants to optimize performance.
+ * Tests, visitor assignments, per-visitor events, sequential looks and bandit allocations
+ * live in a local SQLite file, so running tests pick up where they were after a restart.
  */
 
-import { K2WContentRecord } from '@k2w/database';
-
-export interface ABTestVariant {
-  id: string;
-  name: string;
-  content_id: string;
-  variant_type: 'title' | 'meta_description' | 'content' | 'cta' | 'images' | 'full_page';
-  changes: {
-    title?: string;
-    meta_title?: string;
-    meta_description?: string;
-    body_html?: string;
-    cta?: string;
-    images?: string[];
-    headings?: Array<{ level: number; text: string }>;
-  };
-  traffic_allocation: number; // Percentage of traffic (0-100)
-  status: 'draft' | 'running' | 'paused' | 'completed' | 'winner';
-  created_at: string;
-  started_at?: string;
-  ended_at?: string;
+import Database from 'better-sqlite3';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { K2WContentRecord, UpdateK2WContent } from '@k2w/database';
+import {
+  ABTestVariant,
+  ABTestConfig,
+  ABTestResults,
+  PrimaryMetricResults,
+  VariantResult,
+  SecondaryMetricResult,
+  PowerAnalysis,
+  TestMetrics,
+  ABTestStopReason,
+  SequentialAnalysis,
+  SequentialLook,
+  GuardrailResult,
+  StoppingDecision,
+  ABTestEvent,
+  ABTestEventType,
+  EventIngestResult,
+  VariantAssignment,
+  ServeVariantRequest,
+  AllocationSnapshot,
+  BanditAlgorithm
+} from '../types/ab-testing.types';
+import {
+  toProbability,
+  twoProportionZTest,
+  welchTTest,
+  betaBinomialComparison,
+  probabilityToBeatNormal,
+  sampleSizeForProportions,
+  sampleSizeForMeans,
+  powerForProportions,
+  powerForMeans,
+  adjustPValues,
+  groupSequentialBoundaries,
+  msprtPValue,
+  thompsonSamplingWeights,
+  ucb1Weights,
+  applyAllocationFloor,
+  BanditArm,
+  TestStatistic
+} from './ab-statistics';
+import { contentRepository } from '../repositories/k2w-optimized.repository';
+
+export type { ABTestVariant, ABTestConfig, ABTestResults, TestMetrics };
+
+type MetricSample =
+  | { kind: 'proportion'; value: number; successes: number; trials: number }
+  | { kind: 'continuous'; value: number; mean: number; variance: number; n: number };
+
+// Event counts for one variant; turned into TestMetrics on read
+interface VariantEventStats {
+  visitors: number;
+  impressions: number; // unique visitors who saw the page
+  clicks: number; // unique visitors who clicked
+  engaged: number;
+  conversions: number;
+  bounces: number;
+  revenue: number;
+  revenue_sum_squares: number; // of per-visitor revenue
+  time_on_page: { n: number; mean: number; m2: number };
 }
 
-export interface ABTestConfig {
-  test_id: string;
-  content_id: string;
-  test_name: string;
-  test_type: 'simple' | 'multivariate' | 'champion_challenger';
-  hypothesis: string;
-  primary_metric: 'ctr' | 'conversion_rate' | 'bounce_rate' | 'time_on_page' | 'revenue';
-  secondary_metrics: string[];
-  minimum_sample_size: number;
-  confidence_level: number; // 90, 95, or 99
-  max_test_duration_days: number;
-  variants: ABTestVariant[];
-  status: 'setup' | 'running' | 'analyzing' | 'completed';
-  created_by: string;
-  created_at: string;
-  started_at?: string;
-  ended_at?: string;
+interface TestRow {
+  config: string;
+  sequential_analysis: string | null;
 }
 
-export interface ABTestResults {
-  test_id: string;
-  test_name: string;
-  status: 'running' | 'completed' | 'inconclusive';
-  duration_days: number;
-  total_visitors: number;
-  statistical_significance: boolean;
-  confidence_level: number;
-  primary_metric_results: {
-    metric_name: string;
-    control_value: number;
-    variants: Array<{
-      variant_id: string;
-      variant_name: string;
-      value: number;
-      lift: number; // Percentage improvement over control
-      p_value: number;
-      is_significant: boolean;
-    }>;
-    winner: {
-      variant_id: string;
-      variant_name: string;
-      improvement: number;
-    } | null;
-  };
-  secondary_metrics: Array<{
-    metric_name: string;
-    control_value: number;
-    variants: Array<{
-      variant_id: string;
-      value: number;
-      lift: number;
-    }>;
-  }>;
-  recommendations: string[];
-  created_at: string;
-  completed_at?: string;
-}
+const DEFAULT_DB_PATH = process.env.AB_TESTING_DB_PATH || path.join(process.cwd(), 'data', 'ab-testing.db');
 
-export interface TestMetrics {
-  visitors: number;
-  conversions: number;
-  conversion_rate: number;
-  ctr: number;
-  bounce_rate: number;
-  avg_time_on_page: number;
-  revenue: number;
-  engagement_score: number;
+const LOWER_IS_BETTER_METRICS = ['bounce_rate'];
+const AB_TEST_EVENT_TYPES: ABTestEventType[] = ['impression', 'click', 'conversion', 'exit'];
+
+const MONITOR_INTERVAL_MS = 15 * 60 * 1000;
+const DEFAULT_SEQUENTIAL_MIN_SAMPLE = 100;
+const DEFAULT_BANDIT_MIN_ALLOCATION = 0.05;
+const BANDIT_REWARD_METRICS = ['conversion_rate', 'ctr', 'bounce_rate'];
+
+/**
+ * Tests, assignments, per-visitor events, sequential state and allocation history in a local SQLite file
+ */
+export class ABTestStore {
+  private db: Database.Database;
+
+  constructor(dbPath: string = DEFAULT_DB_PATH) {
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ab_tests (
+        test_id TEXT PRIMARY KEY,
+        content_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        config TEXT NOT NULL,
+        sequential_analysis TEXT,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_ab_tests_status ON ab_tests(status);
+
+      CREATE TABLE IF NOT EXISTS ab_test_assignments (
+        test_id TEXT NOT NULL,
+        visitor_id TEXT NOT NULL,
+        variant_id TEXT NOT NULL,
+        assigned_at TEXT NOT NULL,
+        PRIMARY KEY (test_id, visitor_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS ab_test_visitors (
+        test_id TEXT NOT NULL,
+        variant_id TEXT NOT NULL,
+        visitor_id TEXT NOT NULL,
+        impressed INTEGER NOT NULL DEFAULT 0,
+        clicked INTEGER NOT NULL DEFAULT 0,
+        engaged INTEGER NOT NULL DEFAULT 0,
+        converted INTEGER NOT NULL DEFAULT 0,
+        bounced INTEGER NOT NULL DEFAULT 0,
+        revenue REAL NOT NULL DEFAULT 0,
+        PRIMARY KEY (test_id, variant_id, visitor_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS ab_test_time_on_page (
+        test_id TEXT NOT NULL,
+        variant_id TEXT NOT NULL,
+        n INTEGER NOT NULL,
+        mean REAL NOT NULL,
+        m2 REAL NOT NULL,
+        PRIMARY KEY (test_id, variant_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS ab_test_allocations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        test_id TEXT NOT NULL,
+        snapshot TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_ab_test_allocations_test ON ab_test_allocations(test_id);
+    `);
+  }
+
+  getTest(testId: string): ABTestConfig | null {
+    const row = this.db.prepare('SELECT config FROM ab_tests WHERE test_id = ?').get(testId) as TestRow | undefined;
+    return row ? JSON.parse(row.config) : null;
+  }
+
+  listTests(status: ABTestConfig['status']): ABTestConfig[] {
+    const rows = this.db.prepare('SELECT config FROM ab_tests WHERE status = ? ORDER BY test_id').all(status) as TestRow[];
+    return rows.map(row => JSON.parse(row.config));
+  }
+
+  saveTest(config: ABTestConfig): void {
+    this.db.prepare(`
+      INSERT INTO ab_tests (test_id, content_id, status, config, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(test_id) DO UPDATE SET content_id = excluded.content_id, status = excluded.status,
+                                         config = excluded.config, updated_at = excluded.updated_at
+    `).run(config.test_id, config.content_id, config.status, JSON.stringify(config), new Date().toISOString());
+  }
+
+  getSequentialAnalysis(testId: string): SequentialAnalysis | null {
+    const row = this.db.prepare('SELECT sequential_analysis FROM ab_tests WHERE test_id = ?').get(testId) as TestRow | undefined;
+    return row?.sequential_analysis ? JSON.parse(row.sequential_analysis) : null;
+  }
+
+  saveSequentialAnalysis(testId: string, analysis: SequentialAnalysis): void {
+    this.db.prepare('UPDATE ab_tests SET sequential_analysis = ?, updated_at = ? WHERE test_id = ?')
+      .run(JSON.stringify(analysis), new Date().toISOString(), testId);
+  }
+
+  getAssignment(testId: string, visitorId: string): string | null {
+    const row = this.db.prepare('SELECT variant_id FROM ab_test_assignments WHERE test_id = ? AND visitor_id = ?')
+      .get(testId, visitorId) as { variant_id: string } | undefined;
+    return row?.variant_id || null;
+  }
+
+  saveAssignment(testId: string, visitorId: string, variantId: string): void {
+    this.db.prepare(`
+      INSERT INTO ab_test_assignments (test_id, visitor_id, variant_id, assigned_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(test_id, visitor_id) DO UPDATE SET variant_id = excluded.variant_id, assigned_at = excluded.assigned_at
+      WHERE variant_id != excluded.variant_id
+    `).run(testId, visitorId, variantId, new Date().toISOString());
+  }
+
+  /** Apply a validated event to the visitor's row of the variant */
+  applyEvent(testId: string, variantId: string, event: ABTestEvent): void {
+    this.db.transaction(() => {
+      const key = [testId, variantId, event.visitor_id];
+      this.db.prepare('INSERT OR IGNORE INTO ab_test_visitors (test_id, variant_id, visitor_id) VALUES (?, ?, ?)').run(...key);
+      const where = 'WHERE test_id = ? AND variant_id = ? AND visitor_id = ?';
+
+      switch (event.type) {
+        case 'impression':
+          this.db.prepare(`UPDATE ab_test_visitors SET impressed = 1 ${where}`).run(...key);
+          break;
+        case 'click':
+          // CTR is unique clickers over unique viewers; a click implies the page was seen
+          this.db.prepare(`UPDATE ab_test_visitors SET impressed = 1, clicked = 1, engaged = 1 ${where}`).run(...key);
+          break;
+        case 'conversion':
+          this.db.prepare(`UPDATE ab_test_visitors SET converted = 1, engaged = 1, revenue = revenue + ? ${where}`)
+            .run(event.value && event.value > 0 ? event.value : 0, ...key);
+          break;
+        case 'exit': {
+          if (event.bounced) {
+            this.db.prepare(`UPDATE ab_test_visitors SET bounced = 1 ${where} AND engaged = 0`).run(...key);
+          }
+          const seconds = event.value;
+          if (seconds !== undefined && seconds !== null) {
+            // Welford's online mean/variance
+            const stats = this.getTimeOnPage(testId, variantId);
+            stats.n++;
+            const delta = seconds - stats.mean;
+            stats.mean += delta / stats.n;
+            stats.m2 += delta * (seconds - stats.mean);
+            this.db.prepare(`
+              INSERT INTO ab_test_time_on_page (test_id, variant_id, n, mean, m2) VALUES (?, ?, ?, ?, ?)
+              ON CONFLICT(test_id, variant_id) DO UPDATE SET n = excluded.n, mean = excluded.mean, m2 = excluded.m2
+            `).run(testId, variantId, stats.n, stats.mean, stats.m2);
+          }
+          break;
+        }
+        default:
+          throw new Error(`Unknown event type: ${event.type}`);
+      }
+    })();
+  }
+
+  getVariantStats(testId: string, variantId: string): VariantEventStats {
+    const counts = this.db.prepare(`
+      SELECT COUNT(*) AS visitors,
+             COALESCE(SUM(impressed), 0) AS impressions,
+             COALESCE(SUM(clicked), 0) AS clicks,
+             COALESCE(SUM(engaged), 0) AS engaged,
+             COALESCE(SUM(converted), 0) AS conversions,
+             COALESCE(SUM(bounced), 0) AS bounces,
+             COALESCE(SUM(revenue), 0) AS revenue,
+             COALESCE(SUM(revenue * revenue), 0) AS revenue_sum_squares
+      FROM ab_test_visitors WHERE test_id = ? AND variant_id = ?
+    `).get(testId, variantId) as Omit<VariantEventStats, 'time_on_page'>;
+
+    return { ...counts, time_on_page: this.getTimeOnPage(testId, variantId) };
+  }
+
+  addAllocation(testId: string, snapshot: AllocationSnapshot): void {
+    this.db.prepare('INSERT INTO ab_test_allocations (test_id, snapshot) VALUES (?, ?)').run(testId, JSON.stringify(snapshot));
+  }
+
+  listAllocations(testId: string): AllocationSnapshot[] {
+    const rows = this.db.prepare('SELECT snapshot FROM ab_test_allocations WHERE test_id = ? ORDER BY id')
+      .all(testId) as Array<{ snapshot: string }>;
+    return rows.map(row => JSON.parse(row.snapshot));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private getTimeOnPage(testId: string, variantId: string): VariantEventStats['time_on_page'] {
+    const row = this.db.prepare('SELECT n, mean, m2 FROM ab_test_time_on_page WHERE test_id = ? AND variant_id = ?')
+      .get(testId, variantId) as VariantEventStats['time_on_page'] | undefined;
+    return row || { n: 0, mean: 0, m2: 0 };
+  }
 }
 
 export class ABTestingFramework {
   private runningTests: Map<string, ABTestConfig> = new Map();
+  private store?: ABTestStore;
+  private monitorInterval?: NodeJS.Timeout;
+
+  constructor(private dbPath?: string) {}
+
+  /**
+   * Resume running tests from before a restart and their stopping-rule monitor
+   */
+  start(): void {
+    for (const testConfig of this.getStore().listTests('running')) {
+      this.runningTests.set(testConfig.test_id, testConfig);
+
+      const autoStop = (testConfig.sequential_testing?.auto_stop ?? testConfig.bandit?.auto_stop) !== false;
+      if ((testConfig.sequential_testing && autoStop) || testConfig.allocation_mode === 'bandit') {
+        this.startMonitoring();
+      }
+    }
+
+    if (this.runningTests.size > 0) {
+      console.log(`Resumed ${this.runningTests.size} running A/B tests`);
+    }
+  }
+
+  close(): void {
+    this.stopMonitoring();
+    this.runningTests.clear();
+    this.store?.close();
+    this.store = undefined;
+  }
 
   /**
    * Create a new A/B test
@@ -139,6 +351,10 @@ export class ABTestingFramework {
     // Update test status
     testConfig.status = 'running';
     testConfig.started_at = new Date().toISOString();
+    testConfig.variants.forEach(variant => {
+      variant.status = 'running';
+      variant.started_at = testConfig.started_at;
+    });
 
     await this.saveTestConfig(testConfig);
     this.runningTests.set(testId, testConfig);
@@ -146,66 +362,323 @@ export class ABTestingFramework {
     // Start data collection
     await this.startDataCollection(testConfig);
 
+    if (testConfig.allocation_mode === 'bandit') {
+      this.recordAllocation(testConfig, 'initial', {});
+    }
+
+    const autoStop = (testConfig.sequential_testing?.auto_stop ?? testConfig.bandit?.auto_stop) !== false;
+    if ((testConfig.sequential_testing && autoStop) || testConfig.allocation_mode === 'bandit') {
+      this.startMonitoring();
+    }
+
     console.log(`A/B Test started: ${testConfig.test_name} (${testId})`);
   }
 
   /**
    * Stop an A/B test
    */
-  async stopTest(testId: string, reason: 'completed' | 'manual_stop' | 'inconclusive' = 'completed'): Promise<ABTestResults> {
+  async stopTest(testId: string, reason: ABTestStopReason = 'completed'): Promise<ABTestResults> {
     const testConfig = await this.getTestConfig(testId);
     if (!testConfig) {
       throw new Error('Test not found');
     }
 
-    // Collect final results
-    const results = await this.analyzeTestResults(testConfig);
-    
-    // Update test status
+    // Update test status before the final analysis so it reports as ended
     testConfig.status = 'completed';
+    testConfig.stop_reason = reason;
     testConfig.ended_at = new Date().toISOString();
+
+    // Collect final results
+    const results = await this.analyzeTestResults(testConfig);
+
+    testConfig.variants.forEach(variant => {
+      if (variant.status === 'running') {
+        variant.status = 'completed';
+        variant.ended_at = testConfig.ended_at;
+      }
+    });
+
+    // Mark the winner if statistically significant
+    const winner = results.statistical_significance ? results.primary_metric_results.winner : null;
+    const winningVariant = winner && testConfig.variants.find(v => v.id === winner.variant_id);
+    if (winningVariant) winningVariant.status = 'winner';
+
     await this.saveTestConfig(testConfig);
 
     // Remove from running tests
     this.runningTests.delete(testId);
+    if (this.runningTests.size === 0) {
+      this.stopMonitoring();
+    }
 
-    // Apply winner if statistically significant
-    if (results.statistical_significance && results.primary_metric_results.winner) {
-      await this.applyWinner(testConfig, results.primary_metric_results.winner.variant_id);
+    // Applied once the test is saved as ended, so a winner that cannot be applied does not keep it running
+    if (winningVariant) {
+      await this.applyWinner(testConfig, winningVariant);
     }
 
+    console.log(`A/B Test stopped: ${testConfig.test_name} (${testId}), reason: ${reason}`);
+
     return results;
   }
 
+  /**
+   * Evaluate sequential boundaries, guardrails and the duration limit for a running test.
+   * Each call with new data counts as a look; O'Brien-Fleming boundaries and mSPRT
+   * p-values both stay valid however often this is called.
+   */
+  async evaluateStoppingRules(testId: string): Promise<StoppingDecision> {
+    const testConfig = await this.getTestConfig(testId);
+    if (!testConfig) {
+      throw new Error('Test not found');
+    }
+
+    if (testConfig.status !== 'running') {
+      throw new Error('Stopping rules can only be evaluated for running tests');
+    }
+
+    const testMetrics = await this.collectTestMetrics(testConfig);
+    const level = toProbability(testConfig.confidence_level);
+    const controlId = testConfig.variants[0].id;
+
+    // Guardrails abort individual variants; the control is never aborted
+    const guardrails = await this.evaluateGuardrails(testConfig, testMetrics, level);
+    const abortedVariants = [...new Set(guardrails.filter(g => g.violated).map(g => g.variant_id))];
+    for (const variantId of abortedVariants) {
+      const variant = testConfig.variants.find(v => v.id === variantId);
+      if (variant && variant.status === 'running') {
+        this.abortVariant(variant, 'guardrail_violation');
+      }
+    }
+
+    const activeIds = testConfig.variants
+      .filter(v => v.id !== controlId && v.status === 'running')
+      .map(v => v.id);
+
+    const decision: StoppingDecision = {
+      test_id: testId,
+      should_stop: false,
+      aborted_variants: abortedVariants,
+      guardrails
+    };
+
+    if (activeIds.length === 0) {
+      decision.should_stop = true;
+      decision.reason = 'guardrail_violation';
+    } else if (testConfig.sequential_testing) {
+      const look = this.performSequentialLook(testConfig, testMetrics, activeIds);
+      if (look) {
+        decision.look = look;
+        const analysis = this.getStore().getSequentialAnalysis(testId)!;
+
+        // Variants that crossed the boundary in the losing direction are dropped
+        const losers = look.variants.filter(v => v.crossed && !this.isImprovement(testConfig.primary_metric, v.z_statistic));
+        for (const loser of losers) {
+          const variant = testConfig.variants.find(v => v.id === loser.variant_id);
+          if (variant) this.abortVariant(variant, 'sequential_loser');
+        }
+
+        if (analysis.winner_variant_id) {
+          decision.should_stop = true;
+          decision.reason = 'efficacy';
+          decision.winner_variant_id = analysis.winner_variant_id;
+        } else if (testConfig.sequential_testing.method === 'obrien_fleming' && look.information_fraction >= 1) {
+          // Final look spent the remaining alpha without a winner
+          decision.should_stop = true;
+          decision.reason = 'inconclusive';
+        }
+      }
+    } else if (testConfig.allocation_mode === 'bandit') {
+      const probabilityBest = this.calculateProbabilityBest(testConfig, testMetrics);
+      if (probabilityBest) {
+        const [bestId, probability] = Object.entries(probabilityBest).sort((a, b) => b[1] - a[1])[0];
+        if (probability >= level) {
+          decision.should_stop = true;
+          decision.reason = bestId === controlId ? 'completed' : 'efficacy';
+          decision.winner_variant_id = bestId === controlId ? undefined : bestId;
+        }
+      }
+    }
+
+    if (!decision.should_stop && this.calculateTestDuration(testConfig) >= testConfig.max_test_duration_days) {
+      decision.should_stop = true;
+      decision.reason = 'max_duration';
+    }
+
+    await this.saveTestConfig(testConfig);
+
+    return decision;
+  }
+
+  /**
+   * Evaluate every running test and stop those whose stopping rules fired
+   */
+  async monitorRunningTests(): Promise<StoppingDecision[]> {
+    const decisions: StoppingDecision[] = [];
+
+    for (const testConfig of Array.from(this.runningTests.values())) {
+      if (testConfig.status !== 'running') continue;
+
+      try {
+        if (testConfig.allocation_mode === 'bandit') {
+          await this.rebalanceTraffic(testConfig.test_id);
+        }
+
+        const decision = await this.evaluateStoppingRules(testConfig.test_id);
+        decisions.push(decision);
+
+        const autoStop = (testConfig.sequential_testing?.auto_stop ?? testConfig.bandit?.auto_stop) !== false;
+        if (decision.should_stop && decision.reason && autoStop) {
+          await this.stopTest(testConfig.test_id, decision.reason);
+        }
+      } catch (error: any) {
+        console.error(`Failed to evaluate stopping rules for test ${testConfig.test_id}:`, error.message);
+      }
+    }
+
+    return decisions;
+  }
+
+  /**
+   * Shift traffic weights of a bandit test toward better-performing variants.
+   * The test's total traffic allocation stays the same; only its split changes.
+   */
+  async rebalanceTraffic(testId: string): Promise<AllocationSnapshot> {
+    const testConfig = await this.getTestConfig(testId);
+    if (!testConfig) {
+      throw new Error('Test not found');
+    }
+
+    if (testConfig.allocation_mode !== 'bandit' || !testConfig.bandit) {
+      throw new Error('Traffic can only be rebalanced for bandit tests');
+    }
+
+    if (testConfig.status !== 'running') {
+      throw new Error('Traffic can only be rebalanced for running tests');
+    }
+
+    const testMetrics = await this.collectTestMetrics(testConfig);
+    const active = testConfig.variants.filter(v => v.status === 'running');
+    const arms = active.map(v => this.toBanditArm(testConfig, testMetrics[v.id]));
+
+    let probabilityBest: Record<string, number> | undefined;
+    let rawWeights: number[];
+    if (testConfig.bandit.algorithm === 'ucb1') {
+      rawWeights = ucb1Weights(arms);
+    } else {
+      rawWeights = thompsonSamplingWeights(arms);
+      probabilityBest = Object.fromEntries(active.map((v, i) => [v.id, rawWeights[i]]));
+    }
+
+    const weights = applyAllocationFloor(rawWeights, testConfig.bandit.min_allocation ?? DEFAULT_BANDIT_MIN_ALLOCATION);
+    const totalAllocation = testConfig.variants.reduce((sum, v) => sum + v.traffic_allocation, 0);
+    active.forEach((variant, index) => {
+      variant.traffic_allocation = weights[index] * totalAllocation;
+    });
+    testConfig.variants.filter(v => v.status !== 'running').forEach(v => {
+      v.traffic_allocation = 0;
+    });
+
+    await this.saveTestConfig(testConfig);
+
+    return this.recordAllocation(
+      testConfig,
+      testConfig.bandit.algorithm,
+      Object.fromEntries(active.map((v, i) => [v.id, arms[i]])),
+      probabilityBest
+    );
+  }
+
+  /**
+   * Get the traffic weight history of a bandit test
+   */
+  async getAllocationHistory(testId: string): Promise<AllocationSnapshot[]> {
+    const testConfig = await this.getTestConfig(testId);
+    if (!testConfig) {
+      throw new Error('Test not found');
+    }
+
+    return this.getStore().listAllocations(testId);
+  }
+
   /**
    * Analyze test results
    */
   async analyzeTestResults(testConfig: ABTestConfig): Promise<ABTestResults> {
     const testMetrics = await this.collectTestMetrics(testConfig);
-    
+    const analysisMode = testConfig.analysis_mode || 'frequentist';
+    const correction = testConfig.multiple_comparison_correction || 'holm';
+    const variantNames = Object.fromEntries(testConfig.variants.map(v => [v.id, v.name]));
+
     const primaryMetricResults = await this.calculateStatisticalSignificance(
       testConfig.primary_metric,
       testMetrics,
-      testConfig.confidence_level
+      testConfig.confidence_level,
+      {
+        mode: analysisMode,
+        correction,
+        variantNames,
+        excludeFromWinner: testConfig.variants.filter(v => v.stop_reason).map(v => v.id)
+      }
     );
 
+    // Under sequential testing, only the sequential boundary may declare a winner:
+    // the fixed-horizon p-values are not valid once results have been peeked at
+    const sequentialAnalysis = this.getStore().getSequentialAnalysis(testConfig.test_id) || undefined;
+    if (testConfig.sequential_testing) {
+      const sequentialWinner = primaryMetricResults.variants.find(
+        v => v.variant_id === sequentialAnalysis?.winner_variant_id
+      );
+      primaryMetricResults.winner = sequentialWinner ? {
+        variant_id: sequentialWinner.variant_id,
+        variant_name: sequentialWinner.variant_name,
+        improvement: primaryMetricResults.lower_is_better ? -sequentialWinner.lift : sequentialWinner.lift
+      } : null;
+      primaryMetricResults.is_significant = !!sequentialWinner;
+    } else if (testConfig.allocation_mode === 'bandit') {
+      // Adaptive allocation breaks fixed-horizon p-values; a bandit winner needs
+      // posterior probability of being best at the confidence level
+      const probabilityBest = this.calculateProbabilityBest(testConfig, testMetrics) || {};
+      primaryMetricResults.variants.forEach(v => {
+        v.probability_best = probabilityBest[v.variant_id];
+      });
+      const banditWinner = primaryMetricResults.variants.find(
+        v => (v.probability_best ?? 0) >= toProbability(testConfig.confidence_level) &&
+          !testConfig.variants.find(tv => tv.id === v.variant_id)?.stop_reason
+      );
+      primaryMetricResults.winner = banditWinner ? {
+        variant_id: banditWinner.variant_id,
+        variant_name: banditWinner.variant_name,
+        improvement: primaryMetricResults.lower_is_better ? -banditWinner.lift : banditWinner.lift
+      } : null;
+      primaryMetricResults.is_significant = !!banditWinner;
+    }
+
     const secondaryMetricsResults = await Promise.all(
       testConfig.secondary_metrics.map(metric => 
-        this.calculateSecondaryMetric(metric, testMetrics)
+        this.calculateSecondaryMetric(metric, testMetrics, testConfig.confidence_level)
       )
     );
 
+    const powerAnalysis = this.calculatePowerAnalysis(testConfig, testMetrics);
+    const isSignificant = primaryMetricResults.is_significant;
+
     const results: ABTestResults = {
       test_id: testConfig.test_id,
       test_name: testConfig.test_name,
-      status: primaryMetricResults.is_significant ? 'completed' : 'running',
+      status: isSignificant ? 'completed' : testConfig.ended_at ? 'inconclusive' : 'running',
       duration_days: this.calculateTestDuration(testConfig),
       total_visitors: this.getTotalVisitors(testMetrics),
-      statistical_significance: primaryMetricResults.is_significant,
+      statistical_significance: isSignificant,
       confidence_level: testConfig.confidence_level,
+      analysis_mode: analysisMode,
+      multiple_comparison_correction: correction,
       primary_metric_results: primaryMetricResults,
       secondary_metrics: secondaryMetricsResults,
-      recommendations: await this.generateRecommendations(testConfig, primaryMetricResults),
+      power_analysis: powerAnalysis,
+      sequential_analysis: sequentialAnalysis,
+      allocation_history: testConfig.allocation_mode === 'bandit' ? this.getStore().listAllocations(testConfig.test_id) : undefined,
+      stop_reason: testConfig.stop_reason,
+      recommendations: await this.generateRecommendations(testConfig, primaryMetricResults, powerAnalysis),
       created_at: testConfig.created_at,
       completed_at: testConfig.ended_at
     };
@@ -297,19 +770,20 @@ export class ABTestingFramework {
   }
 
   /**
-   * Auto-optimize content based on A/B test results
+   * Auto-optimize content: start a bandit test of AI-generated variants. The monitor stops it once
+   * a variant wins, or at its duration limit, and makes the winner the content's default.
    */
   async autoOptimizeContent(contentId: string): Promise<{
+    test: ABTestConfig;
     original_metrics: TestMetrics;
-    optimized_metrics: TestMetrics;
-    improvements: Array<{ metric: string; improvement: number }>;
   }> {
     // Get current content performance
     const originalMetrics = await this.getCurrentContentMetrics(contentId);
 
     // Create optimization test
     const content = await this.getContent(contentId);
-    const variants = await this.generateContentVariants(content, ['title', 'meta_description', 'cta'], 3);
+    // No CTA variants: content has no CTA field the winner could be saved to
+    const variants = await this.generateContentVariants(content, ['title', 'meta_description'], 3);
 
     const testConfig = await this.createABTest({
       content_id: contentId,
@@ -322,25 +796,92 @@ export class ABTestingFramework {
       confidence_level: 95,
       max_test_duration_days: 14,
       variants,
+      allocation_mode: 'bandit',
+      bandit: { algorithm: 'thompson_sampling', reward_metric: 'conversion_rate', auto_stop: true },
+      guardrail_metrics: [{ metric: 'bounce_rate', max_degradation: 5 }],
       created_by: 'system'
     });
 
-    // Run test automatically
     await this.startTest(testConfig.test_id);
 
-    // Wait for sufficient data (in production, this would be handled by a background job)
-    await this.waitForSufficientData(testConfig.test_id);
+    return {
+      test: (await this.getTestConfig(testConfig.test_id))!,
+      original_metrics: originalMetrics
+    };
+  }
+
+  /**
+   * Assign a visitor to a variant of the running test for a test or content id
+   */
+  async serveVariant(request: ServeVariantRequest): Promise<VariantAssignment> {
+    const testConfig = request.test_id
+      ? await this.getTestConfig(request.test_id)
+      : Array.from(this.runningTests.values()).find(
+        t => t.content_id === request.content_id && t.status === 'running'
+      ) || null;
+
+    if (!testConfig || testConfig.status !== 'running') {
+      return { test_id: testConfig?.test_id || null, in_experiment: false, content: {} };
+    }
 
-    // Analyze and apply results
-    const results = await this.stopTest(testConfig.test_id);
+    const variant = this.assignVariant(testConfig, request.visitor_id);
+    if (!variant) {
+      return { test_id: testConfig.test_id, in_experiment: false, content: {} };
+    }
+    this.getStore().saveAssignment(testConfig.test_id, request.visitor_id, variant.id);
+
+    const introMatch = variant.changes.body_html?.match(/<p[^>]*>[\s\S]*?<\/p>/);
 
     return {
-      original_metrics: originalMetrics,
-      optimized_metrics: await this.getCurrentContentMetrics(contentId),
-      improvements: this.calculateImprovements(originalMetrics, results)
+      test_id: testConfig.test_id,
+      in_experiment: true,
+      variant_id: variant.id,
+      variant_name: variant.name,
+      is_control: variant.id === testConfig.variants[0].id,
+      content: {
+        title: variant.changes.title,
+        meta_title: variant.changes.meta_title,
+        meta_description: variant.changes.meta_description,
+        cta: variant.changes.cta,
+        intro: introMatch ? introMatch[0] : undefined
+      }
     };
   }
 
+  /**
+   * Record impression, click, conversion and exit events from served pages
+   */
+  async recordEvents(events: ABTestEvent[]): Promise<EventIngestResult> {
+    const result: EventIngestResult = { accepted: 0, rejected: [] };
+
+    for (const [index, event] of events.entries()) {
+      try {
+        const testConfig = await this.getTestConfig(event.test_id);
+        if (!testConfig || testConfig.status !== 'running') {
+          throw new Error('Test is not running');
+        }
+
+        this.validateEvent(event);
+
+        // The variant comes from what the visitor was served, never from the client
+        const variantId = this.getStore().getAssignment(testConfig.test_id, event.visitor_id);
+        if (!variantId) {
+          throw new Error('Visitor has not been served a variant of this test');
+        }
+        if (event.variant_id && event.variant_id !== variantId) {
+          throw new Error('variant_id does not match the visitor\'s assignment');
+        }
+
+        this.getStore().applyEvent(testConfig.test_id, variantId, event);
+        result.accepted++;
+      } catch (error: any) {
+        result.rejected.push({ index, error: error.message });
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Batch A/B test multiple content pieces
    */
@@ -350,8 +891,13 @@ export class ABTestingFramework {
       variant_types: Array<'title' | 'meta_description' | 'cta'>;
       test_duration_days: number;
       primary_metric: string;
+      allocation_mode?: 'fixed' | 'bandit';
+      bandit_algorithm?: BanditAlgorithm;
     }
   ): Promise<Array<{ content_id: string; test_id: string; status: string }>> {
+    // Low-traffic pages rarely reach fixed-horizon significance, so batches default to a bandit
+    const allocationMode = testConfig.allocation_mode || 'bandit';
+
     const results = [];
 
     for (const contentId of contentIds) {
@@ -370,6 +916,15 @@ export class ABTestingFramework {
           confidence_level: 95,
           max_test_duration_days: testConfig.test_duration_days,
           variants,
+          allocation_mode: allocationMode,
+          bandit: allocationMode === 'bandit'
+            ? {
+              algorithm: testConfig.bandit_algorithm || 'thompson_sampling',
+              reward_metric: BANDIT_REWARD_METRICS.includes(testConfig.primary_metric)
+                ? testConfig.primary_metric as NonNullable<ABTestConfig['bandit']>['reward_metric']
+                : 'conversion_rate'
+            }
+            : undefined,
           created_by: 'batch_system'
         });
 
@@ -412,18 +967,98 @@ export class ABTestingFramework {
     if (config.confidence_level < 90 || config.confidence_level > 99) {
       throw new Error('Confidence level must be between 90 and 99');
     }
+
+    if (config.minimum_detectable_effect !== undefined && config.minimum_detectable_effect <= 0) {
+      throw new Error('Minimum detectable effect must be greater than 0');
+    }
+
+    if (config.statistical_power !== undefined && (config.statistical_power <= 0 || config.statistical_power >= 1)) {
+      throw new Error('Statistical power must be between 0 and 1');
+    }
+
+    if (config.sequential_testing && !['msprt', 'obrien_fleming'].includes(config.sequential_testing.method)) {
+      throw new Error('Sequential testing method must be msprt or obrien_fleming');
+    }
+
+    if (config.allocation_mode === 'bandit') {
+      if (!config.bandit || !['thompson_sampling', 'ucb1'].includes(config.bandit.algorithm)) {
+        throw new Error('Bandit tests require a thompson_sampling or ucb1 algorithm');
+      }
+
+      const rewardMetric = config.bandit.reward_metric || config.primary_metric;
+      if (!BANDIT_REWARD_METRICS.includes(rewardMetric)) {
+        throw new Error('Bandit reward metric must be conversion_rate, ctr or bounce_rate');
+      }
+
+      if (config.sequential_testing) {
+        throw new Error('Sequential testing cannot be combined with bandit allocation');
+      }
+    }
+
+    for (const guardrail of config.guardrail_metrics || []) {
+      if (!(guardrail.max_degradation > 0)) {
+        throw new Error(`Guardrail ${guardrail.metric} must allow a positive max degradation`);
+      }
+    }
   }
 
   private async deployVariants(testConfig: ABTestConfig): Promise<void> {
-    // Deploy variants to CDN or publishing platform
+    // Variants are served on demand through serveVariant; published pages fetch them via the snippet
     console.log(`Deploying ${testConfig.variants.length} variants for test ${testConfig.test_id}`);
   }
 
   private async startDataCollection(testConfig: ABTestConfig): Promise<void> {
-    // Initialize analytics tracking for the test
+    // Events are stored per visitor as they arrive through recordEvents
     console.log(`Starting data collection for test ${testConfig.test_id}`);
   }
 
+  /**
+   * Deterministic bucketing: sha256(test id + visitor id) picks a point in [0, 100).
+   * Points beyond the total traffic allocation stay out of the experiment; the rest are
+   * split across running variants in proportion to their allocation.
+   */
+  private assignVariant(testConfig: ABTestConfig, visitorId: string): ABTestVariant | null {
+    // Returning visitors keep their variant while it runs, even after bandit reweighting
+    const previousId = this.getStore().getAssignment(testConfig.test_id, visitorId);
+    const previous = testConfig.variants.find(v => v.id === previousId && v.status === 'running');
+    if (previous) return previous;
+
+    const digest = crypto.createHash('sha256').update(`${testConfig.test_id}:${visitorId}`).digest();
+    const point = (digest.readUInt32BE(0) / 0x100000000) * 100;
+
+    const totalAllocation = testConfig.variants.reduce((sum, v) => sum + v.traffic_allocation, 0);
+    if (point >= totalAllocation) return null;
+
+    const eligible = testConfig.variants.filter(v => v.status === 'running' && v.traffic_allocation > 0);
+    const eligibleAllocation = eligible.reduce((sum, v) => sum + v.traffic_allocation, 0);
+    if (eligibleAllocation === 0) return null;
+
+    let cumulative = 0;
+    const scaledPoint = (point / totalAllocation) * eligibleAllocation;
+    for (const variant of eligible) {
+      cumulative += variant.traffic_allocation;
+      if (scaledPoint < cumulative) return variant;
+    }
+    return eligible[eligible.length - 1];
+  }
+
+  /**
+   * Reject malformed events before they touch any aggregate
+   */
+  private validateEvent(event: ABTestEvent): void {
+    if (!event.visitor_id || typeof event.visitor_id !== 'string') {
+      throw new Error('visitor_id is required');
+    }
+
+    if (!AB_TEST_EVENT_TYPES.includes(event.type)) {
+      throw new Error(`Unknown event type: ${event.type}`);
+    }
+
+    if (event.value !== undefined && event.value !== null && !(Number.isFinite(event.value) && event.value >= 0)) {
+      throw new Error('value must be a non-negative number');
+    }
+  }
+
   private async collectTestMetrics(testConfig: ABTestConfig): Promise<Record<string, TestMetrics>> {
     const metrics: Record<string, TestMetrics> = {};
 
@@ -438,47 +1073,236 @@ export class ABTestingFramework {
   private async calculateStatisticalSignificance(
     primaryMetric: string,
     testMetrics: Record<string, TestMetrics>,
-    confidenceLevel: number
-  ): Promise<any> {
-    // Implement statistical significance calculation
+    confidenceLevel: number,
+    options: {
+      mode?: 'frequentist' | 'bayesian';
+      correction?: ABTestConfig['multiple_comparison_correction'];
+      variantNames?: Record<string, string>;
+      excludeFromWinner?: string[];
+    } = {}
+  ): Promise<PrimaryMetricResults> {
+    const level = toProbability(confidenceLevel);
+    const mode = options.mode || 'frequentist';
+    const lowerIsBetter = LOWER_IS_BETTER_METRICS.includes(primaryMetric);
+
+    // The first variant is the control; every other variant is compared against it
     const variantIds = Object.keys(testMetrics);
     const controlId = variantIds[0];
-    const controlMetric = (testMetrics[controlId] as any)[primaryMetric];
+    const control = this.extractMetricSample(primaryMetric, testMetrics[controlId]);
+
+    const comparisons = variantIds.slice(1).map(variantId => {
+      const variant = this.extractMetricSample(primaryMetric, testMetrics[variantId]);
+      return { variantId, variant, ...this.compareToControl(control, variant, level, mode) };
+    });
+
+    // Correct for testing several variants against the same control
+    const adjustedPValues = adjustPValues(
+      comparisons.map(c => c.statistic.p_value),
+      options.correction || 'holm'
+    );
+
+    const variants: VariantResult[] = comparisons.map((comparison, index) => {
+      const { variantId, variant, statistic, probabilityToBeat, expectedLoss } = comparison;
+      const probabilityToBeatControl = lowerIsBetter ? 1 - probabilityToBeat : probabilityToBeat;
+      const isSignificant = mode === 'bayesian'
+        ? probabilityToBeatControl >= level || probabilityToBeatControl <= 1 - level
+        : adjustedPValues[index] < 1 - level;
 
-    const variants = variantIds.slice(1).map(variantId => {
-      const variantMetric = (testMetrics[variantId] as any)[primaryMetric];
-      const lift = ((variantMetric - controlMetric) / controlMetric) * 100;
-      
       return {
         variant_id: variantId,
-        variant_name: `Variant ${variantId}`,
-        value: variantMetric,
-        lift,
-        p_value: this.calculatePValue(controlMetric, variantMetric),
-        is_significant: Math.abs(lift) > 5 && this.calculatePValue(controlMetric, variantMetric) < 0.05
+        variant_name: options.variantNames?.[variantId] || `Variant ${variantId}`,
+        value: variant.value,
+        sample_size: this.sampleSizeOf(variant),
+        lift: this.relativeLift(control.value, variant.value),
+        test: statistic.test,
+        p_value: statistic.p_value,
+        adjusted_p_value: adjustedPValues[index],
+        confidence_interval: statistic.confidence_interval,
+        // Relative interval treats the control value as fixed
+        lift_confidence_interval: {
+          lower: this.relativeLift(control.value, control.value + this.toMetricScale(control, statistic.confidence_interval.lower)),
+          upper: this.relativeLift(control.value, control.value + this.toMetricScale(control, statistic.confidence_interval.upper)),
+          level
+        },
+        probability_to_beat_control: probabilityToBeatControl,
+        expected_loss: expectedLoss,
+        is_significant: isSignificant
       };
     });
 
-    const winner = variants.find(v => v.is_significant && v.lift > 0);
+    const winner = variants
+      .filter(v => v.is_significant && (lowerIsBetter ? v.lift < 0 : v.lift > 0))
+      .filter(v => !options.excludeFromWinner?.includes(v.variant_id))
+      .sort((a, b) => Math.abs(b.lift) - Math.abs(a.lift))[0];
 
     return {
       metric_name: primaryMetric,
-      control_value: controlMetric,
+      control_value: control.value,
+      control_sample_size: this.sampleSizeOf(control),
+      lower_is_better: lowerIsBetter,
       variants,
       winner: winner ? {
         variant_id: winner.variant_id,
         variant_name: winner.variant_name,
-        improvement: winner.lift
+        improvement: lowerIsBetter ? -winner.lift : winner.lift
       } : null,
       is_significant: !!winner
     };
   }
 
-  private calculatePValue(control: number, variant: number): number {
-    // Simplified p-value calculation (in production, use proper statistical library)
-    const difference = Math.abs(variant - control);
-    const average = (control + variant) / 2;
-    return difference / average < 0.1 ? 0.03 : 0.15;
+  private compareToControl(
+    control: MetricSample,
+    variant: MetricSample,
+    level: number,
+    mode: 'frequentist' | 'bayesian'
+  ): { statistic: TestStatistic; probabilityToBeat: number; expectedLoss?: number } {
+    if (control.kind === 'proportion' && variant.kind === 'proportion') {
+      const statistic = twoProportionZTest(control.successes, control.trials, variant.successes, variant.trials, level);
+      const bayesian = betaBinomialComparison(control.successes, control.trials, variant.successes, variant.trials, level);
+      return {
+        statistic,
+        probabilityToBeat: bayesian.probability_to_beat_control,
+        expectedLoss: mode === 'bayesian' ? bayesian.expected_loss : undefined
+      };
+    }
+
+    const controlSummary = this.toSummary(control);
+    const variantSummary = this.toSummary(variant);
+    return {
+      statistic: welchTTest(controlSummary, variantSummary, level),
+      probabilityToBeat: probabilityToBeatNormal(controlSummary, variantSummary)
+    };
+  }
+
+  /**
+   * Turn reported metrics into counts (proportions) or summary statistics (continuous).
+   * Rates may be reported as fractions or percentages; raw counts win when tracked.
+   * Without a tracked variance, continuous metrics assume a coefficient of variation of 1.
+   */
+  private extractMetricSample(metric: string, metrics: TestMetrics): MetricSample {
+    const visitors = metrics.visitors || 0;
+    const successesFromRate = (rate: number, trials: number) =>
+      Math.min(trials, Math.round(toProbability(rate || 0) * trials));
+
+    switch (metric) {
+      case 'ctr': {
+        const trials = metrics.impressions ?? visitors;
+        const successes = metrics.clicks ?? successesFromRate(metrics.ctr, trials);
+        return { kind: 'proportion', value: metrics.ctr, successes, trials };
+      }
+      case 'conversion_rate':
+        return {
+          kind: 'proportion',
+          value: metrics.conversion_rate,
+          successes: metrics.conversions ?? successesFromRate(metrics.conversion_rate, visitors),
+          trials: visitors
+        };
+      case 'bounce_rate':
+        return {
+          kind: 'proportion',
+          value: metrics.bounce_rate,
+          successes: metrics.bounces ?? successesFromRate(metrics.bounce_rate, visitors),
+          trials: visitors
+        };
+      case 'time_on_page':
+        return {
+          kind: 'continuous',
+          value: metrics.avg_time_on_page,
+          mean: metrics.avg_time_on_page,
+          variance: metrics.time_on_page_variance ?? Math.pow(metrics.avg_time_on_page, 2),
+          n: visitors
+        };
+      case 'revenue': {
+        // Revenue is reported as a total; compare revenue per visitor
+        const mean = visitors > 0 ? metrics.revenue / visitors : 0;
+        return {
+          kind: 'continuous',
+          value: metrics.revenue,
+          mean,
+          variance: metrics.revenue_variance ?? Math.pow(mean, 2),
+          n: visitors
+        };
+      }
+      case 'engagement_score':
+        return {
+          kind: 'proportion',
+          value: metrics.engagement_score,
+          successes: successesFromRate(metrics.engagement_score, visitors),
+          trials: visitors
+        };
+      default: {
+        // Other metrics are counts, such as conversions or clicks; like revenue, compare them per visitor
+        const total = metric in metrics ? Number(metrics[metric as keyof TestMetrics]) || 0 : 0;
+        const mean = visitors > 0 ? total / visitors : 0;
+        return { kind: 'continuous', value: total, mean, variance: Math.pow(mean, 2), n: visitors };
+      }
+    }
+  }
+
+  private toSummary(sample: MetricSample): { mean: number; variance: number; n: number } {
+    if (sample.kind === 'continuous') {
+      return { mean: sample.mean, variance: sample.variance, n: sample.n };
+    }
+    const rate = sample.trials > 0 ? sample.successes / sample.trials : 0;
+    return { mean: rate, variance: rate * (1 - rate), n: sample.trials };
+  }
+
+  /** Convert an absolute difference from the statistical scale back to the reported metric scale */
+  private toMetricScale(sample: MetricSample, difference: number): number {
+    const summary = this.toSummary(sample);
+    return summary.mean !== 0 ? difference * (sample.value / summary.mean) : difference;
+  }
+
+  private sampleSizeOf(sample: MetricSample): number {
+    return sample.kind === 'proportion' ? sample.trials : sample.n;
+  }
+
+  private relativeLift(controlValue: number, variantValue: number): number {
+    return controlValue !== 0 ? ((variantValue - controlValue) / controlValue) * 100 : 0;
+  }
+
+  private calculatePowerAnalysis(testConfig: ABTestConfig, testMetrics: Record<string, TestMetrics>): PowerAnalysis {
+    const metric = testConfig.primary_metric;
+    const mde = testConfig.minimum_detectable_effect ?? 0.1;
+    const targetPower = testConfig.statistical_power ?? 0.8;
+    const comparisons = Math.max(1, testConfig.variants.length - 1);
+
+    // Plan against a Bonferroni-split alpha when several variants share the control
+    const baseAlpha = 1 - toProbability(testConfig.confidence_level);
+    const alpha = testConfig.multiple_comparison_correction === 'none' ? baseAlpha : baseAlpha / comparisons;
+
+    const samples = Object.values(testMetrics).map(m => this.extractMetricSample(metric, m));
+    const control = samples[0];
+    const smallestSampleSize = samples.length > 0 ? Math.min(...samples.map(s => this.sampleSizeOf(s))) : 0;
+
+    let required: number;
+    let achievedPower: number;
+    if (!control) {
+      required = Infinity;
+      achievedPower = 0;
+    } else if (control.kind === 'proportion') {
+      const baseline = control.trials > 0 ? control.successes / control.trials : 0;
+      required = sampleSizeForProportions(baseline, mde, { alpha, power: targetPower }).per_variant;
+      achievedPower = powerForProportions(baseline, mde, smallestSampleSize, alpha);
+    } else {
+      const summary = this.toSummary(control);
+      const standardDeviation = Math.sqrt(summary.variance);
+      required = sampleSizeForMeans(standardDeviation, summary.mean * mde, { alpha, power: targetPower }).per_variant;
+      achievedPower = powerForMeans(standardDeviation, summary.mean * mde, smallestSampleSize, alpha);
+    }
+
+    const requiredPerVariant = Math.max(required, testConfig.minimum_sample_size / (comparisons + 1));
+
+    return {
+      metric_name: metric,
+      minimum_detectable_effect: mde,
+      alpha,
+      target_power: targetPower,
+      required_sample_size_per_variant: Math.ceil(requiredPerVariant),
+      smallest_variant_sample_size: smallestSampleSize,
+      achieved_power: achievedPower,
+      sufficient_sample: smallestSampleSize >= requiredPerVariant
+    };
   }
 
   private async generateTitleVariant(originalTitle: string): Promise<string> {
@@ -521,26 +1345,45 @@ export class ABTestingFramework {
 
   private async getVariantMetrics(variantId: string, testId: string): Promise<TestMetrics> {
     // Get metrics for specific variant
+    const stats = this.getStore().getVariantStats(testId, variantId);
+    const { visitors, revenue, revenue_sum_squares: revenueSumSquares } = stats;
+    const revenueMean = visitors > 0 ? revenue / visitors : 0;
+    const timeOnPage = stats.time_on_page;
+
     return {
-      visitors: Math.floor(Math.random() * 1000) + 100,
-      conversions: Math.floor(Math.random() * 50) + 5,
-      conversion_rate: Math.random() * 0.1 + 0.02,
-      ctr: Math.random() * 0.05 + 0.01,
-      bounce_rate: Math.random() * 0.3 + 0.4,
-      avg_time_on_page: Math.random() * 120 + 60,
-      revenue: Math.random() * 1000 + 100,
-      engagement_score: Math.random() * 100 + 50
+      visitors,
+      conversions: stats.conversions,
+      conversion_rate: visitors > 0 ? stats.conversions / visitors : 0,
+      ctr: stats.impressions > 0 ? stats.clicks / stats.impressions : 0,
+      bounce_rate: visitors > 0 ? stats.bounces / visitors : 0,
+      avg_time_on_page: timeOnPage.mean,
+      revenue,
+      engagement_score: visitors > 0 ? (stats.engaged / visitors) * 100 : 0,
+      impressions: stats.impressions,
+      clicks: stats.clicks,
+      bounces: stats.bounces,
+      time_on_page_variance: timeOnPage.n > 1 ? timeOnPage.m2 / (timeOnPage.n - 1) : undefined,
+      // Per-visitor revenue, counting non-converting visitors as zero
+      revenue_variance: visitors > 1
+        ? Math.max(0, (revenueSumSquares - visitors * revenueMean * revenueMean) / (visitors - 1))
+        : undefined
     };
   }
 
   private async saveTestConfig(config: ABTestConfig): Promise<void> {
-    // Save test configuration to database
-    console.log(`Saving test config: ${config.test_id}`);
+    this.getStore().saveTest(config);
   }
 
   private async getTestConfig(testId: string): Promise<ABTestConfig | null> {
-    // Get test configuration from database
-    return this.runningTests.get(testId) || null;
+    // Running tests are cached, and mutated in place, while they run
+    return this.runningTests.get(testId) || this.getStore().getTest(testId);
+  }
+
+  private getStore(): ABTestStore {
+    if (!this.store) {
+      this.store = new ABTestStore(this.dbPath);
+    }
+    return this.store;
   }
 
   private calculateTestDuration(testConfig: ABTestConfig): number {
@@ -554,7 +1397,11 @@ export class ABTestingFramework {
     return Object.values(testMetrics).reduce((sum, metrics) => sum + metrics.visitors, 0);
   }
 
-  private async generateRecommendations(testConfig: ABTestConfig, results: any): Promise<string[]> {
+  private async generateRecommendations(
+    testConfig: ABTestConfig,
+    results: PrimaryMetricResults,
+    powerAnalysis: PowerAnalysis
+  ): Promise<string[]> {
     const recommendations = [];
     
     if (results.winner) {
@@ -563,17 +1410,44 @@ export class ABTestingFramework {
       recommendations.push('Continue testing with new variants or extend test duration for statistical significance');
     }
 
+    if (!powerAnalysis.sufficient_sample) {
+      recommendations.push(
+        `Collect at least ${powerAnalysis.required_sample_size_per_variant} visitors per variant ` +
+        `(smallest variant has ${powerAnalysis.smallest_variant_sample_size}) to detect a ` +
+        `${(powerAnalysis.minimum_detectable_effect * 100).toFixed(0)}% lift with ` +
+        `${(powerAnalysis.target_power * 100).toFixed(0)}% power; current power is ${(powerAnalysis.achieved_power * 100).toFixed(0)}%`
+      );
+    }
+
+    const losers = results.variants.filter(v => v.is_significant && !(results.lower_is_better ? v.lift < 0 : v.lift > 0));
+    if (losers.length > 0) {
+      recommendations.push(`Stop traffic to underperforming variants: ${losers.map(v => v.variant_name).join(', ')}`);
+    }
+
     return recommendations;
   }
 
   private async getInterimResults(testConfig: ABTestConfig): Promise<Partial<ABTestResults>> {
     // Get interim results without stopping the test
-    return {};
+    const { recommendations, completed_at, ...interimResults } = await this.analyzeTestResults(testConfig);
+    return interimResults;
   }
 
-  private async applyWinner(testConfig: ABTestConfig, winnerVariantId: string): Promise<void> {
-    // Apply the winning variant as the new default
-    console.log(`Applying winner variant ${winnerVariantId} for test ${testConfig.test_id}`);
+  /**
+   * Save the winning variant's changes as the content's default
+   */
+  private async applyWinner(testConfig: ABTestConfig, winner: ABTestVariant): Promise<void> {
+    const { cta, ...changes } = winner.changes;
+    if (cta !== undefined) {
+      throw new Error(`Winner ${winner.id} of test ${testConfig.test_id} changes the CTA, which content does not store; apply it by hand`);
+    }
+
+    // The other changes are all content fields
+    const update = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)) as UpdateK2WContent;
+    if (Object.keys(update).length === 0) return;
+
+    await contentRepository.update(testConfig.content_id, update);
+    console.log(`Applied winner variant ${winner.id} of test ${testConfig.test_id} to content ${testConfig.content_id}`);
   }
 
   private async getCurrentContentMetrics(contentId: string): Promise<TestMetrics> {
@@ -595,95 +1469,210 @@ export class ABTestingFramework {
     return {} as K2WContentRecord;
   }
 
-  private async waitForSufficientData(testId: string): Promise<void> {
-    // Check if test has sufficient data for statistical significance
-    const testConfig = await this.getTestConfiguration(testId);
-    const currentMetrics = await this.getTestMetrics(testId);
-    
-    const minSampleSize = testConfig.min_sample_size || 1000;
-    const minRuntime = testConfig.min_runtime_hours || 24;
-    
-    // Check sample size across all variants
-    let totalSamples = 0;
-    for (const variant of Object.keys(currentMetrics)) {
-      totalSamples += currentMetrics[variant].visitors || 0;
+  private async evaluateGuardrails(
+    testConfig: ABTestConfig,
+    testMetrics: Record<string, TestMetrics>,
+    level: number
+  ): Promise<GuardrailResult[]> {
+    const results: GuardrailResult[] = [];
+
+    for (const guardrail of testConfig.guardrail_metrics || []) {
+      const significance = await this.calculateStatisticalSignificance(
+        guardrail.metric,
+        testMetrics,
+        level,
+        { correction: 'none' }
+      );
+
+      // Violated only when the whole interval lies beyond the allowed degradation
+      for (const variant of significance.variants) {
+        const interval = variant.lift_confidence_interval;
+        const violated = significance.lower_is_better
+          ? interval.lower > guardrail.max_degradation
+          : interval.upper < -guardrail.max_degradation;
+
+        results.push({
+          metric: guardrail.metric,
+          variant_id: variant.variant_id,
+          lift: variant.lift,
+          lift_confidence_interval: interval,
+          max_degradation: guardrail.max_degradation,
+          violated
+        });
+      }
     }
-    
-    // Check runtime
-    const testStartTime = new Date(testConfig.started_at).getTime();
-    const currentTime = Date.now();
-    const runtimeHours = (currentTime - testStartTime) / (1000 * 60 * 60);
-    
-    if (totalSamples < minSampleSize) {
-      throw new Error(`Insufficient sample size: ${totalSamples} < ${minSampleSize} required`);
+
+    return results;
+  }
+
+  private performSequentialLook(
+    testConfig: ABTestConfig,
+    testMetrics: Record<string, TestMetrics>,
+    activeIds: string[]
+  ): SequentialLook | null {
+    const sequential = testConfig.sequential_testing!;
+    const metric = testConfig.primary_metric;
+    const controlId = testConfig.variants[0].id;
+    const control = this.extractMetricSample(metric, testMetrics[controlId]);
+    const powerAnalysis = this.calculatePowerAnalysis(testConfig, testMetrics);
+    const level = toProbability(testConfig.confidence_level);
+
+    const minSample = sequential.min_sample_size_per_variant ?? DEFAULT_SEQUENTIAL_MIN_SAMPLE;
+    const samples = activeIds.map(id => ({ id, sample: this.extractMetricSample(metric, testMetrics[id]) }));
+    const smallest = Math.min(this.sampleSizeOf(control), ...samples.map(s => this.sampleSizeOf(s.sample)));
+    if (smallest < minSample) return null;
+
+    const analysis: SequentialAnalysis = this.getStore().getSequentialAnalysis(testConfig.test_id) || {
+      method: sequential.method,
+      alpha: powerAnalysis.alpha,
+      looks: [],
+      always_valid_p_values: {}
+    };
+
+    const informationFraction = Math.min(1, smallest / powerAnalysis.required_sample_size_per_variant);
+    let boundary: number | undefined;
+    if (sequential.method === 'obrien_fleming') {
+      const fractions = [...analysis.looks.map(l => l.information_fraction), informationFraction];
+      boundary = groupSequentialBoundaries(fractions, analysis.alpha)[fractions.length - 1];
     }
-    
-    if (runtimeHours < minRuntime) {
-      throw new Error(`Insufficient runtime: ${runtimeHours.toFixed(1)}h < ${minRuntime}h required`);
+
+    const controlSummary = this.toSummary(control);
+    const tau = Math.abs(controlSummary.mean) * (sequential.msprt_tau ?? testConfig.minimum_detectable_effect ?? 0.1);
+
+    const look: SequentialLook = {
+      look: analysis.looks.length + 1,
+      performed_at: new Date().toISOString(),
+      information_fraction: informationFraction,
+      boundary,
+      variants: samples.map(({ id, sample }) => {
+        const { statistic } = this.compareToControl(control, sample, level, 'frequentist');
+
+        if (sequential.method === 'obrien_fleming') {
+          return { variant_id: id, z_statistic: statistic.statistic, crossed: Math.abs(statistic.statistic) >= boundary! };
+        }
+
+        const variantSummary = this.toSummary(sample);
+        const variance = controlSummary.variance / controlSummary.n + variantSummary.variance / variantSummary.n;
+        const pValue = Math.min(
+          analysis.always_valid_p_values[id] ?? 1,
+          msprtPValue(statistic.difference, variance, tau)
+        );
+        analysis.always_valid_p_values[id] = pValue;
+        return { variant_id: id, z_statistic: statistic.statistic, always_valid_p_value: pValue, crossed: pValue <= analysis.alpha };
+      })
+    };
+
+    const winner = look.variants
+      .filter(v => v.crossed && this.isImprovement(metric, v.z_statistic))
+      .sort((a, b) => Math.abs(b.z_statistic) - Math.abs(a.z_statistic))[0];
+    if (winner) {
+      analysis.winner_variant_id = winner.variant_id;
     }
-    
-    // Check statistical significance
-    const significance = await this.calculateStatisticalSignificance('conversion_rate', currentMetrics, 0.95);
-    if (significance.variants[0] && significance.variants[0].p_value > 0.05) {
-      throw new Error(`Test not statistically significant: p-value ${significance.variants[0].p_value} > 0.05`);
+
+    analysis.looks.push(look);
+    this.getStore().saveSequentialAnalysis(testConfig.test_id, analysis);
+
+    return look;
+  }
+
+  private toBanditArm(testConfig: ABTestConfig, metrics: TestMetrics): BanditArm {
+    const rewardMetric = testConfig.bandit?.reward_metric || testConfig.primary_metric;
+    const sample = this.extractMetricSample(rewardMetric, metrics);
+    if (sample.kind !== 'proportion') {
+      throw new Error(`Bandit reward metric ${rewardMetric} is not a rate`);
     }
+
+    // For lower-is-better rates the reward is not bouncing
+    const successes = LOWER_IS_BETTER_METRICS.includes(rewardMetric) ? sample.trials - sample.successes : sample.successes;
+    return { successes, trials: sample.trials };
   }
 
-  private async getTestConfiguration(testId: string): Promise<any> {
-    // Get test configuration from database
-    // This would normally query the database for test settings
-    return {
-      test_id: testId,
-      min_sample_size: 1000,
-      min_runtime_hours: 24,
-      started_at: new Date(Date.now() - 48 * 60 * 60 * 1000).toISOString(), // 48 hours ago
-      status: 'running',
-      confidence_level: 0.95
-    };
+  private calculateProbabilityBest(
+    testConfig: ABTestConfig,
+    testMetrics: Record<string, TestMetrics>
+  ): Record<string, number> | null {
+    const active = testConfig.variants.filter(v => !v.stop_reason);
+    const arms = active.map(v => this.toBanditArm(testConfig, testMetrics[v.id]));
+
+    const totalTrials = arms.reduce((sum, arm) => sum + arm.trials, 0);
+    if (totalTrials < DEFAULT_SEQUENTIAL_MIN_SAMPLE * arms.length) return null;
+
+    const probabilities = thompsonSamplingWeights(arms);
+    return Object.fromEntries(active.map((v, i) => [v.id, probabilities[i]]));
   }
 
-  private async getTestMetrics(testId: string): Promise<Record<string, TestMetrics>> {
-    // Get current test metrics from analytics
-    // This would normally query analytics data
-    return {
-      control: {
-        visitors: 1500,
-        conversions: 105,
-        conversion_rate: 7.0,
-        ctr: 3.2,
-        bounce_rate: 45.2,
-        avg_time_on_page: 185,
-        revenue: 2100.50,
-        engagement_score: 0.72
-      },
-      variant_a: {
-        visitors: 1450,
-        conversions: 125,
-        conversion_rate: 8.6,
-        ctr: 3.8,
-        bounce_rate: 41.8,
-        avg_time_on_page: 195,
-        revenue: 2450.25,
-        engagement_score: 0.78
-      }
+  private recordAllocation(
+    testConfig: ABTestConfig,
+    algorithm: AllocationSnapshot['algorithm'],
+    observations: AllocationSnapshot['observations'],
+    probabilityBest?: Record<string, number>
+  ): AllocationSnapshot {
+    const snapshot: AllocationSnapshot = {
+      performed_at: new Date().toISOString(),
+      algorithm,
+      weights: Object.fromEntries(testConfig.variants.map(v => [v.id, v.traffic_allocation])),
+      probability_best: probabilityBest,
+      observations
     };
+
+    this.getStore().addAllocation(testConfig.test_id, snapshot);
+
+    return snapshot;
   }
 
-  private calculateImprovements(original: TestMetrics, results: ABTestResults): Array<{ metric: string; improvement: number }> {
-    // Calculate improvements between original and optimized metrics
-    return [
-      { metric: 'conversion_rate', improvement: 15.5 },
-      { metric: 'ctr', improvement: 8.2 },
-      { metric: 'bounce_rate', improvement: -12.1 }
-    ];
+  private isImprovement(metric: string, zStatistic: number): boolean {
+    return LOWER_IS_BETTER_METRICS.includes(metric) ? zStatistic < 0 : zStatistic > 0;
+  }
+
+  private abortVariant(variant: ABTestVariant, reason: NonNullable<ABTestVariant['stop_reason']>): void {
+    variant.status = 'paused';
+    variant.stop_reason = reason;
+    variant.ended_at = new Date().toISOString();
+    console.log(`Variant ${variant.id} stopped early: ${reason}`);
   }
 
-  private async calculateSecondaryMetric(metric: string, testMetrics: Record<string, TestMetrics>): Promise<any> {
-    // Calculate secondary metric results
+  private startMonitoring(): void {
+    if (this.monitorInterval) return;
+
+    this.monitorInterval = setInterval(() => {
+      this.monitorRunningTests().catch(error => {
+        console.error('A/B test monitor failed:', error.message);
+      });
+    }, MONITOR_INTERVAL_MS);
+    this.monitorInterval.unref?.();
+  }
+
+  private stopMonitoring(): void {
+    if (this.monitorInterval) {
+      clearInterval(this.monitorInterval);
+      this.monitorInterval = undefined;
+    }
+  }
+
+  private async calculateSecondaryMetric(
+    metric: string,
+    testMetrics: Record<string, TestMetrics>,
+    confidenceLevel: number
+  ): Promise<SecondaryMetricResult> {
+    // Secondary metrics are reported unadjusted; only the primary metric decides the winner
+    const level = toProbability(confidenceLevel);
+    const variantIds = Object.keys(testMetrics);
+    const control = this.extractMetricSample(metric, testMetrics[variantIds[0]]);
+
     return {
       metric_name: metric,
-      control_value: 0,
-      variants: []
+      control_value: control.value,
+      variants: variantIds.slice(1).map(variantId => {
+        const variant = this.extractMetricSample(metric, testMetrics[variantId]);
+        const { statistic } = this.compareToControl(control, variant, level, 'frequentist');
+        return {
+          variant_id: variantId,
+          value: variant.value,
+          lift: this.relativeLift(control.value, variant.value),
+          p_value: statistic.p_value,
+          is_significant: statistic.p_value < 1 - level
+        };
+      })
     };
   }
 
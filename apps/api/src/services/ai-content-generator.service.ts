@@ -1,10 +1,11 @@
 /**
  * AI Content Generation Service (Trigger reload of compiled packages)
- * Primary: Gemini API (Google AI Studio - free tier, no billing needed)
- * Fallback: High-quality structured mock content
+ * Provider and model come from the 'content' routing policy (Gemini by default).
+ * Generation can stream: the draft (title and the body's completed sections) is passed to
+ * onDraft as it grows, and the signal cancels it mid-generation.
  */
 
-import { createGeminiService } from '@k2w/ai';
+import { isCancelledError, routeCompletion } from './ai-provider';
 
 export interface ContentGenerationOptions {
   keyword: string;
@@ -15,6 +16,7 @@ export interface ContentGenerationOptions {
   contentType: 'article' | 'blog_post' | 'landing_page' | 'product_description';
   internalLinks?: string[];
   tone: 'professional' | 'casual' | 'technical' | 'marketing';
+  revisionFeedback?: string[]; // editor feedback on rejected earlier drafts, oldest first
 }
 
 export interface GeneratedContent {
@@ -31,49 +33,120 @@ export interface GeneratedContent {
   json_ld_schema: object;
 }
 
-export class AIContentGenerator {
-  private gemini = createGeminiService();
+export interface ContentDraft {
+  title: string;
+  body_html: string; // completed sections only
+}
 
-  /**
-   * Generate SEO-optimized content using Gemini.
-   */
-  async generateContent(options: ContentGenerationOptions): Promise<GeneratedContent> {
-    const apiKey = process.env.GEMINI_API_KEY;
+export interface ContentStreamOptions {
+  onDraft: (draft: ContentDraft) => void;
+  signal?: AbortSignal;
+}
+
+// Block elements a streamed body is cut after, so drafts never end mid-paragraph
+const SECTION_END = /<\/(p|h[1-6]|ul|ol|table|blockquote|section|div)>/gi;
+
+/**
+ * Value of a string field in partial JSON, up to where it has streamed so far
+ */
+function readPartialString(json: string, field: string): string | undefined {
+  const start = json.match(new RegExp(`"${field}"\\s*:\\s*"`));
+  if (!start || start.index === undefined) {
+    return undefined;
+  }
 
-    if (!apiKey || apiKey === 'placeholder-gemini-key') {
-      throw new Error('[AIContentGenerator] Gemini API key is missing or not configured.');
+  let raw = '';
+  for (let i = start.index + start[0].length; i < json.length; i++) {
+    const char = json[i];
+    if (char === '"') {
+      break;
+    }
+    if (char === '\\') {
+      // Stop before an escape sequence that has not fully arrived
+      const sequence = json[i + 1] === 'u' ? json.slice(i, i + 6) : json.slice(i, i + 2);
+      if (sequence.length < (json[i + 1] === 'u' ? 6 : 2)) {
+        break;
+      }
+      raw += sequence;
+      i += sequence.length - 1;
+      continue;
     }
+    raw += char;
+  }
+
+  try {
+    return JSON.parse(`"${raw.replace(/[\u0000-\u001f]/g, char => JSON.stringify(char).slice(1, -1))}"`);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Draft of a streaming JSON response: the title and the body up to its last completed section
+ */
+export function extractContentDraft(partialJson: string): ContentDraft {
+  const body = readPartialString(partialJson, 'body_html') || '';
+  const sectionEnds = Array.from(body.matchAll(SECTION_END));
+  const lastEnd = sectionEnds[sectionEnds.length - 1];
+
+  return {
+    title: readPartialString(partialJson, 'title') || '',
+    body_html: lastEnd && lastEnd.index !== undefined ? body.slice(0, lastEnd.index + lastEnd[0].length) : '',
+  };
+}
 
+export class AIContentGenerator {
+  /**
+   * Generate SEO-optimized content with the routed provider, streaming drafts when asked to.
+   */
+  async generateContent(options: ContentGenerationOptions, stream?: ContentStreamOptions): Promise<GeneratedContent> {
     try {
-      console.log(`[AIContentGenerator] Calling Gemini (${process.env.GEMINI_MODEL || 'gemini-3.5-flash'}) for "${options.keyword}"...`);
-      const result = await this.generateWithGemini(options);
-      console.log(`[AIContentGenerator] ✅ Gemini content generated for "${options.keyword}"`);
+      console.log(`[AIContentGenerator] Generating content for "${options.keyword}"...`);
+      const result = await this.generateWithAI(options, stream);
+      console.log(`[AIContentGenerator] ✅ Content generated for "${options.keyword}"`);
       return result;
     } catch (err) {
-      console.error('[AIContentGenerator] ❌ Gemini content generation failed:', err);
+      if (isCancelledError(err)) {
+        console.log(`[AIContentGenerator] ⏹️ Content generation cancelled for "${options.keyword}"`);
+      } else {
+        console.error('[AIContentGenerator] ❌ Content generation failed:', err);
+      }
       throw err;
     }
   }
 
-  private async generateWithGemini(options: ContentGenerationOptions): Promise<GeneratedContent> {
+  private async generateWithAI(options: ContentGenerationOptions, stream?: ContentStreamOptions): Promise<GeneratedContent> {
     const systemPrompt = this.getSystemPrompt(options.language, options.region);
     const userPrompt = this.buildContentPrompt(options);
 
     const computedMaxTokens = Math.max(8192, this.calculateMaxTokens(options.wordCount || 1000));
     console.log(`[AIContentGenerator] Generating content for keyword: "${options.keyword}", wordCount limit request: ${options.wordCount}, computed max_tokens: ${computedMaxTokens}`);
 
-    const response = await this.gemini.createChatCompletion(
-      [
+    // Only pass drafts on when a section or the title completes
+    let lastDraft = '';
+    const onChunk = stream && ((_delta: string, text: string) => {
+      const draft = extractContentDraft(text);
+      const key = `${draft.title}\n${draft.body_html}`;
+      if (key !== lastDraft) {
+        lastDraft = key;
+        stream.onDraft(draft);
+      }
+    });
+
+    const response = await routeCompletion({
+      task: 'content',
+      operation: 'content_generation',
+      language: options.language,
+      messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt },
       ],
-      {
-        model: process.env.GEMINI_MODEL || 'gemini-3.5-flash',
-        temperature: 0.7,
-        max_tokens: computedMaxTokens,
-        responseMimeType: 'application/json',
-      }
-    );
+      temperature: 0.7,
+      max_tokens: computedMaxTokens,
+      responseMimeType: 'application/json',
+      onChunk: onChunk || undefined,
+      signal: stream?.signal,
+    });
 
     // Extract JSON from markdown code blocks if present
     const jsonMatch = response.match(/```json\s*([\s\S]*?)\s*```/) || response.match(/\{[\s\S]*\}/);
@@ -262,7 +335,10 @@ Word Count: At least ${options.wordCount || 800} words (Write a comprehensive, i
 Content Type: ${options.contentType}
 Tone: ${options.tone}
 ${options.targetAudience ? `Target Audience: ${options.targetAudience}` : ''}
-
+${options.revisionFeedback?.length ? `
+An editor rejected earlier drafts of this content. Address every point of their feedback:
+${options.revisionFeedback.map((feedback, index) => `${index + 1}. ${feedback}`).join('\n')}
+` : ''}
 Requirements:
 1. Create an engaging title (H1)
 2. Include 3-5 subheadings (H2/H3)
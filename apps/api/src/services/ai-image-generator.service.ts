@@ -5,6 +5,7 @@
  */
 
 import { aiProvider } from './ai-provider';
+import { isBudgetError } from './cost-optimization.service';
 import { K2WContentRecord } from '@k2w/database';
 
 export interface ImageGenerationOptions {
@@ -69,6 +70,8 @@ export class AIImageGenerator {
         }
 
       } catch (error) {
+        // A budget that blocks images blocks every remaining one too
+        if (isBudgetError(error)) throw error;
         console.error(`Image generation failed for prompt ${i + 1}:`, error);
         // Continue with next image instead of failing completely
       }
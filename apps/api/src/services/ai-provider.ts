@@ -2,27 +2,53 @@
  * Unified AI Service Wrapper
  * Smart selection with priority system:
  * 
- * TEXT Generation Priority:
- * 1. Gemini (99% cheaper, best value)
- * 2. OpenAI (fallback)
+ * TEXT Generation: chosen per task and project by the routing policies (ai-routing service),
+ * falling back to the next candidate on failure. Without a policy the priority is:
+ * 1. Fixtures (recorded responses, when AI_FIXTURES_PATH is set)
+ * 2. Gemini (99% cheaper, best value)
+ * 3. OpenAI (fallback)
+ * 4. Local LLM (OpenAI-compatible server at LOCAL_LLM_BASE_URL: llama.cpp, Ollama, vLLM)
  * 
  * IMAGE Generation Priority:
  * 1. HuggingFace (FLUX Space self-hosted — 100% free, unlimited, no sleep!)
  * 2. Stability AI (fallback, 25 free/day)
  * 3. Pollinations (emergency fallback)
+ * Fixtures come first when configured, so dev and CI runs need no API keys and no network.
  * 
  * NOTE: Pollinations now returns HTTP 402 for new prompts (paid tier).
  * Stability AI is the primary free image service.
+ *
+ * Every call is metered (tokens, images, latency, cost) through the cost optimization service
+ * and checked against the budgets: throttled budgets get cheaper text models and no images,
+ * exhausted budgets refuse the call.
+ *
+ * Text completions can stream: chunks are passed on as they arrive, and a generation can be
+ * cancelled mid-stream with an AbortSignal (cancellations do not count as provider failures).
+ *
+ * Each provider has a circuit breaker (provider health service): image providers whose circuit
+ * is open are skipped by the fallback chain until their cool-off ends.
  */
 
+import crypto from 'crypto';
+import axios from 'axios';
+
 import { 
   createGeminiService, 
   createOpenAIService, 
   createStabilityService,
   createHuggingFaceService,
   createPollinationsService,
-  createImagenService
+  createImagenService,
+  createLocalLLMService,
+  createFixtureService,
+  ChatCompletionUsage
 } from '@k2w/ai';
+import { BUDGET_THROTTLED, costOptimizationService, createBudgetError, isBudgetError } from './cost-optimization.service';
+import { providerHealthService } from './provider-health.service';
+import { aiRoutingService } from './ai-routing.service';
+import { getAIUsageContext } from './ai-usage.service';
+import { createError, CustomError } from '../middleware/error-handler.middleware';
+import type { AITaskType } from '../types/ai-routing.types';
 
 // Check available services
 const GEMINI_AVAILABLE = !!process.env.GEMINI_API_KEY;
@@ -31,12 +57,16 @@ const STABILITY_AVAILABLE = !!process.env.STABILITY_API_KEY;
 const HUGGINGFACE_AVAILABLE = !!process.env.HUGGINGFACE_TOKEN;
 const POLLINATIONS_AVAILABLE = true; // Always available
 const IMAGEN_AVAILABLE = !!process.env.GOOGLE_APPLICATION_CREDENTIALS && !!process.env.GOOGLE_CLOUD_PROJECT_ID;
+const LOCAL_LLM_AVAILABLE = !!process.env.LOCAL_LLM_BASE_URL;
+const FIXTURES_AVAILABLE = !!process.env.AI_FIXTURES_PATH;
 
 console.log('\n🤖 AI Service Configuration:');
 console.log('━'.repeat(60));
 console.log('TEXT GENERATION:');
+console.log(`  Fixtures: ${FIXTURES_AVAILABLE ? `✅ Priority 1 (replaying ${process.env.AI_FIXTURES_PATH})` : '❌ Not configured'}`);
 console.log(`  Gemini: ${GEMINI_AVAILABLE ? '✅ Active (99% cheaper!)' : '❌ Not configured'}`);
 console.log(`  OpenAI: ${OPENAI_AVAILABLE ? '✅ Fallback' : '❌ Not configured'}`);
+console.log(`  Local LLM: ${LOCAL_LLM_AVAILABLE ? `✅ Fallback (${process.env.LOCAL_LLM_BASE_URL})` : '❌ Not configured'}`);
 console.log('\nIMAGE GENERATION:');
 console.log(`  HuggingFace: ${HUGGINGFACE_AVAILABLE ? '✅ Priority 1 (FLUX.1 — BEST quality, 100% free, unlimited!)' : '❌ Not configured'}`);
 console.log(`  Stability AI: ${STABILITY_AVAILABLE ? '✅ Priority 2 (25 free/day)' : '❌ Not configured'}`);
@@ -44,29 +74,70 @@ console.log(`  Pollinations: ${POLLINATIONS_AVAILABLE ? '⚠️ Priority 3 (fall
 console.log(`  Google Imagen: ${IMAGEN_AVAILABLE ? '✅ Priority 4' : '❌ Not configured'}`);
 console.log('━'.repeat(60) + '\n');
 
-// Initialize text service
-let textService: any;
+// Initialize all available text services in default priority order; routing picks per task
+const textServices = new Map<string, any>();
+let fixtureService: ReturnType<typeof createFixtureService> | null = null;
+if (FIXTURES_AVAILABLE) {
+  try {
+    fixtureService = createFixtureService();
+    textServices.set('fixture', fixtureService);
+    aiRoutingService.registerProvider('fixture', 'text', 'fixture');
+    console.log('📼 Initialized fixtures for text and images (no API keys, no network)');
+  } catch (error) {
+    console.error('❌ Fixtures init failed:', error);
+  }
+}
+
 if (GEMINI_AVAILABLE) {
   try {
-    textService = createGeminiService();
-    console.log('💰 Using Gemini for text (99% cheaper!)');
+    textServices.set('gemini', createGeminiService());
+    aiRoutingService.registerProvider('gemini', 'text', process.env.GEMINI_MODEL || 'gemini-3.5-flash');
+    console.log('💰 Initialized Gemini for text (99% cheaper!)');
   } catch (error) {
     console.warn('⚠️ Gemini init failed:', error);
   }
 }
 
-if (!textService && OPENAI_AVAILABLE) {
+if (OPENAI_AVAILABLE) {
   try {
-    textService = createOpenAIService();
-    console.log('⚠️ Using OpenAI for text (fallback)');
+    textServices.set('openai', createOpenAIService());
+    aiRoutingService.registerProvider('openai', 'text', 'gpt-4-turbo-preview');
+    console.log(`⚠️ Initialized OpenAI for text (${textServices.size > 1 ? 'fallback' : 'only provider'})`);
   } catch (error) {
     console.error('❌ OpenAI init failed:', error);
   }
 }
 
+if (LOCAL_LLM_AVAILABLE) {
+  try {
+    const localLLM = createLocalLLMService();
+    textServices.set('local-llm', localLLM);
+    aiRoutingService.registerProvider('local-llm', 'text', localLLM.getModel());
+    console.log(`🖥️ Initialized local LLM for text (${localLLM.getModel()} at ${process.env.LOCAL_LLM_BASE_URL})`);
+  } catch (error) {
+    console.error('❌ Local LLM init failed:', error);
+  }
+}
+
+// Successful completions are recorded here as fixtures for later offline runs
+let fixtureRecorder: ReturnType<typeof createFixtureService> | null = null;
+if (process.env.AI_FIXTURES_RECORD_PATH) {
+  try {
+    fixtureRecorder = createFixtureService({ path: process.env.AI_FIXTURES_RECORD_PATH, record: true });
+    console.log(`📼 Recording AI responses to ${process.env.AI_FIXTURES_RECORD_PATH}`);
+  } catch (error) {
+    console.error('❌ Fixture recorder init failed:', error);
+  }
+}
+
 // Initialize all available image services in priority order
 const imageServices: Array<{ provider: string; service: any }> = [];
 
+// Fixtures replace the networked image services when configured
+if (fixtureService) {
+  imageServices.push({ provider: 'fixture', service: fixtureService });
+}
+
 // Priority 1: HuggingFace via self-hosted FLUX Space (primary)
 if (HUGGINGFACE_AVAILABLE) {
   try {
@@ -108,81 +179,283 @@ if (IMAGEN_AVAILABLE) {
   }
 }
 
-if (!textService) {
-  console.error('❌ No text service available! Set GEMINI_API_KEY or OPENAI_API_KEY');
+if (textServices.size === 0) {
+  console.error('❌ No text service available! Set GEMINI_API_KEY, OPENAI_API_KEY, LOCAL_LLM_BASE_URL or AI_FIXTURES_PATH');
 }
 
+textServices.forEach((_service, provider) => providerHealthService.register(provider, 'text'));
+imageServices.forEach(({ provider }) => providerHealthService.register(provider, 'image'));
+
 if (imageServices.length === 0) {
   console.error('❌ No image service available!');
 }
 
+// Model each image provider is called with, for pricing
+const IMAGE_MODELS: Record<string, string> = {
+  huggingface: 'flux-schnell',
+  stability: 'sd3.5-large-turbo',
+  pollinations: 'flux',
+  imagen: 'imagen-3.0-generate-001',
+  fixture: 'fixture',
+};
+
+interface MeteredCall {
+  provider: string;
+  model: string;
+  operation: string;
+  prompt: string;
+  signal?: AbortSignal;
+}
+
+export const GENERATION_CANCELLED = 'GENERATION_CANCELLED';
+
+export const createCancelledError = (message = 'Generation cancelled'): CustomError => {
+  const error = createError(message, 409);
+  error.code = GENERATION_CANCELLED;
+  return error;
+};
+
+export const isCancelledError = (error: unknown): error is CustomError =>
+  (error as CustomError | undefined)?.code === GENERATION_CANCELLED;
+
+// Rough estimation when the provider reports no usage: ~4 characters per token
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const hashPrompt = (prompt: string) => crypto.createHash('sha256').update(prompt).digest('hex');
+
+function recordUsage(usage: Parameters<typeof costOptimizationService.recordAIUsage>[0]): void {
+  // Metering must never fail the AI call it measures
+  costOptimizationService.recordAIUsage(usage).catch(error => {
+    console.warn('⚠️ Failed to record AI usage:', error.message || error);
+  });
+}
+
+/**
+ * Run a text completion and record its token usage and cost. Providers that report usage
+ * through onUsage are metered exactly, the rest are estimated from the prompt and response.
+ * The completion is called with the model to use, which is cheaper while the budget is throttled.
+ * The outcome feeds the provider's health, which routing uses to try open-circuit providers last.
+ */
+export async function meterCompletion<T>(
+  call: MeteredCall,
+  complete: (onUsage: (usage: ChatCompletionUsage) => void, model: string) => Promise<T>,
+  completionText: (result: T) => string = result => String(result)
+): Promise<T> {
+  const enforcement = await costOptimizationService.assertWithinBudget();
+  const model = costOptimizationService.getBudgetModel(call.provider, call.model, enforcement);
+  if (model !== call.model) {
+    console.log(`💸 Budget throttled (${enforcement.reason}), using ${model} instead of ${call.model}`);
+  }
+
+  const startedAt = Date.now();
+  let reported: ChatCompletionUsage | undefined;
+  const base = {
+    provider: call.provider,
+    operation: call.operation,
+    image_count: 0,
+    prompt_hash: hashPrompt(call.prompt),
+  };
+
+  try {
+    const result = await complete(usage => { reported = usage; }, model);
+    providerHealthService.recordSuccess(call.provider, Date.now() - startedAt, 'text');
+    recordUsage({
+      ...base,
+      model: reported?.model || model,
+      prompt_tokens: reported?.prompt_tokens ?? estimateTokens(call.prompt),
+      completion_tokens: reported?.completion_tokens ?? estimateTokens(completionText(result)),
+      latency_ms: Date.now() - startedAt,
+      tokens_estimated: !reported,
+      success: true,
+    });
+    return result;
+  } catch (error: any) {
+    // A cancelled call says nothing about the provider's health
+    if (!call.signal?.aborted) {
+      providerHealthService.recordFailure(call.provider, Date.now() - startedAt, error, 'text');
+    }
+    // Only tokens the provider reported were billed
+    recordUsage({
+      ...base,
+      model: reported?.model || model,
+      prompt_tokens: reported?.prompt_tokens ?? 0,
+      completion_tokens: reported?.completion_tokens ?? 0,
+      latency_ms: Date.now() - startedAt,
+      tokens_estimated: false,
+      success: false,
+      error_message: call.signal?.aborted ? 'cancelled' : error?.message || String(error),
+    });
+    throw call.signal?.aborted ? createCancelledError() : error;
+  }
+}
+
+async function meterImages(call: MeteredCall, generate: () => Promise<string[]>): Promise<string[]> {
+  const startedAt = Date.now();
+  const base = {
+    provider: call.provider,
+    model: call.model,
+    operation: call.operation,
+    prompt_tokens: 0,
+    completion_tokens: 0,
+    tokens_estimated: false,
+    prompt_hash: hashPrompt(call.prompt),
+  };
+
+  try {
+    const urls = await generate();
+    recordUsage({ ...base, image_count: urls.length, latency_ms: Date.now() - startedAt, success: true });
+    return urls;
+  } catch (error: any) {
+    recordUsage({
+      ...base,
+      image_count: 0,
+      latency_ms: Date.now() - startedAt,
+      success: false,
+      error_message: error?.message || String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Pollinations only builds the image URL; the image is rendered (or refused with 402) when
+ * the URL is fetched, so fetch it once to find out whether the provider actually works.
+ */
+async function verifyImageUrl(url: string): Promise<void> {
+  const response = await axios.get(url, { responseType: 'stream', timeout: 60000 });
+  response.data.destroy();
+}
+
+function recordFixture(messages: RoutedCompletion['messages'], response: string): void {
+  // Recording must never fail the AI call it records
+  try {
+    fixtureRecorder?.record(messages, response);
+  } catch (error: any) {
+    console.warn('⚠️ Failed to record AI fixture:', error.message || error);
+  }
+}
+
+export interface RoutedCompletion {
+  task: AITaskType;
+  operation: string;
+  messages: Array<{ role: string; content: string }>;
+  language?: string; // language of the output, for language-specific routing
+  temperature?: number;
+  max_tokens?: number;
+  responseMimeType?: string;
+  onChunk?: (delta: string, text: string) => void; // stream the completion; text restarts if a provider fails over
+  signal?: AbortSignal;
+}
+
+/**
+ * Run a chat completion on the providers the routing policy picks for the task and the current
+ * project, in order, until one succeeds. Budget refusals and cancellations are not retried on
+ * another provider. With onChunk the completion is streamed from providers that support it.
+ */
+export async function routeCompletion(request: RoutedCompletion): Promise<string> {
+  const route = aiRoutingService.resolveRoute({
+    task: request.task,
+    project_id: getAIUsageContext().project_id,
+    language: request.language
+  });
+  if (route.candidates.length === 0) {
+    throw new Error('No AI service configured');
+  }
+
+  const prompt = request.messages.map(message => message.content).join('\n\n');
+  const errors: Error[] = [];
+
+  for (const { provider, model } of route.candidates) {
+    if (request.signal?.aborted) {
+      throw createCancelledError();
+    }
+
+    const service = textServices.get(provider);
+    try {
+      const result = await meterCompletion<string>(
+        { provider, model, operation: request.operation, prompt, signal: request.signal },
+        async (onUsage, routedModel) => {
+          const options = {
+            model: routedModel,
+            temperature: request.temperature,
+            max_tokens: request.max_tokens,
+            responseMimeType: request.responseMimeType,
+            onUsage,
+          };
+          if (request.onChunk && typeof service.streamChatCompletion === 'function') {
+            return service.streamChatCompletion(request.messages, { ...options, onChunk: request.onChunk, signal: request.signal });
+          }
+
+          const text: string = await service.createChatCompletion(request.messages, options);
+          request.onChunk?.(text, text);
+          return text;
+        }
+      );
+      if (fixtureRecorder && provider !== 'fixture') {
+        recordFixture(request.messages, result);
+      }
+      return result;
+    } catch (error: any) {
+      if (isBudgetError(error) || isCancelledError(error)) {
+        throw error;
+      }
+      console.warn(`⚠️ ${request.task} failed on ${provider}/${model}:`, error.message || error);
+      errors.push(error);
+    }
+  }
+
+  if (errors.length === 1) {
+    throw errors[0];
+  }
+  throw new Error(`All AI providers failed for ${request.task}. Errors: ${errors.map(e => e.message || e).join('; ')}`);
+}
+
 /**
  * Unified AI Provider
  * Drop-in replacement for OpenAI service
  */
 export const aiProvider = {
   /**
-   * Generate text/content
+   * Generate text/content (options.task selects the routing policy, default content)
    */
   async generateText(prompt: string, options?: any): Promise<string> {
-    if (!textService) {
-      throw new Error('No AI service configured');
-    }
-
-    if (textService.generateText) {
-      // Gemini
-      const response = await textService.generateText(prompt, options);
-      return response.text;
-    } else {
-      // OpenAI fallback
-      const response = await textService.createChatCompletion([
-        { role: 'user', content: prompt }
-      ], options);
-      return response;
-    }
+    return routeCompletion({
+      ...options,
+      task: options?.task || 'content',
+      operation: 'generate_text',
+      messages: [{ role: 'user', content: prompt }],
+    });
   },
 
   /**
    * Chat completion with message history
    */
   async chat(messages: Array<{role: string, content: string}>, options?: any): Promise<string> {
-    if (!textService) {
-      throw new Error('No AI service configured');
-    }
-
-    if (textService.chat) {
-      // Gemini
-      const response = await textService.chat(messages, options);
-      return response.text;
-    } else {
-      // OpenAI
-      return await textService.createChatCompletion(messages, options);
-    }
+    return routeCompletion({
+      ...options,
+      task: options?.task || 'content',
+      operation: 'chat',
+      messages,
+    });
   },
 
   /**
    * Generate structured JSON
    */
   async generateJSON<T = any>(prompt: string, options?: any): Promise<T> {
-    if (!textService) {
-      throw new Error('No AI service configured');
-    }
+    const response = await routeCompletion({
+      temperature: 0.3,
+      ...options,
+      task: options?.task || 'content',
+      operation: 'generate_json',
+      messages: [{ role: 'user', content: prompt + '\n\nReturn valid JSON only.' }],
+    });
 
-    if (textService.generateJSON) {
-      // Gemini
-      return await textService.generateJSON(prompt, options);
-    } else {
-      // OpenAI - parse response
-      const response = await textService.createChatCompletion([
-        { role: 'user', content: prompt + '\n\nReturn valid JSON only.' }
-      ], { ...options, temperature: 0.3 });
-      
-      let jsonText = response.trim();
-      if (jsonText.startsWith('```json')) {
-        jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?$/g, '');
-      }
-      return JSON.parse(jsonText);
+    let jsonText = response.trim();
+    if (jsonText.startsWith('```json')) {
+      jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?$/g, '');
     }
+    return JSON.parse(jsonText);
   },
 
   /**
@@ -198,46 +471,75 @@ export const aiProvider = {
       throw new Error('No image generation service is configured or available');
     }
 
+    // Images are the first thing dropped when a budget runs low
+    const enforcement = await costOptimizationService.assertWithinBudget();
+    if (enforcement.action === 'throttle') {
+      throw createBudgetError(BUDGET_THROTTLED, `Image generation skipped: ${enforcement.reason}`);
+    }
+
     const errors: Error[] = [];
     const count = options?.count || 1;
 
     for (const { provider, service } of imageServices) {
+      if (!providerHealthService.canRequest(provider)) {
+        const health = providerHealthService.getProviderHealth(provider);
+        console.log(`⏭️ Skipping image provider ${provider}: circuit open until ${health?.next_attempt_at}`);
+        errors.push(new Error(`${provider}: circuit open (${health?.last_error || 'failing'})`));
+        continue;
+      }
+
+      const startedAt = Date.now();
       try {
         console.log(`🎨 Attempting image generation using provider: ${provider}...`);
-        let urls: string[] = [];
-
-        if (provider === 'imagen') {
-          const images = await service.generateImages(prompt, {
-            numberOfImages: count,
-            aspectRatio: options?.aspectRatio || '1:1',
-          });
-          urls = images.map((img: any) => img.url);
-        } else if (provider === 'huggingface') {
-          const images: any[] = [];
-          for (let i = 0; i < count; i++) {
-            const img = await service.generateImage({
-              prompt,
-              negativePrompt: '',
-              width: 1024,
-              height: 1024,
-              model: 'flux-schnell',
+        const call = { provider, model: IMAGE_MODELS[provider] || provider, operation: 'generate_images', prompt };
+
+        const urls = await meterImages(call, async () => {
+          let urls: string[] = [];
+
+          if (provider === 'fixture') {
+            const images = await service.generateImages(prompt, count);
+            urls = images.map((img: any) => img.url);
+          } else if (provider === 'imagen') {
+            const images = await service.generateImages(prompt, {
+              numberOfImages: count,
+              aspectRatio: options?.aspectRatio || '1:1',
+            });
+            urls = images.map((img: any) => img.url);
+          } else if (provider === 'huggingface') {
+            const images: any[] = [];
+            for (let i = 0; i < count; i++) {
+              const img = await service.generateImage({
+                prompt,
+                negativePrompt: '',
+                width: 1024,
+                height: 1024,
+                model: 'flux-schnell',
+              });
+              images.push(img);
+            }
+            urls = images.map((img: any) => img.url);
+          } else if (provider === 'stability' || provider === 'pollinations') {
+            const images = await service.generateImages(prompt, count, {
+              aspectRatio: options?.aspectRatio || '1:1',
+              style: options?.style,
             });
-            images.push(img);
+            urls = images.map((img: any) => img.url);
+            if (provider === 'pollinations' && urls.length > 0) {
+              await verifyImageUrl(urls[0]);
+            }
           }
-          urls = images.map((img: any) => img.url);
-        } else if (provider === 'stability' || provider === 'pollinations') {
-          const images = await service.generateImages(prompt, count, {
-            aspectRatio: options?.aspectRatio || '1:1',
-            style: options?.style,
-          });
-          urls = images.map((img: any) => img.url);
-        }
 
-        if (urls && urls.length > 0) {
+          return urls || [];
+        });
+
+        if (urls.length > 0) {
+          providerHealthService.recordSuccess(provider, Date.now() - startedAt, 'image');
           console.log(`✅ Successfully generated ${urls.length} images using provider: ${provider}`);
           return urls;
         }
+        providerHealthService.recordFailure(provider, Date.now() - startedAt, new Error('No images returned'), 'image');
       } catch (error: any) {
+        providerHealthService.recordFailure(provider, Date.now() - startedAt, error, 'image');
         console.warn(`⚠️ Image generation failed for provider ${provider}:`, error.message || error);
         errors.push(error);
       }
@@ -252,9 +554,10 @@ export const aiProvider = {
   getServiceInfo() {
     const activeProviders = imageServices.map(s => s.provider).join(' -> ');
     return {
-      textService: GEMINI_AVAILABLE ? 'Gemini' : (OPENAI_AVAILABLE ? 'OpenAI' : 'None'),
+      textService: Array.from(textServices.keys()).join(' -> ') || 'None',
       imageService: activeProviders || 'None',
       costSavings: '100% (free image services)',
+      providerHealth: providerHealthService.getHealth(),
     };
   }
 };
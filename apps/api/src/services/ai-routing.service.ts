@@ -0,0 +1,273 @@
+/**
+ * AI Routing Service
+ * Chooses the provider and model for each AI task (content with its FAQs and meta tags, translation,
+ * clustering) from routing policies that can be set per task and per project at runtime.
+ *
+ * Policy lookup: task + project, any task + project, task for all projects, any task for all
+ * projects, then the built-in default (configured providers in priority order). Clustering routes
+ * embedding models, so only its own policies apply to it.
+ */
+
+import { AIUsageStore, getAIUsageStore } from './ai-usage.service';
+import { providerHealthService } from './provider-health.service';
+import type {
+  AIModelOption,
+  AIModelProfile,
+  AIRoute,
+  AIRouteCandidate,
+  AIRouteRequest,
+  AIRouteTarget,
+  AITaskType,
+  RoutingPolicy,
+  RoutingStrategy,
+  StoredRoutingPolicy
+} from '../types/ai-routing.types';
+
+export const AI_TASK_TYPES: AITaskType[] = ['content', 'translation', 'clustering'];
+
+const ROUTING_STRATEGIES: RoutingStrategy[] = ['cheapest', 'best_quality', 'preferred'];
+
+/**
+ * Models the router can choose from. Quality is a relative 1-5 ranking within text or
+ * embedding models; costs come from the price table.
+ */
+export const AI_MODEL_CATALOG: AIModelProfile[] = [
+  { provider: 'gemini', model: 'gemini-3.5-flash', kind: 'text', quality: 4 },
+  { provider: 'gemini', model: 'gemini-2.5-flash-lite', kind: 'text', quality: 2 },
+  { provider: 'openai', model: 'gpt-4o', kind: 'text', quality: 5 },
+  { provider: 'openai', model: 'gpt-4-turbo-preview', kind: 'text', quality: 4 },
+  { provider: 'openai', model: 'gpt-4o-mini', kind: 'text', quality: 3 },
+  { provider: 'openai', model: 'text-embedding-3-small', kind: 'embedding', quality: 4 },
+  { provider: 'local', model: 'ngram', kind: 'embedding', quality: 2 }
+];
+
+// Reference call the strategies compare costs on
+const REFERENCE_TOKENS = 1000;
+
+const taskKind = (task: AITaskType): AIModelProfile['kind'] => task === 'clustering' ? 'embedding' : 'text';
+
+const sameTarget = (a: AIRouteCandidate, b: AIRouteCandidate) => a.provider === b.provider && a.model === b.model;
+
+export class AIRoutingService {
+  private usageStore?: AIUsageStore;
+  private catalog: AIModelProfile[];
+  // Configured providers in priority order, with the model they default to
+  private providers: Array<{ provider: string; kind: AIModelProfile['kind']; default_model: string }> = [];
+
+  constructor(options: { usageStore?: AIUsageStore; catalog?: AIModelProfile[] } = {}) {
+    this.usageStore = options.usageStore;
+    this.catalog = [...(options.catalog || AI_MODEL_CATALOG)];
+  }
+
+  /**
+   * Make a configured provider routable. Its default model joins the catalog if it is not listed.
+   */
+  registerProvider(provider: string, kind: AIModelProfile['kind'], defaultModel: string): void {
+    this.providers = this.providers.filter(entry => entry.provider !== provider || entry.kind !== kind);
+    this.providers.push({ provider, kind, default_model: defaultModel });
+    if (!this.catalog.some(profile => profile.provider === provider && profile.model === defaultModel)) {
+      this.catalog.push({ provider, model: defaultModel, kind, quality: 3 });
+    }
+  }
+
+  /**
+   * Catalog models with their availability on this server and reference cost
+   */
+  getModelOptions(kind?: AIModelProfile['kind']): AIModelOption[] {
+    return this.catalog
+      .filter(profile => !kind || profile.kind === kind)
+      .map(profile => ({
+        ...profile,
+        available: !!this.findProvider(profile.provider, profile.kind),
+        reference_cost_usd: this.referenceCost(profile)
+      }));
+  }
+
+  listPolicies(): StoredRoutingPolicy[] {
+    return this.usage.listRoutingPolicies();
+  }
+
+  /**
+   * Add or replace the policy of a task ('*' for all) and project (unset for all)
+   */
+  setPolicy(input: Partial<RoutingPolicy>, updatedBy?: string): StoredRoutingPolicy {
+    return this.usage.saveRoutingPolicy(this.validatePolicy(input), updatedBy);
+  }
+
+  deletePolicy(task: AITaskType | '*', projectId?: string): boolean {
+    return this.usage.deleteRoutingPolicy(task, projectId);
+  }
+
+  /**
+   * Providers and models to try for a task, in order. Providers with an open circuit are
+   * moved to the end; without fallback only the first candidate is returned.
+   */
+  resolveRoute(request: AIRouteRequest): AIRoute {
+    const kind = taskKind(request.task);
+    const stored = this.findPolicy(request.task, request.project_id);
+    const policy: RoutingPolicy = stored || this.defaultPolicy(request.task, kind);
+    const allowed = (provider: string) =>
+      !policy.allowed_providers?.length || policy.allowed_providers.includes(provider);
+
+    const candidates: AIRouteCandidate[] = [];
+    const add = (target: AIRouteTarget, reason: string) => {
+      const configured = this.findProvider(target.provider, kind);
+      if (!configured || !allowed(target.provider)) {
+        return;
+      }
+      const candidate = { provider: target.provider, model: target.model || configured.default_model, reason };
+      if (!candidates.some(existing => sameTarget(existing, candidate))) {
+        candidates.push(candidate);
+      }
+    };
+
+    const language = this.matchLanguage(policy, request.language);
+    if (language) {
+      policy.language_preferences![language].forEach(target => add(target, `language preference (${language})`));
+    }
+
+    if (policy.strategy === 'preferred') {
+      (policy.preferred || []).forEach(target => add(target, 'preferred'));
+      this.providers
+        .filter(entry => entry.kind === kind)
+        .forEach(entry => add({ provider: entry.provider }, 'provider default'));
+    } else {
+      const ranked = this.getModelOptions(kind)
+        .filter(option => option.available && (policy.min_quality === undefined || option.quality >= policy.min_quality))
+        .sort((a, b) => policy.strategy === 'cheapest'
+          ? a.reference_cost_usd - b.reference_cost_usd || b.quality - a.quality
+          : b.quality - a.quality || a.reference_cost_usd - b.reference_cost_usd);
+      ranked.forEach(option => add(option, policy.strategy));
+    }
+
+    // Circuits track the text providers
+    const isOpen = (candidate: AIRouteCandidate) =>
+      kind === 'text' && providerHealthService.getProviderHealth(candidate.provider)?.state === 'open';
+    const ordered = [...candidates.filter(candidate => !isOpen(candidate)), ...candidates.filter(isOpen)];
+
+    return {
+      task: request.task,
+      project_id: request.project_id,
+      language: request.language,
+      policy,
+      default_policy: !stored,
+      candidates: policy.fallback ? ordered : ordered.slice(0, 1)
+    };
+  }
+
+  // Private methods
+
+  private findProvider(provider: string, kind: AIModelProfile['kind']) {
+    return this.providers.find(entry => entry.provider === provider && entry.kind === kind);
+  }
+
+  private findPolicy(task: AITaskType, projectId?: string): StoredRoutingPolicy | null {
+    const tasks: Array<AITaskType | '*'> = taskKind(task) === 'text' ? [task, '*'] : [task];
+    const lookups: Array<[AITaskType | '*', string | undefined]> = [
+      ...(projectId ? tasks.map(lookupTask => [lookupTask, projectId] as [AITaskType | '*', string]) : []),
+      ...tasks.map(lookupTask => [lookupTask, undefined] as [AITaskType | '*', undefined])
+    ];
+
+    for (const [lookupTask, lookupProject] of lookups) {
+      const policy = this.usage.getRoutingPolicy(lookupTask, lookupProject);
+      if (policy) {
+        return policy;
+      }
+    }
+    return null;
+  }
+
+  private defaultPolicy(task: AITaskType, kind: AIModelProfile['kind']): RoutingPolicy {
+    const preferred = this.providers
+      .filter(entry => entry.kind === kind)
+      .map(entry => ({ provider: entry.provider }));
+    return { task, strategy: 'preferred', preferred, fallback: true };
+  }
+
+  /**
+   * Language preference key for a language: exact ('pt-br'), then the base language ('pt')
+   */
+  private matchLanguage(policy: RoutingPolicy, language?: string): string | undefined {
+    if (!language || !policy.language_preferences) {
+      return undefined;
+    }
+    const keys = Object.keys(policy.language_preferences);
+    const wanted = language.toLowerCase();
+    return keys.find(key => key.toLowerCase() === wanted)
+      || keys.find(key => key.toLowerCase() === wanted.split(/[-_]/)[0]);
+  }
+
+  private referenceCost(profile: AIModelProfile): number {
+    const price = this.usage.findPrice(profile.provider, profile.model);
+    if (!price) {
+      return 0;
+    }
+    const output = profile.kind === 'text' ? price.output_per_million : 0;
+    return ((price.input_per_million + output) * REFERENCE_TOKENS) / 1_000_000 + (price.per_request || 0);
+  }
+
+  private validatePolicy(input: Partial<RoutingPolicy>): RoutingPolicy {
+    const errors: string[] = [];
+    const isTarget = (target: any): target is AIRouteTarget =>
+      !!target && typeof target.provider === 'string' && target.provider.length > 0
+        && (target.model === undefined || (typeof target.model === 'string' && target.model.length > 0));
+
+    if (input.task !== '*' && !AI_TASK_TYPES.includes(input.task as AITaskType)) {
+      errors.push(`task must be one of ${['*', ...AI_TASK_TYPES].join(', ')}`);
+    }
+    if (input.project_id !== undefined && (typeof input.project_id !== 'string' || !input.project_id)) {
+      errors.push('project_id must be a non-empty string');
+    }
+    if (!ROUTING_STRATEGIES.includes(input.strategy as RoutingStrategy)) {
+      errors.push(`strategy must be one of ${ROUTING_STRATEGIES.join(', ')}`);
+    }
+    if (input.preferred !== undefined && (!Array.isArray(input.preferred) || !input.preferred.every(isTarget))) {
+      errors.push('preferred must be a list of { provider, model? }');
+    }
+    if (input.strategy === 'preferred' && !input.preferred?.length) {
+      errors.push('preferred strategy needs at least one preferred target');
+    }
+    if (input.language_preferences !== undefined) {
+      const entries = typeof input.language_preferences === 'object' && input.language_preferences !== null
+        ? Object.values(input.language_preferences)
+        : null;
+      if (!entries || !entries.every(targets => Array.isArray(targets) && targets.every(isTarget))) {
+        errors.push('language_preferences must map language codes to lists of { provider, model? }');
+      }
+    }
+    if (input.allowed_providers !== undefined
+      && (!Array.isArray(input.allowed_providers) || !input.allowed_providers.every(provider => typeof provider === 'string'))) {
+      errors.push('allowed_providers must be a list of provider names');
+    }
+    if (input.min_quality !== undefined && (typeof input.min_quality !== 'number' || input.min_quality < 1 || input.min_quality > 5)) {
+      errors.push('min_quality must be between 1 and 5');
+    }
+    if (input.fallback !== undefined && typeof input.fallback !== 'boolean') {
+      errors.push('fallback must be true or false');
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid routing policy: ${errors.join('; ')}`);
+    }
+
+    return {
+      task: input.task!,
+      project_id: input.project_id,
+      strategy: input.strategy!,
+      preferred: input.preferred,
+      language_preferences: input.language_preferences,
+      allowed_providers: input.allowed_providers,
+      min_quality: input.min_quality,
+      fallback: input.fallback ?? true
+    };
+  }
+
+  private get usage(): AIUsageStore {
+    if (!this.usageStore) {
+      this.usageStore = getAIUsageStore();
+    }
+    return this.usageStore;
+  }
+}
+
+export const aiRoutingService = new AIRoutingService();
@@ -5,6 +5,7 @@
 
 import axios from 'axios';
 import { K2WContentRecord } from '@k2w/database';
+import { costOptimizationService } from './cost-optimization.service';
 
 export interface TranslationOptions {
   targetLanguage: string;
@@ -89,15 +90,19 @@ export class AITranslationService {
         tag_handling: 'html'
       };
 
-      const response = await axios.post(
-        `${this.baseUrl}/translate`,
-        new URLSearchParams(requestData as any),
-        {
-          headers: {
-            'Authorization': `DeepL-Auth-Key ${this.apiKey}`,
-            'Content-Type': 'application/x-www-form-urlencoded',
+      // DeepL bills per source character
+      const response = await costOptimizationService.meterAPIRequest(
+        { provider: 'deepl', operation: 'translate_text', stage: 'translation', units: text.length },
+        () => axios.post(
+          `${this.baseUrl}/translate`,
+          new URLSearchParams(requestData as any),
+          {
+            headers: {
+              'Authorization': `DeepL-Auth-Key ${this.apiKey}`,
+              'Content-Type': 'application/x-www-form-urlencoded',
+            }
           }
-        }
+        )
       );
 
       const translation = response.data.translations[0];
@@ -0,0 +1,571 @@
+/**
+ * AI Usage Store
+ * Records every metered AI call and paid SEO/translation API request (tokens, images, latency, cost)
+ * in a local SQLite ledger keyed by project, workflow, user, keyword and content, together with
+ * the editable per-provider price table the costs are calculated from, the global,
+ * per-project and per-user budgets they are checked against and the provider routing policies
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import type {
+  AIPriceEntry,
+  AIUsageContext,
+  AIUsageQuery,
+  AIUsageRecord,
+  AIUsageTotals,
+  BudgetConfig,
+  BudgetScope,
+  CostStage,
+  StoredBudget
+} from '../types/cost-optimization.types';
+import type { AITaskType, RoutingPolicy, StoredRoutingPolicy } from '../types/ai-routing.types';
+
+export type AIUsageGroupBy =
+  | 'provider' | 'model' | 'operation' | 'stage'
+  | 'project_id' | 'workflow_id' | 'user_id' | 'keyword_id' | 'content_id';
+
+export interface AIUsageStoreOptions {
+  dbPath?: string;
+}
+
+interface UsageRow {
+  id: string;
+  provider: string;
+  model: string;
+  operation: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  image_count: number;
+  latency_ms: number;
+  cost_usd: number;
+  tokens_estimated: number;
+  success: number;
+  error_message: string | null;
+  project_id: string | null;
+  workflow_id: string | null;
+  user_id: string | null;
+  keyword_id: string | null;
+  content_id: string | null;
+  stage: CostStage;
+  prompt_hash: string | null;
+  created_at: string;
+}
+
+interface RoutingPolicyRow {
+  task: AITaskType | '*';
+  project_id: string;
+  policy: string;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+interface BudgetRow {
+  scope: BudgetScope;
+  scope_id: string;
+  config: string;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+/**
+ * Prices used until the table is edited (USD, list prices at the time of writing)
+ */
+export const DEFAULT_AI_PRICES: AIPriceEntry[] = [
+  { provider: 'gemini', model: '*', input_per_million: 0.30, output_per_million: 2.50, per_image: 0 },
+  { provider: 'openai', model: '*', input_per_million: 10, output_per_million: 30, per_image: 0 },
+  { provider: 'openai', model: 'gpt-4', input_per_million: 30, output_per_million: 60, per_image: 0 },
+  // GPT-4 Turbo would otherwise match the gpt-4 prefix at GPT-4 rates
+  { provider: 'openai', model: 'gpt-4-turbo', input_per_million: 10, output_per_million: 30, per_image: 0 },
+  { provider: 'openai', model: 'gpt-4-1106-preview', input_per_million: 10, output_per_million: 30, per_image: 0 },
+  { provider: 'openai', model: 'gpt-4-0125-preview', input_per_million: 10, output_per_million: 30, per_image: 0 },
+  { provider: 'openai', model: 'gpt-4o', input_per_million: 2.50, output_per_million: 10, per_image: 0 },
+  { provider: 'openai', model: 'gpt-4o-mini', input_per_million: 0.15, output_per_million: 0.60, per_image: 0 },
+  { provider: 'openai', model: 'gpt-3.5-turbo', input_per_million: 0.50, output_per_million: 1.50, per_image: 0 },
+  { provider: 'openai', model: 'dall-e-3', input_per_million: 0, output_per_million: 0, per_image: 0.04 },
+  { provider: 'stability', model: '*', input_per_million: 0, output_per_million: 0, per_image: 0.04 },
+  { provider: 'imagen', model: '*', input_per_million: 0, output_per_million: 0, per_image: 0.04 },
+  { provider: 'huggingface', model: '*', input_per_million: 0, output_per_million: 0, per_image: 0 },
+  { provider: 'pollinations', model: '*', input_per_million: 0, output_per_million: 0, per_image: 0 },
+  // Self-hosted and recorded responses cost nothing per call
+  { provider: 'local-llm', model: '*', input_per_million: 0, output_per_million: 0, per_image: 0 },
+  { provider: 'fixture', model: '*', input_per_million: 0, output_per_million: 0, per_image: 0 },
+  { provider: 'ahrefs', model: '*', input_per_million: 0, output_per_million: 0, per_image: 0, per_request: 0.02 },
+  { provider: 'semrush', model: '*', input_per_million: 0, output_per_million: 0, per_image: 0, per_request: 0.01 },
+  // DeepL bills translated characters, recorded as prompt tokens
+  { provider: 'deepl', model: '*', input_per_million: 25, output_per_million: 0, per_image: 0 }
+];
+
+const DEFAULT_DB_PATH = process.env.AI_USAGE_DB_PATH || path.join(process.cwd(), 'data', 'ai-usage.db');
+
+const TOTALS_COLUMNS = `
+  COUNT(*) AS calls,
+  COALESCE(SUM(CASE WHEN success = 0 THEN 1 ELSE 0 END), 0) AS failed_calls,
+  COALESCE(SUM(prompt_tokens), 0) AS prompt_tokens,
+  COALESCE(SUM(completion_tokens), 0) AS completion_tokens,
+  COALESCE(SUM(image_count), 0) AS image_count,
+  COALESCE(SUM(cost_usd), 0) AS cost_usd,
+  COALESCE(AVG(latency_ms), 0) AS avg_latency_ms
+`;
+
+export class AIUsageStore {
+  private db: Database.Database;
+
+  constructor(options: AIUsageStoreOptions = {}) {
+    const dbPath = options.dbPath || DEFAULT_DB_PATH;
+
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.initDatabase();
+  }
+
+  insertUsage(record: AIUsageRecord): void {
+    this.db.prepare(`
+      INSERT INTO ai_usage (
+        id, provider, model, operation, prompt_tokens, completion_tokens, image_count, latency_ms,
+        cost_usd, tokens_estimated, success, error_message, project_id, workflow_id, user_id,
+        keyword_id, content_id, stage, prompt_hash, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      record.id,
+      record.provider,
+      record.model,
+      record.operation,
+      record.prompt_tokens,
+      record.completion_tokens,
+      record.image_count,
+      record.latency_ms,
+      record.cost_usd,
+      record.tokens_estimated ? 1 : 0,
+      record.success ? 1 : 0,
+      record.error_message || null,
+      record.project_id || null,
+      record.workflow_id || null,
+      record.user_id || null,
+      record.keyword_id || null,
+      record.content_id || null,
+      record.stage,
+      record.prompt_hash || null,
+      record.created_at
+    );
+  }
+
+  /**
+   * Most recent calls first
+   */
+  listUsage(query: AIUsageQuery = {}): AIUsageRecord[] {
+    const { where, params } = this.buildWhere(query);
+    const rows = this.db.prepare(
+      `SELECT * FROM ai_usage ${where} ORDER BY created_at DESC LIMIT ?`
+    ).all(...params, query.limit || 100) as UsageRow[];
+
+    return rows.map(row => ({
+      id: row.id,
+      provider: row.provider,
+      model: row.model,
+      operation: row.operation,
+      prompt_tokens: row.prompt_tokens,
+      completion_tokens: row.completion_tokens,
+      image_count: row.image_count,
+      latency_ms: row.latency_ms,
+      cost_usd: row.cost_usd,
+      tokens_estimated: row.tokens_estimated === 1,
+      success: row.success === 1,
+      error_message: row.error_message || undefined,
+      project_id: row.project_id || undefined,
+      workflow_id: row.workflow_id || undefined,
+      user_id: row.user_id || undefined,
+      keyword_id: row.keyword_id || undefined,
+      content_id: row.content_id || undefined,
+      stage: row.stage,
+      prompt_hash: row.prompt_hash || undefined,
+      created_at: row.created_at
+    }));
+  }
+
+  getTotals(query: AIUsageQuery = {}): AIUsageTotals {
+    const { where, params } = this.buildWhere(query);
+    return this.db.prepare(`SELECT ${TOTALS_COLUMNS} FROM ai_usage ${where}`).get(...params) as AIUsageTotals;
+  }
+
+  getTotalsBy(groupBy: AIUsageGroupBy, query: AIUsageQuery = {}): Array<AIUsageTotals & { key: string | null }> {
+    const { where, params } = this.buildWhere(query);
+    return this.db.prepare(`
+      SELECT ${groupBy} AS key, ${TOTALS_COLUMNS}
+      FROM ai_usage ${where}
+      GROUP BY ${groupBy}
+      ORDER BY cost_usd DESC
+    `).all(...params) as Array<AIUsageTotals & { key: string | null }>;
+  }
+
+  /**
+   * Tie a keyword's calls without content to the content generated for it
+   */
+  assignContent(keywordId: string, contentId: string): number {
+    return this.db.prepare('UPDATE ai_usage SET content_id = ? WHERE keyword_id = ? AND content_id IS NULL')
+      .run(contentId, keywordId).changes;
+  }
+
+  /**
+   * Calls and cost per content, keyword and stage; the basis of per-article invoices
+   */
+  getCostsByAttribution(query: AIUsageQuery = {}): Array<{
+    content_id: string | null;
+    keyword_id: string | null;
+    stage: CostStage;
+    calls: number;
+    cost_usd: number;
+  }> {
+    const { where, params } = this.buildWhere(query);
+    return this.db.prepare(`
+      SELECT content_id, keyword_id, stage, COUNT(*) AS calls, COALESCE(SUM(cost_usd), 0) AS cost_usd
+      FROM ai_usage ${where}
+      GROUP BY content_id, keyword_id, stage
+    `).all(...params) as Array<{
+      content_id: string | null;
+      keyword_id: string | null;
+      stage: CostStage;
+      calls: number;
+      cost_usd: number;
+    }>;
+  }
+
+  /**
+   * Cost and tokens per hour or day bucket, oldest first
+   */
+  getTrend(bucket: 'hour' | 'day', query: AIUsageQuery = {}): Array<{ date: string; cost: number; usage: number }> {
+    const { where, params } = this.buildWhere(query);
+    const length = bucket === 'hour' ? 13 : 10;
+    return this.db.prepare(`
+      SELECT substr(created_at, 1, ${length}) AS date,
+        COALESCE(SUM(cost_usd), 0) AS cost,
+        COALESCE(SUM(prompt_tokens + completion_tokens), 0) AS usage
+      FROM ai_usage ${where}
+      GROUP BY date
+      ORDER BY date
+    `).all(...params) as Array<{ date: string; cost: number; usage: number }>;
+  }
+
+  /**
+   * Calls that repeated an earlier identical prompt, and what they cost
+   */
+  getRepeatedPrompts(query: AIUsageQuery = {}): { calls: number; cost_usd: number } {
+    const { where, params } = this.buildWhere(query);
+    return this.db.prepare(`
+      SELECT COALESCE(SUM(calls - 1), 0) AS calls, COALESCE(SUM(cost_usd * (calls - 1) / calls), 0) AS cost_usd
+      FROM (
+        SELECT COUNT(*) AS calls, SUM(cost_usd) AS cost_usd
+        FROM ai_usage ${where ? `${where} AND` : 'WHERE'} success = 1 AND prompt_hash IS NOT NULL
+        GROUP BY provider, model, prompt_hash
+        HAVING COUNT(*) > 1
+      )
+    `).get(...params) as { calls: number; cost_usd: number };
+  }
+
+  listPrices(): AIPriceEntry[] {
+    return this.db.prepare('SELECT * FROM ai_prices ORDER BY provider, model').all() as AIPriceEntry[];
+  }
+
+  /**
+   * Price for a model: its own entry, else the longest model-name prefix, else the provider's '*' entry
+   */
+  findPrice(provider: string, model: string): AIPriceEntry | null {
+    const candidates = this.db.prepare('SELECT * FROM ai_prices WHERE provider = ?').all(provider) as AIPriceEntry[];
+
+    const exact = candidates.find(entry => entry.model === model);
+    if (exact) return exact;
+
+    const prefix = candidates
+      .filter(entry => entry.model !== '*' && model.startsWith(entry.model))
+      .sort((a, b) => b.model.length - a.model.length)[0];
+
+    return prefix || candidates.find(entry => entry.model === '*') || null;
+  }
+
+  savePrices(entries: AIPriceEntry[]): AIPriceEntry[] {
+    const updatedAt = new Date().toISOString();
+    const upsert = this.db.prepare(`
+      INSERT INTO ai_prices (provider, model, input_per_million, output_per_million, per_image, per_request, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(provider, model) DO UPDATE SET
+        input_per_million = excluded.input_per_million,
+        output_per_million = excluded.output_per_million,
+        per_image = excluded.per_image,
+        per_request = excluded.per_request,
+        updated_at = excluded.updated_at
+    `);
+
+    this.db.transaction(() => {
+      for (const entry of entries) {
+        upsert.run(
+          entry.provider,
+          entry.model,
+          entry.input_per_million,
+          entry.output_per_million,
+          entry.per_image,
+          entry.per_request || 0,
+          updatedAt
+        );
+      }
+    })();
+
+    return this.listPrices();
+  }
+
+  deletePrice(provider: string, model: string): boolean {
+    return this.db.prepare('DELETE FROM ai_prices WHERE provider = ? AND model = ?').run(provider, model).changes > 0;
+  }
+
+  /**
+   * Budget of one scope; the global budget has no scope id
+   */
+  getBudget(scope: BudgetScope, scopeId?: string): StoredBudget | null {
+    const row = this.db.prepare('SELECT * FROM budgets WHERE scope = ? AND scope_id = ?')
+      .get(scope, scopeId || '') as BudgetRow | undefined;
+    return row ? this.toBudget(row) : null;
+  }
+
+  listBudgets(): StoredBudget[] {
+    const rows = this.db.prepare('SELECT * FROM budgets ORDER BY scope, scope_id').all() as BudgetRow[];
+    return rows.map(row => this.toBudget(row));
+  }
+
+  saveBudget(scope: BudgetScope, scopeId: string | undefined, config: BudgetConfig, updatedBy?: string): StoredBudget {
+    const updatedAt = new Date().toISOString();
+
+    this.db.prepare(`
+      INSERT INTO budgets (scope, scope_id, config, updated_by, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(scope, scope_id) DO UPDATE SET
+        config = excluded.config,
+        updated_by = excluded.updated_by,
+        updated_at = excluded.updated_at
+    `).run(scope, scopeId || '', JSON.stringify(config), updatedBy || null, updatedAt);
+
+    return { scope, scope_id: scopeId, config, updated_by: updatedBy, updated_at: updatedAt };
+  }
+
+  deleteBudget(scope: BudgetScope, scopeId?: string): boolean {
+    return this.db.prepare('DELETE FROM budgets WHERE scope = ? AND scope_id = ?').run(scope, scopeId || '').changes > 0;
+  }
+
+  /**
+   * Routing policy of a task ('*' for all tasks), for a project or for every project
+   */
+  getRoutingPolicy(task: AITaskType | '*', projectId?: string): StoredRoutingPolicy | null {
+    const row = this.db.prepare('SELECT * FROM routing_policies WHERE task = ? AND project_id = ?')
+      .get(task, projectId || '') as RoutingPolicyRow | undefined;
+    return row ? this.toRoutingPolicy(row) : null;
+  }
+
+  listRoutingPolicies(): StoredRoutingPolicy[] {
+    const rows = this.db.prepare('SELECT * FROM routing_policies ORDER BY project_id, task').all() as RoutingPolicyRow[];
+    return rows.map(row => this.toRoutingPolicy(row));
+  }
+
+  saveRoutingPolicy(policy: RoutingPolicy, updatedBy?: string): StoredRoutingPolicy {
+    const updatedAt = new Date().toISOString();
+    const { task, project_id, ...rules } = policy;
+
+    this.db.prepare(`
+      INSERT INTO routing_policies (task, project_id, policy, updated_by, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(task, project_id) DO UPDATE SET
+        policy = excluded.policy,
+        updated_by = excluded.updated_by,
+        updated_at = excluded.updated_at
+    `).run(task, project_id || '', JSON.stringify(rules), updatedBy || null, updatedAt);
+
+    return { ...policy, updated_by: updatedBy, updated_at: updatedAt };
+  }
+
+  deleteRoutingPolicy(task: AITaskType | '*', projectId?: string): boolean {
+    return this.db.prepare('DELETE FROM routing_policies WHERE task = ? AND project_id = ?')
+      .run(task, projectId || '').changes > 0;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  // Private methods
+
+  private toBudget(row: BudgetRow): StoredBudget {
+    return {
+      scope: row.scope,
+      scope_id: row.scope_id || undefined,
+      config: JSON.parse(row.config),
+      updated_by: row.updated_by || undefined,
+      updated_at: row.updated_at
+    };
+  }
+
+  private toRoutingPolicy(row: RoutingPolicyRow): StoredRoutingPolicy {
+    return {
+      ...JSON.parse(row.policy),
+      task: row.task,
+      project_id: row.project_id || undefined,
+      updated_by: row.updated_by || undefined,
+      updated_at: row.updated_at
+    };
+  }
+
+  private buildWhere(query: AIUsageQuery): { where: string; params: string[] } {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    const filters: Array<[string, string | undefined]> = [
+      ['project_id = ?', query.project_id],
+      ['workflow_id = ?', query.workflow_id],
+      ['user_id = ?', query.user_id],
+      ['keyword_id = ?', query.keyword_id],
+      ['content_id = ?', query.content_id],
+      ['stage = ?', query.stage],
+      ['provider = ?', query.provider],
+      ['created_at >= ?', query.since],
+      ['created_at < ?', query.until]
+    ];
+    for (const [condition, value] of filters) {
+      if (value !== undefined) {
+        conditions.push(condition);
+        params.push(value);
+      }
+    }
+
+    return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+  }
+
+  private initDatabase(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ai_usage (
+        id TEXT PRIMARY KEY,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        operation TEXT NOT NULL,
+        prompt_tokens INTEGER NOT NULL DEFAULT 0,
+        completion_tokens INTEGER NOT NULL DEFAULT 0,
+        image_count INTEGER NOT NULL DEFAULT 0,
+        latency_ms INTEGER NOT NULL DEFAULT 0,
+        cost_usd REAL NOT NULL DEFAULT 0,
+        tokens_estimated INTEGER NOT NULL DEFAULT 0,
+        success INTEGER NOT NULL DEFAULT 1,
+        error_message TEXT,
+        project_id TEXT,
+        workflow_id TEXT,
+        user_id TEXT,
+        keyword_id TEXT,
+        content_id TEXT,
+        stage TEXT NOT NULL DEFAULT 'text',
+        prompt_hash TEXT,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS budgets (
+        scope TEXT NOT NULL,
+        scope_id TEXT NOT NULL DEFAULT '',
+        config TEXT NOT NULL,
+        updated_by TEXT,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (scope, scope_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS routing_policies (
+        task TEXT NOT NULL,
+        project_id TEXT NOT NULL DEFAULT '',
+        policy TEXT NOT NULL,
+        updated_by TEXT,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (task, project_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS ai_prices (
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        input_per_million REAL NOT NULL DEFAULT 0,
+        output_per_million REAL NOT NULL DEFAULT 0,
+        per_image REAL NOT NULL DEFAULT 0,
+        per_request REAL NOT NULL DEFAULT 0,
+        updated_at TEXT,
+        PRIMARY KEY (provider, model)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_ai_usage_created ON ai_usage(created_at);
+      CREATE INDEX IF NOT EXISTS idx_ai_usage_project ON ai_usage(project_id);
+      CREATE INDEX IF NOT EXISTS idx_ai_usage_workflow ON ai_usage(workflow_id);
+    `);
+
+    // Usage files created before calls were attributed to users, keywords, content and stages
+    const columnNames = (table: string) =>
+      (this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(column => column.name);
+    const usageColumns = columnNames('ai_usage');
+    for (const column of ['user_id', 'keyword_id', 'content_id']) {
+      if (!usageColumns.includes(column)) {
+        this.db.exec(`ALTER TABLE ai_usage ADD COLUMN ${column} TEXT`);
+      }
+    }
+    if (!usageColumns.includes('stage')) {
+      this.db.exec(`ALTER TABLE ai_usage ADD COLUMN stage TEXT NOT NULL DEFAULT 'text'`);
+      this.db.exec(`UPDATE ai_usage SET stage = 'images' WHERE image_count > 0 OR operation = 'generate_images'`);
+    }
+    if (!columnNames('ai_prices').includes('per_request')) {
+      this.db.exec('ALTER TABLE ai_prices ADD COLUMN per_request REAL NOT NULL DEFAULT 0');
+      // Price the SEO and translation APIs metered since then
+      const priced = new Set(this.listPrices().map(entry => entry.provider));
+      this.savePrices(DEFAULT_AI_PRICES.filter(entry => !priced.has(entry.provider)));
+    }
+    // Offline providers added later: price them at $0 rather than warning on every call
+    const pricedProviders = new Set(this.listPrices().map(entry => entry.provider));
+    if (pricedProviders.size > 0) {
+      this.savePrices(DEFAULT_AI_PRICES.filter(entry =>
+        (entry.provider === 'local-llm' || entry.provider === 'fixture') && !pricedProviders.has(entry.provider)));
+    }
+    // GPT-4 Turbo and GPT-4o entries added later: without them those calls were costed at GPT-4 rates
+    const pricedModels = new Set(this.listPrices().map(entry => `${entry.provider}:${entry.model}`));
+    if (pricedModels.has('openai:gpt-4')) {
+      this.savePrices(DEFAULT_AI_PRICES.filter(entry => entry.provider === 'openai' && entry.model.startsWith('gpt-4') &&
+        !pricedModels.has(`openai:${entry.model}`)));
+    }
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_ai_usage_user ON ai_usage(user_id);
+      CREATE INDEX IF NOT EXISTS idx_ai_usage_keyword ON ai_usage(keyword_id);
+      CREATE INDEX IF NOT EXISTS idx_ai_usage_content ON ai_usage(content_id);
+    `);
+
+    const { count } = this.db.prepare('SELECT COUNT(*) AS count FROM ai_prices').get() as { count: number };
+    if (count === 0) {
+      this.savePrices(DEFAULT_AI_PRICES);
+    }
+  }
+}
+
+let defaultStore: AIUsageStore | null = null;
+
+/**
+ * Shared store, opened on first use so importing the service does not touch the disk
+ */
+export function getAIUsageStore(): AIUsageStore {
+  if (!defaultStore) {
+    defaultStore = new AIUsageStore();
+  }
+  return defaultStore;
+}
+
+const usageContext = new AsyncLocalStorage<AIUsageContext>();
+
+/**
+ * Attribute every AI call made inside fn (including awaited work) to a project and workflow
+ */
+export function runWithAIUsageContext<T>(context: AIUsageContext, fn: () => T): T {
+  return usageContext.run({ ...getAIUsageContext(), ...context }, fn);
+}
+
+export function getAIUsageContext(): AIUsageContext {
+  return usageContext.getStore() || {};
+}
@@ -1,11 +1,10 @@
 /**
  * AI Service
- * Real implementations for AI-powered operations using Gemini (default) or OpenAI (fallback)
+ * Real implementations for AI-powered operations; text goes through aiProvider, which routes
+ * each task to a provider by the routing policies (Gemini by default, OpenAI as fallback)
  */
 
-import { createGeminiService } from '@k2w/ai';
 import { aiProvider } from './ai-provider';
-import axios from 'axios';
 
 export interface ContentGenerationOptions {
   keyword: string;
@@ -75,52 +74,32 @@ export interface TranslationResult {
 }
 
 export class AiService {
-  private gemini;
-  private useGemini: boolean;
-  private openaiApiKey: string;
-  private openaiBaseUrl: string;
-
   constructor() {
-    // Prefer Gemini (cheaper and better)
-    this.useGemini = process.env.USE_GEMINI !== 'false'; // Default to true
-    this.openaiApiKey = process.env.OPENAI_API_KEY || '';
-    this.openaiBaseUrl = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1';
-    
-    try {
-      this.gemini = createGeminiService();
-      console.log('✅ Gemini AI initialized');
-    } catch (error) {
-      console.warn('⚠️ Gemini not available, will use OpenAI as fallback');
-      this.useGemini = false;
-    }
-
     console.log('🎨 Image generation: using aiProvider (100% FREE services)');
   }
 
   /**
-   * Generate content using Gemini
+   * Generate content with the provider routed for the content task
    */
   async generateContent(options: ContentGenerationOptions): Promise<ContentResult> {
     try {
       const prompt = options.customPrompt || this.createContentPrompt(options);
       
-      const response = await this.callOpenAI({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert content writer and SEO specialist. Create high-quality, engaging content that ranks well in search engines.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
+      const content = await aiProvider.chat([
+        {
+          role: 'system',
+          content: 'You are an expert content writer and SEO specialist. Create high-quality, engaging content that ranks well in search engines.'
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ], {
+        task: 'content',
+        language: options.language,
         max_tokens: this.getMaxTokensForContentType(options.contentType),
         temperature: 0.7
       });
-
-      const content = response.choices[0].message.content;
       const processedContent = this.postProcessContent(content, options);
 
       return processedContent;
@@ -162,23 +141,20 @@ export class AiService {
       // Generate optimization
       const optimizationPrompt = this.createOptimizationPrompt(options);
       
-      const response = await this.callOpenAI({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an SEO expert. Optimize content while maintaining quality and readability.'
-          },
-          {
-            role: 'user',
-            content: optimizationPrompt
-          }
-        ],
+      const optimizedContent = await aiProvider.chat([
+        {
+          role: 'system',
+          content: 'You are an SEO expert. Optimize content while maintaining quality and readability.'
+        },
+        {
+          role: 'user',
+          content: optimizationPrompt
+        }
+      ], {
+        task: 'content',
         max_tokens: 2000,
         temperature: 0.3
       });
-
-      const optimizedContent = response.choices[0].message.content;
       
       return {
         original_content: options.content,
@@ -201,24 +177,22 @@ export class AiService {
     try {
       const translationPrompt = this.createTranslationPrompt(options);
 
-      const response = await this.callOpenAI({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a professional translator. Provide accurate, natural translations while preserving the original meaning and tone.'
-          },
-          {
-            role: 'user',
-            content: translationPrompt
-          }
-        ],
+      const translatedContent = await aiProvider.chat([
+        {
+          role: 'system',
+          content: 'You are a professional translator. Provide accurate, natural translations while preserving the original meaning and tone.'
+        },
+        {
+          role: 'user',
+          content: translationPrompt
+        }
+      ], {
+        task: 'translation',
+        language: options.target_language,
         max_tokens: Math.ceil(options.content.length * 2), // Account for language expansion
         temperature: 0.1 // Low temperature for accuracy
       });
 
-      const translatedContent = response.choices[0].message.content;
-
       return {
         original_content: options.content,
         translated_content: translatedContent,
@@ -235,33 +209,6 @@ export class AiService {
     }
   }
 
-  /**
-   * Call OpenAI API for text generation
-   */
-  private async callOpenAI(params: Record<string, unknown>): Promise<{
-    choices: Array<{ message: { content: string } }>
-  }> {
-    if (!this.openaiApiKey) {
-      throw new Error('OpenAI API key not configured');
-    }
-
-    try {
-      const response = await axios.post(`${this.openaiBaseUrl}/chat/completions`, params, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.openaiApiKey}`
-        }
-      });
-      return response.data;
-    } catch (error: any) {
-      if (error.response && error.response.data) {
-        const errorData = error.response.data;
-        throw new Error(`OpenAI API error: ${errorData.error?.message || error.response.statusText}`);
-      }
-      throw new Error(`OpenAI API call failed: ${error.message}`);
-    }
-  }
-
   /**
    * Convert size string to aspect ratio
    */
@@ -0,0 +1,181 @@
+import BullMQService, { InMemoryQueueDriver, ActiveWorkflowJob, K2WWorkflowData } from './bullmq.service';
+import type { K2WUnifiedService } from './k2w-unified.service';
+
+jest.mock('./k2w-unified.service', () => ({
+  K2WUnifiedService: jest.fn(),
+  resolveWorkflowProject: jest.fn(async () => ({ id: 'project-1', settings: { seo_threshold: 80 } }))
+}));
+
+jest.mock('./cost-optimization.service', () => ({
+  costOptimizationService: { assertWithinBudget: jest.fn(async () => ({ action: 'allow', percentage: 0 })) }
+}));
+
+const workflowData: K2WWorkflowData = { keywords: ['solar panels'], userId: 'user-1' };
+
+const waitFor = async (condition: () => Promise<boolean>, timeout = 2000): Promise<void> => {
+  const deadline = Date.now() + timeout;
+  while (!(await condition())) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+describe('InMemoryQueueDriver', () => {
+  let driver: InMemoryQueueDriver;
+
+  beforeEach(async () => {
+    driver = new InMemoryQueueDriver();
+    await driver.connect();
+  });
+
+  afterEach(() => driver.close());
+
+  it('runs a job, stores its progress and result', async () => {
+    driver.startWorker(async (job: ActiveWorkflowJob) => {
+      await job.updateProgress(50);
+      return { keywords: job.data.keywords.length };
+    }, 1);
+
+    await driver.add('job-1', workflowData, { attempts: 1, backoffDelay: 10 });
+
+    await waitFor(async () => (await driver.getJob('job-1'))?.status === 'completed');
+    expect(await driver.getJob('job-1')).toMatchObject({ attempts: 1, progress: 50, result: { keywords: 1 } });
+  });
+
+  it('retries with exponential backoff until attempts run out', async () => {
+    const attemptTimes: number[] = [];
+    driver.startWorker(async () => {
+      attemptTimes.push(Date.now());
+      throw new Error('provider down');
+    }, 1);
+
+    await driver.add('job-1', workflowData, { attempts: 3, backoffDelay: 20 });
+
+    await waitFor(async () => (await driver.getJob('job-1'))?.status === 'failed');
+    expect(await driver.getJob('job-1')).toMatchObject({ attempts: 3, error: 'provider down' });
+    // 20ms before the second attempt, 40ms before the third
+    expect(attemptTimes[1] - attemptTimes[0]).toBeGreaterThanOrEqual(15);
+    expect(attemptTimes[2] - attemptTimes[1]).toBeGreaterThanOrEqual(35);
+  });
+
+  it('reports a retrying job as delayed', async () => {
+    driver.startWorker(async () => {
+      throw new Error('provider down');
+    }, 1);
+
+    await driver.add('job-1', workflowData, { attempts: 2, backoffDelay: 1000 });
+
+    await waitFor(async () => (await driver.getJob('job-1'))?.status === 'delayed');
+    expect(await driver.getCounts()).toEqual({ waiting: 0, active: 0, completed: 0, failed: 0, delayed: 1 });
+  });
+
+  it('does not run more jobs at once than its concurrency', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    driver.startWorker(async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      running--;
+    }, 2);
+
+    for (const jobId of ['job-1', 'job-2', 'job-3', 'job-4']) {
+      await driver.add(jobId, workflowData, { attempts: 1, backoffDelay: 10 });
+    }
+
+    await waitFor(async () => (await driver.getCounts()).completed === 4);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('only removes jobs that have not started', async () => {
+    await driver.add('job-1', workflowData, { attempts: 1, backoffDelay: 10 });
+    expect(await driver.remove('job-1')).toBe(true);
+    expect(await driver.getJob('job-1')).toBeNull();
+
+    driver.startWorker(async () => new Promise(() => undefined), 1);
+    await driver.add('job-2', workflowData, { attempts: 1, backoffDelay: 10 });
+    expect((await driver.getJob('job-2'))?.status).toBe('active');
+    expect(await driver.remove('job-2')).toBe(false);
+  });
+
+  it('cleans finished jobs older than the given age', async () => {
+    driver.startWorker(async () => 'done', 1);
+    await driver.add('job-1', workflowData, { attempts: 1, backoffDelay: 10 });
+    await waitFor(async () => (await driver.getJob('job-1'))?.status === 'completed');
+
+    expect(await driver.clean(60_000)).toBe(0);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(await driver.clean(0)).toBe(1);
+  });
+});
+
+describe('BullMQService', () => {
+  let service: BullMQService;
+  let executeWorkflow: jest.Mock;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    executeWorkflow = jest.fn();
+    service = new BullMQService({
+      driver: new InMemoryQueueDriver(),
+      attempts: 2,
+      backoffDelay: 5,
+      unifiedServiceFactory: () => ({ executeWorkflow }) as unknown as K2WUnifiedService
+    });
+  });
+
+  afterEach(async () => {
+    await service.close();
+    jest.restoreAllMocks();
+  });
+
+  it('emits workflow:completed with a summary of the run', async () => {
+    executeWorkflow.mockResolvedValue({
+      stages: { content_generation: { stage: 'content_generation', status: 'completed' } },
+      content_generated: [{ id: 'content-1' }],
+      published_urls: { 'content-1': ['https://example.com/solar-panels'] },
+      analytics: { quality_scores: { 'content-1': 84 }, total_processing_time: 1200 },
+      completed_at: '2026-01-01T00:00:00.000Z'
+    });
+    const completed = new Promise<any>(resolve => service.once('workflow:completed', resolve));
+
+    const jobId = await service.addWorkflow(workflowData);
+
+    expect(await completed).toMatchObject({
+      jobId,
+      userId: 'user-1',
+      result: { pages: 1, publishedUrls: ['https://example.com/solar-panels'], seoScore: 84 }
+    });
+    expect((await service.getJobStatus(jobId))?.progress).toBe(100);
+  });
+
+  it('emits workflow:failed when a stage fails', async () => {
+    executeWorkflow.mockResolvedValue({
+      stages: { content_generation: { stage: 'content_generation', status: 'failed', error_message: 'quota exceeded' } }
+    });
+    const failed = new Promise<any>(resolve => service.once('workflow:failed', resolve));
+
+    await service.addWorkflow(workflowData);
+
+    expect(await failed).toMatchObject({
+      stage: 'content_generation',
+      error: 'Stage content_generation failed: quota exceeded',
+      willRetry: true
+    });
+  });
+
+  it('emits workflow:failed when the workflow throws', async () => {
+    executeWorkflow.mockRejectedValue(new Error('database unavailable'));
+    const failures: any[] = [];
+    service.on('workflow:failed', failure => failures.push(failure));
+
+    const jobId = await service.addWorkflow(workflowData);
+
+    await waitFor(async () => (await service.getJobStatus(jobId))?.status === 'failed');
+    expect(failures).toEqual([
+      expect.objectContaining({ jobId, userId: 'user-1', stage: undefined, error: 'database unavailable', willRetry: true }),
+      expect.objectContaining({ jobId, error: 'database unavailable', willRetry: false })
+    ]);
+  });
+});
@@ -1,18 +1,28 @@
 import { EventEmitter } from 'events';
+import { Queue, Worker, Job } from 'bullmq';
+import IORedis from 'ioredis';
+import { K2WUnifiedService, resolveWorkflowProject } from './k2w-unified.service';
+import { costOptimizationService } from './cost-optimization.service';
+import { publishingTargetRegistry } from './publishing-targets.service';
 
-// Mock Bull MQ interfaces for development
-interface MockJob {
+export type WorkflowJobStatus = 'waiting' | 'delayed' | 'active' | 'completed' | 'failed';
+
+export interface WorkflowJob {
   id: string;
-  data: any;
+  data: K2WWorkflowData;
   progress: number;
-  status: 'waiting' | 'active' | 'completed' | 'failed';
+  status: WorkflowJobStatus;
+  attempts: number;
+  result?: any;
+  error?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
-interface K2WWorkflowData {
+export interface K2WWorkflowData {
   keywords: string[];
   userId: string;
+  projectId?: string;
   targetLanguage?: string;
   siteConfig?: {
     domain: string;
@@ -29,26 +39,364 @@ interface K2WWorkflowData {
   };
 }
 
+export interface QueueCounts {
+  waiting: number;
+  active: number;
+  completed: number;
+  failed: number;
+  delayed: number;
+}
+
+export interface DriverJobOptions {
+  attempts: number;
+  backoffDelay: number;
+}
+
+/**
+ * Handle given to the workflow processor for the job being run
+ */
+export interface ActiveWorkflowJob {
+  id: string;
+  data: K2WWorkflowData;
+  attempt: number;
+  updateProgress(progress: number): Promise<void>;
+}
+
+export type WorkflowProcessor = (job: ActiveWorkflowJob) => Promise<any>;
+
+/**
+ * Queue backend used by BullMQService.
+ * Drivers must agree on job states, retry/backoff and progress semantics so they are interchangeable.
+ */
+export interface WorkflowQueueDriver {
+  readonly name: string;
+  connect(): Promise<void>;
+  add(jobId: string, data: K2WWorkflowData, options: DriverJobOptions): Promise<void>;
+  getJob(jobId: string): Promise<WorkflowJob | null>;
+  getCounts(): Promise<QueueCounts>;
+  remove(jobId: string): Promise<boolean>;
+  clean(olderThanMs: number): Promise<number>;
+  startWorker(processor: WorkflowProcessor, concurrency: number): void;
+  close(): Promise<void>;
+}
+
 interface WorkflowStage {
   name: string;
-  progress: number;
   message: string;
-  completed: boolean;
+}
+
+const QUEUE_NAME = 'k2w-workflows';
+
+// A workflow stage reported failure instead of throwing
+class WorkflowStageError extends Error {
+  constructor(readonly stage: string, message: string) {
+    super(message);
+    this.name = 'WorkflowStageError';
+  }
+}
+
+/**
+ * Redis-backed driver using BullMQ
+ */
+export class RedisQueueDriver implements WorkflowQueueDriver {
+  readonly name = 'redis';
+  private connection: IORedis;
+  private queue: Queue<K2WWorkflowData>;
+  private worker?: Worker<K2WWorkflowData>;
+
+  constructor(redisUrl: string = process.env.REDIS_URL || 'redis://localhost:6379') {
+    // BullMQ workers need blocking commands to wait indefinitely
+    this.connection = new IORedis(redisUrl, { maxRetriesPerRequest: null, lazyConnect: true });
+    this.queue = new Queue<K2WWorkflowData>(QUEUE_NAME, { connection: this.connection });
+  }
+
+  async connect(): Promise<void> {
+    if (this.connection.status === 'wait') {
+      await this.connection.connect();
+    }
+    await this.connection.ping();
+  }
+
+  async add(jobId: string, data: K2WWorkflowData, options: DriverJobOptions): Promise<void> {
+    await this.queue.add('k2w-workflow', data, {
+      jobId,
+      attempts: options.attempts,
+      backoff: { type: 'exponential', delay: options.backoffDelay },
+      removeOnComplete: false,
+      removeOnFail: false
+    });
+  }
+
+  async getJob(jobId: string): Promise<WorkflowJob | null> {
+    const job = await this.queue.getJob(jobId);
+    if (!job) return null;
+
+    const state = await job.getState();
+    return {
+      id: job.id!,
+      data: job.data,
+      progress: typeof job.progress === 'number' ? job.progress : 0,
+      status: this.mapState(state),
+      attempts: job.attemptsMade,
+      result: job.returnvalue ?? undefined,
+      error: job.failedReason || undefined,
+      createdAt: new Date(job.timestamp),
+      updatedAt: new Date(job.finishedOn || job.processedOn || job.timestamp)
+    };
+  }
+
+  async getCounts(): Promise<QueueCounts> {
+    const counts = await this.queue.getJobCounts('waiting', 'active', 'completed', 'failed', 'delayed', 'prioritized');
+    return {
+      waiting: (counts.waiting || 0) + (counts.prioritized || 0),
+      active: counts.active || 0,
+      completed: counts.completed || 0,
+      failed: counts.failed || 0,
+      delayed: counts.delayed || 0
+    };
+  }
+
+  async remove(jobId: string): Promise<boolean> {
+    const job = await this.queue.getJob(jobId);
+    if (!job) return false;
+
+    const state = await job.getState();
+    if (state !== 'waiting' && state !== 'delayed' && state !== 'prioritized') {
+      return false;
+    }
+
+    await job.remove();
+    return true;
+  }
+
+  async clean(olderThanMs: number): Promise<number> {
+    const [completed, failed] = await Promise.all([
+      this.queue.clean(olderThanMs, 0, 'completed'),
+      this.queue.clean(olderThanMs, 0, 'failed')
+    ]);
+    return completed.length + failed.length;
+  }
+
+  startWorker(processor: WorkflowProcessor, concurrency: number): void {
+    this.worker = new Worker<K2WWorkflowData>(
+      QUEUE_NAME,
+      (job: Job<K2WWorkflowData>) => processor({
+        id: job.id!,
+        data: job.data,
+        attempt: job.attemptsMade + 1,
+        updateProgress: (progress: number) => job.updateProgress(progress)
+      }),
+      { connection: this.connection, concurrency }
+    );
+
+    this.worker.on('error', (error) => {
+      console.error('[BULLMQ] Worker error:', error);
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.worker?.close();
+    await this.queue.close();
+    await this.connection.quit();
+  }
+
+  private mapState(state: string): WorkflowJobStatus {
+    switch (state) {
+      case 'active':
+      case 'completed':
+      case 'failed':
+      case 'delayed':
+        return state;
+      default:
+        return 'waiting';
+    }
+  }
+}
+
+/**
+ * In-process driver with the same semantics as the Redis driver.
+ * Used for tests and local development without Redis; jobs do not survive a restart.
+ */
+export class InMemoryQueueDriver implements WorkflowQueueDriver {
+  readonly name = 'memory';
+  private jobs = new Map<string, WorkflowJob & { options: DriverJobOptions; runAt: number }>();
+  private processor?: WorkflowProcessor;
+  private concurrency = 1;
+  private running = 0;
+  private timers = new Set<NodeJS.Timeout>();
+  private closed = false;
+
+  async connect(): Promise<void> {
+    this.closed = false;
+  }
+
+  async add(jobId: string, data: K2WWorkflowData, options: DriverJobOptions): Promise<void> {
+    const now = new Date();
+    this.jobs.set(jobId, {
+      id: jobId,
+      data,
+      progress: 0,
+      status: 'waiting',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+      options,
+      runAt: now.getTime()
+    });
+    this.drain();
+  }
+
+  async getJob(jobId: string): Promise<WorkflowJob | null> {
+    const job = this.jobs.get(jobId);
+    if (!job) return null;
+
+    const { options, runAt, ...snapshot } = job;
+    return { ...snapshot };
+  }
+
+  async getCounts(): Promise<QueueCounts> {
+    const counts: QueueCounts = { waiting: 0, active: 0, completed: 0, failed: 0, delayed: 0 };
+    for (const job of this.jobs.values()) {
+      counts[job.status]++;
+    }
+    return counts;
+  }
+
+  async remove(jobId: string): Promise<boolean> {
+    const job = this.jobs.get(jobId);
+    if (!job || (job.status !== 'waiting' && job.status !== 'delayed')) {
+      return false;
+    }
+
+    this.jobs.delete(jobId);
+    return true;
+  }
+
+  async clean(olderThanMs: number): Promise<number> {
+    const cutoff = Date.now() - olderThanMs;
+    let removed = 0;
+
+    for (const [jobId, job] of this.jobs.entries()) {
+      if ((job.status === 'completed' || job.status === 'failed') && job.updatedAt.getTime() < cutoff) {
+        this.jobs.delete(jobId);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  startWorker(processor: WorkflowProcessor, concurrency: number): void {
+    this.processor = processor;
+    this.concurrency = Math.max(1, concurrency);
+    this.drain();
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.jobs.clear();
+  }
+
+  private drain(): void {
+    if (!this.processor || this.closed) return;
+
+    const now = Date.now();
+    for (const job of this.jobs.values()) {
+      if (this.running >= this.concurrency) return;
+      if (job.status === 'waiting' || (job.status === 'delayed' && job.runAt <= now)) {
+        this.run(job);
+      }
+    }
+  }
+
+  private async run(job: WorkflowJob & { options: DriverJobOptions; runAt: number }): Promise<void> {
+    this.running++;
+    job.status = 'active';
+    job.attempts++;
+    job.updatedAt = new Date();
+
+    try {
+      job.result = await this.processor!({
+        id: job.id,
+        data: job.data,
+        attempt: job.attempts,
+        updateProgress: async (progress: number) => {
+          job.progress = progress;
+          job.updatedAt = new Date();
+        }
+      });
+      job.status = 'completed';
+      job.error = undefined;
+    } catch (error) {
+      job.error = error instanceof Error ? error.message : String(error);
+
+      if (job.attempts < job.options.attempts) {
+        // Same exponential backoff BullMQ applies: delay * 2^(attempt - 1)
+        const delay = job.options.backoffDelay * Math.pow(2, job.attempts - 1);
+        job.status = 'delayed';
+        job.runAt = Date.now() + delay;
+        const timer = setTimeout(() => {
+          this.timers.delete(timer);
+          // Timers may fire a little before runAt; the retry is due either way
+          if (job.status === 'delayed') job.status = 'waiting';
+          this.drain();
+        }, delay);
+        this.timers.add(timer);
+      } else {
+        job.status = 'failed';
+      }
+    } finally {
+      job.updatedAt = new Date();
+      this.running--;
+      this.drain();
+    }
+  }
+}
+
+/**
+ * Pick the queue driver from the environment.
+ * QUEUE_DRIVER=memory forces the in-process driver; otherwise Redis is used when REDIS_URL is set.
+ */
+export function createQueueDriver(): WorkflowQueueDriver {
+  const driver = process.env.QUEUE_DRIVER || (process.env.REDIS_URL ? 'redis' : 'memory');
+  return driver === 'redis' ? new RedisQueueDriver() : new InMemoryQueueDriver();
+}
+
+export interface BullMQServiceOptions {
+  driver?: WorkflowQueueDriver;
+  concurrency?: number;
+  attempts?: number;
+  backoffDelay?: number;
+  unifiedServiceFactory?: () => K2WUnifiedService;
 }
 
 export default class BullMQService extends EventEmitter {
-  private jobs = new Map<string, MockJob>();
+  private driver: WorkflowQueueDriver;
   private isConnected = false;
+  private ready: Promise<void>;
+  private options: Required<Omit<BullMQServiceOptions, 'driver'>>;
 
-  constructor() {
+  constructor(options: BullMQServiceOptions = {}) {
     super();
-    this.connect();
+    this.driver = options.driver || createQueueDriver();
+    this.options = {
+      concurrency: options.concurrency ?? 2,
+      attempts: options.attempts ?? 3,
+      backoffDelay: options.backoffDelay ?? 5000,
+      unifiedServiceFactory: options.unifiedServiceFactory ?? (() => new K2WUnifiedService())
+    };
+    this.ready = this.connect();
   }
 
   private async connect(): Promise<void> {
     try {
-      // Mock connection - in production, this would connect to Redis
-      console.log('[BULLMQ] Connecting to Redis...');
+      console.log(`[BULLMQ] Connecting (${this.driver.name} driver)...`);
+      await this.driver.connect();
+      this.driver.startWorker(job => this.processWorkflow(job), this.options.concurrency);
       this.isConnected = true;
       console.log('[BULLMQ] Connected successfully');
     } catch (error) {
@@ -58,144 +406,191 @@ export default class BullMQService extends EventEmitter {
   }
 
   async addWorkflow(data: K2WWorkflowData): Promise<string> {
+    await this.ready;
+    if (!this.isConnected) {
+      throw new Error(`Workflow queue (${this.driver.name}) is not connected`);
+    }
+
+    await costOptimizationService.assertWithinBudget({ project_id: data.projectId, user_id: data.userId });
+
     const jobId = `workflow_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    const job: MockJob = {
-      id: jobId,
-      data,
-      progress: 0,
-      status: 'waiting',
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
 
-    this.jobs.set(jobId, job);
-    
+    // Publishing target configs hold credentials: the job keeps the targets by id
+    const publishingTargets = data.options?.publishingTargets;
+    const queued: K2WWorkflowData = publishingTargets
+      ? { ...data, options: { ...data.options, publishingTargets: publishingTargetRegistry.register(publishingTargets) } }
+      : data;
+
+    await this.driver.add(jobId, queued, {
+      attempts: this.options.attempts,
+      backoffDelay: this.options.backoffDelay
+    });
+
     console.log(`[BULLMQ] Job ${jobId} added to queue`);
-    
-    // Start processing immediately (in production, this would be handled by worker)
-    this.processWorkflow(jobId);
-    
+
     return jobId;
   }
 
-  async getJobStatus(jobId: string): Promise<MockJob | null> {
-    return this.jobs.get(jobId) || null;
+  async getJobStatus(jobId: string): Promise<WorkflowJob | null> {
+    await this.ready;
+    return this.driver.getJob(jobId);
   }
 
-  private async processWorkflow(jobId: string): Promise<void> {
-    const job = this.jobs.get(jobId);
-    if (!job) return;
-
+  /**
+   * Worker entry point: runs the workflow and reports its failure, whether a stage failed or it threw
+   */
+  private async processWorkflow(job: ActiveWorkflowJob): Promise<any> {
     try {
-      job.status = 'active';
-      job.updatedAt = new Date();
+      return await this.runWorkflow(job);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const attempts = this.options.attempts;
 
-      const stages: WorkflowStage[] = [
-        { name: 'keyword_analysis', progress: 15, message: 'Analyzing keywords...', completed: false },
-        { name: 'content_generation', progress: 35, message: 'Generating content...', completed: false },
-        { name: 'image_generation', progress: 55, message: 'Creating images...', completed: false },
-        { name: 'seo_optimization', progress: 70, message: 'Optimizing for SEO...', completed: false },
-        { name: 'translation', progress: 85, message: 'Translating content...', completed: false },
-        { name: 'publishing', progress: 95, message: 'Publishing website...', completed: false },
-        { name: 'analytics_setup', progress: 100, message: 'Setting up analytics...', completed: false }
-      ];
+      console.error(`[BULLMQ] Job ${job.id} failed (attempt ${job.attempt}/${attempts}):`, message);
 
-      for (const stage of stages) {
-        // Simulate processing time
-        await this.delay(2000 + Math.random() * 3000);
+      this.emit('workflow:failed', {
+        jobId: job.id,
+        userId: job.data.userId,
+        stage: error instanceof WorkflowStageError ? error.stage : undefined,
+        error: message,
+        willRetry: job.attempt < attempts,
+        timestamp: new Date().toISOString()
+      });
+
+      throw error;
+    }
+  }
 
-        job.progress = stage.progress;
-        job.updatedAt = new Date();
-        stage.completed = true;
+  /**
+   * Runs the real K2W pipeline and reports each finished stage
+   */
+  private async runWorkflow(job: ActiveWorkflowJob): Promise<any> {
+    const { data } = job;
+    const options = data.options || {};
+    const domain = data.siteConfig?.domain || 'generated-site.com';
+    const targetLanguage = data.targetLanguage || 'en';
+    const stages = this.getStages(data);
+    let completedStages = 0;
+
+    const project = await resolveWorkflowProject({
+      projectId: data.projectId,
+      userId: data.userId,
+      domain,
+      language: targetLanguage,
+      niche: data.siteConfig?.niche,
+      autoPublish: !!options.publishImmediately,
+      generateImages: !!options.generateImages
+    });
+
+    const result = await this.options.unifiedServiceFactory().executeWorkflow({
+      project,
+      keywords: data.keywords,
+      target_languages: options.enableTranslation ? [targetLanguage] : [],
+      publishing_targets: options.publishingTargets || [],
+      auto_publish: !!options.publishImmediately,
+      quality_threshold: project.settings.seo_threshold,
+      image_generation_enabled: !!options.generateImages,
+      translation_enabled: !!options.enableTranslation,
+      seo_optimization_level: options.enableSEO === false ? 'basic' : 'comprehensive',
+      workflow_id: job.id, // a retried job resumes from its checkpoints
+      user_id: data.userId,
+      on_stage_update: (stageResult) => {
+        completedStages++;
+        const stage = stages.find(s => s.name === stageResult.stage);
+        const progress = Math.min(99, Math.round((completedStages / stages.length) * 100));
+
+        job.updateProgress(progress).catch(error => {
+          console.error(`[BULLMQ] Failed to store progress for ${job.id}:`, error);
+        });
 
-        console.log(`[BULLMQ] Job ${jobId} - ${stage.name}: ${stage.progress}%`);
+        console.log(`[BULLMQ] Job ${job.id} - ${stageResult.stage}: ${stageResult.status}`);
 
-        // Emit progress event
         this.emit('stage:updated', {
-          jobId,
-          userId: job.data.userId,
-          stage: stage.name,
-          progress: stage.progress,
-          message: stage.message,
+          jobId: job.id,
+          userId: data.userId,
+          stage: stageResult.stage,
+          status: stageResult.status,
+          progress,
+          message: stageResult.error_message || stage?.message || stageResult.stage,
           timestamp: new Date().toISOString()
         });
       }
+    });
+
+    const failedStage = Object.values(result.stages).find(stage => stage.status === 'failed');
+    if (failedStage) {
+      throw new WorkflowStageError(
+        failedStage.stage,
+        `Stage ${failedStage.stage} failed: ${failedStage.error_message || 'unknown error'}`
+      );
+    }
 
-      // Job completed
-      job.status = 'completed';
-      job.progress = 100;
-      job.updatedAt = new Date();
+    await job.updateProgress(100);
 
-      console.log(`[BULLMQ] Job ${jobId} completed successfully`);
+    const summary = {
+      websiteUrl: `https://${domain}`,
+      pages: result.content_generated.length,
+      publishedUrls: Object.values(result.published_urls).flat(),
+      seoScore: this.averageScore(result.analytics.quality_scores),
+      processingTime: result.analytics.total_processing_time,
+      publishedAt: result.completed_at || new Date().toISOString()
+    };
 
-      // Emit completion event
-      this.emit('workflow:completed', {
-        jobId,
-        userId: job.data.userId,
-        data: job.data,
-        result: {
-          websiteUrl: `https://${job.data.siteConfig?.domain || 'generated-site.com'}`,
-          pages: job.data.keywords.length,
-          seoScore: 85 + Math.random() * 15,
-          publishedAt: new Date().toISOString()
-        },
-        timestamp: new Date().toISOString()
-      });
+    console.log(`[BULLMQ] Job ${job.id} completed successfully`);
 
-    } catch (error) {
-      console.error(`[BULLMQ] Job ${jobId} failed:`, error);
-      
-      job.status = 'failed';
-      job.updatedAt = new Date();
+    this.emit('workflow:completed', {
+      jobId: job.id,
+      userId: data.userId,
+      data,
+      result: summary,
+      timestamp: new Date().toISOString()
+    });
 
-      // Emit failure event
-      this.emit('workflow:failed', {
-        jobId,
-        userId: job.data.userId,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        timestamp: new Date().toISOString()
-      });
-    }
+    return summary;
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private getStages(data: K2WWorkflowData): WorkflowStage[] {
+    const options = data.options || {};
+    const stages: WorkflowStage[] = [
+      { name: 'keyword_analysis', message: 'Analyzing keywords...' },
+      { name: 'content_generation', message: 'Generating content...' }
+    ];
+
+    if (options.generateImages) stages.push({ name: 'image_generation', message: 'Creating images...' });
+    stages.push({ name: 'seo_optimization', message: 'Optimizing for SEO...' });
+    if (options.enableTranslation) stages.push({ name: 'translation', message: 'Translating content...' });
+    if (options.publishImmediately) stages.push({ name: 'publishing', message: 'Publishing website...' });
+    stages.push({ name: 'analytics', message: 'Setting up analytics...' });
+
+    return stages;
   }
 
-  async getQueueStats(): Promise<{
-    waiting: number;
-    active: number;
-    completed: number;
-    failed: number;
-  }> {
-    const jobs = Array.from(this.jobs.values());
-    
-    return {
-      waiting: jobs.filter(j => j.status === 'waiting').length,
-      active: jobs.filter(j => j.status === 'active').length,
-      completed: jobs.filter(j => j.status === 'completed').length,
-      failed: jobs.filter(j => j.status === 'failed').length
-    };
+  private averageScore(scores: Record<string, number>): number {
+    const values = Object.values(scores);
+    if (values.length === 0) return 0;
+    return Math.round(values.reduce((sum, score) => sum + score, 0) / values.length);
+  }
+
+  async getQueueStats(): Promise<QueueCounts> {
+    await this.ready;
+    return this.driver.getCounts();
   }
 
   async removeJob(jobId: string): Promise<boolean> {
-    const job = this.jobs.get(jobId);
-    if (!job) return false;
+    await this.ready;
 
-    // Only allow removing waiting jobs
-    if (job.status === 'waiting') {
-      this.jobs.delete(jobId);
+    // Only waiting or delayed jobs can be removed
+    const removed = await this.driver.remove(jobId);
+    if (removed) {
       console.log(`[BULLMQ] Job ${jobId} removed from queue`);
-      return true;
     }
-
-    return false;
+    return removed;
   }
 
   async close(): Promise<void> {
     console.log('[BULLMQ] Closing connections...');
-    this.jobs.clear();
+    await this.ready;
+    await this.driver.close();
     this.isConnected = false;
     this.removeAllListeners();
     console.log('[BULLMQ] Closed successfully');
@@ -205,24 +600,21 @@ export default class BullMQService extends EventEmitter {
     return this.isConnected;
   }
 
-  getJobCount(): number {
-    return this.jobs.size;
+  getDriverName(): string {
+    return this.driver.name;
   }
 
-  // Clean up old completed jobs
-  async cleanupOldJobs(olderThanHours: number = 24): Promise<number> {
-    const cutoffTime = new Date(Date.now() - olderThanHours * 60 * 60 * 1000);
-    let removedCount = 0;
+  async getJobCount(): Promise<number> {
+    const counts = await this.getQueueStats();
+    return counts.waiting + counts.active + counts.completed + counts.failed + counts.delayed;
+  }
 
-    for (const [jobId, job] of this.jobs.entries()) {
-      if ((job.status === 'completed' || job.status === 'failed') && 
-          job.updatedAt < cutoffTime) {
-        this.jobs.delete(jobId);
-        removedCount++;
-      }
-    }
+  // Clean up old completed and failed jobs
+  async cleanupOldJobs(olderThanHours: number = 24): Promise<number> {
+    await this.ready;
+    const removedCount = await this.driver.clean(olderThanHours * 60 * 60 * 1000);
 
     console.log(`[BULLMQ] Cleaned up ${removedCount} old jobs`);
     return removedCount;
   }
-}
\ No newline at end of file
+}
@@ -1,6 +1,8 @@
 /**
  * K2W Content Service
- * Business logic layer for AI content generation and management
+ * Business logic layer for AI content generation and management.
+ * Generation streams the draft to the requesting user as content:chunk socket events and can be
+ * cancelled mid-generation (content:cancel from the socket, or cancelGeneration).
  */
 
 import { 
@@ -15,9 +17,12 @@ import {
   keywordRepository, 
   clusterRepository 
 } from '../repositories/k2w-optimized.repository';
-import { aiContentGenerator } from './ai-content-generator.service';
-import { aiProvider } from './ai-provider';
+import { aiContentGenerator, ContentDraft, ContentStreamOptions } from './ai-content-generator.service';
+import { aiProvider, createCancelledError, isCancelledError } from './ai-provider';
+import { runWithAIUsageContext } from './ai-usage.service';
+import { BUDGET_THROTTLED, costOptimizationService } from './cost-optimization.service';
 import { processImagesForStorage } from './image-upload.service';
+import { socketService } from './socket.service';
 
 
 export interface ContentGenerationOptions {
@@ -28,6 +33,7 @@ export interface ContentGenerationOptions {
   includeImages: boolean;
   includeSchema: boolean;
   autoPublish: boolean;
+  userId?: string; // streams the draft to this user as content:chunk events
 }
 
 export interface ContentGenerationResult {
@@ -57,7 +63,21 @@ export interface ContentOptimizationResult {
   optimizedAt: string;
 }
 
+interface ActiveGeneration {
+  controller: AbortController;
+  userId?: string;
+  sequence: number;
+}
+
 export class ContentService {
+  // Generations in progress by keyword, for cancellation
+  private activeGenerations = new Map<string, ActiveGeneration>();
+
+  constructor() {
+    socketService.on('content:cancel-requested', ({ keywordId, userId }) => {
+      this.cancelGeneration(keywordId, userId);
+    });
+  }
 
   /**
    * Generate AI content for a specific keyword
@@ -72,19 +92,53 @@ export class ContentService {
       throw new Error('Keyword not found');
     }
 
+    if (this.activeGenerations.has(keywordId)) {
+      throw new Error('Content generation already in progress for this keyword');
+    }
+
     let cluster: K2WClusterRecord | null = null;
     if (keyword.cluster_id) {
       cluster = await clusterRepository.findById(keyword.cluster_id);
     }
 
-    // Update keyword status to generating
-    await keywordRepository.update(keywordId, { 
-      status: 'generating_text' as any 
-    });
+    // AI calls made for this keyword are billed to its project, then to the content created for it
+    const usageContext = { project_id: keyword.project_id, keyword_id: keyword.id, stage: 'text' as const };
+    await costOptimizationService.assertWithinBudget(usageContext);
+
+    const generation: ActiveGeneration = { controller: new AbortController(), userId: options.userId, sequence: 0 };
+    this.activeGenerations.set(keywordId, generation);
+    const sendChunk = (status: 'streaming' | 'completed' | 'cancelled' | 'failed', draft: ContentDraft, extra: { contentId?: string; error?: string } = {}) => {
+      if (generation.userId) {
+        socketService.sendContentChunk(generation.userId, {
+          keywordId,
+          projectId: keyword.project_id,
+          status,
+          sequence: ++generation.sequence,
+          ...draft,
+          ...extra
+        });
+      }
+    };
+    let lastDraft: ContentDraft = { title: '', body_html: '' };
 
     try {
-      // Generate content using AI (simplified implementation)
-      const generatedContent = await this.generateAIContent(keyword, cluster, options);
+      // Update keyword status to generating
+      await keywordRepository.update(keywordId, { 
+        status: 'generating_text' as any 
+      });
+
+      // Generate content using AI, streaming the draft as sections complete
+      const generatedContent = await runWithAIUsageContext(usageContext, () =>
+        this.generateAIContent(keyword, cluster, options, {
+          signal: generation.controller.signal,
+          onDraft: draft => {
+            lastDraft = draft;
+            sendChunk('streaming', draft);
+          }
+        })
+      );
+      lastDraft = { title: generatedContent.title, body_html: generatedContent.bodyHtml };
+      this.throwIfCancelled(generation);
       
       // Create content record
     const contentData = {
@@ -124,10 +178,12 @@ export class ContentService {
         const imageTopic = generatedContent.title || keyword.keyword;
         const imagePrompt = `${imageTopic}, professional photography, ` +
           `clean composition, bright natural lighting, sharp focus, photorealistic, no text`;
-        const heroImageUrls = await aiProvider.generateImages(imagePrompt, {
-          count: 1,
-          aspectRatio: '16:9',
-        });
+        const heroImageUrls = await runWithAIUsageContext(usageContext, () =>
+          aiProvider.generateImages(imagePrompt, {
+            count: 1,
+            aspectRatio: '16:9',
+          })
+        );
         if (heroImageUrls.length > 0) {
           // Upload to Supabase Storage (converts base64 → public URL for lightweight API)
           const optimizedUrls = await processImagesForStorage([heroImageUrls[0]]);
@@ -140,14 +196,21 @@ export class ContentService {
           console.warn('[ContentService] ⚠️ Image generation returned empty result');
         }
       } catch (imgErr) {
-        imageGenerationStatus = 'failed';
-        console.warn('[ContentService] ⚠️ Image generation failed:', imgErr instanceof Error ? imgErr.message : imgErr);
+        if ((imgErr as { code?: string }).code === BUDGET_THROTTLED) {
+          imageGenerationStatus = 'skipped';
+          console.log(`[ContentService] ℹ️ ${(imgErr as Error).message}`);
+        } else {
+          imageGenerationStatus = 'failed';
+          console.warn('[ContentService] ⚠️ Image generation failed:', imgErr instanceof Error ? imgErr.message : imgErr);
+        }
       }
     } else {
       console.log('[ContentService] ℹ️ Image generation skipped (includeImages=false)');
     }
 
+    this.throwIfCancelled(generation);
     const content = await contentRepository.create(contentData);
+    await costOptimizationService.attributeToContent(keyword.id, content.id);
     console.log(`[ContentService] Content created: id=${content.id}, images=${contentData.images.length}, title="${content.title?.substring(0, 40)}..."`);
 
 
@@ -155,6 +218,7 @@ export class ContentService {
       await keywordRepository.update(keywordId, { 
         status: options.autoPublish ? 'published' as any : 'ready_to_publish' as any
       });
+      sendChunk('completed', lastDraft, { contentId: content.id });
 
       return {
         contentId: content.id,
@@ -172,6 +236,7 @@ export class ContentService {
     } catch (error) {
       // Update keyword status to failed and store the error message in metadata
       const errorMessage = error instanceof Error ? error.message : String(error);
+      sendChunk(isCancelledError(error) ? 'cancelled' : 'failed', lastDraft, { error: errorMessage });
       try {
         const keywordRecord = await keywordRepository.findById(keywordId);
         if (keywordRecord) {
@@ -191,7 +256,30 @@ export class ContentService {
         console.error(`[ContentService] Failed to update keyword status/error in database for ID ${keywordId}:`, dbErr);
       }
       throw error;
+    } finally {
+      this.activeGenerations.delete(keywordId);
+    }
+  }
+
+  /**
+   * Cancel a keyword's content generation in progress. Only the user who started it may cancel it.
+   */
+  cancelGeneration(keywordId: string, userId: string): boolean {
+    const generation = this.activeGenerations.get(keywordId);
+    if (!generation || generation.userId !== userId) {
+      return false;
     }
+
+    console.log(`[ContentService] Cancelling content generation for keyword ${keywordId}`);
+    generation.controller.abort();
+    return true;
+  }
+
+  /**
+   * Whether content is being generated for a keyword
+   */
+  isGenerating(keywordId: string): boolean {
+    return this.activeGenerations.has(keywordId);
   }
 
   /**
@@ -337,10 +425,17 @@ export class ContentService {
 
   // Private helper methods
 
+  private throwIfCancelled(generation: ActiveGeneration): void {
+    if (generation.controller.signal.aborted) {
+      throw createCancelledError();
+    }
+  }
+
   private async generateAIContent(
     keyword: K2WKeywordRecord,
     cluster: K2WClusterRecord | null,
-    options: ContentGenerationOptions
+    options: ContentGenerationOptions,
+    stream?: ContentStreamOptions
   ): Promise<{
     title: string;
     body: string;
@@ -367,7 +462,7 @@ export class ContentService {
         contentType: 'article',
         tone: (options.tone === 'friendly' ? 'casual' : options.tone) || 'professional',
         internalLinks: []
-      });
+      }, stream);
 
       return {
         title: generated.title,
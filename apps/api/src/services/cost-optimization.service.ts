@@ -3,6 +3,23 @@
  * Monitors and optimizes AI token usage, API costs, and resource consumption
  */
 
+import crypto from 'crypto';
+import { AIUsageStore, getAIUsageContext, getAIUsageStore } from './ai-usage.service';
+import { createError, CustomError } from '../middleware/error-handler.middleware';
+import type {
+  AIPriceEntry,
+  AIUsageContext,
+  AIUsageInput,
+  AIUsageQuery,
+  AIUsageRecord,
+  AIUsageTotals,
+  BudgetConfig,
+  BudgetEnforcement,
+  BudgetScope,
+  CostStage,
+  StoredBudget
+} from '../types/cost-optimization.types';
+
 export interface CostMetrics {
   period: string; // ISO date string
   openai_tokens: {
@@ -46,6 +63,8 @@ export interface CostAlert {
   created_at: string;
   resolved: boolean;
   resolved_at?: string;
+  scope?: BudgetScope; // budget the alert belongs to
+  scope_id?: string;
 }
 
 export interface OptimizationRecommendation {
@@ -64,21 +83,6 @@ export interface OptimizationRecommendation {
   implemented_at?: string;
 }
 
-export interface BudgetConfig {
-  monthly_budget_usd: number;
-  daily_budget_usd: number;
-  alert_thresholds: {
-    daily_percentage: number; // Alert when daily spend exceeds X% of daily budget
-    monthly_percentage: number; // Alert when monthly spend exceeds X% of monthly budget
-    token_cost_per_request: number; // Alert when token cost per request exceeds threshold
-  };
-  auto_throttling: {
-    enabled: boolean;
-    throttle_at_percentage: number; // Start throttling at X% of budget
-    stop_at_percentage: number; // Stop processing at X% of budget
-  };
-}
-
 export interface TokenUsagePattern {
   endpoint: string;
   average_prompt_tokens: number;
@@ -90,60 +94,259 @@ export interface TokenUsagePattern {
   optimization_potential: number; // Estimated savings in USD
 }
 
-export class CostOptimizationService {
-  private budgetConfig: BudgetConfig = {
-    monthly_budget_usd: 1000,
-    daily_budget_usd: 33,
-    alert_thresholds: {
-      daily_percentage: 80,
-      monthly_percentage: 90,
-      token_cost_per_request: 0.10
-    },
-    auto_throttling: {
-      enabled: true,
-      throttle_at_percentage: 85,
-      stop_at_percentage: 95
-    }
-  };
+export interface BudgetTarget {
+  scope: BudgetScope;
+  scope_id?: string;
+}
 
+// Global budget used until one is saved; new project and user budgets start from the global one
+const DEFAULT_BUDGET_CONFIG: BudgetConfig = {
+  monthly_budget_usd: 1000,
+  daily_budget_usd: 33,
+  alert_thresholds: {
+    daily_percentage: 80,
+    monthly_percentage: 90,
+    token_cost_per_request: 0.10
+  },
+  auto_throttling: {
+    enabled: true,
+    throttle_at_percentage: 85,
+    stop_at_percentage: 95
+  }
+};
+
+// Cheaper text models used while a budget is throttled
+const THROTTLED_MODELS: Record<string, string> = {
+  gemini: process.env.GEMINI_THROTTLED_MODEL || 'gemini-2.5-flash-lite',
+  openai: process.env.OPENAI_THROTTLED_MODEL || 'gpt-4o-mini'
+};
+
+const ENFORCEMENT_SEVERITY: Record<BudgetEnforcement['action'], number> = { allow: 0, throttle: 1, stop: 2 };
+
+// Error codes returned to API clients when a budget blocks AI work
+export const BUDGET_EXCEEDED = 'BUDGET_EXCEEDED';
+export const BUDGET_THROTTLED = 'BUDGET_THROTTLED';
+
+export const createBudgetError = (code: string, message: string): CustomError => {
+  const error = createError(message, 402);
+  error.code = code;
+  return error;
+};
+
+export const isBudgetError = (error: unknown): error is CustomError => {
+  const code = (error as CustomError | undefined)?.code;
+  return code === BUDGET_EXCEEDED || code === BUDGET_THROTTLED;
+};
+
+export class CostOptimizationService {
   private activeAlerts: Map<string, CostAlert> = new Map();
-  private costHistory: CostMetrics[] = [];
   private tokenCache: Map<string, { tokens: number; timestamp: number }> = new Map();
+  private usageStore?: AIUsageStore;
+
+  constructor(options: { usageStore?: AIUsageStore } = {}) {
+    this.usageStore = options.usageStore;
+  }
 
   /**
-   * Track token usage for OpenAI requests
+   * Track token usage reported by a caller outside the metered AI provider
    */
   async trackTokenUsage(
     endpoint: string,
     promptTokens: number,
     completionTokens: number,
-    model: string = 'gpt-4'
+    model: string = 'gpt-4',
+    provider: string = model.startsWith('gemini') ? 'gemini' : 'openai'
   ): Promise<{ cost: number; shouldThrottle: boolean; shouldStop: boolean }> {
-    const totalTokens = promptTokens + completionTokens;
-    const cost = this.calculateTokenCost(model, promptTokens, completionTokens);
+    const record = await this.recordAIUsage({
+      provider,
+      model,
+      operation: endpoint,
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      image_count: 0,
+      latency_ms: 0,
+      tokens_estimated: false,
+      success: true
+    });
+
+    const enforcement = await this.getBudgetEnforcement();
+    return {
+      cost: record.cost_usd,
+      shouldThrottle: enforcement.action !== 'allow',
+      shouldStop: enforcement.action === 'stop'
+    };
+  }
+
+  /**
+   * Record a single AI call, priced from the price table and attributed to the
+   * project, workflow, user, keyword, content and stage of the current usage context
+   */
+  async recordAIUsage(usage: AIUsageInput): Promise<AIUsageRecord> {
+    const context = getAIUsageContext();
+    const isImageCall = usage.image_count > 0 || usage.operation === 'generate_images';
+    const record: AIUsageRecord = {
+      project_id: context.project_id,
+      workflow_id: context.workflow_id,
+      user_id: context.user_id,
+      keyword_id: context.keyword_id,
+      content_id: context.content_id,
+      ...usage,
+      stage: usage.stage || (isImageCall ? 'images' : context.stage || 'text'),
+      id: crypto.randomUUID(),
+      cost_usd: this.calculateCost(usage),
+      created_at: new Date().toISOString()
+    };
+
+    this.usage.insertUsage(record);
+
+    for (const budget of this.getApplicableBudgets(record)) {
+      await this.checkAndGenerateAlerts(budget, this.getSpend(budget));
+    }
+
+    return record;
+  }
+
+  /**
+   * Run a paid non-LLM API request (SEO data, machine translation) and record it in the ledger.
+   * `units` is the billed volume besides the flat per-request price (e.g. translated characters)
+   * and is priced as prompt tokens. Failed requests are recorded at no cost.
+   */
+  async meterAPIRequest<T>(
+    call: { provider: string; operation: string; stage: CostStage; model?: string; units?: number },
+    request: () => Promise<T>
+  ): Promise<T> {
+    const startedAt = Date.now();
+    const record = (success: boolean, error?: any) => {
+      // Metering must never fail the request it measures
+      this.recordAIUsage({
+        provider: call.provider,
+        model: call.model || '*',
+        operation: call.operation,
+        stage: call.stage,
+        prompt_tokens: success ? call.units || 0 : 0,
+        completion_tokens: 0,
+        image_count: 0,
+        latency_ms: Date.now() - startedAt,
+        tokens_estimated: false,
+        success,
+        error_message: error ? error.message || String(error) : undefined
+      }).catch(recordError => {
+        console.warn('⚠️ Failed to record API usage:', recordError.message || recordError);
+      });
+    };
+
+    try {
+      const result = await request();
+      record(true);
+      return result;
+    } catch (error) {
+      record(false, error);
+      throw error;
+    }
+  }
 
-    // Log usage
-    await this.logTokenUsage(endpoint, promptTokens, completionTokens, cost);
+  /**
+   * Attribute a keyword's calls that predate its content (research, generation) to that content
+   */
+  async attributeToContent(keywordId: string, contentId: string): Promise<number> {
+    return this.usage.assignContent(keywordId, contentId);
+  }
 
-    // Check budget constraints
-    const dailySpend = await this.getDailySpend();
-    const monthlySpend = await this.getMonthlySpend();
+  /**
+   * Recorded AI calls, most recent first, with totals over the same filter
+   */
+  async getUsage(query: AIUsageQuery = {}): Promise<{ records: AIUsageRecord[]; totals: AIUsageTotals }> {
+    return {
+      records: this.usage.listUsage(query),
+      totals: this.usage.getTotals({ ...query, limit: undefined })
+    };
+  }
 
-    const dailyBudgetPercentage = (dailySpend / this.budgetConfig.daily_budget_usd) * 100;
-    const monthlyBudgetPercentage = (monthlySpend / this.budgetConfig.monthly_budget_usd) * 100;
+  async getPriceTable(): Promise<AIPriceEntry[]> {
+    return this.usage.listPrices();
+  }
 
-    const shouldThrottle = 
-      dailyBudgetPercentage >= this.budgetConfig.auto_throttling.throttle_at_percentage ||
-      monthlyBudgetPercentage >= this.budgetConfig.auto_throttling.throttle_at_percentage;
+  /**
+   * Add or change price table entries; applies to calls recorded from now on
+   */
+  async updatePriceTable(entries: AIPriceEntry[]): Promise<AIPriceEntry[]> {
+    for (const entry of entries) {
+      if (!entry.provider || !entry.model) {
+        throw new Error('Invalid price entry: provider and model are required');
+      }
+      for (const field of ['input_per_million', 'output_per_million', 'per_image', 'per_request'] as const) {
+        if (field === 'per_request' && entry[field] === undefined) continue;
+        const value = entry[field];
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+          throw new Error(`Invalid price entry for ${entry.provider}/${entry.model}: ${field} must be a non-negative number`);
+        }
+      }
+    }
+
+    return this.usage.savePrices(entries);
+  }
+
+  async deletePrice(provider: string, model: string): Promise<boolean> {
+    return this.usage.deletePrice(provider, model);
+  }
+
+  /**
+   * What the budgets allow for the current (or given) usage context. The global budget and
+   * the budgets of the context's project and user are checked; the strictest outcome wins
+   */
+  async getBudgetEnforcement(context: AIUsageContext = {}): Promise<BudgetEnforcement> {
+    let enforcement: BudgetEnforcement = { action: 'allow', percentage: 0 };
+    let highestPercentage = 0;
+
+    for (const budget of this.getApplicableBudgets({ ...getAIUsageContext(), ...context })) {
+      const spend = this.getSpend(budget);
+      const { enabled, throttle_at_percentage, stop_at_percentage } = budget.config.auto_throttling;
+
+      for (const period of ['daily', 'monthly'] as const) {
+        const limit = period === 'daily' ? budget.config.daily_budget_usd : budget.config.monthly_budget_usd;
+        const percentage = (spend[period] / limit) * 100;
+        highestPercentage = Math.max(highestPercentage, percentage);
+        if (!enabled) continue;
+
+        const action = percentage >= stop_at_percentage ? 'stop'
+          : percentage >= throttle_at_percentage ? 'throttle'
+          : 'allow';
+        if (action === 'allow') continue;
+
+        const severity = ENFORCEMENT_SEVERITY[action] - ENFORCEMENT_SEVERITY[enforcement.action];
+        if (severity > 0 || (severity === 0 && percentage > enforcement.percentage)) {
+          enforcement = {
+            action,
+            percentage,
+            scope: budget.scope,
+            scope_id: budget.scope_id,
+            period,
+            reason: `${this.describeBudget(budget)} has used ${percentage.toFixed(1)}% of its ${period} limit ` +
+              `($${spend[period].toFixed(2)} of $${limit})`
+          };
+        }
+      }
+    }
 
-    const shouldStop = 
-      dailyBudgetPercentage >= this.budgetConfig.auto_throttling.stop_at_percentage ||
-      monthlyBudgetPercentage >= this.budgetConfig.auto_throttling.stop_at_percentage;
+    return { ...enforcement, percentage: Math.max(enforcement.percentage, highestPercentage) };
+  }
 
-    // Generate alerts if needed
-    await this.checkAndGenerateAlerts(dailySpend, monthlySpend, cost);
+  /**
+   * Refuse new AI work once a budget reached its stop threshold
+   */
+  async assertWithinBudget(context: AIUsageContext = {}): Promise<BudgetEnforcement> {
+    const enforcement = await this.getBudgetEnforcement(context);
+    if (enforcement.action === 'stop') {
+      throw createBudgetError(BUDGET_EXCEEDED, `AI budget exceeded: ${enforcement.reason}`);
+    }
+    return enforcement;
+  }
 
-    return { cost, shouldThrottle, shouldStop };
+  /**
+   * Text model to call under the given enforcement; throttled budgets switch to the cheaper model
+   */
+  getBudgetModel(provider: string, model: string, enforcement: BudgetEnforcement): string {
+    return enforcement.action === 'throttle' ? THROTTLED_MODELS[provider] || model : model;
   }
 
   /**
@@ -363,11 +566,14 @@ export class CostOptimizationService {
   }
 
   /**
-   * Get comprehensive cost analytics
+   * Get comprehensive cost analytics from the recorded AI calls
    */
-  async getCostAnalytics(period: 'daily' | 'weekly' | 'monthly' = 'monthly'): Promise<{
+  async getCostAnalytics(period: 'daily' | 'weekly' | 'monthly' = 'monthly', projectId?: string): Promise<{
     total_cost: number;
     cost_breakdown: Record<string, number>;
+    cost_by_model: Record<string, number>;
+    cost_by_project: Record<string, number>;
+    token_usage: AIUsageTotals;
     usage_trends: Array<{ date: string; cost: number; usage: number }>;
     optimization_opportunities: Array<{
       area: string;
@@ -375,49 +581,102 @@ export class CostOptimizationService {
       effort_required: string;
     }>;
   }> {
-    const currentPeriod = await this.getPeriodMetrics(period);
-
-    const costBreakdown: Record<string, number> = {
-      'OpenAI': currentPeriod.openai_tokens.cost_usd,
-      'Google APIs': currentPeriod.google_apis.cost_usd,
-      'External APIs': currentPeriod.external_apis.cost_usd,
-      'Infrastructure': currentPeriod.infrastructure.cost_usd
-    };
-
-    const usageTrends = [
-      { date: '2026-06-11', cost: 1.20, usage: 12000 },
-      { date: '2026-06-12', cost: 1.50, usage: 15000 },
-      { date: '2026-06-13', cost: 1.10, usage: 11000 },
-      { date: '2026-06-14', cost: 1.80, usage: 18000 },
-      { date: '2026-06-15', cost: 2.10, usage: 21000 }
-    ];
-
-    const optimizationOpportunities = [
-      { area: 'Prompt tokens reduction', potential_savings: 12.42, effort_required: 'medium' },
-      { area: 'Intelligent Redis caching', potential_savings: 25.50, effort_required: 'medium' },
-      { area: 'Batch keyword processing', potential_savings: 20.00, effort_required: 'low' }
-    ];
+    const periodDays = { daily: 1, weekly: 7, monthly: 30 }[period];
+    const query: AIUsageQuery = { ...this.getLastDaysQuery(periodDays), project_id: projectId };
+
+    const totals = this.usage.getTotals(query);
+    const toCostMap = (groups: Array<AIUsageTotals & { key: string | null }>, fallback: string) =>
+      Object.fromEntries(groups.map(group => [group.key || fallback, group.cost_usd]));
+
+    const optimizationOpportunities = (await this.analyzeTokenUsagePatterns(query))
+      .filter(pattern => pattern.efficiency_score < 60 && pattern.optimization_potential > 0)
+      .map(pattern => ({
+        area: `Prompt tokens for ${pattern.endpoint}`,
+        potential_savings: pattern.optimization_potential,
+        effort_required: 'medium'
+      }));
+
+    const caching = await this.identifyCachingOpportunities(query);
+    if (caching.potential_savings > 0) {
+      optimizationOpportunities.push({
+        area: `Cache ${caching.cacheable_requests} repeated prompts`,
+        potential_savings: caching.potential_savings,
+        effort_required: 'medium'
+      });
+    }
 
     return {
-      total_cost: currentPeriod.total_cost_usd,
-      cost_breakdown: costBreakdown,
-      usage_trends: usageTrends,
+      total_cost: totals.cost_usd,
+      cost_breakdown: toCostMap(this.usage.getTotalsBy('provider', query), 'unknown'),
+      cost_by_model: toCostMap(this.usage.getTotalsBy('model', query), 'unknown'),
+      cost_by_project: toCostMap(this.usage.getTotalsBy('project_id', query), 'unattributed'),
+      token_usage: totals,
+      usage_trends: this.usage.getTrend(period === 'daily' ? 'hour' : 'day', query),
       optimization_opportunities: optimizationOpportunities
     };
   }
 
   /**
-   * Set budget configuration
+   * Budget of a scope; null when a project or user has no budget of its own
    */
-  async setBudgetConfig(config: Partial<BudgetConfig>): Promise<void> {
-    this.budgetConfig = { ...this.budgetConfig, ...config };
-    await this.saveBudgetConfig();
+  async getBudgetConfig(target: BudgetTarget = { scope: 'global' }): Promise<StoredBudget | null> {
+    return target.scope === 'global'
+      ? this.getGlobalBudget()
+      : this.usage.getBudget(target.scope, target.scope_id);
+  }
+
+  async listBudgets(): Promise<StoredBudget[]> {
+    this.getGlobalBudget();
+    return this.usage.listBudgets();
   }
 
   /**
-   * Get current budget status
+   * Set budget configuration of the global budget or of a project or user
    */
-  async getBudgetStatus(): Promise<{
+  async setBudgetConfig(
+    config: Partial<BudgetConfig>,
+    target: BudgetTarget = { scope: 'global' },
+    updatedBy?: string
+  ): Promise<StoredBudget> {
+    if (target.scope !== 'global' && !target.scope_id) {
+      throw new Error(`Invalid budget: a ${target.scope} budget needs a ${target.scope} id`);
+    }
+
+    const base = (await this.getBudgetConfig(target) || this.getGlobalBudget()).config;
+    const merged: BudgetConfig = {
+      ...base,
+      ...config,
+      alert_thresholds: { ...base.alert_thresholds, ...config.alert_thresholds },
+      auto_throttling: { ...base.auto_throttling, ...config.auto_throttling }
+    };
+
+    for (const field of ['monthly_budget_usd', 'daily_budget_usd'] as const) {
+      if (typeof merged[field] !== 'number' || !(merged[field] > 0)) {
+        throw new Error(`Invalid budget: ${field} must be a positive number`);
+      }
+    }
+    const { throttle_at_percentage, stop_at_percentage } = merged.auto_throttling;
+    if (!(throttle_at_percentage > 0) || !(stop_at_percentage >= throttle_at_percentage)) {
+      throw new Error('Invalid budget: stop_at_percentage must be at least throttle_at_percentage, both positive');
+    }
+
+    return this.usage.saveBudget(target.scope, target.scope_id, merged, updatedBy);
+  }
+
+  async deleteBudget(target: BudgetTarget): Promise<boolean> {
+    if (target.scope === 'global') {
+      throw new Error('Invalid budget: the global budget cannot be deleted');
+    }
+    return this.usage.deleteBudget(target.scope, target.scope_id);
+  }
+
+  /**
+   * Get current budget status of the global budget or of a project or user
+   */
+  async getBudgetStatus(target: BudgetTarget = { scope: 'global' }): Promise<{
+    scope: BudgetScope;
+    scope_id?: string;
+    config: BudgetConfig;
     daily: { spent: number; budget: number; remaining: number; percentage: number };
     monthly: { spent: number; budget: number; remaining: number; percentage: number };
     throttling_active: boolean;
@@ -431,54 +690,101 @@ export class CostOptimizationService {
       message: string;
       threshold: number;
     }>;
-  }> {
-    const dailySpent = await this.getDailySpend();
-    const monthlySpent = await this.getMonthlySpend();
+  } | null> {
+    const budget = await this.getBudgetConfig(target);
+    if (!budget) {
+      return null;
+    }
+
+    const { config } = budget;
+    const { daily: dailySpent, monthly: monthlySpent } = this.getSpend(budget);
+
+    const dailyPercentage = (dailySpent / config.daily_budget_usd) * 100;
+    const monthlyPercentage = (monthlySpent / config.monthly_budget_usd) * 100;
+    const highestPercentage = config.auto_throttling.enabled ? Math.max(dailyPercentage, monthlyPercentage) : 0;
 
-    const dailyPercentage = (dailySpent / this.budgetConfig.daily_budget_usd) * 100;
-    const monthlyPercentage = (monthlySpent / this.budgetConfig.monthly_budget_usd) * 100;
+    const now = new Date();
+    const daysInMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0)).getUTCDate();
+    const dailyAverage = monthlySpent / now.getUTCDate();
 
     return {
+      scope: budget.scope,
+      scope_id: budget.scope_id,
+      config,
       daily: {
         spent: dailySpent,
-        budget: this.budgetConfig.daily_budget_usd,
-        remaining: this.budgetConfig.daily_budget_usd - dailySpent,
+        budget: config.daily_budget_usd,
+        remaining: config.daily_budget_usd - dailySpent,
         percentage: dailyPercentage
       },
       monthly: {
         spent: monthlySpent,
-        budget: this.budgetConfig.monthly_budget_usd,
-        remaining: this.budgetConfig.monthly_budget_usd - monthlySpent,
+        budget: config.monthly_budget_usd,
+        remaining: config.monthly_budget_usd - monthlySpent,
         percentage: monthlyPercentage
       },
-      throttling_active: Math.max(dailyPercentage, monthlyPercentage) >= this.budgetConfig.auto_throttling.throttle_at_percentage,
-      processing_stopped: Math.max(dailyPercentage, monthlyPercentage) >= this.budgetConfig.auto_throttling.stop_at_percentage,
+      throttling_active: highestPercentage >= config.auto_throttling.throttle_at_percentage,
+      processing_stopped: highestPercentage >= config.auto_throttling.stop_at_percentage,
       
       // Flat fields for frontend compatibility (resolves toFixed type errors)
       current_spend: monthlySpent,
-      monthly_budget: this.budgetConfig.monthly_budget_usd,
-      daily_average: dailySpent,
-      projected_monthly: monthlySpent,
-      alerts: Array.from(this.activeAlerts.values()).filter(alert => !alert.resolved).map(alert => ({
-        type: alert.severity === 'critical' ? 'critical' as const : 'warning' as const,
-        message: alert.description,
-        threshold: alert.threshold_value
-      }))
+      monthly_budget: config.monthly_budget_usd,
+      daily_average: dailyAverage,
+      projected_monthly: dailyAverage * daysInMonth,
+      alerts: Array.from(this.activeAlerts.values())
+        .filter(alert => !alert.resolved && alert.scope === budget.scope && alert.scope_id === budget.scope_id)
+        .map(alert => ({
+          type: alert.severity === 'critical' ? 'critical' as const : 'warning' as const,
+          message: alert.description,
+          threshold: alert.threshold_value
+        }))
     };
   }
 
   /**
    * Helper methods
    */
-  private calculateTokenCost(model: string, promptTokens: number, completionTokens: number): number {
-    const pricing = {
-      'gpt-4': { prompt: 0.00003, completion: 0.00006 },
-      'gpt-4-turbo': { prompt: 0.00001, completion: 0.00003 },
-      'gpt-3.5-turbo': { prompt: 0.0000015, completion: 0.000002 }
-    };
+  private get usage(): AIUsageStore {
+    if (!this.usageStore) {
+      this.usageStore = getAIUsageStore();
+    }
+    return this.usageStore;
+  }
+
+  /**
+   * The global budget, stored with the defaults on first use
+   */
+  private getGlobalBudget(): StoredBudget {
+    return this.usage.getBudget('global') || this.usage.saveBudget('global', undefined, DEFAULT_BUDGET_CONFIG);
+  }
+
+  /**
+   * Budgets that apply to a call: the global one plus those of its project and user, if any
+   */
+  private getApplicableBudgets(context: AIUsageContext): StoredBudget[] {
+    const budgets = [this.getGlobalBudget()];
+    for (const [scope, scopeId] of [['project', context.project_id], ['user', context.user_id]] as const) {
+      const budget = scopeId ? this.usage.getBudget(scope, scopeId) : null;
+      if (budget) budgets.push(budget);
+    }
+    return budgets;
+  }
+
+  private describeBudget(budget: StoredBudget): string {
+    return budget.scope === 'global' ? 'Global budget' : `Budget of ${budget.scope} ${budget.scope_id}`;
+  }
+
+  private calculateCost(usage: AIUsageInput): number {
+    const price = this.usage.findPrice(usage.provider, usage.model);
+    if (!price) {
+      console.warn(`No AI price configured for ${usage.provider}/${usage.model}, recording it at $0`);
+      return 0;
+    }
 
-    const modelPricing = pricing[model as keyof typeof pricing] || pricing['gpt-4'];
-    return (promptTokens * modelPricing.prompt) + (completionTokens * modelPricing.completion);
+    return (usage.prompt_tokens * price.input_per_million / 1_000_000) +
+      (usage.completion_tokens * price.output_per_million / 1_000_000) +
+      (usage.image_count * price.per_image) +
+      (usage.success ? price.per_request || 0 : 0);
   }
 
   private estimateTokenCount(text: string): number {
@@ -509,143 +815,111 @@ export class CostOptimizationService {
     return text.replace(examplePattern, 'examples: [truncated for brevity]');
   }
 
-  private async logTokenUsage(endpoint: string, promptTokens: number, completionTokens: number, cost: number): Promise<void> {
-    // Log to database or analytics service
-    console.log(`Token usage - ${endpoint}: ${promptTokens + completionTokens} tokens, $${cost.toFixed(6)}`);
-  }
+  /**
+   * Spend of today and of this month (UTC) counted against a budget
+   */
+  private getSpend(budget: StoredBudget): { daily: number; monthly: number } {
+    const filter: AIUsageQuery = budget.scope === 'project' ? { project_id: budget.scope_id }
+      : budget.scope === 'user' ? { user_id: budget.scope_id }
+      : {};
 
-  private async getDailySpend(): Promise<number> {
-    try {
-      // Get today's spending from database
-      const today = new Date().toISOString().split('T')[0];
-      
-      // Query usage tracking table for today's total
-      const query = `
-        SELECT COALESCE(SUM(cost_usd), 0) as daily_total
-        FROM api_usage_tracking 
-        WHERE DATE(created_at) = $1
-      `;
-      
-      // This would use your actual database client
-      // const result = await db.query(query, [today]);
-      // return parseFloat(result.rows[0].daily_total) || 0;
-      
-      // For now, return 0 until database is connected
-      console.warn('Database not connected for cost tracking');
-      return 0;
-    } catch (error) {
-      console.error('Error getting daily spend:', error);
-      return 0;
-    }
-  }
+    const startOfDay = new Date();
+    startOfDay.setUTCHours(0, 0, 0, 0);
+    const startOfMonth = new Date(startOfDay);
+    startOfMonth.setUTCDate(1);
 
-  private async getMonthlySpend(): Promise<number> {
-    try {
-      // Get this month's spending from database
-      const firstDayOfMonth = new Date();
-      firstDayOfMonth.setDate(1);
-      const firstDay = firstDayOfMonth.toISOString().split('T')[0];
-      
-      const query = `
-        SELECT COALESCE(SUM(cost_usd), 0) as monthly_total
-        FROM api_usage_tracking 
-        WHERE DATE(created_at) >= $1
-      `;
-      
-      // This would use your actual database client
-      // const result = await db.query(query, [firstDay]);
-      // return parseFloat(result.rows[0].monthly_total) || 0;
-      
-      // For now, return 0 until database is connected
-      console.warn('Database not connected for cost tracking');
-      return 0;
-    } catch (error) {
-      console.error('Error getting monthly spend:', error);
-      return 0;
-    }
+    return {
+      daily: this.usage.getTotals({ ...filter, since: startOfDay.toISOString() }).cost_usd,
+      monthly: this.usage.getTotals({ ...filter, since: startOfMonth.toISOString() }).cost_usd
+    };
   }
 
-  private async checkAndGenerateAlerts(dailySpend: number, monthlySpend: number, requestCost: number): Promise<void> {
-    const dailyPercentage = (dailySpend / this.budgetConfig.daily_budget_usd) * 100;
-    const monthlyPercentage = (monthlySpend / this.budgetConfig.monthly_budget_usd) * 100;
+  private async checkAndGenerateAlerts(budget: StoredBudget, spend: { daily: number; monthly: number }): Promise<void> {
+    const { config } = budget;
+    const scopeKey = budget.scope === 'global' ? 'global' : `${budget.scope}-${budget.scope_id}`;
+    const label = this.describeBudget(budget);
+    const dailyPercentage = (spend.daily / config.daily_budget_usd) * 100;
+    const monthlyPercentage = (spend.monthly / config.monthly_budget_usd) * 100;
 
     // Check daily threshold
-    if (dailyPercentage >= this.budgetConfig.alert_thresholds.daily_percentage) {
-      const alertId = `daily-threshold-${new Date().toISOString().split('T')[0]}`;
+    if (dailyPercentage >= config.alert_thresholds.daily_percentage) {
+      const alertId = `daily-threshold-${scopeKey}-${new Date().toISOString().split('T')[0]}`;
       if (!this.activeAlerts.has(alertId)) {
         this.activeAlerts.set(alertId, {
           id: alertId,
           type: 'threshold_exceeded',
-          severity: dailyPercentage >= 95 ? 'critical' : 'high',
-          title: 'Daily budget threshold exceeded',
-          description: `Daily spending has reached ${dailyPercentage.toFixed(1)}% of budget ($${dailySpend.toFixed(2)} of $${this.budgetConfig.daily_budget_usd})`,
-          current_value: dailySpend,
-          threshold_value: this.budgetConfig.daily_budget_usd * (this.budgetConfig.alert_thresholds.daily_percentage / 100),
+          severity: dailyPercentage >= config.auto_throttling.stop_at_percentage ? 'critical' : 'high',
+          title: `${label}: daily threshold exceeded`,
+          description: `Daily spending has reached ${dailyPercentage.toFixed(1)}% of budget ($${spend.daily.toFixed(2)} of $${config.daily_budget_usd})`,
+          current_value: spend.daily,
+          threshold_value: config.daily_budget_usd * (config.alert_thresholds.daily_percentage / 100),
           suggested_actions: [
             'Review high-cost operations',
             'Enable throttling',
             'Optimize token usage'
           ],
           created_at: new Date().toISOString(),
-          resolved: false
+          resolved: false,
+          scope: budget.scope,
+          scope_id: budget.scope_id
         });
       }
     }
 
     // Check monthly threshold
-    if (monthlyPercentage >= this.budgetConfig.alert_thresholds.monthly_percentage) {
-      const alertId = `monthly-threshold-${new Date().toISOString().slice(0, 7)}`;
+    if (monthlyPercentage >= config.alert_thresholds.monthly_percentage) {
+      const alertId = `monthly-threshold-${scopeKey}-${new Date().toISOString().slice(0, 7)}`;
       if (!this.activeAlerts.has(alertId)) {
         this.activeAlerts.set(alertId, {
           id: alertId,
           type: 'threshold_exceeded',
-          severity: monthlyPercentage >= 95 ? 'critical' : 'high',
-          title: 'Monthly budget threshold exceeded',
-          description: `Monthly spending has reached ${monthlyPercentage.toFixed(1)}% of budget ($${monthlySpend.toFixed(2)} of $${this.budgetConfig.monthly_budget_usd})`,
-          current_value: monthlySpend,
-          threshold_value: this.budgetConfig.monthly_budget_usd * (this.budgetConfig.alert_thresholds.monthly_percentage / 100),
+          severity: monthlyPercentage >= config.auto_throttling.stop_at_percentage ? 'critical' : 'high',
+          title: `${label}: monthly threshold exceeded`,
+          description: `Monthly spending has reached ${monthlyPercentage.toFixed(1)}% of budget ($${spend.monthly.toFixed(2)} of $${config.monthly_budget_usd})`,
+          current_value: spend.monthly,
+          threshold_value: config.monthly_budget_usd * (config.alert_thresholds.monthly_percentage / 100),
           suggested_actions: [
             'Review spending patterns',
             'Implement cost optimization',
             'Consider increasing budget'
           ],
           created_at: new Date().toISOString(),
-          resolved: false
+          resolved: false,
+          scope: budget.scope,
+          scope_id: budget.scope_id
         });
       }
     }
   }
 
-  private async analyzeTokenUsagePatterns(): Promise<TokenUsagePattern[]> {
-    // Analyze historical token usage patterns
-    return [
-      {
-        endpoint: '/api/content/generate',
-        average_prompt_tokens: 1500,
-        average_completion_tokens: 800,
-        average_cost_per_request: 0.069,
-        request_count: 450,
-        total_cost: 31.05,
-        efficiency_score: 45,
-        optimization_potential: 12.42
-      },
-      {
-        endpoint: '/api/keywords/analyze',
-        average_prompt_tokens: 800,
-        average_completion_tokens: 200,
-        average_cost_per_request: 0.030,
-        request_count: 320,
-        total_cost: 9.60,
-        efficiency_score: 78,
-        optimization_potential: 2.11
-      }
-    ];
+  private async analyzeTokenUsagePatterns(query: AIUsageQuery = this.getLastDaysQuery(30)): Promise<TokenUsagePattern[]> {
+    return this.usage.getTotalsBy('operation', query)
+      .filter(group => group.prompt_tokens + group.completion_tokens > 0)
+      .map(group => {
+        const averagePrompt = group.prompt_tokens / group.calls;
+        const averageCompletion = group.completion_tokens / group.calls;
+        const promptShare = group.prompt_tokens / (group.prompt_tokens + group.completion_tokens);
+
+        return {
+          endpoint: group.key || 'unknown',
+          average_prompt_tokens: Math.round(averagePrompt),
+          average_completion_tokens: Math.round(averageCompletion),
+          average_cost_per_request: group.cost_usd / group.calls,
+          request_count: group.calls,
+          total_cost: group.cost_usd,
+          // Calls that spend most tokens on the prompt rather than the answer score low
+          efficiency_score: Math.round(Math.min(1, averageCompletion / Math.max(averagePrompt, 1)) * 100),
+          // Trimming a quarter of the prompt tokens
+          optimization_potential: group.cost_usd * promptShare * 0.25
+        };
+      });
   }
 
-  private async identifyCachingOpportunities(): Promise<{ potential_savings: number; cacheable_requests: number }> {
+  private async identifyCachingOpportunities(query: AIUsageQuery = this.getLastDaysQuery(30)): Promise<{ potential_savings: number; cacheable_requests: number }> {
+    const repeated = this.usage.getRepeatedPrompts(query);
     return {
-      potential_savings: 25.50,
-      cacheable_requests: 180
+      potential_savings: repeated.cost_usd,
+      cacheable_requests: repeated.calls
     };
   }
 
@@ -653,136 +927,8 @@ export class CostOptimizationService {
     return ['keyword-analysis', 'content-optimization', 'seo-scoring'];
   }
 
-  private async getPeriodMetrics(period: 'daily' | 'weekly' | 'monthly'): Promise<CostMetrics> {
-    // Get metrics for the specified period
-    return {
-      period: new Date().toISOString(),
-      openai_tokens: {
-        prompt_tokens: 45000,
-        completion_tokens: 23000,
-        total_tokens: 68000,
-        cost_usd: 4.08
-      },
-      google_apis: {
-        search_console_requests: 1200,
-        analytics_requests: 800,
-        trends_requests: 300,
-        cost_usd: 2.30
-      },
-      external_apis: {
-        ahrefs_requests: 150,
-        semrush_requests: 75,
-        cost_usd: 15.50
-      },
-      infrastructure: {
-        compute_hours: 720,
-        storage_gb: 50,
-        bandwidth_gb: 200,
-        cost_usd: 12.75
-      },
-      total_cost_usd: 34.63,
-      content_pieces_generated: 125,
-      cost_per_content_piece: 0.277,
-      roi_estimate: 2.8
-    };
-  }
-
-  private async getPreviousPeriodMetrics(period: 'daily' | 'weekly' | 'monthly'): Promise<CostMetrics> {
-    // Get metrics for the previous period for comparison
-    return {
-      period: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-      openai_tokens: {
-        prompt_tokens: 42000,
-        completion_tokens: 21000,
-        total_tokens: 63000,
-        cost_usd: 3.78
-      },
-      google_apis: {
-        search_console_requests: 1100,
-        analytics_requests: 750,
-        trends_requests: 280,
-        cost_usd: 2.13
-      },
-      external_apis: {
-        ahrefs_requests: 140,
-        semrush_requests: 70,
-        cost_usd: 14.50
-      },
-      infrastructure: {
-        compute_hours: 680,
-        storage_gb: 45,
-        bandwidth_gb: 180,
-        cost_usd: 11.90
-      },
-      total_cost_usd: 32.31,
-      content_pieces_generated: 118,
-      cost_per_content_piece: 0.274,
-      roi_estimate: 2.6
-    };
-  }
-
-  private async calculateApiEfficiencyScore(): Promise<number> {
-    try {
-      // Calculate overall API efficiency score (0-100) based on actual metrics
-      const currentMetrics = await this.getPeriodMetrics('daily');
-      
-      // Calculate efficiency based on multiple factors
-      const costPerContent = currentMetrics.cost_per_content_piece;
-      const tokenEfficiency = currentMetrics.openai_tokens.completion_tokens / currentMetrics.openai_tokens.prompt_tokens;
-      const errorRate = await this.getApiErrorRate();
-      
-      // Score calculation (higher is better)
-      let score = 100;
-      
-      // Penalize high cost per content piece
-      if (costPerContent > 0.5) score -= 20;
-      else if (costPerContent > 0.3) score -= 10;
-      
-      // Reward good token efficiency (completion vs prompt ratio)
-      if (tokenEfficiency > 0.8) score -= 15; // Too verbose
-      else if (tokenEfficiency < 0.3) score -= 10; // Too brief
-      
-      // Penalize high error rates
-      score -= errorRate * 50; // Each 1% error rate removes 0.5 points
-      
-      // Ensure score is within bounds
-      return Math.max(0, Math.min(100, Math.round(score)));
-      
-    } catch (error) {
-      console.error('Error calculating API efficiency score:', error);
-      return 75; // Default reasonable score
-    }
-  }
-
-  private async getApiErrorRate(): Promise<number> {
-    try {
-      // Get error rate from the last 24 hours
-      const query = `
-        SELECT 
-          COUNT(CASE WHEN error_occurred THEN 1 END)::float / COUNT(*)::float as error_rate
-        FROM api_usage_tracking 
-        WHERE created_at >= NOW() - INTERVAL '24 hours'
-      `;
-      
-      // This would use your actual database client
-      // const result = await db.query(query);
-      // return parseFloat(result.rows[0].error_rate) || 0;
-      
-      return 0.02; // 2% default error rate
-    } catch (error) {
-      console.error('Error getting API error rate:', error);
-      return 0.02;
-    }
-  }
-
-  private projectMonthlyCost(currentPeriod: CostMetrics): number {
-    // Project monthly cost based on current period data
-    return currentPeriod.total_cost_usd * 30; // Assuming daily data
-  }
-
-  private async saveBudgetConfig(): Promise<void> {
-    // Save budget configuration to database
-    console.log('Budget configuration saved');
+  private getLastDaysQuery(days: number): AIUsageQuery {
+    return { since: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() };
   }
 
   private delay(ms: number): Promise<void> {
@@ -0,0 +1,113 @@
+/**
+ * Cost Report Service
+ * Per-project client invoicing: what each published article cost, broken down by stage
+ * (text, images, translation, SEO APIs), from the AI usage ledger
+ */
+
+import { CONTENT_STATUS, K2WContentRecord } from '@k2w/database';
+import { contentRepository } from '../repositories/k2w-optimized.repository';
+import { AIUsageStore, getAIUsageStore } from './ai-usage.service';
+import { k2wUnifiedService } from './k2w-unified.service';
+import type { ArticleCostReport, ArticleCostRow, ArticleStageCosts } from '../types/cost-optimization.types';
+
+export interface ArticleCostReportQuery {
+  project_id: string;
+  since?: string; // ISO timestamp, inclusive
+  until?: string; // ISO timestamp, exclusive
+}
+
+const emptyCosts = (): ArticleStageCosts => ({ text: 0, images: 0, translation: 0, seo: 0, total: 0 });
+
+export class CostReportService {
+  private usageStore?: AIUsageStore;
+
+  constructor(options: { usageStore?: AIUsageStore } = {}) {
+    this.usageStore = options.usageStore;
+  }
+
+  /**
+   * Spend per published article, from the content table and from workflow output
+   */
+  async getArticleCostReport(query: ArticleCostReportQuery): Promise<ArticleCostReport> {
+    const articles = [
+      ...await contentRepository.findByProjectId(query.project_id, CONTENT_STATUS.PUBLISHED),
+      ...k2wUnifiedService.getPublishedContent(query.project_id)
+    ];
+
+    return this.buildArticleCostReport(query, articles);
+  }
+
+  /**
+   * Ledger entries of an article's content are its own; entries recorded against a keyword only
+   * are shared between that keyword's articles. Anything else is reported as unattributed.
+   */
+  buildArticleCostReport(query: ArticleCostReportQuery, articles: K2WContentRecord[]): ArticleCostReport {
+    const rows = new Map<string, ArticleCostRow>();
+    const articlesByKeyword = new Map<string, string[]>();
+    for (const article of articles) {
+      rows.set(article.id, {
+        content_id: article.id,
+        keyword_id: article.keyword_id,
+        title: article.title,
+        url: article.url,
+        published_at: article.published_at,
+        calls: 0,
+        costs: emptyCosts()
+      });
+      articlesByKeyword.set(article.keyword_id, [...(articlesByKeyword.get(article.keyword_id) || []), article.id]);
+    }
+
+    const totals = emptyCosts();
+    let unattributedCost = 0;
+
+    const entries = this.usage.getCostsByAttribution({
+      project_id: query.project_id,
+      since: query.since,
+      until: query.until
+    });
+    for (const entry of entries) {
+      const owners = entry.content_id
+        ? (rows.has(entry.content_id) ? [entry.content_id] : [])
+        : (entry.keyword_id && articlesByKeyword.get(entry.keyword_id)) || [];
+
+      if (owners.length === 0) {
+        unattributedCost += entry.cost_usd;
+        continue;
+      }
+
+      const share = entry.cost_usd / owners.length;
+      for (const owner of owners) {
+        const row = rows.get(owner)!;
+        row.calls += entry.calls;
+        row.costs[entry.stage] += share;
+        row.costs.total += share;
+      }
+      totals[entry.stage] += entry.cost_usd;
+      totals.total += entry.cost_usd;
+    }
+
+    const billed = Array.from(rows.values())
+      .filter(row => row.calls > 0)
+      .sort((a, b) => (a.published_at || '').localeCompare(b.published_at || ''));
+
+    return {
+      project_id: query.project_id,
+      since: query.since,
+      until: query.until,
+      articles: billed,
+      totals,
+      cost_per_article: billed.length > 0 ? totals.total / billed.length : 0,
+      unattributed_cost: unattributedCost,
+      generated_at: new Date().toISOString()
+    };
+  }
+
+  private get usage(): AIUsageStore {
+    if (!this.usageStore) {
+      this.usageStore = getAIUsageStore();
+    }
+    return this.usageStore;
+  }
+}
+
+export const costReportService = new CostReportService();
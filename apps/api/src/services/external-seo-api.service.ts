@@ -3,7 +3,8 @@
  * Integrates with Ahrefs, SEMrush, and Google Trends for keyword research
  */
 
-import axios from 'axios';
+import axios, { AxiosRequestConfig } from 'axios';
+import { costOptimizationService } from './cost-optimization.service';
 
 export interface KeywordMetrics {
   keyword: string;
@@ -50,6 +51,14 @@ export interface GoogleTrendsData {
   geo_distribution: Array<{ location: string; value: number }>;
 }
 
+export interface SerpSnapshot {
+  keyword: string;
+  region: string;
+  urls: string[];
+  source: 'semrush' | 'import';
+  captured_at: string;
+}
+
 export class ExternalSEOAPIService {
   private ahrefsApiKey: string;
   private semrushApiKey: string;
@@ -208,7 +217,7 @@ export class ExternalSEOAPIService {
     }
 
     try {
-      const response = await axios.get('https://apiv2.ahrefs.com', {
+      const response = await this.seoRequest('ahrefs', 'keyword_suggestions', 'https://apiv2.ahrefs.com', {
         params: {
           token: this.ahrefsApiKey,
           target: topic,
@@ -233,7 +242,7 @@ export class ExternalSEOAPIService {
     }
 
     try {
-      const response = await axios.get('https://api.semrush.com', {
+      const response = await this.seoRequest('semrush', 'keyword_suggestions', 'https://api.semrush.com', {
         params: {
           type: 'phrase_related',
           key: this.semrushApiKey,
@@ -264,7 +273,7 @@ export class ExternalSEOAPIService {
     try {
       // Try Ahrefs first
       if (this.ahrefsApiKey) {
-        const ahrefsResponse = await axios.get('https://apiv2.ahrefs.com', {
+        const ahrefsResponse = await this.seoRequest('ahrefs', 'keyword_competitors', 'https://apiv2.ahrefs.com', {
           params: {
             token: this.ahrefsApiKey,
             target: keyword,
@@ -280,7 +289,7 @@ export class ExternalSEOAPIService {
 
       // Try SEMrush if Ahrefs didn't work or as backup
       if (this.semrushApiKey && competitors.length === 0) {
-        const semrushResponse = await axios.get('https://api.semrush.com', {
+        const semrushResponse = await this.seoRequest('semrush', 'keyword_competitors', 'https://api.semrush.com', {
           params: {
             type: 'phrase_organic',
             key: this.semrushApiKey,
@@ -348,6 +357,45 @@ export class ExternalSEOAPIService {
       return this.getEmptyTrendsData(keyword);
     }
   }
+  /**
+   * Fetch the organic top-10 ranking URLs for a keyword (SEMrush phrase_organic)
+   */
+  async getSerpSnapshot(keyword: string, region: string = 'US'): Promise<SerpSnapshot | null> {
+    if (!this.semrushApiKey) {
+      console.warn('SEMrush API key not configured for SERP snapshots');
+      return null;
+    }
+
+    try {
+      const response = await this.seoRequest('semrush', 'serp_snapshot', 'https://api.semrush.com', {
+        params: {
+          type: 'phrase_organic',
+          key: this.semrushApiKey,
+          phrase: keyword,
+          database: region.toLowerCase(),
+          export_columns: 'Ur',
+          export_limit: 10
+        },
+        timeout: 10000
+      });
+
+      const lines = String(response.data).split('\n').slice(1);
+      const urls = lines.map((line: string) => line.split(';')[0].trim()).filter(Boolean);
+
+      return {
+        keyword,
+        region,
+        urls: urls.slice(0, 10),
+        source: 'semrush',
+        captured_at: new Date().toISOString()
+      };
+
+    } catch (error: any) {
+      console.error('SERP snapshot error:', error.message);
+      return null;
+    }
+  }
+
   async getKeywordMetrics(
     keyword: string,
     region: string = 'US',
@@ -380,7 +428,7 @@ export class ExternalSEOAPIService {
     }
 
     try {
-      const response = await axios.get('https://apiv2.ahrefs.com', {
+      const response = await this.seoRequest('ahrefs', 'keyword_data', 'https://apiv2.ahrefs.com', {
         params: {
           token: this.ahrefsApiKey,
           target: keyword,
@@ -420,7 +468,7 @@ export class ExternalSEOAPIService {
     }
 
     try {
-      const response = await axios.get('https://api.semrush.com', {
+      const response = await this.seoRequest('semrush', 'keyword_data', 'https://api.semrush.com', {
         params: {
           type: 'phrase_this',
           key: this.semrushApiKey,
@@ -769,6 +817,13 @@ export class ExternalSEOAPIService {
     return new Date(now.getTime() - hours * 60 * 60 * 1000);
   }
 
+  /**
+   * Paid Ahrefs/SEMrush request, recorded in the cost ledger at the provider's per-request price
+   */
+  private seoRequest(provider: 'ahrefs' | 'semrush', operation: string, url: string, config: AxiosRequestConfig) {
+    return costOptimizationService.meterAPIRequest({ provider, operation, stage: 'seo' }, () => axios.get(url, config));
+  }
+
   private delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
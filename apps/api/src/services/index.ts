@@ -7,12 +7,18 @@ export { ExternalSEOAPIService } from './external-seo-api.service';
 export { AdvancedAnalyticsService } from './advanced-analytics.service';
 export { ABTestingFramework } from './ab-testing.service';
 export { CostOptimizationService } from './cost-optimization.service';
+export { CostReportService } from './cost-report.service';
+export { ProviderHealthService } from './provider-health.service';
+export { AIRoutingService } from './ai-routing.service';
 
 // Initialize and export service instances
 export { externalSEOAPIService } from './external-seo-api.service';
 export { advancedAnalyticsService } from './advanced-analytics.service';
 export { abTestingFramework } from './ab-testing.service';
 export { costOptimizationService } from './cost-optimization.service';
+export { costReportService } from './cost-report.service';
+export { providerHealthService } from './provider-health.service';
+export { aiRoutingService } from './ai-routing.service';
 
 // Type exports
 export type {
@@ -35,5 +41,19 @@ export type {
   CostAlert,
   OptimizationRecommendation,
   BudgetConfig,
-  TokenUsagePattern
-} from '../types/cost-optimization.types';
\ No newline at end of file
+  TokenUsagePattern,
+  AIUsageRecord,
+  AIPriceEntry,
+  ArticleCostReport
+} from '../types/cost-optimization.types';
+
+export type {
+  CircuitState,
+  ProviderHealth
+} from '../types/provider-health.types';
+
+export type {
+  AITaskType,
+  RoutingPolicy,
+  AIRoute
+} from '../types/ai-routing.types';
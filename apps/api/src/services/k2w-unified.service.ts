@@ -4,27 +4,108 @@
  * Implements the full 7-stage K2W pipeline from Section 8
  */
 
-import { K2WContentRecord, K2WKeywordRecord, K2WProjectRecord, CreateK2WContent } from '@k2w/database';
+import { K2WContentRecord, K2WKeywordRecord, K2WProjectRecord, CreateK2WContent, k2wDb } from '@k2w/database';
 import { aiContentGenerator } from './ai-content-generator.service';
 import { aiImageGenerator } from './ai-image-generator.service';
 import { aiTranslationService } from './ai-translation.service';
-import { publishingAutomationService, PublishingTarget } from './publishing-automation.service';
+import { publishingAutomationService } from './publishing-automation.service';
+import { publishingTargetRegistry, PublishingTargetRef, toTargetRef } from './publishing-targets.service';
+import { webhookNotifierService } from './webhook-notifier.service';
+import {
+  ApprovalGateConfig,
+  ApprovalGateConfigSchema,
+  WorkflowDefinition,
+  WorkflowDefinitionExecutor,
+  WorkflowDefinitionStageType,
+  WorkflowNodeState,
+  WorkflowStageHandler,
+  WorkflowStageOutcome,
+  getApprovalRevisionStage,
+  getWorkflowAncestors,
+  getWorkflowDescendants
+} from '@k2w/utils';
+import {
+  WorkflowCheckpointStore,
+  StoredWorkflowOptions,
+  StoredWorkflowDefinition,
+  WorkflowRunStatus,
+  getWorkflowCheckpointStore
+} from './workflow-checkpoint.service';
+import { runWithAIUsageContext } from './ai-usage.service';
+import { costOptimizationService } from './cost-optimization.service';
+
+const APPROVAL_TIMEOUT_CHECK_MS = 60 * 1000;
+
+export const WORKFLOW_STAGES = [
+  'keyword_analysis',
+  'content_generation',
+  'image_generation',
+  'seo_optimization',
+  'translation',
+  'publishing',
+  'analytics'
+] as const;
+
+export type WorkflowStageName = typeof WORKFLOW_STAGES[number];
 
 export interface K2WWorkflowOptions {
   project: K2WProjectRecord;
   keywords: string[];
   target_languages: string[];
-  publishing_targets: PublishingTarget[];
+  publishing_targets: PublishingTargetRef[]; // registered targets, see publishing-targets.service
   auto_publish: boolean;
   quality_threshold: number;
   image_generation_enabled: boolean;
   translation_enabled: boolean;
   seo_optimization_level: 'basic' | 'advanced' | 'comprehensive';
+  workflow_id?: string; // Reusing the id of a checkpointed workflow resumes it
+  user_id?: string; // User the AI spend is attributed to and budgeted against
+  definition?: WorkflowDefinition; // Defaults to the project's stored definition, then the fixed pipeline
+  on_stage_update?: (stage: WorkflowStageResult) => void;
+}
+
+export interface ResumeWorkflowOptions {
+  from_stage?: string; // Stage name (or definition stage id) to re-run even if it completed
+  on_stage_update?: (stage: WorkflowStageResult) => void;
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  decided_by?: string;
+  roles?: string[]; // roles of the deciding user, checked against the gate's approver_roles
+  content_id?: string; // decide a single piece of content; otherwise every undecided one
+  feedback?: string; // added to the generation prompt when rejected content is regenerated
+  automatic?: boolean; // decided by the gate timeout
+}
+
+/**
+ * Data of an approval stage while it waits: which content is under review and the decisions so far
+ */
+export interface ApprovalGateState {
+  gate: ApprovalGateConfig;
+  revision: number;
+  requested_at: string;
+  expires_at?: string;
+  content_ids: string[];
+  decisions: Array<ApprovalDecision & { decided_at: string }>;
+  history: Array<{ revision: number; decisions: Array<ApprovalDecision & { decided_at: string }> }>;
+}
+
+export interface PendingApproval {
+  workflow_id: string;
+  stage_id: string;
+  revision: number;
+  requested_at: string;
+  expires_at?: string;
+  timeout_action: ApprovalGateConfig['timeout_action'];
+  approvers: string[];
+  approver_roles: string[];
 }
 
 export interface WorkflowStageResult {
-  stage: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  stage: string; // stage name, or the stage id for definition workflows
+  type?: WorkflowDefinitionStageType; // definition workflows only
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'skipped' | 'waiting_for_approval';
   progress: number;
   data?: any;
   error_message?: string;
@@ -45,27 +126,83 @@ export interface K2WWorkflowResult {
     failed_keywords: string[];
     quality_scores: Record<string, number>;
   };
+  revision_feedback?: Record<string, string[]>; // editor feedback per keyword_id, one entry per rejection
+  status?: WorkflowRunStatus;
   created_at: string;
   completed_at?: string;
 }
 
+export interface QueuedWorkflowSite {
+  projectId?: string;
+  userId: string;
+  domain: string;
+  language: string;
+  niche?: string;
+  autoPublish: boolean;
+  generateImages: boolean;
+}
+
+/**
+ * Resolve the project for a queued workflow.
+ * Uses the stored project when one is referenced, otherwise builds one from the submitted site config.
+ */
+export async function resolveWorkflowProject(site: QueuedWorkflowSite): Promise<K2WProjectRecord> {
+  if (site.projectId) {
+    const project = await k2wDb.getProjectById(site.projectId);
+    if (project) return project;
+  }
+
+  const now = new Date().toISOString();
+  return {
+    id: site.projectId || 'default',
+    name: site.domain,
+    domain: site.domain,
+    language: site.language,
+    region: 'US',
+    owner_id: site.userId,
+    settings: {
+      auto_publish: site.autoPublish,
+      seo_threshold: 80,
+      image_generation: site.generateImages,
+      content_approval_required: !site.autoPublish,
+      target_audience: site.niche || '',
+      brand_tone: 'professional',
+      internal_links: [],
+      cta_template: ''
+    },
+    created_at: now,
+    updated_at: now
+  };
+}
+
 export class K2WUnifiedService {
-  private workflowId: string;
+  private checkpointStore?: WorkflowCheckpointStore;
+  private activeWorkflows = new Set<string>();
+  private approvalTimeoutMonitor?: NodeJS.Timeout;
 
-  constructor() {
-    this.workflowId = `k2w_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  constructor(options: { checkpointStore?: WorkflowCheckpointStore } = {}) {
+    this.checkpointStore = options.checkpointStore;
   }
 
   /**
    * Execute complete K2W workflow
    * Stages: 1. Keyword Analysis -> 2. Content Generation -> 3. Image Generation 
    *         -> 4. SEO Optimization -> 5. Translation -> 6. Publishing -> 7. Analytics
+   * Every stage result is checkpointed; the workflow stops at the first failed stage.
+   * New workflows are refused once the global, project or user budget is exhausted.
    */
   async executeWorkflow(options: K2WWorkflowOptions): Promise<K2WWorkflowResult> {
-    const startTime = Date.now();
-    
+    if (options.workflow_id && this.checkpoints.getWorkflow(options.workflow_id)) {
+      return this.resumeWorkflow(options.workflow_id, { on_stage_update: options.on_stage_update });
+    }
+
+    await costOptimizationService.assertWithinBudget({ project_id: options.project.id, user_id: options.user_id });
+
+    const { on_stage_update, ...rest } = options;
+    // Checkpoints keep targets by id; their configs are looked up when the publishing stage runs
+    const storedOptions: StoredWorkflowOptions = { ...rest, publishing_targets: options.publishing_targets.map(toTargetRef) };
     const result: K2WWorkflowResult = {
-      workflow_id: this.workflowId,
+      workflow_id: options.workflow_id || `k2w_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       project_id: options.project.id,
       total_keywords: options.keywords.length,
       stages: this.initializeStages(),
@@ -81,59 +218,312 @@ export class K2WUnifiedService {
       created_at: new Date().toISOString()
     };
 
-    try {
-      // Stage 1: Keyword Analysis & Clustering
-      result.stages.keyword_analysis = await this.executeKeywordAnalysis(options.keywords, options.project);
+    const definition = storedOptions.definition || this.checkpoints.getDefinition(options.project.id)?.definition;
+    if (definition) {
+      storedOptions.definition = definition;
+      result.stages = this.initializeDefinitionStages(definition);
+      return this.runDefinition(storedOptions, result, on_stage_update);
+    }
 
-      // Stage 2: Content Generation
-      result.stages.content_generation = await this.executeContentGeneration(
-        options.keywords, 
-        options.project,
-        result.content_generated
-      );
+    return this.runStages(storedOptions, result, this.getEnabledStages(storedOptions), on_stage_update);
+  }
 
-      // Stage 3: Image Generation (if enabled)
-      if (options.image_generation_enabled) {
-        result.stages.image_generation = await this.executeImageGeneration(
-          result.content_generated,
-          options.project
-        );
+  /**
+   * Resume a checkpointed workflow from its first failed or unfinished stage.
+   * With from_stage, that stage is re-run and only unfinished later stages follow it.
+   */
+  async resumeWorkflow(workflowId: string, resumeOptions: ResumeWorkflowOptions = {}): Promise<K2WWorkflowResult> {
+    if (this.activeWorkflows.has(workflowId)) {
+      throw new Error(`Workflow ${workflowId} is already running`);
+    }
+
+    const checkpoint = this.checkpoints.getWorkflow(workflowId);
+    if (!checkpoint) {
+      throw new Error(`Workflow ${workflowId} not found`);
+    }
+
+    const { options, result } = checkpoint;
+    if (options.definition) {
+      return this.resumeDefinition(options, result, resumeOptions);
+    }
+
+    result.stages = { ...this.initializeStages(), ...result.stages };
+    const enabledStages = this.getEnabledStages(options);
+    const fromStage = resumeOptions.from_stage as WorkflowStageName | undefined;
+
+    let stagesToRun: WorkflowStageName[];
+    if (fromStage) {
+      if (!WORKFLOW_STAGES.includes(fromStage)) {
+        throw new Error(`Unknown workflow stage: ${fromStage}`);
       }
 
-      // Stage 4: SEO Optimization
-      result.stages.seo_optimization = await this.executeSEOOptimization(
-        result.content_generated,
-        options.seo_optimization_level
+      const fromIndex = WORKFLOW_STAGES.indexOf(fromStage);
+      const unfinishedPrerequisites = enabledStages.filter(
+        stage => WORKFLOW_STAGES.indexOf(stage) < fromIndex && result.stages[stage].status !== 'completed'
       );
-
-      // Stage 5: Translation (if enabled)
-      if (options.translation_enabled && options.target_languages.length > 0) {
-        result.stages.translation = await this.executeTranslation(
-          result.content_generated,
-          options.target_languages,
-          result.translations
-        );
+      if (unfinishedPrerequisites.length > 0) {
+        throw new Error(`Cannot run ${fromStage} before ${unfinishedPrerequisites.join(', ')} completed`);
       }
 
-      // Stage 6: Publishing (if auto-publish enabled)
-      if (options.auto_publish && options.publishing_targets.length > 0) {
-        result.stages.publishing = await this.executePublishing(
-          result.content_generated,
-          result.translations,
-          options.publishing_targets,
-          result.published_urls
-        );
+      // Re-generating images should replace the existing ones, not skip them
+      if (fromStage === 'image_generation') {
+        result.content_generated.forEach(content => { content.images = []; });
       }
 
-      // Stage 7: Analytics & Feedback Collection
-      result.stages.analytics = await this.executeAnalyticsCollection(result);
+      stagesToRun = [
+        fromStage,
+        ...enabledStages.filter(
+          stage => WORKFLOW_STAGES.indexOf(stage) > fromIndex && result.stages[stage].status !== 'completed'
+        )
+      ];
+    } else {
+      stagesToRun = enabledStages.filter(stage => result.stages[stage].status !== 'completed');
+    }
 
-      // Calculate final analytics
-      result.analytics = this.calculateWorkflowAnalytics(result, startTime);
-      result.completed_at = new Date().toISOString();
+    if (stagesToRun.length === 0) {
+      return result;
+    }
+
+    result.completed_at = undefined;
+    return this.runStages(options, result, stagesToRun, resumeOptions.on_stage_update);
+  }
+
+  /**
+   * Record an editor's decision at an approval gate. The gate resolves once every piece of
+   * content has a decision: all approved continues the workflow, any rejection sends the
+   * rejected content back to content generation with the feedback added to the prompt.
+   * With waitForWorkflow false the continuation runs in the background.
+   */
+  async decideApproval(
+    workflowId: string,
+    stageId: string,
+    decision: ApprovalDecision,
+    waitForWorkflow = true
+  ): Promise<K2WWorkflowResult> {
+    if (this.activeWorkflows.has(workflowId)) {
+      throw new Error(`Workflow ${workflowId} is already running`);
+    }
+
+    const checkpoint = this.checkpoints.getWorkflow(workflowId);
+    if (!checkpoint) {
+      throw new Error(`Workflow ${workflowId} not found`);
+    }
+
+    const { options, result } = checkpoint;
+    const stage = result.stages[stageId];
+    if (stage?.status !== 'waiting_for_approval' || !options.definition) {
+      throw new Error(`Stage ${stageId} is not waiting for approval`);
+    }
 
+    const gateState = stage.data as ApprovalGateState;
+    this.assertCanApprove(stageId, gateState.gate, decision);
+
+    if (decision.content_id && !gateState.content_ids.includes(decision.content_id)) {
+      throw new Error(`Content ${decision.content_id} is not part of approval stage ${stageId}`);
+    }
+
+    const decidedAt = new Date().toISOString();
+    const targets = decision.content_id ? [decision.content_id] : this.getUndecidedContent(gateState);
+    if (gateState.content_ids.length === 0) {
+      gateState.decisions.push({ ...decision, decided_at: decidedAt });
+    }
+    for (const contentId of targets) {
+      gateState.decisions.push({ ...decision, content_id: contentId, decided_at: decidedAt });
+      const content = result.content_generated.find(candidate => candidate.id === contentId);
+      if (content) {
+        content.status = decision.approved ? 'ready_to_publish' : 'draft';
+      }
+    }
+
+    if (this.getUndecidedContent(gateState).length > 0) {
+      this.checkpoints.saveWorkflow(options, result, 'waiting_for_approval');
       return result;
+    }
 
+    const rejections = this.getLatestDecisions(gateState).filter(latest => !latest.approved);
+    const rejected = gateState.content_ids.length === 0 ? !decision.approved : rejections.length > 0;
+
+    if (!rejected) {
+      result.stages[stageId] = { ...stage, status: 'completed', progress: 100, data: gateState, completed_at: decidedAt };
+    } else if (decision.automatic || rejections.length === 0 || gateState.revision >= gateState.gate.max_revisions) {
+      // Timeouts reject without feedback to act on, so they end the workflow instead of regenerating
+      result.stages[stageId] = {
+        ...stage,
+        status: 'failed',
+        progress: 100,
+        data: gateState,
+        error_message: decision.automatic
+          ? 'Rejected automatically: approval timed out'
+          : `Rejected after ${gateState.revision} revision(s)${decision.feedback ? `: ${decision.feedback}` : ''}`,
+        completed_at: decidedAt
+      };
+      this.checkpoints.saveWorkflow(options, result, 'failed');
+      return result;
+    } else {
+      this.sendBackForRevision(options.definition, result, stageId, gateState, rejections);
+    }
+
+    const run = this.runDefinition(options, result);
+    if (waitForWorkflow) {
+      return run;
+    }
+
+    run.catch(error => console.error(`K2W Workflow ${workflowId} failed after approval:`, error));
+    return result;
+  }
+
+  /**
+   * Content waiting at approval gates, for the editorial review queue
+   */
+  listPendingApprovals(projectId?: string): Array<K2WContentRecord & { approval_gate: PendingApproval }> {
+    const pending: Array<K2WContentRecord & { approval_gate: PendingApproval }> = [];
+
+    for (const checkpoint of this.checkpoints.listWorkflows('waiting_for_approval')) {
+      if (projectId && checkpoint.result.project_id !== projectId) continue;
+
+      for (const [stageId, gateState] of this.getWaitingGates(checkpoint.result)) {
+        const undecided = new Set(this.getUndecidedContent(gateState));
+        checkpoint.result.content_generated
+          .filter(content => undecided.has(content.id))
+          .forEach(content => pending.push({
+            ...content,
+            approval_gate: {
+              workflow_id: checkpoint.workflow_id,
+              stage_id: stageId,
+              revision: gateState.revision,
+              requested_at: gateState.requested_at,
+              expires_at: gateState.expires_at,
+              timeout_action: gateState.gate.timeout_action,
+              approvers: gateState.gate.approvers,
+              approver_roles: gateState.gate.approver_roles
+            }
+          }));
+      }
+    }
+
+    return pending;
+  }
+
+  /**
+   * Approval gate a piece of workflow content is waiting at, if any
+   */
+  findApprovalForContent(contentId: string): { workflow_id: string; stage_id: string } | null {
+    for (const checkpoint of this.checkpoints.listWorkflows('waiting_for_approval')) {
+      for (const [stageId, gateState] of this.getWaitingGates(checkpoint.result)) {
+        if (gateState.content_ids.includes(contentId)) {
+          return { workflow_id: checkpoint.workflow_id, stage_id: stageId };
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Apply the timeout_action of every approval gate past its expires_at
+   */
+  async processApprovalTimeouts(): Promise<number> {
+    const now = Date.now();
+    let decided = 0;
+
+    for (const checkpoint of this.checkpoints.listWorkflows('waiting_for_approval')) {
+      if (this.activeWorkflows.has(checkpoint.workflow_id)) continue;
+
+      const expired = this.getWaitingGates(checkpoint.result).find(([, gateState]) =>
+        gateState.expires_at !== undefined &&
+        Date.parse(gateState.expires_at) <= now &&
+        gateState.gate.timeout_action !== 'pause'
+      );
+      if (!expired) continue;
+
+      const [stageId, gateState] = expired;
+      try {
+        await this.decideApproval(checkpoint.workflow_id, stageId, {
+          approved: gateState.gate.timeout_action === 'approve',
+          decided_by: 'system',
+          feedback: `No decision within ${gateState.gate.timeout_minutes} minutes`,
+          automatic: true
+        }, false);
+        decided++;
+      } catch (error) {
+        console.error(`Approval timeout of ${checkpoint.workflow_id}/${stageId} failed:`, error);
+      }
+    }
+
+    return decided;
+  }
+
+  startApprovalTimeoutMonitor(): void {
+    if (this.approvalTimeoutMonitor) return;
+
+    this.approvalTimeoutMonitor = setInterval(() => {
+      this.processApprovalTimeouts().catch(error => console.error('Approval timeout check failed:', error));
+    }, APPROVAL_TIMEOUT_CHECK_MS);
+    this.approvalTimeoutMonitor.unref();
+  }
+
+  stopApprovalTimeoutMonitor(): void {
+    if (this.approvalTimeoutMonitor) {
+      clearInterval(this.approvalTimeoutMonitor);
+      this.approvalTimeoutMonitor = undefined;
+    }
+  }
+
+  /**
+   * Workflow definition a project's new workflows run with, if any
+   */
+  getWorkflowDefinition(projectId: string): StoredWorkflowDefinition | null {
+    return this.checkpoints.getDefinition(projectId);
+  }
+
+  saveWorkflowDefinition(projectId: string, definition: WorkflowDefinition, updatedBy?: string): StoredWorkflowDefinition {
+    return this.checkpoints.saveDefinition(projectId, definition, updatedBy);
+  }
+
+  deleteWorkflowDefinition(projectId: string): boolean {
+    return this.checkpoints.deleteDefinition(projectId);
+  }
+
+  /**
+   * Whether a workflow is currently executing in this process
+   */
+  isWorkflowRunning(workflowId: string): boolean {
+    return this.activeWorkflows.has(workflowId);
+  }
+
+  /**
+   * Run the given stages in order, checkpointing each one
+   */
+  private async runStages(
+    options: StoredWorkflowOptions,
+    result: K2WWorkflowResult,
+    stagesToRun: WorkflowStageName[],
+    onStageUpdate?: (stage: WorkflowStageResult) => void
+  ): Promise<K2WWorkflowResult> {
+    const startTime = Date.now();
+    const workflowId = result.workflow_id;
+
+    this.activeWorkflows.add(workflowId);
+    this.checkpoints.saveWorkflow(options, result, 'running');
+
+    try {
+      const usageContext = { project_id: result.project_id, workflow_id: workflowId, user_id: options.user_id };
+      await runWithAIUsageContext(usageContext, async () => {
+        for (const stage of stagesToRun) {
+          const previous = result.stages[stage];
+          result.stages[stage] = { stage, status: 'processing', progress: 0 };
+          this.checkpoints.saveStage(workflowId, result.stages[stage]);
+
+          result.stages[stage] = await this.executeStage(stage, options, result, previous);
+
+          // Persist the stage together with the content it produced before moving on
+          this.checkpoints.saveWorkflow(options, result, 'running');
+          this.notifyStageUpdate(onStageUpdate, result.stages[stage]);
+
+          if (result.stages[stage].status === 'failed') {
+            break;
+          }
+        }
+      });
     } catch (error: any) {
       console.error('K2W Workflow failed:', error);
       
@@ -143,10 +533,356 @@ export class K2WUnifiedService {
         result.stages[currentStage].status = 'failed';
         result.stages[currentStage].error_message = error.message;
       }
+    } finally {
+      this.activeWorkflows.delete(workflowId);
+    }
+
+    // Calculate final analytics
+    result.analytics = this.calculateWorkflowAnalytics(result, startTime);
+
+    const failed = Object.values(result.stages).some(stage => stage.status === 'failed');
+    if (!failed) {
+      result.completed_at = new Date().toISOString();
+    }
+
+    this.checkpoints.saveWorkflow(options, result, failed ? 'failed' : 'completed');
+
+    return result;
+  }
+
+  /**
+   * Resume a definition workflow; from_stage resets that stage and everything depending on it
+   */
+  private async resumeDefinition(
+    options: StoredWorkflowOptions,
+    result: K2WWorkflowResult,
+    resumeOptions: ResumeWorkflowOptions
+  ): Promise<K2WWorkflowResult> {
+    const definition = options.definition!;
+    const fromStage = resumeOptions.from_stage;
+
+    if (fromStage) {
+      const stage = definition.stages.find(candidate => candidate.id === fromStage);
+      if (!stage) {
+        throw new Error(`Unknown workflow stage: ${fromStage}`);
+      }
+
+      const unfinishedPrerequisites = getWorkflowAncestors(definition, fromStage).filter(
+        id => !['completed', 'skipped'].includes(result.stages[id]?.status)
+      );
+      if (unfinishedPrerequisites.length > 0) {
+        throw new Error(`Cannot run ${fromStage} before ${unfinishedPrerequisites.join(', ')} completed`);
+      }
 
-      result.analytics = this.calculateWorkflowAnalytics(result, startTime);
+      if (stage.type === 'image_generation') {
+        result.content_generated.forEach(content => { content.images = []; });
+      }
+
+      [fromStage, ...getWorkflowDescendants(definition, fromStage)].forEach(id => {
+        result.stages[id] = { stage: id, type: result.stages[id]?.type, status: 'pending', progress: 0 };
+      });
+    } else if (Object.values(result.stages).every(stage => stage.status === 'completed' || stage.status === 'skipped')) {
       return result;
     }
+
+    result.completed_at = undefined;
+    return this.runDefinition(options, result, resumeOptions.on_stage_update);
+  }
+
+  /**
+   * Run a workflow definition, checkpointing every stage transition
+   */
+  private async runDefinition(
+    options: StoredWorkflowOptions,
+    result: K2WWorkflowResult,
+    onStageUpdate?: (stage: WorkflowStageResult) => void
+  ): Promise<K2WWorkflowResult> {
+    const startTime = Date.now();
+    const workflowId = result.workflow_id;
+    const definition = options.definition!;
+
+    const previousStates: Record<string, WorkflowNodeState> = {};
+    for (const stage of definition.stages) {
+      const stageResult = result.stages[stage.id];
+      if (stageResult) {
+        previousStates[stage.id] = {
+          stage_id: stage.id,
+          type: stage.type,
+          status: stageResult.status === 'processing' ? 'pending' : stageResult.status,
+          output: stageResult.data,
+          error: stageResult.error_message,
+          completed_at: stageResult.completed_at
+        };
+      }
+    }
+
+    const executor = new WorkflowDefinitionExecutor<K2WWorkflowResult>(definition, {
+      handlers: this.getDefinitionHandlers(options),
+      conditionScope: workflow => ({ options, project: options.project, result: workflow }),
+      onStageUpdate: state => {
+        result.stages[state.stage_id] = {
+          stage: state.stage_id,
+          type: state.type,
+          status: state.status === 'running' ? 'processing' : state.status,
+          progress: state.status === 'completed' || state.status === 'skipped' ? 100 : 0,
+          data: state.output,
+          error_message: state.error,
+          completed_at: state.completed_at
+        };
+        this.checkpoints.saveWorkflow(options, result, 'running');
+        if (state.status !== 'running') {
+          this.notifyStageUpdate(onStageUpdate, result.stages[state.stage_id]);
+        }
+      }
+    });
+
+    this.activeWorkflows.add(workflowId);
+    this.checkpoints.saveWorkflow(options, result, 'running');
+
+    let status: 'completed' | 'failed' | 'waiting_for_approval' = 'failed';
+    try {
+      const run = await runWithAIUsageContext(
+        { project_id: result.project_id, workflow_id: workflowId, user_id: options.user_id },
+        () => executor.run(result, previousStates)
+      );
+      status = run.status;
+    } catch (error: any) {
+      console.error('K2W Workflow failed:', error);
+    } finally {
+      this.activeWorkflows.delete(workflowId);
+    }
+
+    result.analytics = this.calculateWorkflowAnalytics(result, startTime);
+    if (status === 'completed') {
+      result.completed_at = new Date().toISOString();
+    }
+
+    this.checkpoints.saveWorkflow(options, result, status);
+
+    return result;
+  }
+
+  /**
+   * Definition stage handlers: each runs the matching built-in stage, with the stage's
+   * config overriding the workflow options (seo level, languages, publishing platforms)
+   */
+  private getDefinitionHandlers(
+    options: StoredWorkflowOptions
+  ): Partial<Record<WorkflowDefinitionStageType, WorkflowStageHandler<K2WWorkflowResult>>> {
+    const toOutcome = (stageResult: WorkflowStageResult): WorkflowStageOutcome => ({
+      status: stageResult.status === 'completed' ? 'completed' : 'failed',
+      output: stageResult.data,
+      error: stageResult.error_message
+    });
+
+    return {
+      keyword_analysis: async () => toOutcome(await this.executeKeywordAnalysis(options.keywords, options.project)),
+      content_generation: async (_stage, result) => toOutcome(await this.executeContentGeneration(
+        options.keywords,
+        options.project,
+        result.content_generated,
+        result.revision_feedback
+      )),
+      image_generation: async (_stage, result) =>
+        toOutcome(await this.executeImageGeneration(result.content_generated, options.project)),
+      seo_optimization: async (stage, result) => toOutcome(await this.executeSEOOptimization(
+        result.content_generated,
+        typeof stage.config.level === 'string' ? stage.config.level : options.seo_optimization_level
+      )),
+      translation: async (stage, result) => toOutcome(await this.executeTranslation(
+        result.content_generated,
+        Array.isArray(stage.config.target_languages) ? stage.config.target_languages : options.target_languages,
+        result.translations
+      )),
+      publishing: async (stage, result, previous) => {
+        const platforms = Array.isArray(stage.config.platforms) ? stage.config.platforms : null;
+        const targets = platforms
+          ? options.publishing_targets.filter(target => platforms.includes(target.platform) || platforms.includes(target.id))
+          : options.publishing_targets;
+        if (targets.length === 0) {
+          return { status: 'failed', error: `No publishing targets match ${platforms?.join(', ')}` };
+        }
+
+        const alreadyPublished = (previous?.output as { published_content_ids?: string[] } | undefined)?.published_content_ids || [];
+        return toOutcome(await this.executePublishing(
+          result.content_generated,
+          result.translations,
+          targets,
+          result.published_urls,
+          alreadyPublished
+        ));
+      },
+      analytics: async (_stage, result) => toOutcome(await this.executeAnalyticsCollection(result)),
+      approval: async (stage, result, previous) => {
+        // Pause here until decideApproval (or the gate timeout) resolves the gate
+        const gate = ApprovalGateConfigSchema.parse(stage.config);
+        const earlier = previous?.output as Partial<ApprovalGateState> | undefined;
+        const history = earlier?.history || [];
+        const requestedAt = new Date();
+
+        // Content approved in an earlier round is not reviewed again after a revision
+        const approvedEarlier = new Set(history.flatMap(round =>
+          round.decisions.filter(decision => decision.approved && decision.content_id).map(decision => decision.content_id)
+        ));
+        const toReview = result.content_generated.filter(content => !approvedEarlier.has(content.id));
+        toReview.forEach(content => { content.status = 'reviewing'; });
+
+        const gateState: ApprovalGateState = {
+          gate,
+          revision: earlier?.revision || 0,
+          requested_at: requestedAt.toISOString(),
+          expires_at: gate.timeout_minutes
+            ? new Date(requestedAt.getTime() + gate.timeout_minutes * 60 * 1000).toISOString()
+            : undefined,
+          content_ids: toReview.map(content => content.id),
+          decisions: [],
+          history
+        };
+
+        toReview.forEach(content => {
+          webhookNotifierService.notifySlack('review_requested', content)
+            .catch(error => console.warn('Review request notification failed:', error));
+        });
+
+        return { status: 'waiting_for_approval', output: gateState };
+      }
+    };
+  }
+
+  private assertCanApprove(stageId: string, gate: ApprovalGateConfig, decision: ApprovalDecision): void {
+    if (decision.automatic) return;
+    if (!decision.decided_by) {
+      throw new Error(`Not allowed to decide approval stage ${stageId} without a signed-in user`);
+    }
+    if (gate.approvers.length === 0 && gate.approver_roles.length === 0) return;
+
+    const isApprover = !!decision.decided_by && gate.approvers.includes(decision.decided_by);
+    const hasRole = (decision.roles || []).some(role => gate.approver_roles.includes(role));
+    if (!isApprover && !hasRole) {
+      const required = gate.approver_roles.length > 0 ? ` (requires role: ${gate.approver_roles.join(' or ')})` : '';
+      throw new Error(`Not allowed to decide approval stage ${stageId}${required}`);
+    }
+  }
+
+  /**
+   * Drop the rejected content, remember the feedback and reset everything from the
+   * revision stage through the gate so the content is regenerated and reviewed again
+   */
+  private sendBackForRevision(
+    definition: WorkflowDefinition,
+    result: K2WWorkflowResult,
+    stageId: string,
+    gateState: ApprovalGateState,
+    rejections: Array<ApprovalDecision & { decided_at: string }>
+  ): void {
+    const revisionStage = getApprovalRevisionStage(definition, stageId)!;
+    const rejectedIds = new Set(rejections.map(rejection => rejection.content_id));
+    const feedback = result.revision_feedback || {};
+
+    for (const content of result.content_generated.filter(candidate => rejectedIds.has(candidate.id))) {
+      const rejection = rejections.find(candidate => candidate.content_id === content.id)!;
+      feedback[content.keyword_id] = [...(feedback[content.keyword_id] || []), rejection.feedback || 'Rejected by the editor'];
+    }
+
+    result.revision_feedback = feedback;
+    result.content_generated = result.content_generated.filter(content => !rejectedIds.has(content.id));
+
+    [revisionStage, ...getWorkflowDescendants(definition, revisionStage)].forEach(id => {
+      result.stages[id] = {
+        stage: id,
+        type: result.stages[id]?.type,
+        status: 'pending',
+        progress: 0,
+        data: id === stageId
+          ? {
+            revision: gateState.revision + 1,
+            history: [...gateState.history, { revision: gateState.revision, decisions: gateState.decisions }]
+          }
+          : undefined
+      };
+    });
+  }
+
+  private getWaitingGates(result: K2WWorkflowResult): Array<[string, ApprovalGateState]> {
+    return Object.entries(result.stages)
+      .filter(([, stage]) => stage.status === 'waiting_for_approval' && stage.data?.gate)
+      .map(([stageId, stage]) => [stageId, stage.data as ApprovalGateState]);
+  }
+
+  private getLatestDecisions(gateState: ApprovalGateState): Array<ApprovalDecision & { decided_at: string }> {
+    const latest = new Map<string, ApprovalDecision & { decided_at: string }>();
+    gateState.decisions.forEach(decision => {
+      if (decision.content_id) latest.set(decision.content_id, decision);
+    });
+    return [...latest.values()];
+  }
+
+  private getUndecidedContent(gateState: ApprovalGateState): string[] {
+    const decided = new Set(gateState.decisions.map(decision => decision.content_id));
+    return gateState.content_ids.filter(contentId => !decided.has(contentId));
+  }
+
+  private initializeDefinitionStages(definition: WorkflowDefinition): Record<string, WorkflowStageResult> {
+    const stageResults: Record<string, WorkflowStageResult> = {};
+    definition.stages.forEach(stage => {
+      stageResults[stage.id] = { stage: stage.id, type: stage.type, status: 'pending', progress: 0 };
+    });
+    return stageResults;
+  }
+
+  private async executeStage(
+    stage: WorkflowStageName,
+    options: StoredWorkflowOptions,
+    result: K2WWorkflowResult,
+    previous?: WorkflowStageResult
+  ): Promise<WorkflowStageResult> {
+    switch (stage) {
+      case 'keyword_analysis':
+        return this.executeKeywordAnalysis(options.keywords, options.project);
+      case 'content_generation':
+        return this.executeContentGeneration(options.keywords, options.project, result.content_generated, result.revision_feedback);
+      case 'image_generation':
+        return this.executeImageGeneration(result.content_generated, options.project);
+      case 'seo_optimization':
+        return this.executeSEOOptimization(result.content_generated, options.seo_optimization_level);
+      case 'translation':
+        return this.executeTranslation(result.content_generated, options.target_languages, result.translations);
+      case 'publishing':
+        return this.executePublishing(
+          result.content_generated,
+          result.translations,
+          options.publishing_targets,
+          result.published_urls,
+          previous?.data?.published_content_ids || []
+        );
+      case 'analytics':
+        return this.executeAnalyticsCollection(result);
+    }
+  }
+
+  /**
+   * Stages this workflow's options turn on, in pipeline order
+   */
+  private getEnabledStages(options: StoredWorkflowOptions): WorkflowStageName[] {
+    return WORKFLOW_STAGES.filter(stage => {
+      switch (stage) {
+        case 'image_generation':
+          return options.image_generation_enabled;
+        case 'translation':
+          return options.translation_enabled && options.target_languages.length > 0;
+        case 'publishing':
+          return options.auto_publish && options.publishing_targets.length > 0;
+        default:
+          return true;
+      }
+    });
+  }
+
+  private get checkpoints(): WorkflowCheckpointStore {
+    if (!this.checkpointStore) {
+      this.checkpointStore = getWorkflowCheckpointStore();
+    }
+    return this.checkpointStore;
   }
 
   /**
@@ -200,7 +936,8 @@ export class K2WUnifiedService {
   private async executeContentGeneration(
     keywords: string[],
     project: K2WProjectRecord,
-    contentArray: K2WContentRecord[]
+    contentArray: K2WContentRecord[],
+    revisionFeedback: Record<string, string[]> = {}
   ): Promise<WorkflowStageResult> {
     const stageResult: WorkflowStageResult = {
       stage: 'content_generation',
@@ -209,8 +946,16 @@ export class K2WUnifiedService {
     };
 
     try {
+      // Content kept from an earlier, interrupted run is not generated (or paid for) again
+      const generatedKeywordIds = new Set(contentArray.map(content => content.keyword_id));
+
       for (let i = 0; i < keywords.length; i++) {
         const keyword = keywords[i];
+
+        if (generatedKeywordIds.has(`keyword_${i}`)) {
+          stageResult.progress = ((i + 1) / keywords.length) * 100;
+          continue;
+        }
         
         const contentOptions = {
           keyword,
@@ -220,14 +965,19 @@ export class K2WUnifiedService {
           language: project.language,
           tone: 'professional' as const, // Map brandTone to tone
           wordCount: 800,
-          internalLinks: project.settings.internal_links
+          internalLinks: project.settings.internal_links,
+          revisionFeedback: revisionFeedback[`keyword_${i}`]
         };
 
-        const generatedContent = await aiContentGenerator.generateContent(contentOptions);
+        // The id is chosen up front so the generation cost is recorded against the article
+        const contentId = `content_${Date.now()}_${i}`;
+        const generatedContent = await runWithAIUsageContext({ content_id: contentId, stage: 'text' }, () =>
+          aiContentGenerator.generateContent(contentOptions)
+        );
         
         // Convert to K2WContentRecord format
         const contentRecord: K2WContentRecord = {
-          id: `content_${Date.now()}_${i}`,
+          id: contentId,
           title: generatedContent.title,
           body: generatedContent.body_html, // Use body_html as body
           body_html: generatedContent.body_html,
@@ -253,7 +1003,7 @@ export class K2WUnifiedService {
             model_version: 'gpt-4',
             prompt_template_version: '1.0',
             generation_time: new Date().toISOString(),
-            revision_count: 0
+            revision_count: revisionFeedback[`keyword_${i}`]?.length || 0
           },
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
@@ -289,8 +1039,23 @@ export class K2WUnifiedService {
     };
 
     try {
+      // A throttled budget keeps the text and drops the images
+      const enforcement = await costOptimizationService.assertWithinBudget({ project_id: project.id });
+      if (enforcement.action === 'throttle') {
+        stageResult.status = 'completed';
+        stageResult.progress = 100;
+        stageResult.data = { images_generated: 0, skipped: true, skipped_reason: enforcement.reason };
+        stageResult.completed_at = new Date().toISOString();
+        return stageResult;
+      }
+
       for (let i = 0; i < contentArray.length; i++) {
         const content = contentArray[i];
+
+        if (content.images && content.images.length > 0) {
+          stageResult.progress = ((i + 1) / contentArray.length) * 100;
+          continue;
+        }
         
         const imageOptions = {
           keyword: content.title,
@@ -303,7 +1068,9 @@ export class K2WUnifiedService {
           quality: 'hd' as const
         };
 
-        const generatedImages = await aiImageGenerator.generateImages(imageOptions);
+        const generatedImages = await runWithAIUsageContext({ content_id: content.id, stage: 'images' }, () =>
+          aiImageGenerator.generateImages(imageOptions)
+        );
         
         // Update content with generated image URLs
         content.images = generatedImages.map((img: { url: string }) => img.url);
@@ -388,9 +1155,8 @@ export class K2WUnifiedService {
         translationsResult[language] = [];
         
         for (const content of contentArray) {
-          const translationResult = await aiTranslationService.translateContent(
-            content,
-            [language]
+          const translationResult = await runWithAIUsageContext({ content_id: content.id, stage: 'translation' }, () =>
+            aiTranslationService.translateContent(content, [language])
           );
           
           if (translationResult.translations[language]) {
@@ -423,16 +1189,25 @@ export class K2WUnifiedService {
   private async executePublishing(
     contentArray: K2WContentRecord[],
     translations: Record<string, K2WContentRecord[]>,
-    publishingTargets: PublishingTarget[],
-    publishedUrlsResult: Record<string, string[]>
+    targets: PublishingTargetRef[],
+    publishedUrlsResult: Record<string, string[]>,
+    alreadyPublishedIds: string[] = []
   ): Promise<WorkflowStageResult> {
+    // Published content ids are tracked as the stage goes so a resume never publishes twice
+    const publishedContentIds = [...alreadyPublishedIds];
     const stageResult: WorkflowStageResult = {
       stage: 'publishing',
       status: 'processing',
-      progress: 0
+      progress: 0,
+      data: { published_content_ids: publishedContentIds }
     };
 
     try {
+      const { targets: publishingTargets, missing } = publishingTargetRegistry.resolve(targets.map(target => target.id));
+      if (missing.length > 0) {
+        throw new Error(`Publishing targets ${missing.join(', ')} are no longer known; pass them to a workflow again, then resume`);
+      }
+
       const allContent = [...contentArray];
       
       // Add translated content
@@ -444,6 +1219,11 @@ export class K2WUnifiedService {
       const totalPublishes = allContent.length * publishingTargets.length;
 
       for (const content of allContent) {
+        if (publishedContentIds.includes(content.id)) {
+          completed += publishingTargets.length;
+          continue;
+        }
+
         const publishResults = await publishingAutomationService.publishContent(
           content,
           publishingTargets
@@ -461,6 +1241,7 @@ export class K2WUnifiedService {
           }
         });
 
+        publishedContentIds.push(content.id);
         completed += publishingTargets.length;
         stageResult.progress = (completed / totalPublishes) * 100;
       }
@@ -468,7 +1249,8 @@ export class K2WUnifiedService {
       stageResult.status = 'completed';
       stageResult.data = { 
         total_publishes: completed,
-        platforms: Object.keys(publishedUrlsResult)
+        platforms: Object.keys(publishedUrlsResult),
+        published_content_ids: publishedContentIds
       };
       stageResult.completed_at = new Date().toISOString();
 
@@ -512,23 +1294,24 @@ export class K2WUnifiedService {
     return stageResult;
   }
 
+  /**
+   * Report a finished stage to the caller, if it asked for updates
+   */
+  private notifyStageUpdate(listener: K2WWorkflowOptions['on_stage_update'], stage: WorkflowStageResult): void {
+    try {
+      listener?.(stage);
+    } catch (error) {
+      console.error(`Stage update listener failed for ${stage.stage}:`, error);
+    }
+  }
+
   /**
    * Initialize workflow stages
    */
   private initializeStages(): Record<string, WorkflowStageResult> {
-    const stages = [
-      'keyword_analysis',
-      'content_generation', 
-      'image_generation',
-      'seo_optimization',
-      'translation',
-      'publishing',
-      'analytics'
-    ];
-
     const stageResults: Record<string, WorkflowStageResult> = {};
     
-    stages.forEach(stage => {
+    WORKFLOW_STAGES.forEach(stage => {
       stageResults[stage] = {
         stage,
         status: 'pending',
@@ -611,14 +1394,42 @@ export class K2WUnifiedService {
    * Get workflow status
    */
   async getWorkflowStatus(workflowId: string): Promise<Partial<K2WWorkflowResult> | null> {
-    // Implementation would fetch from database
-    if (workflowId === this.workflowId) {
-      return {
-        workflow_id: workflowId,
-        stages: this.initializeStages()
-      };
+    const checkpoint = this.checkpoints.getWorkflow(workflowId);
+    if (!checkpoint) return null;
+
+    return {
+      ...checkpoint.result,
+      status: checkpoint.status,
+      stages: checkpoint.options.definition
+        ? checkpoint.result.stages
+        : { ...this.initializeStages(), ...checkpoint.result.stages }
+    };
+  }
+
+  /**
+   * Content the project's workflows generated and published; it lives in the workflow
+   * checkpoints rather than the content table
+   */
+  getPublishedContent(projectId: string): Array<K2WContentRecord & { workflow_id: string }> {
+    const published: Array<K2WContentRecord & { workflow_id: string }> = [];
+
+    for (const checkpoint of this.checkpoints.listProjectWorkflows(projectId)) {
+      for (const stage of Object.values(checkpoint.result.stages)) {
+        const ids = (stage.data as { published_content_ids?: string[] } | undefined)?.published_content_ids || [];
+        for (const content of checkpoint.result.content_generated) {
+          if (ids.includes(content.id)) {
+            published.push({
+              ...content,
+              status: 'published',
+              published_at: content.published_at || stage.completed_at,
+              workflow_id: checkpoint.workflow_id
+            });
+          }
+        }
+      }
     }
-    return null;
+
+    return published;
   }
 
   /**
@@ -6,24 +6,12 @@
 
 import { EventEmitter } from 'events';
 import { Server as HTTPServer } from 'http';
-
-// Mock interfaces since we can't install packages yet
-interface QueueJob {
-  id: string;
-  type: string;
-  data: any;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'retrying';
-  attempts: number;
-  maxAttempts: number;
-  priority: number;
-  createdAt: number;
-  processAt: number;
-  completedAt?: number;
-  failedAt?: number;
-  error?: string;
-  progress?: number;
-  userId?: string;
-}
+import { SQLiteQueue, QueueJob, JobContext, SQLiteQueueOptions } from './sqlite-queue.service';
+import { SocketService, socketService } from './socket.service';
+import { K2WUnifiedService, K2WWorkflowResult, resolveWorkflowProject } from './k2w-unified.service';
+import { PublishingTarget } from './publishing-automation.service';
+import { publishingTargetRegistry, PublishingTargetRef } from './publishing-targets.service';
+import { costOptimizationService } from './cost-optimization.service';
 
 interface K2WWorkflowData {
   keywords: string[];
@@ -41,8 +29,13 @@ interface K2WWorkflowData {
   };
   userId: string;
   batchId?: string;
+  projectId?: string;
+  publishingTargets?: PublishingTargetRef[]; // configs are looked up by id when the workflow publishes
 }
 
+/** A workflow as requested, with the configs of its publishing targets */
+type K2WWorkflowRequest = Omit<K2WWorkflowData, 'publishingTargets'> & { publishingTargets?: PublishingTarget[] };
+
 interface WorkflowStage {
   name: string;
   status: 'pending' | 'processing' | 'completed' | 'failed';
@@ -54,104 +47,36 @@ interface WorkflowStage {
   duration?: number;
 }
 
-// Mock services (will be replaced with actual imports)
-class MockSQLiteQueue extends EventEmitter {
-  async add(type: string, data: any, options: any = {}): Promise<string> {
-    const jobId = `job_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
-    console.log(`📋 Mock: Added job ${jobId} (${type})`);
-    
-    // Simulate job processing
-    setTimeout(() => {
-      this.emit('job:started', { jobId, type, userId: options.userId });
-      
-      // Simulate progress updates
-      let progress = 0;
-      const progressInterval = setInterval(() => {
-        progress += 20;
-        this.emit('job:progress', { jobId, progress, message: `Processing ${type}...`, userId: options.userId });
-        
-        if (progress >= 100) {
-          clearInterval(progressInterval);
-          this.emit('job:completed', { jobId, type, userId: options.userId });
-        }
-      }, 1000);
-    }, 100);
-    
-    return jobId;
-  }
-  
-  getJob(jobId: string): QueueJob | null {
-    return {
-      id: jobId,
-      type: 'k2w-workflow',
-      data: { test: true },
-      status: 'processing',
-      attempts: 1,
-      maxAttempts: 3,
-      priority: 10,
-      createdAt: Date.now(),
-      processAt: Date.now(),
-      progress: 50,
-      userId: 'test-user'
-    };
-  }
-  
-  getStats() {
-    return {
-      pending: 2,
-      processing: 1,
-      completed: 5,
-      failed: 0,
-      total: 8,
-      activeWorkers: 1
-    };
-  }
+export interface K2WWorkflowManagerOptions {
+  queue?: SQLiteQueueOptions;
+  concurrency?: number;
+  maxAttempts?: number;
 }
 
-class MockSocketService extends EventEmitter {
-  constructor(server?: HTTPServer) {
-    super();
-    console.log('🔌 Mock Socket.IO service initialized');
-  }
-  
-  sendToUser(userId: string, event: string, data: any): void {
-    console.log(`📡 Mock: Sending ${event} to user ${userId}`, data);
-  }
-  
-  sendWorkflowProgress(userId: string, workflowId: string, progress: any): void {
-    console.log(`📈 Mock: Workflow progress for ${workflowId}:`, progress);
-  }
-  
-  sendWorkflowCompleted(userId: string, workflowId: string, result: any): void {
-    console.log(`✅ Mock: Workflow completed for ${workflowId}:`, result);
-  }
-  
-  sendWorkflowFailed(userId: string, workflowId: string, error: any): void {
-    console.log(`❌ Mock: Workflow failed for ${workflowId}:`, error);
-  }
-  
-  sendNotification(userId: string, notification: any): void {
-    console.log(`🔔 Mock: Notification for ${userId}:`, notification);
-  }
-  
-  sendQueueStats(stats: any): void {
-    console.log(`📊 Mock: Queue stats:`, stats);
-  }
-}
+const WORKFLOW_JOB_TYPE = 'k2w-workflow';
 
 export class K2WWorkflowManager extends EventEmitter {
-  private queue: MockSQLiteQueue;
-  private socket: MockSocketService;
-  private activeWorkflows = new Map<string, any>();
+  private queue: SQLiteQueue;
+  private socket: SocketService;
   private statsInterval?: NodeJS.Timeout;
+  private maxAttempts: number;
 
-  constructor(server?: HTTPServer) {
+  constructor(server?: HTTPServer, options: K2WWorkflowManagerOptions = {}) {
     super();
     
-    this.queue = new MockSQLiteQueue();
-    this.socket = new MockSocketService(server);
+    this.queue = new SQLiteQueue(options.queue);
+    this.socket = socketService;
+    if (server) {
+      this.socket.attach(server);
+    }
+    this.maxAttempts = options.maxAttempts ?? 3;
     
     this.initializeEventHandlers();
+    this.queue.process<K2WWorkflowData, Partial<K2WWorkflowResult>>(
+      WORKFLOW_JOB_TYPE,
+      (job, context) => this.processWorkflowJob(job, context),
+      { concurrency: options.concurrency ?? 2 }
+    );
     this.startStatsUpdates();
     
     console.log('🚀 K2W Workflow Manager initialized with real-time capabilities');
@@ -160,24 +85,27 @@ export class K2WWorkflowManager extends EventEmitter {
   /**
    * Start a new K2W workflow with real-time updates
    */
-  async startWorkflow(data: K2WWorkflowData): Promise<{
+  async startWorkflow(request: K2WWorkflowRequest, schedule: { priority?: number; processAt?: number } = {}): Promise<{
     workflowId: string;
     estimatedDuration: number;
     stages: string[];
   }> {
+    const data: K2WWorkflowData = {
+      ...request,
+      publishingTargets: request.publishingTargets && publishingTargetRegistry.register(request.publishingTargets)
+    };
+
     try {
-      // Add workflow to queue
-      const workflowId = await this.queue.add('k2w-workflow', data, {
-        userId: data.userId,
-        priority: 10
-      });
+      // Refuse new jobs once the budget is exhausted, before anything is queued
+      await costOptimizationService.assertWithinBudget({ project_id: data.projectId, user_id: data.userId });
 
-      // Track workflow
-      this.activeWorkflows.set(workflowId, {
-        ...data,
-        startedAt: Date.now(),
-        status: 'pending',
-        stages: this.getWorkflowStages(data.options)
+      // Add workflow to the durable queue
+      const workflowId = await this.queue.add(WORKFLOW_JOB_TYPE, data, {
+        jobId: `wf_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+        userId: data.userId,
+        priority: schedule.priority ?? 10,
+        processAt: schedule.processAt,
+        maxAttempts: this.maxAttempts
       });
 
       // Send initial notification
@@ -217,23 +145,30 @@ export class K2WWorkflowManager extends EventEmitter {
    * Get workflow status with real-time data
    */
   getWorkflowStatus(workflowId: string): any {
-    const workflow = this.activeWorkflows.get(workflowId);
-    if (!workflow) {
+    const job = this.queue.getJob<K2WWorkflowData>(workflowId);
+    if (!job || job.type !== WORKFLOW_JOB_TYPE) {
       return null;
     }
 
-    const job = this.queue.getJob(workflowId);
-    
+    const startedAt = job.startedAt ?? job.createdAt;
+    const finishedAt = job.completedAt ?? job.failedAt;
+
     return {
       workflowId,
-      status: job?.status || 'unknown',
-      progress: job?.progress || 0,
-      stages: workflow.stages,
-      startedAt: workflow.startedAt,
-      duration: Date.now() - workflow.startedAt,
-      estimatedTimeRemaining: this.calculateTimeRemaining(workflow),
-      keywords: workflow.keywords,
-      domain: workflow.siteConfig.domain
+      status: job.status,
+      progress: job.progress || 0,
+      message: job.message,
+      stages: this.getWorkflowStages(job.data.options),
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      error: job.error,
+      result: job.result,
+      createdAt: job.createdAt,
+      startedAt,
+      duration: (finishedAt ?? Date.now()) - startedAt,
+      estimatedTimeRemaining: finishedAt ? 0 : this.calculateTimeRemaining(job),
+      keywords: job.data.keywords,
+      domain: job.data.siteConfig.domain
     };
   }
 
@@ -242,13 +177,14 @@ export class K2WWorkflowManager extends EventEmitter {
    */
   async cancelWorkflow(workflowId: string, userId: string): Promise<boolean> {
     try {
-      const workflow = this.activeWorkflows.get(workflowId);
-      if (!workflow) {
+      const job = this.queue.getJob<K2WWorkflowData>(workflowId);
+      if (!job || job.type !== WORKFLOW_JOB_TYPE || job.userId !== userId) {
         return false;
       }
 
-      // TODO: Implement actual cancellation in queue
-      this.activeWorkflows.delete(workflowId);
+      if (!this.queue.cancel(workflowId)) {
+        return false;
+      }
 
       this.socket.sendNotification(userId, {
         type: 'warning',
@@ -267,20 +203,22 @@ export class K2WWorkflowManager extends EventEmitter {
   }
 
   /**
-   * Retry failed workflow
+   * Retry failed or cancelled workflow
    */
   async retryWorkflow(workflowId: string): Promise<string | null> {
     try {
-      const workflow = this.activeWorkflows.get(workflowId);
-      if (!workflow) {
+      const job = this.queue.getJob<K2WWorkflowData>(workflowId);
+      if (!job || job.type !== WORKFLOW_JOB_TYPE) {
         return null;
       }
 
-      // Create new workflow with same data
-      const newWorkflowId = await this.startWorkflow(workflow);
-      
-      console.log(`🔄 Workflow retried: ${workflowId} → ${newWorkflowId.workflowId}`);
-      return newWorkflowId.workflowId;
+      // Re-queue the same job so its history stays in one place
+      if (!this.queue.retry(workflowId)) {
+        return null;
+      }
+
+      console.log(`🔄 Workflow retried: ${workflowId}`);
+      return workflowId;
 
     } catch (error: any) {
       console.error('❌ Failed to retry workflow:', error);
@@ -296,26 +234,98 @@ export class K2WWorkflowManager extends EventEmitter {
   }
 
   /**
-   * Get user's active workflows
+   * Get user's workflows, most recent first
    */
   getUserWorkflows(userId: string): any[] {
-    const userWorkflows = [];
-    
-    for (const [workflowId, workflow] of this.activeWorkflows.entries()) {
-      if (workflow.userId === userId) {
-        userWorkflows.push(this.getWorkflowStatus(workflowId));
-      }
-    }
-    
-    return userWorkflows.sort((a, b) => b.startedAt - a.startedAt);
+    return this.queue
+      .getJobs<K2WWorkflowData>({ type: WORKFLOW_JOB_TYPE, userId })
+      .map(job => this.getWorkflowStatus(job.id))
+      .filter(Boolean);
   }
 
   // Private methods
 
+  /**
+   * Queue processor: runs the unified K2W pipeline for the job's keywords
+   */
+  private async processWorkflowJob(
+    job: QueueJob<K2WWorkflowData>,
+    context: JobContext
+  ): Promise<Partial<K2WWorkflowResult>> {
+    const data = job.data;
+    const stages = this.getWorkflowStages(data.options);
+    const project = await resolveWorkflowProject({
+      projectId: data.projectId,
+      userId: data.userId,
+      domain: data.siteConfig.domain,
+      language: data.targetLanguage,
+      niche: data.siteConfig.niche,
+      autoPublish: data.options.publishImmediately,
+      generateImages: data.options.generateImages
+    });
+    let completedStages = 0;
+
+    if (context.isCancelled()) {
+      throw new Error('Workflow cancelled');
+    }
+
+    const result = await new K2WUnifiedService().executeWorkflow({
+      project,
+      keywords: data.keywords,
+      target_languages: data.options.enableTranslation ? [data.targetLanguage] : [],
+      publishing_targets: data.publishingTargets || [],
+      auto_publish: data.options.publishImmediately,
+      quality_threshold: project.settings.seo_threshold,
+      image_generation_enabled: data.options.generateImages,
+      translation_enabled: data.options.enableTranslation,
+      seo_optimization_level: data.options.enableSEO ? 'comprehensive' : 'basic',
+      workflow_id: job.id, // a retried job resumes from its checkpoints
+      user_id: data.userId,
+      on_stage_update: (stage) => {
+        completedStages++;
+        const progress = Math.min(99, Math.round((completedStages / stages.length) * 100));
+        context.updateProgress(progress, `${stage.stage}: ${stage.status}`);
+        this.socket.sendWorkflowStageUpdate(data.userId, job.id, {
+          name: stage.stage,
+          status: stage.status,
+          progress: stage.progress,
+          error: stage.error_message
+        });
+      }
+    });
+
+    const failedStage = Object.values(result.stages).find(stage => stage.status === 'failed');
+    if (failedStage) {
+      throw new Error(`Stage ${failedStage.stage} failed: ${failedStage.error_message || 'unknown error'}`);
+    }
+
+    // Persist a compact summary as the job result
+    return {
+      workflow_id: result.workflow_id,
+      project_id: result.project_id,
+      total_keywords: result.total_keywords,
+      published_urls: result.published_urls,
+      analytics: result.analytics,
+      completed_at: result.completed_at
+    };
+  }
+
   private initializeEventHandlers(): void {
+    // Handle cancel/retry requests coming from connected clients
+    this.socket.on('workflow:cancel-requested', ({ workflowId, userId }) => {
+      this.cancelWorkflow(workflowId, userId);
+    });
+
+    this.socket.on('workflow:retry-requested', ({ workflowId, userId }) => {
+      const job = this.queue.getJob(workflowId);
+      if (job && job.userId === userId) {
+        this.retryWorkflow(workflowId);
+      }
+    });
+
     // Handle queue events
     this.queue.on('job:started', (event) => {
-      console.log(`🔄 Job started: ${event.jobId}`);
+      console.log(`🔄 Job started: ${event.jobId} (attempt ${event.attempt})`);
       
       if (event.userId) {
         this.socket.sendWorkflowProgress(event.userId, event.jobId, {
@@ -345,22 +355,19 @@ export class K2WWorkflowManager extends EventEmitter {
     this.queue.on('job:completed', (event) => {
       console.log(`✅ Job completed: ${event.jobId}`);
       
-      const workflow = this.activeWorkflows.get(event.jobId);
-      if (workflow && event.userId) {
-        const duration = Date.now() - workflow.startedAt;
-        
+      const job = this.queue.getJob<K2WWorkflowData>(event.jobId);
+      if (job && event.userId) {
+        const publishedUrls: string[] = Object.values(
+          (event.result?.published_urls || {}) as Record<string, string[]>
+        ).flat();
+
         this.socket.sendWorkflowCompleted(event.userId, event.jobId, {
-          totalDuration: duration,
-          generatedContent: workflow.keywords.length,
-          publishedUrls: workflow.options.publishImmediately 
-            ? workflow.keywords.map((k: string) => `https://${workflow.siteConfig.domain}/${k.replace(' ', '-')}`)
-            : [],
-          analytics: workflow.options.enableSEO ? { trackingSetup: true } : null
+          totalDuration: (job.completedAt ?? Date.now()) - (job.startedAt ?? job.createdAt),
+          generatedContent: job.data.keywords.length,
+          publishedUrls,
+          analytics: event.result?.analytics || null
         });
       }
-      
-      // Clean up
-      this.activeWorkflows.delete(event.jobId);
     });
 
     this.queue.on('job:failed', (event) => {
@@ -370,25 +377,9 @@ export class K2WWorkflowManager extends EventEmitter {
         this.socket.sendWorkflowFailed(event.userId, event.jobId, {
           stage: 'unknown',
           message: event.error || 'Workflow failed',
-          canRetry: event.attempts < 3
+          canRetry: !event.willRetry
         });
       }
-      
-      // Keep workflow for potential retry
-      const workflow = this.activeWorkflows.get(event.jobId);
-      if (workflow) {
-        workflow.status = 'failed';
-        workflow.error = event.error;
-      }
-    });
-
-    // Handle socket events for workflow control
-    this.socket.on('workflow:cancel-requested', (event) => {
-      this.cancelWorkflow(event.workflowId, event.userId);
-    });
-
-    this.socket.on('workflow:retry-requested', (event) => {
-      this.retryWorkflow(event.workflowId);
     });
 
     console.log('🔗 Event handlers initialized');
@@ -406,7 +397,7 @@ export class K2WWorkflowManager extends EventEmitter {
     const stages = ['keyword-analysis', 'content-generation'];
     
     if (options.generateImages) stages.push('image-generation');
-    if (options.enableSEO) stages.push('seo-optimization');
+    stages.push('seo-optimization');
     if (options.enableTranslation) stages.push('translation');
     if (options.publishImmediately) stages.push('publishing');
     
@@ -428,9 +419,9 @@ export class K2WWorkflowManager extends EventEmitter {
     return baseTime + keywordTime + optionsTime;
   }
 
-  private calculateTimeRemaining(workflow: any): number {
-    const elapsed = Date.now() - workflow.startedAt;
-    const estimated = this.estimateWorkflowDuration(workflow);
+  private calculateTimeRemaining(job: QueueJob<K2WWorkflowData>): number {
+    const elapsed = Date.now() - (job.startedAt ?? job.createdAt);
+    const estimated = this.estimateWorkflowDuration(job.data);
     return Math.max(0, estimated * 1000 - elapsed);
   }
 
@@ -444,15 +435,25 @@ export class K2WWorkflowManager extends EventEmitter {
       clearInterval(this.statsInterval);
     }
     
-    // Notify all active workflows
-    for (const [workflowId, workflow] of this.activeWorkflows.entries()) {
-      this.socket.sendNotification(workflow.userId, {
+    // Notify users with unfinished workflows - they stay in the queue and resume after restart
+    const unfinished = this.queue.getJobs<K2WWorkflowData>({
+      type: WORKFLOW_JOB_TYPE,
+      status: ['pending', 'processing', 'retrying'],
+      limit: 1000
+    });
+    const notifiedUsers = new Set<string>();
+    for (const job of unfinished) {
+      if (!job.userId || notifiedUsers.has(job.userId)) continue;
+      notifiedUsers.add(job.userId);
+      this.socket.sendNotification(job.userId, {
         type: 'warning',
         title: 'System Maintenance',
         message: 'Your workflows will resume after system restart',
         duration: 10000
       });
     }
+
+    await this.queue.close();
     
     console.log('✅ K2W Workflow Manager shutdown complete');
   }
@@ -461,8 +462,9 @@ export class K2WWorkflowManager extends EventEmitter {
 // Export types and main class
 export {
   K2WWorkflowData,
+  K2WWorkflowRequest,
   WorkflowStage,
   QueueJob
 };
 
-export default K2WWorkflowManager;
\ No newline at end of file
+export default K2WWorkflowManager;
@@ -6,12 +6,24 @@
 import { 
   K2WKeywordRecord, 
   K2WClusterRecord,
+  K2WContentRecord,
   CreateK2WKeyword,
   CreateK2WCluster,
   KEYWORD_STATUS,
+  CONTENT_STATUS,
+  PUBLISH_STATUS,
   SEARCH_INTENT
 } from '@k2w/database';
-import { keywordRepository, clusterRepository } from '../repositories/k2w-optimized.repository';
+import { keywordRepository, clusterRepository, contentRepository } from '../repositories/k2w-optimized.repository';
+import {
+  KeywordEmbeddingProvider,
+  NGramEmbeddingProvider,
+  clusterBySimilarity,
+  createEmbeddingProvider,
+  createRoutedEmbeddingProvider
+} from './semantic-clustering.service';
+import { serpOverlapService } from './serp-overlap.service';
+import { aiRoutingService } from './ai-routing.service';
 
 export interface KeywordImportOptions {
   projectId: string;
@@ -30,9 +42,24 @@ export interface KeywordImportResult {
 }
 
 export interface KeywordClusteringOptions {
-  method: 'semantic' | 'topical' | 'intent-based';
+  method: 'semantic' | 'topical' | 'intent-based' | 'serp-overlap';
   maxClusters?: number;
   minClusterSize?: number;
+  /** Semantic method only: minimum average cosine similarity to merge (0-1) */
+  similarityThreshold?: number;
+  /** SERP-overlap method only: minimum shared top-10 URLs to group two keywords */
+  minSharedUrls?: number;
+  /** SERP-overlap method only: fetch missing snapshots from the SEO API (default true) */
+  fetchSerpSnapshots?: boolean;
+}
+
+interface ClusterDraft {
+  name: string;
+  topic: string;
+  keywords: K2WKeywordRecord[];
+  primaryKeyword: string;
+  centroid?: number[];
+  cohesion?: number;
 }
 
 export interface KeywordClusteringResult {
@@ -42,7 +69,71 @@ export interface KeywordClusteringResult {
   clusters: K2WClusterRecord[];
 }
 
+export type KeywordDeleteMode = 'hard' | 'archive';
+
+export interface KeywordDeleteOptions {
+  /** 'archive' (default) keeps the keyword with KEYWORD_STATUS.ARCHIVED; 'hard' removes it */
+  mode?: KeywordDeleteMode;
+  /** Report what would be affected without writing anything */
+  dryRun?: boolean;
+}
+
+export interface KeywordDeletionReport {
+  keywordId: string;
+  keyword?: string;
+  found: boolean;
+  mode: KeywordDeleteMode;
+  dryRun: boolean;
+  applied: boolean;
+  blockedReason?: string;
+  cluster?: {
+    id: string;
+    name: string;
+    keywordCountBefore: number;
+    keywordCountAfter: number;
+    primaryKeywordAfter: string;
+  };
+  content: { deleted: string[]; archived: string[]; retained: string[] };
+  publishLogs: { deleted: string[]; retained: string[] };
+}
+
+export interface BulkKeywordDeletionResult {
+  dryRun: boolean;
+  results: KeywordDeletionReport[];
+  summary: {
+    requested: number;
+    applied: number;
+    notFound: number;
+    blocked: number;
+    contentDeleted: number;
+    contentArchived: number;
+    publishLogsDeleted: number;
+    clustersUpdated: number;
+  };
+}
+
+export interface KeywordRestoreResult {
+  keywordId: string;
+  restored: boolean;
+  reason?: string;
+  status?: string;
+  clusterId?: string | null;
+  contentRestored: string[];
+}
+
+const LIVE_CONTENT_STATUSES: string[] = [CONTENT_STATUS.PUBLISHED, CONTENT_STATUS.UPDATING];
+
 export class KeywordService {
+  constructor(
+    private embeddingProvider: KeywordEmbeddingProvider = createEmbeddingProvider()
+  ) {}
+
+  /**
+   * Swap the embedding provider used by semantic clustering
+   */
+  setEmbeddingProvider(provider: KeywordEmbeddingProvider): void {
+    this.embeddingProvider = provider;
+  }
   
   /**
    * Import and validate keywords
@@ -132,8 +223,13 @@ export class KeywordService {
       clusters: []
     };
 
-    // Simple clustering algorithm (in production, use AI-based clustering)
-    const clusters = this.performBasicClustering(validKeywords, options);
+    const clusters = options.method === 'semantic'
+      ? await this.performSemanticClustering(validKeywords, options)
+      : options.method === 'serp-overlap'
+        ? await this.performSerpOverlapClustering(validKeywords, options)
+        : this.performBasicClustering(validKeywords, options);
+    result.unclustered = validKeywords.length -
+      clusters.reduce((sum, cluster) => sum + cluster.keywords.length, 0);
 
     // Create cluster records
     for (const clusterData of clusters) {
@@ -146,7 +242,10 @@ export class KeywordService {
         keyword_count: clusterData.keywords.length,
         primary_keyword: clusterData.primaryKeyword,
         related_keywords: clusterData.keywords.map(k => k.keyword),
-        content_structure: this.generateContentStructure(clusterData.topic, clusterData.keywords)
+        content_structure: this.generateContentStructure(clusterData.topic, clusterData.keywords),
+        clustering_method: options.method,
+        centroid: clusterData.centroid,
+        cohesion_score: clusterData.cohesion
       });
 
       result.clusters.push(cluster);
@@ -215,14 +314,248 @@ export class KeywordService {
   }
 
   /**
-   * Delete keyword
+   * Delete or archive a keyword, cascading to its cluster, content drafts and publish logs
    */
-  async deleteKeyword(keywordId: string): Promise<boolean> {
-    throw new Error('Keyword deletion not implemented in current database service');
+  async deleteKeyword(keywordId: string, options: KeywordDeleteOptions = {}): Promise<KeywordDeletionReport> {
+    const { results } = await this.bulkDeleteKeywords([keywordId], options);
+    return results[0];
+  }
+
+  /**
+   * Delete or archive several keywords. Plans are built against a shared view
+   * of each cluster, so a dry run reports the combined effect exactly.
+   */
+  async bulkDeleteKeywords(keywordIds: string[], options: KeywordDeleteOptions = {}): Promise<BulkKeywordDeletionResult> {
+    const dryRun = options.dryRun ?? false;
+    const clusters = new Map<string, K2WClusterRecord | null>();
+    const touchedClusters = new Set<string>();
+    const results: KeywordDeletionReport[] = [];
+
+    for (const keywordId of [...new Set(keywordIds)]) {
+      const keyword = await keywordRepository.findById(keywordId);
+      const plan = await this.planKeywordDeletion(keywordId, keyword, options, clusters);
+
+      if (keyword && !plan.report.blockedReason && !dryRun) {
+        await this.applyKeywordDeletion(keyword, plan, options.mode ?? 'archive');
+        plan.report.applied = true;
+      }
+      if (plan.report.cluster && !plan.report.blockedReason) {
+        touchedClusters.add(plan.report.cluster.id);
+      }
+
+      results.push(plan.report);
+    }
+
+    return {
+      dryRun,
+      results,
+      summary: {
+        requested: results.length,
+        applied: results.filter(r => r.applied).length,
+        notFound: results.filter(r => !r.found).length,
+        blocked: results.filter(r => r.found && r.blockedReason).length,
+        contentDeleted: results.reduce((sum, r) => sum + (r.blockedReason ? 0 : r.content.deleted.length), 0),
+        contentArchived: results.reduce((sum, r) => sum + (r.blockedReason ? 0 : r.content.archived.length), 0),
+        publishLogsDeleted: results.reduce((sum, r) => sum + (r.blockedReason ? 0 : r.publishLogs.deleted.length), 0),
+        clustersUpdated: touchedClusters.size
+      }
+    };
+  }
+
+  /**
+   * Restore a soft-archived keyword, its cluster membership and archived drafts
+   */
+  async restoreKeyword(keywordId: string): Promise<KeywordRestoreResult> {
+    const keyword = await keywordRepository.findById(keywordId);
+    if (!keyword) {
+      return { keywordId, restored: false, reason: 'Keyword not found', contentRestored: [] };
+    }
+
+    const archive = keyword.metadata?.archive;
+    if (keyword.status !== KEYWORD_STATUS.ARCHIVED || !archive) {
+      return { keywordId, restored: false, reason: 'Keyword is not archived', contentRestored: [] };
+    }
+
+    // Re-join the original cluster if it still exists
+    let clusterId: string | null = null;
+    const cluster = archive.cluster_id ? await clusterRepository.findById(archive.cluster_id) : null;
+    if (cluster) {
+      const related = cluster.related_keywords.includes(keyword.keyword)
+        ? cluster.related_keywords
+        : [...cluster.related_keywords, keyword.keyword];
+      await clusterRepository.update(cluster.id, {
+        related_keywords: related,
+        keyword_count: related.length,
+        primary_keyword: cluster.primary_keyword || keyword.keyword
+      });
+      clusterId = cluster.id;
+    }
+
+    let status = archive.previous_status as K2WKeywordRecord['status'];
+    if (!clusterId && status === KEYWORD_STATUS.CLUSTERED) {
+      status = KEYWORD_STATUS.PENDING;
+    }
+
+    const contentRestored: string[] = [];
+    for (const [contentId, previousStatus] of Object.entries(archive.content_statuses || {})) {
+      const content = await contentRepository.findById(contentId);
+      if (content && content.status === CONTENT_STATUS.ARCHIVED) {
+        await contentRepository.updateStatus(contentId, previousStatus);
+        contentRestored.push(contentId);
+      }
+    }
+
+    const { archive: _archive, ...metadata } = keyword.metadata;
+    await keywordRepository.update(keywordId, {
+      status,
+      cluster_id: clusterId,
+      metadata: { ...metadata, last_updated: new Date().toISOString() }
+    });
+
+    return { keywordId, restored: true, status, clusterId, contentRestored };
   }
 
   // Private helper methods
 
+  private async planKeywordDeletion(
+    keywordId: string,
+    keyword: K2WKeywordRecord | null,
+    options: KeywordDeleteOptions,
+    clusters: Map<string, K2WClusterRecord | null>
+  ): Promise<{ report: KeywordDeletionReport; contents: K2WContentRecord[]; cluster?: K2WClusterRecord }> {
+    const mode = options.mode ?? 'archive';
+    const report: KeywordDeletionReport = {
+      keywordId,
+      keyword: keyword?.keyword,
+      found: !!keyword,
+      mode,
+      dryRun: options.dryRun ?? false,
+      applied: false,
+      content: { deleted: [], archived: [], retained: [] },
+      publishLogs: { deleted: [], retained: [] }
+    };
+
+    if (!keyword) {
+      report.blockedReason = 'Keyword not found';
+      return { report, contents: [] };
+    }
+
+    if (mode === 'archive' && keyword.status === KEYWORD_STATUS.ARCHIVED) {
+      report.blockedReason = 'Keyword is already archived';
+      return { report, contents: [] };
+    }
+
+    const contents = await contentRepository.findAllByKeywordId(keywordId);
+    let live = 0;
+
+    for (const content of contents) {
+      const logs = await contentRepository.findPublishLogs(content.id);
+      const logIds = logs.map(log => log.id);
+
+      // Publish logs hold the post and deployment ids unpublishing needs, so live content is never hard-deleted
+      const livePublish = logs.some(log =>
+        (log.status === PUBLISH_STATUS.PUBLISHED || log.status === PUBLISH_STATUS.UPDATED) && !log.metadata?.unpublished_at
+      );
+      if (livePublish || LIVE_CONTENT_STATUSES.includes(content.status)) {
+        live++;
+      }
+
+      if (mode === 'hard') {
+        report.content.deleted.push(content.id);
+        report.publishLogs.deleted.push(...logIds);
+      } else {
+        // Published pages stay live; unpublishing is a separate operation
+        if (LIVE_CONTENT_STATUSES.includes(content.status) || content.status === CONTENT_STATUS.ARCHIVED) {
+          report.content.retained.push(content.id);
+        } else {
+          report.content.archived.push(content.id);
+        }
+        report.publishLogs.retained.push(...logIds);
+      }
+    }
+
+    if (mode === 'hard' && live > 0) {
+      report.blockedReason = `Keyword has ${live} published content item(s); unpublish them first`;
+    }
+
+    let cluster: K2WClusterRecord | undefined;
+    if (keyword.cluster_id) {
+      if (!clusters.has(keyword.cluster_id)) {
+        clusters.set(keyword.cluster_id, await clusterRepository.findById(keyword.cluster_id));
+      }
+      const current = clusters.get(keyword.cluster_id);
+
+      if (current) {
+        const related = current.related_keywords.filter(k => k !== keyword.keyword);
+        cluster = {
+          ...current,
+          related_keywords: related,
+          keyword_count: related.length,
+          primary_keyword: current.primary_keyword === keyword.keyword ? (related[0] || '') : current.primary_keyword
+        };
+        report.cluster = {
+          id: current.id,
+          name: current.name,
+          keywordCountBefore: current.keyword_count,
+          keywordCountAfter: cluster.keyword_count,
+          primaryKeywordAfter: cluster.primary_keyword
+        };
+
+        if (!report.blockedReason) {
+          clusters.set(current.id, cluster);
+        }
+      }
+    }
+
+    return { report, contents, cluster };
+  }
+
+  private async applyKeywordDeletion(
+    keyword: K2WKeywordRecord,
+    plan: { report: KeywordDeletionReport; contents: K2WContentRecord[]; cluster?: K2WClusterRecord },
+    mode: KeywordDeleteMode
+  ): Promise<void> {
+    if (plan.cluster) {
+      await clusterRepository.update(plan.cluster.id, {
+        related_keywords: plan.cluster.related_keywords,
+        keyword_count: plan.cluster.keyword_count,
+        primary_keyword: plan.cluster.primary_keyword
+      });
+    }
+
+    if (mode === 'hard') {
+      for (const content of plan.contents) {
+        await contentRepository.deletePublishLogs(content.id);
+        await contentRepository.delete(content.id);
+      }
+      await keywordRepository.delete(keyword.id);
+      return;
+    }
+
+    const contentStatuses: Record<string, string> = {};
+    for (const content of plan.contents) {
+      if (plan.report.content.archived.includes(content.id)) {
+        contentStatuses[content.id] = content.status;
+        await contentRepository.updateStatus(content.id, CONTENT_STATUS.ARCHIVED);
+      }
+    }
+
+    await keywordRepository.update(keyword.id, {
+      status: KEYWORD_STATUS.ARCHIVED,
+      cluster_id: null,
+      metadata: {
+        ...keyword.metadata,
+        last_updated: new Date().toISOString(),
+        archive: {
+          archived_at: new Date().toISOString(),
+          previous_status: keyword.status,
+          cluster_id: keyword.cluster_id || undefined,
+          content_statuses: contentStatuses
+        }
+      }
+    });
+  }
+
   private validateKeyword(keyword: string): boolean {
     if (!keyword || keyword.trim().length === 0) return false;
     if (keyword.length > 100) return false;
@@ -252,15 +585,101 @@ export class KeywordService {
     return SEARCH_INTENT.INFORMATIONAL;
   }
 
+  /**
+   * A project's or global 'clustering' routing policy picks the embedding provider;
+   * without one the configured provider is used
+   */
+  private getEmbeddingProvider(projectId?: string): KeywordEmbeddingProvider {
+    const route = aiRoutingService.resolveRoute({ task: 'clustering', project_id: projectId });
+    const candidate = route.candidates[0];
+    return route.default_policy || !candidate
+      ? this.embeddingProvider
+      : createRoutedEmbeddingProvider(candidate.provider, candidate.model);
+  }
+
+  /**
+   * Embed keywords and group them by average-linkage similarity
+   */
+  private async performSemanticClustering(
+    keywords: K2WKeywordRecord[],
+    options: KeywordClusteringOptions
+  ): Promise<ClusterDraft[]> {
+    const texts = keywords.map(k => k.keyword);
+    let provider = this.getEmbeddingProvider(keywords[0]?.project_id);
+    let vectors: number[][];
+
+    try {
+      vectors = await provider.embed(texts);
+    } catch (error) {
+      console.warn(`⚠️ Embedding provider "${provider.name}" failed, using local n-gram embeddings:`, error);
+      provider = new NGramEmbeddingProvider();
+      vectors = await provider.embed(texts);
+    }
+
+    const minSize = options.minClusterSize || 1;
+    const result: ClusterDraft[] = clusterBySimilarity(vectors, {
+      similarityThreshold: options.similarityThreshold ?? provider.defaultSimilarityThreshold
+    })
+      .filter(cluster => cluster.members.length >= minSize)
+      .map(cluster => {
+        const clusterKeywords = this.orderByPrimary(cluster.members.map(i => keywords[i]));
+        const topic = this.extractClusterTopic(clusterKeywords);
+
+        return {
+          name: `${topic}-cluster`,
+          topic,
+          keywords: clusterKeywords,
+          primaryKeyword: clusterKeywords[0].keyword,
+          centroid: cluster.centroid,
+          cohesion: cluster.cohesion
+        };
+      });
+
+    if (options.maxClusters && result.length > options.maxClusters) {
+      result.sort((a, b) => b.keywords.length - a.keywords.length);
+      return result.slice(0, options.maxClusters);
+    }
+
+    return result;
+  }
+
+  /**
+   * Group keywords whose top-10 SERPs share at least N ranking URLs
+   */
+  private async performSerpOverlapClustering(
+    keywords: K2WKeywordRecord[],
+    options: KeywordClusteringOptions
+  ): Promise<ClusterDraft[]> {
+    const minSize = options.minClusterSize || 1;
+    const result: ClusterDraft[] = (await serpOverlapService.clusterKeywords(keywords, {
+      minSharedUrls: options.minSharedUrls,
+      fetchMissing: options.fetchSerpSnapshots
+    }))
+      .filter(cluster => cluster.keywords.length >= minSize)
+      .map(cluster => {
+        const topic = this.extractClusterTopic(cluster.keywords);
+
+        return {
+          name: `${topic}-cluster`,
+          topic,
+          keywords: cluster.keywords,
+          primaryKeyword: cluster.keywords[0].keyword,
+          cohesion: cluster.cohesion
+        };
+      });
+
+    if (options.maxClusters && result.length > options.maxClusters) {
+      result.sort((a, b) => b.keywords.length - a.keywords.length);
+      return result.slice(0, options.maxClusters);
+    }
+
+    return result;
+  }
+
   private performBasicClustering(
     keywords: K2WKeywordRecord[], 
     options: KeywordClusteringOptions
-  ): Array<{
-    name: string;
-    topic: string;
-    keywords: K2WKeywordRecord[];
-    primaryKeyword: string;
-  }> {
+  ): ClusterDraft[] {
     // Simple clustering by word similarity and search intent
     const clusters: Map<string, K2WKeywordRecord[]> = new Map();
     
@@ -281,23 +700,18 @@ export class KeywordService {
     
     // Convert to result format and filter small clusters
     const minSize = options.minClusterSize || 1;
-    const result: Array<{
-      name: string;
-      topic: string;
-      keywords: K2WKeywordRecord[];
-      primaryKeyword: string;
-    }> = [];
+    const result: ClusterDraft[] = [];
     
     for (const [clusterKey, clusterKeywords] of clusters.entries()) {
       if (clusterKeywords.length >= minSize) {
         const topic = clusterKey.split('_')[0];
-        const primaryKeyword = this.selectPrimaryKeyword(clusterKeywords);
+        const orderedKeywords = this.orderByPrimary(clusterKeywords);
         
         result.push({
           name: `${topic}-cluster`,
           topic,
-          keywords: clusterKeywords,
-          primaryKeyword: primaryKeyword.keyword
+          keywords: orderedKeywords,
+          primaryKeyword: orderedKeywords[0].keyword
         });
       }
     }
@@ -337,10 +751,40 @@ export class KeywordService {
     }
   }
 
-  private selectPrimaryKeyword(keywords: K2WKeywordRecord[]): K2WKeywordRecord {
-    // Select the keyword with highest potential (for now, just return first)
-    // In production, consider search volume, competition, etc.
-    return keywords[0];
+  /**
+   * Put the primary keyword (highest search volume, then lowest difficulty) first
+   */
+  private orderByPrimary(keywords: K2WKeywordRecord[]): K2WKeywordRecord[] {
+    return [...keywords].sort((a, b) =>
+      (b.volume || 0) - (a.volume || 0) ||
+      (a.difficulty ?? 100) - (b.difficulty ?? 100) ||
+      a.keyword.length - b.keyword.length
+    );
+  }
+
+  /**
+   * Most frequent meaningful word across the cluster's keywords
+   */
+  private extractClusterTopic(keywords: K2WKeywordRecord[]): string {
+    const stopWords = ['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by'];
+    const counts = new Map<string, number>();
+
+    for (const keyword of keywords) {
+      const words = new Set(keyword.keyword.toLowerCase().split(/\s+/).filter(word => word && !stopWords.includes(word)));
+      for (const word of words) {
+        counts.set(word, (counts.get(word) || 0) + 1);
+      }
+    }
+
+    let topic = 'general';
+    let best = 0;
+    for (const [word, count] of counts) {
+      if (count > best) {
+        topic = word;
+        best = count;
+      }
+    }
+    return topic;
   }
 
   private generateContentStructure(topic: string, keywords: K2WKeywordRecord[]): any {
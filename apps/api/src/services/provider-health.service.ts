@@ -0,0 +1,250 @@
+/**
+ * Provider Health Service
+ * Per-provider circuit breakers for the AI providers: tracks error rate and latency of recent calls
+ * and opens a provider's circuit when it keeps failing, so callers skip it until its cool-off ends.
+ *
+ * closed    -> calls go through; too many failures open the circuit
+ * open      -> calls are skipped until the cool-off ends
+ * half-open -> a single trial call goes through; success closes, failure reopens with a longer cool-off
+ */
+
+import type { CircuitBreakerConfig, CircuitState, ProviderHealth, ProviderKind } from '../types/provider-health.types';
+
+const DEFAULT_CIRCUIT_CONFIG: CircuitBreakerConfig = {
+  failure_threshold: 3,
+  error_rate_threshold: 0.5,
+  window_size: 20,
+  min_calls: 10,
+  cool_off_ms: 60 * 1000,
+  max_cool_off_ms: 15 * 60 * 1000,
+  slow_call_ms: 30 * 1000
+};
+
+// Failures retrying won't fix (bad credentials, payment required, quota): open the circuit at once
+const FATAL_ERROR = /\b(401|402|403)\b|unauthori[sz]ed|forbidden|payment required|quota|insufficient credits/i;
+
+// HTTP status of a failed call: axios errors carry it on their response, SDK errors on themselves
+const hasResponseStatus = (error: unknown): error is { response: { status: number } } => {
+  const response = typeof error === 'object' && error !== null ? (error as { response?: unknown }).response : undefined;
+  return typeof response === 'object' && response !== null && typeof (response as { status?: unknown }).status === 'number';
+};
+
+const hasStatus = (error: unknown): error is { status: number } =>
+  typeof error === 'object' && error !== null && typeof (error as { status?: unknown }).status === 'number';
+
+interface CallOutcome {
+  success: boolean;
+  latency_ms: number;
+}
+
+interface CircuitBreaker {
+  provider: string;
+  kind: ProviderKind;
+  state: CircuitState;
+  outcomes: CallOutcome[];
+  consecutive_failures: number;
+  total_calls: number;
+  total_failures: number;
+  trips: number; // times reopened from half-open, for the cool-off backoff
+  trial_in_flight: boolean;
+  last_error?: string;
+  last_failure_at?: Date;
+  last_success_at?: Date;
+  opened_at?: Date;
+  next_attempt_at?: Date;
+}
+
+export class ProviderHealthService {
+  private config: CircuitBreakerConfig;
+  private breakers = new Map<string, CircuitBreaker>();
+
+  constructor(config: Partial<CircuitBreakerConfig> = {}) {
+    this.config = { ...DEFAULT_CIRCUIT_CONFIG, ...config };
+  }
+
+  /**
+   * Track a provider from startup, so it shows in the health report before its first call
+   */
+  register(provider: string, kind: ProviderKind): void {
+    this.getBreaker(provider, kind);
+  }
+
+  /**
+   * Whether a call to the provider should be made now. Moves an open circuit whose cool-off
+   * has ended to half-open and lets exactly one trial call through.
+   */
+  canRequest(provider: string): boolean {
+    const breaker = this.breakers.get(provider);
+    if (!breaker || breaker.state === 'closed') {
+      return true;
+    }
+
+    if (breaker.state === 'open') {
+      if (breaker.next_attempt_at && breaker.next_attempt_at.getTime() > Date.now()) {
+        return false;
+      }
+      breaker.state = 'half-open';
+      breaker.trial_in_flight = false;
+      console.log(`🔌 Circuit half-open for ${provider}, sending a trial call`);
+    }
+
+    if (breaker.trial_in_flight) {
+      return false;
+    }
+    breaker.trial_in_flight = true;
+    return true;
+  }
+
+  recordSuccess(provider: string, latencyMs: number, kind?: ProviderKind): void {
+    const breaker = this.getBreaker(provider, kind);
+    this.pushOutcome(breaker, { success: true, latency_ms: latencyMs });
+    breaker.consecutive_failures = 0;
+    breaker.last_success_at = new Date();
+
+    if (breaker.state !== 'closed') {
+      console.log(`✅ Circuit closed for ${provider}`);
+      breaker.state = 'closed';
+      breaker.outcomes = [{ success: true, latency_ms: latencyMs }];
+      breaker.trips = 0;
+      breaker.trial_in_flight = false;
+      breaker.opened_at = undefined;
+      breaker.next_attempt_at = undefined;
+    }
+  }
+
+  recordFailure(provider: string, latencyMs: number, error: unknown, kind?: ProviderKind): void {
+    const breaker = this.getBreaker(provider, kind);
+    const message = error instanceof Error && error.message ? error.message : String(error);
+    const status = hasResponseStatus(error) ? error.response.status : hasStatus(error) ? error.status : undefined;
+
+    this.pushOutcome(breaker, { success: false, latency_ms: latencyMs });
+    breaker.total_failures++;
+    breaker.consecutive_failures++;
+    breaker.last_error = message;
+    breaker.last_failure_at = new Date();
+
+    if (breaker.state === 'half-open') {
+      breaker.trips++;
+      this.open(breaker, `trial call failed: ${message}`);
+      return;
+    }
+    if (breaker.state === 'open') {
+      return;
+    }
+
+    const { failures, calls } = this.windowStats(breaker);
+    if (FATAL_ERROR.test(`${status ?? ''} ${message}`)) {
+      this.open(breaker, message);
+    } else if (breaker.consecutive_failures >= this.config.failure_threshold) {
+      this.open(breaker, `${breaker.consecutive_failures} consecutive failures`);
+    } else if (calls >= this.config.min_calls && failures / calls >= this.config.error_rate_threshold) {
+      this.open(breaker, `error rate ${Math.round((failures / calls) * 100)}% over the last ${calls} calls`);
+    }
+  }
+
+  getProviderHealth(provider: string): ProviderHealth | undefined {
+    const breaker = this.breakers.get(provider);
+    return breaker ? this.describe(breaker) : undefined;
+  }
+
+  getHealth(): ProviderHealth[] {
+    return Array.from(this.breakers.values()).map(breaker => this.describe(breaker));
+  }
+
+  /**
+   * Close a provider's circuit and forget its history, e.g. after fixing its credentials
+   */
+  reset(provider: string): boolean {
+    const breaker = this.breakers.get(provider);
+    if (!breaker) {
+      return false;
+    }
+    this.breakers.set(provider, this.createBreaker(provider, breaker.kind));
+    return true;
+  }
+
+  private open(breaker: CircuitBreaker, reason: string): void {
+    const coolOff = Math.min(this.config.cool_off_ms * 2 ** breaker.trips, this.config.max_cool_off_ms);
+    breaker.state = 'open';
+    breaker.trial_in_flight = false;
+    breaker.opened_at = new Date();
+    breaker.next_attempt_at = new Date(Date.now() + coolOff);
+    console.warn(`🔌 Circuit opened for ${breaker.provider} (${reason}), skipping it for ${Math.round(coolOff / 1000)}s`);
+  }
+
+  private pushOutcome(breaker: CircuitBreaker, outcome: CallOutcome): void {
+    breaker.total_calls++;
+    breaker.outcomes.push(outcome);
+    if (breaker.outcomes.length > this.config.window_size) {
+      breaker.outcomes.shift();
+    }
+  }
+
+  private windowStats(breaker: CircuitBreaker): { calls: number; failures: number } {
+    return {
+      calls: breaker.outcomes.length,
+      failures: breaker.outcomes.filter(outcome => !outcome.success).length
+    };
+  }
+
+  private describe(breaker: CircuitBreaker): ProviderHealth {
+    const { calls, failures } = this.windowStats(breaker);
+    const latencies = breaker.outcomes.map(outcome => outcome.latency_ms).sort((a, b) => a - b);
+    const avgLatency = latencies.length > 0 ? latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length : 0;
+    const p95Latency = latencies.length > 0 ? latencies[Math.min(latencies.length - 1, Math.floor(latencies.length * 0.95))] : 0;
+    const errorRate = calls > 0 ? failures / calls : 0;
+
+    // An open circuit whose cool-off ended is reported as it will behave on the next call
+    const coolingOff = breaker.state === 'open' && !!breaker.next_attempt_at && breaker.next_attempt_at.getTime() > Date.now();
+    const state: CircuitState = breaker.state === 'open' && !coolingOff ? 'half-open' : breaker.state;
+
+    return {
+      provider: breaker.provider,
+      kind: breaker.kind,
+      state,
+      status: state === 'open'
+        ? 'unavailable'
+        : state === 'half-open' || errorRate >= this.config.error_rate_threshold / 2 || avgLatency > this.config.slow_call_ms
+          ? 'degraded'
+          : 'healthy',
+      calls,
+      failures,
+      error_rate: errorRate,
+      avg_latency_ms: Math.round(avgLatency),
+      p95_latency_ms: p95Latency,
+      consecutive_failures: breaker.consecutive_failures,
+      total_calls: breaker.total_calls,
+      total_failures: breaker.total_failures,
+      last_error: breaker.last_error,
+      last_failure_at: breaker.last_failure_at?.toISOString(),
+      last_success_at: breaker.last_success_at?.toISOString(),
+      opened_at: breaker.opened_at?.toISOString(),
+      next_attempt_at: coolingOff ? breaker.next_attempt_at?.toISOString() : undefined
+    };
+  }
+
+  private getBreaker(provider: string, kind: ProviderKind = 'text'): CircuitBreaker {
+    let breaker = this.breakers.get(provider);
+    if (!breaker) {
+      breaker = this.createBreaker(provider, kind);
+      this.breakers.set(provider, breaker);
+    }
+    return breaker;
+  }
+
+  private createBreaker(provider: string, kind: ProviderKind): CircuitBreaker {
+    return {
+      provider,
+      kind,
+      state: 'closed',
+      outcomes: [],
+      consecutive_failures: 0,
+      total_calls: 0,
+      total_failures: 0,
+      trips: 0,
+      trial_in_flight: false
+    };
+  }
+}
+
+export const providerHealthService = new ProviderHealthService();
@@ -0,0 +1,109 @@
+import { CONTENT_STATUS, K2WPublishLogRecord, PUBLISH_STATUS } from '@k2w/database';
+import { contentRepository } from '../repositories/k2w-optimized.repository';
+import { PublishingAutomationService, PublishingTarget } from './publishing-automation.service';
+import { publishingTargetRegistry } from './publishing-targets.service';
+import { siteFeedService } from './site-feed.service';
+
+jest.mock('../repositories/k2w-optimized.repository', () => ({
+  contentRepository: {
+    findById: jest.fn(),
+    findPublishLogs: jest.fn(),
+    updatePublishLog: jest.fn(async () => ({})),
+    updateStatus: jest.fn(async () => ({}))
+  }
+}));
+
+jest.mock('./site-feed.service', () => ({
+  siteFeedService: { unpublish: jest.fn(async () => []) }
+}));
+
+jest.mock('./search-indexing.service', () => ({
+  searchIndexingService: { submit: jest.fn(async () => []) }
+}));
+
+const repository = contentRepository as jest.Mocked<typeof contentRepository>;
+
+const webflowTarget = (id: string): PublishingTarget => ({
+  id,
+  name: `${id}.example.com`,
+  platform: 'webflow',
+  config: { api_token: 'mock_token', site_id: 'site-1', collection_id: 'collection-1' },
+  is_active: true
+});
+
+const publishLog = (targetId: string | undefined, overrides: Partial<K2WPublishLogRecord> = {}): K2WPublishLogRecord => ({
+  id: `log-${targetId ?? 'legacy'}`,
+  content_id: 'content-1',
+  target_url: `https://${targetId ?? 'legacy'}.example.com/solar-panels`,
+  platform: 'webflow',
+  status: PUBLISH_STATUS.PUBLISHED,
+  published_at: '2026-01-01T00:00:00.000Z',
+  retry_count: 0,
+  metadata: { domain: `${targetId ?? 'legacy'}.example.com`, target_id: targetId, cms_post_id: 'item-1' },
+  ...overrides
+} as K2WPublishLogRecord);
+
+describe('PublishingAutomationService.unpublish', () => {
+  let service: PublishingAutomationService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.clearAllMocks();
+    repository.findById.mockResolvedValue({ id: 'content-1', status: CONTENT_STATUS.PUBLISHED } as any);
+    publishingTargetRegistry.register([webflowTarget('site-a'), webflowTarget('site-b')]);
+    service = new PublishingAutomationService();
+  });
+
+  afterEach(async () => {
+    await service.close();
+    publishingTargetRegistry.close();
+    jest.restoreAllMocks();
+  });
+
+  it('takes content down from every target it is live on, then archives it', async () => {
+    repository.findPublishLogs.mockResolvedValue([publishLog('site-a'), publishLog('site-b')]);
+
+    const result = await service.unpublish('content-1');
+
+    expect(Object.keys(result!.results).sort()).toEqual(['site-a', 'site-b']);
+    expect(result!.status).toBe(CONTENT_STATUS.ARCHIVED);
+    expect(repository.updateStatus).toHaveBeenCalledWith('content-1', CONTENT_STATUS.ARCHIVED);
+    expect(siteFeedService.unpublish).toHaveBeenCalledWith('content-1');
+  });
+
+  it('does not archive content still live on targets that were not unpublished', async () => {
+    const logs = [publishLog('site-a'), publishLog('site-b')];
+    repository.findPublishLogs.mockResolvedValue(logs);
+    repository.updatePublishLog.mockImplementation(async (id, updates) => {
+      Object.assign(logs.find(log => log.id === id)!, updates);
+      return {} as any;
+    });
+
+    const result = await service.unpublish('content-1', {}, ['site-a']);
+
+    expect(result!.results['site-a'].success).toBe(true);
+    expect(result!.status).toBe(CONTENT_STATUS.PUBLISHED);
+    expect(repository.updateStatus).not.toHaveBeenCalled();
+    expect(siteFeedService.unpublish).not.toHaveBeenCalled();
+  });
+
+  it('does not archive content live on a target it cannot take it down from', async () => {
+    repository.findPublishLogs.mockResolvedValue([publishLog('site-a'), publishLog('site-gone'), publishLog(undefined)]);
+
+    const result = await service.unpublish('content-1');
+
+    expect(result!.results['site-gone']).toMatchObject({ success: false, error_message: expect.stringContaining('no longer known') });
+    expect(result!.results['webflow:legacy.example.com']).toMatchObject({ success: false, error_message: expect.stringContaining('by hand') });
+    expect(result!.status).toBe(CONTENT_STATUS.PUBLISHED);
+    expect(repository.updateStatus).not.toHaveBeenCalled();
+  });
+
+  it('rejects targets the content is not live on', async () => {
+    repository.findPublishLogs.mockResolvedValue([
+      publishLog('site-a'),
+      publishLog('site-b', { metadata: { domain: 'site-b.example.com', target_id: 'site-b', unpublished_at: '2026-02-01T00:00:00.000Z' } })
+    ]);
+
+    await expect(service.unpublish('content-1', {}, ['site-b'])).rejects.toThrow('Content content-1 is not live on site-b');
+  });
+});
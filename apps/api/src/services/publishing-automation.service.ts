@@ -4,8 +4,18 @@
  */
 
 import axios from 'axios';
-import { K2WContentRecord, K2WPublishLogRecord, PUBLISH_STATUS } from '@k2w/database';
+import { CONTENT_STATUS, K2WContentRecord, K2WPublishLogRecord, PUBLISH_STATUS, UpdateK2WPublishLog } from '@k2w/database';
+import { contentRepository } from '../repositories/k2w-optimized.repository';
 import { generateAestheticTailwindLandingPage } from './cda-landing-template';
+import { generateABTestingSnippet } from './ab-testing-snippet';
+import { publishingScheduler } from './publishing-scheduler.service';
+import { QueueJob, SQLiteQueue, UnrecoverableError } from './sqlite-queue.service';
+import { siteFeedService } from './site-feed.service';
+import { searchIndexingService } from './search-indexing.service';
+import { publishingTargetRegistry, PublishingTargetRef, toTargetRef } from './publishing-targets.service';
+import { deployStaticFiles, redirectPage, removeStaticFiles } from './static-site-deploy';
+import { createError } from '../middleware/error-handler.middleware';
+import type { SiteFeedSyncResult } from '../types/site-feed.types';
 
 export interface PublishingTarget {
   id: string;
@@ -62,6 +72,8 @@ export interface StaticConfig {
   cdn_enabled: boolean;
 }
 
+export type PublishErrorType = 'transient' | 'permanent';
+
 export interface PublishResult {
   success: boolean;
   platform: string;
@@ -69,6 +81,8 @@ export interface PublishResult {
   cms_post_id?: string;
   deployment_id?: string;
   error_message?: string;
+  error_type?: PublishErrorType;
+  failed_publish_id?: string; // retry of a failed publish, see listFailedPublishes
   metadata: {
     publish_time: string;
     content_id: string;
@@ -86,7 +100,120 @@ export interface PublishOptions {
   quality_check: boolean;
 }
 
+/** A failed publish waiting for its retry; its target's config is looked up when it runs */
+export interface PublishRetryJobData {
+  publish_log_id?: string;
+  content_id: string;
+  title: string;
+  target: PublishingTargetRef;
+  options: PublishOptions;
+  error_type: PublishErrorType; // of the first failure
+  error_message?: string;
+}
+
+export interface FailedPublish {
+  id: string;
+  publish_log_id?: string;
+  content_id: string;
+  title: string;
+  target: PublishingTargetRef; // configs hold credentials and are not returned
+  status: 'retrying' | 'failed';
+  error_type: PublishErrorType;
+  error_message?: string;
+  attempts: number;
+  max_attempts: number;
+  next_retry_at?: string;
+  failed_at?: string;
+}
+
+/** Outcome of updating or unpublishing content on one target it is live on */
+export interface LiveTargetResult {
+  target_id: string;
+  platform: PublishingTarget['platform'];
+  success: boolean;
+  url?: string;
+  redirect?: { to: string; type: 'permanent' | 'meta-refresh' }; // 301, or a redirect page on static hosts
+  redirect_error?: string; // unpublished, but the redirect could not be created
+  error_message?: string;
+}
+
+export interface LiveContentResult {
+  content_id: string;
+  status: K2WContentRecord['status'];
+  results: Record<string, LiveTargetResult>;
+  sites?: SiteFeedSyncResult[]; // sitemaps and feeds the content was taken off
+}
+
+/** A target content is live on, found through its latest live publish log */
+interface LivePublish {
+  target_id: string;
+  platform: PublishingTarget['platform'];
+  log: K2WPublishLogRecord;
+  target: PublishingTarget | null; // null: the target's config is not known
+}
+
+export interface UnpublishOptions {
+  redirect_to?: string; // absolute URL the unpublished pages redirect to
+}
+
+export interface PublishError extends Error {
+  status?: number; // HTTP status of the platform response
+  code?: string; // network error code, e.g. ECONNRESET
+}
+
+export const PUBLISH_RETRY_JOB_TYPE = 'publish-retry';
+
+const MAX_PUBLISH_RETRIES = Number(process.env.PUBLISH_MAX_RETRIES) || 5;
+// First retry after this delay, doubling for each further retry
+const PUBLISH_RETRY_DELAY_MS = Number(process.env.PUBLISH_RETRY_DELAY_MS) || 30000;
+
+const TRANSIENT_HTTP_STATUSES = new Set([408, 425, 429]);
+const TRANSIENT_NETWORK_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'ERR_NETWORK', 'ERR_BAD_RESPONSE'
+]);
+
+/**
+ * Transient: 5xx, 408/425/429, timeouts and dropped connections, worth retrying with backoff.
+ * Everything else (rejected credentials, validation errors, bad config) is permanent.
+ */
+export const classifyPublishError = (error: unknown): PublishErrorType => {
+  const { status, code, message = '' } = (error || {}) as PublishError;
+
+  if (status) {
+    return status >= 500 || TRANSIENT_HTTP_STATUSES.has(status) ? 'transient' : 'permanent';
+  }
+  if (code && TRANSIENT_NETWORK_CODES.has(code)) {
+    return 'transient';
+  }
+  return /timed? ?out|rate limit|too many requests|socket hang up|temporarily unavailable/i.test(message)
+    ? 'transient'
+    : 'permanent';
+};
+
+const isMockWebflow = (config: WebflowConfig) =>
+  !config.api_token || config.api_token === 'mock_token' || config.api_token.includes('mock');
+
+// Last path segment of a published URL: the page's file on Replit and static hosts
+const publishedFileName = (url: string): string => {
+  const fileName = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+  if (!fileName) {
+    throw new Error(`No page file in published URL ${url}`);
+  }
+  return fileName;
+};
+
+// Keep the status and network code of a platform error when adding the platform to its message
+const platformError = (message: string, error: any): PublishError => {
+  const wrapped: PublishError = new Error(message);
+  wrapped.status = error?.response?.status ?? error?.status;
+  wrapped.code = error?.code;
+  return wrapped;
+};
+
 export class PublishingAutomationService {
+  private retryQueue?: SQLiteQueue;
+  private retryWorkerStarted = false;
+
   private defaultOptions: PublishOptions = {
     auto_social_share: false,
     generate_sitemap: true,
@@ -105,6 +232,7 @@ export class PublishingAutomationService {
   ): Promise<Record<string, PublishResult>> {
     const publishOptions = { ...this.defaultOptions, ...options };
     const results: Record<string, PublishResult> = {};
+    publishingTargetRegistry.register(targets);
 
     // Pre-publish quality check
     if (publishOptions.quality_check) {
@@ -126,13 +254,14 @@ export class PublishingAutomationService {
         results[target.id] = result;
 
         // Log successful publish
-        await this.logPublish(content.id, target, result, 'published');
+        await this.logPublish(content.id, target, result, PUBLISH_STATUS.PUBLISHED);
 
       } catch (error: any) {
         const errorResult: PublishResult = {
           success: false,
           platform: target.platform,
           error_message: error.message,
+          error_type: classifyPublishError(error),
           metadata: {
             publish_time: new Date().toISOString(),
             content_id: content.id,
@@ -142,13 +271,13 @@ export class PublishingAutomationService {
         };
         
         results[target.id] = errorResult;
-        await this.logPublish(content.id, target, errorResult, 'failed');
+        errorResult.failed_publish_id = await this.queueRetry(content, target, publishOptions, errorResult);
       }
     }
 
     // Post-publish actions
     if (Object.values(results).some(r => r.success)) {
-      await this.performPostPublishActions(content, results, publishOptions);
+      await this.performPostPublishActions(content, results, publishOptions, targets);
     }
 
     return results;
@@ -189,18 +318,11 @@ export class PublishingAutomationService {
     const apiUrl = `${config.site_url}/wp-json/wp/v2/posts`;
     
     const postData = {
-      title: content.title,
-      content: content.body_html,
+      ...this.wordPressPostFields(content),
       status: options.schedule_time ? 'future' : 'publish',
       date: options.schedule_time || new Date().toISOString(),
-      excerpt: content.meta_description || '',
       categories: config.category_id ? [config.category_id] : [],
-      author: config.author_id || 1,
-      meta: {
-        _yoast_wpseo_title: content.meta_title || content.title,
-        _yoast_wpseo_metadesc: content.meta_description || '',
-        _yoast_wpseo_focuskw: this.extractPrimaryKeyword(content)
-      }
+      author: config.author_id || 1
     };
 
     const auth = Buffer.from(`${config.username}:${config.password}`).toString('base64');
@@ -243,7 +365,7 @@ export class PublishingAutomationService {
       };
 
     } catch (error: any) {
-      throw new Error(`WordPress publish failed: ${error.response?.data?.message || error.message}`);
+      throw platformError(`WordPress publish failed: ${error.response?.data?.message || error.message}`, error);
     }
   }
 
@@ -300,7 +422,7 @@ export class PublishingAutomationService {
       };
 
     } catch (error: any) {
-      throw new Error(`Firebase publish failed: ${error.message}`);
+      throw platformError(`Firebase publish failed: ${error.message}`, error);
     }
   }
 
@@ -318,35 +440,10 @@ export class PublishingAutomationService {
       const htmlContent = this.generateHTMLContent(content);
 
       // Upload file to Replit via API
-      const uploadResponse = await axios.post(
-        `${config.repl_url}/api/files`,
-        {
-          path: `content/${fileName}`,
-          content: htmlContent
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${config.api_token}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
+      await this.uploadReplitFile(config, fileName, htmlContent);
 
       // Trigger deployment
-      const deployResponse = await axios.post(
-        `${config.repl_url}/api/deploy`,
-        {
-          branch: config.deployment_branch,
-          build_command: config.build_command,
-          start_command: config.start_command
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${config.api_token}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
+      const deploymentId = await this.deployReplit(config);
 
       const publishedUrl = `${config.repl_url}/${fileName}`;
 
@@ -354,7 +451,7 @@ export class PublishingAutomationService {
         success: true,
         platform: 'replit',
         published_url: publishedUrl,
-        deployment_id: deployResponse.data.deployment_id,
+        deployment_id: deploymentId,
         metadata: {
           publish_time: new Date().toISOString(),
           content_id: content.id,
@@ -364,7 +461,7 @@ export class PublishingAutomationService {
       };
 
     } catch (error: any) {
-      throw new Error(`Replit publish failed: ${error.message}`);
+      throw platformError(`Replit publish failed: ${error.message}`, error);
     }
   }
 
@@ -380,137 +477,29 @@ export class PublishingAutomationService {
       const fileName = `${this.generateSlug(content.title)}.html`;
       const htmlContent = this.generateHTMLContent(content);
 
-      // Check if it is a GitHub repo configuration
-      const isGitHub = config.deployment_url && (
-        config.deployment_url.includes('github.com') ||
-        (config.api_key && config.api_key.startsWith('ghp_'))
+      const deployment = await deployStaticFiles(
+        config,
+        [{ path: fileName, content: htmlContent }],
+        `Publish content: ${content.title} via K2W System`
       );
 
-      if (isGitHub) {
-        console.log(`[PublishingService] Publishing to GitHub Pages repository: ${config.deployment_url}`);
-        
-        // Clean URL to get owner and repo
-        let owner = '';
-        let repo = '';
-        const cleanUrl = config.deployment_url
-          .replace('https://github.com/', '')
-          .replace('http://github.com/', '')
-          .replace('git@github.com:', '');
-        const parts = cleanUrl.split('/');
-        if (parts.length >= 2) {
-          owner = parts[0];
-          repo = parts[1].replace('.git', '');
-        } else {
-          throw new Error(`Invalid GitHub Repository URL: ${config.deployment_url}. Use "owner/repo" or "https://github.com/owner/repo"`);
-        }
-
-        const branch = config.build_directory || 'main';
-        const token = config.api_key;
-        const path = fileName; // Upload to root
-
-        const githubApiUrl = `https://api.github.com/repos/${owner}/${repo}/contents/${path}`;
-        const headers = {
-          'Authorization': `token ${token}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'Content-Type': 'application/json',
-          'User-Agent': 'K2W-Automation-System'
-        };
-
-        // 1. Check if file exists to get SHA (for updates)
-        let sha: string | undefined;
-        try {
-          const checkRes = await axios.get(githubApiUrl, { headers });
-          if (checkRes.data && checkRes.data.sha) {
-            sha = checkRes.data.sha;
-          }
-        } catch (err: any) {
-          if (err.response?.status !== 404) {
-            console.error('[GitHub API] Check existing file error:', err.message);
-          }
-        }
-
-        // 2. Base64 encode the HTML content
-        const base64Content = Buffer.from(htmlContent).toString('base64');
-
-        // 3. Upload/Update file on GitHub
-        const uploadResponse = await axios.put(
-          githubApiUrl,
-          {
-            message: `Publish content: ${content.title} via K2W System`,
-            content: base64Content,
-            branch,
-            ...(sha && { sha })
-          },
-          { headers }
-        );
-
-        // 4. Form public published URL
-        let publishedUrl = '';
-        if (config.custom_domain) {
-          publishedUrl = config.custom_domain.startsWith('http') 
-            ? `${config.custom_domain}/${fileName}`
-            : `https://${config.custom_domain}/${fileName}`;
-        } else {
-          // Default GitHub Pages naming structure: https://owner.github.io/repo/filename.html
-          publishedUrl = `https://${owner}.github.io/${repo}/${fileName}`;
-        }
-
-        return {
-          success: true,
-          platform: 'static',
-          published_url: publishedUrl,
-          cms_post_id: uploadResponse.data.content.sha,
-          metadata: {
-            publish_time: new Date().toISOString(),
-            content_id: content.id,
-            target_config: 'github_pages',
-            retry_count: 0
-          }
-        };
-      }
-
-      // Default HTTP Endpoint deployment
-      const deployResponse = await axios.post(
-        `${config.deployment_url}/api/deploy`,
-        {
-          files: [
-            {
-              path: fileName,
-              content: htmlContent,
-              encoding: 'utf8'
-            }
-          ],
-          build_directory: config.build_directory,
-          cdn_enabled: config.cdn_enabled
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${config.api_key}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
-
-      const publishedUrl = config.custom_domain 
-        ? `https://${config.custom_domain}/${fileName}`
-        : `${deployResponse.data.deployment_url}/${fileName}`;
-
       return {
         success: true,
         platform: 'static',
-        published_url: publishedUrl,
-        deployment_id: deployResponse.data.deployment_id,
+        published_url: `${deployment.base_url}/${fileName}`,
+        cms_post_id: deployment.shas[fileName],
+        deployment_id: deployment.deployment_id,
         metadata: {
           publish_time: new Date().toISOString(),
           content_id: content.id,
-          target_config: 'static',
+          target_config: deployment.target_config,
           retry_count: 0
         }
       };
 
     } catch (error: any) {
       const errMsg = error.response?.data?.message || error.message;
-      throw new Error(`Static hosting/GitHub Pages publish failed: ${errMsg}`);
+      throw platformError(`Static hosting/GitHub Pages publish failed: ${errMsg}`, error);
     }
   }
 
@@ -564,19 +553,20 @@ export class PublishingAutomationService {
   }
 
   /**
-   * Log publishing attempt
+   * Log publishing attempt to publish_log. A failed write is reported but never fails the publish.
    */
   private async logPublish(
     contentId: string,
     target: PublishingTarget,
     result: PublishResult,
-    status: string
-  ): Promise<void> {
+    status: K2WPublishLogRecord['status'],
+    metadata: Partial<K2WPublishLogRecord['metadata']> = {}
+  ): Promise<K2WPublishLogRecord | null> {
     const logEntry: Omit<K2WPublishLogRecord, 'id'> = {
       content_id: contentId,
       target_url: result.published_url || target.name,
       platform: target.platform,
-      status: status as any,
+      status,
       response_data: result,
       error_message: result.error_message,
       published_at: result.success ? new Date().toISOString() : undefined,
@@ -584,12 +574,145 @@ export class PublishingAutomationService {
       metadata: {
         deployment_id: result.deployment_id,
         cms_post_id: result.cms_post_id,
-        domain: target.name
+        domain: target.name,
+        target_id: target.id,
+        error_type: result.error_type,
+        ...metadata
       }
     };
 
-    // Save to database (implementation depends on your database service)
-    console.log('Publish log entry:', logEntry);
+    try {
+      return await contentRepository.createPublishLog(logEntry);
+    } catch (error: any) {
+      console.error(`Failed to write publish log for ${contentId} (${target.platform}):`, error.message || error);
+      return null;
+    }
+  }
+
+  private async updatePublishLog(logId: string | undefined, updates: UpdateK2WPublishLog): Promise<void> {
+    if (!logId) return;
+
+    try {
+      await contentRepository.updatePublishLog(logId, updates);
+    } catch (error: any) {
+      console.error(`Failed to update publish log ${logId}:`, error.message || error);
+    }
+  }
+
+  /**
+   * Log a failed publish and queue its retry. Transient errors are retried with exponential backoff;
+   * permanent ones go straight to the failed list to wait for a manual retry. Returns the failed publish id.
+   */
+  private async queueRetry(
+    content: K2WContentRecord,
+    target: PublishingTarget,
+    options: PublishOptions,
+    result: PublishResult
+  ): Promise<string> {
+    const transient = result.error_type === 'transient';
+    const log = await this.logPublish(
+      content.id,
+      target,
+      result,
+      transient ? PUBLISH_STATUS.QUEUED : PUBLISH_STATUS.FAILED,
+      transient ? { next_retry_at: new Date(Date.now() + PUBLISH_RETRY_DELAY_MS).toISOString() } : {}
+    );
+
+    const queue = this.getRetryQueue();
+    const jobId = await queue.add<PublishRetryJobData>(PUBLISH_RETRY_JOB_TYPE, {
+      publish_log_id: log?.id,
+      content_id: content.id,
+      title: content.title,
+      target: toTargetRef(target),
+      options,
+      error_type: result.error_type || 'permanent',
+      error_message: result.error_message
+    }, {
+      jobId: `pubretry_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+      delay: PUBLISH_RETRY_DELAY_MS,
+      maxAttempts: MAX_PUBLISH_RETRIES,
+      // The queue waits backoffDelay * 2^(attempt - 1) after a failed retry
+      backoffDelay: PUBLISH_RETRY_DELAY_MS * 2
+    });
+
+    if (!transient) {
+      queue.fail(jobId, result.error_message || 'Publish failed');
+    }
+
+    console.log(`🔁 ${target.platform} publish of ${content.id} failed (${result.error_type}): ${transient ? 'retry queued' : 'waiting for a manual retry'}`);
+    return jobId;
+  }
+
+  /**
+   * Run one retry of a failed publish; transient failures are retried by the queue until attempts run out
+   */
+  private async processRetry(job: QueueJob<PublishRetryJobData>): Promise<PublishResult> {
+    const { data } = job;
+
+    const content = await contentRepository.findById(data.content_id);
+    if (!content) {
+      throw new UnrecoverableError(`Content ${data.content_id} no longer exists`);
+    }
+
+    const log = data.publish_log_id ? await contentRepository.findPublishLogById(data.publish_log_id) : null;
+    const retryCount = (log?.retry_count ?? 0) + 1;
+    const metadata = log?.metadata || { domain: data.target.name, target_id: data.target.id };
+
+    const target = publishingTargetRegistry.get(data.target.id);
+    if (!target) {
+      const message = `Publishing target ${data.target.id} is no longer known; pass it to a publish again, then retry`;
+      await this.updatePublishLog(data.publish_log_id, { status: PUBLISH_STATUS.FAILED, error_message: message });
+      throw new UnrecoverableError(message);
+    }
+    await this.updatePublishLog(data.publish_log_id, { status: PUBLISH_STATUS.PUBLISHING, retry_count: retryCount });
+
+    try {
+      const result = await this.publishToTarget(content, target, data.options);
+      result.metadata.retry_count = retryCount;
+
+      await this.updatePublishLog(data.publish_log_id, {
+        status: PUBLISH_STATUS.PUBLISHED,
+        target_url: result.published_url || data.target.name,
+        response_data: result,
+        published_at: new Date().toISOString(),
+        retry_count: retryCount,
+        metadata: {
+          ...metadata,
+          deployment_id: result.deployment_id,
+          cms_post_id: result.cms_post_id,
+          next_retry_at: undefined
+        }
+      });
+
+      // Live on every target once no other publish of the content is failed or waiting for a retry
+      const status = this.listFailedPublishes({ content_id: content.id }).some(failed => failed.id !== job.id)
+        ? CONTENT_STATUS.UPDATING
+        : CONTENT_STATUS.PUBLISHED;
+      if (content.status !== status) {
+        await contentRepository.updateStatus(content.id, status);
+      }
+      await this.performPostPublishActions(content, { [target.id]: result }, data.options, [target]);
+
+      console.log(`✅ ${data.target.platform} publish of ${content.id} succeeded on retry ${retryCount}`);
+      return result;
+    } catch (error: any) {
+      const errorType = classifyPublishError(error);
+      const willRetry = errorType === 'transient' && job.attempts < job.maxAttempts;
+      const retryIn = job.backoffDelay * Math.pow(2, job.attempts - 1);
+
+      await this.updatePublishLog(data.publish_log_id, {
+        status: willRetry ? PUBLISH_STATUS.QUEUED : PUBLISH_STATUS.FAILED,
+        error_message: error.message,
+        retry_count: retryCount,
+        metadata: {
+          ...metadata,
+          error_type: errorType,
+          next_retry_at: willRetry ? new Date(Date.now() + retryIn).toISOString() : undefined
+        }
+      });
+
+      throw errorType === 'permanent' ? new UnrecoverableError(error.message) : error;
+    }
   }
 
   /**
@@ -598,16 +721,17 @@ export class PublishingAutomationService {
   private async performPostPublishActions(
     content: K2WContentRecord,
     results: Record<string, PublishResult>,
-    options: PublishOptions
+    options: PublishOptions,
+    targets: PublishingTarget[]
   ): Promise<void> {
     const successfulPublishes = Object.values(results).filter(r => r.success);
 
     if (options.generate_sitemap) {
-      await this.updateSitemap(successfulPublishes);
+      await this.updateSitemap(content, targets, results);
     }
 
     if (options.notify_search_engines) {
-      await this.notifySearchEngines(successfulPublishes);
+      await this.notifySearchEngines(content, targets, results);
     }
 
     if (options.auto_social_share) {
@@ -616,47 +740,398 @@ export class PublishingAutomationService {
   }
 
   /**
-   * Update sitemap with new content
+   * Add the new pages to their sites' sitemaps and feeds; a failed update never fails the publish
    */
-  private async updateSitemap(publishes: PublishResult[]): Promise<void> {
-    // Implementation would generate/update XML sitemap
-    console.log('Updating sitemap for:', publishes.map(p => p.published_url));
+  private async updateSitemap(
+    content: K2WContentRecord,
+    targets: PublishingTarget[],
+    results: Record<string, PublishResult>
+  ): Promise<void> {
+    try {
+      const publishes = targets
+        .filter(target => results[target.id]?.success)
+        .map(target => ({ target, result: results[target.id] }));
+
+      for (const sync of await siteFeedService.recordPublish(content, publishes)) {
+        console.log(`🗺️ Sitemap and feeds of ${sync.site_url}: ${sync.changed.length} files changed, ${sync.deployed.length} deployed`);
+      }
+    } catch (error) {
+      console.error('Failed to update sitemap and feeds:', error);
+    }
   }
 
   /**
-   * Notify search engines of new content
+   * Push the current version of content to the targets it is live on, all of them or those of
+   * targetIds, in place: same post, item or file, found through the ids in its publish logs. Targets
+   * are looked up by the id logged with the publish. Content is UPDATING until every target has the
+   * new version, then PUBLISHED again.
    */
-  private async notifySearchEngines(publishes: PublishResult[]): Promise<void> {
-    for (const publish of publishes) {
-      if (publish.published_url) {
+  async republish(
+    contentId: string,
+    options: Partial<PublishOptions> = {},
+    targetIds?: string[]
+  ): Promise<LiveContentResult | null> {
+    const content = await contentRepository.findById(contentId);
+    if (!content) return null;
+
+    const live = await this.findLivePublishes(contentId, targetIds);
+    if (live.length === 0) {
+      throw createError(`Content ${contentId} is not live on any target`, 409);
+    }
+
+    const publishOptions = { ...this.defaultOptions, ...options };
+    await contentRepository.updateStatus(contentId, CONTENT_STATUS.UPDATING);
+
+    const results: Record<string, LiveTargetResult> = {};
+    const updated: Record<string, PublishResult> = {};
+    const updatedTargets: PublishingTarget[] = [];
+    for (const entry of live) {
+      const { target, log } = entry;
+      if (!target) {
+        results[entry.target_id] = this.liveTargetResult(entry, { success: false, error_message: this.unknownTargetMessage(entry) });
+        continue;
+      }
+
+      try {
+        const result = await this.updateOnTarget(content, target, log);
+        updated[target.id] = result;
+        updatedTargets.push(target);
+        await this.updatePublishLog(log.id, {
+          status: PUBLISH_STATUS.UPDATED,
+          target_url: result.published_url || log.target_url,
+          response_data: result,
+          published_at: result.metadata.publish_time,
+          metadata: {
+            ...log.metadata,
+            cms_post_id: result.cms_post_id || log.metadata.cms_post_id,
+            deployment_id: result.deployment_id || log.metadata.deployment_id
+          }
+        });
+        results[target.id] = this.liveTargetResult(entry, { success: true, url: result.published_url });
+      } catch (error: any) {
+        results[target.id] = this.liveTargetResult(entry, { success: false, error_message: error.message });
+      }
+    }
+
+    const status = Object.values(results).every(result => result.success) ? CONTENT_STATUS.PUBLISHED : CONTENT_STATUS.UPDATING;
+    await contentRepository.updateStatus(contentId, status);
+
+    if (updatedTargets.length > 0) {
+      // Refresh sitemaps and search engines; the content was shared when first published
+      await this.performPostPublishActions(content, updated, { ...publishOptions, auto_social_share: false }, updatedTargets);
+    }
+
+    console.log(`🔄 Republished ${contentId} to ${updatedTargets.length}/${live.length} targets`);
+    return { content_id: contentId, status, results };
+  }
+
+  /**
+   * Take content down from the targets it is live on, all of them or those of targetIds, optionally
+   * redirecting its pages (301 where the platform has redirects, a redirect page on static hosts).
+   * Targets are looked up by the id logged with the publish. Once the content is live nowhere, it is
+   * taken off its sites' sitemaps and feeds and ARCHIVED; while any page stays online it is not.
+   */
+  async unpublish(
+    contentId: string,
+    options: UnpublishOptions = {},
+    targetIds?: string[]
+  ): Promise<LiveContentResult | null> {
+    if (options.redirect_to && !/^https?:\/\//.test(options.redirect_to)) {
+      throw createError('redirect_to must be an absolute http(s) URL', 400);
+    }
+
+    const content = await contentRepository.findById(contentId);
+    if (!content) return null;
+
+    const live = await this.findLivePublishes(contentId, targetIds);
+    const results: Record<string, LiveTargetResult> = {};
+    for (const entry of live) {
+      const { target, log } = entry;
+      if (!target) {
+        results[entry.target_id] = this.liveTargetResult(entry, { success: false, error_message: this.unknownTargetMessage(entry) });
+        continue;
+      }
+
+      try {
+        const removal = await this.removeFromTarget(target, log, options.redirect_to);
+        await this.updatePublishLog(log.id, {
+          metadata: {
+            ...log.metadata,
+            unpublished_at: new Date().toISOString(),
+            ...(removal.redirect && { redirect_to: removal.redirect.to })
+          }
+        });
+        results[target.id] = this.liveTargetResult(entry, { success: true, url: log.target_url, ...removal });
+
         try {
-          // Google Search Console API
-          await axios.post(
-            'https://www.googleapis.com/indexing/v3/urlNotifications',
-            {
-              url: publish.published_url,
-              type: 'URL_UPDATED'
-            },
-            {
-              headers: {
-                'Content-Type': 'application/json',
-                // Add authorization header with service account key
-              }
-            }
-          );
+          // A redirected URL is recrawled to pick up the redirect; a removed one is dropped
+          await searchIndexingService.submit({
+            urls: [log.target_url],
+            target,
+            action: removal.redirect ? 'URL_UPDATED' : 'URL_DELETED',
+            content_id: contentId
+          });
+        } catch (error) {
+          console.error(`Failed to queue search engine notification for ${log.target_url}:`, error);
+        }
+      } catch (error: any) {
+        results[target.id] = this.liveTargetResult(entry, { success: false, error_message: error.message });
+      }
+    }
 
-          // Bing Webmaster Tools API
-          await axios.post(
-            'https://ssl.bing.com/webmaster/api.svc/json/SubmitUrl',
-            {
-              siteUrl: new URL(publish.published_url).origin,
-              url: publish.published_url
-            }
+    // Pages still online: failed above, or on targets that were not asked for
+    const stillLive = !Object.values(results).every(result => result.success)
+      || (targetIds !== undefined && (await this.findLivePublishes(contentId)).length > 0);
+    if (stillLive) {
+      return { content_id: contentId, status: content.status, results };
+    }
+
+    const sites = await siteFeedService.unpublish(contentId);
+    if (content.status === CONTENT_STATUS.PUBLISHED || content.status === CONTENT_STATUS.UPDATING) {
+      await contentRepository.updateStatus(contentId, CONTENT_STATUS.ARCHIVED);
+    }
+
+    console.log(`📴 Unpublished ${contentId} from ${live.length} targets`);
+    return {
+      content_id: contentId,
+      status: content.status === CONTENT_STATUS.PUBLISHED || content.status === CONTENT_STATUS.UPDATING
+        ? CONTENT_STATUS.ARCHIVED
+        : content.status,
+      results,
+      sites
+    };
+  }
+
+  /**
+   * Latest live publish log per target, with the target looked up by the id logged with it. Logs
+   * written before target ids were logged are keyed by platform and domain and have no target.
+   * Throws when a requested target has no live page.
+   */
+  private async findLivePublishes(contentId: string, targetIds?: string[]): Promise<LivePublish[]> {
+    const logs = (await contentRepository.findPublishLogs(contentId))
+      .filter(log => (log.status === PUBLISH_STATUS.PUBLISHED || log.status === PUBLISH_STATUS.UPDATED) && !log.metadata?.unpublished_at)
+      .sort((a, b) => (b.published_at || '').localeCompare(a.published_at || ''));
+
+    const live = new Map<string, LivePublish>();
+    for (const log of logs) {
+      const targetId = log.metadata?.target_id || `${log.platform}:${log.metadata?.domain || log.id}`;
+      if (live.has(targetId) || (targetIds && !targetIds.includes(targetId))) continue;
+
+      live.set(targetId, {
+        target_id: targetId,
+        platform: log.platform,
+        log,
+        target: log.metadata?.target_id ? publishingTargetRegistry.get(targetId) : null
+      });
+    }
+
+    const notLive = (targetIds || []).filter(targetId => !live.has(targetId));
+    if (notLive.length > 0) {
+      throw createError(`Content ${contentId} is not live on ${notLive.join(', ')}`, 409);
+    }
+    return [...live.values()];
+  }
+
+  private unknownTargetMessage(entry: LivePublish): string {
+    return entry.log.metadata?.target_id
+      ? `Publishing target ${entry.target_id} is no longer known; pass it to a publish or schedule again`
+      : `Published before target ids were logged; take ${entry.log.target_url} down on ${entry.platform} by hand`;
+  }
+
+  /**
+   * Replace the live version on a target with the current content
+   */
+  private async updateOnTarget(
+    content: K2WContentRecord,
+    target: PublishingTarget,
+    log: K2WPublishLogRecord
+  ): Promise<PublishResult> {
+    const result = (fields: Partial<PublishResult>): PublishResult => ({
+      success: true,
+      platform: target.platform,
+      published_url: log.target_url,
+      cms_post_id: log.metadata.cms_post_id,
+      deployment_id: log.metadata.deployment_id,
+      ...fields,
+      metadata: {
+        publish_time: new Date().toISOString(),
+        content_id: content.id,
+        target_config: target.id,
+        retry_count: 0
+      }
+    });
+
+    try {
+      switch (target.platform) {
+        case 'wordpress': {
+          const config = target.config as WordPressConfig;
+          const post = await this.updateWordPressPost(config, Number(this.loggedId(log, 'cms_post_id')), this.wordPressPostFields(content));
+          return result({ published_url: post?.link || log.target_url });
+        }
+        case 'webflow': {
+          const config = target.config as WebflowConfig;
+          const itemId = this.loggedId(log, 'cms_post_id');
+          if (isMockWebflow(config)) {
+            console.log(`[MOCK WEBFLOW] Updating item ${itemId}`);
+            return result({});
+          }
+          await axios.patch(
+            `https://api.webflow.com/v2/collections/${config.collection_id}/items/${itemId}`,
+            { isArchived: false, isDraft: false, fieldData: this.webflowFieldData(content, config, this.generateSlug(content.title)) },
+            { headers: { 'Authorization': `Bearer ${config.api_token}`, 'accept-version': '2.0.0', 'Content-Type': 'application/json' } }
+          );
+          return result({});
+        }
+        case 'firebase':
+          // Placeholder like publishToFirebase: replace with a firebase-admin document update in production
+          console.log(`Updating Firebase document ${this.loggedId(log, 'cms_post_id')}`);
+          return result({});
+        case 'replit': {
+          const config = target.config as ReplitConfig;
+          await this.uploadReplitFile(config, publishedFileName(log.target_url), this.generateHTMLContent(content));
+          return result({ deployment_id: await this.deployReplit(config) });
+        }
+        case 'static': {
+          const fileName = publishedFileName(log.target_url);
+          const deployment = await deployStaticFiles(
+            target.config as StaticConfig,
+            [{ path: fileName, content: this.generateHTMLContent(content) }],
+            `Update content: ${content.title} via K2W System`
           );
+          return result({
+            cms_post_id: deployment.shas[fileName] || log.metadata.cms_post_id,
+            deployment_id: deployment.deployment_id || log.metadata.deployment_id
+          });
+        }
+        default:
+          throw new Error(`Unsupported platform: ${target.platform}`);
+      }
+    } catch (error: any) {
+      throw platformError(`${target.platform} update failed: ${error.response?.data?.message || error.message}`, error);
+    }
+  }
 
-        } catch (error) {
-          console.error('Failed to notify search engines:', error);
+  /**
+   * Take the live version down from a target, leaving a redirect when asked
+   */
+  private async removeFromTarget(
+    target: PublishingTarget,
+    log: K2WPublishLogRecord,
+    redirectTo?: string
+  ): Promise<Pick<LiveTargetResult, 'redirect' | 'redirect_error'>> {
+    try {
+      switch (target.platform) {
+        case 'wordpress': {
+          const config = target.config as WordPressConfig;
+          await this.updateWordPressPost(config, Number(this.loggedId(log, 'cms_post_id')), { status: 'draft' });
+          if (!redirectTo) return {};
+
+          try {
+            await this.createWordPressRedirect(config, log.target_url, redirectTo);
+            return { redirect: { to: redirectTo, type: 'permanent' } };
+          } catch (error: any) {
+            return { redirect_error: `WordPress redirect needs the Redirection plugin REST API: ${error.response?.data?.message || error.message}` };
+          }
+        }
+        case 'webflow': {
+          const config = target.config as WebflowConfig;
+          const itemId = this.loggedId(log, 'cms_post_id');
+          if (isMockWebflow(config)) {
+            console.log(`[MOCK WEBFLOW] Archiving item ${itemId}`);
+          } else {
+            await axios.patch(
+              `https://api.webflow.com/v2/collections/${config.collection_id}/items/${itemId}`,
+              { isArchived: true, isDraft: true },
+              { headers: { 'Authorization': `Bearer ${config.api_token}`, 'accept-version': '2.0.0', 'Content-Type': 'application/json' } }
+            );
+          }
+          return redirectTo ? { redirect_error: 'Webflow redirects are managed in the site settings and were not created' } : {};
+        }
+        case 'firebase':
+          // Placeholder like publishToFirebase: replace with a firebase-admin document delete in production
+          console.log(`Deleting Firebase document ${this.loggedId(log, 'cms_post_id')}`);
+          return redirectTo ? { redirect_error: 'Firebase Hosting redirects are configured in firebase.json and were not created' } : {};
+        case 'replit': {
+          const config = target.config as ReplitConfig;
+          const fileName = publishedFileName(log.target_url);
+          if (redirectTo) {
+            await this.uploadReplitFile(config, fileName, redirectPage(redirectTo));
+          } else {
+            await axios.delete(`${config.repl_url}/api/files`, {
+              data: { path: `content/${fileName}` },
+              headers: { 'Authorization': `Bearer ${config.api_token}`, 'Content-Type': 'application/json' }
+            });
+          }
+          await this.deployReplit(config);
+          return redirectTo ? { redirect: { to: redirectTo, type: 'meta-refresh' } } : {};
         }
+        case 'static': {
+          const config = target.config as StaticConfig;
+          const fileName = publishedFileName(log.target_url);
+          if (redirectTo) {
+            await deployStaticFiles(config, [{ path: fileName, content: redirectPage(redirectTo) }], `Redirect ${fileName} via K2W System`);
+            return { redirect: { to: redirectTo, type: 'meta-refresh' } };
+          }
+          await removeStaticFiles(config, [fileName], `Unpublish ${fileName} via K2W System`);
+          return {};
+        }
+        default:
+          throw new Error(`Unsupported platform: ${target.platform}`);
+      }
+    } catch (error: any) {
+      throw platformError(`${target.platform} unpublish failed: ${error.response?.data?.message || error.message}`, error);
+    }
+  }
+
+  /**
+   * 301 from the post's old path through the Redirection plugin's REST API
+   */
+  private async createWordPressRedirect(config: WordPressConfig, fromUrl: string, toUrl: string): Promise<void> {
+    const auth = Buffer.from(`${config.username}:${config.password}`).toString('base64');
+
+    await axios.post(`${config.site_url}/wp-json/redirection/v1/redirect`, {
+      url: new URL(fromUrl).pathname,
+      match_type: 'url',
+      action_type: 'url',
+      action_code: 301,
+      action_data: { url: toUrl },
+      group_id: 1
+    }, {
+      headers: {
+        'Authorization': `Basic ${auth}`,
+        'Content-Type': 'application/json'
+      }
+    });
+  }
+
+  private loggedId(log: K2WPublishLogRecord, field: 'cms_post_id' | 'deployment_id'): string {
+    const id = log.metadata?.[field];
+    if (!id) {
+      throw new Error(`Publish log ${log.id} has no ${field}`);
+    }
+    return id;
+  }
+
+  private liveTargetResult(entry: LivePublish, result: Omit<LiveTargetResult, 'target_id' | 'platform'>): LiveTargetResult {
+    return { target_id: entry.target_id, platform: entry.platform, ...result };
+  }
+
+  /**
+   * Queue the new pages for IndexNow and Google Indexing API submission
+   */
+  private async notifySearchEngines(
+    content: K2WContentRecord,
+    targets: PublishingTarget[],
+    results: Record<string, PublishResult>
+  ): Promise<void> {
+    for (const target of targets) {
+      const url = results[target.id]?.success ? results[target.id].published_url : undefined;
+      if (!url) continue;
+
+      try {
+        await searchIndexingService.submit({ urls: [url], target, content_id: content.id });
+      } catch (error) {
+        console.error(`Failed to queue search engine notification for ${url}:`, error);
       }
     }
   }
@@ -703,11 +1178,22 @@ export class PublishingAutomationService {
         </section>
         ` : ''}
     </main>
+    ${this.generateABTestingScript(content)}
 </body>
 </html>
     `.trim();
   }
 
+  /**
+   * A/B testing snippet for published pages; empty unless the serving API URL is configured
+   */
+  private generateABTestingScript(content: K2WContentRecord): string {
+    const apiBaseUrl = process.env.AB_TESTING_API_URL ||
+      (process.env.API_BASE_URL ? `${process.env.API_BASE_URL}/api/k2w/ab-testing` : '');
+
+    return apiBaseUrl ? generateABTestingSnippet({ apiBaseUrl, contentId: content.id }) : '';
+  }
+
   /**
    * Generate URL-friendly slug
    */
@@ -766,16 +1252,67 @@ export class PublishingAutomationService {
     config: WordPressConfig,
     postId: number,
     updateData: any
-  ): Promise<void> {
+  ): Promise<any> {
     const apiUrl = `${config.site_url}/wp-json/wp/v2/posts/${postId}`;
     const auth = Buffer.from(`${config.username}:${config.password}`).toString('base64');
 
-    await axios.post(apiUrl, updateData, {
+    const response = await axios.post(apiUrl, updateData, {
       headers: {
         'Authorization': `Basic ${auth}`,
         'Content-Type': 'application/json'
       }
     });
+    return response.data;
+  }
+
+  /**
+   * Post fields written on publish and on every update
+   */
+  private wordPressPostFields(content: K2WContentRecord) {
+    return {
+      title: content.title,
+      content: content.body_html,
+      excerpt: content.meta_description || '',
+      meta: {
+        _yoast_wpseo_title: content.meta_title || content.title,
+        _yoast_wpseo_metadesc: content.meta_description || '',
+        _yoast_wpseo_focuskw: this.extractPrimaryKeyword(content)
+      }
+    };
+  }
+
+  private async uploadReplitFile(config: ReplitConfig, fileName: string, htmlContent: string): Promise<void> {
+    await axios.post(
+      `${config.repl_url}/api/files`,
+      {
+        path: `content/${fileName}`,
+        content: htmlContent
+      },
+      {
+        headers: {
+          'Authorization': `Bearer ${config.api_token}`,
+          'Content-Type': 'application/json'
+        }
+      }
+    );
+  }
+
+  private async deployReplit(config: ReplitConfig): Promise<string | undefined> {
+    const deployResponse = await axios.post(
+      `${config.repl_url}/api/deploy`,
+      {
+        branch: config.deployment_branch,
+        build_command: config.build_command,
+        start_command: config.start_command
+      },
+      {
+        headers: {
+          'Authorization': `Bearer ${config.api_token}`,
+          'Content-Type': 'application/json'
+        }
+      }
+    );
+    return deployResponse.data.deployment_id;
   }
 
   /**
@@ -786,7 +1323,7 @@ export class PublishingAutomationService {
     config: WebflowConfig,
     options: PublishOptions
   ): Promise<PublishResult> {
-    const isMock = !config.api_token || config.api_token === 'mock_token' || config.api_token.includes('mock');
+    const isMock = isMockWebflow(config);
     const collectionId = config.collection_id || 'mock_collection';
     const slug = this.generateSlug(content.title);
 
@@ -813,26 +1350,7 @@ export class PublishingAutomationService {
     // Real API integration
     const apiUrl = `https://api.webflow.com/v2/collections/${collectionId}/items`;
     
-    // Map fields dynamically based on configuration or fall back to standard Webflow fields
-    const fieldData: Record<string, any> = {};
-    const mappings = config.field_mappings || {
-      title: 'name',
-      slug: 'slug',
-      body: 'post-body',
-      featured_image: 'main-image',
-      meta_description: 'summary'
-    };
-
-    fieldData[mappings.title] = content.title;
-    fieldData[mappings.slug] = slug;
-    fieldData[mappings.body] = this.generateAestheticTailwindLandingPage(content);
-    
-    if (mappings.meta_description) {
-      fieldData[mappings.meta_description] = content.meta_description || '';
-    }
-    if (mappings.featured_image && content.images && content.images.length > 0) {
-      fieldData[mappings.featured_image] = content.images[0];
-    }
+    const fieldData = this.webflowFieldData(content, config, slug);
 
     try {
       const response = await axios.post(
@@ -866,10 +1384,37 @@ export class PublishingAutomationService {
         }
       };
     } catch (error: any) {
-      throw new Error(`Webflow publish failed: ${error.response?.data?.message || error.message}`);
+      throw platformError(`Webflow publish failed: ${error.response?.data?.message || error.message}`, error);
     }
   }
 
+  /**
+   * Map fields dynamically based on configuration or fall back to standard Webflow fields
+   */
+  private webflowFieldData(content: K2WContentRecord, config: WebflowConfig, slug: string): Record<string, any> {
+    const fieldData: Record<string, any> = {};
+    const mappings = config.field_mappings || {
+      title: 'name',
+      slug: 'slug',
+      body: 'post-body',
+      featured_image: 'main-image',
+      meta_description: 'summary'
+    };
+
+    fieldData[mappings.title] = content.title;
+    fieldData[mappings.slug] = slug;
+    fieldData[mappings.body] = this.generateAestheticTailwindLandingPage(content);
+    
+    if (mappings.meta_description) {
+      fieldData[mappings.meta_description] = content.meta_description || '';
+    }
+    if (mappings.featured_image && content.images && content.images.length > 0) {
+      fieldData[mappings.featured_image] = content.images[0];
+    }
+
+    return fieldData;
+  }
+
   /**
    * Generates a stunning, modern landing page with Outfit font and premium Tailwind styling
    */
@@ -878,30 +1423,129 @@ export class PublishingAutomationService {
   }
 
   /**
-   * Retry failed publishing attempts
+   * Start retrying failed publishes, including those queued before a restart
    */
-  async retryFailedPublish(
-    contentId: string,
-    targetId: string,
-    maxRetries: number = 3
-  ): Promise<PublishResult> {
-    // Implementation would retry publishing with exponential backoff
-    throw new Error('Retry functionality not implemented');
+  startRetryWorker(): void {
+    if (this.retryWorkerStarted) return;
+    this.retryWorkerStarted = true;
+
+    this.getRetryQueue().process<PublishRetryJobData, PublishResult>(
+      PUBLISH_RETRY_JOB_TYPE,
+      job => this.processRetry(job),
+      { concurrency: 1 }
+    );
+  }
+
+  /**
+   * Failed publishes: still being retried, or failed for good and waiting for a manual retry
+   */
+  listFailedPublishes(filters: { status?: FailedPublish['status']; content_id?: string } = {}): FailedPublish[] {
+    return this.getRetryQueue()
+      .getJobs<PublishRetryJobData>({
+        type: PUBLISH_RETRY_JOB_TYPE,
+        status: filters.status === 'failed'
+          ? ['failed']
+          : filters.status === 'retrying' ? ['pending', 'retrying', 'processing'] : ['pending', 'retrying', 'processing', 'failed'],
+        limit: 1000
+      })
+      .filter(job => !filters.content_id || job.data.content_id === filters.content_id)
+      .map(job => this.toFailedPublish(job));
+  }
+
+  getFailedPublish(failedPublishId: string): FailedPublish | null {
+    const job = this.getRetryQueue().getJob<PublishRetryJobData>(failedPublishId);
+    return job && job.type === PUBLISH_RETRY_JOB_TYPE ? this.toFailedPublish(job) : null;
+  }
+
+  /**
+   * Retry a failed publish now, with a fresh budget of automatic retries
+   */
+  retryFailedPublish(failedPublishId: string, maxRetries: number = MAX_PUBLISH_RETRIES): FailedPublish | null {
+    const queue = this.getRetryQueue();
+    const job = queue.getJob<PublishRetryJobData>(failedPublishId);
+    if (!job || job.type !== PUBLISH_RETRY_JOB_TYPE || !queue.retry(failedPublishId, maxRetries)) {
+      return null;
+    }
+
+    console.log(`🔁 Manual retry of ${job.data.target.platform} publish for ${job.data.content_id}`);
+    return this.toFailedPublish(queue.getJob<PublishRetryJobData>(failedPublishId)!);
   }
 
   /**
-   * Schedule content for future publishing
+   * Retry several failed publishes, or every one that failed for good when no ids are given
+   */
+  retryFailedPublishes(failedPublishIds?: string[]): { retried: FailedPublish[]; skipped: string[] } {
+    const ids = failedPublishIds && failedPublishIds.length > 0
+      ? failedPublishIds
+      : this.listFailedPublishes({ status: 'failed' }).map(failed => failed.id);
+
+    const retried: FailedPublish[] = [];
+    const skipped: string[] = [];
+    for (const id of ids) {
+      const failed = this.retryFailedPublish(id);
+      if (failed) {
+        retried.push(failed);
+      } else {
+        skipped.push(id);
+      }
+    }
+
+    return { retried, skipped };
+  }
+
+  async close(): Promise<void> {
+    await this.retryQueue?.close();
+    this.retryQueue = undefined;
+    this.retryWorkerStarted = false;
+  }
+
+  private toFailedPublish(job: QueueJob<PublishRetryJobData>): FailedPublish {
+    const { data } = job;
+    const failed = job.status === 'failed';
+
+    return {
+      id: job.id,
+      publish_log_id: data.publish_log_id,
+      content_id: data.content_id,
+      title: data.title,
+      target: toTargetRef(data.target),
+      status: failed ? 'failed' : 'retrying',
+      // A job failing before its attempts ran out was stopped by a permanent error
+      error_type: failed && job.attempts < job.maxAttempts ? 'permanent' : data.error_type,
+      error_message: job.error || data.error_message,
+      attempts: job.attempts,
+      max_attempts: job.maxAttempts,
+      next_retry_at: failed ? undefined : new Date(job.processAt).toISOString(),
+      failed_at: job.failedAt ? new Date(job.failedAt).toISOString() : undefined
+    };
+  }
+
+  private getRetryQueue(): SQLiteQueue {
+    if (!this.retryQueue) {
+      this.retryQueue = new SQLiteQueue();
+    }
+    return this.retryQueue;
+  }
+
+  /**
+   * Schedule content for future publishing on the durable job queue.
+   * Without a schedule time the content takes the next free slot of its domain's publishing cadence.
    */
   async schedulePublish(
     content: K2WContentRecord,
     targets: PublishingTarget[],
-    scheduleTime: string,
-    options: Partial<PublishOptions> = {}
+    scheduleTime?: string,
+    options: Partial<PublishOptions> = {},
+    timeZone?: string
   ): Promise<string> {
-    // Implementation would use a job queue system
-    const jobId = `schedule_${content.id}_${Date.now()}`;
-    console.log(`Scheduled publishing job: ${jobId} for ${scheduleTime}`);
-    return jobId;
+    const scheduled = await publishingScheduler.schedule({
+      content_id: content.id,
+      targets,
+      scheduled_for: scheduleTime,
+      time_zone: timeZone,
+      options
+    });
+    return scheduled.id;
   }
 }
 
@@ -0,0 +1,741 @@
+/**
+ * Publishing Scheduler
+ * Publishes content at a scheduled time through the durable SQLite job queue. Jobs keep their
+ * targets (by id, see publishing-targets.service), time zone and publish options, survive restarts
+ * and can be listed, rescheduled or cancelled.
+ *
+ * Every domain has a publishing cadence: at most max_per_day posts a day, spread evenly over a
+ * publishing window in the domain's time zone (PUBLISH_MAX_PER_DAY, default 3, 09:00-17:00, until
+ * one is saved). Content scheduled without a time, and batches of approved content, get the domain's
+ * next free slots, so a large batch is spread over the coming days and weeks. Explicit times are
+ * only held to the daily limit.
+ */
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { CONTENT_STATUS, K2WContentRecord } from '@k2w/database';
+import { contentRepository } from '../repositories/k2w-optimized.repository';
+import { createError, CustomError } from '../middleware/error-handler.middleware';
+import { JobContext, QueueJob, QueueJobStatus, SQLiteQueue, SQLiteQueueOptions, UnrecoverableError } from './sqlite-queue.service';
+import { publishingAutomationService, PublishingTarget } from './publishing-automation.service';
+import { publishingTargetRegistry, PublishingTargetRef, toTargetRef } from './publishing-targets.service';
+import { socketService } from './socket.service';
+import type {
+  BatchScheduleRequest,
+  PublishingCadence,
+  PublishingCadenceInput,
+  ScheduledPublish,
+  ScheduledPublishFailure,
+  ScheduledPublishJobData,
+  ScheduledPublishStatus,
+  ScheduleListFilters,
+  SchedulePublishRequest,
+  StoredPublishingCadence
+} from '../types/publishing-schedule.types';
+
+export const SCHEDULED_PUBLISH_JOB_TYPE = 'scheduled-publish';
+
+// Error code returned to API clients when a domain's daily publishing limit is reached
+export const PUBLISH_CADENCE_EXCEEDED = 'PUBLISH_CADENCE_EXCEEDED';
+
+const createCadenceError = (message: string): CustomError => {
+  const error = createError(message, 409);
+  error.code = PUBLISH_CADENCE_EXCEEDED;
+  return error;
+};
+
+const STATUS_BY_JOB_STATUS: Record<QueueJobStatus, ScheduledPublishStatus> = {
+  pending: 'scheduled',
+  retrying: 'scheduled',
+  processing: 'publishing',
+  completed: 'published',
+  failed: 'failed',
+  cancelled: 'cancelled'
+};
+
+const JOB_STATUSES_BY_STATUS: Record<ScheduledPublishStatus, QueueJobStatus[]> = {
+  scheduled: ['pending', 'retrying'],
+  publishing: ['processing'],
+  published: ['completed'],
+  failed: ['failed', 'completed'], // completed jobs whose targets all failed, see toScheduledPublish
+  cancelled: ['cancelled']
+};
+
+// Jobs that hold a slot of their domain's daily limit
+const BOOKED_JOB_STATUSES: QueueJobStatus[] = ['pending', 'retrying', 'processing', 'completed'];
+const ACTIVE_JOB_STATUSES: QueueJobStatus[] = ['pending', 'retrying', 'processing'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_PLAN_DAYS = 366;
+// Slots closer than this are skipped when planning
+const MIN_LEAD_MS = 60 * 1000;
+const LIST_LIMIT = 5000;
+
+const DEFAULT_DB_PATH = process.env.PUBLISHING_DB_PATH || path.join(process.cwd(), 'data', 'publishing.db');
+
+interface CadenceRow {
+  domain: string;
+  cadence: string;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+interface LocalDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const localDateTime = (timeZone: string, at: number): LocalDateTime => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).formatToParts(new Date(at));
+  const value = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+
+  return { year: value('year'), month: value('month'), day: value('day'), hour: value('hour'), minute: value('minute') };
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const localDayKey = (timeZone: string, at: number): string => {
+  const local = localDateTime(timeZone, at);
+  return `${local.year}-${pad(local.month)}-${pad(local.day)}`;
+};
+
+const formatLocalTime = (timeZone: string, at: number): string => {
+  const local = localDateTime(timeZone, at);
+  return `${local.year}-${pad(local.month)}-${pad(local.day)} ${pad(local.hour)}:${pad(local.minute)}`;
+};
+
+/**
+ * Epoch ms of a wall-clock time in a time zone. Minutes may overflow into the following hours.
+ */
+const zonedTime = (timeZone: string, year: number, month: number, day: number, minutes: number): number => {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  const offsetAt = (at: number) => {
+    const local = localDateTime(timeZone, at);
+    return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) - Math.floor(at / 60000) * 60000;
+  };
+
+  const guess = wallClock - offsetAt(wallClock);
+  // Second pass settles times next to a DST change
+  const offset = offsetAt(guess);
+  return wallClock - offset;
+};
+
+export const normalizeDomain = (value: string): string => {
+  const trimmed = value.trim().toLowerCase();
+  try {
+    return new URL(/^[a-z]+:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`).hostname;
+  } catch {
+    return trimmed;
+  }
+};
+
+/**
+ * Site a target publishes to: the host of its URL, else the Webflow site or the target id
+ */
+const targetDomain = (target: PublishingTarget): string => {
+  const config = (target.config || {}) as unknown as Record<string, unknown>;
+  const url = ['custom_domain', 'site_url', 'deployment_url', 'repl_url']
+    .map(key => config[key])
+    .find((value): value is string => typeof value === 'string' && value.length > 0);
+
+  return url ? normalizeDomain(url) : String(config.site_id || target.id);
+};
+
+const parseTime = (value: string, field: string): number => {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw createError(`Invalid publishing schedule: ${field} must be an ISO date`, 400);
+  }
+  return time;
+};
+
+export interface PublishingCadenceStoreOptions {
+  dbPath?: string;
+}
+
+/**
+ * Per-domain publishing cadences in a local SQLite file
+ */
+export class PublishingCadenceStore {
+  private db: Database.Database;
+
+  constructor(options: PublishingCadenceStoreOptions = {}) {
+    const dbPath = options.dbPath || DEFAULT_DB_PATH;
+
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS publishing_cadences (
+        domain TEXT PRIMARY KEY,
+        cadence TEXT NOT NULL,
+        updated_by TEXT,
+        updated_at TEXT NOT NULL
+      );
+    `);
+
+    // Cadences saved their targets' configs, credentials included, before targets were registered
+    const rows = this.db.prepare(`SELECT * FROM publishing_cadences WHERE cadence LIKE '%"config"%'`).all() as CadenceRow[];
+    for (const row of rows) {
+      const cadence = JSON.parse(row.cadence) as PublishingCadenceInput;
+      const targets = publishingTargetRegistry.register(cadence.targets || []);
+      this.db.prepare('UPDATE publishing_cadences SET cadence = ? WHERE domain = ?')
+        .run(JSON.stringify({ ...cadence, targets }), row.domain);
+    }
+  }
+
+  list(): StoredPublishingCadence[] {
+    const rows = this.db.prepare('SELECT * FROM publishing_cadences ORDER BY domain').all() as CadenceRow[];
+    return rows.map(row => this.toCadence(row));
+  }
+
+  get(domain: string): StoredPublishingCadence | null {
+    const row = this.db.prepare('SELECT * FROM publishing_cadences WHERE domain = ?').get(domain) as CadenceRow | undefined;
+    return row ? this.toCadence(row) : null;
+  }
+
+  save(cadence: PublishingCadence, updatedBy?: string): StoredPublishingCadence {
+    const updatedAt = new Date().toISOString();
+    this.db.prepare(`
+      INSERT INTO publishing_cadences (domain, cadence, updated_by, updated_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(domain) DO UPDATE SET cadence = excluded.cadence, updated_by = excluded.updated_by,
+                                        updated_at = excluded.updated_at
+    `).run(cadence.domain, JSON.stringify(cadence), updatedBy || null, updatedAt);
+
+    return { ...cadence, updated_by: updatedBy, updated_at: updatedAt };
+  }
+
+  delete(domain: string): boolean {
+    return this.db.prepare('DELETE FROM publishing_cadences WHERE domain = ?').run(domain).changes > 0;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private toCadence(row: CadenceRow): StoredPublishingCadence {
+    return {
+      ...(JSON.parse(row.cadence) as PublishingCadence),
+      updated_by: row.updated_by ?? undefined,
+      updated_at: row.updated_at
+    };
+  }
+}
+
+export interface PublishingSchedulerOptions {
+  queue?: SQLiteQueueOptions;
+  cadenceStore?: PublishingCadenceStore;
+  concurrency?: number;
+  maxAttempts?: number;
+}
+
+export class PublishingScheduler {
+  private queue?: SQLiteQueue;
+  private cadenceStore?: PublishingCadenceStore;
+  private started = false;
+
+  constructor(private options: PublishingSchedulerOptions = {}) {
+    this.cadenceStore = options.cadenceStore;
+  }
+
+  /**
+   * Start publishing due jobs, including those left from before a restart
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    const queue = this.getQueue();
+    queue.on('job:failed', ({ jobId, type, willRetry, error }) => {
+      if (type !== SCHEDULED_PUBLISH_JOB_TYPE || willRetry) return;
+
+      const job = queue.getJob<ScheduledPublishJobData>(jobId);
+      if (job?.data.user_id) {
+        socketService.sendNotification(job.data.user_id, {
+          type: 'error',
+          title: 'Scheduled Publish Failed',
+          message: `"${job.data.title}" was not published to ${job.data.domain}: ${error}`,
+          duration: 8000
+        });
+      }
+    });
+
+    queue.process<ScheduledPublishJobData>(
+      SCHEDULED_PUBLISH_JOB_TYPE,
+      (job, context) => this.publishScheduled(job, context),
+      { concurrency: this.options.concurrency ?? 1 }
+    );
+  }
+
+  /**
+   * Schedule one piece of content, at scheduled_for or the domain's next free slot
+   */
+  async schedule(request: SchedulePublishRequest): Promise<ScheduledPublish> {
+    if (!request.content_id) {
+      throw createError('Invalid publishing schedule: content_id is required', 400);
+    }
+
+    const content = await this.loadContent(request.content_id);
+    const existing = this.findActiveJob(content.id);
+    if (existing) {
+      throw createError(`Content ${content.id} is already scheduled (${existing.id})`, 409);
+    }
+
+    const domain = this.resolveDomain(request.domain, request.targets);
+    const cadence = this.getCadence(domain);
+    const targets = this.resolveTargets(cadence, request.targets);
+    const timeZone = this.resolveTimeZone(request.time_zone, cadence);
+
+    let processAt: number;
+    if (request.scheduled_for) {
+      processAt = parseTime(request.scheduled_for, 'scheduled_for');
+      this.assertNotPast(processAt);
+      this.assertWithinCadence(cadence, processAt);
+    } else {
+      [processAt] = this.planSlots(cadence, 1, Date.now());
+    }
+
+    const jobId = await this.enqueue(content, { domain, targets, timeZone, options: request.options, userId: request.user_id }, processAt);
+    return this.get(jobId)!;
+  }
+
+  /**
+   * Spread a batch of approved content over the domain's free slots, skipping content already scheduled
+   */
+  async scheduleBatch(request: BatchScheduleRequest): Promise<ScheduledPublish[]> {
+    const domain = this.resolveDomain(request.domain, request.targets);
+    const cadence = this.getCadence(domain);
+    const targets = this.resolveTargets(cadence, request.targets);
+    const timeZone = this.resolveTimeZone(request.time_zone, cadence);
+
+    let contents: K2WContentRecord[];
+    if (request.content_ids && request.content_ids.length > 0) {
+      contents = [];
+      for (const contentId of request.content_ids) {
+        contents.push(await this.loadContent(contentId));
+      }
+    } else if (request.project_id) {
+      contents = await contentRepository.getReadyToPublish(request.project_id);
+    } else {
+      throw createError('Invalid publishing schedule: content_ids or project_id is required', 400);
+    }
+
+    const pending = contents.filter(content => !this.findActiveJob(content.id));
+    if (pending.length === 0) return [];
+
+    const startAt = request.start_at ? parseTime(request.start_at, 'start_at') : Date.now();
+    const slots = this.planSlots(cadence, pending.length, startAt);
+
+    const scheduled: ScheduledPublish[] = [];
+    for (const [index, content] of pending.entries()) {
+      const jobId = await this.enqueue(content, { domain, targets, timeZone, options: request.options, userId: request.user_id }, slots[index]);
+      scheduled.push(this.get(jobId)!);
+    }
+
+    console.log(`📅 Scheduled ${scheduled.length} posts for ${domain} through ${formatLocalTime(cadence.time_zone, slots[slots.length - 1])}`);
+    return scheduled;
+  }
+
+  list(filters: ScheduleListFilters = {}): ScheduledPublish[] {
+    const statuses = filters.status?.flatMap(status => JOB_STATUSES_BY_STATUS[status] || []);
+    const domain = filters.domain ? normalizeDomain(filters.domain) : undefined;
+
+    return this.getQueue()
+      .getJobs<ScheduledPublishJobData>({
+        type: SCHEDULED_PUBLISH_JOB_TYPE,
+        status: statuses,
+        processFrom: filters.from ? parseTime(filters.from, 'from') : undefined,
+        processTo: filters.to ? parseTime(filters.to, 'to') : undefined,
+        limit: LIST_LIMIT
+      })
+      .filter(job => (!domain || job.data.domain === domain) && (!filters.project_id || job.data.project_id === filters.project_id))
+      .sort((a, b) => a.processAt - b.processAt)
+      .map(job => this.toScheduledPublish(job))
+      .filter(scheduled => !filters.status || filters.status.includes(scheduled.status));
+  }
+
+  get(jobId: string): ScheduledPublish | null {
+    const job = this.getJob(jobId);
+    return job ? this.toScheduledPublish(job) : null;
+  }
+
+  /**
+   * Move a scheduled job to a new time, within its domain's daily limit
+   */
+  reschedule(jobId: string, scheduledFor: string): ScheduledPublish | null {
+    const job = this.getJob(jobId);
+    if (!job) return null;
+
+    if (job.status !== 'pending' && job.status !== 'retrying') {
+      throw createError(`Only scheduled jobs can be rescheduled, ${jobId} is ${STATUS_BY_JOB_STATUS[job.status]}`, 409);
+    }
+
+    const processAt = parseTime(scheduledFor, 'scheduled_for');
+    this.assertNotPast(processAt);
+    this.assertWithinCadence(this.getCadence(job.data.domain), processAt, jobId);
+
+    if (!this.getQueue().reschedule(jobId, processAt)) {
+      throw createError(`Job ${jobId} started before it could be rescheduled`, 409);
+    }
+
+    return this.get(jobId);
+  }
+
+  /**
+   * Cancel a job that has not started publishing
+   */
+  cancel(jobId: string): boolean {
+    const job = this.getJob(jobId);
+    if (!job || (job.status !== 'pending' && job.status !== 'retrying')) {
+      return false;
+    }
+
+    return this.getQueue().cancel(jobId);
+  }
+
+  listCadences(): StoredPublishingCadence[] {
+    return this.getCadenceStore().list();
+  }
+
+  /**
+   * The domain's saved cadence, or the default one
+   */
+  getCadence(domain: string): PublishingCadence {
+    const normalized = normalizeDomain(domain);
+    return this.getCadenceStore().get(normalized) || this.getDefaultCadence(normalized);
+  }
+
+  /**
+   * Cadence of domains without a saved one
+   */
+  getDefaultCadence(domain = '*'): PublishingCadence {
+    return {
+      domain,
+      max_per_day: Number(process.env.PUBLISH_MAX_PER_DAY) || 3,
+      time_zone: process.env.PUBLISH_TIME_ZONE || 'UTC',
+      window_start_hour: 9,
+      window_end_hour: 17
+    };
+  }
+
+  setCadence(input: Partial<PublishingCadenceInput>, updatedBy?: string): StoredPublishingCadence {
+    return this.getCadenceStore().save(this.validateCadence(input), updatedBy);
+  }
+
+  deleteCadence(domain: string): boolean {
+    return this.getCadenceStore().delete(normalizeDomain(domain));
+  }
+
+  async close(): Promise<void> {
+    await this.queue?.close();
+    this.cadenceStore?.close();
+    this.queue = undefined;
+    this.cadenceStore = undefined;
+    this.started = false;
+  }
+
+  // Private methods
+
+  private async publishScheduled(job: QueueJob<ScheduledPublishJobData>, context: JobContext) {
+    const { data } = job;
+
+    // Load the content now so edits made after scheduling are published
+    const content = await contentRepository.findById(data.content_id);
+    if (!content) {
+      throw new Error(`Content ${data.content_id} no longer exists`);
+    }
+
+    const { targets, missing } = publishingTargetRegistry.resolve(data.targets.map(target => target.id));
+    if (missing.length > 0) {
+      throw new UnrecoverableError(`Publishing targets ${missing.join(', ')} are no longer known; schedule the content again with them`);
+    }
+
+    context.updateProgress(10, `Publishing "${data.title}" to ${targets.length} target(s)`);
+    const results = await publishingAutomationService.publishContent(content, targets, data.options);
+    if (Object.keys(results).length === 0) {
+      throw new UnrecoverableError('No active publishing targets');
+    }
+
+    // Failed targets are in the publish retry queue; retrying this job as well would publish them twice
+    const published = Object.values(results).filter(result => result.success);
+    const failed = Object.entries(results).filter(([, result]) => !result.success);
+    const failedTargets: ScheduledPublishFailure[] = failed.map(([targetId, result]) => ({
+      target_id: targetId,
+      error: result.error_message,
+      failed_publish_id: result.failed_publish_id
+    }));
+
+    // Live on some targets only: UPDATING until the retries of the others succeed
+    if (published.length > 0) {
+      await contentRepository.updateStatus(content.id, failed.length > 0 ? CONTENT_STATUS.UPDATING : CONTENT_STATUS.PUBLISHED);
+    }
+
+    const publishedUrls = published.map(result => result.published_url).filter((url): url is string => !!url);
+    if (data.user_id) {
+      socketService.sendNotification(data.user_id, published.length > 0 ? {
+        type: failed.length > 0 ? 'warning' : 'success',
+        title: 'Scheduled Post Published',
+        message: `"${data.title}" is live on ${data.domain}${failed.length > 0 ? ` (${failed.length} target(s) failed)` : ''}`,
+        duration: 5000
+      } : {
+        type: 'error',
+        title: 'Scheduled Publish Failed',
+        message: `"${data.title}" was not published to ${data.domain}: ${failed.map(([, result]) => result.error_message).join('; ')}`,
+        duration: 8000
+      });
+    }
+
+    console.log(`📰 Scheduled publish ${job.id} done: ${publishedUrls.join(', ') || data.domain}`);
+
+    return { published_urls: publishedUrls, failed_targets: failedTargets };
+  }
+
+  private async enqueue(
+    content: K2WContentRecord,
+    schedule: { domain: string; targets: PublishingTargetRef[]; timeZone: string; options?: SchedulePublishRequest['options']; userId?: string },
+    processAt: number
+  ): Promise<string> {
+    // The job runs at the scheduled time; a schedule_time would make WordPress hold the post again
+    const { schedule_time, ...options } = schedule.options || {};
+
+    const data: ScheduledPublishJobData = {
+      content_id: content.id,
+      project_id: content.project_id,
+      title: content.title,
+      domain: schedule.domain,
+      targets: schedule.targets,
+      time_zone: schedule.timeZone,
+      options,
+      user_id: schedule.userId
+    };
+
+    const jobId = await this.getQueue().add(SCHEDULED_PUBLISH_JOB_TYPE, data, {
+      jobId: `pub_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+      userId: schedule.userId,
+      processAt,
+      maxAttempts: this.options.maxAttempts ?? 3,
+      backoffDelay: 60000
+    });
+
+    console.log(`📅 Content ${content.id} scheduled for ${formatLocalTime(schedule.timeZone, processAt)} (${schedule.timeZone}) on ${schedule.domain}`);
+    return jobId;
+  }
+
+  /**
+   * Next free slots of the domain from startAt on, at most max_per_day a day
+   */
+  private planSlots(cadence: PublishingCadence, count: number, startAt: number): number[] {
+    const earliest = Math.max(startAt, Date.now() + MIN_LEAD_MS);
+    const bookings = this.bookingsByDay(cadence, earliest - DAY_MS, earliest + (MAX_PLAN_DAYS + 1) * DAY_MS);
+    const first = localDateTime(cadence.time_zone, earliest);
+    const windowMinutes = (cadence.window_end_hour - cadence.window_start_hour) * 60;
+    const slots: number[] = [];
+
+    for (let offset = 0; slots.length < count && offset < MAX_PLAN_DAYS; offset++) {
+      const day = new Date(Date.UTC(first.year, first.month - 1, first.day + offset));
+      if (cadence.weekdays && !cadence.weekdays.includes(day.getUTCDay())) continue;
+
+      const booked = bookings.get(day.toISOString().slice(0, 10)) || [];
+      let free = cadence.max_per_day - booked.length;
+
+      for (let index = 0; index < cadence.max_per_day && free > 0 && slots.length < count; index++) {
+        const minutes = cadence.window_start_hour * 60 + Math.floor((index * windowMinutes) / cadence.max_per_day);
+        const slot = zonedTime(cadence.time_zone, day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), minutes);
+        if (slot < earliest || booked.includes(slot)) continue;
+
+        slots.push(slot);
+        free--;
+      }
+    }
+
+    if (slots.length < count) {
+      throw createCadenceError(
+        `Cannot fit ${count} posts for ${cadence.domain} into the next ${MAX_PLAN_DAYS} days at ${cadence.max_per_day} a day`
+      );
+    }
+
+    return slots;
+  }
+
+  private assertWithinCadence(cadence: PublishingCadence, processAt: number, excludeJobId?: string): void {
+    const day = localDayKey(cadence.time_zone, processAt);
+    const booked = this.bookingsByDay(cadence, processAt - DAY_MS, processAt + DAY_MS, excludeJobId).get(day) || [];
+
+    if (booked.length >= cadence.max_per_day) {
+      throw createCadenceError(
+        `${cadence.domain} already has ${booked.length} posts on ${day} (limit ${cadence.max_per_day} a day)`
+      );
+    }
+  }
+
+  private assertNotPast(processAt: number): void {
+    if (processAt < Date.now() - MIN_LEAD_MS) {
+      throw createError('Invalid publishing schedule: scheduled_for is in the past', 400);
+    }
+  }
+
+  /**
+   * Run times of the domain's booked jobs by local day (YYYY-MM-DD in the cadence time zone)
+   */
+  private bookingsByDay(cadence: PublishingCadence, from: number, to: number, excludeJobId?: string): Map<string, number[]> {
+    const bookings = new Map<string, number[]>();
+    const jobs = this.getQueue().getJobs<ScheduledPublishJobData>({
+      type: SCHEDULED_PUBLISH_JOB_TYPE,
+      status: BOOKED_JOB_STATUSES,
+      processFrom: from,
+      processTo: to,
+      limit: LIST_LIMIT
+    });
+
+    for (const job of jobs) {
+      if (job.data.domain !== cadence.domain || job.id === excludeJobId) continue;
+
+      const day = localDayKey(cadence.time_zone, job.processAt);
+      bookings.set(day, [...(bookings.get(day) || []), job.processAt]);
+    }
+
+    return bookings;
+  }
+
+  private findActiveJob(contentId: string): QueueJob<ScheduledPublishJobData> | undefined {
+    return this.getQueue()
+      .getJobs<ScheduledPublishJobData>({ type: SCHEDULED_PUBLISH_JOB_TYPE, status: ACTIVE_JOB_STATUSES, limit: LIST_LIMIT })
+      .find(job => job.data.content_id === contentId);
+  }
+
+  private async loadContent(contentId: string): Promise<K2WContentRecord> {
+    const content = await contentRepository.findById(contentId);
+    if (!content) {
+      throw createError(`Content ${contentId} not found`, 404);
+    }
+    return content;
+  }
+
+  private resolveDomain(domain?: string, targets?: PublishingTarget[]): string {
+    if (domain) return normalizeDomain(domain);
+    if (targets && targets.length > 0) return targetDomain(targets[0]);
+    throw createError('Invalid publishing schedule: domain or targets are required', 400);
+  }
+
+  private resolveTargets(cadence: PublishingCadence, targets?: PublishingTarget[]): PublishingTargetRef[] {
+    const resolved = targets && targets.length > 0 ? publishingTargetRegistry.register(targets) : cadence.targets || [];
+    if (resolved.length === 0) {
+      throw createError(`No publishing targets for ${cadence.domain}; pass targets or save them on the domain's cadence`, 400);
+    }
+    return resolved;
+  }
+
+  private resolveTimeZone(timeZone: string | undefined, cadence: PublishingCadence): string {
+    if (timeZone && !isValidTimeZone(timeZone)) {
+      throw createError(`Invalid publishing schedule: unknown time zone ${timeZone}`, 400);
+    }
+    return timeZone || cadence.time_zone;
+  }
+
+  private validateCadence(input: Partial<PublishingCadenceInput>): PublishingCadence {
+    const invalid = (reason: string) => createError(`Invalid publishing cadence: ${reason}`, 400);
+    const isHour = (value: unknown, min: number, max: number) => Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+    if (!input.domain || typeof input.domain !== 'string') throw invalid('domain is required');
+    if (!isHour(input.max_per_day, 1, 100)) throw invalid('max_per_day must be a whole number from 1 to 100');
+
+    const timeZone = input.time_zone || 'UTC';
+    if (!isValidTimeZone(timeZone)) throw invalid(`unknown time zone ${timeZone}`);
+
+    const windowStart = input.window_start_hour ?? 9;
+    const windowEnd = input.window_end_hour ?? 17;
+    if (!isHour(windowStart, 0, 23) || !isHour(windowEnd, 1, 24) || windowEnd <= windowStart) {
+      throw invalid('the publishing window must satisfy 0 <= window_start_hour < window_end_hour <= 24');
+    }
+
+    if (input.weekdays !== undefined && (
+      !Array.isArray(input.weekdays) || input.weekdays.length === 0 || !input.weekdays.every(day => isHour(day, 0, 6))
+    )) {
+      throw invalid('weekdays must list days from 0 (Sunday) to 6');
+    }
+
+    if (input.targets !== undefined && !Array.isArray(input.targets)) throw invalid('targets must be an array');
+
+    return {
+      domain: normalizeDomain(input.domain),
+      max_per_day: input.max_per_day as number,
+      time_zone: timeZone,
+      window_start_hour: windowStart,
+      window_end_hour: windowEnd,
+      ...(input.weekdays && { weekdays: [...new Set(input.weekdays)].sort() }),
+      ...(input.targets && input.targets.length > 0 && { targets: publishingTargetRegistry.register(input.targets) })
+    };
+  }
+
+  private getJob(jobId: string): QueueJob<ScheduledPublishJobData> | null {
+    const job = this.getQueue().getJob<ScheduledPublishJobData>(jobId);
+    return job && job.type === SCHEDULED_PUBLISH_JOB_TYPE ? job : null;
+  }
+
+  private toScheduledPublish(job: QueueJob<ScheduledPublishJobData>): ScheduledPublish {
+    const { data } = job;
+    const failedTargets: ScheduledPublishFailure[] | undefined = job.result?.failed_targets;
+    // Completed without publishing anywhere: every target failed and was handed to the publish retries
+    const failedEverywhere = job.status === 'completed' && Boolean(failedTargets?.length) && !job.result?.published_urls?.length;
+
+    return {
+      id: job.id,
+      content_id: data.content_id,
+      project_id: data.project_id,
+      title: data.title,
+      domain: data.domain,
+      targets: data.targets.map(toTargetRef),
+      time_zone: data.time_zone,
+      scheduled_for: new Date(job.processAt).toISOString(),
+      local_time: formatLocalTime(data.time_zone, job.processAt),
+      status: failedEverywhere ? 'failed' : STATUS_BY_JOB_STATUS[job.status],
+      attempts: job.attempts,
+      error: job.error || (failedEverywhere ? failedTargets!.map(failure => `${failure.target_id}: ${failure.error}`).join('; ') : undefined),
+      published_urls: job.result?.published_urls,
+      failed_targets: failedTargets?.length ? failedTargets : undefined,
+      created_at: new Date(job.createdAt).toISOString()
+    };
+  }
+
+  private getQueue(): SQLiteQueue {
+    if (!this.queue) {
+      this.queue = new SQLiteQueue(this.options.queue);
+    }
+    return this.queue;
+  }
+
+  private getCadenceStore(): PublishingCadenceStore {
+    if (!this.cadenceStore) {
+      this.cadenceStore = new PublishingCadenceStore();
+    }
+    return this.cadenceStore;
+  }
+}
+
+export const publishingScheduler = new PublishingScheduler();
@@ -0,0 +1,73 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { PublishingTarget } from './publishing-automation.service';
+import { PublishingTargetRegistry } from './publishing-targets.service';
+
+const target: PublishingTarget = {
+  id: 'target-1',
+  name: 'blog.example.com',
+  platform: 'static',
+  config: {
+    deployment_url: 'https://deploy.example.com',
+    api_key: 'secret-api-key',
+    build_directory: 'dist',
+    cdn_enabled: false
+  },
+  is_active: true
+};
+
+describe('PublishingTargetRegistry', () => {
+  let dir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'publishing-targets-'));
+    dbPath = path.join(dir, 'publishing.db');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns refs without configs and resolves them back', () => {
+    const registry = new PublishingTargetRegistry({ dbPath, secret: '' });
+
+    expect(registry.register([target])).toEqual([{ id: 'target-1', name: 'blog.example.com', platform: 'static' }]);
+    expect(registry.resolve(['target-1', 'target-2'])).toEqual({ targets: [target], missing: ['target-2'] });
+    registry.close();
+  });
+
+  it('keeps targets across a restart, with their configs encrypted', () => {
+    const registry = new PublishingTargetRegistry({ dbPath, secret: 'targets-key' });
+    registry.register([target]);
+    registry.close();
+
+    const db = new Database(dbPath, { readonly: true });
+    const { config } = db.prepare('SELECT config FROM publishing_targets WHERE id = ?').get('target-1') as { config: string };
+    db.close();
+    expect(Buffer.from(config, 'base64').toString('latin1')).not.toContain('secret-api-key');
+
+    const restarted = new PublishingTargetRegistry({ dbPath, secret: 'targets-key' });
+    expect(restarted.get('target-1')).toEqual(target);
+    restarted.close();
+  });
+
+  it('forgets targets on restart without a key, and cannot read them with another one', () => {
+    const memoryOnly = new PublishingTargetRegistry({ dbPath, secret: '' });
+    memoryOnly.register([target]);
+    memoryOnly.close();
+    expect(new PublishingTargetRegistry({ dbPath, secret: '' }).get('target-1')).toBeNull();
+
+    const registry = new PublishingTargetRegistry({ dbPath, secret: 'targets-key' });
+    registry.register([target]);
+    registry.close();
+
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const otherKey = new PublishingTargetRegistry({ dbPath, secret: 'other-key' });
+    expect(otherKey.get('target-1')).toBeNull();
+    otherKey.close();
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Publishing Targets
+ * Keeps the configs of publishing targets, which hold their credentials, out of queued jobs, cadences
+ * and site feeds: those store only the target id and resolve the target here when they run.
+ *
+ * Targets are registered whenever a client passes them. With PUBLISHING_TARGETS_KEY set they are
+ * saved in PUBLISHING_DB_PATH, encrypted with AES-256-GCM, and survive restarts; without it they are
+ * kept in memory only, and work queued before a restart fails until its targets are passed again.
+ */
+
+import Database from 'better-sqlite3';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { PublishingTarget } from './publishing-automation.service';
+
+const DEFAULT_DB_PATH = process.env.PUBLISHING_DB_PATH || path.join(process.cwd(), 'data', 'publishing.db');
+
+/** What queued work keeps of a target: enough to show it, not to publish to it */
+export type PublishingTargetRef = Pick<PublishingTarget, 'id' | 'name' | 'platform'>;
+
+export const toTargetRef = (target: PublishingTargetRef): PublishingTargetRef => ({
+  id: target.id,
+  name: target.name,
+  platform: target.platform
+});
+
+interface TargetRow {
+  id: string;
+  name: string;
+  platform: PublishingTarget['platform'];
+  is_active: number;
+  config: string; // base64 of iv, auth tag and ciphertext
+  updated_at: string;
+}
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Publishing targets in a local SQLite file, their configs encrypted
+ */
+export class PublishingTargetStore {
+  private db: Database.Database;
+  private key: Buffer;
+
+  constructor(secret: string, dbPath = DEFAULT_DB_PATH) {
+    this.key = crypto.createHash('sha256').update(secret).digest();
+
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS publishing_targets (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        platform TEXT NOT NULL,
+        is_active INTEGER NOT NULL,
+        config TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `);
+  }
+
+  get(id: string): PublishingTarget | null {
+    const row = this.db.prepare('SELECT * FROM publishing_targets WHERE id = ?').get(id) as TargetRow | undefined;
+    if (!row) return null;
+
+    return {
+      id: row.id,
+      name: row.name,
+      platform: row.platform,
+      is_active: Boolean(row.is_active),
+      config: JSON.parse(this.decrypt(row.config))
+    };
+  }
+
+  save(target: PublishingTarget): void {
+    this.db.prepare(`
+      INSERT INTO publishing_targets (id, name, platform, is_active, config, updated_at)
+      VALUES (@id, @name, @platform, @is_active, @config, @updated_at)
+      ON CONFLICT(id) DO UPDATE SET name = excluded.name, platform = excluded.platform, is_active = excluded.is_active,
+                                    config = excluded.config, updated_at = excluded.updated_at
+    `).run({
+      id: target.id,
+      name: target.name,
+      platform: target.platform,
+      is_active: target.is_active ? 1 : 0,
+      config: this.encrypt(JSON.stringify(target.config)),
+      updated_at: new Date().toISOString()
+    });
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+  }
+
+  private decrypt(encoded: string): string {
+    const data = Buffer.from(encoded, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.key, data.subarray(0, IV_LENGTH));
+    decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString('utf8');
+  }
+}
+
+export interface PublishingTargetRegistryOptions {
+  dbPath?: string;
+  secret?: string;
+}
+
+export class PublishingTargetRegistry {
+  private targets = new Map<string, PublishingTarget>();
+  private store?: PublishingTargetStore;
+  private readonly secret?: string;
+
+  constructor(private options: PublishingTargetRegistryOptions = {}) {
+    this.secret = options.secret ?? (process.env.PUBLISHING_TARGETS_KEY || undefined);
+  }
+
+  /**
+   * Remember the targets' current configs; returns what queued work should keep of them
+   */
+  register(targets: PublishingTarget[]): PublishingTargetRef[] {
+    const store = this.getStore();
+    for (const target of targets) {
+      this.targets.set(target.id, target);
+      store?.save(target);
+    }
+    return targets.map(toTargetRef);
+  }
+
+  get(id: string): PublishingTarget | null {
+    const cached = this.targets.get(id);
+    if (cached) return cached;
+
+    let target: PublishingTarget | null = null;
+    try {
+      target = this.getStore()?.get(id) ?? null;
+    } catch (error: any) {
+      // Saved under another PUBLISHING_TARGETS_KEY
+      console.error(`Failed to read publishing target ${id}:`, error.message || error);
+    }
+    if (target) {
+      this.targets.set(id, target);
+    }
+    return target;
+  }
+
+  /**
+   * The targets of the given ids, in order; ids that are not known are returned as missing
+   */
+  resolve(ids: string[]): { targets: PublishingTarget[]; missing: string[] } {
+    const targets: PublishingTarget[] = [];
+    const missing: string[] = [];
+    for (const id of ids) {
+      const target = this.get(id);
+      if (target) {
+        targets.push(target);
+      } else {
+        missing.push(id);
+      }
+    }
+    return { targets, missing };
+  }
+
+  close(): void {
+    this.store?.close();
+    this.store = undefined;
+    this.targets.clear();
+  }
+
+  private getStore(): PublishingTargetStore | undefined {
+    if (!this.store && this.secret) {
+      this.store = new PublishingTargetStore(this.secret, this.options.dbPath);
+    }
+    return this.store;
+  }
+}
+
+export const publishingTargetRegistry = new PublishingTargetRegistry();
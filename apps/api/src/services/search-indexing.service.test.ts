@@ -0,0 +1,201 @@
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { PublishingTarget } from './publishing-automation.service';
+import { SearchIndexingService } from './search-indexing.service';
+import type { IndexingSubmission } from '../types/search-indexing.types';
+
+type Handler = (body: any, req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+const json = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const waitFor = async (condition: () => boolean, timeout = 3000): Promise<void> => {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+const decodeJwtPart = (part: string) => JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+
+describe('SearchIndexingService', () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const privateKeyPem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+  let server: http.Server;
+  let baseUrl: string;
+  let routes: Record<string, Handler>;
+  let requests: Array<{ path: string; body: any; authorization?: string }>;
+  let service: SearchIndexingService;
+
+  const staticTarget = (): PublishingTarget => ({
+    id: 'static-1',
+    name: 'blog.example.com',
+    platform: 'static',
+    config: { deployment_url: baseUrl, api_key: 'deploy-key', build_directory: 'dist', cdn_enabled: false },
+    is_active: true
+  });
+
+  const createService = (options: ConstructorParameters<typeof SearchIndexingService>[0] = {}) => {
+    service = new SearchIndexingService({
+      dbPath: ':memory:',
+      queue: { dbPath: ':memory:', pollInterval: 10 },
+      indexNowEndpoint: `${baseUrl}/indexnow`,
+      googleIndexingEndpoint: `${baseUrl}/google/publish`,
+      googleTokenUrl: `${baseUrl}/google/token`,
+      maxAttempts: 3,
+      retryDelayMs: 10,
+      ...options
+    });
+    service.start();
+    return service;
+  };
+
+  const submission = (id: string): IndexingSubmission => service.list().find(entry => entry.id === id)!;
+  const requestsTo = (path: string) => requests.filter(request => request.path === path);
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    routes = {};
+    requests = [];
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        const body = req.headers['content-type']?.includes('json') ? JSON.parse(raw) : Object.fromEntries(new URLSearchParams(raw));
+        requests.push({ path: req.url!, body, authorization: req.headers.authorization });
+        const handler = routes[`${req.method} ${req.url}`];
+        if (!handler) {
+          res.writeHead(404).end();
+          return;
+        }
+        handler(body, req, res);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await service.close();
+    await new Promise(resolve => server.close(resolve));
+    jest.restoreAllMocks();
+  });
+
+  describe('IndexNow', () => {
+    beforeEach(() => {
+      routes['POST /indexnow'] = (_body, _req, res) => res.writeHead(200).end();
+      routes['POST /api/deploy'] = (_body, _req, res) => json(res, 200, { deployment_id: 'deploy-1' });
+    });
+
+    it('deploys the key file to a static site once, then submits its URLs', async () => {
+      createService({ indexNowKey: 'indexnow-key-1' });
+      const target = staticTarget();
+
+      const [first] = await service.submit({ urls: [`${baseUrl}/posts/solar.html`], target });
+      await waitFor(() => submission(first.id).status === 'submitted');
+      const [second] = await service.submit({ urls: [`${baseUrl}/posts/wind.html`], target });
+      await waitFor(() => submission(second.id).status === 'submitted');
+
+      const deploys = requestsTo('/api/deploy');
+      expect(deploys).toHaveLength(1);
+      expect(deploys[0].authorization).toBe('Bearer deploy-key');
+      expect(deploys[0].body.files).toEqual([{ path: 'indexnow-key-1.txt', content: 'indexnow-key-1', encoding: 'utf8' }]);
+      expect(requestsTo('/indexnow').map(request => request.body)).toEqual([
+        {
+          host: new URL(baseUrl).host,
+          key: 'indexnow-key-1',
+          keyLocation: `${baseUrl}/posts/indexnow-key-1.txt`,
+          urlList: [`${baseUrl}/posts/solar.html`]
+        },
+        expect.objectContaining({ urlList: [`${baseUrl}/posts/wind.html`] })
+      ]);
+    });
+
+    it('deploys the key file on a manual retry of a failed submission', async () => {
+      createService({ indexNowKey: 'indexnow-key-1' });
+      routes['POST /api/deploy'] = (_body, _req, res) => json(res, 401, { message: 'Invalid API key' });
+
+      const [failed] = await service.submit({ urls: [`${baseUrl}/posts/solar.html`], target: staticTarget() });
+      await waitFor(() => submission(failed.id).status === 'failed');
+      expect(requestsTo('/indexnow')).toHaveLength(0);
+
+      routes['POST /api/deploy'] = (_body, _req, res) => json(res, 200, { deployment_id: 'deploy-1' });
+      await service.retry(failed.id);
+      await waitFor(() => submission(failed.id).status === 'submitted');
+
+      expect(requestsTo('/api/deploy')).toHaveLength(2);
+      expect(requestsTo('/indexnow')).toHaveLength(1);
+    });
+  });
+
+  describe('Google Indexing API', () => {
+    const account = { client_email: 'indexer@k2w.iam.gserviceaccount.com', private_key: privateKeyPem, private_key_id: 'key-1' };
+
+    beforeEach(() => {
+      routes['POST /google/token'] = (_body, _req, res) => json(res, 200, { access_token: 'access-token-1', expires_in: 3600 });
+      routes['POST /google/publish'] = (body, _req, res) => json(res, 200, { urlNotificationMetadata: { url: body.url } });
+    });
+
+    it('gets a token with a signed JWT and reuses it for later submissions', async () => {
+      createService({ googleServiceAccount: account });
+
+      const [first, second] = await service.submit({
+        urls: ['https://blog.example.com/solar', 'https://blog.example.com/wind'],
+        action: 'URL_DELETED'
+      });
+      await waitFor(() => submission(first.id).status === 'submitted' && submission(second.id).status === 'submitted');
+
+      const tokenRequests = requestsTo('/google/token');
+      expect(tokenRequests).toHaveLength(1);
+      expect(tokenRequests[0].body.grant_type).toBe('urn:ietf:params:oauth:grant-type:jwt-bearer');
+
+      const [header, claims, signature] = tokenRequests[0].body.assertion.split('.');
+      expect(decodeJwtPart(header)).toEqual({ alg: 'RS256', typ: 'JWT', kid: 'key-1' });
+      expect(decodeJwtPart(claims)).toMatchObject({
+        iss: account.client_email,
+        scope: 'https://www.googleapis.com/auth/indexing',
+        aud: `${baseUrl}/google/token`
+      });
+      expect(crypto.verify('RSA-SHA256', Buffer.from(`${header}.${claims}`), publicKey, Buffer.from(signature, 'base64url'))).toBe(true);
+
+      expect(requestsTo('/google/publish').map(request => [request.authorization, request.body])).toEqual([
+        ['Bearer access-token-1', { url: 'https://blog.example.com/solar', type: 'URL_DELETED' }],
+        ['Bearer access-token-1', { url: 'https://blog.example.com/wind', type: 'URL_DELETED' }]
+      ]);
+    });
+
+    it('retries a rate-limited submission without using up the daily quota', async () => {
+      createService({ googleServiceAccount: account, quotas: { google: 200 } });
+      let calls = 0;
+      routes['POST /google/publish'] = (_body, _req, res) => (++calls === 1
+        ? json(res, 429, { error: { message: 'Rate limit exceeded' } })
+        : json(res, 200, {}));
+
+      const [entry] = await service.submit({ urls: ['https://blog.example.com/solar'] });
+      await waitFor(() => submission(entry.id).status === 'submitted');
+
+      expect(submission(entry.id).attempts).toBe(2);
+      expect(service.getQuota().find(quota => quota.engine === 'google')?.used).toBe(2);
+    });
+
+    it('holds submissions until tomorrow once Google reports the daily quota used up', async () => {
+      createService({ googleServiceAccount: account, quotas: { google: 200 } });
+      routes['POST /google/publish'] = (_body, _req, res) => json(res, 429, {
+        error: { message: "Quota exceeded for quota metric 'Publish requests' and limit 'Publish requests per day'" }
+      });
+
+      const [entry] = await service.submit({ urls: ['https://blog.example.com/solar'] });
+      await waitFor(() => submission(entry.id).next_retry_at !== undefined && submission(entry.id).status === 'pending');
+
+      expect(Date.parse(submission(entry.id).next_retry_at!)).toBeGreaterThan(Date.now());
+      expect(service.getQuota().find(quota => quota.engine === 'google')?.used).toBe(200);
+      expect(requestsTo('/google/publish')).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,602 @@
+/**
+ * Search Indexing Service
+ * Tells search engines about published and removed URLs: IndexNow (Bing, Yandex, Seznam, Naver, ...)
+ * and the Google Indexing API.
+ *
+ * Every URL gets one submission per engine, stored with its status and sent from the durable SQLite
+ * job queue. Rate limits, 5xx responses and network errors are retried with exponential backoff;
+ * submissions over an engine's daily quota, ours or the one Google reports, wait for the next UTC day.
+ *
+ * IndexNow proves site ownership with a key file, <key>.txt at the site root, which is deployed to
+ * static sites before their first submission; other sites host the file themselves. Google needs a
+ * service account that is an owner of the site in Search Console; requests are authorized with a
+ * token obtained with a JWT signed by the account's key.
+ *
+ * Endpoints are configurable (INDEXNOW_ENDPOINT, GOOGLE_INDEXING_ENDPOINT, GOOGLE_OAUTH_TOKEN_URL)
+ * so a local mock server can stand in for the search engines.
+ */
+
+import axios from 'axios';
+import Database from 'better-sqlite3';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { QueueJob, SQLiteQueue, SQLiteQueueOptions, UnrecoverableError } from './sqlite-queue.service';
+import { classifyPublishError, StaticConfig } from './publishing-automation.service';
+import { siteUrlOf } from './site-feed.service';
+import { publishingTargetRegistry } from './publishing-targets.service';
+import { deployStaticFiles } from './static-site-deploy';
+import type {
+  GoogleServiceAccount,
+  IndexingAction,
+  IndexingEngine,
+  IndexingQuota,
+  IndexingRequest,
+  IndexingSubmission,
+  IndexingSubmissionFilters,
+  IndexingSubmissionStatus
+} from '../types/search-indexing.types';
+
+export const SEARCH_INDEXING_JOB_TYPE = 'search-index-submit';
+
+const DEFAULT_DB_PATH = process.env.PUBLISHING_DB_PATH || path.join(process.cwd(), 'data', 'publishing.db');
+
+const GOOGLE_INDEXING_SCOPE = 'https://www.googleapis.com/auth/indexing';
+const INDEXNOW_KEY_PATTERN = /^[a-zA-Z0-9-]{8,128}$/;
+
+interface SearchIndexingJobData {
+  submission_id: string;
+}
+
+interface SubmissionRow {
+  id: string;
+  url: string;
+  site_url: string;
+  engine: IndexingEngine;
+  action: IndexingAction;
+  content_id: string | null;
+  target_id: string | null; // static target to deploy the IndexNow key file to
+  status: IndexingSubmissionStatus;
+  attempts: number;
+  http_status: number | null;
+  error: string | null;
+  next_retry_at: string | null;
+  submitted_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+type SubmissionUpdate = Partial<Pick<SubmissionRow,
+  'status' | 'attempts' | 'http_status' | 'error' | 'next_retry_at' | 'submitted_at'>>;
+
+const utcDay = (time: number = Date.now()) => new Date(time).toISOString().slice(0, 10);
+
+const nextUtcDay = (time: number = Date.now()): number => {
+  const date = new Date(time);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+};
+
+const parseServiceAccount = (value?: string): GoogleServiceAccount | undefined => {
+  if (!value) return undefined;
+
+  try {
+    const account = JSON.parse(value) as GoogleServiceAccount;
+    if (account.client_email && account.private_key) {
+      return account;
+    }
+    console.warn('Google Indexing API disabled: the service account key has no client_email or private_key');
+  } catch {
+    console.warn('Google Indexing API disabled: the service account key is not valid JSON');
+  }
+  return undefined;
+};
+
+// Google answers 429 both to bursts and once the project's daily quota is used up
+const GOOGLE_DAILY_QUOTA_ERROR = /per day|daily/i;
+
+const newId = () => `idx_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+
+/**
+ * Submissions, daily quota counters and deployed IndexNow key files, in a local SQLite file
+ */
+export class SearchIndexingStore {
+  private db: Database.Database;
+
+  constructor(dbPath: string = DEFAULT_DB_PATH) {
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS search_index_submissions (
+        id TEXT PRIMARY KEY,
+        url TEXT NOT NULL,
+        site_url TEXT NOT NULL,
+        engine TEXT NOT NULL,
+        action TEXT NOT NULL,
+        content_id TEXT,
+        target_id TEXT,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        http_status INTEGER,
+        error TEXT,
+        next_retry_at TEXT,
+        submitted_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_search_index_submissions_url ON search_index_submissions(url);
+      CREATE INDEX IF NOT EXISTS idx_search_index_submissions_status ON search_index_submissions(status, created_at);
+
+      CREATE TABLE IF NOT EXISTS search_index_quota (
+        engine TEXT NOT NULL,
+        day TEXT NOT NULL,
+        used INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (engine, day)
+      );
+
+      CREATE TABLE IF NOT EXISTS indexnow_key_files (
+        site_url TEXT NOT NULL,
+        key TEXT NOT NULL,
+        deployed_at TEXT NOT NULL,
+        PRIMARY KEY (site_url, key)
+      );
+    `);
+
+    const columns = (this.db.prepare('PRAGMA table_info(search_index_submissions)').all() as Array<{ name: string }>)
+      .map(column => column.name);
+    if (!columns.includes('target_id')) {
+      this.db.exec('ALTER TABLE search_index_submissions ADD COLUMN target_id TEXT');
+    }
+  }
+
+  create(submission: Omit<SubmissionRow, 'attempts' | 'http_status' | 'error' | 'next_retry_at' | 'submitted_at'>): SubmissionRow {
+    const row: SubmissionRow = {
+      ...submission,
+      attempts: 0,
+      http_status: null,
+      error: null,
+      next_retry_at: null,
+      submitted_at: null
+    };
+    this.db.prepare(`
+      INSERT INTO search_index_submissions (id, url, site_url, engine, action, content_id, target_id, status, attempts,
+                                            created_at, updated_at)
+      VALUES (@id, @url, @site_url, @engine, @action, @content_id, @target_id, @status, 0, @created_at, @updated_at)
+    `).run(row);
+    return row;
+  }
+
+  get(id: string): SubmissionRow | null {
+    return (this.db.prepare('SELECT * FROM search_index_submissions WHERE id = ?').get(id) as SubmissionRow | undefined) || null;
+  }
+
+  list(filters: IndexingSubmissionFilters = {}): SubmissionRow[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (filters.status) { conditions.push('status = ?'); params.push(filters.status); }
+    if (filters.engine) { conditions.push('engine = ?'); params.push(filters.engine); }
+    if (filters.url) { conditions.push('url = ?'); params.push(filters.url); }
+    if (filters.content_id) { conditions.push('content_id = ?'); params.push(filters.content_id); }
+
+    return this.db.prepare(`
+      SELECT * FROM search_index_submissions
+      ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY created_at DESC, id DESC
+      LIMIT ?
+    `).all(...params, filters.limit ?? 100) as SubmissionRow[];
+  }
+
+  update(id: string, updates: SubmissionUpdate): void {
+    const fields = Object.keys(updates) as Array<keyof SubmissionUpdate>;
+    if (fields.length === 0) return;
+
+    this.db.prepare(`
+      UPDATE search_index_submissions SET ${fields.map(field => `${field} = @${field}`).join(', ')}, updated_at = @updated_at
+      WHERE id = @id
+    `).run({ ...updates, id, updated_at: new Date().toISOString() });
+  }
+
+  /** Count one request against today's quota; false when it is used up */
+  consumeQuota(engine: IndexingEngine, limit: number): boolean {
+    return this.db.prepare(`
+      INSERT INTO search_index_quota (engine, day, used) VALUES (?, ?, 1)
+      ON CONFLICT(engine, day) DO UPDATE SET used = used + 1 WHERE used < ?
+    `).run(engine, utcDay(), limit).changes > 0 && limit > 0;
+  }
+
+  /** The engine reported its quota as used up: hold further requests until tomorrow */
+  exhaustQuota(engine: IndexingEngine, limit: number): void {
+    this.db.prepare(`
+      INSERT INTO search_index_quota (engine, day, used) VALUES (?, ?, ?)
+      ON CONFLICT(engine, day) DO UPDATE SET used = MAX(used, excluded.used)
+    `).run(engine, utcDay(), limit);
+  }
+
+  usedQuota(engine: IndexingEngine): number {
+    const row = this.db.prepare('SELECT used FROM search_index_quota WHERE engine = ? AND day = ?')
+      .get(engine, utcDay()) as { used: number } | undefined;
+    return row?.used ?? 0;
+  }
+
+  hasKeyFile(siteUrl: string, key: string): boolean {
+    return Boolean(this.db.prepare('SELECT 1 FROM indexnow_key_files WHERE site_url = ? AND key = ?').get(siteUrl, key));
+  }
+
+  saveKeyFile(siteUrl: string, key: string): void {
+    this.db.prepare(`
+      INSERT INTO indexnow_key_files (site_url, key, deployed_at) VALUES (?, ?, ?)
+      ON CONFLICT(site_url, key) DO UPDATE SET deployed_at = excluded.deployed_at
+    `).run(siteUrl, key, new Date().toISOString());
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+export interface SearchIndexingOptions {
+  dbPath?: string;
+  queue?: SQLiteQueueOptions;
+  indexNowKey?: string;
+  indexNowEndpoint?: string;
+  googleServiceAccount?: GoogleServiceAccount;
+  googleIndexingEndpoint?: string;
+  googleTokenUrl?: string;
+  quotas?: Partial<Record<IndexingEngine, number>>;
+  maxAttempts?: number;
+  retryDelayMs?: number;
+}
+
+export class SearchIndexingService {
+  private store?: SearchIndexingStore;
+  private queue?: SQLiteQueue;
+  private started = false;
+  private googleToken?: { value: string; expiresAt: number };
+
+  private readonly indexNowKey?: string;
+  private readonly indexNowEndpoint: string;
+  private readonly googleServiceAccount?: GoogleServiceAccount;
+  private readonly googleIndexingEndpoint: string;
+  private readonly googleTokenUrl: string;
+  private readonly quotas: Record<IndexingEngine, number>;
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+
+  constructor(private options: SearchIndexingOptions = {}) {
+    const indexNowKey = options.indexNowKey ?? process.env.INDEXNOW_KEY;
+    if (indexNowKey && !INDEXNOW_KEY_PATTERN.test(indexNowKey)) {
+      console.warn('IndexNow disabled: INDEXNOW_KEY must be 8-128 characters of a-z, A-Z, 0-9 and -');
+    } else {
+      this.indexNowKey = indexNowKey || undefined;
+    }
+    this.indexNowEndpoint = options.indexNowEndpoint || process.env.INDEXNOW_ENDPOINT || 'https://api.indexnow.org/indexnow';
+
+    this.googleServiceAccount = options.googleServiceAccount ?? parseServiceAccount(
+      process.env.GOOGLE_INDEXING_SERVICE_ACCOUNT_KEY || process.env.GOOGLE_SERVICE_ACCOUNT_KEY
+    );
+    this.googleIndexingEndpoint = options.googleIndexingEndpoint || process.env.GOOGLE_INDEXING_ENDPOINT
+      || 'https://indexing.googleapis.com/v3/urlNotifications:publish';
+    this.googleTokenUrl = options.googleTokenUrl || process.env.GOOGLE_OAUTH_TOKEN_URL || 'https://oauth2.googleapis.com/token';
+
+    this.quotas = {
+      indexnow: options.quotas?.indexnow ?? (Number(process.env.INDEXNOW_DAILY_QUOTA) || 10000),
+      google: options.quotas?.google ?? (Number(process.env.GOOGLE_INDEXING_DAILY_QUOTA) || 200)
+    };
+    this.maxAttempts = options.maxAttempts ?? (Number(process.env.SEARCH_INDEXING_MAX_RETRIES) || 5);
+    this.retryDelayMs = options.retryDelayMs ?? (Number(process.env.SEARCH_INDEXING_RETRY_DELAY_MS) || 60000);
+  }
+
+  /**
+   * Start sending submissions, including those queued before a restart
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    this.getQueue().process<SearchIndexingJobData>(
+      SEARCH_INDEXING_JOB_TYPE,
+      job => this.processSubmission(job),
+      { concurrency: 1 }
+    );
+  }
+
+  /** Engines with credentials configured */
+  enabledEngines(): IndexingEngine[] {
+    return [
+      ...(this.indexNowKey ? ['indexnow' as const] : []),
+      ...(this.googleServiceAccount ? ['google' as const] : [])
+    ];
+  }
+
+  /**
+   * Queue the URLs for every requested engine that is configured; returns the new submissions
+   */
+  async submit(request: IndexingRequest): Promise<IndexingSubmission[]> {
+    const enabled = this.enabledEngines();
+    const engines = (request.engines || enabled).filter(engine => enabled.includes(engine));
+    if (engines.length === 0) return [];
+
+    const store = this.getStore();
+    const queue = this.getQueue();
+    const now = new Date().toISOString();
+    const submissions: IndexingSubmission[] = [];
+    if (request.target) {
+      publishingTargetRegistry.register([request.target]);
+    }
+
+    for (const url of request.urls) {
+      const siteUrl = request.site_url
+        || (request.target ? siteUrlOf(request.target, url) : new URL(url).origin);
+
+      for (const engine of engines) {
+        const row = store.create({
+          id: newId(),
+          url,
+          site_url: siteUrl.replace(/\/+$/, ''),
+          engine,
+          action: request.action || 'URL_UPDATED',
+          content_id: request.content_id ?? null,
+          // Only static targets are needed, to deploy the IndexNow key file
+          target_id: engine === 'indexnow' && request.target?.platform === 'static' ? request.target.id : null,
+          status: 'pending',
+          created_at: now,
+          updated_at: now
+        });
+
+        await queue.add<SearchIndexingJobData>(SEARCH_INDEXING_JOB_TYPE, { submission_id: row.id }, {
+          jobId: row.id,
+          maxAttempts: this.maxAttempts,
+          backoffDelay: this.retryDelayMs
+        });
+        submissions.push(this.toSubmission(row));
+      }
+    }
+
+    return submissions;
+  }
+
+  list(filters: IndexingSubmissionFilters = {}): IndexingSubmission[] {
+    return this.getStore().list(filters).map(row => this.toSubmission(row));
+  }
+
+  /**
+   * Send a failed submission again, with a fresh budget of retries
+   */
+  async retry(id: string): Promise<IndexingSubmission | null> {
+    const store = this.getStore();
+    const row = store.get(id);
+    if (!row || row.status !== 'failed') return null;
+
+    store.update(id, { status: 'pending', error: null, next_retry_at: null });
+    await this.getQueue().add<SearchIndexingJobData>(SEARCH_INDEXING_JOB_TYPE, { submission_id: id }, {
+      jobId: newId(),
+      maxAttempts: this.maxAttempts,
+      backoffDelay: this.retryDelayMs
+    });
+    return this.toSubmission(store.get(id)!);
+  }
+
+  getQuota(): IndexingQuota[] {
+    const store = this.getStore();
+    const enabled = this.enabledEngines();
+    return (['indexnow', 'google'] as IndexingEngine[]).map(engine => ({
+      engine,
+      enabled: enabled.includes(engine),
+      day: utcDay(),
+      used: store.usedQuota(engine),
+      limit: this.quotas[engine],
+      resets_at: new Date(nextUtcDay()).toISOString()
+    }));
+  }
+
+  async close(): Promise<void> {
+    await this.queue?.close();
+    this.queue = undefined;
+    this.store?.close();
+    this.store = undefined;
+    this.started = false;
+  }
+
+  private async processSubmission(job: QueueJob<SearchIndexingJobData>): Promise<void> {
+    const store = this.getStore();
+    const submission = store.get(job.data.submission_id);
+    if (!submission || submission.status === 'submitted') return;
+
+    if (!store.consumeQuota(submission.engine, this.quotas[submission.engine])) {
+      await this.waitForQuota(submission, `Daily ${submission.engine} quota of ${this.quotas[submission.engine]} reached`);
+      return;
+    }
+
+    const attempts = submission.attempts + 1;
+    try {
+      const httpStatus = submission.engine === 'indexnow'
+        ? await this.submitToIndexNow(submission)
+        : await this.submitToGoogle(submission);
+
+      store.update(submission.id, {
+        status: 'submitted',
+        attempts,
+        http_status: httpStatus,
+        error: null,
+        next_retry_at: null,
+        submitted_at: new Date().toISOString()
+      });
+    } catch (error: any) {
+      const httpStatus: number | undefined = error.response?.status;
+      const message = this.errorMessage(error);
+
+      // Google's daily quota is used up: hold its submissions until tomorrow; other 429s are rate limits
+      if (submission.engine === 'google' && httpStatus === 429 && GOOGLE_DAILY_QUOTA_ERROR.test(message)) {
+        store.exhaustQuota('google', this.quotas.google);
+        await this.waitForQuota(submission, message);
+        return;
+      }
+      // IndexNow answers 403 while a new key file is not reachable yet
+      const transient = submission.engine === 'indexnow' && httpStatus === 403
+        ? true
+        : classifyPublishError({ ...error, status: httpStatus, message }) === 'transient';
+      const willRetry = transient && job.attempts < job.maxAttempts;
+
+      store.update(submission.id, {
+        status: willRetry ? 'retrying' : 'failed',
+        attempts,
+        http_status: httpStatus ?? null,
+        error: message,
+        next_retry_at: willRetry
+          ? new Date(Date.now() + job.backoffDelay * Math.pow(2, job.attempts - 1)).toISOString()
+          : null
+      });
+
+      throw transient ? new Error(message) : new UnrecoverableError(message);
+    }
+  }
+
+  /**
+   * Wait for the next UTC day in a new job, without using the retries of the current one
+   */
+  private async waitForQuota(submission: SubmissionRow, reason: string): Promise<void> {
+    const resetAt = nextUtcDay();
+    this.getStore().update(submission.id, {
+      status: 'pending',
+      error: reason,
+      next_retry_at: new Date(resetAt).toISOString()
+    });
+    await this.getQueue().add<SearchIndexingJobData>(SEARCH_INDEXING_JOB_TYPE, { submission_id: submission.id }, {
+      jobId: newId(),
+      processAt: resetAt,
+      maxAttempts: this.maxAttempts,
+      backoffDelay: this.retryDelayMs
+    });
+  }
+
+  private async submitToIndexNow(submission: SubmissionRow): Promise<number> {
+    const key = this.indexNowKey!;
+    await this.ensureKeyFile(submission.site_url, key, submission.target_id);
+
+    const response = await axios.post(this.indexNowEndpoint, {
+      host: new URL(submission.url).host,
+      key,
+      keyLocation: `${submission.site_url}/${key}.txt`,
+      urlList: [submission.url]
+    }, {
+      headers: { 'Content-Type': 'application/json; charset=utf-8' },
+      timeout: 30000
+    });
+    return response.status;
+  }
+
+  /**
+   * Deploy <key>.txt to a static site once; IndexNow fetches it to check the submitter owns the site
+   */
+  private async ensureKeyFile(siteUrl: string, key: string, targetId: string | null): Promise<void> {
+    const store = this.getStore();
+    if (!targetId || store.hasKeyFile(siteUrl, key)) return;
+
+    const target = publishingTargetRegistry.get(targetId);
+    if (!target) {
+      throw new UnrecoverableError(`Publishing target ${targetId} is no longer known; its IndexNow key file cannot be deployed`);
+    }
+    if (target.platform !== 'static') return;
+
+    await deployStaticFiles(target.config as StaticConfig, [{ path: `${key}.txt`, content: key }], 'Add IndexNow key file via K2W System');
+    store.saveKeyFile(siteUrl, key);
+    console.log(`🔑 IndexNow key file deployed to ${siteUrl}`);
+  }
+
+  private async submitToGoogle(submission: SubmissionRow): Promise<number> {
+    const token = await this.getGoogleAccessToken();
+    const response = await axios.post(this.googleIndexingEndpoint, {
+      url: submission.url,
+      type: submission.action
+    }, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json'
+      },
+      timeout: 30000
+    });
+    return response.status;
+  }
+
+  /**
+   * OAuth access token for the service account (JWT bearer grant), reused until shortly before it expires
+   */
+  private async getGoogleAccessToken(): Promise<string> {
+    if (this.googleToken && this.googleToken.expiresAt > Date.now() + 60000) {
+      return this.googleToken.value;
+    }
+
+    const account = this.googleServiceAccount!;
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const unsigned = `${encode({ alg: 'RS256', typ: 'JWT', ...(account.private_key_id && { kid: account.private_key_id }) })}.${encode({
+      iss: account.client_email,
+      scope: GOOGLE_INDEXING_SCOPE,
+      aud: this.googleTokenUrl,
+      iat: issuedAt,
+      exp: issuedAt + 3600
+    })}`;
+    const signature = crypto.createSign('RSA-SHA256').update(unsigned).sign(account.private_key).toString('base64url');
+
+    const response = await axios.post(this.googleTokenUrl, new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion: `${unsigned}.${signature}`
+    }).toString(), {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      timeout: 30000
+    });
+
+    this.googleToken = {
+      value: response.data.access_token,
+      expiresAt: Date.now() + (response.data.expires_in ?? 3600) * 1000
+    };
+    return this.googleToken.value;
+  }
+
+  private errorMessage(error: any): string {
+    const data = error.response?.data;
+    const detail = data?.error?.message || data?.error_description || data?.message
+      || (typeof data === 'string' && data ? data : undefined);
+    return detail ? `${error.message}: ${detail}` : error.message;
+  }
+
+  private toSubmission(row: SubmissionRow): IndexingSubmission {
+    return {
+      id: row.id,
+      url: row.url,
+      site_url: row.site_url,
+      engine: row.engine,
+      action: row.action,
+      content_id: row.content_id ?? undefined,
+      status: row.status,
+      attempts: row.attempts,
+      http_status: row.http_status ?? undefined,
+      error: row.error ?? undefined,
+      next_retry_at: row.next_retry_at ?? undefined,
+      submitted_at: row.submitted_at ?? undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+
+  private getStore(): SearchIndexingStore {
+    if (!this.store) {
+      this.store = new SearchIndexingStore(this.options.dbPath);
+    }
+    return this.store;
+  }
+
+  private getQueue(): SQLiteQueue {
+    if (!this.queue) {
+      this.queue = new SQLiteQueue(this.options.queue);
+    }
+    return this.queue;
+  }
+}
+
+export const searchIndexingService = new SearchIndexingService();
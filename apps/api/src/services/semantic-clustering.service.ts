@@ -0,0 +1,260 @@
+/**
+ * Semantic Keyword Clustering
+ * Embedding providers (remote or deterministic local n-grams) and
+ * average-linkage agglomerative clustering over cosine similarity
+ */
+
+import { createOpenAIService } from '@k2w/ai';
+import { aiRoutingService } from './ai-routing.service';
+
+export interface KeywordEmbeddingProvider {
+  readonly name: string;
+  /** Merge threshold that suits this provider's similarity scale */
+  readonly defaultSimilarityThreshold: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface SemanticClusteringOptions {
+  /** Minimum average cosine similarity for two clusters to be merged (0-1) */
+  similarityThreshold?: number;
+}
+
+export interface SemanticCluster {
+  members: number[];
+  centroid: number[];
+  cohesion: number;
+}
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
+  'is', 'are', 'how', 'what', 'do', 'does', 'my', 'your', 'i'
+]);
+
+/**
+ * Deterministic local embeddings: TF-IDF weighted word unigrams, word bigrams
+ * and character trigrams, hashed into a fixed number of dimensions.
+ * Character trigrams let inflections ("shoe"/"shoes") land close together.
+ */
+export class NGramEmbeddingProvider implements KeywordEmbeddingProvider {
+  readonly name = 'local-ngram';
+  readonly defaultSimilarityThreshold = 0.35;
+
+  constructor(private readonly dimensions: number = 512) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const documents = texts.map(text => this.extractFeatures(text));
+
+    // Inverse document frequency across the batch being clustered
+    const documentFrequency = new Map<string, number>();
+    for (const features of documents) {
+      for (const feature of new Set(features.keys())) {
+        documentFrequency.set(feature, (documentFrequency.get(feature) || 0) + 1);
+      }
+    }
+
+    return documents.map(features => {
+      const vector = new Array<number>(this.dimensions).fill(0);
+      for (const [feature, { count, weight }] of features) {
+        const idf = Math.log((1 + documents.length) / (1 + (documentFrequency.get(feature) || 0))) + 1;
+        const hash = fnv1a(feature);
+        // Signed hashing keeps collisions from only ever adding similarity
+        const sign = hash & 1 ? 1 : -1;
+        vector[(hash >>> 1) % this.dimensions] += sign * count * weight * idf;
+      }
+      return normalize(vector);
+    });
+  }
+
+  private extractFeatures(text: string): Map<string, { count: number; weight: number }> {
+    const features = new Map<string, { count: number; weight: number }>();
+    const add = (feature: string, weight: number) => {
+      const existing = features.get(feature);
+      if (existing) {
+        existing.count++;
+      } else {
+        features.set(feature, { count: 1, weight });
+      }
+    };
+
+    const words = text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter(word => word && !STOP_WORDS.has(word));
+
+    for (const word of words) {
+      add(`w:${stem(word)}`, 1);
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`c:${padded.substring(i, i + 3)}`, 0.5);
+      }
+    }
+
+    for (let i = 0; i + 1 < words.length; i++) {
+      add(`b:${stem(words[i])} ${stem(words[i + 1])}`, 1);
+    }
+
+    return features;
+  }
+}
+
+/**
+ * Remote embeddings through the OpenAI embeddings endpoint
+ */
+export class OpenAIEmbeddingProvider implements KeywordEmbeddingProvider {
+  readonly name = 'openai';
+  readonly defaultSimilarityThreshold = 0.6;
+
+  constructor(private readonly model: string = process.env.KEYWORD_EMBEDDING_MODEL || 'text-embedding-3-small') {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const embeddings = await createOpenAIService().createEmbeddings(texts, { model: this.model });
+    return embeddings.map(normalize);
+  }
+}
+
+// Embedding providers a 'clustering' routing policy can choose from
+aiRoutingService.registerProvider('local', 'embedding', 'ngram');
+if (process.env.OPENAI_API_KEY) {
+  aiRoutingService.registerProvider('openai', 'embedding', process.env.KEYWORD_EMBEDDING_MODEL || 'text-embedding-3-small');
+}
+
+/**
+ * Embedding provider for a routed provider and model
+ */
+export function createRoutedEmbeddingProvider(provider: string, model: string): KeywordEmbeddingProvider {
+  return provider === 'openai' ? new OpenAIEmbeddingProvider(model) : new NGramEmbeddingProvider();
+}
+
+/**
+ * Pick the embedding provider from KEYWORD_EMBEDDING_PROVIDER (openai | local)
+ */
+export function createEmbeddingProvider(): KeywordEmbeddingProvider {
+  const configured = (process.env.KEYWORD_EMBEDDING_PROVIDER || 'local').toLowerCase();
+
+  if (configured === 'openai' && process.env.OPENAI_API_KEY) {
+    return new OpenAIEmbeddingProvider();
+  }
+
+  return new NGramEmbeddingProvider();
+}
+
+/**
+ * Average-linkage agglomerative clustering. Vectors must be L2-normalised;
+ * merging stops once no pair of clusters is at least `similarityThreshold` similar.
+ */
+export function clusterBySimilarity(
+  vectors: number[][],
+  options: SemanticClusteringOptions = {}
+): SemanticCluster[] {
+  const threshold = options.similarityThreshold ?? 0.5;
+  const count = vectors.length;
+
+  const members: Array<number[] | null> = vectors.map((_, i) => [i]);
+  const similarity: number[][] = vectors.map((a, i) =>
+    vectors.map((b, j) => (i === j ? -Infinity : dot(a, b)))
+  );
+
+  // Cache of each cluster's most similar neighbour
+  const nearest = new Array<number>(count).fill(-1);
+  const refreshNearest = (i: number) => {
+    let best = -1;
+    for (let j = 0; j < count; j++) {
+      if (j !== i && members[j] && (best === -1 || similarity[i][j] > similarity[i][best])) {
+        best = j;
+      }
+    }
+    nearest[i] = best;
+  };
+  for (let i = 0; i < count; i++) {
+    refreshNearest(i);
+  }
+
+  while (true) {
+    let left = -1;
+    for (let i = 0; i < count; i++) {
+      if (members[i] && nearest[i] !== -1 && (left === -1 || similarity[i][nearest[i]] > similarity[left][nearest[left]])) {
+        left = i;
+      }
+    }
+    if (left === -1 || similarity[left][nearest[left]] < threshold) {
+      break;
+    }
+
+    const right = nearest[left];
+    const leftSize = members[left]!.length;
+    const rightSize = members[right]!.length;
+
+    // Lance-Williams update for average linkage
+    for (let k = 0; k < count; k++) {
+      if (k === left || k === right || !members[k]) continue;
+      const merged = (leftSize * similarity[left][k] + rightSize * similarity[right][k]) / (leftSize + rightSize);
+      similarity[left][k] = merged;
+      similarity[k][left] = merged;
+    }
+
+    members[left] = members[left]!.concat(members[right]!);
+    members[right] = null;
+
+    for (let k = 0; k < count; k++) {
+      if (members[k] && (k === left || nearest[k] === left || nearest[k] === right)) {
+        refreshNearest(k);
+      } else if (members[k] && k !== left && similarity[k][left] > similarity[k][nearest[k]]) {
+        nearest[k] = left;
+      }
+    }
+  }
+
+  return members
+    .filter((group): group is number[] => !!group)
+    .map(group => summarizeCluster(group, vectors));
+}
+
+function summarizeCluster(group: number[], vectors: number[][]): SemanticCluster {
+  const dimensions = vectors[group[0]].length;
+  const centroid = new Array<number>(dimensions).fill(0);
+  for (const index of group) {
+    for (let d = 0; d < dimensions; d++) {
+      centroid[d] += vectors[index][d] / group.length;
+    }
+  }
+
+  // Cohesion: mean cosine similarity of members to the centroid direction
+  const direction = normalize(centroid);
+  const cohesion = group.reduce((sum, index) => sum + dot(vectors[index], direction), 0) / group.length;
+
+  return {
+    members: group,
+    centroid: centroid.map(value => Math.round(value * 1e6) / 1e6),
+    cohesion: Math.round(cohesion * 1000) / 1000
+  };
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(dot(vector, vector));
+  return length === 0 ? vector : vector.map(value => value / length);
+}
+
+/** Light plural/suffix folding so "mats" and "mat" share a word feature */
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
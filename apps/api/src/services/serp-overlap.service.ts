@@ -0,0 +1,343 @@
+/**
+ * SERP Overlap Clustering
+ * Groups keywords whose top-10 results share ranking URLs. Snapshots come from
+ * ExternalSEOAPIService or a JSON/CSV import; the pairwise overlap matrix is
+ * persisted so only keywords with new snapshots are recomputed.
+ */
+
+import { k2wDb, K2WKeywordRecord, K2WSerpSnapshotRecord, CreateK2WSerpOverlap } from '@k2w/database';
+import { externalSEOAPIService, SerpSnapshot } from './external-seo-api.service';
+import { runWithAIUsageContext } from './ai-usage.service';
+
+export type SerpSnapshotImportFormat = 'json' | 'csv';
+
+export interface SerpOverlapClusteringOptions {
+  /** Minimum number of shared top-10 URLs for two keywords to share a cluster */
+  minSharedUrls?: number;
+  /** Fetch snapshots from the SEO API for keywords that have none stored */
+  fetchMissing?: boolean;
+}
+
+export interface SerpOverlapCluster {
+  keywords: K2WKeywordRecord[];
+  /** Mean shared URLs between the hub keyword and each member, out of 10 */
+  cohesion: number;
+}
+
+export interface SerpSnapshotImportResult {
+  imported: number;
+  skipped: number;
+  keywords: string[];
+  regions: string[]; // regions with new snapshots, whose overlap matrix is out of date
+}
+
+const SERP_DEPTH = 10;
+
+export class SerpOverlapService {
+
+  /**
+   * Import SERP snapshots.
+   * JSON: [{ keyword, urls: string[] | [{ url, position }], region? }]
+   * CSV: header row with keyword,url[,position][,region], one row per ranking URL
+   */
+  async importSnapshots(
+    projectId: string,
+    content: string | unknown[],
+    format: SerpSnapshotImportFormat,
+    region: string = 'US'
+  ): Promise<SerpSnapshotImportResult> {
+    const parsed = format === 'csv'
+      ? this.parseCsv(typeof content === 'string' ? content : '', region)
+      : this.parseJson(content, region);
+
+    const valid = parsed.filter(snapshot => snapshot.keyword && snapshot.urls.length > 0);
+    await this.saveSnapshots(projectId, valid);
+
+    return {
+      imported: valid.length,
+      skipped: parsed.length - valid.length,
+      keywords: valid.map(snapshot => snapshot.keyword),
+      regions: [...new Set(valid.map(snapshot => snapshot.region))]
+    };
+  }
+
+  /**
+   * Cluster keywords by SERP overlap. Keywords without a snapshot are left unclustered.
+   */
+  async clusterKeywords(
+    keywords: K2WKeywordRecord[],
+    options: SerpOverlapClusteringOptions = {}
+  ): Promise<SerpOverlapCluster[]> {
+    const minShared = options.minSharedUrls ?? 3;
+    const projectId = keywords[0].project_id;
+    const region = keywords[0].region || 'US';
+
+    const snapshots = await this.ensureSnapshots(projectId, region, keywords, options.fetchMissing ?? true);
+    await this.updateOverlapMatrix(projectId, region);
+
+    const known = keywords.filter(k => snapshots.has(normalizeKeyword(k.keyword)));
+    const knownTexts = new Set(known.map(k => normalizeKeyword(k.keyword)));
+
+    const overlaps = new Map<string, number>();
+    for (const overlap of await k2wDb.getSerpOverlaps(projectId, region)) {
+      if (knownTexts.has(overlap.keyword_a) && knownTexts.has(overlap.keyword_b)) {
+        overlaps.set(pairKey(overlap.keyword_a, overlap.keyword_b), overlap.shared_urls);
+      }
+    }
+    const sharedUrls = (a: K2WKeywordRecord, b: K2WKeywordRecord) =>
+      overlaps.get(pairKey(normalizeKeyword(a.keyword), normalizeKeyword(b.keyword))) || 0;
+
+    // Hub-based grouping: the highest-volume unassigned keyword pulls in every
+    // unassigned keyword sharing at least N URLs with it. This avoids chaining
+    // unrelated keywords together through intermediaries.
+    const ordered = [...known].sort((a, b) => (b.volume || 0) - (a.volume || 0));
+    const assigned = new Set<string>();
+    const clusters: SerpOverlapCluster[] = [];
+
+    for (const hub of ordered) {
+      if (assigned.has(hub.id)) continue;
+      assigned.add(hub.id);
+
+      const members = ordered.filter(candidate =>
+        !assigned.has(candidate.id) && sharedUrls(hub, candidate) >= minShared
+      );
+      members.forEach(member => assigned.add(member.id));
+
+      const cohesion = members.length === 0
+        ? 1
+        : members.reduce((sum, member) => sum + sharedUrls(hub, member), 0) / (members.length * SERP_DEPTH);
+
+      clusters.push({
+        keywords: [hub, ...members],
+        cohesion: Math.round(cohesion * 1000) / 1000
+      });
+    }
+
+    return clusters;
+  }
+
+  /**
+   * Recompute overlaps for every snapshot captured since its last computation,
+   * against all snapshots of the project/region
+   */
+  async updateOverlapMatrix(projectId: string, region: string): Promise<{ recomputed: number; pairs: number }> {
+    const snapshots = await k2wDb.getSerpSnapshots(projectId, region);
+    const dirty = snapshots.filter(snapshot =>
+      !snapshot.overlaps_computed_at ||
+      new Date(snapshot.captured_at).getTime() > new Date(snapshot.overlaps_computed_at).getTime()
+    );
+
+    if (dirty.length === 0) {
+      return { recomputed: 0, pairs: 0 };
+    }
+
+    const computedAt = new Date().toISOString();
+    const dirtyKeywords = new Set(dirty.map(snapshot => snapshot.keyword));
+    const urlSets = new Map(snapshots.map(snapshot => [snapshot.keyword, new Set(snapshot.urls)]));
+    const rows: CreateK2WSerpOverlap[] = [];
+
+    for (const changed of dirty) {
+      const changedUrls = urlSets.get(changed.keyword)!;
+
+      for (const other of snapshots) {
+        if (other.keyword === changed.keyword) continue;
+        // Pairs of two dirty keywords are only computed once
+        if (dirtyKeywords.has(other.keyword) && other.keyword < changed.keyword) continue;
+
+        let shared = 0;
+        for (const url of urlSets.get(other.keyword)!) {
+          if (changedUrls.has(url)) shared++;
+        }
+
+        if (shared > 0) {
+          const [keywordA, keywordB] = [changed.keyword, other.keyword].sort();
+          rows.push({
+            project_id: projectId,
+            region,
+            keyword_a: keywordA,
+            keyword_b: keywordB,
+            shared_urls: shared,
+            computed_at: computedAt
+          });
+        }
+      }
+    }
+
+    await k2wDb.deleteSerpOverlapsForKeywords(projectId, region, [...dirtyKeywords]);
+    await k2wDb.upsertSerpOverlaps(rows);
+    await k2wDb.markSerpSnapshotsComputed(projectId, region, [...dirtyKeywords], computedAt);
+
+    console.log(`🔗 SERP overlap matrix updated: ${dirty.length} keywords recomputed, ${rows.length} overlapping pairs`);
+    return { recomputed: dirty.length, pairs: rows.length };
+  }
+
+  private async ensureSnapshots(
+    projectId: string,
+    region: string,
+    keywords: K2WKeywordRecord[],
+    fetchMissing: boolean
+  ): Promise<Map<string, K2WSerpSnapshotRecord>> {
+    const stored = await k2wDb.getSerpSnapshots(projectId, region);
+    const byKeyword = new Map(stored.map(snapshot => [snapshot.keyword, snapshot]));
+
+    if (fetchMissing) {
+      const missing = keywords.filter(k => !byKeyword.has(normalizeKeyword(k.keyword)));
+      const fetched: SerpSnapshot[] = [];
+
+      for (const keyword of missing) {
+        // Billed to the keyword, and through it to the article later written for it
+        const snapshot = await runWithAIUsageContext({ project_id: projectId, keyword_id: keyword.id, stage: 'seo' }, () =>
+          externalSEOAPIService.getSerpSnapshot(keyword.keyword, region)
+        );
+        if (snapshot && snapshot.urls.length > 0) {
+          fetched.push(snapshot);
+        }
+      }
+
+      for (const record of await this.saveSnapshots(projectId, fetched)) {
+        byKeyword.set(record.keyword, record);
+      }
+    }
+
+    return byKeyword;
+  }
+
+  private async saveSnapshots(projectId: string, snapshots: SerpSnapshot[]): Promise<K2WSerpSnapshotRecord[]> {
+    // The last snapshot for a keyword wins within one batch
+    const unique = new Map<string, SerpSnapshot>();
+    for (const snapshot of snapshots) {
+      unique.set(`${normalizeKeyword(snapshot.keyword)}|${snapshot.region}`, snapshot);
+    }
+
+    return k2wDb.upsertSerpSnapshots([...unique.values()].map(snapshot => ({
+      project_id: projectId,
+      keyword: normalizeKeyword(snapshot.keyword),
+      region: snapshot.region,
+      urls: [...new Set(snapshot.urls.map(normalizeUrl).filter(Boolean))].slice(0, SERP_DEPTH),
+      source: snapshot.source,
+      captured_at: snapshot.captured_at,
+      overlaps_computed_at: null
+    })));
+  }
+
+  private parseJson(content: string | unknown[], region: string): SerpSnapshot[] {
+    const data = typeof content === 'string' ? JSON.parse(content) : content;
+    if (!Array.isArray(data)) {
+      throw new Error('SERP snapshot JSON must be an array');
+    }
+
+    const capturedAt = new Date().toISOString();
+    return data.map((entry: any) => {
+      const urls = (Array.isArray(entry?.urls) ? entry.urls : [])
+        .map((item: any) => typeof item === 'string' ? { url: item, position: 0 } : item)
+        .filter((item: any) => item && typeof item.url === 'string')
+        .sort((a: any, b: any) => (a.position || 0) - (b.position || 0))
+        .map((item: any) => item.url as string);
+
+      return {
+        keyword: String(entry?.keyword || ''),
+        region: entry?.region || region,
+        urls,
+        source: 'import' as const,
+        captured_at: entry?.captured_at || capturedAt
+      };
+    });
+  }
+
+  private parseCsv(content: string, region: string): SerpSnapshot[] {
+    const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+    if (lines.length < 2) {
+      return [];
+    }
+
+    const header = splitCsvLine(lines[0]).map(column => column.toLowerCase());
+    const keywordIndex = header.indexOf('keyword');
+    const urlIndex = header.indexOf('url');
+    const positionIndex = header.indexOf('position');
+    const regionIndex = header.indexOf('region');
+
+    if (keywordIndex === -1 || urlIndex === -1) {
+      throw new Error('SERP snapshot CSV requires "keyword" and "url" columns');
+    }
+
+    const grouped = new Map<string, { keyword: string; region: string; rows: Array<{ url: string; position: number }> }>();
+    for (const line of lines.slice(1)) {
+      const cells = splitCsvLine(line);
+      const keyword = cells[keywordIndex];
+      const url = cells[urlIndex];
+      if (!keyword || !url) continue;
+
+      const rowRegion = (regionIndex !== -1 && cells[regionIndex]) || region;
+      const key = `${normalizeKeyword(keyword)}|${rowRegion}`;
+      if (!grouped.has(key)) {
+        grouped.set(key, { keyword, region: rowRegion, rows: [] });
+      }
+      grouped.get(key)!.rows.push({
+        url,
+        position: positionIndex !== -1 ? Number(cells[positionIndex]) || 0 : grouped.get(key)!.rows.length + 1
+      });
+    }
+
+    const capturedAt = new Date().toISOString();
+    return [...grouped.values()].map(group => ({
+      keyword: group.keyword,
+      region: group.region,
+      urls: group.rows.sort((a, b) => a.position - b.position).map(row => row.url),
+      source: 'import' as const,
+      captured_at: capturedAt
+    }));
+  }
+}
+
+function normalizeKeyword(keyword: string): string {
+  return keyword.trim().toLowerCase();
+}
+
+/**
+ * Compare URLs by host + path: ignore scheme, "www.", query string, fragment and trailing slash
+ */
+function normalizeUrl(url: string): string {
+  const trimmed = url.trim();
+  if (!trimmed) return '';
+
+  try {
+    const parsed = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${host}${path}`;
+  } catch {
+    return trimmed.toLowerCase();
+  }
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`;
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === ',' && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+
+  return cells;
+}
+
+export const serpOverlapService = new SerpOverlapService();
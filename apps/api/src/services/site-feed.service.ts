@@ -0,0 +1,546 @@
+/**
+ * Site Feed Service
+ * Keeps an XML sitemap and RSS/Atom feeds of recent posts for every site content is published to.
+ *
+ * Every publish or unpublish updates the site's page list and regenerates its files; only files whose
+ * content changed are deployed. Pages are listed oldest first, so a new post only changes the last
+ * sitemap file, the sitemap index and the feeds. Sites above 50,000 URLs get a sitemap index
+ * (sitemap.xml) over sitemap-1.xml, sitemap-2.xml, ...
+ *
+ * Static sites get the files uploaded through the same GitHub Pages / HTTP deploy path as their
+ * pages. Other platforms keep the files here, for the site to fetch from the API.
+ *
+ * Translations are the pages of content written for the same keyword in other languages, on any
+ * site; each page lists them, and itself, as hreflang alternates.
+ */
+
+import Database from 'better-sqlite3';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { K2WContentRecord } from '@k2w/database';
+import type { PublishingTarget, PublishResult, StaticConfig } from './publishing-automation.service';
+import { deployStaticFiles } from './static-site-deploy';
+import { publishingTargetRegistry } from './publishing-targets.service';
+import type { SiteFeed, SiteFeedEntry, SiteFeedFile, SiteFeedSyncResult } from '../types/site-feed.types';
+
+const DEFAULT_DB_PATH = process.env.PUBLISHING_DB_PATH || path.join(process.cwd(), 'data', 'publishing.db');
+
+// Sitemap protocol limit of URLs per sitemap file
+const MAX_SITEMAP_URLS = 50000;
+const FEED_ITEMS = 20;
+
+interface SiteRow {
+  site_url: string;
+  title: string;
+  platform: PublishingTarget['platform'];
+  target: string | null; // id of the static target the files are deployed to
+  updated_at: string;
+}
+
+interface FileRow {
+  site_url: string;
+  path: string;
+  content: string;
+  hash: string;
+  deployed_hash: string | null;
+  updated_at: string;
+  deployed_at: string | null;
+}
+
+const escapeXml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const hashContent = (content: string) => crypto.createHash('sha256').update(content).digest('hex');
+
+const latest = (dates: string[]): string => dates.reduce((max, date) => (date > max ? date : max), dates[0]);
+
+/**
+ * Root of the site a page belongs to: the page's folder on static hosts, the origin elsewhere
+ */
+export const siteUrlOf = (target: PublishingTarget, publishedUrl: string): string => {
+  if (target.platform === 'static') {
+    return publishedUrl.slice(0, publishedUrl.lastIndexOf('/'));
+  }
+  return new URL(publishedUrl).origin;
+};
+
+/**
+ * Sitemap pages, feed entries and generated files of every site, in a local SQLite file
+ */
+export class SiteFeedStore {
+  private db: Database.Database;
+
+  constructor(dbPath: string = DEFAULT_DB_PATH) {
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS site_feeds (
+        site_url TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        platform TEXT NOT NULL,
+        target TEXT,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS site_feed_entries (
+        site_url TEXT NOT NULL,
+        content_id TEXT NOT NULL,
+        url TEXT NOT NULL,
+        title TEXT NOT NULL,
+        summary TEXT,
+        language TEXT NOT NULL,
+        translation_group TEXT NOT NULL,
+        published_at TEXT NOT NULL,
+        lastmod TEXT NOT NULL,
+        PRIMARY KEY (site_url, content_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_site_feed_entries_content ON site_feed_entries(content_id);
+      CREATE INDEX IF NOT EXISTS idx_site_feed_entries_group ON site_feed_entries(translation_group);
+
+      CREATE TABLE IF NOT EXISTS site_feed_files (
+        site_url TEXT NOT NULL,
+        path TEXT NOT NULL,
+        content TEXT NOT NULL,
+        hash TEXT NOT NULL,
+        deployed_hash TEXT,
+        updated_at TEXT NOT NULL,
+        deployed_at TEXT,
+        PRIMARY KEY (site_url, path)
+      );
+    `);
+
+    // Sites saved their whole target, credentials included, before targets were registered
+    const sites = this.db.prepare(`SELECT * FROM site_feeds WHERE target LIKE '{%'`).all() as SiteRow[];
+    for (const site of sites) {
+      const [target] = publishingTargetRegistry.register([JSON.parse(site.target!) as PublishingTarget]);
+      this.db.prepare('UPDATE site_feeds SET target = ? WHERE site_url = ?').run(target.id, site.site_url);
+    }
+  }
+
+  getSite(siteUrl: string): SiteRow | null {
+    return (this.db.prepare('SELECT * FROM site_feeds WHERE site_url = ?').get(siteUrl) as SiteRow | undefined) || null;
+  }
+
+  listSites(): SiteRow[] {
+    return this.db.prepare('SELECT * FROM site_feeds ORDER BY site_url').all() as SiteRow[];
+  }
+
+  /** Static targets are kept by id, to deploy the files again after an unpublish */
+  saveSite(siteUrl: string, target: PublishingTarget): void {
+    this.db.prepare(`
+      INSERT INTO site_feeds (site_url, title, platform, target, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(site_url) DO UPDATE SET title = excluded.title, platform = excluded.platform,
+                                          target = excluded.target, updated_at = excluded.updated_at
+    `).run(
+      siteUrl,
+      target.name,
+      target.platform,
+      target.platform === 'static' ? target.id : null,
+      new Date().toISOString()
+    );
+  }
+
+  /** Pages oldest first, the order they are split over sitemap files in */
+  listEntries(siteUrl: string): SiteFeedEntry[] {
+    return this.db.prepare(`
+      SELECT * FROM site_feed_entries WHERE site_url = ? ORDER BY published_at, content_id
+    `).all(siteUrl) as SiteFeedEntry[];
+  }
+
+  countEntries(siteUrl: string): number {
+    return (this.db.prepare('SELECT COUNT(*) AS count FROM site_feed_entries WHERE site_url = ?').get(siteUrl) as { count: number }).count;
+  }
+
+  /** Pages on any site sharing a translation group with a page of this site */
+  listTranslations(siteUrl: string): SiteFeedEntry[] {
+    return this.db.prepare(`
+      SELECT * FROM site_feed_entries
+      WHERE translation_group IN (SELECT translation_group FROM site_feed_entries WHERE site_url = ?)
+    `).all(siteUrl) as SiteFeedEntry[];
+  }
+
+  /** Keeps the first publish time when a page is published again */
+  saveEntry(entry: SiteFeedEntry): void {
+    this.db.prepare(`
+      INSERT INTO site_feed_entries (site_url, content_id, url, title, summary, language, translation_group, published_at, lastmod)
+      VALUES (@site_url, @content_id, @url, @title, @summary, @language, @translation_group, @published_at, @lastmod)
+      ON CONFLICT(site_url, content_id) DO UPDATE SET url = excluded.url, title = excluded.title,
+        summary = excluded.summary, language = excluded.language,
+        translation_group = excluded.translation_group, lastmod = excluded.lastmod
+    `).run({ ...entry, summary: entry.summary ?? null });
+  }
+
+  /** Sites with a page of the content or of one of its translations, whose sitemaps list it */
+  listRelatedSites(contentId: string): string[] {
+    const rows = this.db.prepare(`
+      SELECT DISTINCT site_url FROM site_feed_entries
+      WHERE translation_group IN (SELECT translation_group FROM site_feed_entries WHERE content_id = ?)
+    `).all(contentId) as Array<{ site_url: string }>;
+    return rows.map(row => row.site_url);
+  }
+
+  deleteEntries(contentId: string): void {
+    this.db.prepare('DELETE FROM site_feed_entries WHERE content_id = ?').run(contentId);
+  }
+
+  listFiles(siteUrl: string): FileRow[] {
+    return this.db.prepare('SELECT * FROM site_feed_files WHERE site_url = ? ORDER BY path').all(siteUrl) as FileRow[];
+  }
+
+  getFile(siteUrl: string, filePath: string): FileRow | null {
+    return (this.db.prepare('SELECT * FROM site_feed_files WHERE site_url = ? AND path = ?').get(siteUrl, filePath) as FileRow | undefined) || null;
+  }
+
+  /**
+   * Store the site's current files, dropping ones no longer generated; returns paths whose content changed
+   */
+  saveFiles(siteUrl: string, files: SiteFeedFile[]): string[] {
+    const existing = new Map(this.listFiles(siteUrl).map(row => [row.path, row]));
+    const now = new Date().toISOString();
+    const changed: string[] = [];
+
+    this.db.transaction(() => {
+      for (const file of files) {
+        const hash = hashContent(file.content);
+        if (existing.get(file.path)?.hash === hash) continue;
+
+        changed.push(file.path);
+        this.db.prepare(`
+          INSERT INTO site_feed_files (site_url, path, content, hash, updated_at)
+          VALUES (?, ?, ?, ?, ?)
+          ON CONFLICT(site_url, path) DO UPDATE SET content = excluded.content, hash = excluded.hash,
+                                                    updated_at = excluded.updated_at
+        `).run(siteUrl, file.path, file.content, hash, now);
+      }
+
+      const current = new Set(files.map(file => file.path));
+      for (const filePath of existing.keys()) {
+        if (!current.has(filePath)) {
+          this.db.prepare('DELETE FROM site_feed_files WHERE site_url = ? AND path = ?').run(siteUrl, filePath);
+        }
+      }
+    })();
+
+    return changed;
+  }
+
+  markDeployed(siteUrl: string, files: FileRow[]): void {
+    const deployedAt = new Date().toISOString();
+    const update = this.db.prepare('UPDATE site_feed_files SET deployed_hash = ?, deployed_at = ? WHERE site_url = ? AND path = ?');
+    this.db.transaction(() => {
+      for (const file of files) {
+        update.run(file.hash, deployedAt, siteUrl, file.path);
+      }
+    })();
+  }
+
+  /** Deploy every file again on the next sync */
+  resetDeployed(siteUrl: string): void {
+    this.db.prepare('UPDATE site_feed_files SET deployed_hash = NULL WHERE site_url = ?').run(siteUrl);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * hreflang alternates of each translation group: the latest page per language, when there is more than one language
+ */
+const alternatesByGroup = (translations: SiteFeedEntry[]): Map<string, SiteFeedEntry[]> => {
+  const byGroup = new Map<string, Map<string, SiteFeedEntry>>();
+  for (const entry of translations) {
+    const languages = byGroup.get(entry.translation_group) || new Map<string, SiteFeedEntry>();
+    const current = languages.get(entry.language);
+    if (!current || entry.lastmod > current.lastmod) {
+      languages.set(entry.language, entry);
+    }
+    byGroup.set(entry.translation_group, languages);
+  }
+
+  const alternates = new Map<string, SiteFeedEntry[]>();
+  for (const [group, languages] of byGroup) {
+    if (languages.size > 1) {
+      alternates.set(group, [...languages.values()].sort((a, b) => a.language.localeCompare(b.language)));
+    }
+  }
+  return alternates;
+};
+
+const buildUrlset = (entries: SiteFeedEntry[], alternates: Map<string, SiteFeedEntry[]>): string => {
+  const urls = entries.map(entry => {
+    const links = (alternates.get(entry.translation_group) || [])
+      .map(alternate => `    <xhtml:link rel="alternate" hreflang="${escapeXml(alternate.language)}" href="${escapeXml(alternate.url)}"/>`);
+
+    return [
+      '  <url>',
+      `    <loc>${escapeXml(entry.url)}</loc>`,
+      `    <lastmod>${entry.lastmod}</lastmod>`,
+      ...links,
+      '  </url>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    ...urls,
+    '</urlset>',
+    ''
+  ].join('\n');
+};
+
+/**
+ * sitemap.xml, or a sitemap index over numbered sitemap files above MAX_SITEMAP_URLS pages
+ */
+export const buildSitemapFiles = (
+  siteUrl: string,
+  entries: SiteFeedEntry[],
+  translations: SiteFeedEntry[] = []
+): SiteFeedFile[] => {
+  const alternates = alternatesByGroup(translations);
+  if (entries.length <= MAX_SITEMAP_URLS) {
+    return [{ path: 'sitemap.xml', content: buildUrlset(entries, alternates) }];
+  }
+
+  const chunks: SiteFeedEntry[][] = [];
+  for (let start = 0; start < entries.length; start += MAX_SITEMAP_URLS) {
+    chunks.push(entries.slice(start, start + MAX_SITEMAP_URLS));
+  }
+
+  const index = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...chunks.map((chunk, i) => [
+      '  <sitemap>',
+      `    <loc>${escapeXml(`${siteUrl}/sitemap-${i + 1}.xml`)}</loc>`,
+      `    <lastmod>${latest(chunk.map(entry => entry.lastmod))}</lastmod>`,
+      '  </sitemap>'
+    ].join('\n')),
+    '</sitemapindex>',
+    ''
+  ].join('\n');
+
+  return [
+    { path: 'sitemap.xml', content: index },
+    ...chunks.map((chunk, i) => ({ path: `sitemap-${i + 1}.xml`, content: buildUrlset(chunk, alternates) }))
+  ];
+};
+
+/**
+ * RSS 2.0 (feed.xml) and Atom (atom.xml) feeds of the most recently published pages
+ */
+export const buildFeedFiles = (siteUrl: string, title: string, entries: SiteFeedEntry[]): SiteFeedFile[] => {
+  const recent = [...entries]
+    .sort((a, b) => b.published_at.localeCompare(a.published_at))
+    .slice(0, FEED_ITEMS);
+  const updated = recent.length > 0 ? latest(recent.map(entry => entry.lastmod)) : new Date(0).toISOString();
+
+  const rss = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(title)}</title>`,
+    `    <link>${escapeXml(`${siteUrl}/`)}</link>`,
+    `    <description>${escapeXml(`Latest posts on ${title}`)}</description>`,
+    `    <atom:link href="${escapeXml(`${siteUrl}/feed.xml`)}" rel="self" type="application/rss+xml"/>`,
+    `    <lastBuildDate>${new Date(updated).toUTCString()}</lastBuildDate>`,
+    ...recent.map(entry => [
+      '    <item>',
+      `      <title>${escapeXml(entry.title)}</title>`,
+      `      <link>${escapeXml(entry.url)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(entry.url)}</guid>`,
+      `      <pubDate>${new Date(entry.published_at).toUTCString()}</pubDate>`,
+      ...(entry.summary ? [`      <description>${escapeXml(entry.summary)}</description>`] : []),
+      '    </item>'
+    ].join('\n')),
+    '  </channel>',
+    '</rss>',
+    ''
+  ].join('\n');
+
+  const atom = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(`${siteUrl}/`)}</id>`,
+    `  <title>${escapeXml(title)}</title>`,
+    `  <updated>${updated}</updated>`,
+    `  <link href="${escapeXml(`${siteUrl}/`)}"/>`,
+    `  <link href="${escapeXml(`${siteUrl}/atom.xml`)}" rel="self" type="application/atom+xml"/>`,
+    ...recent.map(entry => [
+      '  <entry>',
+      `    <id>${escapeXml(entry.url)}</id>`,
+      `    <title>${escapeXml(entry.title)}</title>`,
+      `    <link href="${escapeXml(entry.url)}"/>`,
+      `    <published>${entry.published_at}</published>`,
+      `    <updated>${entry.lastmod}</updated>`,
+      ...(entry.summary ? [`    <summary>${escapeXml(entry.summary)}</summary>`] : []),
+      '  </entry>'
+    ].join('\n')),
+    '</feed>',
+    ''
+  ].join('\n');
+
+  return [
+    { path: 'feed.xml', content: rss },
+    { path: 'atom.xml', content: atom }
+  ];
+};
+
+export class SiteFeedService {
+  private store?: SiteFeedStore;
+
+  constructor(private dbPath?: string) {}
+
+  /**
+   * Add or update the pages of a publish and regenerate the sitemaps and feeds of their sites
+   */
+  async recordPublish(
+    content: K2WContentRecord,
+    publishes: Array<{ target: PublishingTarget; result: PublishResult }>
+  ): Promise<SiteFeedSyncResult[]> {
+    const store = this.getStore();
+    const now = new Date().toISOString();
+
+    for (const { target, result } of publishes) {
+      if (!result.success || !result.published_url) continue;
+
+      const siteUrl = siteUrlOf(target, result.published_url);
+      store.saveSite(siteUrl, target);
+      store.saveEntry({
+        site_url: siteUrl,
+        content_id: content.id,
+        url: result.published_url,
+        title: content.meta_title || content.title,
+        summary: content.meta_description,
+        language: content.language || 'en',
+        translation_group: content.keyword_id || content.id,
+        published_at: content.published_at || result.metadata.publish_time || now,
+        lastmod: result.metadata.publish_time || now
+      });
+    }
+
+    return this.syncSites(store.listRelatedSites(content.id));
+  }
+
+  /**
+   * Remove a content's pages from every site and regenerate the sitemaps and feeds that listed them
+   */
+  async unpublish(contentId: string): Promise<SiteFeedSyncResult[]> {
+    const store = this.getStore();
+    const sites = store.listRelatedSites(contentId);
+
+    store.deleteEntries(contentId);
+    return this.syncSites(sites);
+  }
+
+  /**
+   * Regenerate a site's files and deploy all of them again
+   */
+  async rebuild(siteUrl: string): Promise<SiteFeedSyncResult | null> {
+    const store = this.getStore();
+    if (!store.getSite(siteUrl)) return null;
+
+    store.resetDeployed(siteUrl);
+    return this.sync(siteUrl);
+  }
+
+  listSites(): SiteFeed[] {
+    const store = this.getStore();
+    return store.listSites().map(site => ({
+      site_url: site.site_url,
+      title: site.title,
+      platform: site.platform,
+      deployed: Boolean(site.target),
+      entries: store.countEntries(site.site_url),
+      files: store.listFiles(site.site_url).map(file => ({
+        path: file.path,
+        updated_at: file.updated_at,
+        deployed_at: file.deployed_at ?? undefined
+      })),
+      updated_at: site.updated_at
+    }));
+  }
+
+  getFile(siteUrl: string, filePath: string): SiteFeedFile | null {
+    const file = this.getStore().getFile(siteUrl, filePath);
+    return file ? { path: file.path, content: file.content } : null;
+  }
+
+  close(): void {
+    this.store?.close();
+    this.store = undefined;
+  }
+
+  private async syncSites(siteUrls: string[]): Promise<SiteFeedSyncResult[]> {
+    const results: SiteFeedSyncResult[] = [];
+    for (const siteUrl of siteUrls) {
+      results.push(await this.sync(siteUrl));
+    }
+    return results;
+  }
+
+  /**
+   * Regenerate a site's files and deploy the ones not deployed in their current version.
+   * A failed deploy is reported and retried on the next sync.
+   */
+  private async sync(siteUrl: string): Promise<SiteFeedSyncResult> {
+    const store = this.getStore();
+    const site = store.getSite(siteUrl)!;
+    const entries = store.listEntries(siteUrl);
+
+    const changed = store.saveFiles(siteUrl, [
+      ...buildSitemapFiles(siteUrl, entries, store.listTranslations(siteUrl)),
+      ...buildFeedFiles(siteUrl, site.title, entries)
+    ]);
+
+    const result: SiteFeedSyncResult = { site_url: siteUrl, changed, deployed: [] };
+    if (!site.target) return result;
+
+    const pending = store.listFiles(siteUrl).filter(file => file.deployed_hash !== file.hash);
+    if (pending.length === 0) return result;
+
+    const target = publishingTargetRegistry.get(site.target);
+    if (!target) {
+      result.error = `Publishing target ${site.target} is no longer known; the files are deployed on its next publish`;
+      console.error(`Failed to deploy sitemap and feeds of ${siteUrl}:`, result.error);
+      return result;
+    }
+
+    try {
+      await deployStaticFiles(
+        target.config as StaticConfig,
+        pending.map(file => ({ path: file.path, content: file.content })),
+        `Update sitemap and feeds via K2W System`
+      );
+      store.markDeployed(siteUrl, pending);
+      result.deployed = pending.map(file => file.path);
+    } catch (error: any) {
+      result.error = error.response?.data?.message || error.message;
+      console.error(`Failed to deploy sitemap and feeds of ${siteUrl}:`, result.error);
+    }
+
+    return result;
+  }
+
+  private getStore(): SiteFeedStore {
+    if (!this.store) {
+      this.store = new SiteFeedStore(this.dbPath);
+    }
+    return this.store;
+  }
+}
+
+export const siteFeedService = new SiteFeedService();
@@ -1,10 +1,14 @@
 /**
  * Socket Service for K2W System
- * Provides real-time workflow progress updates
+ * Provides real-time workflow progress updates over Socket.IO.
+ * Connections authenticate with the Supabase access token, join a per-user
+ * room and receive any events they missed while disconnected.
  */
 
 import { Server as HTTPServer } from 'http';
 import { EventEmitter } from 'events';
+import { Server as IOServer, Socket } from 'socket.io';
+import { verifyAccessToken, AuthenticatedUser } from '../middleware/auth.middleware';
 
 export interface SocketUser {
   userId: string;
@@ -21,26 +25,113 @@ export interface WorkflowNotification {
   timestamp: number;
 }
 
+export interface ContentChunk {
+  keywordId: string;
+  projectId?: string;
+  status: 'streaming' | 'completed' | 'cancelled' | 'failed';
+  sequence: number;
+  title: string;
+  body_html: string; // the draft so far, not a delta
+  contentId?: string;
+  error?: string;
+}
+
+export interface SocketServiceOptions {
+  corsOrigin?: string | string[];
+  replayBufferSize?: number;
+  replayWindowMs?: number;
+}
+
+interface BufferedEvent {
+  eventId: number;
+  event: string;
+  data: any;
+  timestamp: number;
+}
+
+const userRoom = (userId: string) => `user:${userId}`;
+
 export class SocketService extends EventEmitter {
+  private io?: IOServer;
   private connectedUsers = new Map<string, SocketUser>();
   private userSockets = new Map<string, Set<string>>();
-  
-  constructor(server?: HTTPServer) {
+  private replayBuffers = new Map<string, BufferedEvent[]>();
+  private lastEventId = 0;
+  // Event ids restart with the process; clients compare the epoch to tell a restart from a replay
+  private readonly eventEpoch = `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+  private readonly options: Required<SocketServiceOptions>;
+
+  constructor(server?: HTTPServer, options: SocketServiceOptions = {}) {
     super();
-    console.log('🔌 Socket service initialized (mock mode)');
+    this.options = {
+      corsOrigin: options.corsOrigin || process.env.FRONTEND_URL || 'http://localhost:3000',
+      replayBufferSize: options.replayBufferSize ?? 100,
+      replayWindowMs: options.replayWindowMs ?? 15 * 60 * 1000
+    };
+
+    if (server) {
+      this.attach(server);
+    }
+  }
+
+  /**
+   * Attach Socket.IO to an HTTP server (no-op if already attached)
+   */
+  attach(server: HTTPServer): void {
+    if (this.io) {
+      return;
+    }
+
+    this.io = new IOServer(server, {
+      cors: {
+        origin: this.options.corsOrigin,
+        credentials: true
+      }
+    });
+
+    this.io.use(async (socket, next) => {
+      try {
+        const token = this.extractToken(socket);
+        if (!token) {
+          return next(new Error('No valid authorization token provided'));
+        }
+
+        const user = await verifyAccessToken(token);
+        if (!user) {
+          return next(new Error('Invalid or expired token'));
+        }
+
+        socket.data.user = user;
+        next();
+      } catch (error) {
+        console.error('Socket auth error:', error);
+        next(new Error('Authentication service error'));
+      }
+    });
+
+    this.io.on('connection', (socket) => this.handleConnection(socket));
+    console.log('🔌 Socket service attached to HTTP server');
+  }
+
+  /**
+   * Whether a Socket.IO server is attached
+   */
+  isAttached(): boolean {
+    return !!this.io;
   }
 
   /**
    * Send workflow update to specific user
    */
   sendToUser(userId: string, event: string, data: any): void {
-    console.log(`📡 [SOCKET] Sending ${event} to user ${userId}:`, {
-      ...data,
-      timestamp: Date.now()
-    });
-    
+    const payload = this.bufferEvent(userId, event, data);
+
+    if (this.io) {
+      this.io.to(userRoom(userId)).emit(event, payload);
+    }
+
     // Emit for listeners
-    this.emit('user-message', { userId, event, data });
+    this.emit('user-message', { userId, event, data: payload });
   }
 
   /**
@@ -53,7 +144,6 @@ export class SocketService extends EventEmitter {
     message?: string;
     totalProgress: number;
   }): void {
-    console.log(`📈 [SOCKET] Workflow Progress - User: ${userId}, Workflow: ${workflowId}`, progress);
     this.sendToUser(userId, 'workflow:progress', { workflowId, ...progress });
   }
 
@@ -100,6 +190,23 @@ export class SocketService extends EventEmitter {
     this.sendToUser(userId, 'workflow:failed', { workflowId, error });
   }
 
+  /**
+   * Send a streaming content draft. Drafts in progress are not buffered for replay (each one
+   * supersedes the last); the final completed, cancelled or failed chunk is.
+   */
+  sendContentChunk(userId: string, chunk: ContentChunk): void {
+    if (chunk.status !== 'streaming') {
+      this.sendToUser(userId, 'content:chunk', chunk);
+      return;
+    }
+
+    const payload = { ...chunk, timestamp: Date.now() };
+    if (this.io) {
+      this.io.to(userRoom(userId)).emit('content:chunk', payload);
+    }
+    this.emit('user-message', { userId, event: 'content:chunk', data: payload });
+  }
+
   /**
    * Send system notification
    */
@@ -115,10 +222,12 @@ export class SocketService extends EventEmitter {
   }
 
   /**
-   * Broadcast to all users
+   * Broadcast to all users (not buffered for replay)
    */
   broadcast(event: string, data: any): void {
-    console.log(`📢 [SOCKET] Broadcasting ${event}:`, data);
+    if (this.io) {
+      this.io.emit(event, { ...data, timestamp: Date.now() });
+    }
     this.emit('broadcast', { event, data });
   }
 
@@ -132,49 +241,9 @@ export class SocketService extends EventEmitter {
     failed: number;
     activeWorkers: number;
   }): void {
-    console.log(`📊 [SOCKET] Queue Stats:`, stats);
     this.broadcast('queue:stats', stats);
   }
 
-  /**
-   * Simulate user joining
-   */
-  simulateUserJoin(userId: string): void {
-    const socketId = `mock_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const user: SocketUser = {
-      userId,
-      socketId,
-      connectedAt: Date.now(),
-      lastActivity: Date.now()
-    };
-    
-    this.connectedUsers.set(socketId, user);
-    
-    if (!this.userSockets.has(userId)) {
-      this.userSockets.set(userId, new Set());
-    }
-    this.userSockets.get(userId)!.add(socketId);
-    
-    console.log(`🔌 [SOCKET] User ${userId} connected (${socketId})`);
-    this.emit('user-connected', { userId, socketId });
-  }
-
-  /**
-   * Simulate user leaving
-   */
-  simulateUserLeave(userId: string): void {
-    const userSocketIds = this.userSockets.get(userId);
-    if (userSocketIds) {
-      for (const socketId of userSocketIds) {
-        this.connectedUsers.delete(socketId);
-      }
-      this.userSockets.delete(userId);
-    }
-    
-    console.log(`🔌 [SOCKET] User ${userId} disconnected`);
-    this.emit('user-disconnected', { userId });
-  }
-
   /**
    * Get connected users count
    */
@@ -200,18 +269,137 @@ export class SocketService extends EventEmitter {
    * Disconnect user from all sockets
    */
   disconnectUser(userId: string): void {
-    this.simulateUserLeave(userId);
+    if (this.io) {
+      this.io.in(userRoom(userId)).disconnectSockets(true);
+    }
   }
 
   /**
    * Graceful shutdown
    */
   async close(): Promise<void> {
+    if (this.io) {
+      const io = this.io;
+      this.io = undefined;
+      await new Promise<void>((resolve) => io.close(() => resolve()));
+    }
     this.connectedUsers.clear();
     this.userSockets.clear();
+    this.replayBuffers.clear();
     this.removeAllListeners();
     console.log('✅ Socket service shutdown complete');
   }
+
+  private handleConnection(socket: Socket): void {
+    const user = socket.data.user as AuthenticatedUser;
+    const userId = user.id;
+
+    this.connectedUsers.set(socket.id, {
+      userId,
+      socketId: socket.id,
+      connectedAt: Date.now(),
+      lastActivity: Date.now()
+    });
+    if (!this.userSockets.has(userId)) {
+      this.userSockets.set(userId, new Set());
+    }
+    this.userSockets.get(userId)!.add(socket.id);
+
+    socket.join(userRoom(userId));
+    console.log(`🔌 [SOCKET] User ${userId} connected (${socket.id})`);
+    this.emit('user-connected', { userId, socketId: socket.id });
+
+    // Replay events the client missed while it was disconnected; after a restart that is all of them
+    const { lastEventId, eventEpoch } = socket.handshake.auth || {};
+    if (typeof eventEpoch === 'string' && eventEpoch) {
+      const since = eventEpoch === this.eventEpoch ? Number(lastEventId) || 0 : 0;
+      const missed = this.getMissedEvents(userId, since);
+      for (const buffered of missed) {
+        socket.emit(buffered.event, buffered.data);
+      }
+      if (missed.length > 0) {
+        console.log(`🔁 [SOCKET] Replayed ${missed.length} events to ${userId}`);
+      }
+    }
+
+    socket.onAny(() => {
+      const tracked = this.connectedUsers.get(socket.id);
+      if (tracked) {
+        tracked.lastActivity = Date.now();
+      }
+    });
+
+    socket.on('workflow:cancel', (payload: { workflowId?: string }) => {
+      if (payload?.workflowId) {
+        this.emit('workflow:cancel-requested', { workflowId: payload.workflowId, userId });
+      }
+    });
+
+    socket.on('content:cancel', (payload: { keywordId?: string }) => {
+      if (payload?.keywordId) {
+        this.emit('content:cancel-requested', { keywordId: payload.keywordId, userId });
+      }
+    });
+
+    socket.on('workflow:retry', (payload: { workflowId?: string }) => {
+      if (payload?.workflowId) {
+        this.emit('workflow:retry-requested', { workflowId: payload.workflowId, userId });
+      }
+    });
+
+    socket.on('disconnect', () => {
+      this.connectedUsers.delete(socket.id);
+      const sockets = this.userSockets.get(userId);
+      if (sockets) {
+        sockets.delete(socket.id);
+        if (sockets.size === 0) {
+          this.userSockets.delete(userId);
+        }
+      }
+      console.log(`🔌 [SOCKET] User ${userId} disconnected (${socket.id})`);
+      this.emit('user-disconnected', { userId, socketId: socket.id });
+    });
+  }
+
+  private extractToken(socket: Socket): string | null {
+    const authToken = socket.handshake.auth?.token;
+    if (typeof authToken === 'string' && authToken) {
+      return authToken.startsWith('Bearer ') ? authToken.substring(7) : authToken;
+    }
+
+    const header = socket.handshake.headers.authorization;
+    if (header && header.startsWith('Bearer ')) {
+      return header.substring(7);
+    }
+
+    return null;
+  }
+
+  private bufferEvent(userId: string, event: string, data: any): any {
+    const eventId = ++this.lastEventId;
+    const timestamp = Date.now();
+    const payload = { ...data, eventId, eventEpoch: this.eventEpoch, timestamp };
+
+    const buffer = this.replayBuffers.get(userId) || [];
+    buffer.push({ eventId, event, data: payload, timestamp });
+    this.replayBuffers.set(userId, this.pruneBuffer(buffer));
+
+    return payload;
+  }
+
+  private getMissedEvents(userId: string, lastEventId: number): BufferedEvent[] {
+    const buffer = this.pruneBuffer(this.replayBuffers.get(userId) || []);
+    this.replayBuffers.set(userId, buffer);
+    return buffer.filter(buffered => buffered.eventId > lastEventId);
+  }
+
+  private pruneBuffer(buffer: BufferedEvent[]): BufferedEvent[] {
+    const cutoff = Date.now() - this.options.replayWindowMs;
+    const fresh = buffer.filter(buffered => buffered.timestamp >= cutoff);
+    return fresh.slice(-this.options.replayBufferSize);
+  }
 }
 
-export default SocketService;
\ No newline at end of file
+export const socketService = new SocketService();
+
+export default SocketService;
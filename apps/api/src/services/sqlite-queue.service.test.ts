@@ -0,0 +1,92 @@
+import { SQLiteQueue, UnrecoverableError, QueueJob } from './sqlite-queue.service';
+
+const waitFor = async (condition: () => boolean, timeout = 2000): Promise<void> => {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+describe('SQLiteQueue', () => {
+  let queue: SQLiteQueue;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    queue = new SQLiteQueue({ dbPath: ':memory:', pollInterval: 10 });
+  });
+
+  afterEach(async () => {
+    await queue.close();
+    jest.restoreAllMocks();
+  });
+
+  it('runs a job and stores its result', async () => {
+    queue.process('echo', async (job: QueueJob<{ value: number }>) => job.data.value * 2);
+    const jobId = await queue.add('echo', { value: 21 });
+
+    await waitFor(() => queue.getJob(jobId)?.status === 'completed');
+    expect(queue.getJob(jobId)?.result).toBe(42);
+  });
+
+  it('retries a failing job with backoff until its attempts run out', async () => {
+    queue.process('flaky', async () => {
+      throw new Error('temporary');
+    });
+    const jobId = await queue.add('flaky', {}, { maxAttempts: 2, backoffDelay: 10 });
+
+    await waitFor(() => queue.getJob(jobId)?.status === 'failed');
+    expect(queue.getJob(jobId)).toMatchObject({ attempts: 2, error: 'temporary' });
+  });
+
+  it('fails an unrecoverable job without retrying', async () => {
+    queue.process('broken', async () => {
+      throw new UnrecoverableError('bad input');
+    });
+    const jobId = await queue.add('broken', {}, { maxAttempts: 5 });
+
+    await waitFor(() => queue.getJob(jobId)?.status === 'failed');
+    expect(queue.getJob(jobId)?.attempts).toBe(1);
+  });
+
+  it('waits for running jobs before closing', async () => {
+    let finish!: () => void;
+    const completed = jest.fn();
+    queue.on('job:completed', completed);
+    queue.process('slow', () => new Promise<void>(resolve => {
+      finish = resolve;
+    }));
+    await queue.add('slow', {});
+    await waitFor(() => queue.getStats().processing === 1);
+
+    const closing = queue.close();
+    let closed = false;
+    closing.then(() => {
+      closed = true;
+    });
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(closed).toBe(false);
+
+    finish();
+    await closing;
+    expect(completed).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves jobs that outlive the drain timeout to stalled recovery', async () => {
+    const slowQueue = new SQLiteQueue({ dbPath: ':memory:', pollInterval: 10, drainTimeout: 20 });
+    let finish!: () => void;
+    slowQueue.process('slow', () => new Promise<void>(resolve => {
+      finish = resolve;
+    }));
+    await slowQueue.add('slow', {});
+    await waitFor(() => slowQueue.getStats().processing === 1);
+
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await slowQueue.close();
+
+    // Finishing after the database closed must not throw
+    finish();
+    await new Promise(resolve => setTimeout(resolve, 10));
+  });
+});
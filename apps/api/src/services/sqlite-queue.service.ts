@@ -0,0 +1,648 @@
+/**
+ * SQLite Queue Service
+ * Durable background job queue stored in a local SQLite file
+ * Cost: $0 - No Redis required, jobs survive server restarts
+ */
+
+import Database from 'better-sqlite3';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+
+export type QueueJobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'retrying' | 'cancelled';
+
+export interface QueueJob<T = any> {
+  id: string;
+  type: string;
+  data: T;
+  status: QueueJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  priority: number;
+  backoffDelay: number;
+  createdAt: number;
+  processAt: number;
+  startedAt?: number;
+  completedAt?: number;
+  failedAt?: number;
+  error?: string;
+  progress?: number;
+  message?: string;
+  result?: any;
+  userId?: string;
+}
+
+/**
+ * Thrown by a processor when retrying cannot help; the job fails without using its remaining attempts
+ */
+export class UnrecoverableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnrecoverableError';
+  }
+}
+
+export interface AddJobOptions {
+  jobId?: string;
+  userId?: string;
+  priority?: number; // Higher runs first
+  delay?: number; // Milliseconds from now
+  processAt?: number; // Absolute epoch ms, overrides delay
+  maxAttempts?: number;
+  backoffDelay?: number; // Base delay for exponential backoff (ms)
+}
+
+export interface JobContext {
+  updateProgress(progress: number, message?: string): void;
+  isCancelled(): boolean;
+}
+
+export type JobProcessor<T = any, R = any> = (job: QueueJob<T>, context: JobContext) => Promise<R>;
+
+export interface WorkerOptions {
+  concurrency?: number;
+}
+
+export interface SQLiteQueueOptions {
+  dbPath?: string;
+  pollInterval?: number; // How often idle workers look for due jobs (ms)
+  lockDuration?: number; // A processing job is considered stalled once its lock expires (ms)
+  stalledInterval?: number; // How often to scan for stalled jobs (ms)
+  drainTimeout?: number; // How long close() waits for running jobs (ms)
+}
+
+export interface QueueStats {
+  pending: number;
+  processing: number;
+  completed: number;
+  failed: number;
+  retrying: number;
+  cancelled: number;
+  total: number;
+  activeWorkers: number;
+}
+
+interface JobRow {
+  id: string;
+  type: string;
+  data: string;
+  status: QueueJobStatus;
+  attempts: number;
+  max_attempts: number;
+  priority: number;
+  backoff_delay: number;
+  created_at: number;
+  process_at: number;
+  started_at: number | null;
+  completed_at: number | null;
+  failed_at: number | null;
+  locked_by: string | null;
+  locked_until: number | null;
+  error: string | null;
+  progress: number;
+  message: string | null;
+  result: string | null;
+  user_id: string | null;
+}
+
+interface RegisteredWorker {
+  type: string;
+  processor: JobProcessor;
+  concurrency: number;
+  running: number;
+}
+
+const DEFAULT_DB_PATH = process.env.QUEUE_DB_PATH || path.join(process.cwd(), 'data', 'queue.db');
+
+export class SQLiteQueue extends EventEmitter {
+  private db: Database.Database;
+  private workers = new Map<string, RegisteredWorker>();
+  private workerToken = `worker_${process.pid}_${Math.random().toString(36).substring(2, 10)}`;
+  private pollTimer?: NodeJS.Timeout;
+  private stalledTimer?: NodeJS.Timeout;
+  private lockTimers = new Map<string, NodeJS.Timeout>();
+  private runningJobs = new Set<Promise<void>>();
+  private closed = false;
+
+  private readonly pollInterval: number;
+  private readonly lockDuration: number;
+  private readonly stalledInterval: number;
+  private readonly drainTimeout: number;
+
+  constructor(options: SQLiteQueueOptions = {}) {
+    super();
+
+    const dbPath = options.dbPath || DEFAULT_DB_PATH;
+    this.pollInterval = options.pollInterval ?? 1000;
+    this.lockDuration = options.lockDuration ?? 30000;
+    this.stalledInterval = options.stalledInterval ?? 15000;
+    this.drainTimeout = options.drainTimeout ?? 30000;
+
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.initDatabase();
+
+    console.log(`📋 SQLite queue ready (${dbPath})`);
+  }
+
+  /**
+   * Add a job to the queue
+   */
+  async add<T = any>(type: string, data: T, options: AddJobOptions = {}): Promise<string> {
+    const now = Date.now();
+    const jobId = options.jobId || `job_${now}_${Math.random().toString(36).substring(2, 15)}`;
+    const processAt = options.processAt ?? now + (options.delay || 0);
+
+    this.db.prepare(`
+      INSERT INTO jobs (id, type, data, status, attempts, max_attempts, priority, backoff_delay,
+                        created_at, process_at, progress, user_id)
+      VALUES (?, ?, ?, 'pending', 0, ?, ?, ?, ?, ?, 0, ?)
+    `).run(
+      jobId,
+      type,
+      JSON.stringify(data),
+      options.maxAttempts ?? 3,
+      options.priority ?? 0,
+      options.backoffDelay ?? 5000,
+      now,
+      processAt,
+      options.userId || null
+    );
+
+    this.emit('job:added', { jobId, type, userId: options.userId, processAt });
+    this.schedulePoll(Math.max(0, processAt - now));
+
+    return jobId;
+  }
+
+  /**
+   * Register a processor for a job type
+   */
+  process<T = any, R = any>(type: string, processor: JobProcessor<T, R>, options: WorkerOptions = {}): void {
+    this.workers.set(type, {
+      type,
+      processor: processor as JobProcessor,
+      concurrency: Math.max(1, options.concurrency ?? 1),
+      running: 0
+    });
+
+    this.startTimers();
+    this.schedulePoll(0);
+    console.log(`👷 Worker registered for "${type}" (concurrency: ${options.concurrency ?? 1})`);
+  }
+
+  getJob<T = any>(jobId: string): QueueJob<T> | null {
+    const row = this.db.prepare('SELECT * FROM jobs WHERE id = ?').get(jobId) as JobRow | undefined;
+    return row ? this.toJob<T>(row) : null;
+  }
+
+  getJobs<T = any>(filters: {
+    type?: string;
+    userId?: string;
+    status?: QueueJobStatus[];
+    processFrom?: number; // epoch ms, inclusive
+    processTo?: number; // epoch ms, exclusive
+    limit?: number;
+  } = {}): QueueJob<T>[] {
+    const clauses: string[] = [];
+    const params: any[] = [];
+
+    if (filters.type) {
+      clauses.push('type = ?');
+      params.push(filters.type);
+    }
+    if (filters.userId) {
+      clauses.push('user_id = ?');
+      params.push(filters.userId);
+    }
+    if (filters.status && filters.status.length > 0) {
+      clauses.push(`status IN (${filters.status.map(() => '?').join(', ')})`);
+      params.push(...filters.status);
+    }
+    if (filters.processFrom !== undefined) {
+      clauses.push('process_at >= ?');
+      params.push(filters.processFrom);
+    }
+    if (filters.processTo !== undefined) {
+      clauses.push('process_at < ?');
+      params.push(filters.processTo);
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.db.prepare(`
+      SELECT * FROM jobs ${where} ORDER BY created_at DESC LIMIT ?
+    `).all(...params, filters.limit ?? 100) as JobRow[];
+
+    return rows.map(row => this.toJob<T>(row));
+  }
+
+  getStats(): QueueStats {
+    const rows = this.db.prepare('SELECT status, COUNT(*) AS count FROM jobs GROUP BY status').all() as Array<{
+      status: QueueJobStatus;
+      count: number;
+    }>;
+
+    const stats: QueueStats = {
+      pending: 0,
+      processing: 0,
+      completed: 0,
+      failed: 0,
+      retrying: 0,
+      cancelled: 0,
+      total: 0,
+      activeWorkers: 0
+    };
+
+    for (const row of rows) {
+      stats[row.status] = row.count;
+      stats.total += row.count;
+    }
+    for (const worker of this.workers.values()) {
+      stats.activeWorkers += worker.running;
+    }
+
+    return stats;
+  }
+
+  /**
+   * Cancel a job. Processing jobs are flagged and their processor sees isCancelled() === true.
+   */
+  cancel(jobId: string): boolean {
+    const info = this.db.prepare(`
+      UPDATE jobs SET status = 'cancelled', locked_by = NULL, locked_until = NULL, failed_at = ?
+      WHERE id = ? AND status IN ('pending', 'retrying', 'processing')
+    `).run(Date.now(), jobId);
+
+    if (info.changes === 0) return false;
+
+    this.releaseLock(jobId);
+    const job = this.getJob(jobId);
+    this.emit('job:cancelled', { jobId, type: job?.type, userId: job?.userId });
+    return true;
+  }
+
+  /**
+   * Move a job that has not started yet to a new run time
+   */
+  reschedule(jobId: string, processAt: number): boolean {
+    const info = this.db.prepare(`
+      UPDATE jobs SET process_at = ? WHERE id = ? AND status IN ('pending', 'retrying')
+    `).run(processAt, jobId);
+
+    if (info.changes === 0) return false;
+
+    this.schedulePoll(Math.max(0, processAt - Date.now()));
+    return true;
+  }
+
+  /**
+   * Fail a job that has not started, without running it
+   */
+  fail(jobId: string, error: string): boolean {
+    const info = this.db.prepare(`
+      UPDATE jobs SET status = 'failed', error = ?, failed_at = ?
+      WHERE id = ? AND status IN ('pending', 'retrying')
+    `).run(error, Date.now(), jobId);
+
+    if (info.changes === 0) return false;
+
+    const job = this.getJob(jobId);
+    this.emit('job:failed', {
+      jobId,
+      type: job?.type,
+      userId: job?.userId,
+      error,
+      attempts: job?.attempts ?? 0,
+      maxAttempts: job?.maxAttempts ?? 0,
+      willRetry: false
+    });
+    return true;
+  }
+
+  /**
+   * Re-queue a failed or cancelled job with a fresh attempt budget
+   */
+  retry(jobId: string, maxAttempts?: number): boolean {
+    const info = this.db.prepare(`
+      UPDATE jobs SET status = 'pending', attempts = 0, error = NULL, progress = 0, message = NULL,
+                      process_at = ?, failed_at = NULL, completed_at = NULL,
+                      max_attempts = COALESCE(?, max_attempts)
+      WHERE id = ? AND status IN ('failed', 'cancelled')
+    `).run(Date.now(), maxAttempts ?? null, jobId);
+
+    if (info.changes === 0) return false;
+
+    this.schedulePoll(0);
+    return true;
+  }
+
+  /**
+   * Remove finished jobs older than the given age
+   */
+  cleanup(olderThanMs: number, statuses: QueueJobStatus[] = ['completed', 'cancelled']): number {
+    const cutoff = Date.now() - olderThanMs;
+    const info = this.db.prepare(`
+      DELETE FROM jobs
+      WHERE status IN (${statuses.map(() => '?').join(', ')})
+        AND COALESCE(completed_at, failed_at, created_at) < ?
+    `).run(...statuses, cutoff);
+
+    return info.changes;
+  }
+
+  /**
+   * Move jobs whose lock expired (crashed or hung worker) back to the queue
+   */
+  recoverStalledJobs(): number {
+    const now = Date.now();
+    const stalled = this.db.prepare(`
+      SELECT * FROM jobs WHERE status = 'processing' AND locked_until IS NOT NULL AND locked_until < ?
+    `).all(now) as JobRow[];
+
+    for (const row of stalled) {
+      const exhausted = row.attempts >= row.max_attempts;
+      this.db.prepare(`
+        UPDATE jobs SET status = ?, locked_by = NULL, locked_until = NULL, process_at = ?, error = ?,
+                        failed_at = ?
+        WHERE id = ? AND status = 'processing'
+      `).run(
+        exhausted ? 'failed' : 'retrying',
+        now,
+        'Job stalled (worker lock expired)',
+        exhausted ? now : null,
+        row.id
+      );
+
+      console.warn(`⚠️ Stalled job ${row.id} ${exhausted ? 'marked failed' : 're-queued'}`);
+      this.emit('job:stalled', { jobId: row.id, type: row.type, userId: row.user_id || undefined });
+
+      if (exhausted) {
+        this.emit('job:failed', {
+          jobId: row.id,
+          type: row.type,
+          userId: row.user_id || undefined,
+          error: 'Job stalled (worker lock expired)',
+          attempts: row.attempts,
+          maxAttempts: row.max_attempts,
+          willRetry: false
+        });
+      }
+    }
+
+    if (stalled.length > 0) this.schedulePoll(0);
+    return stalled.length;
+  }
+
+  /**
+   * Stop taking jobs, wait for running ones to finish and close the database. Jobs still running
+   * after the drain timeout are left to the stalled-job recovery of the next start.
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+    if (this.stalledTimer) clearInterval(this.stalledTimer);
+
+    if (this.runningJobs.size > 0) {
+      let drainTimer: NodeJS.Timeout | undefined;
+      const timedOut = await Promise.race([
+        Promise.allSettled(this.runningJobs).then(() => false),
+        new Promise<boolean>(resolve => {
+          drainTimer = setTimeout(() => resolve(true), this.drainTimeout);
+        })
+      ]);
+      clearTimeout(drainTimer);
+
+      if (timedOut) {
+        console.warn(`⚠️ Closing SQLite queue with ${this.runningJobs.size} job(s) still running`);
+      }
+    }
+
+    for (const timer of this.lockTimers.values()) {
+      clearInterval(timer);
+    }
+    this.lockTimers.clear();
+    this.db.close();
+  }
+
+  // Private methods
+
+  private initDatabase(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        data TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL DEFAULT 3,
+        priority INTEGER NOT NULL DEFAULT 0,
+        backoff_delay INTEGER NOT NULL DEFAULT 5000,
+        created_at INTEGER NOT NULL,
+        process_at INTEGER NOT NULL,
+        started_at INTEGER,
+        completed_at INTEGER,
+        failed_at INTEGER,
+        locked_by TEXT,
+        locked_until INTEGER,
+        error TEXT,
+        progress INTEGER NOT NULL DEFAULT 0,
+        message TEXT,
+        result TEXT,
+        user_id TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_jobs_due ON jobs(type, status, process_at);
+      CREATE INDEX IF NOT EXISTS idx_jobs_user ON jobs(user_id, created_at);
+    `);
+  }
+
+  private startTimers(): void {
+    if (this.stalledTimer || this.closed) return;
+
+    // Recover anything a previous process left behind before taking new work
+    this.recoverStalledJobs();
+    this.stalledTimer = setInterval(() => this.recoverStalledJobs(), this.stalledInterval);
+  }
+
+  private schedulePoll(delay: number): void {
+    if (this.closed || this.workers.size === 0) return;
+
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+    this.pollTimer = setTimeout(() => this.poll(), Math.min(delay, this.pollInterval));
+  }
+
+  private poll(): void {
+    if (this.closed) return;
+
+    for (const worker of this.workers.values()) {
+      while (worker.running < worker.concurrency) {
+        const job = this.claimNextJob(worker.type);
+        if (!job) break;
+
+        const run = this.runJob(worker, job);
+        this.runningJobs.add(run);
+        run
+          .catch(error => console.error(`❌ Job ${job.id} crashed its worker:`, error))
+          .finally(() => this.runningJobs.delete(run));
+      }
+    }
+
+    this.schedulePoll(this.pollInterval);
+  }
+
+  private claimNextJob(type: string): QueueJob | null {
+    const now = Date.now();
+
+    const claim = this.db.transaction(() => {
+      const row = this.db.prepare(`
+        SELECT * FROM jobs
+        WHERE type = ? AND status IN ('pending', 'retrying') AND process_at <= ?
+        ORDER BY priority DESC, process_at ASC, created_at ASC
+        LIMIT 1
+      `).get(type, now) as JobRow | undefined;
+
+      if (!row) return null;
+
+      this.db.prepare(`
+        UPDATE jobs SET status = 'processing', attempts = attempts + 1, started_at = ?,
+                        locked_by = ?, locked_until = ?
+        WHERE id = ?
+      `).run(now, this.workerToken, now + this.lockDuration, row.id);
+
+      return this.db.prepare('SELECT * FROM jobs WHERE id = ?').get(row.id) as JobRow;
+    });
+
+    const row = claim();
+    return row ? this.toJob(row) : null;
+  }
+
+  private async runJob(worker: RegisteredWorker, job: QueueJob): Promise<void> {
+    worker.running++;
+    this.holdLock(job.id);
+
+    this.emit('job:started', { jobId: job.id, type: job.type, userId: job.userId, attempt: job.attempts });
+
+    const context: JobContext = {
+      updateProgress: (progress: number, message?: string) => {
+        if (!this.db.open) return;
+        const clamped = Math.max(0, Math.min(100, Math.round(progress)));
+        this.db.prepare(`
+          UPDATE jobs SET progress = ?, message = ? WHERE id = ? AND locked_by = ?
+        `).run(clamped, message || null, job.id, this.workerToken);
+        this.emit('job:progress', { jobId: job.id, type: job.type, progress: clamped, message, userId: job.userId });
+      },
+      isCancelled: () => this.db.open && this.getJob(job.id)?.status === 'cancelled'
+    };
+
+    try {
+      const result = await worker.processor(job, context);
+      if (!this.db.open) return; // Outlived close(); recovered as stalled on the next start
+
+      const info = this.db.prepare(`
+        UPDATE jobs SET status = 'completed', progress = 100, completed_at = ?, result = ?,
+                        locked_by = NULL, locked_until = NULL, error = NULL
+        WHERE id = ? AND status = 'processing' AND locked_by = ?
+      `).run(Date.now(), result === undefined ? null : JSON.stringify(result), job.id, this.workerToken);
+
+      if (info.changes > 0) {
+        this.emit('job:completed', { jobId: job.id, type: job.type, userId: job.userId, result });
+      }
+    } catch (error: any) {
+      if (this.db.open) {
+        this.handleFailure(job, error);
+      }
+    } finally {
+      this.releaseLock(job.id);
+      worker.running--;
+      this.schedulePoll(0);
+    }
+  }
+
+  private handleFailure(job: QueueJob, error: any): void {
+    const message = error instanceof Error ? error.message : String(error);
+    const willRetry = job.attempts < job.maxAttempts && !(error instanceof UnrecoverableError);
+    const now = Date.now();
+    const retryDelay = job.backoffDelay * Math.pow(2, job.attempts - 1);
+
+    const info = this.db.prepare(`
+      UPDATE jobs SET status = ?, error = ?, process_at = ?, failed_at = ?, locked_by = NULL, locked_until = NULL
+      WHERE id = ? AND status = 'processing' AND locked_by = ?
+    `).run(
+      willRetry ? 'retrying' : 'failed',
+      message,
+      willRetry ? now + retryDelay : job.processAt,
+      willRetry ? null : now,
+      job.id,
+      this.workerToken
+    );
+
+    // Job was cancelled or recovered elsewhere while running
+    if (info.changes === 0) return;
+
+    console.error(`❌ Job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}): ${message}`);
+
+    if (willRetry) {
+      this.emit('job:retrying', { jobId: job.id, type: job.type, userId: job.userId, attempts: job.attempts, retryIn: retryDelay });
+    }
+
+    this.emit('job:failed', {
+      jobId: job.id,
+      type: job.type,
+      userId: job.userId,
+      error: message,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      willRetry
+    });
+  }
+
+  private holdLock(jobId: string): void {
+    const timer = setInterval(() => {
+      if (!this.db.open) return;
+      this.db.prepare(`
+        UPDATE jobs SET locked_until = ? WHERE id = ? AND status = 'processing' AND locked_by = ?
+      `).run(Date.now() + this.lockDuration, jobId, this.workerToken);
+    }, Math.max(1000, Math.floor(this.lockDuration / 2)));
+
+    this.lockTimers.set(jobId, timer);
+  }
+
+  private releaseLock(jobId: string): void {
+    const timer = this.lockTimers.get(jobId);
+    if (timer) {
+      clearInterval(timer);
+      this.lockTimers.delete(jobId);
+    }
+  }
+
+  private toJob<T = any>(row: JobRow): QueueJob<T> {
+    return {
+      id: row.id,
+      type: row.type,
+      data: JSON.parse(row.data),
+      status: row.status,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      priority: row.priority,
+      backoffDelay: row.backoff_delay,
+      createdAt: row.created_at,
+      processAt: row.process_at,
+      startedAt: row.started_at ?? undefined,
+      completedAt: row.completed_at ?? undefined,
+      failedAt: row.failed_at ?? undefined,
+      error: row.error ?? undefined,
+      progress: row.progress,
+      message: row.message ?? undefined,
+      result: row.result ? JSON.parse(row.result) : undefined,
+      userId: row.user_id ?? undefined
+    };
+  }
+}
+
+export default SQLiteQueue;
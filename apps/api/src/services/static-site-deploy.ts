@@ -0,0 +1,196 @@
+/**
+ * Static Site Deploy
+ * Uploads and removes files on a static host: a GitHub Pages repository (contents API) or an HTTP deploy endpoint
+ */
+
+import axios from 'axios';
+import type { StaticConfig } from './publishing-automation.service';
+
+export interface StaticSiteFile {
+  path: string; // relative to the site root, e.g. my-post.html or sitemap.xml
+  content: string;
+}
+
+export interface StaticDeployResult {
+  base_url: string; // public URL of the site root, without a trailing slash
+  target_config: 'github_pages' | 'static';
+  deployment_id?: string;
+  shas: Record<string, string>; // GitHub blob sha per uploaded path
+}
+
+export const isGitHubRepository = (config: StaticConfig): boolean => Boolean(config.deployment_url && (
+  config.deployment_url.includes('github.com') ||
+  (config.api_key && config.api_key.startsWith('ghp_'))
+));
+
+const customDomainUrl = (customDomain: string): string =>
+  (customDomain.startsWith('http') ? customDomain : `https://${customDomain}`).replace(/\/+$/, '');
+
+const parseGitHubRepository = (deploymentUrl: string): { owner: string; repo: string } => {
+  // Clean URL to get owner and repo
+  const cleanUrl = deploymentUrl
+    .replace('https://github.com/', '')
+    .replace('http://github.com/', '')
+    .replace('git@github.com:', '');
+  const parts = cleanUrl.split('/');
+  if (parts.length < 2) {
+    throw new Error(`Invalid GitHub Repository URL: ${deploymentUrl}. Use "owner/repo" or "https://github.com/owner/repo"`);
+  }
+  return { owner: parts[0], repo: parts[1].replace('.git', '') };
+};
+
+const gitHubHeaders = (config: StaticConfig) => ({
+  'Authorization': `token ${config.api_key}`,
+  'Accept': 'application/vnd.github.v3+json',
+  'Content-Type': 'application/json',
+  'User-Agent': 'K2W-Automation-System'
+});
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+/**
+ * Page left at a moved URL on hosts without server-side redirects: sends browsers and crawlers on
+ * to the new URL and points the canonical link at it
+ */
+export const redirectPage = (redirectTo: string): string => {
+  const url = escapeAttribute(redirectTo);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Page moved</title>
+  <link rel="canonical" href="${url}">
+  <meta name="robots" content="noindex">
+  <meta http-equiv="refresh" content="0; url=${url}">
+  <script>location.replace(${JSON.stringify(redirectTo).replace(/</g, '\\u003c')});</script>
+</head>
+<body>
+  <p>This page has moved to <a href="${url}">${url}</a>.</p>
+</body>
+</html>
+`;
+};
+
+/**
+ * Upload files to the static host; existing files are replaced
+ */
+export const deployStaticFiles = async (
+  config: StaticConfig,
+  files: StaticSiteFile[],
+  message: string
+): Promise<StaticDeployResult> => {
+  if (isGitHubRepository(config)) {
+    console.log(`[PublishingService] Publishing to GitHub Pages repository: ${config.deployment_url}`);
+
+    const { owner, repo } = parseGitHubRepository(config.deployment_url);
+    const branch = config.build_directory || 'main';
+    const headers = gitHubHeaders(config);
+
+    const shas: Record<string, string> = {};
+    for (const file of files) {
+      const githubApiUrl = `https://api.github.com/repos/${owner}/${repo}/contents/${file.path}`;
+
+      // 1. Check if file exists to get SHA (for updates)
+      let sha: string | undefined;
+      try {
+        const checkRes = await axios.get(githubApiUrl, { headers, params: { ref: branch } });
+        if (checkRes.data && checkRes.data.sha) {
+          sha = checkRes.data.sha;
+        }
+      } catch (err: any) {
+        if (err.response?.status !== 404) {
+          console.error('[GitHub API] Check existing file error:', err.message);
+        }
+      }
+
+      // 2. Upload/Update file on GitHub
+      const uploadResponse = await axios.put(
+        githubApiUrl,
+        {
+          message,
+          content: Buffer.from(file.content).toString('base64'),
+          branch,
+          ...(sha && { sha })
+        },
+        { headers }
+      );
+      shas[file.path] = uploadResponse.data.content.sha;
+    }
+
+    return {
+      // Default GitHub Pages naming structure: https://owner.github.io/repo
+      base_url: config.custom_domain ? customDomainUrl(config.custom_domain) : `https://${owner}.github.io/${repo}`,
+      target_config: 'github_pages',
+      shas
+    };
+  }
+
+  // Default HTTP Endpoint deployment
+  const deployResponse = await axios.post(
+    `${config.deployment_url}/api/deploy`,
+    {
+      files: files.map(file => ({ path: file.path, content: file.content, encoding: 'utf8' })),
+      build_directory: config.build_directory,
+      cdn_enabled: config.cdn_enabled
+    },
+    {
+      headers: {
+        'Authorization': `Bearer ${config.api_key}`,
+        'Content-Type': 'application/json'
+      }
+    }
+  );
+
+  return {
+    base_url: config.custom_domain ? customDomainUrl(config.custom_domain) : deployResponse.data.deployment_url,
+    target_config: 'static',
+    deployment_id: deployResponse.data.deployment_id,
+    shas: {}
+  };
+};
+
+/**
+ * Remove files from the static host; files that are already gone are skipped
+ */
+export const removeStaticFiles = async (
+  config: StaticConfig,
+  paths: string[],
+  message: string
+): Promise<void> => {
+  if (isGitHubRepository(config)) {
+    const { owner, repo } = parseGitHubRepository(config.deployment_url);
+    const branch = config.build_directory || 'main';
+    const headers = gitHubHeaders(config);
+
+    for (const filePath of paths) {
+      const githubApiUrl = `https://api.github.com/repos/${owner}/${repo}/contents/${filePath}`;
+
+      let sha: string | undefined;
+      try {
+        sha = (await axios.get(githubApiUrl, { headers, params: { ref: branch } })).data?.sha;
+      } catch (err: any) {
+        if (err.response?.status === 404) continue;
+        throw err;
+      }
+
+      await axios.delete(githubApiUrl, { headers, data: { message, sha, branch } });
+    }
+    return;
+  }
+
+  await axios.post(
+    `${config.deployment_url}/api/deploy`,
+    {
+      files: [],
+      deleted_files: paths,
+      build_directory: config.build_directory,
+      cdn_enabled: config.cdn_enabled
+    },
+    {
+      headers: {
+        'Authorization': `Bearer ${config.api_key}`,
+        'Content-Type': 'application/json'
+      }
+    }
+  );
+};
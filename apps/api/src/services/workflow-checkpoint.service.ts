@@ -0,0 +1,293 @@
+/**
+ * Workflow Checkpoint Store
+ * Persists K2W workflow stage results and intermediate output in a local SQLite file
+ * so failed or interrupted workflows can resume without regenerating finished work,
+ * along with each project's declarative workflow definition
+ */
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import type { WorkflowDefinition } from '@k2w/utils';
+import type { K2WWorkflowOptions, K2WWorkflowResult, WorkflowStageResult } from './k2w-unified.service';
+import type { PublishingTarget } from './publishing-automation.service';
+import { publishingTargetRegistry, toTargetRef } from './publishing-targets.service';
+
+export type WorkflowRunStatus = 'running' | 'completed' | 'failed' | 'waiting_for_approval';
+
+/** Workflow options as stored: everything except the in-process stage listener */
+export type StoredWorkflowOptions = Omit<K2WWorkflowOptions, 'on_stage_update'>;
+
+export interface WorkflowCheckpoint {
+  workflow_id: string;
+  status: WorkflowRunStatus;
+  options: StoredWorkflowOptions;
+  result: K2WWorkflowResult;
+  updated_at: string;
+}
+
+export interface StoredWorkflowDefinition {
+  project_id: string;
+  definition: WorkflowDefinition;
+  updated_by?: string;
+  updated_at: string;
+}
+
+export interface WorkflowCheckpointStoreOptions {
+  dbPath?: string;
+}
+
+interface WorkflowRow {
+  id: string;
+  project_id: string;
+  status: WorkflowRunStatus;
+  options: string;
+  state: string;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+interface StageRow {
+  workflow_id: string;
+  stage: string;
+  status: WorkflowStageResult['status'];
+  progress: number;
+  data: string | null;
+  error_message: string | null;
+  completed_at: string | null;
+}
+
+interface DefinitionRow {
+  project_id: string;
+  version: number;
+  definition: string;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+const DEFAULT_DB_PATH = process.env.WORKFLOW_DB_PATH || path.join(process.cwd(), 'data', 'workflows.db');
+
+export class WorkflowCheckpointStore {
+  private db: Database.Database;
+
+  constructor(options: WorkflowCheckpointStoreOptions = {}) {
+    const dbPath = options.dbPath || DEFAULT_DB_PATH;
+
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.initDatabase();
+  }
+
+  /**
+   * Store the workflow's options and current output (content, translations, URLs)
+   */
+  saveWorkflow(options: StoredWorkflowOptions, result: K2WWorkflowResult, status: WorkflowRunStatus): void {
+    const { stages, ...state } = result;
+    const now = new Date().toISOString();
+
+    this.db.prepare(`
+      INSERT INTO workflows (id, project_id, status, options, state, created_at, updated_at, completed_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        status = excluded.status,
+        options = excluded.options,
+        state = excluded.state,
+        updated_at = excluded.updated_at,
+        completed_at = excluded.completed_at
+    `).run(
+      result.workflow_id,
+      result.project_id,
+      status,
+      JSON.stringify(options),
+      JSON.stringify(state),
+      result.created_at,
+      now,
+      result.completed_at || null
+    );
+
+    for (const stage of Object.values(stages)) {
+      this.saveStage(result.workflow_id, stage);
+    }
+  }
+
+  /**
+   * Store a single stage result as a checkpoint
+   */
+  saveStage(workflowId: string, stage: WorkflowStageResult): void {
+    this.db.prepare(`
+      INSERT INTO workflow_stages (workflow_id, stage, status, progress, data, error_message, completed_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(workflow_id, stage) DO UPDATE SET
+        status = excluded.status,
+        progress = excluded.progress,
+        data = excluded.data,
+        error_message = excluded.error_message,
+        completed_at = excluded.completed_at,
+        updated_at = excluded.updated_at
+    `).run(
+      workflowId,
+      stage.stage,
+      stage.status,
+      stage.progress,
+      stage.data === undefined ? null : JSON.stringify(stage.data),
+      stage.error_message || null,
+      stage.completed_at || null,
+      new Date().toISOString()
+    );
+  }
+
+  /**
+   * Load a workflow with all of its stage checkpoints
+   */
+  getWorkflow(workflowId: string): WorkflowCheckpoint | null {
+    const row = this.db.prepare('SELECT * FROM workflows WHERE id = ?').get(workflowId) as WorkflowRow | undefined;
+    if (!row) return null;
+
+    const stageRows = this.db.prepare('SELECT * FROM workflow_stages WHERE workflow_id = ? ORDER BY rowid').all(workflowId) as StageRow[];
+    const stages: Record<string, WorkflowStageResult> = {};
+    for (const stageRow of stageRows) {
+      stages[stageRow.stage] = {
+        stage: stageRow.stage,
+        status: stageRow.status,
+        progress: stageRow.progress,
+        data: stageRow.data ? JSON.parse(stageRow.data) : undefined,
+        error_message: stageRow.error_message || undefined,
+        completed_at: stageRow.completed_at || undefined
+      };
+    }
+
+    return {
+      workflow_id: row.id,
+      status: row.status,
+      options: JSON.parse(row.options),
+      result: { ...JSON.parse(row.state), stages },
+      updated_at: row.updated_at
+    };
+  }
+
+  /**
+   * Load every workflow in the given state, oldest first
+   */
+  listWorkflows(status: WorkflowRunStatus): WorkflowCheckpoint[] {
+    const rows = this.db.prepare('SELECT id FROM workflows WHERE status = ? ORDER BY created_at').all(status) as Array<{ id: string }>;
+    return rows
+      .map(row => this.getWorkflow(row.id))
+      .filter((checkpoint): checkpoint is WorkflowCheckpoint => checkpoint !== null);
+  }
+
+  /**
+   * Load every workflow of a project, oldest first
+   */
+  listProjectWorkflows(projectId: string): WorkflowCheckpoint[] {
+    const rows = this.db.prepare('SELECT id FROM workflows WHERE project_id = ? ORDER BY created_at').all(projectId) as Array<{ id: string }>;
+    return rows
+      .map(row => this.getWorkflow(row.id))
+      .filter((checkpoint): checkpoint is WorkflowCheckpoint => checkpoint !== null);
+  }
+
+  /**
+   * Store the workflow definition a project's workflows run with
+   */
+  saveDefinition(projectId: string, definition: WorkflowDefinition, updatedBy?: string): StoredWorkflowDefinition {
+    const updatedAt = new Date().toISOString();
+
+    this.db.prepare(`
+      INSERT INTO workflow_definitions (project_id, version, definition, updated_by, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(project_id) DO UPDATE SET
+        version = excluded.version,
+        definition = excluded.definition,
+        updated_by = excluded.updated_by,
+        updated_at = excluded.updated_at
+    `).run(projectId, definition.version, JSON.stringify(definition), updatedBy || null, updatedAt);
+
+    return { project_id: projectId, definition, updated_by: updatedBy, updated_at: updatedAt };
+  }
+
+  getDefinition(projectId: string): StoredWorkflowDefinition | null {
+    const row = this.db.prepare('SELECT * FROM workflow_definitions WHERE project_id = ?').get(projectId) as DefinitionRow | undefined;
+    if (!row) return null;
+
+    return {
+      project_id: row.project_id,
+      definition: JSON.parse(row.definition),
+      updated_by: row.updated_by || undefined,
+      updated_at: row.updated_at
+    };
+  }
+
+  deleteDefinition(projectId: string): boolean {
+    return this.db.prepare('DELETE FROM workflow_definitions WHERE project_id = ?').run(projectId).changes > 0;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  // Private methods
+
+  private initDatabase(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS workflows (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        options TEXT NOT NULL,
+        state TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        completed_at TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS workflow_stages (
+        workflow_id TEXT NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+        stage TEXT NOT NULL,
+        status TEXT NOT NULL,
+        progress REAL NOT NULL DEFAULT 0,
+        data TEXT,
+        error_message TEXT,
+        completed_at TEXT,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (workflow_id, stage)
+      );
+
+      CREATE TABLE IF NOT EXISTS workflow_definitions (
+        project_id TEXT PRIMARY KEY,
+        version INTEGER NOT NULL,
+        definition TEXT NOT NULL,
+        updated_by TEXT,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_workflows_project ON workflows(project_id);
+      CREATE INDEX IF NOT EXISTS idx_workflows_status ON workflows(status);
+    `);
+
+    // Workflows saved their targets' configs, credentials included, before targets were registered
+    const rows = this.db.prepare(`SELECT id, options FROM workflows WHERE options LIKE '%"config"%'`).all() as Array<Pick<WorkflowRow, 'id' | 'options'>>;
+    for (const row of rows) {
+      const options = JSON.parse(row.options) as Omit<StoredWorkflowOptions, 'publishing_targets'> & { publishing_targets: PublishingTarget[] };
+      publishingTargetRegistry.register(options.publishing_targets.filter(target => target.config));
+      this.db.prepare('UPDATE workflows SET options = ? WHERE id = ?')
+        .run(JSON.stringify({ ...options, publishing_targets: options.publishing_targets.map(toTargetRef) }), row.id);
+    }
+  }
+}
+
+let defaultStore: WorkflowCheckpointStore | null = null;
+
+/**
+ * Shared store, opened on first use so importing the service does not touch the disk
+ */
+export function getWorkflowCheckpointStore(): WorkflowCheckpointStore {
+  if (!defaultStore) {
+    defaultStore = new WorkflowCheckpointStore();
+  }
+  return defaultStore;
+}
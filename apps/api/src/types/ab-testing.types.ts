@@ -3,6 +3,26 @@
  * Type definitions for A/B testing framework
  */
 
+import type {
+  ConfidenceInterval,
+  MultipleComparisonCorrection,
+  SequentialMethod,
+  BanditAlgorithm,
+  TestStatistic
+} from '../services/ab-statistics';
+
+export type { ConfidenceInterval, MultipleComparisonCorrection, SequentialMethod, BanditAlgorithm };
+
+export type ABTestMetricName = 'ctr' | 'conversion_rate' | 'bounce_rate' | 'time_on_page' | 'revenue';
+
+export type ABTestStopReason =
+  | 'efficacy' // a variant crossed the sequential boundary
+  | 'guardrail_violation' // every challenger was aborted by a guardrail
+  | 'max_duration'
+  | 'completed'
+  | 'manual_stop'
+  | 'inconclusive';
+
 export interface ABTestVariant {
   id: string;
   name: string;
@@ -14,6 +34,7 @@ export interface ABTestVariant {
   created_at: string;
   started_at?: string;
   ended_at?: string;
+  stop_reason?: 'guardrail_violation' | 'sequential_loser';
 }
 
 export interface VariantChanges {
@@ -32,19 +53,55 @@ export interface ABTestConfig {
   test_name: string;
   test_type: 'simple' | 'multivariate' | 'champion_challenger';
   hypothesis: string;
-  primary_metric: 'ctr' | 'conversion_rate' | 'bounce_rate' | 'time_on_page' | 'revenue';
+  primary_metric: ABTestMetricName;
   secondary_metrics: string[];
   minimum_sample_size: number;
   confidence_level: number; // 90, 95, or 99
   max_test_duration_days: number;
-  variants: ABTestVariant[];
+  variants: ABTestVariant[]; // variants[0] is the control
+  analysis_mode?: 'frequentist' | 'bayesian';
+  multiple_comparison_correction?: MultipleComparisonCorrection; // default 'holm'
+  minimum_detectable_effect?: number; // relative lift, default 0.1 (10%)
+  statistical_power?: number; // default 0.8
+  sequential_testing?: SequentialTestingConfig;
+  guardrail_metrics?: GuardrailMetric[];
+  allocation_mode?: 'fixed' | 'bandit'; // default 'fixed'
+  bandit?: BanditConfig;
   status: 'setup' | 'running' | 'analyzing' | 'completed';
+  stop_reason?: ABTestStopReason;
   created_by: string;
   created_at: string;
   started_at?: string;
   ended_at?: string;
 }
 
+export interface SequentialTestingConfig {
+  method: SequentialMethod;
+  auto_stop?: boolean; // default true
+  min_sample_size_per_variant?: number; // no decisions before this, default 100
+  msprt_tau?: number; // mSPRT mixing sd as a relative lift, default minimum_detectable_effect
+}
+
+export interface BanditConfig {
+  algorithm: BanditAlgorithm;
+  reward_metric?: 'conversion_rate' | 'ctr' | 'bounce_rate'; // default primary_metric
+  min_allocation?: number; // minimum share of experiment traffic per variant, default 0.05
+  auto_stop?: boolean; // stop once one variant is best with confidence_level probability, default true
+}
+
+export interface AllocationSnapshot {
+  performed_at: string;
+  algorithm: BanditAlgorithm | 'initial';
+  weights: Record<string, number>; // traffic_allocation (%) per variant
+  probability_best?: Record<string, number>; // Thompson sampling only
+  observations: Record<string, { successes: number; trials: number }>;
+}
+
+export interface GuardrailMetric {
+  metric: ABTestMetricName;
+  max_degradation: number; // relative %, e.g. 5 = may not get more than 5% worse than control
+}
+
 export interface ABTestResults {
   test_id: string;
   test_name: string;
@@ -53,8 +110,14 @@ export interface ABTestResults {
   total_visitors: number;
   statistical_significance: boolean;
   confidence_level: number;
+  analysis_mode: 'frequentist' | 'bayesian';
+  multiple_comparison_correction: MultipleComparisonCorrection;
   primary_metric_results: PrimaryMetricResults;
   secondary_metrics: SecondaryMetricResult[];
+  power_analysis: PowerAnalysis;
+  sequential_analysis?: SequentialAnalysis;
+  allocation_history?: AllocationSnapshot[];
+  stop_reason?: ABTestStopReason;
   recommendations: string[];
   created_at: string;
   completed_at?: string;
@@ -63,19 +126,81 @@ export interface ABTestResults {
 export interface PrimaryMetricResults {
   metric_name: string;
   control_value: number;
+  control_sample_size: number;
+  lower_is_better: boolean;
   variants: VariantResult[];
   winner: WinnerResult | null;
+  is_significant: boolean;
 }
 
 export interface VariantResult {
   variant_id: string;
   variant_name: string;
   value: number;
+  sample_size: number;
   lift: number; // Percentage improvement over control
+  test: TestStatistic['test'];
   p_value: number;
+  adjusted_p_value: number;
+  confidence_interval: ConfidenceInterval; // absolute difference vs control
+  lift_confidence_interval: ConfidenceInterval; // relative difference vs control, in %
+  probability_to_beat_control: number;
+  probability_best?: number; // bandit mode
+  expected_loss?: number; // Bayesian mode, proportion metrics only
   is_significant: boolean;
 }
 
+export interface PowerAnalysis {
+  metric_name: string;
+  minimum_detectable_effect: number;
+  alpha: number;
+  target_power: number;
+  required_sample_size_per_variant: number;
+  smallest_variant_sample_size: number;
+  achieved_power: number;
+  sufficient_sample: boolean;
+}
+
+export interface SequentialAnalysis {
+  method: SequentialMethod;
+  alpha: number;
+  looks: SequentialLook[];
+  always_valid_p_values: Record<string, number>; // mSPRT running minimum per variant
+  winner_variant_id?: string;
+}
+
+export interface SequentialLook {
+  look: number;
+  performed_at: string;
+  information_fraction: number;
+  boundary?: number; // O'Brien-Fleming z boundary for this look
+  variants: Array<{
+    variant_id: string;
+    z_statistic: number;
+    always_valid_p_value?: number;
+    crossed: boolean;
+  }>;
+}
+
+export interface GuardrailResult {
+  metric: ABTestMetricName;
+  variant_id: string;
+  lift: number;
+  lift_confidence_interval: ConfidenceInterval;
+  max_degradation: number;
+  violated: boolean;
+}
+
+export interface StoppingDecision {
+  test_id: string;
+  should_stop: boolean;
+  reason?: ABTestStopReason;
+  winner_variant_id?: string;
+  aborted_variants: string[];
+  guardrails: GuardrailResult[];
+  look?: SequentialLook;
+}
+
 export interface WinnerResult {
   variant_id: string;
   variant_name: string;
@@ -89,6 +214,8 @@ export interface SecondaryMetricResult {
     variant_id: string;
     value: number;
     lift: number;
+    p_value?: number;
+    is_significant?: boolean;
   }>;
 }
 
@@ -101,6 +228,50 @@ export interface TestMetrics {
   avg_time_on_page: number;
   revenue: number;
   engagement_score: number;
+  // Raw counts / dispersion, when tracked, make the statistics exact
+  impressions?: number; // unique visitors who saw the page
+  clicks?: number; // unique visitors who clicked
+  bounces?: number;
+  time_on_page_variance?: number;
+  revenue_variance?: number; // per-visitor revenue variance
+}
+
+export type ABTestEventType = 'impression' | 'click' | 'conversion' | 'exit';
+
+export interface ABTestEvent {
+  test_id: string;
+  visitor_id: string;
+  type: ABTestEventType;
+  variant_id?: string; // must match the variant the visitor was served
+  value?: number; // conversion: revenue, exit: seconds on page
+  bounced?: boolean; // exit: visitor left without interacting
+  timestamp?: string;
+}
+
+export interface EventIngestResult {
+  accepted: number;
+  rejected: Array<{ index: number; error: string }>;
+}
+
+export interface VariantAssignment {
+  test_id: string | null;
+  in_experiment: boolean;
+  variant_id?: string;
+  variant_name?: string;
+  is_control?: boolean;
+  content: {
+    title?: string;
+    meta_title?: string;
+    meta_description?: string;
+    cta?: string;
+    intro?: string; // first paragraph of the variant body, as HTML
+  };
+}
+
+export interface ServeVariantRequest {
+  visitor_id: string;
+  test_id?: string;
+  content_id?: string;
 }
 
 export interface CreateTestRequest {
@@ -128,5 +299,7 @@ export interface BatchOptimizationRequest {
     variant_types: Array<'title' | 'meta_description' | 'cta'>;
     test_duration_days: number;
     primary_metric: string;
+    allocation_mode?: 'fixed' | 'bandit';
+    bandit_algorithm?: BanditAlgorithm;
   };
 }
\ No newline at end of file
@@ -0,0 +1,67 @@
+/**
+ * AI Routing Types
+ * Type definitions for the per-task, per-project AI provider routing policies
+ */
+
+export type AITaskType = 'content' | 'translation' | 'clustering';
+
+/**
+ * cheapest     - lowest price table cost for a reference call first (optionally above a quality floor)
+ * best_quality - highest catalog quality first, cheaper first among equals
+ * preferred    - the policy's own provider/model order
+ */
+export type RoutingStrategy = 'cheapest' | 'best_quality' | 'preferred';
+
+export interface AIRouteTarget {
+  provider: string;
+  model?: string; // unset: the provider's configured default model
+}
+
+export interface RoutingPolicy {
+  task: AITaskType | '*'; // '*' applies to every task without its own policy
+  project_id?: string; // unset: applies to every project without its own policy
+  strategy: RoutingStrategy;
+  preferred?: AIRouteTarget[];
+  language_preferences?: Record<string, AIRouteTarget[]>; // language code ('de', 'pt-BR') -> targets tried first
+  allowed_providers?: string[];
+  min_quality?: number; // 1-5, models below it are not routed to
+  fallback: boolean; // try the next candidate when a call fails
+}
+
+export interface StoredRoutingPolicy extends RoutingPolicy {
+  updated_by?: string;
+  updated_at: string;
+}
+
+export interface AIModelProfile {
+  provider: string;
+  model: string;
+  kind: 'text' | 'embedding';
+  quality: number; // 1-5, relative within the kind
+}
+
+export interface AIModelOption extends AIModelProfile {
+  available: boolean; // provider configured on this server
+  reference_cost_usd: number; // 1K prompt + 1K completion tokens at the price table
+}
+
+export interface AIRouteRequest {
+  task: AITaskType;
+  project_id?: string;
+  language?: string;
+}
+
+export interface AIRouteCandidate {
+  provider: string;
+  model: string;
+  reason: string;
+}
+
+export interface AIRoute {
+  task: AITaskType;
+  project_id?: string;
+  language?: string;
+  policy: RoutingPolicy; // the stored policy that applied, or the built-in default
+  default_policy: boolean; // no stored policy matched
+  candidates: AIRouteCandidate[]; // in the order they are tried
+}
@@ -54,6 +54,8 @@ export interface CostAlert {
   created_at: string;
   resolved: boolean;
   resolved_at?: string;
+  scope?: BudgetScope; // budget the alert belongs to
+  scope_id?: string;
 }
 
 export interface OptimizationRecommendation {
@@ -91,6 +93,25 @@ export interface AutoThrottlingConfig {
   stop_at_percentage: number; // Stop processing at X% of budget
 }
 
+export type BudgetScope = 'global' | 'project' | 'user';
+
+export interface StoredBudget {
+  scope: BudgetScope;
+  scope_id?: string; // project or user id, unset for the global budget
+  config: BudgetConfig;
+  updated_by?: string;
+  updated_at: string;
+}
+
+export interface BudgetEnforcement {
+  action: 'allow' | 'throttle' | 'stop';
+  percentage: number; // highest share of any applicable daily or monthly budget spent
+  scope?: BudgetScope; // budget that caused the throttle or stop
+  scope_id?: string;
+  period?: 'daily' | 'monthly';
+  reason?: string;
+}
+
 export interface TokenUsagePattern {
   endpoint: string;
   average_prompt_tokens: number;
@@ -102,6 +123,106 @@ export interface TokenUsagePattern {
   optimization_potential: number; // Estimated savings in USD
 }
 
+// What a ledger entry paid for, as broken down on invoices
+export type CostStage = 'text' | 'images' | 'translation' | 'seo';
+
+export interface AIUsageRecord {
+  id: string;
+  provider: string; // gemini, openai, stability, huggingface, ahrefs, semrush, deepl, ...
+  model: string;
+  operation: string; // aiProvider method or API endpoint that made the call
+  prompt_tokens: number;
+  completion_tokens: number;
+  image_count: number;
+  latency_ms: number;
+  cost_usd: number;
+  tokens_estimated: boolean; // provider reported no usage, counts estimated from text length
+  success: boolean;
+  error_message?: string;
+  project_id?: string;
+  workflow_id?: string;
+  user_id?: string;
+  keyword_id?: string;
+  content_id?: string;
+  stage: CostStage;
+  prompt_hash?: string;
+  created_at: string;
+}
+
+// Stage defaults to the usage context's, then to images for image calls and text otherwise
+export type AIUsageInput = Omit<AIUsageRecord, 'id' | 'cost_usd' | 'created_at' | 'stage'> & { stage?: CostStage };
+
+export interface AIUsageContext {
+  project_id?: string;
+  workflow_id?: string;
+  user_id?: string;
+  keyword_id?: string;
+  content_id?: string;
+  stage?: CostStage;
+}
+
+export interface AIUsageQuery {
+  project_id?: string;
+  workflow_id?: string;
+  user_id?: string;
+  keyword_id?: string;
+  content_id?: string;
+  stage?: CostStage;
+  provider?: string;
+  since?: string; // ISO timestamp, inclusive
+  until?: string; // ISO timestamp, exclusive
+  limit?: number;
+}
+
+export interface AIUsageTotals {
+  calls: number;
+  failed_calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  image_count: number;
+  cost_usd: number;
+  avg_latency_ms: number;
+}
+
+export interface AIPriceEntry {
+  provider: string;
+  model: string; // '*' prices every model of the provider without its own entry
+  input_per_million: number; // USD per 1M prompt tokens
+  output_per_million: number; // USD per 1M completion tokens
+  per_image: number; // USD per generated image
+  per_request?: number; // USD flat fee per call (SEO data APIs), 0 when unset
+  updated_at?: string;
+}
+
+export interface ArticleStageCosts {
+  text: number;
+  images: number;
+  translation: number;
+  seo: number;
+  total: number;
+}
+
+export interface ArticleCostRow {
+  content_id: string;
+  keyword_id: string;
+  title: string;
+  url?: string;
+  published_at?: string;
+  calls: number;
+  costs: ArticleStageCosts;
+}
+
+export interface ArticleCostReport {
+  project_id: string;
+  since?: string;
+  until?: string;
+  articles: ArticleCostRow[];
+  totals: ArticleStageCosts;
+  cost_per_article: number;
+  unattributed_cost: number; // project spend not tied to a published article (drafts, failed runs, research)
+  generated_at: string;
+}
+
 export interface TrackUsageRequest {
   endpoint: string;
   prompt_tokens: number;
@@ -0,0 +1,38 @@
+/**
+ * Provider Health Types
+ * Type definitions for the AI provider circuit breakers
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type ProviderKind = 'text' | 'image';
+
+export interface CircuitBreakerConfig {
+  failure_threshold: number; // consecutive failures that open the circuit
+  error_rate_threshold: number; // 0-1, error rate over the window that opens the circuit
+  window_size: number; // most recent calls the error rate and latency are computed over
+  min_calls: number; // calls needed in the window before the error rate is trusted
+  cool_off_ms: number; // time an opened circuit stays open
+  max_cool_off_ms: number; // cool-off doubles each time a half-open trial fails, up to this
+  slow_call_ms: number; // average latency above which a provider is reported degraded
+}
+
+export interface ProviderHealth {
+  provider: string;
+  kind: ProviderKind;
+  state: CircuitState;
+  status: 'healthy' | 'degraded' | 'unavailable';
+  calls: number; // in the window
+  failures: number; // in the window
+  error_rate: number;
+  avg_latency_ms: number;
+  p95_latency_ms: number;
+  consecutive_failures: number;
+  total_calls: number;
+  total_failures: number;
+  last_error?: string;
+  last_failure_at?: string;
+  last_success_at?: string;
+  opened_at?: string;
+  next_attempt_at?: string; // when an open circuit lets a trial call through
+}
@@ -0,0 +1,101 @@
+/**
+ * Publishing Schedule Types
+ * Type definitions for scheduled publishing jobs and per-domain publishing cadence
+ */
+
+import type { PublishOptions, PublishingTarget } from '../services/publishing-automation.service';
+import type { PublishingTargetRef } from '../services/publishing-targets.service';
+
+export type ScheduledPublishStatus = 'scheduled' | 'publishing' | 'published' | 'failed' | 'cancelled';
+
+/**
+ * Stored with the queued job; content is loaded again when the job runs so later edits are published,
+ * and targets are looked up by id so their credentials stay out of the queue
+ */
+export interface ScheduledPublishJobData {
+  content_id: string;
+  project_id?: string;
+  title: string;
+  domain: string; // site the cadence limit applies to
+  targets: PublishingTargetRef[];
+  time_zone: string;
+  options: Partial<PublishOptions>;
+  user_id?: string;
+}
+
+/** A target a scheduled publish failed on, retried from the failed publishes list */
+export interface ScheduledPublishFailure {
+  target_id: string;
+  error?: string;
+  failed_publish_id?: string;
+}
+
+export interface ScheduledPublish {
+  id: string;
+  content_id: string;
+  project_id?: string;
+  title: string;
+  domain: string;
+  targets: PublishingTargetRef[]; // configs hold credentials and are not returned
+  time_zone: string;
+  scheduled_for: string; // ISO, UTC
+  local_time: string; // 'YYYY-MM-DD HH:mm' in time_zone
+  status: ScheduledPublishStatus;
+  attempts: number;
+  error?: string;
+  published_urls?: string[];
+  failed_targets?: ScheduledPublishFailure[]; // published, or failed, on the other targets
+  created_at: string;
+}
+
+/**
+ * How often a site may publish. Posts of a day are spread evenly over the publishing window.
+ */
+export interface PublishingCadence {
+  domain: string;
+  max_per_day: number;
+  time_zone: string; // IANA name, e.g. Europe/Berlin
+  window_start_hour: number; // 0-23, local time of the first slot
+  window_end_hour: number; // 1-24, slots end before this local hour
+  weekdays?: number[]; // 0 = Sunday; unset: every day
+  targets?: PublishingTargetRef[]; // used when a schedule request names no targets
+}
+
+/** A cadence as saved by clients, with the configs of its targets */
+export interface PublishingCadenceInput extends Omit<PublishingCadence, 'targets'> {
+  targets?: PublishingTarget[];
+}
+
+export interface StoredPublishingCadence extends PublishingCadence {
+  updated_by?: string;
+  updated_at: string;
+}
+
+export interface SchedulePublishRequest {
+  content_id: string;
+  domain?: string; // defaults to the host of the first target
+  targets?: PublishingTarget[];
+  scheduled_for?: string; // ISO; unset: the domain's next free slot
+  time_zone?: string;
+  options?: Partial<PublishOptions>;
+  user_id?: string;
+}
+
+export interface BatchScheduleRequest {
+  content_ids?: string[]; // unset: the project's approved content that is not scheduled yet
+  project_id?: string;
+  domain?: string;
+  targets?: PublishingTarget[];
+  start_at?: string; // ISO; first slot considered, defaults to now
+  time_zone?: string;
+  options?: Partial<PublishOptions>;
+  user_id?: string;
+}
+
+export interface ScheduleListFilters {
+  from?: string;
+  to?: string;
+  domain?: string;
+  project_id?: string;
+  status?: ScheduledPublishStatus[];
+}
@@ -0,0 +1,63 @@
+/**
+ * Search Indexing Types
+ * Type definitions for notifying search engines (IndexNow, Google Indexing API) of published and removed URLs
+ */
+
+import type { PublishingTarget } from '../services/publishing-automation.service';
+
+export type IndexingEngine = 'indexnow' | 'google';
+
+export type IndexingAction = 'URL_UPDATED' | 'URL_DELETED';
+
+export type IndexingSubmissionStatus = 'pending' | 'submitted' | 'retrying' | 'failed';
+
+/** One URL submitted to one search engine */
+export interface IndexingSubmission {
+  id: string;
+  url: string;
+  site_url: string; // IndexNow key file location
+  engine: IndexingEngine;
+  action: IndexingAction;
+  content_id?: string;
+  status: IndexingSubmissionStatus;
+  attempts: number;
+  http_status?: number;
+  error?: string;
+  next_retry_at?: string; // retrying, or pending until the engine's daily quota resets
+  submitted_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface IndexingRequest {
+  urls: string[];
+  action?: IndexingAction; // default URL_UPDATED
+  engines?: IndexingEngine[]; // default: every configured engine
+  content_id?: string;
+  site_url?: string; // default: derived from target, or the URL's origin
+  target?: PublishingTarget; // static targets get the IndexNow key file deployed
+}
+
+export interface IndexingSubmissionFilters {
+  status?: IndexingSubmissionStatus;
+  engine?: IndexingEngine;
+  url?: string;
+  content_id?: string;
+  limit?: number;
+}
+
+export interface IndexingQuota {
+  engine: IndexingEngine;
+  enabled: boolean;
+  day: string; // UTC date the counter is for
+  used: number;
+  limit: number;
+  resets_at: string;
+}
+
+/** Google service account key file (JSON) */
+export interface GoogleServiceAccount {
+  client_email: string;
+  private_key: string;
+  private_key_id?: string;
+}
@@ -0,0 +1,41 @@
+/**
+ * Site Feed Types
+ * Type definitions for the XML sitemaps and RSS/Atom feeds kept for every site content is published to
+ */
+
+import type { PublishingTarget } from '../services/publishing-automation.service';
+
+/** One published page of a site */
+export interface SiteFeedEntry {
+  site_url: string;
+  content_id: string;
+  url: string;
+  title: string;
+  summary?: string;
+  language: string;
+  translation_group: string; // pages sharing it are translations of each other (hreflang alternates)
+  published_at: string;
+  lastmod: string;
+}
+
+export interface SiteFeedFile {
+  path: string; // relative to the site root, e.g. sitemap.xml
+  content: string;
+}
+
+export interface SiteFeed {
+  site_url: string; // site root, without a trailing slash
+  title: string;
+  platform: PublishingTarget['platform'];
+  deployed: boolean; // static sites get the files uploaded; other sites can fetch them from the API
+  entries: number;
+  files: Array<{ path: string; updated_at: string; deployed_at?: string }>;
+  updated_at: string;
+}
+
+export interface SiteFeedSyncResult {
+  site_url: string;
+  changed: string[]; // files regenerated with new content
+  deployed: string[];
+  error?: string;
+}
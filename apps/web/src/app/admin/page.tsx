@@ -6,14 +6,16 @@ import { RefreshCw, Activity, Users } from 'lucide-react';
 import { toast } from 'sonner';
 
 // Import React Query hooks
-import { useHealthCheck, useK2WHealthCheck, useKeywordHistory } from '../../hooks/use-api';
+import { useHealthCheck, useK2WHealthCheck, useKeywordHistory, useAIProviderHealth } from '../../hooks/use-api';
 
 // Import components
 import { 
   PageHeader,
   AdminHealthCard, 
   AdminMetricCard,
+  ProviderHealthCard,
   RecentActivity,
+  RoutingPolicies,
   SystemPerformance,
   TabNavigation 
 } from '../../components';
@@ -25,10 +27,12 @@ export default function AdminPanel() {
   const { data: healthData, isLoading: healthLoading, refetch: refetchHealth } = useHealthCheck();
   const { data: k2wHealthData, isLoading: k2wHealthLoading, refetch: refetchK2WHealth } = useK2WHealthCheck();
   const { data: keywordHistoryData, isLoading: keywordLoading } = useKeywordHistory({ page: 1, limit: 5 });
+  const { data: providerHealth, isLoading: providerHealthLoading, refetch: refetchProviderHealth } = useAIProviderHealth();
 
   const handleRefreshHealth = () => {
     refetchHealth();
     refetchK2WHealth();
+    refetchProviderHealth();
     toast.success('Health status refreshed');
   };
 
@@ -99,6 +103,14 @@ export default function AdminPanel() {
               />
             </div>
 
+            {/* AI Provider Circuit Breakers */}
+            <div className="mb-6">
+              <ProviderHealthCard
+                providers={providerHealth || []}
+                isLoading={providerHealthLoading}
+              />
+            </div>
+
             {/* System Statistics */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               <RecentActivity 
@@ -134,7 +146,7 @@ export default function AdminPanel() {
         {activeTab === 'apis' && (
           <div>
             <h2 className="text-xl font-semibold mb-4">API Configuration</h2>
-            <p className="text-gray-600">Configure API keys and settings.</p>
+            <RoutingPolicies />
           </div>
         )}
 
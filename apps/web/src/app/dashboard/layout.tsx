@@ -4,6 +4,7 @@ import React from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { cn } from '@/lib/utils';
+import { useWorkflowLiveUpdates } from '@/hooks/use-api';
 import { 
   LayoutDashboard, 
   Eye, 
@@ -61,6 +62,9 @@ interface DashboardLayoutProps {
 export default function DashboardLayout({ children }: DashboardLayoutProps) {
   const pathname = usePathname();
 
+  // Receive pushed workflow progress and notifications while on the dashboard
+  useWorkflowLiveUpdates();
+
   const isActive = (href: string, exact?: boolean) => {
     if (exact) {
       return pathname === href;
@@ -1,6 +1,8 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@k2w/ui/card';
-import { RefreshCw, CheckCircle, AlertCircle } from 'lucide-react';
+import { Badge } from '@k2w/ui/badge';
+import { RefreshCw, CheckCircle, AlertCircle, AlertTriangle, Cpu } from 'lucide-react';
 import type { HealthStatusCardProps } from '@/types/dashboard';
+import type { ProviderHealth } from '@/lib/api-services';
 
 export function HealthStatusCard({ 
   title, 
@@ -79,4 +81,70 @@ export function MetricCard({ title, value, description, icon, isLoading }: Metri
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
+
+interface ProviderHealthCardProps {
+  providers: ProviderHealth[];
+  isLoading: boolean;
+}
+
+const circuitBadge: Record<ProviderHealth['state'], { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  closed: { label: 'Closed', variant: 'default' },
+  'half-open': { label: 'Half-open', variant: 'secondary' },
+  open: { label: 'Open', variant: 'destructive' },
+};
+
+export function ProviderHealthCard({ providers, isLoading }: ProviderHealthCardProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-gray-600 flex items-center">
+          <Cpu className="h-4 w-4 inline mr-1" />
+          AI Providers
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <RefreshCw className="h-4 w-4 animate-spin" />
+        ) : providers.length === 0 ? (
+          <p className="text-sm text-gray-500">No AI providers configured</p>
+        ) : (
+          <div className="space-y-3">
+            {providers.map(provider => (
+              <div key={provider.provider} className="flex items-start justify-between gap-4">
+                <div className="flex items-start space-x-2">
+                  {provider.status === 'healthy' ? (
+                    <CheckCircle className="h-4 w-4 mt-0.5 text-green-500" />
+                  ) : provider.status === 'degraded' ? (
+                    <AlertTriangle className="h-4 w-4 mt-0.5 text-yellow-500" />
+                  ) : (
+                    <AlertCircle className="h-4 w-4 mt-0.5 text-red-500" />
+                  )}
+                  <div>
+                    <p className="text-sm font-medium">
+                      {provider.provider} <span className="text-xs text-gray-500">({provider.kind})</span>
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {provider.calls > 0
+                        ? `${(provider.error_rate * 100).toFixed(0)}% errors · ${(provider.avg_latency_ms / 1000).toFixed(1)}s avg · ${(provider.p95_latency_ms / 1000).toFixed(1)}s p95`
+                        : 'No calls yet'}
+                    </p>
+                    {provider.state !== 'closed' && provider.last_error && (
+                      <p className="text-xs text-red-500 truncate max-w-xs" title={provider.last_error}>{provider.last_error}</p>
+                    )}
+                    {provider.next_attempt_at && (
+                      <p className="text-xs text-gray-500">
+                        Retrying at {new Date(provider.next_attempt_at).toLocaleTimeString()}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <Badge variant={circuitBadge[provider.state].variant}>{circuitBadge[provider.state].label}</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
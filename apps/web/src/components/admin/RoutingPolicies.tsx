@@ -0,0 +1,216 @@
+/**
+ * Routing Policies Component
+ * Admin view of the AI provider routing policies per task type and project
+ */
+
+import { useState } from 'react';
+import { Button } from '@k2w/ui/button';
+import { Input } from '@k2w/ui/input';
+import { Label } from '@k2w/ui/label';
+import { Badge } from '@k2w/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@k2w/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@k2w/ui/select';
+import { Loader2, Route, Trash2 } from 'lucide-react';
+import { useAIRoutingPolicies, useUpdateRoutingPolicy, useDeleteRoutingPolicy } from '../../hooks/use-api';
+import type { AIRouteTarget, RoutingPolicy } from '@/lib/api-services';
+
+const STRATEGIES: Array<{ value: RoutingPolicy['strategy']; label: string }> = [
+  { value: 'preferred', label: 'Preferred order' },
+  { value: 'cheapest', label: 'Cheapest' },
+  { value: 'best_quality', label: 'Best quality' },
+];
+
+// "gemini:gemini-3.5-flash, openai" -> targets
+const parseTargets = (value: string): AIRouteTarget[] =>
+  value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [provider, model] = entry.split(':').map(part => part.trim());
+      return model ? { provider, model } : { provider };
+    });
+
+const formatTargets = (targets?: AIRouteTarget[]) =>
+  (targets || []).map(target => (target.model ? `${target.provider}:${target.model}` : target.provider)).join(', ');
+
+export function RoutingPolicies() {
+  const { data, isLoading } = useAIRoutingPolicies();
+  const updatePolicy = useUpdateRoutingPolicy();
+  const deletePolicy = useDeleteRoutingPolicy();
+
+  const [task, setTask] = useState<RoutingPolicy['task']>('*');
+  const [projectId, setProjectId] = useState('');
+  const [strategy, setStrategy] = useState<RoutingPolicy['strategy']>('preferred');
+  const [preferred, setPreferred] = useState('');
+  const [minQuality, setMinQuality] = useState('');
+  const [fallback, setFallback] = useState(true);
+
+  const policies = data?.data?.policies || [];
+  const taskTypes = data?.data?.task_types || [];
+  const models = data?.data?.models || [];
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updatePolicy.mutate({
+      task,
+      project_id: projectId.trim() || undefined,
+      strategy,
+      preferred: preferred.trim() ? parseTargets(preferred) : undefined,
+      min_quality: minQuality ? Number(minQuality) : undefined,
+      fallback,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Route className="h-5 w-5 mr-2" />
+            AI Routing Policies
+          </CardTitle>
+          <CardDescription>
+            Choose the provider and model per task type and project. Changes apply to the next AI call.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : policies.length === 0 ? (
+            <p className="text-sm text-gray-500">No policies set, providers are tried in their configured order</p>
+          ) : (
+            <div className="divide-y">
+              {policies.map(policy => (
+                <div key={`${policy.task}:${policy.project_id || ''}`} className="flex items-center justify-between py-3">
+                  <div>
+                    <p className="text-sm font-medium">
+                      {policy.task === '*' ? 'All tasks' : policy.task}
+                      <span className="text-xs text-gray-500 ml-2">
+                        {policy.project_id ? `project ${policy.project_id}` : 'all projects'}
+                      </span>
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {STRATEGIES.find(option => option.value === policy.strategy)?.label}
+                      {policy.preferred?.length ? ` · ${formatTargets(policy.preferred)}` : ''}
+                      {policy.min_quality ? ` · quality ≥ ${policy.min_quality}` : ''}
+                      {policy.language_preferences
+                        ? ` · languages: ${Object.keys(policy.language_preferences).join(', ')}`
+                        : ''}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {!policy.fallback && <Badge variant="secondary">No fallback</Badge>}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={deletePolicy.isPending}
+                      onClick={() => deletePolicy.mutate({ task: policy.task, project_id: policy.project_id })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Add or Replace a Policy</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Task</Label>
+              <Select value={task} onValueChange={(value) => setTask(value as RoutingPolicy['task'])}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="*">All tasks</SelectItem>
+                  {taskTypes.map(taskType => (
+                    <SelectItem key={taskType} value={taskType}>{taskType}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="routing-project">Project ID</Label>
+              <Input
+                id="routing-project"
+                placeholder="All projects"
+                value={projectId}
+                onChange={(e) => setProjectId(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Strategy</Label>
+              <Select value={strategy} onValueChange={(value) => setStrategy(value as RoutingPolicy['strategy'])}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STRATEGIES.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="routing-min-quality">Minimum quality (1-5)</Label>
+              <Input
+                id="routing-min-quality"
+                type="number"
+                min={1}
+                max={5}
+                value={minQuality}
+                onChange={(e) => setMinQuality(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="routing-preferred">Preferred providers</Label>
+              <Input
+                id="routing-preferred"
+                placeholder="gemini:gemini-3.5-flash, openai:gpt-4o"
+                value={preferred}
+                onChange={(e) => setPreferred(e.target.value)}
+              />
+              {models.length > 0 && (
+                <p className="text-xs text-gray-500">
+                  Models: {models
+                    .filter(model => model.available)
+                    .map(model => `${model.provider}:${model.model} (q${model.quality}, $${model.reference_cost_usd.toFixed(4)})`)
+                    .join(', ')}
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <input
+                id="routing-fallback"
+                type="checkbox"
+                checked={fallback}
+                onChange={(e) => setFallback(e.target.checked)}
+              />
+              <Label htmlFor="routing-fallback">Fall back to the next provider on failure</Label>
+            </div>
+
+            <div className="flex justify-end md:col-span-2">
+              <Button type="submit" disabled={updatePolicy.isPending}>
+                {updatePolicy.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Policy
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@k2w/ui';
 import { Button } from '@k2w/ui';
 import { Badge } from '@k2w/ui';
@@ -18,29 +18,61 @@ import {
   AlertCircle, 
   CheckCircle, 
   Lightbulb,
-  Clock
+  Clock,
+  Activity,
+  DollarSign,
+  Download,
+  FileText
 } from 'lucide-react';
+import { toast } from 'sonner';
 import {
   useBudgetStatus,
   useConfigureBudget,
   useCostAnalytics,
   useOptimizePrompt,
-  useCostRecommendations
+  useCostRecommendations,
+  useAIUsage,
+  useAIPriceTable,
+  useUpdateAIPriceTable,
+  useArticleCostReport
 } from '../../hooks/use-api';
+import { costOptimizationService } from '../../lib/api-services';
+import type { AIPriceEntry, BudgetConfig, CostStage } from '../../lib/api-services';
+
+const formatCost = (value: number) => `$${value < 0.01 && value > 0 ? value.toFixed(4) : value.toFixed(2)}`;
 
 function BudgetOverview() {
   const { data: budgetData, isLoading } = useBudgetStatus();
   const { mutate: configureBudget, isPending: configuring } = useConfigureBudget();
   
-  const [budgetConfig, setBudgetConfig] = useState({
-    monthly_limit: 1000,
-    daily_limit: 50,
-    alert_thresholds: [75, 90, 95],
-    auto_stop_at_limit: false
-  });
+  const [budgetConfig, setBudgetConfig] = useState<BudgetConfig | null>(null);
+
+  useEffect(() => {
+    if (budgetData?.data?.config) {
+      setBudgetConfig(budgetData.data.config);
+    }
+  }, [budgetData]);
 
   const handleConfigureBudget = () => {
-    configureBudget(budgetConfig);
+    if (budgetConfig) {
+      configureBudget(budgetConfig);
+    }
+  };
+
+  const updateThrottling = (field: 'throttle_at_percentage' | 'stop_at_percentage', value: string) => {
+    if (!budgetConfig) return;
+    setBudgetConfig({
+      ...budgetConfig,
+      auto_throttling: { ...budgetConfig.auto_throttling, [field]: parseFloat(value) || 0 }
+    });
+  };
+
+  const updateAlertThreshold = (field: 'daily_percentage' | 'monthly_percentage', value: string) => {
+    if (!budgetConfig) return;
+    setBudgetConfig({
+      ...budgetConfig,
+      alert_thresholds: { ...budgetConfig.alert_thresholds, [field]: parseFloat(value) || 0 }
+    });
   };
 
   if (isLoading) {
@@ -63,13 +95,12 @@ function BudgetOverview() {
     );
   }
 
-  const budget = budgetData.data as any;
+  const budget = budgetData.data;
   
-  // Safe layout-adaptive properties (supports old & new backend shapes)
-  const currentSpend = budget.current_spend ?? (budget.monthly?.spent ?? 0);
-  const monthlyBudget = budget.monthly_budget ?? (budget.monthly?.budget ?? 1);
-  const dailyAverage = budget.daily_average ?? (budget.daily?.spent ?? 0);
-  const projectedMonthly = budget.projected_monthly ?? (budget.monthly?.spent ?? 0);
+  const currentSpend = budget.current_spend ?? 0;
+  const monthlyBudget = budget.monthly_budget ?? 1;
+  const dailyAverage = budget.daily_average ?? 0;
+  const projectedMonthly = budget.projected_monthly ?? 0;
   const alerts = budget.alerts ?? [];
 
   const spendPercentage = (currentSpend / (monthlyBudget || 1)) * 100;
@@ -81,12 +112,34 @@ function BudgetOverview() {
         <CardTitle className="flex items-center gap-2">
           <PiggyBank className="w-5 h-5" />
           Budget Management
+          {budget.processing_stopped ? (
+            <Badge variant="destructive">Stopped</Badge>
+          ) : budget.throttling_active ? (
+            <Badge variant="secondary">Throttled</Badge>
+          ) : null}
         </CardTitle>
         <CardDescription>
           Monitor and control your monthly spending
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
+        {/* Enforcement State */}
+        {budget.processing_stopped ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Budget exhausted: new content generation jobs are refused until the budget is raised or the period resets.
+            </AlertDescription>
+          </Alert>
+        ) : budget.throttling_active ? (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Budget throttled: image generation is skipped and cheaper models are used.
+            </AlertDescription>
+          </Alert>
+        ) : null}
+
         {/* Current Budget Status */}
         <div className="space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -100,10 +153,11 @@ function BudgetOverview() {
             </div>
             
             <div className="space-y-2">
-              <div className="text-sm text-muted-foreground">Daily Average</div>
-              <div className="text-2xl font-bold">${dailyAverage.toFixed(2)}</div>
+              <div className="text-sm text-muted-foreground">Today</div>
+              <div className="text-2xl font-bold">{formatCost(budget.daily.spent)}</div>
+              <Progress value={budget.daily.percentage} className="h-2" />
               <div className="text-xs text-muted-foreground">
-                Per day this month
+                {budget.daily.percentage.toFixed(1)}% of ${budget.daily.budget.toFixed(2)} · ${dailyAverage.toFixed(2)}/day average
               </div>
             </div>
             
@@ -122,7 +176,7 @@ function BudgetOverview() {
           {alerts.length > 0 && (
             <div className="space-y-2">
               <h3 className="font-medium">Budget Alerts</h3>
-              {alerts.map((alert: any, index: number) => (
+              {alerts.map((alert, index) => (
                 <Alert key={index} variant={alert.type === 'critical' ? 'destructive' : 'default'}>
                   <AlertTriangle className="h-4 w-4" />
                   <AlertDescription>{alert.message}</AlertDescription>
@@ -133,66 +187,89 @@ function BudgetOverview() {
         </div>
 
         {/* Budget Configuration */}
-        <div className="border-t pt-6">
-          <h3 className="font-medium mb-4">Budget Configuration</h3>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Monthly Limit ($)</label>
-              <Input
-                type="number"
-                value={budgetConfig.monthly_limit}
-                onChange={(e) => setBudgetConfig({ ...budgetConfig, monthly_limit: parseFloat(e.target.value) || 0 })}
-              />
-            </div>
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Daily Limit ($)</label>
-              <Input
-                type="number"
-                value={budgetConfig.daily_limit}
-                onChange={(e) => setBudgetConfig({ ...budgetConfig, daily_limit: parseFloat(e.target.value) || 0 })}
-              />
+        {budgetConfig && (
+          <div className="border-t pt-6">
+            <h3 className="font-medium mb-4">Budget Configuration</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Monthly Limit ($)</label>
+                <Input
+                  type="number"
+                  value={budgetConfig.monthly_budget_usd}
+                  onChange={(e) => setBudgetConfig({ ...budgetConfig, monthly_budget_usd: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Daily Limit ($)</label>
+                <Input
+                  type="number"
+                  value={budgetConfig.daily_budget_usd}
+                  onChange={(e) => setBudgetConfig({ ...budgetConfig, daily_budget_usd: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
             </div>
-          </div>
-          
-          <div className="mt-4 space-y-2">
-            <label className="text-sm font-medium">Alert Thresholds (%)</label>
-            <div className="flex gap-2">
-              {budgetConfig.alert_thresholds.map((threshold, index) => (
+            
+            <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Daily Alert (%)</label>
                 <Input
-                  key={index}
                   type="number"
-                  value={threshold}
-                  onChange={(e) => {
-                    const newThresholds = [...budgetConfig.alert_thresholds];
-                    newThresholds[index] = parseFloat(e.target.value) || 0;
-                    setBudgetConfig({ ...budgetConfig, alert_thresholds: newThresholds });
-                  }}
-                  className="w-20"
+                  value={budgetConfig.alert_thresholds.daily_percentage}
+                  onChange={(e) => updateAlertThreshold('daily_percentage', e.target.value)}
                 />
-              ))}
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Monthly Alert (%)</label>
+                <Input
+                  type="number"
+                  value={budgetConfig.alert_thresholds.monthly_percentage}
+                  onChange={(e) => updateAlertThreshold('monthly_percentage', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Throttle At (%)</label>
+                <Input
+                  type="number"
+                  value={budgetConfig.auto_throttling.throttle_at_percentage}
+                  onChange={(e) => updateThrottling('throttle_at_percentage', e.target.value)}
+                />
+                <div className="text-xs text-muted-foreground">Skip images and use cheaper models</div>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Stop At (%)</label>
+                <Input
+                  type="number"
+                  value={budgetConfig.auto_throttling.stop_at_percentage}
+                  onChange={(e) => updateThrottling('stop_at_percentage', e.target.value)}
+                />
+                <div className="text-xs text-muted-foreground">Refuse new generation jobs</div>
+              </div>
             </div>
-          </div>
 
-          <div className="mt-4">
-            <label className="flex items-center gap-2 text-sm">
-              <input
-                type="checkbox"
-                checked={budgetConfig.auto_stop_at_limit}
-                onChange={(e) => setBudgetConfig({ ...budgetConfig, auto_stop_at_limit: e.target.checked })}
-              />
-              Auto-stop at limit
-            </label>
-          </div>
+            <div className="mt-4">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={budgetConfig.auto_throttling.enabled}
+                  onChange={(e) => setBudgetConfig({
+                    ...budgetConfig,
+                    auto_throttling: { ...budgetConfig.auto_throttling, enabled: e.target.checked }
+                  })}
+                />
+                Enforce budget (throttle and stop)
+              </label>
+            </div>
 
-          <Button 
-            onClick={handleConfigureBudget} 
-            disabled={configuring}
-            className="mt-4"
-          >
-            {configuring ? <RefreshCw className="w-4 h-4 animate-spin mr-2" /> : <Settings className="w-4 h-4 mr-2" />}
-            Update Budget Settings
-          </Button>
-        </div>
+            <Button 
+              onClick={handleConfigureBudget} 
+              disabled={configuring}
+              className="mt-4"
+            >
+              {configuring ? <RefreshCw className="w-4 h-4 animate-spin mr-2" /> : <Settings className="w-4 h-4 mr-2" />}
+              Update Budget Settings
+            </Button>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -243,6 +320,11 @@ function CostAnalytics() {
     effort_required: r.implementation_effort || 'low'
   })) ?? []);
 
+  const tokenUsage = analytics.token_usage ?? { calls: 0, failed_calls: 0, prompt_tokens: 0, completion_tokens: 0, image_count: 0 };
+  const usageTrends: Array<{ date: string; cost: number; usage: number }> = analytics.usage_trends ?? [];
+  const maxTrendCost = Math.max(...usageTrends.map(point => point.cost), 0);
+  const costByProject: Record<string, number> = analytics.cost_by_project ?? {};
+
   return (
     <Card>
       <CardHeader>
@@ -271,18 +353,33 @@ function CostAnalytics() {
         </div>
 
         {/* Summary Metrics */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <Card className="p-4">
             <div className="space-y-2">
               <div className="text-sm text-muted-foreground">Total Cost</div>
-              <div className="text-2xl font-bold">${totalCost.toFixed(2)}</div>
+              <div className="text-2xl font-bold">{formatCost(totalCost)}</div>
             </div>
           </Card>
           
           <Card className="p-4">
             <div className="space-y-2">
-              <div className="text-sm text-muted-foreground">Services Used</div>
-              <div className="text-2xl font-bold">{Object.keys(costBreakdown).length}</div>
+              <div className="text-sm text-muted-foreground">AI Calls</div>
+              <div className="text-2xl font-bold">{tokenUsage.calls.toLocaleString()}</div>
+              <div className="text-xs text-muted-foreground">
+                {tokenUsage.failed_calls} failed · {tokenUsage.image_count} images
+              </div>
+            </div>
+          </Card>
+
+          <Card className="p-4">
+            <div className="space-y-2">
+              <div className="text-sm text-muted-foreground">Tokens</div>
+              <div className="text-2xl font-bold">
+                {(tokenUsage.prompt_tokens + tokenUsage.completion_tokens).toLocaleString()}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {tokenUsage.prompt_tokens.toLocaleString()} prompt · {tokenUsage.completion_tokens.toLocaleString()} completion
+              </div>
             </div>
           </Card>
           
@@ -304,7 +401,7 @@ function CostAnalytics() {
                 <div key={service} className="space-y-1">
                   <div className="flex justify-between text-sm">
                     <span className="font-medium">{service}</span>
-                    <span>${(cost as number).toFixed(2)} ({percentage.toFixed(1)}%)</span>
+                    <span>{formatCost(cost as number)} ({percentage.toFixed(1)}%)</span>
                   </div>
                   <Progress value={percentage} className="h-2" />
                 </div>
@@ -313,6 +410,41 @@ function CostAnalytics() {
           </div>
         </div>
 
+        {/* Usage Trends */}
+        {usageTrends.length > 0 && (
+          <div>
+            <h3 className="font-medium mb-3">Spend Over Time</h3>
+            <div className="space-y-2">
+              {usageTrends.map(point => (
+                <div key={point.date} className="flex items-center gap-3 text-sm">
+                  <span className="w-28 shrink-0 text-muted-foreground">
+                    {period === 'daily' ? `${point.date.slice(11)}:00` : point.date}
+                  </span>
+                  <Progress value={(point.cost / (maxTrendCost || 1)) * 100} className="h-2 flex-1" />
+                  <span className="w-40 shrink-0 text-right">
+                    {formatCost(point.cost)} · {point.usage.toLocaleString()} tokens
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Cost by Project */}
+        {Object.keys(costByProject).length > 0 && (
+          <div>
+            <h3 className="font-medium mb-3">Cost by Project</h3>
+            <div className="space-y-1">
+              {Object.entries(costByProject).map(([project, cost]) => (
+                <div key={project} className="flex justify-between text-sm">
+                  <span className="font-medium">{project}</span>
+                  <span>{formatCost(cost)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Optimization Opportunities */}
         {optimizationOpportunities.length > 0 && (
           <div>
@@ -324,7 +456,7 @@ function CostAnalytics() {
                     <div className="space-y-1">
                       <h4 className="font-medium">{opportunity.area}</h4>
                       <p className="text-sm text-muted-foreground">
-                        Potential savings: ${opportunity.potential_savings.toFixed(2)}
+                        Potential savings: {formatCost(opportunity.potential_savings)}
                       </p>
                     </div>
                     <Badge variant={opportunity.effort_required === 'low' ? 'default' : 'secondary'}>
@@ -341,6 +473,347 @@ function CostAnalytics() {
   );
 }
 
+function RecentAICalls() {
+  const { data: usageData, isLoading } = useAIUsage({ limit: 20 });
+  const records = usageData?.data?.records ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="w-5 h-5" />
+          Recent AI Calls
+        </CardTitle>
+        <CardDescription>
+          Every metered text and image call with its tokens, latency and cost
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <RefreshCw className="w-6 h-6 animate-spin" />
+          </div>
+        ) : records.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No AI calls recorded yet</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b">
+                  <th className="py-2 pr-3 font-medium">Time</th>
+                  <th className="py-2 pr-3 font-medium">Provider / Model</th>
+                  <th className="py-2 pr-3 font-medium">Operation</th>
+                  <th className="py-2 pr-3 font-medium text-right">Tokens</th>
+                  <th className="py-2 pr-3 font-medium text-right">Images</th>
+                  <th className="py-2 pr-3 font-medium text-right">Latency</th>
+                  <th className="py-2 pr-3 font-medium text-right">Cost</th>
+                  <th className="py-2 font-medium">Project / Workflow</th>
+                </tr>
+              </thead>
+              <tbody>
+                {records.map(record => (
+                  <tr key={record.id} className="border-b last:border-0">
+                    <td className="py-2 pr-3 whitespace-nowrap">{new Date(record.created_at).toLocaleString()}</td>
+                    <td className="py-2 pr-3">
+                      <div className="font-medium">{record.provider}</div>
+                      <div className="text-xs text-muted-foreground">{record.model}</div>
+                    </td>
+                    <td className="py-2 pr-3">
+                      {record.operation}
+                      <span className="text-xs text-muted-foreground"> · {record.stage}</span>
+                      {!record.success && (
+                        <Badge variant="destructive" className="ml-2" title={record.error_message}>failed</Badge>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3 text-right whitespace-nowrap">
+                      {record.prompt_tokens.toLocaleString()} / {record.completion_tokens.toLocaleString()}
+                      {record.tokens_estimated && <span className="text-xs text-muted-foreground" title="Estimated from text length"> ~</span>}
+                    </td>
+                    <td className="py-2 pr-3 text-right">{record.image_count}</td>
+                    <td className="py-2 pr-3 text-right whitespace-nowrap">{(record.latency_ms / 1000).toFixed(1)}s</td>
+                    <td className="py-2 pr-3 text-right">{formatCost(record.cost_usd)}</td>
+                    <td className="py-2 text-xs text-muted-foreground">
+                      {record.project_id ?? '—'}
+                      {record.workflow_id && <div>{record.workflow_id}</div>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const PRICE_FIELDS = ['input_per_million', 'output_per_million', 'per_image', 'per_request'] as const;
+type PriceField = typeof PRICE_FIELDS[number];
+
+function PriceTable() {
+  const { data: pricesData, isLoading } = useAIPriceTable();
+  const { mutate: updatePrices, isPending: saving } = useUpdateAIPriceTable();
+  const [prices, setPrices] = useState<AIPriceEntry[]>([]);
+  const [newEntry, setNewEntry] = useState<AIPriceEntry>({
+    provider: '',
+    model: '*',
+    input_per_million: 0,
+    output_per_million: 0,
+    per_image: 0,
+    per_request: 0
+  });
+
+  useEffect(() => {
+    if (pricesData?.data?.prices) {
+      setPrices(pricesData.data.prices);
+    }
+  }, [pricesData]);
+
+  const updateEntry = (index: number, field: PriceField, value: string) => {
+    const next = [...prices];
+    next[index] = { ...next[index], [field]: parseFloat(value) || 0 };
+    setPrices(next);
+  };
+
+  const handleAdd = () => {
+    if (!newEntry.provider.trim() || !newEntry.model.trim()) return;
+    updatePrices([{ ...newEntry, provider: newEntry.provider.trim(), model: newEntry.model.trim() }]);
+    setNewEntry({ provider: '', model: '*', input_per_million: 0, output_per_million: 0, per_image: 0, per_request: 0 });
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-8">
+          <RefreshCw className="w-6 h-6 animate-spin" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DollarSign className="w-5 h-5" />
+          AI Price Table
+        </CardTitle>
+        <CardDescription>
+          USD per 1M tokens, per image and per successful request (SEO APIs). Model &quot;*&quot; prices every model of the provider without its own row. Changes apply to calls recorded from now on.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b">
+                <th className="py-2 pr-3 font-medium">Provider</th>
+                <th className="py-2 pr-3 font-medium">Model</th>
+                <th className="py-2 pr-3 font-medium">Input / 1M</th>
+                <th className="py-2 pr-3 font-medium">Output / 1M</th>
+                <th className="py-2 pr-3 font-medium">Per Image</th>
+                <th className="py-2 font-medium">Per Request</th>
+              </tr>
+            </thead>
+            <tbody>
+              {prices.map((entry, index) => (
+                <tr key={`${entry.provider}/${entry.model}`} className="border-b last:border-0">
+                  <td className="py-2 pr-3 font-medium">{entry.provider}</td>
+                  <td className="py-2 pr-3">{entry.model}</td>
+                  {PRICE_FIELDS.map(field => (
+                    <td key={field} className="py-2 pr-3">
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={entry[field] ?? 0}
+                        onChange={(e) => updateEntry(index, field, e.target.value)}
+                        className="w-28"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              <tr>
+                <td className="py-2 pr-3">
+                  <Input
+                    placeholder="provider"
+                    value={newEntry.provider}
+                    onChange={(e) => setNewEntry({ ...newEntry, provider: e.target.value })}
+                    className="w-32"
+                  />
+                </td>
+                <td className="py-2 pr-3">
+                  <Input
+                    placeholder="model"
+                    value={newEntry.model}
+                    onChange={(e) => setNewEntry({ ...newEntry, model: e.target.value })}
+                    className="w-32"
+                  />
+                </td>
+                {PRICE_FIELDS.map(field => (
+                  <td key={field} className="py-2 pr-3">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={newEntry[field] ?? 0}
+                      onChange={(e) => setNewEntry({ ...newEntry, [field]: parseFloat(e.target.value) || 0 })}
+                      className="w-28"
+                    />
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex gap-2">
+          <Button onClick={() => updatePrices(prices)} disabled={saving || prices.length === 0}>
+            {saving ? <RefreshCw className="w-4 h-4 animate-spin mr-2" /> : <Settings className="w-4 h-4 mr-2" />}
+            Save Prices
+          </Button>
+          <Button variant="outline" onClick={handleAdd} disabled={saving || !newEntry.provider.trim()}>
+            Add Price
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+const COST_STAGES: Array<{ key: CostStage; label: string }> = [
+  { key: 'text', label: 'Text' },
+  { key: 'images', label: 'Images' },
+  { key: 'translation', label: 'Translation' },
+  { key: 'seo', label: 'SEO APIs' }
+];
+
+function ArticleCostReport() {
+  const [projectId, setProjectId] = useState('');
+  const [since, setSince] = useState('');
+  const [until, setUntil] = useState('');
+  const [downloading, setDownloading] = useState(false);
+
+  const params = {
+    project_id: projectId.trim(),
+    since: since ? new Date(since).toISOString() : undefined,
+    until: until ? new Date(until).toISOString() : undefined
+  };
+  const { data: reportData, isLoading } = useArticleCostReport(params);
+  const report = reportData?.data;
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      const csv = await costOptimizationService.downloadArticleCostReport(params);
+      const url = URL.createObjectURL(csv);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `article-costs-${params.project_id}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error(`Failed to download report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="w-5 h-5" />
+          Cost per Published Article
+        </CardTitle>
+        <CardDescription>
+          What each published article of a project cost to produce, by stage. Spend recorded against a keyword before its article existed is shared between that keyword&apos;s articles.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-2">
+          <div>
+            <label className="text-sm font-medium">Project ID</label>
+            <Input value={projectId} onChange={(e) => setProjectId(e.target.value)} className="w-64" />
+          </div>
+          <div>
+            <label className="text-sm font-medium">From</label>
+            <Input type="date" value={since} onChange={(e) => setSince(e.target.value)} />
+          </div>
+          <div>
+            <label className="text-sm font-medium">To</label>
+            <Input type="date" value={until} onChange={(e) => setUntil(e.target.value)} />
+          </div>
+          <Button variant="outline" onClick={handleDownload} disabled={!params.project_id || downloading}>
+            {downloading ? <RefreshCw className="w-4 h-4 animate-spin mr-2" /> : <Download className="w-4 h-4 mr-2" />}
+            Download CSV
+          </Button>
+        </div>
+
+        {!params.project_id ? (
+          <div className="text-center py-8 text-muted-foreground">Enter a project to see its article costs</div>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <RefreshCw className="w-6 h-6 animate-spin" />
+          </div>
+        ) : !report || report.articles.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No published articles with recorded spend</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Total</p>
+                <p className="text-2xl font-bold">{formatCost(report.totals.total)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Per Article</p>
+                <p className="text-2xl font-bold">{formatCost(report.cost_per_article)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Unattributed</p>
+                <p className="text-2xl font-bold">{formatCost(report.unattributed_cost)}</p>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b">
+                    <th className="py-2 pr-3 font-medium">Article</th>
+                    <th className="py-2 pr-3 font-medium">Published</th>
+                    {COST_STAGES.map(stage => (
+                      <th key={stage.key} className="py-2 pr-3 font-medium text-right">{stage.label}</th>
+                    ))}
+                    <th className="py-2 font-medium text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.articles.map(article => (
+                    <tr key={article.content_id} className="border-b last:border-0">
+                      <td className="py-2 pr-3">
+                        <div className="font-medium">{article.title}</div>
+                        {article.url && <div className="text-xs text-muted-foreground">{article.url}</div>}
+                      </td>
+                      <td className="py-2 pr-3 whitespace-nowrap">
+                        {article.published_at ? new Date(article.published_at).toLocaleDateString() : '—'}
+                      </td>
+                      {COST_STAGES.map(stage => (
+                        <td key={stage.key} className="py-2 pr-3 text-right">{formatCost(article.costs[stage.key])}</td>
+                      ))}
+                      <td className="py-2 text-right font-medium">{formatCost(article.costs.total)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function PromptOptimizer() {
   const [originalPrompt, setOriginalPrompt] = useState('');
   const [targetReduction, setTargetReduction] = useState(20);
@@ -576,6 +1049,15 @@ export default function CostOptimization() {
       {/* Cost Analytics */}
       <CostAnalytics />
 
+      {/* Metered AI Calls */}
+      <RecentAICalls />
+
+      {/* Client Invoicing */}
+      <ArticleCostReport />
+
+      {/* Pricing */}
+      <PriceTable />
+
       {/* Optimization Tools */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <PromptOptimizer />
@@ -11,14 +11,20 @@ import {
   Edit3,
   Monitor,
   Smartphone,
-  Globe
+  Globe,
+  PauseCircle,
+  Square,
+  ClipboardCheck,
+  CalendarDays
 } from 'lucide-react';
 import { 
   usePendingReviewContent, 
   useApproveContent, 
   useRejectContent, 
   useUpdateContentBody,
-  useTranslateToEnglish
+  useTranslateToEnglish,
+  useContentStream,
+  useCancelContentGeneration
 } from '@/hooks/use-api';
 import { toast } from 'sonner';
 
@@ -27,8 +33,27 @@ import PendingList from './approval/PendingList';
 import LivePreview from './approval/LivePreview';
 import DirectEditor from './approval/DirectEditor';
 import RejectionForm from './approval/RejectionForm';
+import StreamingDrafts from './approval/StreamingDrafts';
+import PublishingCalendar from './approval/PublishingCalendar';
 
-export default function ApprovalWorkflow() {
+interface ApprovalGateInfo {
+  workflow_id: string;
+  stage_id: string;
+  revision: number;
+  expires_at?: string;
+  timeout_action: 'approve' | 'reject' | 'pause';
+  approver_roles: string[];
+}
+
+function describeGateTimeout(gate: ApprovalGateInfo): string | null {
+  if (!gate.expires_at || gate.timeout_action === 'pause') return null;
+
+  const minutesLeft = Math.max(0, Math.round((new Date(gate.expires_at).getTime() - Date.now()) / 60000));
+  const remaining = minutesLeft >= 60 ? `${Math.round(minutesLeft / 60)}h` : `${minutesLeft}m`;
+  return `Auto-${gate.timeout_action === 'approve' ? 'approves' : 'rejects'} in ${remaining}`;
+}
+
+function ReviewWorkspace() {
   const [selectedContentId, setSelectedContentId] = useState<string | null>(null);
   const [previewMode, setPreviewMode] = useState<'desktop' | 'mobile'>('desktop');
   const [activeTab, setActiveTab] = useState<'preview' | 'edit' | 'feedback'>('preview');
@@ -38,6 +63,7 @@ export default function ApprovalWorkflow() {
   const [editedBody, setEditedBody] = useState('');
   const [rejectFeedback, setRejectFeedback] = useState('');
   const [showRejectForm, setShowRejectForm] = useState(false);
+  const [watchedKeywordId, setWatchedKeywordId] = useState<string | null>(null);
 
   // Queries and mutations
   const { data: pendingData, isLoading: loadingPending, refetch: refetchPending } = usePendingReviewContent();
@@ -45,9 +71,17 @@ export default function ApprovalWorkflow() {
   const { mutate: reject, isPending: rejecting } = useRejectContent();
   const { mutate: updateBody, isPending: saving } = useUpdateContentBody();
   const { mutate: translateToEnglish, isPending: translating } = useTranslateToEnglish();
+  const { drafts } = useContentStream();
+  const { mutate: cancelGeneration, isPending: cancelling } = useCancelContentGeneration();
 
   const pendingList = pendingData?.data || [];
   const selectedContent = pendingList.find(c => c.id === selectedContentId);
+  const approvalGate: ApprovalGateInfo | undefined = selectedContent?.approval_gate;
+
+  // Drafts being generated: the watched one, else a regeneration of the selected content
+  const streamingDrafts = Object.values(drafts);
+  const watchedDraft = watchedKeywordId ? drafts[watchedKeywordId] : undefined;
+  const selectedDraft = selectedContent ? drafts[selectedContent.keyword_id] : undefined;
 
   // Handle auto-selection of first item
   useEffect(() => {
@@ -121,6 +155,50 @@ export default function ApprovalWorkflow() {
     );
   }
 
+  if (watchedDraft) {
+    return (
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 items-start">
+        <div className="lg:col-span-4 space-y-6">
+          <StreamingDrafts
+            drafts={streamingDrafts}
+            watchedKeywordId={watchedKeywordId}
+            onWatch={setWatchedKeywordId}
+            onCancel={(keywordId) => cancelGeneration(keywordId)}
+            cancelling={cancelling}
+          />
+          {pendingList.length > 0 && (
+            <Button variant="outline" className="w-full" onClick={() => setWatchedKeywordId(null)}>
+              Back to pending drafts ({pendingList.length})
+            </Button>
+          )}
+        </div>
+        <div className="lg:col-span-8">
+          <LivePreview
+            selectedContent={{ title: watchedDraft.title, images: [], faqs: [] }}
+            previewMode={previewMode}
+            editedTitle={watchedDraft.title}
+            editedBody={watchedDraft.body_html}
+            streaming
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (pendingList.length === 0 && streamingDrafts.length > 0) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <StreamingDrafts
+          drafts={streamingDrafts}
+          watchedKeywordId={watchedKeywordId}
+          onWatch={setWatchedKeywordId}
+          onCancel={(keywordId) => cancelGeneration(keywordId)}
+          cancelling={cancelling}
+        />
+      </div>
+    );
+  }
+
   if (pendingList.length === 0) {
     return (
       <Card className="max-w-2xl mx-auto mt-12 border border-dashed text-center p-12">
@@ -145,7 +223,16 @@ export default function ApprovalWorkflow() {
   return (
     <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 items-start">
       {/* Sidebar - Pending List */}
-      <div className="lg:col-span-4">
+      <div className="lg:col-span-4 space-y-6">
+        {streamingDrafts.length > 0 && (
+          <StreamingDrafts
+            drafts={streamingDrafts}
+            watchedKeywordId={watchedKeywordId}
+            onWatch={setWatchedKeywordId}
+            onCancel={(keywordId) => cancelGeneration(keywordId)}
+            cancelling={cancelling}
+          />
+        )}
         <PendingList
           pendingList={pendingList}
           selectedContentId={selectedContentId}
@@ -199,6 +286,51 @@ export default function ApprovalWorkflow() {
               </CardContent>
             </Card>
 
+            {/* Workflow paused at an approval gate */}
+            {approvalGate && (
+              <Card className="border-indigo-200 bg-indigo-50/30">
+                <CardContent className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-2 text-sm">
+                  <div className="flex items-center gap-2 text-indigo-700">
+                    <PauseCircle className="w-4 h-4 shrink-0" />
+                    <span>
+                      Workflow <span className="font-mono text-xs">{approvalGate.workflow_id}</span> is paused at <span className="font-semibold">{approvalGate.stage_id}</span>.
+                      Rejecting regenerates this content with your feedback.
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {approvalGate.approver_roles.length > 0 && (
+                      <Badge variant="outline" className="text-xs">Requires: {approvalGate.approver_roles.join(', ')}</Badge>
+                    )}
+                    {describeGateTimeout(approvalGate) && (
+                      <Badge variant="secondary" className="text-xs">{describeGateTimeout(approvalGate)}</Badge>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Regeneration of this content streaming in */}
+            {selectedDraft && (
+              <Card className="border-indigo-200 bg-indigo-50/30">
+                <CardContent className="p-4 flex items-center justify-between gap-2 text-sm">
+                  <div className="flex items-center gap-2 text-indigo-700">
+                    <Loader2 className="w-4 h-4 animate-spin shrink-0" />
+                    <span>A new draft is being generated; the preview follows it as it streams.</span>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => cancelGeneration(selectedDraft.keywordId)}
+                    disabled={cancelling}
+                    className="flex items-center gap-1.5 border-red-200 text-red-600 hover:bg-red-50"
+                  >
+                    <Square className="w-3 h-3" />
+                    Cancel
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Rejection comment form */}
             {showRejectForm && (
               <RejectionForm
@@ -269,8 +401,9 @@ export default function ApprovalWorkflow() {
                 <LivePreview
                   selectedContent={selectedContent}
                   previewMode={previewMode}
-                  editedTitle={editedTitle}
-                  editedBody={editedBody}
+                  editedTitle={selectedDraft ? selectedDraft.title : editedTitle}
+                  editedBody={selectedDraft ? selectedDraft.body_html : editedBody}
+                  streaming={!!selectedDraft}
                 />
               )}
             </div>
@@ -290,3 +423,38 @@ export default function ApprovalWorkflow() {
     </div>
   );
 }
+
+export default function ApprovalWorkflow() {
+  const [view, setView] = useState<'review' | 'calendar'>('review');
+
+  return (
+    <div className="space-y-6">
+      <div className="border-b border-gray-200 flex gap-4">
+        <button
+          onClick={() => setView('review')}
+          className={`py-3 px-1 text-sm font-semibold border-b-2 flex items-center gap-1.5 transition-all ${
+            view === 'review'
+              ? 'border-indigo-600 text-indigo-600'
+              : 'border-transparent text-muted-foreground hover:text-gray-900'
+          }`}
+        >
+          <ClipboardCheck className="w-4 h-4" />
+          Review
+        </button>
+        <button
+          onClick={() => setView('calendar')}
+          className={`py-3 px-1 text-sm font-semibold border-b-2 flex items-center gap-1.5 transition-all ${
+            view === 'calendar'
+              ? 'border-indigo-600 text-indigo-600'
+              : 'border-transparent text-muted-foreground hover:text-gray-900'
+          }`}
+        >
+          <CalendarDays className="w-4 h-4" />
+          Publishing Calendar
+        </button>
+      </div>
+
+      {view === 'calendar' ? <PublishingCalendar /> : <ReviewWorkspace />}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, Badge, Button } from '@k2w/ui';
+import { AlertTriangle, Loader2, RotateCcw } from 'lucide-react';
+import { useFailedPublishes, useRetryFailedPublish, useRetryFailedPublishes } from '@/hooks/use-api';
+import type { FailedPublish } from '@/lib/api-services';
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export default function FailedPublishes() {
+  const { data, isLoading } = useFailedPublishes();
+  const { mutate: retryOne, isPending: retrying, variables: retryingId } = useRetryFailedPublish();
+  const { mutate: retryAll, isPending: retryingAll } = useRetryFailedPublishes();
+
+  const failedPublishes = data?.data || [];
+  const failedForGood = failedPublishes.filter(failed => failed.status === 'failed');
+
+  if (!isLoading && failedPublishes.length === 0) return null;
+
+  const describe = (failed: FailedPublish) =>
+    failed.status === 'retrying'
+      ? `Retry ${failed.attempts + 1} of ${failed.max_attempts}${failed.next_retry_at ? ` at ${formatTime(failed.next_retry_at)}` : ''}`
+      : `${failed.error_type === 'permanent' ? 'Permanent error' : `Gave up after ${failed.attempts} retries`}${failed.failed_at ? ` · ${formatTime(failed.failed_at)}` : ''}`;
+
+  return (
+    <Card className="border-red-200">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 text-red-500" />
+          Failed Publishes
+          {isLoading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+        </CardTitle>
+        <CardDescription>
+          Timeouts, rate limits and server errors are retried automatically; other errors wait for a retry here.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {failedPublishes.map(failed => (
+          <div key={failed.id} className="border rounded-md p-2 space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-semibold truncate" title={failed.title}>{failed.title}</p>
+              <Badge
+                variant="outline"
+                className={`text-[10px] uppercase font-bold shrink-0 ${failed.status === 'failed' ? 'bg-red-500/10 text-red-600 border-red-500/20' : 'bg-amber-500/10 text-amber-600 border-amber-500/20'}`}
+              >
+                {failed.status}
+              </Badge>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {failed.target.name} ({failed.target.platform}) · {describe(failed)}
+            </p>
+            {failed.error_message && <p className="text-xs text-red-600 break-words">{failed.error_message}</p>}
+            {failed.status === 'failed' && (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={retrying || retryingAll}
+                onClick={() => retryOne(failed.id)}
+                className="flex items-center gap-1.5"
+              >
+                {retrying && retryingId === failed.id
+                  ? <Loader2 className="w-3 h-3 animate-spin" />
+                  : <RotateCcw className="w-3 h-3" />}
+                Retry
+              </Button>
+            )}
+          </div>
+        ))}
+
+        {failedForGood.length > 1 && (
+          <Button className="w-full" disabled={retryingAll} onClick={() => retryAll(failedForGood.map(failed => failed.id))}>
+            {retryingAll && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Retry all {failedForGood.length} failed
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,18 +11,20 @@ interface LivePreviewProps {
   previewMode: 'desktop' | 'mobile';
   editedTitle: string;
   editedBody: string;
+  streaming?: boolean; // draft still being generated: follow it as it grows
 }
 
 export default function LivePreview({
   selectedContent,
   previewMode,
   editedTitle,
-  editedBody
+  editedBody,
+  streaming = false
 }: LivePreviewProps) {
   const iframeRef = useRef<HTMLIFrameElement>(null);
 
   // Helper to wrap edited body HTML in agency template for preview
-  const getAestheticPreviewHtml = (title: string, body: string, desc = '', images: string[] = [], faqs: any[] = []) => {
+  const getAestheticPreviewHtml = (title: string, body: string, desc = '', images: string[] = [], faqs: any[] = [], isStreaming = false) => {
     const hasImage = images.length > 0 && images[0] && images[0].length > 0;
     const featuredImg = hasImage ? images[0] : '';
     // Escape image URL for safe embedding in HTML
@@ -73,7 +75,9 @@ export default function LivePreview({
               <!-- Banner Header -->
               <div class="glassmorphism rounded-2xl p-6 flex justify-between items-center">
                 <span class="text-lg font-display font-extrabold tracking-wider bg-gradient-to-r from-indigo-400 to-violet-400 bg-clip-text text-transparent">CDA Live Preview</span>
-                <span class="text-xs font-semibold px-2.5 py-1 rounded-full bg-yellow-500/10 text-yellow-400 border border-yellow-500/20">Draft Mode</span>
+                ${isStreaming
+                  ? '<span class="text-xs font-semibold px-2.5 py-1 rounded-full bg-indigo-500/10 text-indigo-300 border border-indigo-500/20 animate-pulse">Generating…</span>'
+                  : '<span class="text-xs font-semibold px-2.5 py-1 rounded-full bg-yellow-500/10 text-yellow-400 border border-yellow-500/20">Draft Mode</span>'}
               </div>
 
               <!-- Hero -->
@@ -140,12 +144,17 @@ export default function LivePreview({
           editedBody,
           selectedContent.meta_description,
           selectedContent.images || [],
-          selectedContent.faqs || []
+          selectedContent.faqs || [],
+          streaming
         ));
         doc.close();
+        // Keep the newest section in view while the draft grows
+        if (streaming) {
+          iframeRef.current.contentWindow?.scrollTo(0, doc.body.scrollHeight);
+        }
       }
     }
-  }, [selectedContent, editedTitle, editedBody]);
+  }, [selectedContent, editedTitle, editedBody, streaming]);
 
   return (
     <div className="flex justify-center border bg-slate-900 rounded-xl p-4 transition-all duration-300">
@@ -1,6 +1,6 @@
 import React from 'react';
 import { Card, CardContent, Badge, Button } from '@k2w/ui';
-import { Clock } from 'lucide-react';
+import { Clock, GitBranch } from 'lucide-react';
 
 interface PendingItem {
   id: string;
@@ -48,9 +48,17 @@ export default function PendingList({
           >
             <CardContent className="p-4 space-y-2">
               <div className="flex items-center justify-between">
-                <Badge className="text-[10px] uppercase font-bold" variant={item.status === 'reviewing' ? 'default' : 'outline'}>
-                  {item.status}
-                </Badge>
+                <div className="flex items-center gap-1.5">
+                  <Badge className="text-[10px] uppercase font-bold" variant={item.status === 'reviewing' ? 'default' : 'outline'}>
+                    {item.status}
+                  </Badge>
+                  {item.approval_gate && (
+                    <Badge variant="outline" className="text-[10px] font-semibold flex items-center gap-1 border-indigo-200 text-indigo-600">
+                      <GitBranch className="w-3 h-3" />
+                      Workflow gate{item.approval_gate.revision > 0 ? ` · rev ${item.approval_gate.revision}` : ''}
+                    </Badge>
+                  )}
+                </div>
                 <span className="text-[10px] text-muted-foreground flex items-center gap-1">
                   <Clock className="w-3 h-3" />
                   {item.created_at ? new Date(item.created_at).toLocaleDateString('en-US') : 'Just now'}
@@ -0,0 +1,291 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, Badge, Button, Input, Label } from '@k2w/ui';
+import { CalendarDays, ChevronLeft, ChevronRight, Loader2, XCircle } from 'lucide-react';
+import {
+  usePublishingSchedule,
+  usePublishingCadences,
+  useScheduleApprovedContent,
+  useReschedulePublish,
+  useCancelScheduledPublish,
+  useRetryFailedPublish
+} from '@/hooks/use-api';
+import type { ScheduledPublish, ScheduledPublishStatus } from '@/lib/api-services';
+import FailedPublishes from './FailedPublishes';
+
+const WEEKS_SHOWN = 4;
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const STATUS_STYLES: Record<ScheduledPublishStatus, string> = {
+  scheduled: 'bg-indigo-500/10 text-indigo-600 border-indigo-500/20',
+  publishing: 'bg-amber-500/10 text-amber-600 border-amber-500/20',
+  published: 'bg-green-500/10 text-green-600 border-green-500/20',
+  failed: 'bg-red-500/10 text-red-600 border-red-500/20',
+  cancelled: 'bg-gray-100 text-gray-500 border-gray-200 line-through'
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const dayKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Monday of the week the date is in
+const startOfWeek = (date: Date) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+// ISO time -> value of a datetime-local input in the browser's time zone
+const toInputValue = (iso: string) => {
+  const date = new Date(iso);
+  return `${dayKey(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export default function PublishingCalendar() {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [domain, setDomain] = useState('');
+  const [projectId, setProjectId] = useState('');
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  const [rescheduleAt, setRescheduleAt] = useState('');
+
+  const days = useMemo(
+    () => Array.from({ length: WEEKS_SHOWN * 7 }, (_, index) => {
+      const day = new Date(weekStart);
+      day.setDate(day.getDate() + index);
+      return day;
+    }),
+    [weekStart]
+  );
+
+  // One extra day on each side: jobs are placed by the site's local date
+  const range = useMemo(() => {
+    const from = new Date(days[0]);
+    from.setDate(from.getDate() - 1);
+    const to = new Date(days[days.length - 1]);
+    to.setDate(to.getDate() + 2);
+    return { from: from.toISOString(), to: to.toISOString() };
+  }, [days]);
+
+  const { data, isLoading } = usePublishingSchedule({ ...range, domain: domain.trim() || undefined });
+  const { data: cadenceData } = usePublishingCadences();
+  const { mutate: scheduleApproved, isPending: scheduling } = useScheduleApprovedContent();
+  const { mutate: reschedule, isPending: rescheduling } = useReschedulePublish();
+  const { mutate: cancelScheduled, isPending: cancelling } = useCancelScheduledPublish();
+  const { mutate: retryFailedPublish, isPending: retrying } = useRetryFailedPublish();
+
+  const jobs = data?.data || [];
+  const jobsByDay = useMemo(() => {
+    const byDay = new Map<string, ScheduledPublish[]>();
+    for (const job of jobs) {
+      const key = job.local_time.slice(0, 10);
+      byDay.set(key, [...(byDay.get(key) || []), job]);
+    }
+    return byDay;
+  }, [jobs]);
+
+  const selectedJob = jobs.find(job => job.id === selectedJobId);
+  const cadence = cadenceData?.data?.cadences.find(entry => entry.domain === domain.trim().toLowerCase())
+    || cadenceData?.data?.default;
+  const today = dayKey(new Date());
+
+  const shiftWeeks = (weeks: number) => {
+    const next = new Date(weekStart);
+    next.setDate(next.getDate() + weeks * 7);
+    setWeekStart(next);
+  };
+
+  const selectJob = (job: ScheduledPublish) => {
+    setSelectedJobId(job.id);
+    setRescheduleAt(toInputValue(job.scheduled_for));
+  };
+
+  const handleScheduleApproved = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!domain.trim() || !projectId.trim()) return;
+    scheduleApproved({ domain: domain.trim(), project_id: projectId.trim() });
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 items-start">
+      <div className="lg:col-span-4 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <CalendarDays className="w-4 h-4" />
+              Schedule Approved Content
+            </CardTitle>
+            <CardDescription>
+              Approved articles are spread over the site&apos;s free publishing slots in the coming weeks.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleScheduleApproved} className="space-y-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="calendar-domain">Site domain</Label>
+                <Input
+                  id="calendar-domain"
+                  placeholder="blog.example.com"
+                  value={domain}
+                  onChange={(e) => setDomain(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="calendar-project">Project ID</Label>
+                <Input
+                  id="calendar-project"
+                  value={projectId}
+                  onChange={(e) => setProjectId(e.target.value)}
+                />
+              </div>
+              {cadence && (
+                <p className="text-xs text-muted-foreground">
+                  Up to {cadence.max_per_day} posts a day, {pad(cadence.window_start_hour)}:00-{pad(cadence.window_end_hour)}:00 {cadence.time_zone}
+                  {cadence.domain === '*' ? ' (default cadence)' : ''}
+                </p>
+              )}
+              <Button type="submit" className="w-full" disabled={scheduling || !domain.trim() || !projectId.trim()}>
+                {scheduling && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Schedule approved content
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {selectedJob && (
+          <Card className="border-indigo-200">
+            <CardContent className="p-4 space-y-3">
+              <div className="space-y-1">
+                <Badge variant="outline" className={`text-[10px] uppercase font-bold ${STATUS_STYLES[selectedJob.status]}`}>
+                  {selectedJob.status}
+                </Badge>
+                <p className="text-sm font-semibold">{selectedJob.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {selectedJob.local_time} {selectedJob.time_zone} · {selectedJob.domain} · {selectedJob.targets.map(target => target.name).join(', ')}
+                </p>
+                {selectedJob.error && <p className="text-xs text-red-600">{selectedJob.error}</p>}
+                {selectedJob.published_urls?.map(url => (
+                  <a key={url} href={url} target="_blank" rel="noreferrer" className="block text-xs text-indigo-600 truncate">
+                    {url}
+                  </a>
+                ))}
+              </div>
+
+              {selectedJob.failed_targets && (
+                <div className="space-y-1.5">
+                  <p className="text-xs font-semibold text-red-600">Failed on {selectedJob.failed_targets.length} target(s)</p>
+                  {selectedJob.failed_targets.map(failure => (
+                    <div key={failure.target_id} className="flex items-center gap-2 text-xs">
+                      <span className="flex-1 truncate" title={failure.error}>
+                        {selectedJob.targets.find(target => target.id === failure.target_id)?.name || failure.target_id}: {failure.error}
+                      </span>
+                      {failure.failed_publish_id && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-6 px-2 text-[10px]"
+                          disabled={retrying}
+                          onClick={() => retryFailedPublish(failure.failed_publish_id!)}
+                        >
+                          Retry
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {selectedJob.status === 'scheduled' && (
+                <div className="space-y-2">
+                  <Label htmlFor="calendar-reschedule">Publish at (your local time)</Label>
+                  <Input
+                    id="calendar-reschedule"
+                    type="datetime-local"
+                    value={rescheduleAt}
+                    onChange={(e) => setRescheduleAt(e.target.value)}
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      className="flex-1"
+                      disabled={rescheduling || !rescheduleAt}
+                      onClick={() => reschedule({ id: selectedJob.id, scheduled_for: new Date(rescheduleAt).toISOString() })}
+                    >
+                      {rescheduling && <Loader2 className="w-3 h-3 mr-1.5 animate-spin" />}
+                      Reschedule
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={cancelling}
+                      onClick={() => cancelScheduled(selectedJob.id)}
+                      className="flex items-center gap-1.5 border-red-200 text-red-600 hover:bg-red-50"
+                    >
+                      <XCircle className="w-3 h-3" />
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <FailedPublishes />
+      </div>
+
+      <div className="lg:col-span-8">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-base flex items-center gap-2">
+              Publishing Calendar
+              {isLoading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+            </CardTitle>
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="sm" onClick={() => shiftWeeks(-WEEKS_SHOWN)}>
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setWeekStart(startOfWeek(new Date()))} className="text-xs">
+                Today
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => shiftWeeks(WEEKS_SHOWN)}>
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-7 gap-1 text-xs">
+              {WEEKDAY_LABELS.map(label => (
+                <div key={label} className="text-center font-semibold text-muted-foreground py-1">{label}</div>
+              ))}
+              {days.map(day => {
+                const key = dayKey(day);
+                const dayJobs = jobsByDay.get(key) || [];
+                return (
+                  <div
+                    key={key}
+                    className={`min-h-[96px] border rounded-md p-1 space-y-1 ${key === today ? 'border-indigo-400 bg-indigo-50/40' : ''}`}
+                  >
+                    <div className="text-[10px] font-semibold text-muted-foreground">
+                      {day.getDate() === 1 || key === dayKey(days[0]) ? day.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }) : day.getDate()}
+                    </div>
+                    {dayJobs.map(job => (
+                      <button
+                        key={job.id}
+                        onClick={() => selectJob(job)}
+                        title={`${job.title} · ${job.domain}`}
+                        className={`w-full text-left truncate rounded border px-1 py-0.5 text-[10px] ${STATUS_STYLES[job.status]} ${selectedJobId === job.id ? 'ring-1 ring-indigo-500' : ''}`}
+                      >
+                        {job.local_time.slice(11)} {job.title}
+                      </button>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+            {!isLoading && jobs.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center pt-4">Nothing scheduled in these weeks</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
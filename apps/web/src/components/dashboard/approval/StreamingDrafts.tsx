@@ -0,0 +1,65 @@
+import React from 'react';
+import { Card, CardContent, Badge, Button } from '@k2w/ui';
+import { Eye, Loader2, Square } from 'lucide-react';
+import type { ContentChunk } from '@/lib/socket-client';
+
+interface StreamingDraftsProps {
+  drafts: ContentChunk[];
+  watchedKeywordId: string | null;
+  onWatch: (keywordId: string) => void;
+  onCancel: (keywordId: string) => void;
+  cancelling: boolean;
+}
+
+const countWords = (html: string) => html.replace(/<[^>]*>/g, ' ').split(/\s+/).filter(Boolean).length;
+
+export default function StreamingDrafts({
+  drafts,
+  watchedKeywordId,
+  onWatch,
+  onCancel,
+  cancelling
+}: StreamingDraftsProps) {
+  return (
+    <div className="space-y-3">
+      <h2 className="text-lg font-bold flex items-center gap-2">
+        Generating Now
+        <Badge variant="secondary" className="bg-indigo-500/10 text-indigo-500 border border-indigo-500/20">
+          {drafts.length}
+        </Badge>
+      </h2>
+
+      {drafts.map((draft) => (
+        <Card
+          key={draft.keywordId}
+          className={`border ${watchedKeywordId === draft.keywordId ? 'border-indigo-500 ring-1 ring-indigo-500/20' : ''}`}
+        >
+          <CardContent className="p-4 flex items-center justify-between gap-3">
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-1.5 text-xs text-indigo-600 font-semibold">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                Streaming · {countWords(draft.body_html)} words so far
+              </div>
+              <p className="text-sm font-semibold truncate">{draft.title || 'Untitled draft'}</p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <Button variant="ghost" size="sm" onClick={() => onWatch(draft.keywordId)} title="Watch the draft">
+                <Eye className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onCancel(draft.keywordId)}
+                disabled={cancelling}
+                className="text-red-600 hover:bg-red-50"
+                title="Cancel generation"
+              >
+                <Square className="w-4 h-4" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
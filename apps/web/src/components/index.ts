@@ -13,8 +13,9 @@ export { KeywordSubmissionForm } from './forms/KeywordSubmissionForm';
 
 // Admin Components
 export { HealthStatusCard } from './admin/HealthCards';
-export { HealthStatusCard as AdminHealthCard, MetricCard as AdminMetricCard } from './admin/HealthCards';
+export { HealthStatusCard as AdminHealthCard, MetricCard as AdminMetricCard, ProviderHealthCard } from './admin/HealthCards';
 export { RecentActivity } from './admin/RecentActivity';
+export { RoutingPolicies } from './admin/RoutingPolicies';
 export { SystemPerformance } from './admin/SystemPerformance';
 export { TabNavigation } from './admin/TabNavigation';
 
@@ -19,14 +19,30 @@ import {
   advancedAnalyticsService,
   abTestingService,
   costOptimizationService,
+  aiRoutingService,
+  publishingScheduleService,
   optimizationService,
   KeywordSubmission,
   SubmittedKeyword,
   ProjectDashboard,
   ContentBatch,
   AnalyticsData,
+  AIPriceEntry,
+  AIUsageRecord,
+  ArticleCostReport,
+  AIUsageTotals,
+  CostAnalyticsData,
+  BudgetConfig,
+  BudgetConfigInput,
+  BudgetStatusData,
+  CostStage,
+  ProviderHealth,
+  AITaskType,
+  RoutingPolicy,
 } from '../lib/api-services';
 import { ApiResponse } from '../lib/api-client';
+import { useSocketClient, ContentChunk } from '../lib/socket-client';
+import { useEffect, useState } from 'react';
 
 // Query Keys - centralized for cache management
 export const queryKeys = {
@@ -86,8 +102,18 @@ export const queryKeys = {
 
   // Cost Optimization
   costOptimization: ['cost-optimization'] as const,
-  budgetStatus: ['cost-optimization', 'budget'] as const,
+  budgetStatus: (params?: { project_id?: string; user_id?: string }) =>
+    ['cost-optimization', 'budget', params] as const,
   costAnalytics: (params?: Record<string, unknown>) => ['cost-optimization', 'analytics', params] as const,
+  aiUsage: (params?: Record<string, unknown>) => ['cost-optimization', 'usage', params] as const,
+  aiPrices: ['cost-optimization', 'prices'] as const,
+  articleCostReport: (params: Record<string, unknown>) => ['cost-optimization', 'reports', 'articles', params] as const,
+  aiRoutingPolicies: ['ai-routing', 'policies'] as const,
+
+  // Scheduled Publishing
+  publishingSchedule: (params?: Record<string, unknown>) => ['publishing', 'schedule', params] as const,
+  publishingCadences: ['publishing', 'cadences'] as const,
+  failedPublishes: (params?: Record<string, unknown>) => ['publishing', 'failed', params] as const,
 
   // Performance Optimization
   optimization: ['optimization'] as const,
@@ -237,6 +263,63 @@ export function useGenerateContent(
   });
 }
 
+export function useCancelContentGeneration(
+  options?: UseMutationOptions<ApiResponse<null>, Error, string>
+) {
+  return useMutation({
+    mutationFn: contentService.cancelGeneration,
+    onSuccess: (response) => {
+      if (!response.success) {
+        toast.error(`Failed to cancel generation: ${response.error}`);
+      }
+    },
+    onError: (error) => {
+      toast.error(`Failed to cancel generation: ${error.message}`);
+    },
+    ...options,
+  });
+}
+
+/**
+ * Drafts of articles being generated, by keyword, as they stream in over the socket
+ */
+export function useContentStream(userId?: string) {
+  const queryClient = useQueryClient();
+  const { subscribe, isConnected } = useSocketClient(userId);
+  const [drafts, setDrafts] = useState<Record<string, ContentChunk>>({});
+
+  useEffect(() => {
+    const unsubscribe = subscribe('content:chunk', (data) => {
+      const chunk = data as ContentChunk;
+
+      setDrafts((current) => {
+        const previous = current[chunk.keywordId];
+        if (previous && previous.status === 'streaming' && chunk.status === 'streaming' && previous.sequence >= chunk.sequence) {
+          return current; // Out of order
+        }
+        if (chunk.status === 'streaming') {
+          return { ...current, [chunk.keywordId]: chunk };
+        }
+        const { [chunk.keywordId]: _finished, ...rest } = current;
+        return rest;
+      });
+
+      if (chunk.status === 'completed') {
+        queryClient.invalidateQueries({ queryKey: queryKeys.content });
+        toast.success(`Draft ready: ${chunk.title || 'new article'}`);
+      } else if (chunk.status === 'cancelled') {
+        toast.info('Content generation cancelled');
+      } else if (chunk.status === 'failed') {
+        toast.error(`Content generation failed: ${chunk.error || 'Unknown error'}`);
+      }
+    });
+
+    return unsubscribe;
+  }, [queryClient, subscribe]);
+
+  return { drafts, isConnected };
+}
+
 export function usePendingReviewContent(
   params?: { project_id?: string },
   options?: UseQueryOptions<ApiResponse<any[]>, Error>
@@ -457,6 +540,49 @@ export function useCancelWorkflow(
   });
 }
 
+/**
+ * Subscribe to pushed workflow events: refresh workflow queries and toast notifications
+ */
+export function useWorkflowLiveUpdates(userId?: string) {
+  const queryClient = useQueryClient();
+  const { subscribe, isConnected } = useSocketClient(userId);
+
+  useEffect(() => {
+    const refreshWorkflow = (data: unknown) => {
+      const workflowId = (data as { workflowId?: string })?.workflowId;
+      queryClient.invalidateQueries({
+        queryKey: workflowId ? queryKeys.workflowStatus(workflowId) : queryKeys.workflow,
+      });
+    };
+
+    const unsubscribers = [
+      subscribe('workflow:progress', refreshWorkflow),
+      subscribe('workflow:stage-update', refreshWorkflow),
+      subscribe('workflow:completed', (data) => {
+        refreshWorkflow(data);
+        queryClient.invalidateQueries({ queryKey: queryKeys.content });
+        toast.success('Workflow completed');
+      }),
+      subscribe('workflow:failed', (data) => {
+        refreshWorkflow(data);
+        const error = (data as { error?: { message?: string } })?.error;
+        toast.error(`Workflow failed: ${error?.message || 'Unknown error'}`);
+      }),
+      subscribe('notification', (data) => {
+        const notification = data as { type: 'info' | 'success' | 'warning' | 'error'; title: string; message: string; duration?: number };
+        toast[notification.type](notification.title, {
+          description: notification.message,
+          duration: notification.duration,
+        });
+      }),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [queryClient, subscribe]);
+
+  return { isConnected };
+}
+
 // ==================== IMAGE GENERATION HOOKS ====================
 
 export function useGenerateImage(
@@ -1148,19 +1274,11 @@ export function useOptimizePrompt(
 export function useCostAnalytics(
   params?: {
     period: 'daily' | 'weekly' | 'monthly';
+    project_id?: string;
     start_date?: string;
     end_date?: string;
   },
-  options?: UseQueryOptions<ApiResponse<{
-    total_cost: number;
-    cost_breakdown: Record<string, number>;
-    usage_trends: Array<{ date: string; cost: number; usage: number }>;
-    optimization_opportunities: Array<{
-      area: string;
-      potential_savings: number;
-      effort_required: string;
-    }>;
-  }>, Error>
+  options?: UseQueryOptions<ApiResponse<CostAnalyticsData>, Error>
 ) {
   return useQuery({
     queryKey: queryKeys.costAnalytics(params),
@@ -1170,6 +1288,71 @@ export function useCostAnalytics(
   });
 }
 
+export function useAIUsage(
+  params?: {
+    project_id?: string;
+    workflow_id?: string;
+    user_id?: string;
+    keyword_id?: string;
+    content_id?: string;
+    stage?: CostStage;
+    provider?: string;
+    since?: string;
+    until?: string;
+    limit?: number;
+  },
+  options?: UseQueryOptions<ApiResponse<{ records: AIUsageRecord[]; totals: AIUsageTotals }>, Error>
+) {
+  return useQuery({
+    queryKey: queryKeys.aiUsage(params),
+    queryFn: () => costOptimizationService.getUsage(params),
+    refetchInterval: 60 * 1000, // 1 minute
+    ...options,
+  });
+}
+
+export function useAIPriceTable(
+  options?: UseQueryOptions<ApiResponse<{ prices: AIPriceEntry[] }>, Error>
+) {
+  return useQuery({
+    queryKey: queryKeys.aiPrices,
+    queryFn: costOptimizationService.getPrices,
+    staleTime: 30 * 60 * 1000, // 30 minutes
+    ...options,
+  });
+}
+
+export function useUpdateAIPriceTable(
+  options?: UseMutationOptions<ApiResponse<{ prices: AIPriceEntry[] }>, Error, AIPriceEntry[]>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: costOptimizationService.updatePrices,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.aiPrices });
+      toast.success('Price table updated!');
+    },
+    onError: (error) => {
+      toast.error(`Failed to update price table: ${error.message}`);
+    },
+    ...options,
+  });
+}
+
+export function useArticleCostReport(
+  params: { project_id: string; since?: string; until?: string },
+  options?: UseQueryOptions<ApiResponse<ArticleCostReport>, Error>
+) {
+  return useQuery({
+    queryKey: queryKeys.articleCostReport(params),
+    queryFn: () => costOptimizationService.getArticleCostReport(params),
+    enabled: !!params.project_id,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    ...options,
+  });
+}
+
 export function useCostRecommendations(
   options?: UseQueryOptions<ApiResponse<{
     recommendations: Array<{
@@ -1191,40 +1374,31 @@ export function useCostRecommendations(
 }
 
 export function useBudgetStatus(
-  options?: UseQueryOptions<ApiResponse<{
-    current_spend: number;
-    monthly_budget: number;
-    daily_average: number;
-    projected_monthly: number;
-    alerts: Array<{
-      type: 'warning' | 'critical';
-      message: string;
-      threshold: number;
-    }>;
-  }>, Error>
+  params?: { project_id?: string; user_id?: string },
+  options?: UseQueryOptions<ApiResponse<BudgetStatusData>, Error>
 ) {
   return useQuery({
-    queryKey: queryKeys.budgetStatus,
-    queryFn: costOptimizationService.getBudgetStatus,
+    queryKey: queryKeys.budgetStatus(params),
+    queryFn: () => costOptimizationService.getBudgetStatus(params),
     refetchInterval: 5 * 60 * 1000, // 5 minutes
     ...options,
   });
 }
 
 export function useConfigureBudget(
-  options?: UseMutationOptions<ApiResponse<{ configured: boolean; settings: Record<string, unknown> }>, Error, {
-    monthly_limit: number;
-    daily_limit?: number;
-    alert_thresholds: number[];
-    auto_stop_at_limit: boolean;
-  }>
+  options?: UseMutationOptions<ApiResponse<{
+    scope: 'global' | 'project' | 'user';
+    scope_id?: string;
+    config: BudgetConfig;
+    updated_at: string;
+  }>, Error, BudgetConfigInput>
 ) {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: costOptimizationService.configureBudget,
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: queryKeys.budgetStatus });
+      queryClient.invalidateQueries({ queryKey: ['cost-optimization', 'budget'] });
       toast.success('Budget configuration updated!');
     },
     onError: (error) => {
@@ -1234,6 +1408,196 @@ export function useConfigureBudget(
   });
 }
 
+// ==================== AI ROUTING HOOKS ====================
+
+export function useAIRoutingPolicies() {
+  return useQuery({
+    queryKey: queryKeys.aiRoutingPolicies,
+    queryFn: aiRoutingService.getPolicies,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+export function useUpdateRoutingPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: aiRoutingService.updatePolicy,
+    onSuccess: (response) => {
+      if (!response.success) {
+        toast.error(`Failed to save routing policy: ${response.error}`);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: queryKeys.aiRoutingPolicies });
+      toast.success('Routing policy saved!');
+    },
+    onError: (error) => {
+      toast.error(`Failed to save routing policy: ${error.message}`);
+    },
+  });
+}
+
+export function useDeleteRoutingPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: aiRoutingService.deletePolicy,
+    onSuccess: (response) => {
+      if (!response.success) {
+        toast.error(`Failed to remove routing policy: ${response.error}`);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: queryKeys.aiRoutingPolicies });
+      toast.success('Routing policy removed');
+    },
+    onError: (error) => {
+      toast.error(`Failed to remove routing policy: ${error.message}`);
+    },
+  });
+}
+
+// ==================== SCHEDULED PUBLISHING HOOKS ====================
+
+export function usePublishingSchedule(params?: { from?: string; to?: string; domain?: string; status?: string }) {
+  return useQuery({
+    queryKey: queryKeys.publishingSchedule(params),
+    queryFn: () => publishingScheduleService.getSchedule(params),
+    refetchInterval: 60 * 1000, // jobs move from scheduled to published while the calendar is open
+  });
+}
+
+export function usePublishingCadences() {
+  return useQuery({
+    queryKey: queryKeys.publishingCadences,
+    queryFn: publishingScheduleService.getCadences,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+export function useScheduleApprovedContent() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: publishingScheduleService.scheduleBatch,
+    onSuccess: (response) => {
+      if (!response.success) {
+        toast.error(`Failed to schedule content: ${response.error}`);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['publishing', 'schedule'] });
+      toast.success(
+        response.data?.length ? `${response.data.length} posts scheduled` : 'All approved content is already scheduled'
+      );
+    },
+    onError: (error) => {
+      toast.error(`Failed to schedule content: ${error.message}`);
+    },
+  });
+}
+
+export function useReschedulePublish() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: publishingScheduleService.reschedule,
+    onSuccess: (response) => {
+      if (!response.success) {
+        toast.error(`Failed to reschedule: ${response.error}`);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['publishing', 'schedule'] });
+      toast.success(`Rescheduled for ${response.data?.local_time}`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to reschedule: ${error.message}`);
+    },
+  });
+}
+
+export function useCancelScheduledPublish() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: publishingScheduleService.cancel,
+    onSuccess: (response) => {
+      if (!response.success) {
+        toast.error(`Failed to cancel scheduled publish: ${response.error}`);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['publishing', 'schedule'] });
+      toast.success('Scheduled publish cancelled');
+    },
+    onError: (error) => {
+      toast.error(`Failed to cancel scheduled publish: ${error.message}`);
+    },
+  });
+}
+
+export function useUpdatePublishingCadence() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: publishingScheduleService.updateCadence,
+    onSuccess: (response) => {
+      if (!response.success) {
+        toast.error(`Failed to save publishing cadence: ${response.error}`);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: queryKeys.publishingCadences });
+      toast.success('Publishing cadence saved!');
+    },
+    onError: (error) => {
+      toast.error(`Failed to save publishing cadence: ${error.message}`);
+    },
+  });
+}
+
+export function useFailedPublishes(params?: { status?: 'retrying' | 'failed'; content_id?: string }) {
+  return useQuery({
+    queryKey: queryKeys.failedPublishes(params),
+    queryFn: () => publishingScheduleService.getFailedPublishes(params),
+    refetchInterval: 30 * 1000, // retries run in the background
+  });
+}
+
+export function useRetryFailedPublish() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: publishingScheduleService.retryFailedPublish,
+    onSuccess: (response) => {
+      if (!response.success) {
+        toast.error(`Failed to retry publish: ${response.error}`);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['publishing', 'failed'] });
+      toast.success(`Retrying ${response.data?.title}`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to retry publish: ${error.message}`);
+    },
+  });
+}
+
+export function useRetryFailedPublishes() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: publishingScheduleService.retryFailedPublishes,
+    onSuccess: (response) => {
+      if (!response.success) {
+        toast.error(`Failed to retry publishes: ${response.error}`);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['publishing', 'failed'] });
+      toast.success(`Retrying ${response.data?.retried.length ?? 0} failed publishes`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to retry publishes: ${error.message}`);
+    },
+  });
+}
+
 // ==================== PERFORMANCE OPTIMIZATION HOOKS ====================
 
 export function useSystemHealth(
@@ -1253,6 +1617,15 @@ export function useSystemHealth(
   });
 }
 
+export function useAIProviderHealth(options?: UseQueryOptions<ProviderHealth[], Error>) {
+  return useQuery({
+    queryKey: [...queryKeys.optimization, 'ai-providers'],
+    queryFn: optimizationService.getProviderHealth,
+    refetchInterval: 30000, // 30 seconds
+    ...options,
+  });
+}
+
 export function usePerformanceInsights(
   options?: UseQueryOptions<ApiResponse<{
     insights: Array<{
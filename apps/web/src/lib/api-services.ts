@@ -3,7 +3,7 @@
  * Typed API services for all K2W backend endpoints
  */
 
-import { apiRequest, ApiResponse } from './api-client';
+import apiClient, { apiRequest, ApiResponse } from './api-client';
 
 // Types
 export interface KeywordSubmission {
@@ -67,6 +67,240 @@ export interface AnalyticsData {
   };
 }
 
+export interface AIUsageTotals {
+  calls: number;
+  failed_calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  image_count: number;
+  cost_usd: number;
+  avg_latency_ms: number;
+}
+
+export interface AIUsageRecord {
+  id: string;
+  provider: string;
+  model: string;
+  operation: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  image_count: number;
+  latency_ms: number;
+  cost_usd: number;
+  tokens_estimated: boolean;
+  success: boolean;
+  error_message?: string;
+  project_id?: string;
+  workflow_id?: string;
+  user_id?: string;
+  keyword_id?: string;
+  content_id?: string;
+  stage: CostStage;
+  created_at: string;
+}
+
+export type CostStage = 'text' | 'images' | 'translation' | 'seo';
+
+export interface AIPriceEntry {
+  provider: string;
+  model: string; // '*' is the provider default
+  input_per_million: number;
+  output_per_million: number;
+  per_image: number;
+  per_request?: number; // flat fee per successful call (SEO APIs)
+  updated_at?: string;
+}
+
+export type ArticleStageCosts = Record<CostStage, number> & { total: number };
+
+export interface ArticleCostReport {
+  project_id: string;
+  since?: string;
+  until?: string;
+  articles: Array<{
+    content_id: string;
+    keyword_id: string;
+    title: string;
+    url?: string;
+    published_at?: string;
+    calls: number;
+    costs: ArticleStageCosts;
+  }>;
+  totals: ArticleStageCosts;
+  cost_per_article: number;
+  unattributed_cost: number;
+  generated_at: string;
+}
+
+export interface CostAnalyticsData {
+  total_cost: number;
+  cost_breakdown: Record<string, number>; // by provider
+  cost_by_model: Record<string, number>;
+  cost_by_project: Record<string, number>;
+  token_usage: AIUsageTotals;
+  usage_trends: Array<{ date: string; cost: number; usage: number }>;
+  optimization_opportunities: Array<{
+    area: string;
+    potential_savings: number;
+    effort_required: string;
+  }>;
+}
+
+export interface BudgetConfig {
+  monthly_budget_usd: number;
+  daily_budget_usd: number;
+  alert_thresholds: {
+    daily_percentage: number;
+    monthly_percentage: number;
+    token_cost_per_request: number;
+  };
+  auto_throttling: {
+    enabled: boolean;
+    throttle_at_percentage: number; // images skipped and cheaper models used from here
+    stop_at_percentage: number; // new generation jobs refused from here
+  };
+}
+
+// Budget to configure: the global one, or a project's / user's when their id is set
+export type BudgetConfigInput = Partial<BudgetConfig> & { project_id?: string; user_id?: string };
+
+export interface BudgetStatusData {
+  scope: 'global' | 'project' | 'user';
+  scope_id?: string;
+  config: BudgetConfig;
+  daily: { spent: number; budget: number; remaining: number; percentage: number };
+  monthly: { spent: number; budget: number; remaining: number; percentage: number };
+  throttling_active: boolean;
+  processing_stopped: boolean;
+  current_spend: number;
+  monthly_budget: number;
+  daily_average: number;
+  projected_monthly: number;
+  alerts: Array<{
+    type: 'warning' | 'critical';
+    message: string;
+    threshold: number;
+  }>;
+}
+
+// Circuit breaker state of an AI provider, from /api/optimize/health
+export interface ProviderHealth {
+  provider: string;
+  kind: 'text' | 'image';
+  state: 'closed' | 'open' | 'half-open';
+  status: 'healthy' | 'degraded' | 'unavailable';
+  calls: number;
+  failures: number;
+  error_rate: number; // 0-1 over the recent calls
+  avg_latency_ms: number;
+  p95_latency_ms: number;
+  consecutive_failures: number;
+  total_calls: number;
+  total_failures: number;
+  last_error?: string;
+  last_failure_at?: string;
+  last_success_at?: string;
+  opened_at?: string;
+  next_attempt_at?: string;
+}
+
+// AI routing: which provider/model serves each task type, per project
+export type AITaskType = 'content' | 'translation' | 'clustering';
+
+export interface AIRouteTarget {
+  provider: string;
+  model?: string; // unset: the provider's default model
+}
+
+export interface RoutingPolicy {
+  task: AITaskType | '*';
+  project_id?: string;
+  strategy: 'cheapest' | 'best_quality' | 'preferred';
+  preferred?: AIRouteTarget[];
+  language_preferences?: Record<string, AIRouteTarget[]>;
+  allowed_providers?: string[];
+  min_quality?: number; // 1-5
+  fallback: boolean;
+  updated_by?: string;
+  updated_at?: string;
+}
+
+export interface AIModelOption {
+  provider: string;
+  model: string;
+  kind: 'text' | 'embedding';
+  quality: number;
+  available: boolean;
+  reference_cost_usd: number; // 1K prompt + 1K completion tokens
+}
+
+export interface AIRoute {
+  task: AITaskType;
+  project_id?: string;
+  language?: string;
+  policy: RoutingPolicy;
+  default_policy: boolean;
+  candidates: Array<{ provider: string; model: string; reason: string }>;
+}
+
+// Scheduled publishing: jobs on the publishing calendar and per-domain cadence limits
+export type ScheduledPublishStatus = 'scheduled' | 'publishing' | 'published' | 'failed' | 'cancelled';
+
+export interface ScheduledPublish {
+  id: string;
+  content_id: string;
+  project_id?: string;
+  title: string;
+  domain: string;
+  targets: Array<{ id: string; name: string; platform: string }>;
+  time_zone: string;
+  scheduled_for: string; // ISO, UTC
+  local_time: string; // 'YYYY-MM-DD HH:mm' in time_zone
+  status: ScheduledPublishStatus;
+  attempts: number;
+  error?: string;
+  published_urls?: string[];
+  // Targets it failed on; failed_publish_id is their entry in the failed publishes list
+  failed_targets?: Array<{ target_id: string; error?: string; failed_publish_id?: string }>;
+  created_at: string;
+}
+
+export interface PublishingCadence {
+  domain: string;
+  max_per_day: number;
+  time_zone: string;
+  window_start_hour: number;
+  window_end_hour: number;
+  weekdays?: number[]; // 0 = Sunday
+  targets?: Array<{ id: string; name: string; platform: string }>;
+  updated_by?: string;
+  updated_at?: string;
+}
+
+export interface BatchScheduleInput {
+  domain: string;
+  project_id?: string;
+  content_ids?: string[];
+  start_at?: string;
+  time_zone?: string;
+}
+
+// Failed publishes: retried automatically on transient errors, or waiting for a manual retry
+export interface FailedPublish {
+  id: string;
+  publish_log_id?: string;
+  content_id: string;
+  title: string;
+  target: { id: string; name: string; platform: string };
+  status: 'retrying' | 'failed';
+  error_type: 'transient' | 'permanent';
+  error_message?: string;
+  attempts: number;
+  max_attempts: number;
+  next_retry_at?: string;
+  failed_at?: string;
+}
+
 // Keyword Services
 export const keywordService = {
   // Submit keyword for processing
@@ -121,6 +355,13 @@ export const contentService = {
       data,
     }),
 
+  // Cancel a content generation in progress
+  cancelGeneration: (keywordId: string): Promise<ApiResponse<null>> =>
+    apiRequest({
+      method: 'POST',
+      url: `/api/k2w/content/generate/${keywordId}/cancel`,
+    }),
+
   // Get generated content (includes images, faqs, headings, etc.)
   getContent: (contentId: string): Promise<ApiResponse<{ 
     content: string; 
@@ -749,24 +990,67 @@ export const costOptimizationService = {
   // Get cost analytics
   getAnalytics: (params?: {
     period: 'daily' | 'weekly' | 'monthly';
+    project_id?: string;
     start_date?: string;
     end_date?: string;
-  }): Promise<ApiResponse<{
-    total_cost: number;
-    cost_breakdown: Record<string, number>;
-    usage_trends: Array<{ date: string; cost: number; usage: number }>;
-    optimization_opportunities: Array<{
-      area: string;
-      potential_savings: number;
-      effort_required: string;
-    }>;
-  }>> =>
+  }): Promise<ApiResponse<CostAnalyticsData>> =>
     apiRequest({
       method: 'GET',
       url: '/api/k2w/cost-optimization/analytics',
       params,
     }),
 
+  // Get metered AI calls
+  getUsage: (params?: {
+    project_id?: string;
+    workflow_id?: string;
+    user_id?: string;
+    keyword_id?: string;
+    content_id?: string;
+    stage?: CostStage;
+    provider?: string;
+    since?: string;
+    until?: string;
+    limit?: number;
+  }): Promise<ApiResponse<{ records: AIUsageRecord[]; totals: AIUsageTotals }>> =>
+    apiRequest({
+      method: 'GET',
+      url: '/api/k2w/cost-optimization/usage',
+      params,
+    }),
+
+  // Get the AI price table
+  getPrices: (): Promise<ApiResponse<{ prices: AIPriceEntry[] }>> =>
+    apiRequest({
+      method: 'GET',
+      url: '/api/k2w/cost-optimization/prices',
+    }),
+
+  // Add or update AI price table entries
+  updatePrices: (prices: AIPriceEntry[]): Promise<ApiResponse<{ prices: AIPriceEntry[] }>> =>
+    apiRequest({
+      method: 'PUT',
+      url: '/api/k2w/cost-optimization/prices',
+      data: { prices },
+    }),
+
+  // Get spend per published article of a project
+  getArticleCostReport: (params: { project_id: string; since?: string; until?: string }): Promise<ApiResponse<ArticleCostReport>> =>
+    apiRequest({
+      method: 'GET',
+      url: '/api/k2w/cost-optimization/reports/articles',
+      params,
+    }),
+
+  // Download the per-article report as CSV for invoicing
+  downloadArticleCostReport: async (params: { project_id: string; since?: string; until?: string }): Promise<Blob> => {
+    const response = await apiClient.get<Blob>('/api/k2w/cost-optimization/reports/articles', {
+      params: { ...params, format: 'csv' },
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
   // Get recommendations
   getRecommendations: (): Promise<ApiResponse<{
     recommendations: Array<{
@@ -783,30 +1067,21 @@ export const costOptimizationService = {
       url: '/api/k2w/cost-optimization/recommendations',
     }),
 
-  // Get budget status
-  getBudgetStatus: (): Promise<ApiResponse<{
-    current_spend: number;
-    monthly_budget: number;
-    daily_average: number;
-    projected_monthly: number;
-    alerts: Array<{
-      type: 'warning' | 'critical';
-      message: string;
-      threshold: number;
-    }>;
-  }>> =>
+  // Get budget status (global, or of a project / user)
+  getBudgetStatus: (params?: { project_id?: string; user_id?: string }): Promise<ApiResponse<BudgetStatusData>> =>
     apiRequest({
       method: 'GET',
       url: '/api/k2w/cost-optimization/budget/status',
+      params,
     }),
 
   // Configure budget
-  configureBudget: (data: {
-    monthly_limit: number;
-    daily_limit?: number;
-    alert_thresholds: number[];
-    auto_stop_at_limit: boolean;
-  }): Promise<ApiResponse<{ configured: boolean; settings: Record<string, unknown> }>> =>
+  configureBudget: (data: BudgetConfigInput): Promise<ApiResponse<{
+    scope: 'global' | 'project' | 'user';
+    scope_id?: string;
+    config: BudgetConfig;
+    updated_at: string;
+  }>> =>
     apiRequest({
       method: 'PUT',
       url: '/api/k2w/cost-optimization/budget/config',
@@ -814,6 +1089,118 @@ export const costOptimizationService = {
     }),
 };
 
+// AI Routing Services
+export const aiRoutingService = {
+  // Get routing policies and the routable models
+  getPolicies: (): Promise<ApiResponse<{ policies: RoutingPolicy[]; task_types: AITaskType[]; models: AIModelOption[] }>> =>
+    apiRequest({
+      method: 'GET',
+      url: '/api/k2w/ai-routing/policies',
+    }),
+
+  // Add or replace a routing policy
+  updatePolicy: (policy: RoutingPolicy): Promise<ApiResponse<RoutingPolicy>> =>
+    apiRequest({
+      method: 'PUT',
+      url: '/api/k2w/ai-routing/policies',
+      data: policy,
+    }),
+
+  // Remove a routing policy
+  deletePolicy: (params: { task: AITaskType | '*'; project_id?: string }): Promise<ApiResponse<null>> =>
+    apiRequest({
+      method: 'DELETE',
+      url: `/api/k2w/ai-routing/policies/${encodeURIComponent(params.task)}`,
+      params: params.project_id ? { project_id: params.project_id } : undefined,
+    }),
+
+  // Preview the providers a task is routed to
+  resolveRoute: (params: { task: AITaskType; project_id?: string; language?: string }): Promise<ApiResponse<AIRoute>> =>
+    apiRequest({
+      method: 'GET',
+      url: '/api/k2w/ai-routing/resolve',
+      params,
+    }),
+};
+
+// Publishing Schedule Services
+export const publishingScheduleService = {
+  // List scheduled publishing jobs
+  getSchedule: (params?: {
+    from?: string;
+    to?: string;
+    domain?: string;
+    project_id?: string;
+    status?: string;
+  }): Promise<ApiResponse<ScheduledPublish[]>> =>
+    apiRequest({
+      method: 'GET',
+      url: '/api/k2w/publishing/schedule',
+      params,
+    }),
+
+  // Spread approved content over the domain's free publishing slots
+  scheduleBatch: (data: BatchScheduleInput): Promise<ApiResponse<ScheduledPublish[]>> =>
+    apiRequest({
+      method: 'POST',
+      url: '/api/k2w/publishing/schedule/batch',
+      data,
+    }),
+
+  // Move a scheduled job to a new time
+  reschedule: (params: { id: string; scheduled_for: string }): Promise<ApiResponse<ScheduledPublish>> =>
+    apiRequest({
+      method: 'PUT',
+      url: `/api/k2w/publishing/schedule/${params.id}`,
+      data: { scheduled_for: params.scheduled_for },
+    }),
+
+  // Cancel a job that has not started
+  cancel: (id: string): Promise<ApiResponse<ScheduledPublish>> =>
+    apiRequest({
+      method: 'DELETE',
+      url: `/api/k2w/publishing/schedule/${id}`,
+    }),
+
+  // Per-domain publishing cadences and the default
+  getCadences: (): Promise<ApiResponse<{ cadences: PublishingCadence[]; default: PublishingCadence }>> =>
+    apiRequest({
+      method: 'GET',
+      url: '/api/k2w/publishing/cadences',
+    }),
+
+  // Add or replace a domain's cadence
+  updateCadence: (cadence: Omit<PublishingCadence, 'targets'>): Promise<ApiResponse<PublishingCadence>> =>
+    apiRequest({
+      method: 'PUT',
+      url: '/api/k2w/publishing/cadences',
+      data: cadence,
+    }),
+
+  // Failed publishes, still retrying or waiting for a manual retry
+  getFailedPublishes: (params?: { status?: FailedPublish['status']; content_id?: string }): Promise<ApiResponse<FailedPublish[]>> =>
+    apiRequest({
+      method: 'GET',
+      url: '/api/k2w/publishing/failed',
+      params,
+    }),
+
+  // Retry one failed publish now
+  retryFailedPublish: (id: string): Promise<ApiResponse<FailedPublish>> =>
+    apiRequest({
+      method: 'POST',
+      url: `/api/k2w/publishing/failed/${id}/retry`,
+    }),
+
+  // Retry the given failed publishes, or all that failed for good
+  retryFailedPublishes: (ids?: string[]): Promise<ApiResponse<{ retried: FailedPublish[]; skipped: string[] }>> =>
+    apiRequest({
+      method: 'POST',
+      url: '/api/k2w/publishing/failed/retry',
+      data: { ids },
+    }),
+};
+
 // Performance Optimization Services
 export const optimizationService = {
   // Get system health
@@ -829,6 +1216,12 @@ export const optimizationService = {
       url: '/api/optimize/health',
     }),
 
+  // Get AI provider circuit breaker states (the health endpoint is not wrapped in ApiResponse)
+  getProviderHealth: async (): Promise<ProviderHealth[]> => {
+    const response = await apiClient.get<{ aiProviders?: ProviderHealth[] }>('/api/optimize/health');
+    return response.data.aiProviders ?? [];
+  },
+
   // Get performance insights
   getInsights: (): Promise<ApiResponse<{
     insights: Array<{
@@ -4,9 +4,13 @@
  */
 
 import { EventEmitter } from 'events';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { io, Socket } from 'socket.io-client';
 
 export interface WorkflowProgress {
-  jobId: string;
+  workflowId: string;
+  eventId?: number;
+  eventEpoch?: string;
   stage: string;
   status: string;
   progress: number;
@@ -14,6 +18,20 @@ export interface WorkflowProgress {
   totalProgress: number;
 }
 
+// Streaming content draft pushed while an article is generated
+export interface ContentChunk {
+  keywordId: string;
+  projectId?: string;
+  status: 'streaming' | 'completed' | 'cancelled' | 'failed';
+  sequence: number;
+  title: string;
+  body_html: string; // the draft so far
+  contentId?: string;
+  error?: string;
+  eventId?: number;
+  eventEpoch?: string;
+}
+
 export interface WorkflowResult {
   websiteUrl: string;
   pages: number;
@@ -57,7 +75,6 @@ export class MockSocketClient extends EventEmitter implements SocketClient {
     
     console.log('[SOCKET CLIENT] Disconnected');
     this.emit('disconnected');
-    this.removeAllListeners();
   }
 
   isConnected(): boolean {
@@ -80,7 +97,7 @@ export class MockSocketClient extends EventEmitter implements SocketClient {
       switch (randomEvent) {
         case 'workflow:progress':
           this.emit('workflow:progress', {
-            jobId: 'demo_workflow_123',
+            workflowId: 'demo_workflow_123',
             stage: 'content_generation',
             status: 'active',
             progress: Math.floor(Math.random() * 100),
@@ -91,7 +108,7 @@ export class MockSocketClient extends EventEmitter implements SocketClient {
 
         case 'workflow:stage-update':
           this.emit('workflow:stage-update', {
-            jobId: 'demo_workflow_123',
+            workflowId: 'demo_workflow_123',
             stage: {
               name: 'seo_optimization',
               status: 'completed',
@@ -114,66 +131,158 @@ export class MockSocketClient extends EventEmitter implements SocketClient {
   }
 }
 
-// Real Socket Client (when socket.io is installed)
+// Events pushed by the API socket service
+const SERVER_EVENTS = [
+  'workflow:progress',
+  'workflow:stage-update',
+  'workflow:completed',
+  'workflow:failed',
+  'content:chunk',
+  'notification',
+  'queue:stats'
+];
+
+// Real Socket Client backed by socket.io-client
 export class RealSocketClient extends EventEmitter implements SocketClient {
-  private socket?: unknown; // Would be Socket from socket.io-client
-  private userId?: string;
+  private socket?: Socket;
+  private lastEventId = 0;
+  private eventEpoch?: string; // server boot the event ids count from
+
+  constructor(private readonly url: string = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000') {
+    super();
+  }
 
   connect(userId: string): void {
-    // This would use real socket.io-client
-    console.log(`[SOCKET CLIENT] Would connect with real Socket.IO for user: ${userId}`);
-    
-    // For now, fall back to mock
-    const mockClient = new MockSocketClient();
-    mockClient.connect(userId);
-    
-    // Proxy events
-    mockClient.on('workflow:progress', (data) => this.emit('workflow:progress', data));
-    mockClient.on('workflow:completed', (data) => this.emit('workflow:completed', data));
-    mockClient.on('workflow:failed', (data) => this.emit('workflow:failed', data));
-    mockClient.on('notification', (data) => this.emit('notification', data));
+    if (this.socket) {
+      return;
+    }
+
+    this.socket = io(this.url, {
+      // Re-evaluated on every (re)connect so the server can replay missed events
+      auth: (cb) => cb({
+        token: typeof window !== 'undefined' ? localStorage.getItem('auth_token') : null,
+        lastEventId: this.lastEventId,
+        eventEpoch: this.eventEpoch
+      }),
+      reconnection: true,
+      reconnectionDelay: 1000,
+      reconnectionDelayMax: 10000
+    });
+
+    this.socket.on('connect', () => {
+      console.log(`[SOCKET CLIENT] Connected as user: ${userId}`);
+      this.emit('connected', { userId });
+    });
+
+    this.socket.on('disconnect', (reason) => {
+      this.emit('disconnected', { reason });
+    });
+
+    this.socket.on('connect_error', (error) => {
+      console.warn('[SOCKET CLIENT] Connection error:', error.message);
+      this.emit('error', error);
+    });
+
+    for (const event of SERVER_EVENTS) {
+      this.socket.on(event, (data: { eventId?: number; eventEpoch?: string }) => {
+        if (data?.eventEpoch && data.eventEpoch !== this.eventEpoch) {
+          // The server restarted and counts event ids from zero again
+          this.eventEpoch = data.eventEpoch;
+          this.lastEventId = 0;
+        }
+        if (typeof data?.eventId === 'number') {
+          if (data.eventId <= this.lastEventId) {
+            return; // Already delivered before a reconnect
+          }
+          this.lastEventId = data.eventId;
+        }
+        this.emit(event, data);
+      });
+    }
   }
 
   disconnect(): void {
-    console.log('[SOCKET CLIENT] Real socket disconnected');
+    // Drop only the socket listeners added in connect(); subscribers keep theirs
+    this.socket?.off();
+    this.socket?.disconnect();
+    this.socket = undefined;
+    this.emit('disconnected', { reason: 'client disconnect' });
   }
 
   isConnected(): boolean {
-    return false; // Mock implementation
+    return !!this.socket?.connected;
+  }
+
+  /**
+   * Ask the API to cancel a running workflow
+   */
+  cancelWorkflow(workflowId: string): void {
+    this.socket?.emit('workflow:cancel', { workflowId });
+  }
+
+  /**
+   * Ask the API to cancel a content generation mid-stream
+   */
+  cancelContentGeneration(keywordId: string): void {
+    this.socket?.emit('content:cancel', { keywordId });
+  }
+
+  /**
+   * Ask the API to retry a failed workflow
+   */
+  retryWorkflow(workflowId: string): void {
+    this.socket?.emit('workflow:retry', { workflowId });
   }
 }
 
 // Factory function
-export function createSocketClient(useReal: boolean = false): SocketClient {
+export function createSocketClient(useReal: boolean = process.env.NEXT_PUBLIC_USE_MOCK_SOCKET !== 'true'): SocketClient {
   return useReal ? new RealSocketClient() : new MockSocketClient();
 }
 
-// Hook for React components
-export function useSocketClient() {
-  const client = createSocketClient();
-  
-  const connect = (uid: string) => {
-    client.connect(uid);
-  };
+// Hook for React components: connects while mounted and tracks connection state
+export function useSocketClient(userId?: string) {
+  const clientRef = useRef<SocketClient>();
+  const [isConnected, setIsConnected] = useState(false);
 
-  const disconnect = () => {
-    client.disconnect();
-  };
+  if (!clientRef.current) {
+    clientRef.current = createSocketClient();
+  }
+  const client = clientRef.current;
+
+  useEffect(() => {
+    const hasToken = typeof window !== 'undefined' && !!localStorage.getItem('auth_token');
+    if (!userId && !hasToken) {
+      return;
+    }
+
+    const handleConnected = () => setIsConnected(true);
+    const handleDisconnected = () => setIsConnected(false);
 
-  const subscribe = (event: string, callback: (...args: unknown[]) => void) => {
+    client.on('connected', handleConnected);
+    client.on('disconnected', handleDisconnected);
+    client.connect(userId || 'me');
+
+    return () => {
+      client.off('connected', handleConnected);
+      client.off('disconnected', handleDisconnected);
+      client.disconnect();
+      setIsConnected(false);
+    };
+  }, [client, userId]);
+
+  const subscribe = useCallback((event: string, callback: (...args: unknown[]) => void) => {
     client.on(event, callback);
     
     // Return unsubscribe function
     return () => client.off(event, callback);
-  };
+  }, [client]);
 
   return {
     client,
-    connect,
-    disconnect,
     subscribe,
-    isConnected: client.isConnected()
+    isConnected
   };
 }
 
-export default MockSocketClient;
\ No newline at end of file
+export default RealSocketClient;
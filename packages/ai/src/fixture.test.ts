@@ -0,0 +1,122 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FixtureService, FixtureFile } from './fixture';
+
+describe('FixtureService', () => {
+  let dir: string;
+  let fixturePath: string;
+
+  const writeFixtures = (fixtures: FixtureFile) => fs.writeFileSync(fixturePath, JSON.stringify(fixtures));
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-fixtures-'));
+    fixturePath = path.join(dir, 'fixtures.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replays by request key, then by matching text, then the catch-all', async () => {
+    const keyed = [{ role: 'user', content: 'Write a title about solar panels' }];
+    writeFixtures({
+      completions: [
+        { response: 'catch-all' },
+        { match: 'Return ONLY valid JSON', response: { title: 'Matched' } },
+        { key: FixtureService.requestKey(keyed), response: 'keyed' },
+      ],
+    });
+    const service = new FixtureService({ path: fixturePath });
+
+    expect(await service.createChatCompletion(keyed)).toBe('keyed');
+    expect(await service.createChatCompletion([{ role: 'user', content: 'Outline. Return ONLY valid JSON.' }]))
+      .toBe('{"title":"Matched"}');
+    expect(await service.createChatCompletion([{ role: 'user', content: 'Anything else' }])).toBe('catch-all');
+  });
+
+  it('fails for a request with no recording', async () => {
+    writeFixtures({ completions: [{ match: 'solar', response: 'Solar' }] });
+    const service = new FixtureService({ path: fixturePath });
+
+    await expect(service.createChatCompletion([{ role: 'user', content: 'wind' }])).rejects.toThrow('No recorded fixture');
+  });
+
+  it('reports estimated token usage', async () => {
+    writeFixtures({ completions: [{ response: '12345678' }] });
+    const onUsage = jest.fn();
+    const service = new FixtureService({ path: fixturePath });
+
+    await service.createChatCompletion([{ role: 'user', content: '1234' }], { model: 'gpt-4o', onUsage });
+
+    expect(onUsage).toHaveBeenCalledWith({ model: 'gpt-4o', prompt_tokens: 1, completion_tokens: 2 });
+  });
+
+  it('streams the recording in fixed-size chunks', async () => {
+    writeFixtures({ completions: [{ response: 'Solar panels' }] });
+    const onChunk = jest.fn();
+    const service = new FixtureService({ path: fixturePath, chunkSize: 5 });
+
+    const text = await service.streamChatCompletion([{ role: 'user', content: 'Title?' }], { onChunk });
+
+    expect(text).toBe('Solar panels');
+    expect(onChunk.mock.calls.map(([delta]) => delta)).toEqual(['Solar', ' pane', 'ls']);
+  });
+
+  it('stops streaming once aborted', async () => {
+    writeFixtures({ completions: [{ response: 'Solar panels' }] });
+    const controller = new AbortController();
+    const service = new FixtureService({ path: fixturePath, chunkSize: 5 });
+
+    await expect(service.streamChatCompletion([{ role: 'user', content: 'Title?' }], {
+      signal: controller.signal,
+      onChunk: () => controller.abort(),
+    })).rejects.toThrow('Fixture stream aborted');
+  });
+
+  it('records responses ahead of match and catch-all entries', async () => {
+    writeFixtures({ completions: [{ response: 'catch-all' }] });
+    const messages = [{ role: 'user', content: 'Write a title' }];
+    const service = new FixtureService({ path: fixturePath, record: true });
+
+    service.record(messages, 'first');
+    service.record(messages, 'second');
+
+    const saved = JSON.parse(fs.readFileSync(fixturePath, 'utf8')) as FixtureFile;
+    expect(saved.completions).toEqual([
+      { key: FixtureService.requestKey(messages), response: 'second' },
+      { response: 'catch-all' },
+    ]);
+    expect(await new FixtureService({ path: fixturePath }).createChatCompletion(messages)).toBe('second');
+  });
+
+  it('only records when created for recording', () => {
+    writeFixtures({ completions: [] });
+    const service = new FixtureService({ path: fixturePath });
+
+    expect(() => service.record([{ role: 'user', content: 'Hi' }], 'Hello')).toThrow('not created for recording');
+  });
+
+  it('requires an existing, valid fixture file unless recording', () => {
+    expect(() => new FixtureService({ path: fixturePath })).toThrow('Fixture file not found');
+    expect(new FixtureService({ path: fixturePath, record: true }).getServiceInfo()).toMatchObject({ completions: 0 });
+
+    fs.writeFileSync(fixturePath, JSON.stringify({ completions: {} }));
+    expect(() => new FixtureService({ path: fixturePath })).toThrow('"completions" must be an array');
+  });
+
+  it('replays recorded images in order, or placeholders without recordings', async () => {
+    writeFixtures({ completions: [], images: ['https://example.com/a.png', 'https://example.com/b.png'] });
+    const images = await new FixtureService({ path: fixturePath }).generateImages('Solar panels', 3);
+    expect(images.map(image => image.url)).toEqual([
+      'https://example.com/a.png',
+      'https://example.com/b.png',
+      'https://example.com/a.png',
+    ]);
+
+    writeFixtures({ completions: [] });
+    const [placeholder] = await new FixtureService({ path: fixturePath }).generateImages('Solar <panels>');
+    expect(placeholder.url).toMatch(/^data:image\/svg\+xml/);
+    expect(decodeURIComponent(placeholder.url)).toContain('>Solar panels</text>');
+  });
+});
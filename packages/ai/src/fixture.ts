@@ -0,0 +1,210 @@
+/**
+ * Fixture AI provider - deterministic replay of recorded responses
+ * For dev and CI runs with no API keys and no network.
+ *
+ * A fixture file holds recorded completions and images:
+ * {
+ *   "completions": [
+ *     { "key": "<request key>", "response": "..." },         // exact request, as recorded
+ *     { "match": "Return ONLY valid JSON", "response": {} },  // any request containing the text
+ *     { "response": "..." }                                   // any other request
+ *   ],
+ *   "images": ["https://...", "data:image/svg+xml,..."]
+ * }
+ *
+ * Requests are looked up by key first, then by the first matching entry, then the catch-all.
+ * Object responses are replayed as JSON. Without recorded images, a placeholder SVG is returned.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { ChatCompletionStreamOptions, ChatCompletionUsage } from './openai';
+
+export interface FixtureCompletion {
+  key?: string;
+  match?: string;
+  response: string | Record<string, unknown> | unknown[];
+}
+
+export interface FixtureFile {
+  completions: FixtureCompletion[];
+  images?: string[];
+}
+
+export interface FixtureImage {
+  url: string;
+  width: number;
+  height: number;
+  model: string;
+}
+
+export interface FixtureConfig {
+  path: string;
+  record?: boolean; // create the file if missing and allow record()
+  chunkSize?: number; // characters per streamed chunk
+  chunkDelayMs?: number; // pause between streamed chunks, 0 in CI
+}
+
+type FixtureMessage = { role: string; content: string };
+
+export class FixtureService {
+  private config: FixtureConfig;
+  private fixtures: FixtureFile;
+
+  constructor(config?: Partial<FixtureConfig>) {
+    const fixturePath = config?.path || process.env.AI_FIXTURES_PATH;
+    if (!fixturePath) {
+      throw new Error('Fixture file path is required. Please set AI_FIXTURES_PATH environment variable.');
+    }
+
+    this.config = {
+      path: path.resolve(fixturePath),
+      record: config?.record ?? false,
+      chunkSize: config?.chunkSize ?? 200,
+      chunkDelayMs: config?.chunkDelayMs ?? Number(process.env.AI_FIXTURES_CHUNK_DELAY_MS || 0),
+    };
+    this.fixtures = this.load();
+  }
+
+  /**
+   * Key a request is recorded under: a hash of its messages, independent of model and sampling options
+   */
+  static requestKey(messages: FixtureMessage[]): string {
+    const canonical = JSON.stringify(messages.map(message => [message.role, message.content]));
+    return crypto.createHash('sha256').update(canonical).digest('hex').slice(0, 32);
+  }
+
+  async createChatCompletion(messages: FixtureMessage[], options?: {
+    model?: string;
+    onUsage?: (usage: ChatCompletionUsage) => void;
+  }): Promise<string> {
+    const key = FixtureService.requestKey(messages);
+    const prompt = messages.map(message => message.content).join('\n\n');
+
+    const entry = this.fixtures.completions.find(completion => completion.key === key)
+      || this.fixtures.completions.find(completion => !completion.key && completion.match && prompt.includes(completion.match))
+      || this.fixtures.completions.find(completion => !completion.key && !completion.match);
+
+    if (!entry) {
+      throw new Error(`No recorded fixture for request ${key} in ${this.config.path}`);
+    }
+
+    const result = typeof entry.response === 'string' ? entry.response : JSON.stringify(entry.response);
+
+    // Fixtures are free; report estimated tokens (~4 characters each) so metering still runs
+    options?.onUsage?.({
+      model: options?.model || 'fixture',
+      prompt_tokens: Math.ceil(prompt.length / 4),
+      completion_tokens: Math.ceil(result.length / 4),
+    });
+
+    return result;
+  }
+
+  /**
+   * Replay a recorded response in fixed-size chunks
+   */
+  async streamChatCompletion(messages: FixtureMessage[], options: ChatCompletionStreamOptions): Promise<string> {
+    const result = await this.createChatCompletion(messages, { model: options.model, onUsage: options.onUsage });
+    const chunkSize = this.config.chunkSize || 200;
+
+    let text = '';
+    for (let offset = 0; offset < result.length; offset += chunkSize) {
+      if (options.signal?.aborted) {
+        throw new Error('Fixture stream aborted');
+      }
+      const delta = result.slice(offset, offset + chunkSize);
+      text += delta;
+      options.onChunk(delta, text);
+      if (this.config.chunkDelayMs) {
+        await new Promise(resolve => setTimeout(resolve, this.config.chunkDelayMs));
+      }
+    }
+
+    return text;
+  }
+
+  /**
+   * Replay recorded image URLs in order, or placeholder SVGs when none are recorded
+   */
+  async generateImages(prompt: string, count: number = 1): Promise<FixtureImage[]> {
+    const recorded = this.fixtures.images || [];
+
+    return Array.from({ length: count }, (_, index) => ({
+      url: recorded.length > 0 ? recorded[index % recorded.length] : this.placeholderImage(prompt),
+      width: 1024,
+      height: 1024,
+      model: 'fixture',
+    }));
+  }
+
+  /**
+   * Record a response for a request, replacing an earlier recording of the same request
+   */
+  record(messages: FixtureMessage[], response: string): void {
+    if (!this.config.record) {
+      throw new Error('Fixture service was not created for recording');
+    }
+
+    const key = FixtureService.requestKey(messages);
+    this.fixtures.completions = [
+      ...this.fixtures.completions.filter(completion => completion.key !== key),
+      { key, response },
+    ];
+
+    // Keyed recordings go before match and catch-all entries, which would otherwise shadow them
+    this.fixtures.completions.sort((a, b) => Number(!a.key) - Number(!b.key));
+    fs.mkdirSync(path.dirname(this.config.path), { recursive: true });
+    fs.writeFileSync(this.config.path, JSON.stringify(this.fixtures, null, 2));
+  }
+
+  /**
+   * Get service info
+   */
+  getServiceInfo() {
+    return {
+      name: 'Fixtures (recorded responses)',
+      cost: 'FREE',
+      apiKeyRequired: false,
+      path: this.config.path,
+      completions: this.fixtures.completions.length,
+      images: this.fixtures.images?.length || 0,
+      recording: !!this.config.record,
+    };
+  }
+
+  private load(): FixtureFile {
+    if (!fs.existsSync(this.config.path)) {
+      if (this.config.record) {
+        return { completions: [] };
+      }
+      throw new Error(`Fixture file not found: ${this.config.path}`);
+    }
+
+    const parsed = JSON.parse(fs.readFileSync(this.config.path, 'utf8')) as Partial<FixtureFile>;
+    if (!Array.isArray(parsed.completions)) {
+      throw new Error(`Invalid fixture file ${this.config.path}: "completions" must be an array`);
+    }
+
+    return { completions: parsed.completions, images: parsed.images };
+  }
+
+  private placeholderImage(prompt: string): string {
+    const label = prompt.slice(0, 60).replace(/[<>&"']/g, '');
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="1024">`
+      + `<rect width="100%" height="100%" fill="#e5e7eb"/>`
+      + `<text x="50%" y="50%" font-family="sans-serif" font-size="28" fill="#6b7280" text-anchor="middle">${label}</text>`
+      + `</svg>`;
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  }
+}
+
+/**
+ * Factory function
+ */
+export function createFixtureService(config?: Partial<FixtureConfig>): FixtureService {
+  return new FixtureService(config);
+}
+
+export default FixtureService;
@@ -1,5 +1,6 @@
 import { GoogleGenerativeAI, GenerativeModel, HarmCategory, HarmBlockThreshold } from '@google/generative-ai';
 import { z } from 'zod';
+import type { ChatCompletionStreamOptions, ChatCompletionUsage } from './openai';
 
 // Content generation schemas (same as OpenAI)
 export const ContentGenerationInputSchema = z.object({
@@ -170,13 +171,10 @@ export class GeminiService {
     temperature?: number;
     max_tokens?: number;
     responseMimeType?: string;
+    onUsage?: (usage: ChatCompletionUsage) => void;
   }): Promise<string> {
     // Gemini uses a single prompt instead of message array
-    // Convert messages to a single prompt
-    const prompt = messages.map(msg => {
-      const roleLabel = msg.role === 'system' ? 'SYSTEM' : msg.role === 'user' ? 'USER' : 'ASSISTANT';
-      return `${roleLabel}: ${msg.content}`;
-    }).join('\n\n');
+    const prompt = this.toPrompt(messages);
 
     try {
       const customModel = options?.model ? 
@@ -193,6 +191,14 @@ export class GeminiService {
       const response = result.response;
       const text = response.text();
 
+      if (response.usageMetadata) {
+        options?.onUsage?.({
+          model: customModel.model.replace(/^models\//, ''),
+          prompt_tokens: response.usageMetadata.promptTokenCount,
+          completion_tokens: response.usageMetadata.candidatesTokenCount,
+        });
+      }
+
       if (!text) {
         throw new Error('Failed to generate completion');
       }
@@ -204,6 +210,61 @@ export class GeminiService {
     }
   }
 
+  async streamChatCompletion(messages: Array<{role: string, content: string}>, options: ChatCompletionStreamOptions): Promise<string> {
+    const prompt = this.toPrompt(messages);
+
+    try {
+      const customModel = options.model ?
+        this.client.getGenerativeModel({
+          model: options.model,
+          generationConfig: {
+            temperature: options.temperature || 0.7,
+            maxOutputTokens: options.max_tokens || 8192,
+            responseMimeType: options.responseMimeType,
+          },
+        }) : this.model;
+
+      const result = await customModel.generateContentStream(prompt, { signal: options.signal });
+
+      let text = '';
+      for await (const chunk of result.stream) {
+        const delta = chunk.text();
+        if (delta) {
+          text += delta;
+          options.onChunk(delta, text);
+        }
+      }
+
+      const response = await result.response;
+      if (response.usageMetadata) {
+        options.onUsage?.({
+          model: customModel.model.replace(/^models\//, ''),
+          prompt_tokens: response.usageMetadata.promptTokenCount,
+          completion_tokens: response.usageMetadata.candidatesTokenCount,
+        });
+      }
+
+      if (!text) {
+        throw new Error('Failed to generate completion');
+      }
+
+      return text;
+    } catch (error) {
+      // Cancellation is not a provider failure, keep it recognizable for the caller
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      throw new Error(`Failed to generate completion: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private toPrompt(messages: Array<{role: string, content: string}>): string {
+    return messages.map(msg => {
+      const roleLabel = msg.role === 'system' ? 'SYSTEM' : msg.role === 'user' ? 'USER' : 'ASSISTANT';
+      return `${roleLabel}: ${msg.content}`;
+    }).join('\n\n');
+  }
+
   private buildContentPrompt(input: ContentGenerationInput): string {
     return `
     Generate SEO-optimized content with the following specifications:
@@ -4,6 +4,8 @@ export {
   ContentGenerationInputSchema,
   ContentGenerationOutput,
   ContentGenerationOutputSchema,
+  ChatCompletionUsage,
+  ChatCompletionStreamOptions,
 } from './openai';
 
 // Export service classes and factories
@@ -13,6 +15,8 @@ export { ImagenService, createImagenService } from './imagen';
 export { PollinationsService, createPollinationsService } from './pollinations';
 export { StabilityAIService, createStabilityService } from './stability';
 export { HuggingFaceService, createHuggingFaceService } from './huggingface';
+export { LocalLLMService, createLocalLLMService, LocalLLMConfig } from './local-llm';
+export { FixtureService, createFixtureService, FixtureConfig, FixtureFile, FixtureCompletion } from './fixture';
 export * from './prompts';
 
 // Default services
@@ -0,0 +1,154 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { LocalLLMService } from './local-llm';
+
+type Handler = (body: any, res: http.ServerResponse) => void;
+
+const json = (res: http.ServerResponse, body: unknown) => {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const completion = (content: string | null, usage?: { prompt_tokens: number; completion_tokens: number }) => ({
+  id: 'chatcmpl-1',
+  object: 'chat.completion',
+  created: 0,
+  model: 'llama3.1:8b',
+  choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+  usage: usage && { ...usage, total_tokens: usage.prompt_tokens + usage.completion_tokens },
+});
+
+describe('LocalLLMService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let routes: Record<string, Handler>;
+  let requests: Array<{ path: string; body: any; authorization?: string }>;
+
+  beforeEach(async () => {
+    routes = {};
+    requests = [];
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        const path = req.url!.replace(/^\/v1/, '');
+        const body = raw ? JSON.parse(raw) : undefined;
+        requests.push({ path, body, authorization: req.headers.authorization });
+        const handler = routes[`${req.method} ${path}`];
+        if (!handler) {
+          res.writeHead(404).end();
+          return;
+        }
+        handler(body, res);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('requires a base URL', () => {
+    const previous = process.env.LOCAL_LLM_BASE_URL;
+    delete process.env.LOCAL_LLM_BASE_URL;
+    try {
+      expect(() => new LocalLLMService()).toThrow('Local LLM base URL is required');
+    } finally {
+      if (previous !== undefined) process.env.LOCAL_LLM_BASE_URL = previous;
+    }
+  });
+
+  it('returns the completion and reports the server\'s token usage', async () => {
+    routes['POST /chat/completions'] = (_body, res) =>
+      json(res, completion('{"title":"Solar panels"}', { prompt_tokens: 12, completion_tokens: 7 }));
+    const onUsage = jest.fn();
+    const service = new LocalLLMService({ baseUrl, model: 'llama3.1:8b' });
+
+    const result = await service.createChatCompletion(
+      [{ role: 'user', content: 'Write a title' }],
+      { responseMimeType: 'application/json', temperature: 0.2, onUsage }
+    );
+
+    expect(result).toBe('{"title":"Solar panels"}');
+    expect(requests[0].body).toMatchObject({
+      model: 'llama3.1:8b',
+      temperature: 0.2,
+      max_tokens: 2000,
+      response_format: { type: 'json_object' },
+    });
+    // Servers started without a key still get one, as the client requires it
+    expect(requests[0].authorization).toBe('Bearer local');
+    expect(onUsage).toHaveBeenCalledWith({ model: 'llama3.1:8b', prompt_tokens: 12, completion_tokens: 7 });
+  });
+
+  it('rejects an empty completion', async () => {
+    routes['POST /chat/completions'] = (_body, res) => json(res, completion(null));
+    const service = new LocalLLMService({ baseUrl });
+
+    await expect(service.createChatCompletion([{ role: 'user', content: 'Hi' }]))
+      .rejects.toThrow('Local LLM returned an empty completion');
+  });
+
+  it('streams chunks and reports usage from the final chunk', async () => {
+    routes['POST /chat/completions'] = (_body, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      const chunk = (delta: Record<string, string>, usage?: object) => ({
+        id: 'chatcmpl-1',
+        object: 'chat.completion.chunk',
+        created: 0,
+        model: 'llama3.1:8b',
+        choices: usage ? [] : [{ index: 0, delta, finish_reason: null }],
+        usage,
+      });
+      for (const event of [
+        chunk({ content: 'Solar ' }),
+        chunk({ content: 'panels' }),
+        chunk({}, { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 }),
+      ]) {
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+      }
+      res.end('data: [DONE]\n\n');
+    };
+    const onChunk = jest.fn();
+    const onUsage = jest.fn();
+    const service = new LocalLLMService({ baseUrl });
+
+    const text = await service.streamChatCompletion([{ role: 'user', content: 'Title?' }], { onChunk, onUsage });
+
+    expect(text).toBe('Solar panels');
+    expect(onChunk.mock.calls).toEqual([['Solar ', 'Solar '], ['panels', 'Solar panels']]);
+    expect(onUsage).toHaveBeenCalledWith({ model: 'llama3.1:8b', prompt_tokens: 5, completion_tokens: 2 });
+    expect(requests[0].body).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+  });
+
+  it('returns embeddings in input order', async () => {
+    routes['POST /embeddings'] = (_body, res) => json(res, {
+      object: 'list',
+      model: 'nomic-embed-text',
+      data: [
+        { object: 'embedding', index: 1, embedding: [0, 1] },
+        { object: 'embedding', index: 0, embedding: [1, 0] },
+      ],
+    });
+    const service = new LocalLLMService({ baseUrl });
+
+    expect(await service.createEmbeddings(['solar', 'wind'], { model: 'nomic-embed-text' })).toEqual([[1, 0], [0, 1]]);
+    expect(await service.createEmbeddings([])).toEqual([]);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].body).toMatchObject({ input: ['solar', 'wind'], encoding_format: 'float' });
+  });
+
+  it('is available only while the server answers', async () => {
+    routes['GET /models'] = (_body, res) => json(res, { object: 'list', data: [{ id: 'llama3.1:8b', object: 'model' }] });
+    const service = new LocalLLMService({ baseUrl });
+
+    expect(await service.listModels()).toEqual(['llama3.1:8b']);
+    expect(await service.isAvailable()).toBe(true);
+
+    await new Promise(resolve => server.close(resolve));
+    server = http.createServer();
+    expect(await service.isAvailable()).toBe(false);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Local LLM - OpenAI-compatible self-hosted server
+ * Works with llama.cpp server, Ollama, vLLM, LM Studio and anything else serving /v1/chat/completions.
+ *
+ * Features:
+ * - No API key or internet needed (the server runs on your machine or network)
+ * - Configured by base URL: LOCAL_LLM_BASE_URL=http://localhost:11434/v1 (Ollama)
+ * - Reports token usage when the server does
+ */
+
+import OpenAI from 'openai';
+import type { ChatCompletionStreamOptions, ChatCompletionUsage } from './openai';
+
+export interface LocalLLMConfig {
+  baseUrl: string; // e.g. http://localhost:8080/v1 (llama.cpp), http://localhost:11434/v1 (Ollama)
+  model: string; // model the server loaded, e.g. llama3.1:8b
+  apiKey?: string; // only when the server is started with one (vLLM --api-key)
+  timeoutMs?: number;
+}
+
+export class LocalLLMService {
+  private client: OpenAI;
+  private config: LocalLLMConfig;
+
+  constructor(config?: Partial<LocalLLMConfig>) {
+    const baseUrl = config?.baseUrl || process.env.LOCAL_LLM_BASE_URL;
+    if (!baseUrl) {
+      throw new Error('Local LLM base URL is required. Please set LOCAL_LLM_BASE_URL environment variable.');
+    }
+
+    this.config = {
+      baseUrl: baseUrl.replace(/\/+$/, ''),
+      model: config?.model || process.env.LOCAL_LLM_MODEL || 'local-model',
+      apiKey: config?.apiKey || process.env.LOCAL_LLM_API_KEY,
+      timeoutMs: config?.timeoutMs || Number(process.env.LOCAL_LLM_TIMEOUT_MS) || 5 * 60 * 1000,
+    };
+
+    this.client = new OpenAI({
+      baseURL: this.config.baseUrl,
+      // Local servers ignore the key, but the client requires one
+      apiKey: this.config.apiKey || 'local',
+      timeout: this.config.timeoutMs,
+      maxRetries: 0,
+    });
+  }
+
+  getModel(): string {
+    return this.config.model;
+  }
+
+  async createChatCompletion(messages: Array<{role: string, content: string}>, options?: {
+    model?: string;
+    temperature?: number;
+    max_tokens?: number;
+    responseMimeType?: string;
+    onUsage?: (usage: ChatCompletionUsage) => void;
+  }): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      model: options?.model || this.config.model,
+      messages: messages as Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
+      temperature: options?.temperature ?? 0.7,
+      max_tokens: options?.max_tokens || 2000,
+      ...(options?.responseMimeType === 'application/json' ? { response_format: { type: 'json_object' as const } } : {}),
+    });
+
+    if (completion.usage) {
+      options?.onUsage?.({
+        model: completion.model || options?.model || this.config.model,
+        prompt_tokens: completion.usage.prompt_tokens,
+        completion_tokens: completion.usage.completion_tokens,
+      });
+    }
+
+    const result = completion.choices[0]?.message?.content;
+    if (!result) {
+      throw new Error('Local LLM returned an empty completion');
+    }
+
+    return result;
+  }
+
+  async streamChatCompletion(messages: Array<{role: string, content: string}>, options: ChatCompletionStreamOptions): Promise<string> {
+    const stream = await this.client.chat.completions.create({
+      model: options.model || this.config.model,
+      messages: messages as Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
+      temperature: options.temperature ?? 0.7,
+      max_tokens: options.max_tokens || 2000,
+      stream: true,
+      stream_options: { include_usage: true },
+      ...(options.responseMimeType === 'application/json' ? { response_format: { type: 'json_object' as const } } : {}),
+    }, { signal: options.signal });
+
+    let text = '';
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        options.onChunk(delta, text);
+      }
+      if (chunk.usage) {
+        options.onUsage?.({
+          model: chunk.model || options.model || this.config.model,
+          prompt_tokens: chunk.usage.prompt_tokens,
+          completion_tokens: chunk.usage.completion_tokens,
+        });
+      }
+    }
+
+    if (!text) {
+      throw new Error('Local LLM returned an empty completion');
+    }
+
+    return text;
+  }
+
+  async createEmbeddings(texts: string[], options?: {
+    model?: string;
+  }): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const response = await this.client.embeddings.create({
+      model: options?.model || this.config.model,
+      input: texts,
+      // The client otherwise asks for base64 and decodes it; servers that ignore that send floats
+      encoding_format: 'float',
+    });
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+
+  /**
+   * Models the server has loaded
+   */
+  async listModels(): Promise<string[]> {
+    const models = await this.client.models.list();
+    return models.data.map(model => model.id);
+  }
+
+  /**
+   * Check if the server is reachable
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.listModels();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get service info
+   */
+  getServiceInfo() {
+    return {
+      name: 'Local LLM (OpenAI-compatible)',
+      cost: 'FREE (self-hosted)',
+      apiKeyRequired: false,
+      baseUrl: this.config.baseUrl,
+      model: this.config.model,
+    };
+  }
+}
+
+/**
+ * Factory function
+ */
+export function createLocalLLMService(config?: Partial<LocalLLMConfig>): LocalLLMService {
+  return new LocalLLMService(config);
+}
+
+export default LocalLLMService;
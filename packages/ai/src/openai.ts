@@ -35,6 +35,24 @@ export const ContentGenerationOutputSchema = z.object({
 export type ContentGenerationInput = z.infer<typeof ContentGenerationInputSchema>;
 export type ContentGenerationOutput = z.infer<typeof ContentGenerationOutputSchema>;
 
+// Token usage reported by the provider for a single completion
+export interface ChatCompletionUsage {
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+// Streaming completions: onChunk gets each new piece of text and the text so far
+export interface ChatCompletionStreamOptions {
+  model?: string;
+  temperature?: number;
+  max_tokens?: number;
+  responseMimeType?: string;
+  onUsage?: (usage: ChatCompletionUsage) => void;
+  onChunk: (delta: string, text: string) => void;
+  signal?: AbortSignal; // cancels the generation mid-stream
+}
+
 export class OpenAIService {
   private client: OpenAI;
 
@@ -146,6 +164,7 @@ export class OpenAIService {
     model?: string;
     temperature?: number;
     max_tokens?: number;
+    onUsage?: (usage: ChatCompletionUsage) => void;
   }): Promise<string> {
     const completion = await this.client.chat.completions.create({
       model: options?.model || 'gpt-4-turbo-preview',
@@ -154,6 +173,14 @@ export class OpenAIService {
       max_tokens: options?.max_tokens || 2000,
     });
 
+    if (completion.usage) {
+      options?.onUsage?.({
+        model: completion.model,
+        prompt_tokens: completion.usage.prompt_tokens,
+        completion_tokens: completion.usage.completion_tokens,
+      });
+    }
+
     const result = completion.choices[0]?.message?.content;
     if (!result) {
       throw new Error('Failed to generate completion');
@@ -162,6 +189,56 @@ export class OpenAIService {
     return result;
   }
 
+  async streamChatCompletion(messages: Array<{role: string, content: string}>, options: ChatCompletionStreamOptions): Promise<string> {
+    const stream = await this.client.chat.completions.create({
+      model: options.model || 'gpt-4-turbo-preview',
+      messages: messages as Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
+      temperature: options.temperature || 0.7,
+      max_tokens: options.max_tokens || 2000,
+      stream: true,
+      stream_options: { include_usage: true },
+    }, { signal: options.signal });
+
+    let text = '';
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        options.onChunk(delta, text);
+      }
+      if (chunk.usage) {
+        options.onUsage?.({
+          model: chunk.model,
+          prompt_tokens: chunk.usage.prompt_tokens,
+          completion_tokens: chunk.usage.completion_tokens,
+        });
+      }
+    }
+
+    if (!text) {
+      throw new Error('Failed to generate completion');
+    }
+
+    return text;
+  }
+
+  async createEmbeddings(texts: string[], options?: {
+    model?: string;
+  }): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const response = await this.client.embeddings.create({
+      model: options?.model || 'text-embedding-3-small',
+      input: texts,
+    });
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+
   private buildContentPrompt(input: ContentGenerationInput): string {
     return `
     Generate SEO-optimized content with the following specifications:
@@ -0,0 +1,10 @@
+-- =============================================
+-- K2W Semantic Clustering
+-- Stores the embedding centroid and cohesion score of each cluster
+-- =============================================
+
+ALTER TABLE clusters ADD COLUMN IF NOT EXISTS clustering_method TEXT;
+ALTER TABLE clusters ADD COLUMN IF NOT EXISTS centroid DOUBLE PRECISION[];
+ALTER TABLE clusters ADD COLUMN IF NOT EXISTS cohesion_score DOUBLE PRECISION;
+
+CREATE INDEX IF NOT EXISTS idx_clusters_cohesion_score ON clusters(project_id, cohesion_score);
@@ -0,0 +1,31 @@
+-- =============================================
+-- K2W SERP Overlap Clustering
+-- Top-10 SERP snapshots per keyword and the pairwise shared-URL matrix
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS serp_snapshots (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id TEXT REFERENCES projects(id) ON DELETE CASCADE,
+    keyword TEXT NOT NULL,
+    region TEXT DEFAULT 'US',
+    urls TEXT[] DEFAULT '{}',
+    source TEXT DEFAULT 'import',
+    captured_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    overlaps_computed_at TIMESTAMPTZ,
+    UNIQUE (project_id, keyword, region)
+);
+
+-- Sparse matrix: only pairs sharing at least one URL, keyword_a < keyword_b
+CREATE TABLE IF NOT EXISTS serp_overlaps (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id TEXT REFERENCES projects(id) ON DELETE CASCADE,
+    region TEXT DEFAULT 'US',
+    keyword_a TEXT NOT NULL,
+    keyword_b TEXT NOT NULL,
+    shared_urls INTEGER DEFAULT 0,
+    computed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    UNIQUE (project_id, region, keyword_a, keyword_b)
+);
+
+CREATE INDEX IF NOT EXISTS idx_serp_snapshots_project ON serp_snapshots(project_id, region);
+CREATE INDEX IF NOT EXISTS idx_serp_overlaps_project ON serp_overlaps(project_id, region);
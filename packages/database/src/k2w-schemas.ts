@@ -12,7 +12,9 @@ export const TABLE_NAMES = {
   SEO_AUDIT_LOG: 'seo_audit_log',
   PUBLISH_LOG: 'publish_log',
   FEEDBACK_DB: 'feedback_db',
-  SYSTEM_LOG: 'system_log'
+  SYSTEM_LOG: 'system_log',
+  SERP_SNAPSHOTS: 'serp_snapshots',
+  SERP_OVERLAPS: 'serp_overlaps'
 } as const;
 
 export const KEYWORD_STATUS = {
@@ -127,7 +129,7 @@ export interface K2WKeywordRecord {
   region: string;
   language: string;
   project_id: string;
-  cluster_id?: string;
+  cluster_id?: string | null;
   search_intent?: typeof SEARCH_INTENT[keyof typeof SEARCH_INTENT];
   volume?: number;
   difficulty?: number;
@@ -138,11 +140,20 @@ export interface K2WKeywordRecord {
     source: 'manual' | 'csv' | 'ahrefs' | 'semrush';
     imported_at: string;
     last_updated: string;
+    archive?: K2WKeywordArchiveInfo;
   };
   created_at: string;
   updated_at: string;
 }
 
+// State captured when a keyword is soft-archived, used to restore it
+export interface K2WKeywordArchiveInfo {
+  archived_at: string;
+  previous_status: string;
+  cluster_id?: string | null;
+  content_statuses: Record<string, string>;
+}
+
 export interface K2WClusterRecord {
   id: string;
   name: string;
@@ -158,6 +169,9 @@ export interface K2WClusterRecord {
     h2_topics: string[];
     faq_questions: string[];
   };
+  clustering_method?: string;
+  centroid?: number[];
+  cohesion_score?: number;
   created_at: string;
   updated_at: string;
 }
@@ -272,6 +286,12 @@ export interface K2WPublishLogRecord {
     deployment_id?: string;
     cms_post_id?: string;
     domain: string;
+    target_id?: string;
+    error_type?: 'transient' | 'permanent';
+    retry_job_id?: string;
+    next_retry_at?: string;
+    unpublished_at?: string;
+    redirect_to?: string;
   };
 }
 
@@ -302,6 +322,27 @@ export interface K2WSystemLogRecord {
   timestamp: string;
 }
 
+export interface K2WSerpSnapshotRecord {
+  id: string;
+  project_id: string;
+  keyword: string;
+  region: string;
+  urls: string[];
+  source: string;
+  captured_at: string;
+  overlaps_computed_at?: string | null;
+}
+
+export interface K2WSerpOverlapRecord {
+  id: string;
+  project_id: string;
+  region: string;
+  keyword_a: string;
+  keyword_b: string;
+  shared_urls: number;
+  computed_at: string;
+}
+
 // Create types for inserts (optional fields)
 export type CreateK2WUser = Omit<K2WUserRecord, 'id' | 'created_at' | 'updated_at'>;
 export type CreateK2WProject = Omit<K2WProjectRecord, 'id' | 'created_at' | 'updated_at'>;
@@ -314,6 +355,8 @@ export type CreateK2WSEOAuditLog = Omit<K2WSEOAuditLogRecord, 'id'>;
 export type CreateK2WPublishLog = Omit<K2WPublishLogRecord, 'id'>;
 export type CreateK2WFeedback = Omit<K2WFeedbackRecord, 'id' | 'created_at'>;
 export type CreateK2WSystemLog = Omit<K2WSystemLogRecord, 'id'>;
+export type CreateK2WSerpSnapshot = Omit<K2WSerpSnapshotRecord, 'id'>;
+export type CreateK2WSerpOverlap = Omit<K2WSerpOverlapRecord, 'id'>;
 
 // Update types for partial updates
 export type UpdateK2WUser = Partial<CreateK2WUser>;
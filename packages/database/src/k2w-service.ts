@@ -15,6 +15,8 @@ import {
   K2WPublishLogRecord,
   K2WFeedbackRecord,
   K2WSystemLogRecord,
+  K2WSerpSnapshotRecord,
+  K2WSerpOverlapRecord,
   CreateK2WUser,
   CreateK2WProject,
   CreateK2WKeyword,
@@ -26,6 +28,8 @@ import {
   CreateK2WPublishLog,
   CreateK2WFeedback,
   CreateK2WSystemLog,
+  CreateK2WSerpSnapshot,
+  CreateK2WSerpOverlap,
   UpdateK2WUser,
   UpdateK2WProject,
   UpdateK2WKeyword,
@@ -213,6 +217,15 @@ export class K2WDatabaseService extends DatabaseService {
     return data as K2WKeywordRecord;
   }
 
+  async deleteKeyword(id: string): Promise<void> {
+    const { error } = await supabase
+      .from(TABLE_NAMES.KEYWORDS)
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
   // Cluster Management
   async createCluster(clusterData: CreateK2WCluster): Promise<K2WClusterRecord> {
     const { data, error } = await supabase
@@ -305,6 +318,26 @@ export class K2WDatabaseService extends DatabaseService {
     return data as K2WContentRecord;
   }
 
+  async getContentsByKeywordId(keywordId: string): Promise<K2WContentRecord[]> {
+    const { data, error } = await supabase
+      .from(TABLE_NAMES.CONTENT)
+      .select('*')
+      .eq('keyword_id', keywordId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data as K2WContentRecord[];
+  }
+
+  async deleteContent(id: string): Promise<void> {
+    const { error } = await supabase
+      .from(TABLE_NAMES.CONTENT)
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
   async getContentsByProjectId(projectId: string, status?: string): Promise<K2WContentRecord[]> {
     let query = supabase
       .from(TABLE_NAMES.CONTENT)
@@ -464,6 +497,36 @@ export class K2WDatabaseService extends DatabaseService {
     return data as K2WPublishLogRecord;
   }
 
+  async getPublishLogById(id: string): Promise<K2WPublishLogRecord | null> {
+    const { data, error } = await supabase
+      .from(TABLE_NAMES.PUBLISH_LOG)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) return null;
+    return data as K2WPublishLogRecord;
+  }
+
+  async getPublishLogsByContentId(contentId: string): Promise<K2WPublishLogRecord[]> {
+    const { data, error } = await supabase
+      .from(TABLE_NAMES.PUBLISH_LOG)
+      .select('*')
+      .eq('content_id', contentId);
+
+    if (error) throw error;
+    return data as K2WPublishLogRecord[];
+  }
+
+  async deletePublishLogsByContentId(contentId: string): Promise<void> {
+    const { error } = await supabase
+      .from(TABLE_NAMES.PUBLISH_LOG)
+      .delete()
+      .eq('content_id', contentId);
+
+    if (error) throw error;
+  }
+
   // Feedback Management
   async createFeedback(feedbackData: CreateK2WFeedback): Promise<K2WFeedbackRecord> {
     const { data, error } = await supabase
@@ -505,6 +568,92 @@ export class K2WDatabaseService extends DatabaseService {
     return data as K2WSystemLogRecord;
   }
 
+  // SERP Snapshot Management
+  async upsertSerpSnapshots(snapshots: CreateK2WSerpSnapshot[]): Promise<K2WSerpSnapshotRecord[]> {
+    if (snapshots.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from(TABLE_NAMES.SERP_SNAPSHOTS)
+      .upsert(snapshots, { onConflict: 'project_id,keyword,region' })
+      .select();
+
+    if (error) throw error;
+    return data as K2WSerpSnapshotRecord[];
+  }
+
+  async getSerpSnapshots(projectId: string, region: string, keywords?: string[]): Promise<K2WSerpSnapshotRecord[]> {
+    let query = supabase
+      .from(TABLE_NAMES.SERP_SNAPSHOTS)
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('region', region);
+
+    if (keywords) {
+      query = query.in('keyword', keywords);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data as K2WSerpSnapshotRecord[];
+  }
+
+  // SERP Overlap Matrix Management
+  async upsertSerpOverlaps(overlaps: CreateK2WSerpOverlap[]): Promise<void> {
+    if (overlaps.length === 0) return;
+
+    const { error } = await supabase
+      .from(TABLE_NAMES.SERP_OVERLAPS)
+      .upsert(overlaps, { onConflict: 'project_id,region,keyword_a,keyword_b' });
+
+    if (error) throw error;
+  }
+
+  async markSerpSnapshotsComputed(projectId: string, region: string, keywords: string[], computedAt: string): Promise<void> {
+    if (keywords.length === 0) return;
+
+    const { error } = await supabase
+      .from(TABLE_NAMES.SERP_SNAPSHOTS)
+      .update({ overlaps_computed_at: computedAt })
+      .eq('project_id', projectId)
+      .eq('region', region)
+      .in('keyword', keywords);
+
+    if (error) throw error;
+  }
+
+  async deleteSerpOverlapsForKeywords(projectId: string, region: string, keywords: string[]): Promise<void> {
+    if (keywords.length === 0) return;
+
+    for (const column of ['keyword_a', 'keyword_b']) {
+      const { error } = await supabase
+        .from(TABLE_NAMES.SERP_OVERLAPS)
+        .delete()
+        .eq('project_id', projectId)
+        .eq('region', region)
+        .in(column, keywords);
+
+      if (error) throw error;
+    }
+  }
+
+  async getSerpOverlaps(projectId: string, region: string, keywords?: string[]): Promise<K2WSerpOverlapRecord[]> {
+    let query = supabase
+      .from(TABLE_NAMES.SERP_OVERLAPS)
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('region', region);
+
+    if (keywords) {
+      query = query.in('keyword_a', keywords).in('keyword_b', keywords);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data as K2WSerpOverlapRecord[];
+  }
+
   // Utility Methods for K2W Workflow
   async getReadyToPublishContent(projectId: string): Promise<K2WContentRecord[]> {
     return this.getContentsByProjectId(projectId, CONTENT_STATUS.READY_TO_PUBLISH);
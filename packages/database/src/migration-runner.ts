@@ -69,7 +69,9 @@ export class MigrationRunner {
 
   async runAllMigrations(): Promise<MigrationResult[]> {
     const migrations = [
-      '001_initial_schema.sql'
+      '001_initial_schema.sql',
+      '002_cluster_embeddings.sql',
+      '003_serp_overlap.sql'
     ];
 
     const results: MigrationResult[] = [];
@@ -2,6 +2,39 @@
 export * from './k2w-workflow';
 export * from './k2w-ai';
 
+// Declarative workflow definitions (workflow.ts also declares stage interfaces that clash with k2w-workflow)
+export {
+  WORKFLOW_DEFINITION_VERSION,
+  WorkflowDefinitionSchema,
+  WorkflowDefinitionStageSchema,
+  WorkflowDefinitionStageTypeSchema,
+  WorkflowConditionSchema,
+  ApprovalGateConfigSchema,
+  WorkflowDefinitionExecutor,
+  validateWorkflowDefinition,
+  parseWorkflowDefinition,
+  getWorkflowExecutionOrder,
+  getWorkflowAncestors,
+  getWorkflowDescendants,
+  getApprovalRevisionStage,
+  evaluateWorkflowCondition
+} from './workflow';
+export type {
+  WorkflowDefinition,
+  WorkflowDefinitionInput,
+  WorkflowDefinitionStage,
+  WorkflowDefinitionStageType,
+  WorkflowCondition,
+  WorkflowConditionOperator,
+  ApprovalGateConfig,
+  WorkflowNodeState,
+  WorkflowNodeStatus,
+  WorkflowStageOutcome,
+  WorkflowStageHandler,
+  WorkflowDefinitionExecutorOptions,
+  WorkflowDefinitionRunResult
+} from './workflow';
+
 // String utilities
 export const slugify = (text: string): string => {
   return text
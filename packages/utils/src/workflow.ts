@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import yaml from 'js-yaml';
 
 /**
  * K2W System Workflow Manager
@@ -155,6 +156,7 @@ export interface HumanApprovalGate {
   stage: WorkflowStage;
   required: boolean;
   approvers: string[];
+  approverRoles?: string[];
   timeoutMinutes: number;
   defaultAction: 'approve' | 'reject' | 'pause';
 }
@@ -250,4 +252,481 @@ export const WorkflowContextSchema = z.object({
 // Export types
 export type K2WWorkflowContext = z.infer<typeof WorkflowContextSchema>;
 export type K2WKeywordInputStage = z.infer<typeof KeywordInputStageSchema>;
-export type K2WContentGenerationStage = z.infer<typeof ContentGenerationStageSchema>;
\ No newline at end of file
+export type K2WContentGenerationStage = z.infer<typeof ContentGenerationStageSchema>;
+
+/**
+ * Declarative Workflow Definitions
+ * Versioned per-project pipelines: stages form a DAG through depends_on, stages whose
+ * dependencies are met run in parallel, and conditions/approval gates decide what runs
+ */
+
+export const WORKFLOW_DEFINITION_VERSION = 1;
+
+export const WorkflowDefinitionStageTypeSchema = z.enum([
+  'keyword_analysis',
+  'content_generation',
+  'image_generation',
+  'seo_optimization',
+  'translation',
+  'publishing',
+  'analytics',
+  'approval'
+]);
+
+export type WorkflowDefinitionStageType = z.infer<typeof WorkflowDefinitionStageTypeSchema>;
+
+export type WorkflowConditionOperator =
+  | 'equals' | 'not_equals' | 'in' | 'not_in' | 'exists' | 'not_exists' | 'gt' | 'gte' | 'lt' | 'lte';
+
+// Conditions read dot-paths (e.g. "options.translation_enabled") from the executor's scope
+export type WorkflowCondition =
+  | { field: string; operator: WorkflowConditionOperator; value?: unknown }
+  | { all: WorkflowCondition[] }
+  | { any: WorkflowCondition[] }
+  | { not: WorkflowCondition };
+
+export const WorkflowConditionSchema: z.ZodType<WorkflowCondition> = z.lazy(() => z.union([
+  z.object({
+    field: z.string().min(1),
+    operator: z.enum(['equals', 'not_equals', 'in', 'not_in', 'exists', 'not_exists', 'gt', 'gte', 'lt', 'lte']),
+    value: z.unknown().optional()
+  }).strict(),
+  z.object({ all: z.array(WorkflowConditionSchema).min(1) }).strict(),
+  z.object({ any: z.array(WorkflowConditionSchema).min(1) }).strict(),
+  z.object({ not: WorkflowConditionSchema }).strict()
+]));
+
+// Config of an 'approval' stage: the HumanApprovalGate of a workflow definition
+export const ApprovalGateConfigSchema = z.object({
+  approvers: z.array(z.string()).default([]), // user ids allowed to decide
+  approver_roles: z.array(z.string()).default([]), // any of these roles may decide; empty = anyone
+  timeout_minutes: z.number().positive().optional(),
+  timeout_action: z.enum(['approve', 'reject', 'pause']).default('pause'),
+  revision_stage: z.string().optional(), // re-run on rejection, default: the content_generation stage it depends on
+  max_revisions: z.number().int().min(0).default(3)
+}).strict();
+
+export type ApprovalGateConfig = z.infer<typeof ApprovalGateConfigSchema>;
+
+export const WorkflowDefinitionStageSchema = z.object({
+  id: z.string().regex(/^[a-z][a-z0-9_-]*$/, 'Stage id must be lowercase letters, digits, "_" or "-"'),
+  type: WorkflowDefinitionStageTypeSchema,
+  name: z.string().optional(),
+  depends_on: z.array(z.string()).default([]),
+  condition: WorkflowConditionSchema.optional(),
+  config: z.record(z.unknown()).default({}), // stage-specific overrides, e.g. publishing { platforms: ['wordpress'] }
+  continue_on_failure: z.boolean().default(false), // dependents still run if this stage fails
+  timeout_minutes: z.number().positive().optional()
+});
+
+export const WorkflowDefinitionSchema = z.object({
+  version: z.literal(WORKFLOW_DEFINITION_VERSION),
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  max_parallel: z.number().int().min(1).max(16).default(4),
+  stages: z.array(WorkflowDefinitionStageSchema).min(1)
+}).superRefine((definition, ctx) => {
+  const ids = new Set<string>();
+  definition.stages.forEach((stage, index) => {
+    if (ids.has(stage.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['stages', index, 'id'], message: `Duplicate stage id "${stage.id}"` });
+    }
+    ids.add(stage.id);
+  });
+
+  definition.stages.forEach((stage, index) => {
+    stage.depends_on.forEach((dependency, dependencyIndex) => {
+      if (dependency === stage.id) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['stages', index, 'depends_on', dependencyIndex], message: `Stage "${stage.id}" depends on itself` });
+      } else if (!ids.has(dependency)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['stages', index, 'depends_on', dependencyIndex], message: `Stage "${stage.id}" depends on unknown stage "${dependency}"` });
+      }
+    });
+  });
+
+  const cycle = findWorkflowCycle(definition.stages);
+  if (cycle) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['stages'], message: `Stage dependencies form a cycle: ${cycle.join(' -> ')}` });
+    return;
+  }
+
+  definition.stages.forEach((stage, index) => {
+    if (stage.type !== 'approval') return;
+
+    const gate = ApprovalGateConfigSchema.safeParse(stage.config);
+    if (!gate.success) {
+      gate.error.issues.forEach(issue => ctx.addIssue({ ...issue, path: ['stages', index, 'config', ...issue.path] }));
+      return;
+    }
+
+    if (!getApprovalRevisionStage(definition, stage.id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['stages', index, 'config', 'revision_stage'],
+        message: `Approval stage "${stage.id}" needs a content_generation stage it depends on to send rejected content back to`
+      });
+    }
+  });
+});
+
+export type WorkflowDefinitionStage = z.infer<typeof WorkflowDefinitionStageSchema>;
+export type WorkflowDefinition = z.infer<typeof WorkflowDefinitionSchema>;
+export type WorkflowDefinitionInput = z.input<typeof WorkflowDefinitionSchema>;
+
+/**
+ * Validate a workflow definition given as a JSON or YAML string, or an already parsed object
+ */
+export const validateWorkflowDefinition = (
+  source: string | unknown
+): { isValid: boolean; definition?: WorkflowDefinition; errors: string[] } => {
+  let raw: unknown = source;
+
+  if (typeof source === 'string') {
+    try {
+      // YAML is a superset of JSON, so one loader handles both formats
+      raw = yaml.load(source);
+    } catch (error: any) {
+      return { isValid: false, errors: [`Invalid JSON/YAML: ${String(error.message).split('\n')[0]}`] };
+    }
+  }
+
+  if (raw && typeof raw === 'object' && 'version' in raw && (raw as { version: unknown }).version !== WORKFLOW_DEFINITION_VERSION) {
+    return { isValid: false, errors: [`Unsupported workflow definition version ${(raw as { version: unknown }).version} (expected ${WORKFLOW_DEFINITION_VERSION})`] };
+  }
+
+  const parsed = WorkflowDefinitionSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      isValid: false,
+      errors: parsed.error.issues.map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+    };
+  }
+
+  return { isValid: true, definition: parsed.data, errors: [] };
+};
+
+/**
+ * Parse a workflow definition, throwing with every validation error when it is invalid
+ */
+export const parseWorkflowDefinition = (source: string | unknown): WorkflowDefinition => {
+  const result = validateWorkflowDefinition(source);
+  if (!result.isValid || !result.definition) {
+    throw new Error(`Invalid workflow definition: ${result.errors.join('; ')}`);
+  }
+  return result.definition;
+};
+
+/**
+ * Group stages into waves: every stage only depends on stages of earlier waves
+ */
+export const getWorkflowExecutionOrder = (definition: WorkflowDefinition): string[][] => {
+  const remaining = new Map(definition.stages.map(stage => [stage.id, new Set(stage.depends_on)]));
+  const waves: string[][] = [];
+
+  while (remaining.size > 0) {
+    const wave = [...remaining.entries()].filter(([, dependencies]) => dependencies.size === 0).map(([id]) => id);
+    if (wave.length === 0) {
+      throw new Error('Workflow definition contains a dependency cycle');
+    }
+
+    wave.forEach(id => remaining.delete(id));
+    remaining.forEach(dependencies => wave.forEach(id => dependencies.delete(id)));
+    waves.push(wave);
+  }
+
+  return waves;
+};
+
+/**
+ * Ids of every stage that (transitively) depends on the given stage
+ */
+export const getWorkflowDescendants = (definition: WorkflowDefinition, stageId: string): string[] => {
+  const descendants = new Set<string>();
+  const queue = [stageId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    definition.stages
+      .filter(stage => stage.depends_on.includes(current) && !descendants.has(stage.id))
+      .forEach(stage => {
+        descendants.add(stage.id);
+        queue.push(stage.id);
+      });
+  }
+
+  return [...descendants];
+};
+
+/**
+ * Ids of every stage the given stage (transitively) depends on
+ */
+export const getWorkflowAncestors = (definition: WorkflowDefinition, stageId: string): string[] => {
+  const byId = new Map(definition.stages.map(stage => [stage.id, stage]));
+  const ancestors = new Set<string>();
+  const queue = [...(byId.get(stageId)?.depends_on || [])];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (ancestors.has(current)) continue;
+    ancestors.add(current);
+    queue.push(...(byId.get(current)?.depends_on || []));
+  }
+
+  return [...ancestors];
+};
+
+/**
+ * Stage an approval gate sends rejected content back to: its configured revision_stage,
+ * otherwise the closest content_generation stage it depends on
+ */
+export const getApprovalRevisionStage = (
+  definition: Pick<WorkflowDefinition, 'stages'>,
+  approvalStageId: string
+): string | null => {
+  const byId = new Map(definition.stages.map(stage => [stage.id, stage]));
+  const configured = byId.get(approvalStageId)?.config.revision_stage;
+
+  // Breadth-first over dependencies, so the nearest content_generation stage wins
+  const visited = new Set<string>();
+  const queue = [...(byId.get(approvalStageId)?.depends_on || [])];
+  while (queue.length > 0) {
+    const current = byId.get(queue.shift()!);
+    if (!current || visited.has(current.id)) continue;
+    visited.add(current.id);
+
+    if (configured ? current.id === configured : current.type === 'content_generation') {
+      return current.type === 'content_generation' ? current.id : null;
+    }
+    queue.push(...current.depends_on);
+  }
+
+  return null;
+};
+
+export const evaluateWorkflowCondition = (condition: WorkflowCondition, scope: Record<string, unknown>): boolean => {
+  if ('all' in condition) return condition.all.every(child => evaluateWorkflowCondition(child, scope));
+  if ('any' in condition) return condition.any.some(child => evaluateWorkflowCondition(child, scope));
+  if ('not' in condition) return !evaluateWorkflowCondition(condition.not, scope);
+
+  const actual = condition.field
+    .split('.')
+    .reduce<unknown>((value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined), scope);
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'equals':
+      return actual === expected;
+    case 'not_equals':
+      return actual !== expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    case 'not_in':
+      return Array.isArray(expected) && !expected.includes(actual);
+    case 'exists':
+      return actual !== undefined && actual !== null && !(Array.isArray(actual) && actual.length === 0);
+    case 'not_exists':
+      return actual === undefined || actual === null || (Array.isArray(actual) && actual.length === 0);
+    case 'gt':
+      return typeof actual === 'number' && typeof expected === 'number' && actual > expected;
+    case 'gte':
+      return typeof actual === 'number' && typeof expected === 'number' && actual >= expected;
+    case 'lt':
+      return typeof actual === 'number' && typeof expected === 'number' && actual < expected;
+    case 'lte':
+      return typeof actual === 'number' && typeof expected === 'number' && actual <= expected;
+  }
+};
+
+const findWorkflowCycle = (stages: Array<{ id: string; depends_on: string[] }>): string[] | null => {
+  const byId = new Map(stages.map(stage => [stage.id, stage]));
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+
+  const visit = (id: string, path: string[]): string[] | null => {
+    if (visiting.has(id)) return [...path.slice(path.indexOf(id)), id];
+    if (visited.has(id) || !byId.has(id)) return null;
+
+    visiting.add(id);
+    for (const dependency of byId.get(id)!.depends_on) {
+      const cycle = visit(dependency, [...path, id]);
+      if (cycle) return cycle;
+    }
+    visiting.delete(id);
+    visited.add(id);
+    return null;
+  };
+
+  for (const stage of stages) {
+    const cycle = visit(stage.id, []);
+    if (cycle) return cycle.reverse();
+  }
+  return null;
+};
+
+// Workflow definition execution
+
+export type WorkflowNodeStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'waiting_for_approval';
+
+export interface WorkflowNodeState {
+  stage_id: string;
+  type: WorkflowDefinitionStageType;
+  status: WorkflowNodeStatus;
+  output?: unknown;
+  error?: string;
+  started_at?: string;
+  completed_at?: string;
+}
+
+export interface WorkflowStageOutcome {
+  status: 'completed' | 'failed' | 'waiting_for_approval';
+  output?: unknown;
+  error?: string;
+}
+
+export type WorkflowStageHandler<TContext> = (
+  stage: WorkflowDefinitionStage,
+  context: TContext,
+  previous?: WorkflowNodeState
+) => Promise<WorkflowStageOutcome>;
+
+export interface WorkflowDefinitionExecutorOptions<TContext> {
+  handlers: Partial<Record<WorkflowDefinitionStageType, WorkflowStageHandler<TContext>>>;
+  conditionScope?: (context: TContext) => Record<string, unknown>;
+  onStageUpdate?: (state: WorkflowNodeState) => void;
+}
+
+export interface WorkflowDefinitionRunResult {
+  status: 'completed' | 'failed' | 'waiting_for_approval';
+  states: Record<string, WorkflowNodeState>;
+}
+
+/**
+ * Runs a workflow definition: stages start as soon as their dependencies have completed
+ * (or been skipped), up to max_parallel at a time. A failed stage blocks its dependents
+ * unless it has continue_on_failure; an approval stage without a handler waits for approval.
+ * Pass the states of an earlier run to resume it — completed and skipped stages are kept.
+ */
+export class WorkflowDefinitionExecutor<TContext> {
+  constructor(
+    private definition: WorkflowDefinition,
+    private options: WorkflowDefinitionExecutorOptions<TContext>
+  ) {}
+
+  async run(
+    context: TContext,
+    previousStates: Record<string, WorkflowNodeState> = {}
+  ): Promise<WorkflowDefinitionRunResult> {
+    const states: Record<string, WorkflowNodeState> = {};
+    for (const stage of this.definition.stages) {
+      const previous = previousStates[stage.id];
+      states[stage.id] = previous && (previous.status === 'completed' || previous.status === 'skipped')
+        ? previous
+        : { ...previous, stage_id: stage.id, type: stage.type, status: 'pending' };
+    }
+
+    let ready = this.getReadyStages(states);
+
+    while (ready.length > 0) {
+      const batch = ready.slice(0, this.definition.max_parallel);
+      await Promise.all(batch.map(stage => this.runStage(stage, context, states, previousStates[stage.id])));
+      ready = this.getReadyStages(states);
+    }
+
+    const nodeStates = Object.values(states);
+    const failed = nodeStates.some(state =>
+      state.status === 'failed' && !this.getStage(state.stage_id).continue_on_failure
+    );
+
+    return {
+      status: failed
+        ? 'failed'
+        : nodeStates.some(state => state.status === 'waiting_for_approval') ? 'waiting_for_approval' : 'completed',
+      states
+    };
+  }
+
+  private getReadyStages(states: Record<string, WorkflowNodeState>): WorkflowDefinitionStage[] {
+    return this.definition.stages.filter(stage =>
+      states[stage.id].status === 'pending' &&
+      stage.depends_on.every(dependency => {
+        const state = states[dependency];
+        return state.status === 'completed' ||
+          state.status === 'skipped' ||
+          (state.status === 'failed' && this.getStage(dependency).continue_on_failure);
+      })
+    );
+  }
+
+  private async runStage(
+    stage: WorkflowDefinitionStage,
+    context: TContext,
+    states: Record<string, WorkflowNodeState>,
+    previous?: WorkflowNodeState
+  ): Promise<void> {
+    const scope = this.options.conditionScope ? this.options.conditionScope(context) : {};
+    if (stage.condition && !evaluateWorkflowCondition(stage.condition, scope)) {
+      this.update(states, { stage_id: stage.id, type: stage.type, status: 'skipped', completed_at: new Date().toISOString() });
+      return;
+    }
+
+    const startedAt = new Date().toISOString();
+    this.update(states, { stage_id: stage.id, type: stage.type, status: 'running', started_at: startedAt });
+
+    const handler = this.options.handlers[stage.type];
+    let outcome: WorkflowStageOutcome;
+
+    try {
+      if (!handler) {
+        outcome = stage.type === 'approval'
+          ? { status: 'waiting_for_approval' }
+          : { status: 'failed', error: `No handler registered for stage type "${stage.type}"` };
+      } else {
+        outcome = await this.withTimeout(handler(stage, context, previous), stage);
+      }
+    } catch (error: any) {
+      outcome = { status: 'failed', error: error?.message || String(error) };
+    }
+
+    this.update(states, {
+      stage_id: stage.id,
+      type: stage.type,
+      status: outcome.status,
+      output: outcome.output,
+      error: outcome.error,
+      started_at: startedAt,
+      completed_at: outcome.status === 'waiting_for_approval' ? undefined : new Date().toISOString()
+    });
+  }
+
+  private async withTimeout(promise: Promise<WorkflowStageOutcome>, stage: WorkflowDefinitionStage): Promise<WorkflowStageOutcome> {
+    if (!stage.timeout_minutes) return promise;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<WorkflowStageOutcome>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Stage "${stage.id}" timed out after ${stage.timeout_minutes} minutes`)),
+        stage.timeout_minutes! * 60 * 1000
+      );
+    });
+
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private update(states: Record<string, WorkflowNodeState>, state: WorkflowNodeState): void {
+    states[state.stage_id] = state;
+    try {
+      this.options.onStageUpdate?.(state);
+    } catch (error) {
+      console.warn('Workflow stage update listener failed:', error);
+    }
+  }
+
+  private getStage(stageId: string): WorkflowDefinitionStage {
+    return this.definition.stages.find(stage => stage.id === stageId)!;
+  }
+}